@@ -0,0 +1,24 @@
+-- Run history for scheduled reports executed by the REPORT job worker
+CREATE TABLE IF NOT EXISTS scheduled_report_runs (
+  id TEXT PRIMARY KEY,
+  scheduled_report_id TEXT NOT NULL REFERENCES scheduled_reports(id) ON DELETE CASCADE,
+  school_id TEXT NOT NULL REFERENCES schools(id) ON DELETE CASCADE,
+  job_id TEXT REFERENCES jobs(id) ON DELETE SET NULL,
+  trigger TEXT NOT NULL DEFAULT 'SCHEDULED',
+  triggered_by TEXT REFERENCES users(id) ON DELETE SET NULL,
+  status TEXT NOT NULL DEFAULT 'PENDING',
+  format TEXT NOT NULL,
+  period_start TIMESTAMPTZ,
+  period_end TIMESTAMPTZ,
+  recipient_count INTEGER NOT NULL DEFAULT 0,
+  artifact_size INTEGER,
+  error TEXT,
+  started_at TIMESTAMPTZ,
+  completed_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS scheduled_report_runs_report_created_idx
+  ON scheduled_report_runs (scheduled_report_id, created_at);
+CREATE INDEX IF NOT EXISTS scheduled_report_runs_status_idx
+  ON scheduled_report_runs (status);
@@ -0,0 +1,5 @@
+-- Jobs that exhaust their retry policy now move to the DEAD (dead-letter) status.
+-- Jobs previously marked FAILED were never retried, so treat them as dead letters.
+UPDATE jobs SET status = 'DEAD' WHERE status = 'FAILED';
+
+CREATE INDEX IF NOT EXISTS jobs_status_run_at_idx ON jobs (status, run_at);
@@ -0,0 +1,6 @@
+-- Tracks the reminders already sent for an approved submission so the daily
+-- compliance sweep sends each offset (e.g. 30/14/3 days) only once.
+ALTER TABLE compliance_submissions ADD COLUMN IF NOT EXISTS last_reminder_days integer;
+
+CREATE INDEX IF NOT EXISTS compliance_sub_status_expires_idx
+  ON compliance_submissions (status, expires_at);
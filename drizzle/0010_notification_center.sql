@@ -0,0 +1,21 @@
+-- Notification center: dismissal, digest delivery and per-type channel preferences.
+ALTER TABLE notifications ADD COLUMN IF NOT EXISTS dismissed_at timestamp with time zone;
+ALTER TABLE notifications ADD COLUMN IF NOT EXISTS digest_pending boolean DEFAULT false NOT NULL;
+
+CREATE INDEX IF NOT EXISTS notifications_user_created_idx ON notifications (user_id, created_at, id);
+CREATE INDEX IF NOT EXISTS notifications_user_read_idx ON notifications (user_id, is_read);
+CREATE INDEX IF NOT EXISTS notifications_expires_idx ON notifications (expires_at);
+
+CREATE TABLE IF NOT EXISTS notification_preferences (
+  id text PRIMARY KEY,
+  user_id text NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  notification_type text NOT NULL,
+  in_app boolean DEFAULT true NOT NULL,
+  email boolean DEFAULT true NOT NULL,
+  digest boolean DEFAULT false NOT NULL,
+  created_at timestamp with time zone DEFAULT NOW() NOT NULL,
+  updated_at timestamp with time zone DEFAULT NOW() NOT NULL
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS notification_preferences_user_type_idx
+  ON notification_preferences (user_id, notification_type);
@@ -0,0 +1,20 @@
+-- Idempotent clock operations: stored responses for retried requests and offline capture audit.
+CREATE TABLE IF NOT EXISTS idempotency_keys (
+  id text PRIMARY KEY,
+  user_id text NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  key text NOT NULL,
+  operation text NOT NULL,
+  request_hash text NOT NULL,
+  status text DEFAULT 'IN_PROGRESS' NOT NULL,
+  response_status integer,
+  response_body jsonb,
+  created_at timestamp with time zone DEFAULT NOW() NOT NULL,
+  completed_at timestamp with time zone,
+  expires_at timestamp with time zone NOT NULL
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idempotency_keys_user_key_idx ON idempotency_keys (user_id, key);
+CREATE INDEX IF NOT EXISTS idempotency_keys_expires_idx ON idempotency_keys (expires_at);
+
+ALTER TABLE time_records ADD COLUMN IF NOT EXISTS clock_in_synced_at timestamp with time zone;
+ALTER TABLE time_records ADD COLUMN IF NOT EXISTS clock_out_synced_at timestamp with time zone;
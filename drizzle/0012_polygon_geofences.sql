@@ -0,0 +1,3 @@
+-- Polygon geofences: optional GeoJSON boundary per site location and facility.
+ALTER TABLE clinical_site_locations ADD COLUMN IF NOT EXISTS boundary jsonb;
+ALTER TABLE facility_management ADD COLUMN IF NOT EXISTS boundary jsonb;
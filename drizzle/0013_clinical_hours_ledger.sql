@@ -0,0 +1,39 @@
+-- Clinical hours ledger: per-school crediting policy and one credited entry per approved time record.
+CREATE TABLE IF NOT EXISTS clinical_hours_policies (
+  id text PRIMARY KEY,
+  school_id text NOT NULL REFERENCES schools(id) ON DELETE CASCADE,
+  rounding_increment_minutes integer DEFAULT 0 NOT NULL,
+  rounding_mode text DEFAULT 'NEAREST' NOT NULL,
+  break_threshold_minutes integer DEFAULT 0 NOT NULL,
+  break_deduction_minutes integer DEFAULT 0 NOT NULL,
+  daily_cap_minutes integer,
+  weekly_cap_minutes integer,
+  timezone text DEFAULT 'UTC' NOT NULL,
+  updated_by text REFERENCES users(id) ON DELETE SET NULL,
+  created_at timestamp with time zone DEFAULT NOW() NOT NULL,
+  updated_at timestamp with time zone DEFAULT NOW() NOT NULL
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS clinical_hours_policies_school_idx ON clinical_hours_policies (school_id);
+
+CREATE TABLE IF NOT EXISTS clinical_hours_ledger (
+  id text PRIMARY KEY,
+  time_record_id text NOT NULL REFERENCES time_records(id) ON DELETE CASCADE,
+  student_id text NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  rotation_id text NOT NULL REFERENCES rotations(id) ON DELETE CASCADE,
+  clinical_site_id text REFERENCES clinical_sites(id) ON DELETE SET NULL,
+  specialty text NOT NULL,
+  work_date text NOT NULL,
+  week_start text NOT NULL,
+  raw_minutes integer NOT NULL,
+  break_minutes integer NOT NULL,
+  rounded_minutes integer NOT NULL,
+  capped_minutes integer NOT NULL,
+  credited_minutes integer NOT NULL,
+  policy jsonb NOT NULL,
+  computed_at timestamp with time zone DEFAULT NOW() NOT NULL
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS clinical_hours_ledger_time_record_idx ON clinical_hours_ledger (time_record_id);
+CREATE INDEX IF NOT EXISTS clinical_hours_ledger_student_idx ON clinical_hours_ledger (student_id, work_date);
+CREATE INDEX IF NOT EXISTS clinical_hours_ledger_rotation_idx ON clinical_hours_ledger (rotation_id);
@@ -0,0 +1,22 @@
+-- School-scoped API keys for machine access; secrets are stored as SHA-256 hashes.
+CREATE TABLE IF NOT EXISTS api_keys (
+  id text PRIMARY KEY,
+  school_id text NOT NULL REFERENCES schools(id) ON DELETE CASCADE,
+  name text NOT NULL,
+  prefix text NOT NULL,
+  key_hash text NOT NULL,
+  -- Keep in step with API_KEY_SCOPES in src/lib/api-key-scopes.ts
+  scopes text[] DEFAULT '{}' NOT NULL CHECK (
+    scopes <@ ARRAY['rotations:read', 'time_records:read', 'clinical_hours:read', 'students:write']
+  ),
+  created_by text NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  expires_at timestamp with time zone,
+  last_used_at timestamp with time zone,
+  last_used_ip text,
+  revoked_at timestamp with time zone,
+  revoked_by text REFERENCES users(id) ON DELETE SET NULL,
+  created_at timestamp with time zone DEFAULT NOW() NOT NULL
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS api_keys_key_hash_idx ON api_keys (key_hash);
+CREATE INDEX IF NOT EXISTS api_keys_school_idx ON api_keys (school_id);
@@ -0,0 +1,37 @@
+-- Outbound webhooks: school endpoints and a log of every delivery attempt.
+CREATE TABLE IF NOT EXISTS webhook_endpoints (
+  id text PRIMARY KEY,
+  school_id text NOT NULL REFERENCES schools(id) ON DELETE CASCADE,
+  url text NOT NULL,
+  description text,
+  events text[] DEFAULT '{}' NOT NULL,
+  secret text NOT NULL,
+  is_active boolean DEFAULT true NOT NULL,
+  created_by text REFERENCES users(id) ON DELETE SET NULL,
+  created_at timestamp with time zone DEFAULT NOW() NOT NULL,
+  updated_at timestamp with time zone DEFAULT NOW() NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS webhook_endpoints_school_idx ON webhook_endpoints (school_id);
+
+CREATE TABLE IF NOT EXISTS webhook_deliveries (
+  id text PRIMARY KEY,
+  endpoint_id text NOT NULL REFERENCES webhook_endpoints(id) ON DELETE CASCADE,
+  school_id text NOT NULL REFERENCES schools(id) ON DELETE CASCADE,
+  event_id text NOT NULL,
+  event_type text NOT NULL,
+  payload jsonb NOT NULL,
+  status text DEFAULT 'PENDING' NOT NULL,
+  attempts integer DEFAULT 0 NOT NULL,
+  response_status integer,
+  response_body text,
+  error text,
+  duration_ms integer,
+  replay_of text,
+  last_attempt_at timestamp with time zone,
+  delivered_at timestamp with time zone,
+  created_at timestamp with time zone DEFAULT NOW() NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS webhook_deliveries_endpoint_created_idx ON webhook_deliveries (endpoint_id, created_at);
+CREATE INDEX IF NOT EXISTS webhook_deliveries_school_created_idx ON webhook_deliveries (school_id, created_at);
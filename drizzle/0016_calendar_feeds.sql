@@ -0,0 +1,14 @@
+-- Per-user iCalendar subscription feeds; URL tokens are stored as SHA-256 hashes.
+CREATE TABLE IF NOT EXISTS calendar_feeds (
+  id text PRIMARY KEY,
+  user_id text NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  kind text NOT NULL,
+  clinical_site_id text REFERENCES clinical_sites(id) ON DELETE CASCADE,
+  token_hash text NOT NULL,
+  last_accessed_at timestamp with time zone,
+  created_at timestamp with time zone DEFAULT NOW() NOT NULL,
+  updated_at timestamp with time zone DEFAULT NOW() NOT NULL
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS calendar_feeds_token_hash_idx ON calendar_feeds (token_hash);
+CREATE INDEX IF NOT EXISTS calendar_feeds_user_idx ON calendar_feeds (user_id);
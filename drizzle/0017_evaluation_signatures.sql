@@ -0,0 +1,21 @@
+-- Evaluation e-signatures: each signature records the signer, request details
+-- and a hash of the evaluation content it covers.
+ALTER TABLE evaluations ADD COLUMN IF NOT EXISTS student_comment text;
+ALTER TABLE evaluations ADD COLUMN IF NOT EXISTS student_comment_type text;
+ALTER TABLE evaluations ADD COLUMN IF NOT EXISTS locked_at timestamp with time zone;
+
+CREATE TABLE IF NOT EXISTS evaluation_signatures (
+  id text PRIMARY KEY,
+  evaluation_id text NOT NULL REFERENCES evaluations(id) ON DELETE CASCADE,
+  signer_id text NOT NULL REFERENCES users(id),
+  signer_role text NOT NULL,
+  signed_name text NOT NULL,
+  content_hash text NOT NULL,
+  ip_address text,
+  user_agent text,
+  signed_at timestamp with time zone DEFAULT NOW() NOT NULL,
+  invalidated_at timestamp with time zone,
+  invalidated_reason text
+);
+
+CREATE INDEX IF NOT EXISTS evaluation_signatures_evaluation_idx ON evaluation_signatures (evaluation_id);
@@ -0,0 +1,67 @@
+-- Tamper-evident audit log: per-school hash chains, signed checkpoints and
+-- policy-driven archival instead of deletes.
+
+-- Entries are immutable, so they must not depend on the user row surviving
+ALTER TABLE audit_logs DROP CONSTRAINT IF EXISTS audit_logs_user_id_users_id_fk;
+
+ALTER TABLE audit_logs ADD COLUMN IF NOT EXISTS school_id text;
+ALTER TABLE audit_logs ADD COLUMN IF NOT EXISTS sequence integer;
+ALTER TABLE audit_logs ADD COLUMN IF NOT EXISTS previous_hash text;
+ALTER TABLE audit_logs ADD COLUMN IF NOT EXISTS hash text;
+
+-- Existing entries stay unchained but are attributed to their school for archival
+UPDATE audit_logs a
+SET school_id = u.school_id
+FROM users u
+WHERE a.user_id = u.id AND a.school_id IS NULL;
+
+CREATE INDEX IF NOT EXISTS audit_logs_chain_idx ON audit_logs (school_id, sequence);
+
+CREATE TABLE IF NOT EXISTS audit_log_archive (
+  id text PRIMARY KEY,
+  user_id text,
+  action text NOT NULL,
+  resource text,
+  resource_id text,
+  details text,
+  ip_address text,
+  user_agent text,
+  session_id text,
+  severity text NOT NULL,
+  status text NOT NULL,
+  created_at timestamp NOT NULL,
+  school_id text,
+  sequence integer,
+  previous_hash text,
+  hash text,
+  archived_at timestamp with time zone DEFAULT NOW() NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS audit_log_archive_chain_idx ON audit_log_archive (school_id, sequence);
+
+CREATE TABLE IF NOT EXISTS audit_chain_heads (
+  chain_key text PRIMARY KEY,
+  school_id text,
+  sequence integer NOT NULL,
+  hash text NOT NULL,
+  updated_at timestamp with time zone DEFAULT NOW() NOT NULL
+);
+
+CREATE TABLE IF NOT EXISTS audit_checkpoints (
+  id text PRIMARY KEY,
+  chain_key text NOT NULL,
+  school_id text,
+  sequence integer NOT NULL,
+  hash text NOT NULL,
+  signature text NOT NULL,
+  created_at timestamp with time zone NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS audit_checkpoints_chain_idx ON audit_checkpoints (chain_key, sequence);
+
+CREATE TABLE IF NOT EXISTS audit_retention_policies (
+  school_id text PRIMARY KEY REFERENCES schools(id) ON DELETE CASCADE,
+  archive_after_days integer NOT NULL,
+  updated_by text REFERENCES users(id),
+  updated_at timestamp with time zone DEFAULT NOW() NOT NULL
+);
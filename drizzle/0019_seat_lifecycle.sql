@@ -0,0 +1,40 @@
+-- Seat lifecycle automation for SCHOOL_PAYS schools: optional auto-expansion
+-- through the seat subscription, capacity warnings and revocation reasons.
+
+ALTER TABLE schools ADD COLUMN IF NOT EXISTS seat_auto_expand boolean DEFAULT false NOT NULL;
+ALTER TABLE schools ADD COLUMN IF NOT EXISTS seat_stripe_subscription_id text;
+ALTER TABLE schools ADD COLUMN IF NOT EXISTS seat_warning_level integer DEFAULT 0 NOT NULL;
+
+ALTER TABLE seat_assignments ADD COLUMN IF NOT EXISTS revoked_reason text;
+
+-- Seats held by students who already graduated or withdrew are released
+UPDATE seat_assignments sa
+SET status = 'REVOKED',
+  revoked_at = NOW(),
+  revoked_reason = CASE u.academic_status WHEN 'GRADUATED' THEN 'GRADUATED' ELSE 'WITHDRAWN' END
+FROM users u
+WHERE sa.student_id = u.id
+  AND sa.status = 'ACTIVE'
+  AND u.academic_status IN ('GRADUATED', 'WITHDRAWN');
+
+-- Keep the earliest of any duplicate active seats before enforcing one per student
+UPDATE seat_assignments
+SET status = 'REVOKED', revoked_at = NOW(), revoked_reason = 'ADMIN'
+WHERE status = 'ACTIVE'
+  AND id NOT IN (
+    SELECT DISTINCT ON (student_id) id
+    FROM seat_assignments
+    WHERE status = 'ACTIVE'
+    ORDER BY student_id, assigned_at
+  );
+
+-- seats_used is derived from active assignments from now on
+UPDATE schools s
+SET seats_used = LEAST(
+  s.seats_limit,
+  (SELECT COUNT(*) FROM seat_assignments sa WHERE sa.school_id = s.id AND sa.status = 'ACTIVE')
+);
+
+-- A student holds at most one active seat
+CREATE UNIQUE INDEX IF NOT EXISTS seat_assignments_active_student_idx
+  ON seat_assignments (student_id) WHERE status = 'ACTIVE';
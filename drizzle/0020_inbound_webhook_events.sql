@@ -0,0 +1,22 @@
+-- Stripe and Clerk webhook event store: deduplication by provider event id,
+-- processing status and replay of failed events.
+
+CREATE TABLE IF NOT EXISTS inbound_webhook_events (
+  id text PRIMARY KEY,
+  source text NOT NULL,
+  event_id text NOT NULL,
+  event_type text NOT NULL,
+  payload jsonb NOT NULL,
+  status text DEFAULT 'PENDING' NOT NULL,
+  attempts integer DEFAULT 0 NOT NULL,
+  last_error text,
+  replay_count integer DEFAULT 0 NOT NULL,
+  received_at timestamp with time zone DEFAULT NOW() NOT NULL,
+  processed_at timestamp with time zone,
+  updated_at timestamp with time zone DEFAULT NOW() NOT NULL
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS inbound_webhook_events_source_event_idx
+  ON inbound_webhook_events (source, event_id);
+CREATE INDEX IF NOT EXISTS inbound_webhook_events_status_received_idx
+  ON inbound_webhook_events (status, received_at);
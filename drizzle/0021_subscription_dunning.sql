@@ -0,0 +1,9 @@
+-- Dunning for student subscriptions: when a student fell past due and which
+-- reminder they last received. Access is read-only once the grace period ends.
+
+ALTER TABLE users ADD COLUMN IF NOT EXISTS past_due_since timestamp with time zone;
+ALTER TABLE users ADD COLUMN IF NOT EXISTS dunning_reminder_day integer;
+
+-- Students already past due start their grace period now
+UPDATE users SET past_due_since = NOW()
+WHERE subscription_status = 'PAST_DUE' AND past_due_since IS NULL;
@@ -0,0 +1,63 @@
+-- Many-to-many affiliation of clinical sites and preceptors with schools:
+-- shared sites with per-school capacity reservations, and preceptors who
+-- teach students from several schools.
+
+CREATE TABLE IF NOT EXISTS site_school_affiliations (
+  id text PRIMARY KEY,
+  clinical_site_id text NOT NULL REFERENCES clinical_sites(id) ON DELETE CASCADE,
+  school_id text NOT NULL REFERENCES schools(id) ON DELETE CASCADE,
+  status text DEFAULT 'ACTIVE' NOT NULL,
+  reserved_capacity integer,
+  created_by text REFERENCES users(id) ON DELETE SET NULL,
+  created_at timestamp DEFAULT NOW() NOT NULL,
+  updated_at timestamp DEFAULT NOW() NOT NULL
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS site_school_affiliations_site_school_unique
+  ON site_school_affiliations (clinical_site_id, school_id);
+CREATE INDEX IF NOT EXISTS site_school_affiliations_school_idx
+  ON site_school_affiliations (school_id);
+
+CREATE TABLE IF NOT EXISTS preceptor_school_affiliations (
+  id text PRIMARY KEY,
+  preceptor_id text NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  school_id text NOT NULL REFERENCES schools(id) ON DELETE CASCADE,
+  status text DEFAULT 'ACTIVE' NOT NULL,
+  created_by text REFERENCES users(id) ON DELETE SET NULL,
+  created_at timestamp DEFAULT NOW() NOT NULL,
+  updated_at timestamp DEFAULT NOW() NOT NULL
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS preceptor_school_affiliations_preceptor_school_unique
+  ON preceptor_school_affiliations (preceptor_id, school_id);
+CREATE INDEX IF NOT EXISTS preceptor_school_affiliations_school_idx
+  ON preceptor_school_affiliations (school_id);
+
+-- Existing sites are affiliated with the school that owns them
+INSERT INTO site_school_affiliations (id, clinical_site_id, school_id)
+SELECT gen_random_uuid()::text, id, school_id
+FROM clinical_sites
+WHERE school_id IS NOT NULL
+ON CONFLICT DO NOTHING;
+
+-- Schools already placing students at another school's site keep access to it
+INSERT INTO site_school_affiliations (id, clinical_site_id, school_id)
+SELECT DISTINCT ON (r.clinical_site_id, u.school_id)
+  gen_random_uuid()::text, r.clinical_site_id, u.school_id
+FROM rotations r
+JOIN users u ON u.id = r.student_id
+JOIN clinical_sites cs ON cs.id = r.clinical_site_id
+WHERE u.school_id IS NOT NULL
+  AND u.school_id IS DISTINCT FROM cs.school_id
+ON CONFLICT DO NOTHING;
+
+-- Likewise for preceptors already teaching students from other schools
+INSERT INTO preceptor_school_affiliations (id, preceptor_id, school_id)
+SELECT DISTINCT ON (r.preceptor_id, s.school_id)
+  gen_random_uuid()::text, r.preceptor_id, s.school_id
+FROM rotations r
+JOIN users s ON s.id = r.student_id
+JOIN users p ON p.id = r.preceptor_id
+WHERE s.school_id IS NOT NULL
+  AND s.school_id IS DISTINCT FROM p.school_id
+ON CONFLICT DO NOTHING;
@@ -0,0 +1,42 @@
+-- Quality reviews gain follow-up reminder tracking and an optional clinical
+-- site, so the quality sweep can open reviews for poorly rated sites.
+-- Improvement plans with owners and milestones replace email threads.
+
+ALTER TABLE quality_reviews ADD COLUMN IF NOT EXISTS follow_up_reminder_sent_at timestamp with time zone;
+ALTER TABLE quality_reviews ADD COLUMN IF NOT EXISTS clinical_site_id text REFERENCES clinical_sites(id) ON DELETE SET NULL;
+ALTER TABLE quality_reviews ADD COLUMN IF NOT EXISTS source text DEFAULT 'MANUAL' NOT NULL;
+ALTER TABLE quality_reviews ADD COLUMN IF NOT EXISTS trigger_reason text;
+
+CREATE INDEX IF NOT EXISTS quality_reviews_site_idx ON quality_reviews (clinical_site_id);
+
+CREATE TABLE IF NOT EXISTS quality_improvement_plans (
+  id text PRIMARY KEY,
+  review_id text NOT NULL REFERENCES quality_reviews(id) ON DELETE CASCADE,
+  school_id text NOT NULL REFERENCES schools(id) ON DELETE CASCADE,
+  title text NOT NULL,
+  description text,
+  owner_id text REFERENCES users(id) ON DELETE SET NULL,
+  status text DEFAULT 'not_started' NOT NULL,
+  due_date timestamp with time zone NOT NULL,
+  completed_at timestamp with time zone,
+  created_by text REFERENCES users(id) ON DELETE SET NULL,
+  created_at timestamp with time zone DEFAULT NOW() NOT NULL,
+  updated_at timestamp with time zone DEFAULT NOW() NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS quality_plans_review_idx ON quality_improvement_plans (review_id);
+CREATE INDEX IF NOT EXISTS quality_plans_school_idx ON quality_improvement_plans (school_id);
+CREATE INDEX IF NOT EXISTS quality_plans_owner_idx ON quality_improvement_plans (owner_id);
+
+CREATE TABLE IF NOT EXISTS quality_plan_milestones (
+  id text PRIMARY KEY,
+  plan_id text NOT NULL REFERENCES quality_improvement_plans(id) ON DELETE CASCADE,
+  title text NOT NULL,
+  due_date timestamp with time zone,
+  completed_at timestamp with time zone,
+  sort_order integer DEFAULT 0 NOT NULL,
+  created_at timestamp with time zone DEFAULT NOW() NOT NULL,
+  updated_at timestamp with time zone DEFAULT NOW() NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS quality_milestones_plan_idx ON quality_plan_milestones (plan_id);
@@ -0,0 +1,6 @@
+-- Record when a quality review was completed, so the quality sweep only reopens
+-- a site review for student ratings submitted after the last one was closed.
+
+ALTER TABLE quality_reviews ADD COLUMN IF NOT EXISTS completed_at timestamp with time zone;
+
+UPDATE quality_reviews SET completed_at = updated_at WHERE status = 'completed' AND completed_at IS NULL;
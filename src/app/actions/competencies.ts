@@ -7,6 +7,7 @@ import { revalidatePath } from "next/cache"
 import { z } from "zod"
 import { v4 as uuidv4 } from "uuid"
 import { getCurrentUser } from "@/lib/auth-clerk"
+import { updateCompetencyVersioned } from "@/lib/competency-deployments"
 
 const competencySchema = z.object({
   name: z.string().min(1, "Name is required"),
@@ -77,24 +78,38 @@ export async function updateCompetency(
   data: Partial<z.infer<typeof competencySchema>>
 ) {
   try {
-    const updateData: Record<string, unknown> = {
-      updatedAt: new Date(),
+    const user = await getCurrentUser()
+    if (!user) {
+      return { success: false, error: "Unauthorized" }
     }
 
-    if (data.name !== undefined) updateData.name = data.name
-    if (data.description !== undefined) updateData.description = data.description
-    if (data.category !== undefined) updateData.category = data.category
-    if (data.level !== undefined) updateData.level = data.level
-    if (data.isRequired !== undefined) updateData.isRequired = data.isRequired
-
-    const [updatedCompetency] = await db
-      .update(competencies)
-      .set(updateData)
+    const [existing] = await db
+      .select({ schoolId: competencies.schoolId })
+      .from(competencies)
       .where(eq(competencies.id, id))
-      .returning()
+      .limit(1)
+    if (!existing || (user.role !== "SUPER_ADMIN" && existing.schoolId !== user.schoolId)) {
+      return { success: false, error: "Competency not found" }
+    }
+
+    // Snapshots the current content as a version before applying the edit
+    const result = await updateCompetencyVersioned(
+      id,
+      {
+        name: data.name,
+        description: data.description,
+        category: data.category,
+        level: data.level,
+        isRequired: data.isRequired,
+      },
+      user.id
+    )
+    if (!result.ok) {
+      return { success: false, error: "Competency not found" }
+    }
 
     revalidatePath("/dashboard/school-admin/programs")
-    return { success: true, data: updatedCompetency }
+    return { success: true, data: result.competency }
   } catch (error) {
     console.error("Failed to update competency:", error)
     return { success: false, error: "Failed to update competency" }
@@ -6,6 +6,7 @@ import { redirect } from "next/navigation"
 import { db } from "@/database/connection-pool"
 import {
   assessments,
+  clinicalHoursLedger,
   clinicalSites,
   competencies,
   evaluations,
@@ -160,15 +161,15 @@ export async function getStudentDashboardData(studentId: string) {
         recentTimeRecords = []
       }
 
-      // Get total clinical hours with safe aggregation
+      // Get total credited clinical hours from the ledger
       let totalClinicalHours = "0"
       try {
         const totalHoursResult = await db
           .select({
-            total: sql<number>`COALESCE(SUM(CAST(${timeRecords.totalHours} AS NUMERIC)), 0)`,
+            total: sql<number>`ROUND(COALESCE(SUM(${clinicalHoursLedger.creditedMinutes}), 0) / 60.0, 2)`,
           })
-          .from(timeRecords)
-          .where(and(eq(timeRecords.studentId, studentId), eq(timeRecords.status, "APPROVED")))
+          .from(clinicalHoursLedger)
+          .where(eq(clinicalHoursLedger.studentId, studentId))
 
         totalClinicalHours = totalHoursResult?.[0]?.total?.toString() || "0"
       } catch (error) {
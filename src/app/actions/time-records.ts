@@ -6,6 +6,8 @@ import { eq } from "drizzle-orm"
 import { revalidatePath } from "next/cache"
 import { auth } from "@clerk/nextjs/server"
 import { getUserById } from "@/lib/rbac-middleware"
+import { syncClinicalHours } from "@/lib/clinical-hours-ledger"
+import { emitTimeRecordApproved } from "@/lib/webhooks"
 
 export async function approveTimeRecord(recordId: string) {
   const { userId } = await auth()
@@ -18,7 +20,7 @@ export async function approveTimeRecord(recordId: string) {
     throw new Error("Unauthorized: Only School Admins can approve records")
   }
 
-  await db
+  const [record] = await db
     .update(timeRecords)
     .set({
       status: "APPROVED",
@@ -27,6 +29,12 @@ export async function approveTimeRecord(recordId: string) {
       updatedAt: new Date(),
     })
     .where(eq(timeRecords.id, recordId))
+    .returning({ studentId: timeRecords.studentId })
+
+  if (record) {
+    await syncClinicalHours(record.studentId)
+    await emitTimeRecordApproved(recordId)
+  }
 
   revalidatePath("/dashboard/school-admin/time-records")
 }
@@ -42,13 +50,16 @@ export async function rejectTimeRecord(recordId: string) {
     throw new Error("Unauthorized: Only School Admins can reject records")
   }
 
-  await db
+  const [record] = await db
     .update(timeRecords)
     .set({
       status: "REJECTED",
       updatedAt: new Date(),
     })
     .where(eq(timeRecords.id, recordId))
+    .returning({ studentId: timeRecords.studentId })
+
+  if (record) await syncClinicalHours(record.studentId)
 
   revalidatePath("/dashboard/school-admin/time-records")
 }
@@ -28,7 +28,7 @@ export const GET = withErrorHandling(async (request: NextRequest) => {
     if (!auth.success) {
       return createErrorResponse(
         auth.error || ERROR_MESSAGES.UNAUTHORIZED,
-        (auth.status as any) || HTTP_STATUS.UNAUTHORIZED
+        auth.status || HTTP_STATUS.UNAUTHORIZED
       )
     }
 
@@ -117,7 +117,7 @@ export const POST = withCSRF(
     if (!auth.success) {
       return createErrorResponse(
         auth.error || ERROR_MESSAGES.UNAUTHORIZED,
-        (auth.status as any) || HTTP_STATUS.UNAUTHORIZED
+        auth.status || HTTP_STATUS.UNAUTHORIZED
       )
     }
 
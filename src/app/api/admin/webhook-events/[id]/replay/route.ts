@@ -0,0 +1,52 @@
+import type { NextRequest } from "next/server"
+import {
+  createErrorResponse,
+  createSuccessResponse,
+  ERROR_MESSAGES,
+  HTTP_STATUS,
+  withErrorHandling,
+} from "@/lib/api-response"
+import { withCSRF } from "@/lib/csrf-middleware"
+import { replayInboundWebhookEvent } from "@/lib/inbound-webhooks"
+import { apiAuthMiddleware, logAuditEvent } from "@/lib/rbac-middleware"
+
+// POST /api/admin/webhook-events/[id]/replay - Run a failed or ignored event again
+export const POST = withCSRF(
+  withErrorHandling(
+    async (request: NextRequest, { params }: { params: Promise<{ id: string }> }) => {
+      const auth = await apiAuthMiddleware(request, { requiredRoles: ["SUPER_ADMIN"] })
+      if (!auth.success) {
+        return createErrorResponse(
+          auth.error || ERROR_MESSAGES.UNAUTHORIZED,
+          auth.status || HTTP_STATUS.UNAUTHORIZED
+        )
+      }
+
+      const { id } = await params
+      const result = await replayInboundWebhookEvent(id)
+      if (!result.ok) {
+        return result.reason === "not_found"
+          ? createErrorResponse(ERROR_MESSAGES.NOT_FOUND, HTTP_STATUS.NOT_FOUND)
+          : createErrorResponse(
+              "Only failed or ignored events can be replayed",
+              HTTP_STATUS.CONFLICT
+            )
+      }
+      const { event } = result
+
+      await logAuditEvent({
+        userId: auth.user?.id,
+        action: "INBOUND_WEBHOOK_REPLAYED",
+        resource: "inbound_webhook_events",
+        resourceId: event.id,
+        details: { source: event.source, eventId: event.eventId, eventType: event.eventType },
+        severity: "MEDIUM",
+      })
+
+      return createSuccessResponse(
+        { event: { id: event.id, status: event.status, replayCount: event.replayCount } },
+        "Webhook event queued for replay"
+      )
+    }
+  )
+)
@@ -0,0 +1,39 @@
+import type { NextRequest } from "next/server"
+import { z } from "zod"
+import {
+  createErrorResponse,
+  createSuccessResponse,
+  ERROR_MESSAGES,
+  HTTP_STATUS,
+  withErrorHandling,
+} from "@/lib/api-response"
+import { isReplayable, listInboundWebhookEvents } from "@/lib/inbound-webhooks"
+import { apiAuthMiddleware } from "@/lib/rbac-middleware"
+
+const querySchema = z.object({
+  source: z.enum(["STRIPE", "CLERK"]).optional(),
+  status: z.enum(["PENDING", "PROCESSING", "PROCESSED", "FAILED", "IGNORED"]).optional(),
+  eventType: z.string().min(1).max(100).optional(),
+  limit: z.coerce.number().int().min(1).max(200).default(50),
+})
+
+// GET /api/admin/webhook-events - Stripe and Clerk events received, newest first
+export const GET = withErrorHandling(async (request: NextRequest) => {
+  const auth = await apiAuthMiddleware(request, { requiredRoles: ["SUPER_ADMIN"] })
+  if (!auth.success) {
+    return createErrorResponse(
+      auth.error || ERROR_MESSAGES.UNAUTHORIZED,
+      auth.status || HTTP_STATUS.UNAUTHORIZED
+    )
+  }
+
+  const parsed = querySchema.safeParse(Object.fromEntries(request.nextUrl.searchParams))
+  if (!parsed.success) {
+    return createErrorResponse("Invalid query", HTTP_STATUS.BAD_REQUEST, parsed.error.issues)
+  }
+
+  const events = await listInboundWebhookEvents(parsed.data)
+  return createSuccessResponse({
+    events: events.map((event) => ({ ...event, replayable: isReplayable(event) })),
+  })
+})
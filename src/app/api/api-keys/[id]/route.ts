@@ -0,0 +1,63 @@
+import { and, eq } from "drizzle-orm"
+import type { NextRequest } from "next/server"
+import { db } from "@/database/connection-pool"
+import { apiKeys } from "@/database/schema"
+import { toApiKeySummary } from "@/lib/api-keys"
+import {
+  createErrorResponse,
+  createSuccessResponse,
+  ERROR_MESSAGES,
+  HTTP_STATUS,
+  withErrorHandling,
+} from "@/lib/api-response"
+import { withCSRF } from "@/lib/csrf-middleware"
+import { logAuditEvent } from "@/lib/rbac-middleware"
+import { getSchoolContext } from "@/lib/school-utils"
+
+const ADMIN_ROLES = ["SUPER_ADMIN", "SCHOOL_ADMIN"]
+
+// DELETE /api/api-keys/[id] - Revoke a key; it stops working immediately
+export const DELETE = withCSRF(
+  withErrorHandling(
+    async (_request: NextRequest, { params }: { params: Promise<{ id: string }> }) => {
+      const context = await getSchoolContext()
+      if (!ADMIN_ROLES.includes(context.userRole) || !context.schoolId) {
+        return createErrorResponse(ERROR_MESSAGES.ACCESS_DENIED, HTTP_STATUS.FORBIDDEN)
+      }
+
+      const { id } = await params
+      const [existing] = await db
+        .select()
+        .from(apiKeys)
+        .where(and(eq(apiKeys.id, id), eq(apiKeys.schoolId, context.schoolId)))
+        .limit(1)
+
+      if (!existing) {
+        return createErrorResponse(ERROR_MESSAGES.NOT_FOUND, HTTP_STATUS.NOT_FOUND)
+      }
+      if (existing.revokedAt) {
+        return createSuccessResponse(
+          { apiKey: toApiKeySummary(existing) },
+          "API key already revoked"
+        )
+      }
+
+      const [revoked] = await db
+        .update(apiKeys)
+        .set({ revokedAt: new Date(), revokedBy: context.userId })
+        .where(eq(apiKeys.id, id))
+        .returning()
+
+      await logAuditEvent({
+        userId: context.userId,
+        action: "API_KEY_REVOKED",
+        resource: "API_KEY",
+        resourceId: id,
+        details: { name: existing.name, schoolId: context.schoolId },
+        severity: "MEDIUM",
+      })
+
+      return createSuccessResponse({ apiKey: toApiKeySummary(revoked) }, "API key revoked")
+    }
+  )
+)
@@ -0,0 +1,96 @@
+import { desc, eq } from "drizzle-orm"
+import type { NextRequest } from "next/server"
+import { z } from "zod"
+import { db } from "@/database/connection-pool"
+import { apiKeys } from "@/database/schema"
+import { API_KEY_SCOPES, generateApiKey, toApiKeySummary } from "@/lib/api-keys"
+import {
+  createErrorResponse,
+  createSuccessResponse,
+  ERROR_MESSAGES,
+  HTTP_STATUS,
+  withErrorHandling,
+} from "@/lib/api-response"
+import { withCSRF } from "@/lib/csrf-middleware"
+import { logAuditEvent } from "@/lib/rbac-middleware"
+import { getSchoolContext } from "@/lib/school-utils"
+
+const ADMIN_ROLES = ["SUPER_ADMIN", "SCHOOL_ADMIN"]
+
+const createKeySchema = z.object({
+  name: z.string().trim().min(1).max(100),
+  scopes: z.array(z.enum(API_KEY_SCOPES)).min(1),
+  // Omit or null for a key that never expires
+  expiresInDays: z.number().int().min(1).max(730).nullable().optional(),
+})
+
+async function getAdminSchool() {
+  const context = await getSchoolContext()
+  if (!ADMIN_ROLES.includes(context.userRole) || !context.schoolId) return null
+  return context
+}
+
+// GET /api/api-keys - API keys issued for the current school
+export const GET = withErrorHandling(async () => {
+  const context = await getAdminSchool()
+  if (!context?.schoolId) {
+    return createErrorResponse(ERROR_MESSAGES.ACCESS_DENIED, HTTP_STATUS.FORBIDDEN)
+  }
+
+  const keys = await db
+    .select()
+    .from(apiKeys)
+    .where(eq(apiKeys.schoolId, context.schoolId))
+    .orderBy(desc(apiKeys.createdAt))
+
+  return createSuccessResponse({ apiKeys: keys.map(toApiKeySummary) })
+})
+
+// POST /api/api-keys - Issue a key; the secret is only returned in this response
+export const POST = withCSRF(
+  withErrorHandling(async (request: NextRequest) => {
+    const context = await getAdminSchool()
+    if (!context?.schoolId) {
+      return createErrorResponse(ERROR_MESSAGES.ACCESS_DENIED, HTTP_STATUS.FORBIDDEN)
+    }
+
+    const parsed = createKeySchema.safeParse(await request.json())
+    if (!parsed.success) {
+      return createErrorResponse(
+        "Invalid request body",
+        HTTP_STATUS.BAD_REQUEST,
+        parsed.error.issues
+      )
+    }
+
+    const { name, scopes, expiresInDays } = parsed.data
+    const { secret, prefix, keyHash } = generateApiKey()
+    const [key] = await db
+      .insert(apiKeys)
+      .values({
+        schoolId: context.schoolId,
+        name,
+        prefix,
+        keyHash,
+        scopes: [...new Set(scopes)],
+        createdBy: context.userId,
+        expiresAt: expiresInDays ? new Date(Date.now() + expiresInDays * 86400000) : null,
+      })
+      .returning()
+
+    await logAuditEvent({
+      userId: context.userId,
+      action: "API_KEY_CREATED",
+      resource: "API_KEY",
+      resourceId: key.id,
+      details: { name, scopes: key.scopes, expiresAt: key.expiresAt, schoolId: context.schoolId },
+      severity: "MEDIUM",
+    })
+
+    return createSuccessResponse(
+      { apiKey: toApiKeySummary(key), secret },
+      "API key created. Copy it now; it will not be shown again.",
+      HTTP_STATUS.CREATED
+    )
+  })
+)
@@ -0,0 +1,83 @@
+import type { NextRequest } from "next/server"
+import { z } from "zod"
+import {
+  createErrorResponse,
+  createSuccessResponse,
+  ERROR_MESSAGES,
+  HTTP_STATUS,
+  withErrorHandling,
+} from "@/lib/api-response"
+import {
+  DEFAULT_ARCHIVE_AFTER_DAYS,
+  getArchiveAfterDays,
+  MAX_ARCHIVE_AFTER_DAYS,
+  MIN_ARCHIVE_AFTER_DAYS,
+  setArchiveAfterDays,
+} from "@/lib/audit-chain"
+import { withCSRF } from "@/lib/csrf-middleware"
+import { logAuditEvent } from "@/lib/rbac-middleware"
+import { getSchoolContext } from "@/lib/school-utils"
+
+const ADMIN_ROLES = ["SUPER_ADMIN", "SCHOOL_ADMIN"]
+
+const retentionSchema = z.object({
+  archiveAfterDays: z.number().int().min(MIN_ARCHIVE_AFTER_DAYS).max(MAX_ARCHIVE_AFTER_DAYS),
+})
+
+async function getAdminSchool() {
+  const context = await getSchoolContext()
+  if (!ADMIN_ROLES.includes(context.userRole) || !context.schoolId) return null
+  return context
+}
+
+// GET /api/audit-logs/retention - When the current school's audit entries are archived
+export const GET = withErrorHandling(async () => {
+  const context = await getAdminSchool()
+  if (!context?.schoolId) {
+    return createErrorResponse(ERROR_MESSAGES.ACCESS_DENIED, HTTP_STATUS.FORBIDDEN)
+  }
+
+  return createSuccessResponse({
+    archiveAfterDays: await getArchiveAfterDays(context.schoolId),
+    defaultArchiveAfterDays: DEFAULT_ARCHIVE_AFTER_DAYS,
+    minArchiveAfterDays: MIN_ARCHIVE_AFTER_DAYS,
+    maxArchiveAfterDays: MAX_ARCHIVE_AFTER_DAYS,
+  })
+})
+
+// PUT /api/audit-logs/retention - Set the archival policy; archived entries are kept, not deleted
+export const PUT = withCSRF(
+  withErrorHandling(async (request: NextRequest) => {
+    const context = await getAdminSchool()
+    if (!context?.schoolId) {
+      return createErrorResponse(ERROR_MESSAGES.ACCESS_DENIED, HTTP_STATUS.FORBIDDEN)
+    }
+
+    const parsed = retentionSchema.safeParse(await request.json())
+    if (!parsed.success) {
+      return createErrorResponse(
+        ERROR_MESSAGES.VALIDATION_ERROR,
+        HTTP_STATUS.BAD_REQUEST,
+        parsed.error.issues
+      )
+    }
+
+    const previous = await getArchiveAfterDays(context.schoolId)
+    const policy = await setArchiveAfterDays(
+      context.schoolId,
+      parsed.data.archiveAfterDays,
+      context.userId
+    )
+
+    await logAuditEvent({
+      userId: context.userId,
+      action: "AUDIT_RETENTION_POLICY_UPDATED",
+      resource: "audit_retention_policies",
+      resourceId: context.schoolId,
+      details: { previous, archiveAfterDays: policy.archiveAfterDays },
+      severity: "HIGH",
+    })
+
+    return createSuccessResponse({ archiveAfterDays: policy.archiveAfterDays })
+  })
+)
@@ -1,5 +1,5 @@
 import { createHash } from "node:crypto"
-import { and, count, desc, eq, gte, inArray, like, lte, type SQL, sql } from "drizzle-orm"
+import { and, count, desc, eq, gte, like, lte, type SQL, sql } from "drizzle-orm"
 import { headers } from "next/headers"
 import { type NextRequest, NextResponse } from "next/server"
 import { z } from "zod"
@@ -8,7 +8,7 @@ import { auditLogs, users } from "../../../database/schema"
 import { getSchoolContext, type SchoolContext } from "../../../lib/school-utils"
 import { cacheIntegrationService } from "@/lib/cache-integration"
 import { withErrorHandling } from "@/lib/api-response"
-import { withCSRF } from "@/lib/csrf-middleware"
+import { type AuditLogEntry, appendAuditLog, appendAuditLogs } from "@/lib/audit-chain"
 
 import type { UserRole } from "@/types"
 /**
@@ -112,14 +112,15 @@ const checkAuditLogAccess = async (
   userRole: string,
   _userId: string,
   _schoolId: string | null,
-  operation: "read" | "write" | "delete" | "export"
+  operation: "read" | "write" | "export"
 ) => {
+  // Entries are never deleted; old ones are archived by retention policy (see /retention)
   const permissions = {
-    SUPER_ADMIN: { read: true, write: true, delete: true, export: true, scope: "global" },
-    SCHOOL_ADMIN: { read: true, write: true, delete: false, export: true, scope: "school" },
-    CLINICAL_PRECEPTOR: { read: true, write: true, delete: false, export: false, scope: "school" },
-    CLINICAL_SUPERVISOR: { read: true, write: true, delete: false, export: false, scope: "school" },
-    STUDENT: { read: false, write: false, delete: false, export: false, scope: "none" },
+    SUPER_ADMIN: { read: true, write: true, export: true, scope: "global" },
+    SCHOOL_ADMIN: { read: true, write: true, export: true, scope: "school" },
+    CLINICAL_PRECEPTOR: { read: true, write: true, export: false, scope: "school" },
+    CLINICAL_SUPERVISOR: { read: true, write: true, export: false, scope: "school" },
+    STUDENT: { read: false, write: false, export: false, scope: "none" },
   }
 
   const userPermissions = permissions[userRole as keyof typeof permissions]
@@ -159,7 +160,7 @@ const buildAccessControlConditions = async (
     return conditions
   }
 
-  // School-based roles can only see logs from their school
+  // School-based roles can only see logs from their school's chain
   if (
     [
       "SCHOOL_ADMIN" as UserRole,
@@ -168,25 +169,12 @@ const buildAccessControlConditions = async (
     ].includes(userRole as UserRole) &&
     schoolId
   ) {
-    // Get all users from the same school
-    const schoolUsers = await db
-      .select({ id: users.id })
-      .from(users)
-      .where(eq(users.schoolId, schoolId))
-
-    const schoolUserIds = schoolUsers.map((u) => u.id)
-    if (schoolUserIds.length > 0) {
-      conditions.push(inArray(auditLogs.userId, schoolUserIds))
-    } else {
-      // If no users found, return impossible condition
-      conditions.push(eq(auditLogs.id, "impossible-id"))
-    }
+    conditions.push(eq(auditLogs.schoolId, schoolId))
+    return conditions
   }
 
-  // Students cannot access audit logs (handled in checkAuditLogAccess)
-  if (userRole === ("STUDENT" as UserRole)) {
-    conditions.push(eq(auditLogs.id, "impossible-id"))
-  }
+  // Everyone else, students included, sees nothing
+  conditions.push(eq(auditLogs.id, "impossible-id"))
 
   return conditions
 }
@@ -326,19 +314,6 @@ const createAuditLogSchema = z.object({
   status: z.enum(STATUS_TYPES).default("SUCCESS"),
 })
 
-// Bulk operations schema
-const _bulkDeleteSchema = z.object({
-  ids: z.array(z.string().uuid()).min(1).max(100),
-  reason: z.string().min(1).max(500).transform(sanitizeString),
-})
-
-// Retention policy schema
-const _retentionPolicySchema = z.object({
-  retentionDays: z.number().min(30).max(2555), // 30 days to 7 years
-  severity: z.enum(SEVERITY_LEVELS).optional(),
-  dryRun: z.boolean().default(true),
-})
-
 /**
  * GET /api/audit-logs - Enhanced audit logs retrieval with comprehensive access control
  *
@@ -616,8 +591,7 @@ export const GET = withErrorHandling(async (request: NextRequest) => {
           })
 
           // Log export activity
-          await db.insert(auditLogs).values({
-            id: crypto.randomUUID(),
+          await appendAuditLog({
             userId: userContext.userId,
             action: "EXPORT_AUDIT_LOGS",
             resource: "audit_logs",
@@ -689,7 +663,7 @@ export const GET = withErrorHandling(async (request: NextRequest) => {
  * - Rate limiting and security headers
  * - Bulk creation support
  * - Enhanced error handling and logging
- * - Integrity hash generation
+ * - Entries are appended to the school's tamper-evident hash chain
  * - Transaction support for bulk operations
  */
 export const POST = withErrorHandling(async (request: NextRequest) => {
@@ -787,7 +761,7 @@ export const POST = withErrorHandling(async (request: NextRequest) => {
           createdAt: new Date(),
         }
 
-        // Note: Integrity hash generation available but not stored in database
+        // The chain hash is computed when the entry is appended
 
         validatedEntries.push(enrichedData)
       } catch (validationError) {
@@ -823,32 +797,9 @@ export const POST = withErrorHandling(async (request: NextRequest) => {
     // Execute database operations
     let insertedData: unknown
     try {
-      if (isBulkOperation) {
-        // Use transaction for bulk operations
-        insertedData = await db.transaction(async (tx) => {
-          const insertedLogs = []
-
-          // Insert in batches of 50 for better performance
-          const batchSize = 50
-          for (let i = 0; i < validatedEntries.length; i += batchSize) {
-            const batch = validatedEntries.slice(i, i + batchSize)
-            const batchResult = await tx
-              .insert(auditLogs)
-              .values(batch as (typeof auditLogs.$inferInsert)[])
-              .returning()
-
-            insertedLogs.push(...batchResult)
-          }
-
-          return insertedLogs
-        })
-      } else {
-        // Single entry insertion
-        insertedData = await db
-          .insert(auditLogs)
-          .values(validatedEntries[0] as typeof auditLogs.$inferInsert)
-          .returning()
-      }
+      // Entries are appended to the caller's school chain in one transaction
+      const insertedLogs = await appendAuditLogs(validatedEntries as AuditLogEntry[])
+      insertedData = isBulkOperation ? insertedLogs : insertedLogs.slice(0, 1)
 
       // Create the result object with proper structure
       const _result = {
@@ -858,8 +809,7 @@ export const POST = withErrorHandling(async (request: NextRequest) => {
       }
 
       // Log the creation activity
-      await db.insert(auditLogs).values({
-        id: crypto.randomUUID(),
+      await appendAuditLog({
         userId: userContext.userId,
         action: isBulkOperation ? "BULK_CREATE_AUDIT_LOGS" : "CREATE_AUDIT_LOG",
         resource: "audit_logs",
@@ -929,348 +879,3 @@ export const POST = withErrorHandling(async (request: NextRequest) => {
     return addSecurityHeaders(response)
   }
 })
-
-// Enhanced deletion parameters validation
-const deleteParamsSchema = z.object({
-  // Single record deletion
-  id: z.string().uuid().optional(),
-
-  // Bulk deletion criteria
-  retentionDays: z.coerce.number().min(1).max(2555).optional(), // 1 day to 7 years
-  userId: z.string().uuid().optional(),
-  action: z
-    .string()
-    .min(1)
-    .max(100)
-    .optional()
-    .transform((val) => (val ? sanitizeString(val) : val)),
-  resource: z
-    .string()
-    .min(1)
-    .max(50)
-    .optional()
-    .transform((val) => (val ? sanitizeString(val) : val)),
-  severity: z.enum(SEVERITY_LEVELS).optional(),
-  status: z.enum(STATUS_TYPES).optional(),
-  startDate: z.string().datetime().optional(),
-  endDate: z.string().datetime().optional(),
-
-  // Safety and control parameters
-  force: z.coerce.boolean().default(false),
-  confirmed: z.coerce.boolean().default(false),
-  dryRun: z.coerce.boolean().default(false),
-  limit: z.coerce.number().min(1).max(10000).default(1000),
-
-  // Operation type flags
-  bulkDelete: z.coerce.boolean().default(false),
-  deleteAll: z.coerce.boolean().default(false),
-})
-
-/**
- * DELETE /api/audit-logs - Enhanced audit log deletion with comprehensive controls
- *
- * Features:
- * - Role-based access control with strict permissions
- * - Bulk deletion with retention policies
- * - Selective deletion by criteria
- * - Enhanced error handling and logging
- * - Transaction support for data integrity
- * - Audit trail for all deletion activities
- * - Safety checks and confirmation requirements
- */
-export const DELETE = withCSRF(async (request: NextRequest) => {
-  const startTime = Date.now()
-  let context: { userId?: string; userRole?: string; schoolId?: string | null } | null = null
-
-  try {
-    // Get client IP for rate limiting
-    const headersList = await headers()
-    const clientIP = headersList.get("x-forwarded-for") || headersList.get("x-real-ip") || "unknown"
-
-    // Apply strict rate limiting for DELETE operations
-    if (!checkRateLimit(clientIP, 10, 60000)) {
-      logError(new Error("Rate limit exceeded"), "DELETE_RATE_LIMIT", clientIP)
-      const response = NextResponse.json(
-        { error: "Rate limit exceeded. Please try again later." },
-        { status: 429 }
-      )
-      return addSecurityHeaders(response)
-    }
-
-    // Get user context
-    context = await getSchoolContext()
-    if (!context?.userId) {
-      const response = NextResponse.json({ error: "Authentication required" }, { status: 401 })
-      return addSecurityHeaders(response)
-    }
-
-    // Type assertion after null check
-    const userContext = context as { userId: string; userRole: string; schoolId: string | null }
-
-    // Check permissions - only specific roles can delete audit logs
-    const accessCheck = await checkAuditLogAccess(
-      userContext.userRole,
-      userContext.userId,
-      userContext.schoolId,
-      "delete"
-    )
-
-    if (!accessCheck.allowed) {
-      logError(
-        new Error(`Delete access denied: ${accessCheck.reason}`),
-        "DELETE_ACCESS_DENIED",
-        userContext.userId
-      )
-      const response = NextResponse.json(
-        { error: "Insufficient permissions", reason: accessCheck.reason },
-        { status: 403 }
-      )
-      return addSecurityHeaders(response)
-    }
-
-    // Parse and validate query parameters
-    const { searchParams } = new URL(request.url)
-    const rawParams = Object.fromEntries(searchParams.entries())
-
-    let validatedParams: z.infer<typeof deleteParamsSchema>
-    try {
-      validatedParams = deleteParamsSchema.parse(rawParams)
-    } catch (validationError) {
-      logError(validationError, "DELETE_VALIDATION_ERROR", userContext.userId)
-      const response = NextResponse.json(
-        {
-          error: "Invalid query parameters",
-          details:
-            validationError instanceof z.ZodError ? validationError.issues : "Validation failed",
-        },
-        { status: 400 }
-      )
-      return addSecurityHeaders(response)
-    }
-
-    // Safety checks for retention policies
-    if (validatedParams.retentionDays && !validatedParams.force) {
-      if (validatedParams.retentionDays < 30) {
-        const response = NextResponse.json(
-          {
-            error: "Minimum retention period is 30 days",
-            suggestion: "Use force=true to override this safety check",
-          },
-          { status: 400 }
-        )
-        return addSecurityHeaders(response)
-      }
-    }
-
-    // Require confirmation for bulk deletions
-    if (
-      !validatedParams.confirmed &&
-      (validatedParams.retentionDays || validatedParams.bulkDelete || validatedParams.deleteAll)
-    ) {
-      const response = NextResponse.json(
-        {
-          error: "Confirmation required for bulk deletion operations",
-          suggestion: "Add confirmed=true to proceed with deletion",
-        },
-        { status: 400 }
-      )
-      return addSecurityHeaders(response)
-    }
-
-    // Build deletion conditions
-    const conditions: SQL[] = []
-    let deletionType = "selective"
-    let estimatedCount = 0
-
-    // Add access control conditions
-    const accessConditions = await buildAccessControlConditions(
-      userContext.userRole,
-      userContext.userId,
-      userContext.schoolId,
-      validatedParams
-    )
-    conditions.push(...accessConditions)
-
-    // Single record deletion
-    if (validatedParams.id) {
-      conditions.push(eq(auditLogs.id, validatedParams.id))
-      deletionType = "single"
-    }
-
-    // Retention-based deletion
-    if (validatedParams.retentionDays) {
-      const cutoffDate = new Date()
-      cutoffDate.setDate(cutoffDate.getDate() - validatedParams.retentionDays)
-      conditions.push(lte(auditLogs.createdAt, cutoffDate))
-      deletionType = "retention"
-    }
-
-    // Specific criteria deletion
-    if (validatedParams.userId) {
-      conditions.push(eq(auditLogs.userId, validatedParams.userId))
-    }
-
-    if (validatedParams.action) {
-      conditions.push(like(auditLogs.action, `%${validatedParams.action}%`))
-    }
-
-    if (validatedParams.resource) {
-      conditions.push(eq(auditLogs.resource, validatedParams.resource))
-    }
-
-    if (validatedParams.severity) {
-      conditions.push(eq(auditLogs.severity, validatedParams.severity))
-    }
-
-    if (validatedParams.status) {
-      conditions.push(eq(auditLogs.status, validatedParams.status))
-    }
-
-    if (validatedParams.startDate) {
-      conditions.push(gte(auditLogs.createdAt, new Date(validatedParams.startDate)))
-    }
-
-    if (validatedParams.endDate) {
-      conditions.push(lte(auditLogs.createdAt, new Date(validatedParams.endDate)))
-    }
-
-    // Get estimated count before deletion
-    try {
-      const [{ total }] = await db
-        .select({ total: count() })
-        .from(auditLogs)
-        .leftJoin(users, eq(auditLogs.userId, users.id))
-        .where(conditions.length > 0 ? and(...conditions) : undefined)
-
-      estimatedCount = total || 0
-    } catch (countError) {
-      logError(countError, "DELETE_COUNT_ERROR", userContext.userId)
-    }
-
-    // Safety check for large deletions
-    if (estimatedCount > 10000 && !validatedParams.force) {
-      const response = NextResponse.json(
-        {
-          error: `Large deletion detected (${estimatedCount} records)`,
-          suggestion: "Use force=true to proceed with large deletion",
-          estimatedCount,
-        },
-        { status: 400 }
-      )
-      return addSecurityHeaders(response)
-    }
-
-    // Handle dry run
-    if (validatedParams.dryRun) {
-      const response = NextResponse.json({
-        success: true,
-        dryRun: true,
-        estimatedCount,
-        deletionType,
-        message: `Dry run: Would delete ${estimatedCount} audit log records`,
-      })
-      return addSecurityHeaders(response)
-    }
-
-    // Execute deletion in transaction
-    let deletionResult: { deletedCount: number; deletedIds: string[] }
-    try {
-      deletionResult = await db.transaction(async (tx) => {
-        // Get records to be deleted for audit trail
-        const recordsToDelete = await tx
-          .select({
-            id: auditLogs.id,
-            userId: auditLogs.userId,
-            action: auditLogs.action,
-            resource: auditLogs.resource,
-            createdAt: auditLogs.createdAt,
-          })
-          .from(auditLogs)
-          .leftJoin(users, eq(auditLogs.userId, users.id))
-          .where(conditions.length > 0 ? and(...conditions) : undefined)
-          .limit(validatedParams.limit || 1000) // Safety limit
-
-        // Perform deletion
-        const deletedLogs = await tx
-          .delete(auditLogs)
-          .where(conditions.length > 0 ? and(...conditions) : undefined)
-          .returning({ id: auditLogs.id, createdAt: auditLogs.createdAt })
-
-        return {
-          deletedCount: deletedLogs.length,
-          deletedIds: deletedLogs.map((log) => log.id),
-          deleted: deletedLogs,
-          preview: recordsToDelete,
-        }
-      })
-    } catch (dbError) {
-      logError(dbError, "DELETE_DATABASE_ERROR", userContext.userId)
-      const response = NextResponse.json(
-        {
-          error: "Database operation failed",
-          message:
-            process.env.NODE_ENV === "development"
-              ? (dbError as Error).message
-              : "Failed to delete audit logs",
-        },
-        { status: 500 }
-      )
-      return addSecurityHeaders(response)
-    }
-
-    // Log the deletion activity
-    try {
-      await db.insert(auditLogs).values({
-        id: crypto.randomUUID(),
-        userId: userContext.userId,
-        action: "DELETE_AUDIT_LOGS",
-        resource: "audit_logs",
-        details: JSON.stringify({
-          deletionType,
-          deletedCount: deletionResult.deletedCount,
-          estimatedCount,
-          criteria: validatedParams,
-          force: validatedParams.force || false,
-          confirmed: validatedParams.confirmed || false,
-        }),
-        ipAddress: clientIP,
-        userAgent: headersList.get("user-agent") || "unknown",
-        severity: "HIGH",
-        status: "SUCCESS",
-        createdAt: new Date(),
-      })
-    } catch (logError) {
-      // Don't fail the operation if logging fails
-      console.error("Failed to log deletion activity:", logError)
-    }
-
-    const responseData = {
-      success: true,
-      message: "Audit logs deleted successfully",
-      deletedCount: deletionResult.deletedCount,
-      estimatedCount,
-      deletionType,
-      meta: {
-        processingTime: Date.now() - startTime,
-        userRole: userContext.userRole,
-        criteria: validatedParams,
-      },
-    }
-
-    const response = NextResponse.json(responseData)
-    return addSecurityHeaders(response)
-  } catch (error) {
-    logError(error, "DELETE_UNEXPECTED_ERROR", context?.userId)
-    const response = NextResponse.json(
-      {
-        error: "Internal server error",
-        message:
-          process.env.NODE_ENV === "development"
-            ? (error as Error).message
-            : "An unexpected error occurred",
-      },
-      { status: 500 }
-    )
-    return addSecurityHeaders(response)
-  }
-})
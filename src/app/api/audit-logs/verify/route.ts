@@ -0,0 +1,49 @@
+import type { NextRequest } from "next/server"
+import {
+  createErrorResponse,
+  createSuccessResponse,
+  ERROR_MESSAGES,
+  HTTP_STATUS,
+  withErrorHandling,
+} from "@/lib/api-response"
+import { PLATFORM_CHAIN, verifyAuditChain } from "@/lib/audit-chain"
+import { logAuditEvent } from "@/lib/rbac-middleware"
+import { getSchoolContext } from "@/lib/school-utils"
+
+export const maxDuration = 300
+
+// GET /api/audit-logs/verify - Walk a school's audit hash chain and report any breaks
+export const GET = withErrorHandling(async (request: NextRequest) => {
+  const context = await getSchoolContext()
+  const requested = request.nextUrl.searchParams.get("schoolId")
+
+  // Super admins may check any school or the platform chain; school admins only their own
+  let schoolId: string | null
+  if (context.userRole === "SUPER_ADMIN") {
+    schoolId = !requested || requested === PLATFORM_CHAIN ? null : requested
+  } else if (context.userRole === "SCHOOL_ADMIN" && context.schoolId) {
+    if (requested && requested !== context.schoolId) {
+      return createErrorResponse(ERROR_MESSAGES.ACCESS_DENIED, HTTP_STATUS.FORBIDDEN)
+    }
+    schoolId = context.schoolId
+  } else {
+    return createErrorResponse(ERROR_MESSAGES.ACCESS_DENIED, HTTP_STATUS.FORBIDDEN)
+  }
+
+  const verification = await verifyAuditChain(schoolId)
+
+  await logAuditEvent({
+    userId: context.userId,
+    action: "AUDIT_CHAIN_VERIFIED",
+    resource: "audit_logs",
+    details: {
+      schoolId,
+      valid: verification.valid,
+      verifiedEntries: verification.verifiedEntries,
+      breaks: verification.breaks.length,
+    },
+    severity: verification.valid ? "LOW" : "CRITICAL",
+  })
+
+  return createSuccessResponse(verification)
+})
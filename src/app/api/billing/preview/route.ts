@@ -0,0 +1,112 @@
+import { eq } from "drizzle-orm"
+import type { NextRequest } from "next/server"
+import { z } from "zod"
+import { db } from "@/database/connection-pool"
+import { schools, subscriptions } from "@/database/schema"
+import {
+  createErrorResponse,
+  createSuccessResponse,
+  ERROR_MESSAGES,
+  HTTP_STATUS,
+  withErrorHandling,
+} from "@/lib/api-response"
+import { logger } from "@/lib/logger"
+import { getPlans, getSchoolSeatPlans } from "@/lib/payments/plans-service"
+import {
+  type ChangePreview,
+  previewNewSubscription,
+  previewSubscriptionChange,
+} from "@/lib/payments/proration"
+import { apiAuthMiddleware } from "@/lib/rbac-middleware"
+
+const querySchema = z.discriminatedUnion("type", [
+  z.object({
+    type: z.literal("plan_switch"),
+    priceId: z.string().min(1),
+  }),
+  z.object({
+    type: z.literal("seat_purchase"),
+    schoolId: z.string().min(1),
+    quantity: z.coerce.number().int().min(1).max(10000),
+    interval: z.enum(["month", "year"]),
+  }),
+])
+
+// GET /api/billing/preview - What a plan switch or seat purchase will cost before confirming
+export const GET = withErrorHandling(async (request: NextRequest) => {
+  const auth = await apiAuthMiddleware(request)
+  if (!auth.success || !auth.user) {
+    return createErrorResponse(
+      auth.error || ERROR_MESSAGES.UNAUTHORIZED,
+      auth.status || HTTP_STATUS.UNAUTHORIZED
+    )
+  }
+  const { user } = auth
+
+  const parsed = querySchema.safeParse(Object.fromEntries(request.nextUrl.searchParams))
+  if (!parsed.success) {
+    return createErrorResponse("Invalid query", HTTP_STATUS.BAD_REQUEST, parsed.error.issues)
+  }
+  const query = parsed.data
+
+  let preview: () => Promise<ChangePreview>
+  if (query.type === "plan_switch") {
+    const plans = await getPlans()
+    if (!plans.some((plan) => plan.stripePriceId === query.priceId)) {
+      return createErrorResponse("Unknown plan", HTTP_STATUS.BAD_REQUEST)
+    }
+
+    const [subscription] = await db
+      .select({ stripeSubscriptionId: subscriptions.stripeSubscriptionId })
+      .from(subscriptions)
+      .where(eq(subscriptions.referenceId, user.id))
+      .limit(1)
+    const subscriptionId = subscription?.stripeSubscriptionId
+
+    preview = () =>
+      subscriptionId
+        ? previewSubscriptionChange(subscriptionId, { priceId: query.priceId })
+        : previewNewSubscription(query.priceId)
+  } else {
+    const allowed =
+      user.role === "SUPER_ADMIN" ||
+      (user.role === "SCHOOL_ADMIN" && user.schoolId === query.schoolId)
+    if (!allowed) {
+      return createErrorResponse(ERROR_MESSAGES.FORBIDDEN, HTTP_STATUS.FORBIDDEN)
+    }
+
+    const seatPlan = (await getSchoolSeatPlans()).find((plan) => plan.interval === query.interval)
+    if (!seatPlan) {
+      return createErrorResponse("Seat pricing not configured", HTTP_STATUS.NOT_FOUND)
+    }
+
+    const [school] = await db
+      .select({ seatStripeSubscriptionId: schools.seatStripeSubscriptionId })
+      .from(schools)
+      .where(eq(schools.id, query.schoolId))
+      .limit(1)
+    if (!school) {
+      return createErrorResponse(ERROR_MESSAGES.NOT_FOUND, HTTP_STATUS.NOT_FOUND)
+    }
+    const subscriptionId = school.seatStripeSubscriptionId
+
+    // Schools with a seat subscription add to it; others start one at checkout
+    preview = () =>
+      subscriptionId
+        ? previewSubscriptionChange(subscriptionId, {
+            priceId: seatPlan.stripePriceId,
+            addQuantity: query.quantity,
+          })
+        : previewNewSubscription(seatPlan.stripePriceId, query.quantity)
+  }
+
+  try {
+    return createSuccessResponse({ preview: await preview() })
+  } catch (error) {
+    logger.error({ err: error, query }, "Failed to preview subscription change")
+    return createErrorResponse(
+      "Pricing is unavailable right now. Please try again shortly.",
+      HTTP_STATUS.SERVICE_UNAVAILABLE
+    )
+  }
+})
@@ -0,0 +1,27 @@
+import type { NextRequest } from "next/server"
+import {
+  createErrorResponse,
+  createSuccessResponse,
+  ERROR_MESSAGES,
+  HTTP_STATUS,
+  withErrorHandling,
+} from "@/lib/api-response"
+import { deleteCalendarFeed } from "@/lib/calendar-feeds"
+import { withCSRF } from "@/lib/csrf-middleware"
+import { getSchoolContext } from "@/lib/school-utils"
+
+// DELETE /api/calendar-feeds/[id] - Stop a calendar feed; its URL stops working immediately
+export const DELETE = withCSRF(
+  withErrorHandling(
+    async (_request: NextRequest, { params }: { params: Promise<{ id: string }> }) => {
+      const context = await getSchoolContext()
+      const { id } = await params
+
+      const deleted = await deleteCalendarFeed(context.userId, id)
+      if (!deleted) {
+        return createErrorResponse(ERROR_MESSAGES.NOT_FOUND, HTTP_STATUS.NOT_FOUND)
+      }
+      return createSuccessResponse({ id }, "Calendar feed removed")
+    }
+  )
+)
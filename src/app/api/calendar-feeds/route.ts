@@ -0,0 +1,82 @@
+import type { NextRequest } from "next/server"
+import { z } from "zod"
+import {
+  createErrorResponse,
+  createSuccessResponse,
+  HTTP_STATUS,
+  withErrorHandling,
+} from "@/lib/api-response"
+import {
+  calendarFeedUrl,
+  issueCalendarFeed,
+  listCalendarFeeds,
+  listFeedSites,
+  validateCalendarFeedTarget,
+} from "@/lib/calendar-feeds"
+import { withCSRF } from "@/lib/csrf-middleware"
+import { logAuditEvent } from "@/lib/rbac-middleware"
+import { getSchoolContext } from "@/lib/school-utils"
+
+const issueFeedSchema = z.discriminatedUnion("kind", [
+  z.object({ kind: z.literal("PERSONAL") }),
+  z.object({ kind: z.literal("SITE"), clinicalSiteId: z.string().min(1) }),
+])
+
+// GET /api/calendar-feeds - The current user's calendar feeds and the sites they can subscribe to
+export const GET = withErrorHandling(async () => {
+  const context = await getSchoolContext()
+  const [feeds, sites] = await Promise.all([
+    listCalendarFeeds(context.userId),
+    listFeedSites({ role: context.userRole, schoolId: context.schoolId }),
+  ])
+  return createSuccessResponse({ feeds, sites })
+})
+
+// POST /api/calendar-feeds - Create a feed, or reset its URL if it already exists
+export const POST = withCSRF(
+  withErrorHandling(async (request: NextRequest) => {
+    const context = await getSchoolContext()
+
+    const parsed = issueFeedSchema.safeParse(await request.json())
+    if (!parsed.success) {
+      return createErrorResponse(
+        "Invalid request body",
+        HTTP_STATUS.BAD_REQUEST,
+        parsed.error.issues
+      )
+    }
+
+    const error = await validateCalendarFeedTarget(
+      { role: context.userRole, schoolId: context.schoolId },
+      parsed.data
+    )
+    if (error) {
+      return createErrorResponse(error, HTTP_STATUS.FORBIDDEN)
+    }
+
+    const { feed, token, reset } = await issueCalendarFeed(context.userId, parsed.data)
+
+    if (reset) {
+      await logAuditEvent({
+        userId: context.userId,
+        action: "CALENDAR_FEED_RESET",
+        resource: "CALENDAR_FEED",
+        resourceId: feed.id,
+        details: { kind: feed.kind, clinicalSiteId: feed.clinicalSiteId },
+        severity: "LOW",
+      })
+    }
+
+    const origin = process.env.NEXT_PUBLIC_APP_URL || new URL(request.url).origin
+    return createSuccessResponse(
+      {
+        feed: { id: feed.id, kind: feed.kind, clinicalSiteId: feed.clinicalSiteId },
+        url: calendarFeedUrl(origin, token),
+      },
+      reset
+        ? "Calendar URL reset. The previous URL no longer works."
+        : "Calendar feed created. Copy the URL now; it will not be shown again.",
+      reset ? HTTP_STATUS.OK : HTTP_STATUS.CREATED
+    )
+  })
+)
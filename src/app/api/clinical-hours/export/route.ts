@@ -0,0 +1,75 @@
+import { and, asc, eq, gte, sql } from "drizzle-orm"
+import type { NextRequest } from "next/server"
+import { z } from "zod"
+import { db } from "@/database/connection-pool"
+import { clinicalHoursLedger, users } from "@/database/schema"
+import {
+  createErrorResponse,
+  createSuccessResponse,
+  ERROR_MESSAGES,
+  HTTP_STATUS,
+  withErrorHandling,
+} from "@/lib/api-response"
+import { getHoursPolicy } from "@/lib/clinical-hours-ledger"
+import { apiAuthMiddleware } from "@/lib/rbac-middleware"
+
+const querySchema = z.object({
+  // Only students whose ledger was rebuilt at or after this instant
+  since: z.iso.datetime({ offset: true }).optional(),
+})
+
+// GET /api/clinical-hours/export - Credited hours for every student in the school
+// Accepts API keys with the clinical_hours:read scope for unattended exports.
+export const GET = withErrorHandling(async (request: NextRequest) => {
+  const authResult = await apiAuthMiddleware(request, {
+    requiredRoles: ["SUPER_ADMIN", "SCHOOL_ADMIN"],
+    requiredScopes: ["clinical_hours:read"],
+  })
+  if (!authResult.success || !authResult.user) {
+    return createErrorResponse(
+      authResult.error || ERROR_MESSAGES.UNAUTHORIZED,
+      authResult.status || HTTP_STATUS.UNAUTHORIZED
+    )
+  }
+
+  const schoolId = authResult.user.schoolId
+  if (!schoolId) {
+    return createErrorResponse("No school selected", HTTP_STATUS.BAD_REQUEST)
+  }
+
+  const parsed = querySchema.safeParse(Object.fromEntries(new URL(request.url).searchParams))
+  if (!parsed.success) {
+    return createErrorResponse("Invalid query", HTTP_STATUS.BAD_REQUEST, parsed.error.issues)
+  }
+  const since = parsed.data.since ? new Date(parsed.data.since) : null
+
+  const creditedMinutes = sql<number>`COALESCE(SUM(${clinicalHoursLedger.creditedMinutes}), 0)::int`
+  const lastComputedAt = sql<Date | null>`MAX(${clinicalHoursLedger.computedAt})`
+
+  const students = await db
+    .select({
+      id: users.id,
+      name: users.name,
+      email: users.email,
+      studentId: users.studentId,
+      creditedMinutes,
+      recordCount: sql<number>`COUNT(${clinicalHoursLedger.id})::int`,
+      lastComputedAt,
+    })
+    .from(users)
+    .leftJoin(clinicalHoursLedger, eq(clinicalHoursLedger.studentId, users.id))
+    .where(and(eq(users.schoolId, schoolId), eq(users.role, "STUDENT")))
+    .groupBy(users.id)
+    .having(since ? gte(lastComputedAt, since) : undefined)
+    .orderBy(asc(users.name))
+
+  return createSuccessResponse({
+    schoolId,
+    generatedAt: new Date().toISOString(),
+    policy: await getHoursPolicy(schoolId),
+    students: students.map((student) => ({
+      ...student,
+      creditedHours: Math.round((student.creditedMinutes / 60) * 100) / 100,
+    })),
+  })
+})
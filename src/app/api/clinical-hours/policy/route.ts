@@ -0,0 +1,91 @@
+import { eq } from "drizzle-orm"
+import type { NextRequest } from "next/server"
+import { z } from "zod"
+import { db } from "@/database/connection-pool"
+import { clinicalHoursPolicies } from "@/database/schema"
+import {
+  createErrorResponse,
+  createSuccessResponse,
+  ERROR_MESSAGES,
+  HTTP_STATUS,
+  withErrorHandling,
+} from "@/lib/api-response"
+import {
+  getHoursPolicy,
+  isValidTimeZone,
+  recomputeSchoolClinicalHours,
+} from "@/lib/clinical-hours-ledger"
+import { withCSRF } from "@/lib/csrf-middleware"
+import { getSchoolContext } from "@/lib/school-utils"
+
+const ADMIN_ROLES = ["SUPER_ADMIN", "SCHOOL_ADMIN"]
+
+const MINUTES_PER_WEEK = 7 * 24 * 60
+
+const policySchema = z.object({
+  roundingIncrementMinutes: z.number().int().min(0).max(60),
+  roundingMode: z.enum(["NEAREST", "UP", "DOWN"]),
+  breakThresholdMinutes: z
+    .number()
+    .int()
+    .min(0)
+    .max(24 * 60),
+  breakDeductionMinutes: z.number().int().min(0).max(240),
+  dailyCapMinutes: z
+    .number()
+    .int()
+    .min(1)
+    .max(24 * 60)
+    .nullable(),
+  weeklyCapMinutes: z.number().int().min(1).max(MINUTES_PER_WEEK).nullable(),
+  timezone: z.string().refine(isValidTimeZone, "Unknown time zone"),
+})
+
+async function getAdminSchool() {
+  const context = await getSchoolContext()
+  if (!ADMIN_ROLES.includes(context.userRole) || !context.schoolId) return null
+  return context
+}
+
+// GET /api/clinical-hours/policy - Hours crediting policy for the current school
+export const GET = withErrorHandling(async () => {
+  const context = await getAdminSchool()
+  if (!context?.schoolId) {
+    return createErrorResponse(ERROR_MESSAGES.ACCESS_DENIED, HTTP_STATUS.FORBIDDEN)
+  }
+  return createSuccessResponse({ policy: await getHoursPolicy(context.schoolId) })
+})
+
+// PUT /api/clinical-hours/policy - Replace the policy and recompute every student's hours
+export const PUT = withCSRF(
+  withErrorHandling(async (request: NextRequest) => {
+    const context = await getAdminSchool()
+    if (!context?.schoolId) {
+      return createErrorResponse(ERROR_MESSAGES.ACCESS_DENIED, HTTP_STATUS.FORBIDDEN)
+    }
+
+    const parsed = policySchema.safeParse(await request.json())
+    if (!parsed.success) {
+      return createErrorResponse(
+        "Invalid request body",
+        HTTP_STATUS.BAD_REQUEST,
+        parsed.error.issues
+      )
+    }
+
+    await db
+      .insert(clinicalHoursPolicies)
+      .values({ ...parsed.data, schoolId: context.schoolId, updatedBy: context.userId })
+      .onConflictDoUpdate({
+        target: clinicalHoursPolicies.schoolId,
+        set: { ...parsed.data, updatedBy: context.userId, updatedAt: new Date() },
+      })
+
+    const recomputed = await recomputeSchoolClinicalHours(context.schoolId)
+
+    return createSuccessResponse(
+      { policy: parsed.data, recomputed },
+      "Clinical hours policy updated"
+    )
+  })
+)
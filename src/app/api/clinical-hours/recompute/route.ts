@@ -0,0 +1,60 @@
+import { eq } from "drizzle-orm"
+import type { NextRequest } from "next/server"
+import { z } from "zod"
+import { db } from "@/database/connection-pool"
+import { users } from "@/database/schema"
+import {
+  createErrorResponse,
+  createSuccessResponse,
+  ERROR_MESSAGES,
+  HTTP_STATUS,
+  withErrorHandling,
+} from "@/lib/api-response"
+import { recomputeClinicalHours, recomputeSchoolClinicalHours } from "@/lib/clinical-hours-ledger"
+import { withCSRF } from "@/lib/csrf-middleware"
+import { getSchoolContext } from "@/lib/school-utils"
+
+const recomputeSchema = z.object({
+  studentId: z.string().min(1).optional(),
+})
+
+// POST /api/clinical-hours/recompute - Rebuild the ledger for one student or the whole school
+export const POST = withCSRF(
+  withErrorHandling(async (request: NextRequest) => {
+    const context = await getSchoolContext()
+    if (!["SUPER_ADMIN", "SCHOOL_ADMIN"].includes(context.userRole)) {
+      return createErrorResponse(ERROR_MESSAGES.ACCESS_DENIED, HTTP_STATUS.FORBIDDEN)
+    }
+
+    const parsed = recomputeSchema.safeParse(await request.json().catch(() => ({})))
+    if (!parsed.success) {
+      return createErrorResponse(
+        "Invalid request body",
+        HTTP_STATUS.BAD_REQUEST,
+        parsed.error.issues
+      )
+    }
+
+    if (parsed.data.studentId) {
+      const [student] = await db
+        .select({ id: users.id, schoolId: users.schoolId })
+        .from(users)
+        .where(eq(users.id, parsed.data.studentId))
+        .limit(1)
+
+      if (!student || (!context.canAccessAllSchools && student.schoolId !== context.schoolId)) {
+        return createErrorResponse("Student not found", HTTP_STATUS.NOT_FOUND)
+      }
+
+      const entries = await recomputeClinicalHours([student.id])
+      return createSuccessResponse({ students: 1, entries }, "Clinical hours recomputed")
+    }
+
+    if (!context.schoolId) {
+      return createErrorResponse("User must be associated with a school", HTTP_STATUS.BAD_REQUEST)
+    }
+
+    const recomputed = await recomputeSchoolClinicalHours(context.schoolId)
+    return createSuccessResponse(recomputed, "Clinical hours recomputed")
+  })
+)
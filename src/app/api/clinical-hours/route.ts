@@ -0,0 +1,67 @@
+import { and, asc, eq } from "drizzle-orm"
+import type { NextRequest } from "next/server"
+import { z } from "zod"
+import { db } from "@/database/connection-pool"
+import { clinicalHoursLedger, users } from "@/database/schema"
+import {
+  createErrorResponse,
+  createSuccessResponse,
+  ERROR_MESSAGES,
+  HTTP_STATUS,
+  withErrorHandling,
+} from "@/lib/api-response"
+import { getHoursPolicy, summarizeLedger } from "@/lib/clinical-hours-ledger"
+import { getSchoolContext } from "@/lib/school-utils"
+
+const STAFF_ROLES = ["SUPER_ADMIN", "SCHOOL_ADMIN", "CLINICAL_SUPERVISOR", "CLINICAL_PRECEPTOR"]
+
+const querySchema = z.object({
+  studentId: z.string().min(1).optional(),
+  rotationId: z.string().min(1).optional(),
+})
+
+// GET /api/clinical-hours - Credited hours for a student with per-record ledger entries
+export const GET = withErrorHandling(async (request: NextRequest) => {
+  const context = await getSchoolContext()
+  const parsed = querySchema.safeParse(Object.fromEntries(new URL(request.url).searchParams))
+  if (!parsed.success) {
+    return createErrorResponse("Invalid query", HTTP_STATUS.BAD_REQUEST, parsed.error.issues)
+  }
+
+  const studentId =
+    context.userRole === "STUDENT" ? context.userId : (parsed.data.studentId ?? context.userId)
+
+  if (studentId !== context.userId && !STAFF_ROLES.includes(context.userRole)) {
+    return createErrorResponse(ERROR_MESSAGES.ACCESS_DENIED, HTTP_STATUS.FORBIDDEN)
+  }
+
+  const [student] = await db
+    .select({ id: users.id, name: users.name, schoolId: users.schoolId })
+    .from(users)
+    .where(eq(users.id, studentId))
+    .limit(1)
+
+  if (!student || (!context.canAccessAllSchools && student.schoolId !== context.schoolId)) {
+    return createErrorResponse("Student not found", HTTP_STATUS.NOT_FOUND)
+  }
+
+  const entries = await db
+    .select()
+    .from(clinicalHoursLedger)
+    .where(
+      and(
+        eq(clinicalHoursLedger.studentId, studentId),
+        parsed.data.rotationId
+          ? eq(clinicalHoursLedger.rotationId, parsed.data.rotationId)
+          : undefined
+      )
+    )
+    .orderBy(asc(clinicalHoursLedger.workDate))
+
+  return createSuccessResponse({
+    student: { id: student.id, name: student.name },
+    policy: student.schoolId ? await getHoursPolicy(student.schoolId) : null,
+    ...summarizeLedger(entries),
+    entries,
+  })
+})
@@ -0,0 +1,67 @@
+import type { NextRequest } from "next/server"
+import { z } from "zod"
+import {
+  createErrorResponse,
+  createSuccessResponse,
+  ERROR_MESSAGES,
+  HTTP_STATUS,
+  withErrorHandling,
+} from "@/lib/api-response"
+import { withCSRF } from "@/lib/csrf-middleware"
+import { logAuditEvent } from "@/lib/rbac-middleware"
+import { respondToSiteAffiliation } from "@/lib/school-affiliations"
+import { getSchoolContext } from "@/lib/school-utils"
+import type { UserRole } from "@/types"
+
+const ADMIN_ROLES: UserRole[] = ["SUPER_ADMIN", "SCHOOL_ADMIN"]
+
+export const dynamic = "force-dynamic"
+
+const responseSchema = z.object({ accept: z.boolean() })
+
+const RESPONSE_ERRORS = {
+  not_found: ["No pending affiliation for this site", HTTP_STATUS.NOT_FOUND],
+  over_capacity: [
+    "Reservations across all schools would exceed the site's capacity",
+    HTTP_STATUS.CONFLICT,
+  ],
+} as const
+
+// POST /api/clinical-sites/[id]/affiliations/respond - Accept or decline sharing a site
+// with the caller's school.
+export const POST = withCSRF(
+  withErrorHandling(
+    async (request: NextRequest, { params }: { params: Promise<{ id: string }> }) => {
+      const context = await getSchoolContext()
+      if (!ADMIN_ROLES.includes(context.userRole) || !context.schoolId) {
+        return createErrorResponse(ERROR_MESSAGES.INSUFFICIENT_PERMISSIONS, HTTP_STATUS.FORBIDDEN)
+      }
+
+      const { id } = await params
+      const { accept } = responseSchema.parse(await request.json())
+      const result = await respondToSiteAffiliation({
+        siteId: id,
+        schoolId: context.schoolId,
+        accept,
+      })
+      if (!result.ok) {
+        const [message, status] = RESPONSE_ERRORS[result.reason]
+        return createErrorResponse(message, status)
+      }
+
+      await logAuditEvent({
+        userId: context.userId,
+        action: accept ? "SITE_AFFILIATION_ACCEPTED" : "SITE_AFFILIATION_DECLINED",
+        resource: "site_school_affiliations",
+        resourceId: result.affiliation.id,
+        details: { clinicalSiteId: id, schoolId: context.schoolId },
+        severity: "MEDIUM",
+      })
+
+      return createSuccessResponse(
+        { affiliation: result.affiliation },
+        accept ? "Site affiliation accepted" : "Site affiliation declined"
+      )
+    }
+  )
+)
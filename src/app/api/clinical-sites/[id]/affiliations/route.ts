@@ -0,0 +1,141 @@
+import { eq } from "drizzle-orm"
+import type { NextRequest } from "next/server"
+import { z } from "zod"
+import { db } from "@/database/connection-pool"
+import { clinicalSites } from "@/database/schema"
+import {
+  createErrorResponse,
+  createSuccessResponse,
+  ERROR_MESSAGES,
+  HTTP_STATUS,
+  withErrorHandling,
+} from "@/lib/api-response"
+import { withCSRF } from "@/lib/csrf-middleware"
+import { logAuditEvent } from "@/lib/rbac-middleware"
+import {
+  getSiteCapacityForSchool,
+  listSiteAffiliations,
+  upsertSiteAffiliation,
+} from "@/lib/school-affiliations"
+import { getSchoolContext } from "@/lib/school-utils"
+import type { UserRole } from "@/types"
+
+const ADMIN_ROLES: UserRole[] = ["SUPER_ADMIN", "SCHOOL_ADMIN"]
+
+export const dynamic = "force-dynamic"
+
+const affiliationSchema = z.object({
+  schoolId: z.string().min(1),
+  status: z.enum(["ACTIVE", "INACTIVE"]).default("ACTIVE"),
+  reservedCapacity: z.number().int().min(0).nullable().default(null),
+})
+
+const AFFILIATION_ERRORS = {
+  site_not_found: ["Clinical site not found", HTTP_STATUS.NOT_FOUND],
+  school_not_found: ["School not found", HTTP_STATUS.NOT_FOUND],
+  over_capacity: [
+    "Reservations across all schools would exceed the site's capacity",
+    HTTP_STATUS.CONFLICT,
+  ],
+} as const
+
+type RouteContext = { params: Promise<{ id: string }> }
+
+async function findSite(id: string) {
+  const [site] = await db
+    .select({ id: clinicalSites.id, schoolId: clinicalSites.schoolId })
+    .from(clinicalSites)
+    .where(eq(clinicalSites.id, id))
+    .limit(1)
+  return site ?? null
+}
+
+// GET /api/clinical-sites/[id]/affiliations - Schools sharing a site and their reservations.
+// Schools that only share the site see their own affiliation and capacity.
+export const GET = withErrorHandling(async (_request: NextRequest, { params }: RouteContext) => {
+  const context = await getSchoolContext()
+  if (!ADMIN_ROLES.includes(context.userRole)) {
+    return createErrorResponse(ERROR_MESSAGES.INSUFFICIENT_PERMISSIONS, HTTP_STATUS.FORBIDDEN)
+  }
+
+  const { id } = await params
+  const site = await findSite(id)
+  if (!site) {
+    return createErrorResponse("Clinical site not found", HTTP_STATUS.NOT_FOUND)
+  }
+
+  const isOwner = context.canAccessAllSchools || site.schoolId === context.schoolId
+  if (!isOwner && !context.schoolId) {
+    return createErrorResponse("Clinical site not found", HTTP_STATUS.NOT_FOUND)
+  }
+
+  // Includes a pending invitation, so the invited school can review it
+  const affiliations = await listSiteAffiliations(id, isOwner ? null : context.schoolId)
+  if (!isOwner && affiliations.length === 0) {
+    return createErrorResponse("Clinical site not found", HTTP_STATUS.NOT_FOUND)
+  }
+
+  return createSuccessResponse({
+    affiliations,
+    capacity: context.schoolId ? await getSiteCapacityForSchool(id, context.schoolId) : null,
+  })
+})
+
+// PUT /api/clinical-sites/[id]/affiliations - Share the site with a school or change its
+// reservation. Only the school that owns the site can do this, and a new affiliation stays
+// PENDING until the other school accepts it.
+export const PUT = withCSRF(
+  withErrorHandling(async (request: NextRequest, { params }: RouteContext) => {
+    const context = await getSchoolContext()
+    if (!ADMIN_ROLES.includes(context.userRole)) {
+      return createErrorResponse(ERROR_MESSAGES.INSUFFICIENT_PERMISSIONS, HTTP_STATUS.FORBIDDEN)
+    }
+
+    const { id } = await params
+    const site = await findSite(id)
+    if (!site) {
+      return createErrorResponse("Clinical site not found", HTTP_STATUS.NOT_FOUND)
+    }
+    if (!context.canAccessAllSchools && site.schoolId !== context.schoolId) {
+      return createErrorResponse(
+        "Only the school that owns this site can manage its affiliations",
+        HTTP_STATUS.FORBIDDEN
+      )
+    }
+
+    const data = affiliationSchema.parse(await request.json())
+    const result = await upsertSiteAffiliation({
+      siteId: id,
+      schoolId: data.schoolId,
+      status: data.status,
+      reservedCapacity: data.reservedCapacity || null,
+      approved: context.userRole === "SUPER_ADMIN",
+      userId: context.userId,
+    })
+    if (!result.ok) {
+      const [message, status] = AFFILIATION_ERRORS[result.reason]
+      return createErrorResponse(message, status)
+    }
+
+    await logAuditEvent({
+      userId: context.userId,
+      action: "SITE_AFFILIATION_UPDATED",
+      resource: "site_school_affiliations",
+      resourceId: result.affiliation.id,
+      details: {
+        clinicalSiteId: id,
+        schoolId: data.schoolId,
+        status: result.affiliation.status,
+        reservedCapacity: result.affiliation.reservedCapacity,
+      },
+      severity: "MEDIUM",
+    })
+
+    return createSuccessResponse(
+      { affiliation: result.affiliation },
+      result.affiliation.status === "PENDING"
+        ? "Affiliation requested; the school has to accept it"
+        : "Site affiliation saved"
+    )
+  })
+)
@@ -0,0 +1,79 @@
+import { auth } from "@clerk/nextjs/server"
+import { eq } from "drizzle-orm"
+import { type NextRequest, NextResponse } from "next/server"
+import { db } from "@/database/connection-pool"
+import { clinicalSiteLocations, clinicalSites } from "@/database/schema"
+import {
+  createErrorResponse,
+  ERROR_MESSAGES,
+  HTTP_STATUS,
+  withErrorHandling,
+} from "@/lib/api-response"
+import { boundaryToFeature, type GeofenceBoundary } from "@/lib/geo-utils"
+
+// GET /api/clinical-sites/[id]/locations/geojson - Export site location geofences as GeoJSON
+// Locations with a boundary export as polygon features; the rest as points with their radius.
+export const GET = withErrorHandling(
+  async (_request: NextRequest, { params }: { params: Promise<{ id: string }> }) => {
+    const { userId } = await auth()
+
+    if (!userId) {
+      return createErrorResponse(ERROR_MESSAGES.UNAUTHORIZED, HTTP_STATUS.UNAUTHORIZED)
+    }
+
+    const { id: clinicalSiteId } = await params
+
+    const [site] = await db
+      .select({ id: clinicalSites.id, name: clinicalSites.name })
+      .from(clinicalSites)
+      .where(eq(clinicalSites.id, clinicalSiteId))
+      .limit(1)
+
+    if (!site) {
+      return createErrorResponse(ERROR_MESSAGES.NOT_FOUND, HTTP_STATUS.NOT_FOUND)
+    }
+
+    const locations = await db
+      .select()
+      .from(clinicalSiteLocations)
+      .where(eq(clinicalSiteLocations.clinicalSiteId, clinicalSiteId))
+      .orderBy(clinicalSiteLocations.name)
+
+    const features = locations.map((location) => {
+      const properties = {
+        locationId: location.id,
+        name: location.name,
+        radius: location.radius,
+        strictGeofence: location.strictGeofence,
+        isActive: location.isActive,
+        isPrimary: location.isPrimary,
+      }
+      if (location.boundary) {
+        return boundaryToFeature(location.boundary as GeofenceBoundary, properties)
+      }
+      return {
+        type: "Feature" as const,
+        geometry: {
+          type: "Point" as const,
+          coordinates: [
+            Number.parseFloat(location.longitude),
+            Number.parseFloat(location.latitude),
+          ],
+        },
+        properties,
+      }
+    })
+
+    const fileName = `${site.name.replace(/[^A-Za-z0-9_-]+/g, "-").toLowerCase() || "site"}-geofences.geojson`
+
+    return NextResponse.json(
+      { type: "FeatureCollection", features },
+      {
+        headers: {
+          "Content-Type": "application/geo+json",
+          "Content-Disposition": `attachment; filename="${fileName}"`,
+        },
+      }
+    )
+  }
+)
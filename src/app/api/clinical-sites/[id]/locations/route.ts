@@ -10,12 +10,15 @@ import {
   ERROR_MESSAGES,
   withErrorHandling,
 } from "@/lib/api-response"
+import { type GeofenceBoundary, parseGeofenceBoundary } from "@/lib/geo-utils"
 
 interface CreateLocationRequest {
   name: string
   latitude: number
   longitude: number
   radius: number
+  // GeoJSON Polygon, MultiPolygon, Feature or FeatureCollection; null clears it
+  boundary?: unknown
   description?: string
   floor?: string
   department?: string
@@ -26,6 +29,17 @@ interface UpdateLocationRequest extends Partial<CreateLocationRequest> {
   isActive?: boolean
 }
 
+function parseBoundaryField(
+  value: unknown
+): { boundary: GeofenceBoundary | null } | { error: string } {
+  if (value === null) return { boundary: null }
+  try {
+    return { boundary: parseGeofenceBoundary(value) }
+  } catch (error) {
+    return { error: error instanceof Error ? error.message : "Invalid boundary" }
+  }
+}
+
 // GET /api/clinical-sites/[id]/locations - Get all locations for a clinical site
 export const GET = withErrorHandling(
   async (request: NextRequest, { params }: { params: { id: string } }) => {
@@ -57,6 +71,7 @@ export const GET = withErrorHandling(
         latitude: clinicalSiteLocations.latitude,
         longitude: clinicalSiteLocations.longitude,
         radius: clinicalSiteLocations.radius,
+        boundary: clinicalSiteLocations.boundary,
         isActive: clinicalSiteLocations.isActive,
         isPrimary: clinicalSiteLocations.isPrimary,
         description: clinicalSiteLocations.description,
@@ -98,6 +113,7 @@ export const POST = withErrorHandling(
       latitude,
       longitude,
       radius,
+      boundary,
       description,
       floor,
       department,
@@ -130,6 +146,12 @@ export const POST = withErrorHandling(
       )
     }
 
+    const parsedBoundary =
+      boundary === undefined ? { boundary: null } : parseBoundaryField(boundary)
+    if ("error" in parsedBoundary) {
+      return createErrorResponse(parsedBoundary.error, HTTP_STATUS.BAD_REQUEST)
+    }
+
     // Verify clinical site exists
     const siteExists = await db
       .select({ id: clinicalSites.id })
@@ -163,6 +185,7 @@ export const POST = withErrorHandling(
         latitude: latitude.toString(),
         longitude: longitude.toString(),
         radius,
+        boundary: parsedBoundary.boundary,
         description,
         floor,
         department,
@@ -207,12 +230,13 @@ export const PUT = withErrorHandling(
       latitude,
       longitude,
       radius,
+      boundary,
       description,
       floor,
       department,
       isPrimary,
       isActive,
-    } = body
+    }: UpdateLocationRequest & { locationId?: string } = body
 
     if (!locationId) {
       return createErrorResponse("Location ID is required", HTTP_STATUS.BAD_REQUEST)
@@ -235,6 +259,11 @@ export const PUT = withErrorHandling(
       )
     }
 
+    const parsedBoundary = boundary === undefined ? undefined : parseBoundaryField(boundary)
+    if (parsedBoundary && "error" in parsedBoundary) {
+      return createErrorResponse(parsedBoundary.error, HTTP_STATUS.BAD_REQUEST)
+    }
+
     // Verify location exists and belongs to the clinical site
     const existingLocation = await db
       .select()
@@ -271,6 +300,7 @@ export const PUT = withErrorHandling(
     if (latitude !== undefined) updateData.latitude = latitude.toString()
     if (longitude !== undefined) updateData.longitude = longitude.toString()
     if (radius !== undefined) updateData.radius = radius
+    if (parsedBoundary) updateData.boundary = parsedBoundary.boundary
     if (description !== undefined) updateData.description = description
     if (floor !== undefined) updateData.floor = floor
     if (department !== undefined) updateData.department = department
@@ -3,7 +3,13 @@ import { and, count, desc, eq, ilike, or, sql, inArray, type SQL } from "drizzle
 import { type NextRequest } from "next/server"
 import { z } from "zod"
 import { db } from "@/database/connection-pool"
-import { clinicalSites, rotations, siteAssignments, facilityManagement } from "@/database/schema"
+import {
+  clinicalSites,
+  rotations,
+  siteAssignments,
+  facilityManagement,
+  siteSchoolAffiliations,
+} from "@/database/schema"
 import {
   createSuccessResponse,
   createErrorResponse,
@@ -11,6 +17,11 @@ import {
   HTTP_STATUS,
   ERROR_MESSAGES,
 } from "@/lib/api-response"
+import {
+  getSitesCapacityForSchool,
+  siteVisibleToSchool,
+  studentInSchool,
+} from "@/lib/school-affiliations"
 import { getSchoolContext } from "@/lib/school-utils"
 import type { UserRole } from "@/types"
 import { withCSRF } from "@/lib/csrf-middleware"
@@ -80,13 +91,13 @@ export const GET = withErrorHandling(async (request: NextRequest) => {
     let sites: (typeof clinicalSites.$inferSelect)[]
     let total = 0
     if (context.userRole !== "SUPER_ADMIN" && context.schoolId) {
-      // For SCHOOL_ADMIN: Show only clinical sites belonging to their school
+      // For SCHOOL_ADMIN: Show clinical sites their school owns or shares with other schools
       sites = await db
         .select()
         .from(clinicalSites)
         .where(
           and(
-            eq(clinicalSites.schoolId, context.schoolId),
+            siteVisibleToSchool(context.schoolId),
             conditions.length > 0 ? and(...conditions) : undefined
           )
         )
@@ -100,7 +111,7 @@ export const GET = withErrorHandling(async (request: NextRequest) => {
         .from(clinicalSites)
         .where(
           and(
-            eq(clinicalSites.schoolId, context.schoolId),
+            siteVisibleToSchool(context.schoolId),
             conditions.length > 0 ? and(...conditions) : undefined
           )
         )
@@ -126,13 +137,26 @@ export const GET = withErrorHandling(async (request: NextRequest) => {
             activeRotations: sql<number>`SUM(CASE WHEN ${rotations.status} = 'ACTIVE' THEN 1 ELSE 0 END)`,
           })
           .from(rotations)
-          .where(inArray(rotations.clinicalSiteId, siteIds))
+          .where(
+            and(
+              inArray(rotations.clinicalSiteId, siteIds),
+              // Shared sites only count this school's rotations
+              context.userRole !== "SUPER_ADMIN"
+                ? studentInSchool(rotations.studentId, context.schoolId)
+                : undefined
+            )
+          )
           .groupBy(rotations.clinicalSiteId)
 
         const rotationMap = new Map(rotationCounts.map((rc) => [rc.clinicalSiteId, rc]))
+        const capacityMap =
+          context.userRole !== "SUPER_ADMIN" && context.schoolId
+            ? await getSitesCapacityForSchool(siteIds, context.schoolId)
+            : new Map()
         sites = sites.map((site) => {
           const stats = rotationMap.get(site.id) || { totalRotations: 0, activeRotations: 0 }
-          const availableCapacity = site.capacity - (stats.activeRotations || 0)
+          const availableCapacity =
+            capacityMap.get(site.id)?.available ?? site.capacity - (stats.activeRotations || 0)
           return {
             ...site,
             totalRotations: stats.totalRotations || 0,
@@ -242,6 +266,15 @@ export const POST = withCSRF(
         })
         .returning()
 
+      if (context.schoolId) {
+        await db.insert(siteSchoolAffiliations).values({
+          id: crypto.randomUUID(),
+          clinicalSiteId: siteId,
+          schoolId: context.schoolId,
+          createdBy: context.userId,
+        })
+      }
+
       return createSuccessResponse(
         { clinicalSite: newSite },
         "Clinical site created successfully",
@@ -283,6 +316,14 @@ export const PUT = withCSRF(
         return createErrorResponse("Clinical site not found", HTTP_STATUS.NOT_FOUND)
       }
 
+      // Schools sharing a site cannot change it; only the owning school can
+      if (!isSuperAdmin(context.userRole) && existingSite.schoolId !== context.schoolId) {
+        return createErrorResponse(
+          "Only the school that owns this site can edit it",
+          HTTP_STATUS.FORBIDDEN
+        )
+      }
+
       if (validatedData.name && validatedData.name !== existingSite.name) {
         const [conflictSite] = await db
           .select()
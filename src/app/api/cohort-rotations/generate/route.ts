@@ -12,21 +12,135 @@ import {
   rotations,
   clinicalSites,
 } from "@/database/schema"
+import { checkPlacement } from "@/lib/school-affiliations"
 import { getSchoolContext } from "@/lib/school-utils"
+import { tenantScope } from "@/lib/tenant-scope"
 import {
   createSuccessResponse,
   createErrorResponse,
   HTTP_STATUS,
   withErrorHandling,
 } from "@/lib/api-response"
+import {
+  buildAllocationPlan,
+  validateAllocation,
+  type AllocationPlan,
+} from "@/services/rotation-allocation-service"
+import {
+  checkProposedRotations,
+  hasHardConflicts,
+  summarizeConflicts,
+} from "@/services/schedule-conflict-service"
+import { emitWebhookEvent } from "@/lib/webhooks"
 import type { UserRole } from "@/types"
 
+const PLACEMENT_ERRORS = {
+  site_not_affiliated: [
+    "This clinical site is not available to the cohort's school",
+    HTTP_STATUS.FORBIDDEN,
+  ],
+  site_full: [
+    "The school does not have enough capacity left at this clinical site for these dates",
+    HTTP_STATUS.CONFLICT,
+  ],
+  preceptor_not_affiliated: [
+    "This preceptor does not teach for the cohort's school",
+    HTTP_STATUS.FORBIDDEN,
+  ],
+} as const
+
 // Validation schema
 const generateRotationsSchema = z.object({
   cohortRotationAssignmentId: z.string().min(1, "Cohort rotation assignment ID is required"),
   clinicalSiteId: z.string().optional(), // Optional override for default site
+  // "auto" spreads students across every site linked to the program
+  mode: z.enum(["single", "auto"]).default("single"),
+  strategy: z.enum(["balanced", "priority"]).default("balanced"),
+  // Return the proposed allocation without creating rotations
+  preview: z.boolean().default(false),
+  // Commit a previewed (optionally edited) allocation instead of recomputing it
+  allocations: z
+    .array(z.object({ studentId: z.string().min(1), clinicalSiteId: z.string().min(1) }))
+    .optional(),
+  // Create rotations for allocated students even if some could not be placed
+  allowPartial: z.boolean().default(false),
 })
 
+function summarizePlan(plan: AllocationPlan) {
+  return {
+    strategy: plan.strategy,
+    sites: plan.sites.map((site) => ({
+      clinicalSiteId: site.clinicalSiteId,
+      name: site.name,
+      priority: site.priority,
+      capacity: site.capacity,
+      occupied: site.occupied,
+      available: site.available,
+      allocatedCount: site.students.length,
+      students: site.students,
+    })),
+    excludedSites: plan.excludedSites,
+    unallocated: plan.unallocated,
+    allocations: plan.sites.flatMap((site) =>
+      site.students.map((student) => ({
+        studentId: student.id,
+        clinicalSiteId: site.clinicalSiteId,
+      }))
+    ),
+  }
+}
+
+type ProposedRotation = {
+  id: string
+  studentId: string
+  clinicalSiteId: string
+  programId: string
+  cohortId: string
+  startDate: Date
+  endDate: Date
+  requiredHours: number
+  completedHours: number
+  status: "SCHEDULED"
+}
+
+// Run the schedule conflict engine over rotations before they are created
+async function checkGeneratedConflicts(proposed: ProposedRotation[], schoolId: string | null) {
+  const conflicts = await checkProposedRotations(
+    proposed.map((rotation) => ({ ...rotation, preceptorId: null })),
+    schoolId
+  )
+  return { conflicts, conflictSummary: summarizeConflicts(conflicts) }
+}
+
+function hardConflictResponse(checked: Awaited<ReturnType<typeof checkGeneratedConflicts>>) {
+  return createErrorResponse(
+    `${checked.conflictSummary.hard} hard schedule conflicts must be resolved before publishing`,
+    HTTP_STATUS.CONFLICT,
+    checked
+  )
+}
+
+// Tell the school's integrations which rotations were just published
+async function emitRotationsPublished(
+  { assignment, cohort, template }: GenerateContext,
+  created: Array<Pick<ProposedRotation, "id" | "studentId" | "clinicalSiteId">>
+) {
+  await emitWebhookEvent(template.schoolId, "rotation.published", {
+    cohortRotationAssignmentId: assignment.id,
+    cohortId: cohort.id,
+    cohortName: cohort.name,
+    rotationTemplateId: template.id,
+    specialty: template.specialty,
+    startDate: assignment.startDate,
+    endDate: assignment.endDate,
+    rotations: created.map((rotation) => ({
+      rotationId: rotation.id,
+      studentId: rotation.studentId,
+      clinicalSiteId: rotation.clinicalSiteId,
+    })),
+  })
+}
+
 // POST /api/cohort-rotations/generate - Generate individual rotations for all students in a cohort
 export const POST = withErrorHandling(async (request: NextRequest) => {
   const context = await getSchoolContext()
@@ -62,16 +176,29 @@ export const POST = withErrorHandling(async (request: NextRequest) => {
   }
 
   // Get the rotation template
+  const scope = tenantScope(context, { crossTenantReason: "Cohort rotation generation" })
   const [template] = await db
     .select()
     .from(rotationTemplates)
-    .where(eq(rotationTemplates.id, assignment.rotationTemplateId))
+    .where(scope.where(rotationTemplates, eq(rotationTemplates.id, assignment.rotationTemplateId)))
     .limit(1)
 
   if (!template) {
     return createErrorResponse("Rotation template not found", HTTP_STATUS.NOT_FOUND)
   }
 
+  const conflictSchoolId = scope.schoolId
+
+  if (validatedData.mode === "auto") {
+    return await generateWithAllocation({
+      assignment,
+      cohort,
+      template,
+      options: validatedData,
+      conflictSchoolId,
+    })
+  }
+
   // Determine which clinical site to use
   const clinicalSiteId =
     validatedData.clinicalSiteId || assignment.clinicalSiteId || template.defaultClinicalSiteId
@@ -138,6 +265,18 @@ export const POST = withErrorHandling(async (request: NextRequest) => {
     )
   }
 
+  // The school must be affiliated with the site and have a seat there for every student
+  const placement = await checkPlacement({
+    schoolId: template.schoolId,
+    clinicalSiteId,
+    window: { startDate: assignment.startDate, endDate: assignment.endDate },
+    seats: studentsToAssign.length,
+  })
+  if (!placement.ok) {
+    const [message, status] = PLACEMENT_ERRORS[placement.reason]
+    return createErrorResponse(message, status)
+  }
+
   // Generate rotations for each student
   const rotationsToCreate = studentsToAssign.map((student) => ({
     id: crypto.randomUUID(),
@@ -156,6 +295,11 @@ export const POST = withErrorHandling(async (request: NextRequest) => {
     objectives: template.objectives,
   }))
 
+  const checked = await checkGeneratedConflicts(rotationsToCreate, conflictSchoolId)
+  if (hasHardConflicts(checked.conflicts)) {
+    return hardConflictResponse(checked)
+  }
+
   // Insert all rotations
   await db.insert(rotations).values(rotationsToCreate)
 
@@ -167,13 +311,192 @@ export const POST = withErrorHandling(async (request: NextRequest) => {
       .where(eq(cohortRotationAssignments.id, assignment.id))
   }
 
+  await emitRotationsPublished({ assignment, cohort, template }, rotationsToCreate)
+
   return createSuccessResponse(
     {
       created: rotationsToCreate.length,
       skipped: studentsInCohort.length - studentsToAssign.length,
       totalStudents: studentsInCohort.length,
       rotationIds: rotationsToCreate.map((r) => r.id),
+      warnings: checked.conflicts,
     },
     `Generated ${rotationsToCreate.length} rotations for cohort "${cohort.name}"`
   )
 })
+
+type GenerateContext = {
+  assignment: typeof cohortRotationAssignments.$inferSelect
+  cohort: typeof cohorts.$inferSelect
+  template: typeof rotationTemplates.$inferSelect
+}
+
+async function getStudentsToAssign({ assignment, cohort }: GenerateContext) {
+  const studentsInCohort = await db
+    .select({ id: users.id, name: users.name })
+    .from(users)
+    .where(and(eq(users.cohortId, cohort.id), eq(users.role, "STUDENT"), eq(users.isActive, true)))
+
+  const existingRotations = await db
+    .select({ studentId: rotations.studentId })
+    .from(rotations)
+    .where(eq(rotations.cohortRotationAssignmentId, assignment.id))
+
+  const existingStudentIds = new Set(existingRotations.map((r) => r.studentId))
+  return {
+    studentsInCohort,
+    studentsToAssign: studentsInCohort.filter((student) => !existingStudentIds.has(student.id)),
+  }
+}
+
+// Capacity-aware generation across all program-linked sites
+async function generateWithAllocation({
+  assignment,
+  cohort,
+  template,
+  options,
+  conflictSchoolId,
+}: GenerateContext & {
+  options: z.infer<typeof generateRotationsSchema>
+  conflictSchoolId: string | null
+}) {
+  const { studentsInCohort, studentsToAssign } = await getStudentsToAssign({
+    assignment,
+    cohort,
+    template,
+  })
+
+  if (studentsInCohort.length === 0) {
+    return createErrorResponse("No students found in this cohort", HTTP_STATUS.BAD_REQUEST)
+  }
+
+  const plan = await buildAllocationPlan({
+    assignment,
+    cohort,
+    template,
+    students: studentsToAssign,
+    strategy: options.strategy,
+  })
+  const summary = summarizePlan(plan)
+  const toRotations = (allocations: Array<{ studentId: string; clinicalSiteId: string }>) =>
+    allocations.map(({ studentId, clinicalSiteId }) => ({
+      id: crypto.randomUUID(),
+      studentId,
+      clinicalSiteId,
+      programId: cohort.programId,
+      cohortId: cohort.id,
+      cohortRotationAssignmentId: assignment.id,
+      rotationTemplateId: template.id,
+      specialty: template.specialty,
+      startDate: assignment.startDate,
+      endDate: assignment.endDate,
+      requiredHours: assignment.requiredHours,
+      completedHours: 0,
+      status: "SCHEDULED" as const,
+      objectives: template.objectives,
+    }))
+
+  if (options.preview) {
+    const checked = await checkGeneratedConflicts(
+      toRotations(summary.allocations),
+      conflictSchoolId
+    )
+    return createSuccessResponse(
+      {
+        preview: true,
+        totalStudents: studentsInCohort.length,
+        skipped: studentsInCohort.length - studentsToAssign.length,
+        toAssign: studentsToAssign.length,
+        ...summary,
+        ...checked,
+      },
+      plan.unallocated.length > 0
+        ? `${plan.unallocated.length} students could not be placed with current capacity`
+        : `All ${studentsToAssign.length} students can be placed`
+    )
+  }
+
+  if (studentsToAssign.length === 0) {
+    return createSuccessResponse(
+      { created: 0, skipped: studentsInCohort.length },
+      "All students already have rotations for this assignment"
+    )
+  }
+
+  // Re-check a previewed allocation against current availability before committing
+  const allocations = options.allocations ?? summary.allocations
+  if (options.allocations) {
+    const errors = validateAllocation(
+      options.allocations,
+      plan,
+      new Set(studentsToAssign.map((s) => s.id))
+    )
+    if (errors.length > 0) {
+      return createErrorResponse(
+        "Allocation is no longer valid; refresh the preview",
+        HTTP_STATUS.CONFLICT,
+        { errors }
+      )
+    }
+  }
+
+  const unplaced = studentsToAssign.length - allocations.length
+  if (unplaced > 0 && !options.allowPartial) {
+    return createErrorResponse(
+      `${unplaced} of ${studentsToAssign.length} students could not be placed with available capacity`,
+      HTTP_STATUS.CONFLICT,
+      summary
+    )
+  }
+
+  if (allocations.length === 0) {
+    return createErrorResponse(
+      "No seats available at any linked site",
+      HTTP_STATUS.CONFLICT,
+      summary
+    )
+  }
+
+  const rotationsToCreate = toRotations(allocations)
+
+  const checked = await checkGeneratedConflicts(rotationsToCreate, conflictSchoolId)
+  if (hasHardConflicts(checked.conflicts)) {
+    return hardConflictResponse(checked)
+  }
+
+  await db.transaction(async (tx) => {
+    await tx.insert(rotations).values(rotationsToCreate)
+    if (assignment.status === "DRAFT") {
+      await tx
+        .update(cohortRotationAssignments)
+        .set({ status: "PUBLISHED", updatedAt: new Date() })
+        .where(eq(cohortRotationAssignments.id, assignment.id))
+    }
+  })
+
+  await emitRotationsPublished({ assignment, cohort, template }, rotationsToCreate)
+
+  const bySite = new Map<string, number>()
+  for (const r of rotationsToCreate) {
+    bySite.set(r.clinicalSiteId, (bySite.get(r.clinicalSiteId) ?? 0) + 1)
+  }
+
+  return createSuccessResponse(
+    {
+      created: rotationsToCreate.length,
+      skipped: studentsInCohort.length - studentsToAssign.length,
+      unallocated: studentsToAssign.length - rotationsToCreate.length,
+      totalStudents: studentsInCohort.length,
+      rotationIds: rotationsToCreate.map((r) => r.id),
+      warnings: checked.conflicts,
+      sites: summary.sites
+        .filter((site) => bySite.has(site.clinicalSiteId))
+        .map((site) => ({
+          clinicalSiteId: site.clinicalSiteId,
+          name: site.name,
+          created: bySite.get(site.clinicalSiteId),
+        })),
+    },
+    `Generated ${rotationsToCreate.length} rotations across ${bySite.size} sites for cohort "${cohort.name}"`
+  )
+}
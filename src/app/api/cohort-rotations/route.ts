@@ -2,7 +2,7 @@
 
 import { NextRequest } from "next/server"
 import { z } from "zod"
-import { eq, and, desc } from "drizzle-orm"
+import { eq, desc } from "drizzle-orm"
 import { db } from "@/database/connection-pool"
 import {
   cohortRotationAssignments,
@@ -14,6 +14,7 @@ import {
   rotations,
 } from "@/database/schema"
 import { getSchoolContext } from "@/lib/school-utils"
+import { type TenantScope, tenantScope } from "@/lib/tenant-scope"
 import {
   createSuccessResponse,
   createErrorResponse,
@@ -21,6 +22,27 @@ import {
   withErrorHandling,
 } from "@/lib/api-response"
 import type { UserRole } from "@/types"
+import {
+  findScheduleConflicts,
+  hasHardConflicts,
+  summarizeConflicts,
+} from "@/services/schedule-conflict-service"
+
+const CROSS_TENANT_REASON = "Cohort rotation administration"
+
+// Assignments have no school of their own; they belong to their rotation template's school
+async function findScopedAssignment(scope: TenantScope, id: string) {
+  const [assignment] = await db
+    .select({ assignment: cohortRotationAssignments })
+    .from(cohortRotationAssignments)
+    .innerJoin(
+      rotationTemplates,
+      eq(cohortRotationAssignments.rotationTemplateId, rotationTemplates.id)
+    )
+    .where(scope.where(rotationTemplates, eq(cohortRotationAssignments.id, id)))
+    .limit(1)
+  return assignment?.assignment ?? null
+}
 
 // Validation schemas
 const createCohortRotationSchema = z.object({
@@ -48,6 +70,7 @@ const updateCohortRotationSchema = z.object({
 // GET /api/cohort-rotations - List cohort rotation assignments
 export const GET = withErrorHandling(async (request: NextRequest) => {
   const context = await getSchoolContext()
+  const scope = tenantScope(context, { crossTenantReason: CROSS_TENANT_REASON })
   const { searchParams } = new URL(request.url)
 
   const cohortId = searchParams.get("cohortId")
@@ -103,17 +126,10 @@ export const GET = withErrorHandling(async (request: NextRequest) => {
     )
     .leftJoin(clinicalSites, eq(cohortRotationAssignments.clinicalSiteId, clinicalSites.id))
     .leftJoin(programs, eq(cohorts.programId, programs.id))
-    .where(conditions.length > 0 ? and(...conditions) : undefined)
+    .where(scope.where(rotationTemplates, ...conditions))
     .orderBy(cohortRotationAssignments.startDate)
 
-  // Filter by school access (programs belong to schools)
-  const filteredAssignments = assignments.filter((assignment) => {
-    if (context.userRole === "SUPER_ADMIN") return true
-    // Additional school filtering would be done through the program's schoolId
-    return true // For now, rely on the cohort/program context
-  })
-
-  return createSuccessResponse({ assignments: filteredAssignments })
+  return createSuccessResponse({ assignments })
 })
 
 // POST /api/cohort-rotations - Create a cohort rotation assignment
@@ -125,14 +141,16 @@ export const POST = withErrorHandling(async (request: NextRequest) => {
     return createErrorResponse("Insufficient permissions", HTTP_STATUS.FORBIDDEN)
   }
 
+  const scope = tenantScope(context, { crossTenantReason: CROSS_TENANT_REASON })
   const body = await request.json()
   const validatedData = createCohortRotationSchema.parse(body)
 
   // Verify cohort exists
   const [cohort] = await db
-    .select()
+    .select({ id: cohorts.id })
     .from(cohorts)
-    .where(eq(cohorts.id, validatedData.cohortId))
+    .innerJoin(programs, eq(cohorts.programId, programs.id))
+    .where(scope.where(programs, eq(cohorts.id, validatedData.cohortId)))
     .limit(1)
 
   if (!cohort) {
@@ -143,7 +161,9 @@ export const POST = withErrorHandling(async (request: NextRequest) => {
   const [template] = await db
     .select()
     .from(rotationTemplates)
-    .where(eq(rotationTemplates.id, validatedData.rotationTemplateId))
+    .where(
+      scope.where(rotationTemplates, eq(rotationTemplates.id, validatedData.rotationTemplateId))
+    )
     .limit(1)
 
   if (!template) {
@@ -203,15 +223,12 @@ export const PUT = withErrorHandling(async (request: NextRequest) => {
     return createErrorResponse("Insufficient permissions", HTTP_STATUS.FORBIDDEN)
   }
 
+  const scope = tenantScope(context, { crossTenantReason: CROSS_TENANT_REASON })
   const body = await request.json()
   const validatedData = updateCohortRotationSchema.parse(body)
 
   // Get existing assignment
-  const [existingAssignment] = await db
-    .select()
-    .from(cohortRotationAssignments)
-    .where(eq(cohortRotationAssignments.id, validatedData.id))
-    .limit(1)
+  const existingAssignment = await findScopedAssignment(scope, validatedData.id)
 
   if (!existingAssignment) {
     return createErrorResponse("Cohort rotation assignment not found", HTTP_STATUS.NOT_FOUND)
@@ -240,6 +257,21 @@ export const PUT = withErrorHandling(async (request: NextRequest) => {
     }
   }
 
+  // Publishing is blocked while the generated rotations have hard conflicts
+  if (validatedData.status === "PUBLISHED" && existingAssignment.status !== "PUBLISHED") {
+    const { conflicts } = await findScheduleConflicts({
+      cohortRotationAssignmentId: existingAssignment.id,
+      schoolId: context.userRole === "SUPER_ADMIN" ? null : context.schoolId,
+    })
+    if (hasHardConflicts(conflicts)) {
+      return createErrorResponse(
+        "Resolve hard schedule conflicts before publishing",
+        HTTP_STATUS.CONFLICT,
+        { conflicts, summary: summarizeConflicts(conflicts) }
+      )
+    }
+  }
+
   const [updatedAssignment] = await db
     .update(cohortRotationAssignments)
     .set(updateData)
@@ -266,11 +298,8 @@ export const DELETE = withErrorHandling(async (request: NextRequest) => {
   }
 
   // Get existing assignment
-  const [existingAssignment] = await db
-    .select()
-    .from(cohortRotationAssignments)
-    .where(eq(cohortRotationAssignments.id, id))
-    .limit(1)
+  const scope = tenantScope(context, { crossTenantReason: CROSS_TENANT_REASON })
+  const existingAssignment = await findScopedAssignment(scope, id)
 
   if (!existingAssignment) {
     return createErrorResponse("Cohort rotation assignment not found", HTTP_STATUS.NOT_FOUND)
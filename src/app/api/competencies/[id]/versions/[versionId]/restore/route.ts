@@ -0,0 +1,66 @@
+import { and, eq } from "drizzle-orm"
+import type { NextRequest } from "next/server"
+import { db } from "@/database/connection-pool"
+import { competencies, competencyVersions } from "@/database/schema"
+import {
+  createErrorResponse,
+  createSuccessResponse,
+  ERROR_MESSAGES,
+  HTTP_STATUS,
+  withErrorHandling,
+} from "@/lib/api-response"
+import { restoreCompetencyVersion } from "@/lib/competency-deployments"
+import { withCSRF } from "@/lib/csrf-middleware"
+import { logAuditEvent } from "@/lib/rbac-middleware"
+import { getSchoolContext } from "@/lib/school-utils"
+import type { UserRole } from "@/types"
+
+const ADMIN_ROLES: UserRole[] = ["SUPER_ADMIN", "SCHOOL_ADMIN"]
+
+// POST /api/competencies/[id]/versions/[versionId]/restore - Restore an earlier version
+export const POST = withCSRF(
+  withErrorHandling(
+    async (
+      _request: NextRequest,
+      { params }: { params: Promise<{ id: string; versionId: string }> }
+    ) => {
+      const context = await getSchoolContext()
+      if (!ADMIN_ROLES.includes(context.userRole)) {
+        return createErrorResponse(ERROR_MESSAGES.INSUFFICIENT_PERMISSIONS, HTTP_STATUS.FORBIDDEN)
+      }
+
+      const { id, versionId } = await params
+      const [version] = await db
+        .select({
+          versionNumber: competencyVersions.versionNumber,
+          schoolId: competencies.schoolId,
+        })
+        .from(competencyVersions)
+        .innerJoin(competencies, eq(competencies.id, competencyVersions.competencyId))
+        .where(and(eq(competencyVersions.id, versionId), eq(competencyVersions.competencyId, id)))
+        .limit(1)
+      if (!version || (!context.canAccessAllSchools && version.schoolId !== context.schoolId)) {
+        return createErrorResponse(ERROR_MESSAGES.NOT_FOUND, HTTP_STATUS.NOT_FOUND)
+      }
+
+      const result = await restoreCompetencyVersion(versionId, context.userId)
+      if (!result.ok) {
+        return createErrorResponse(ERROR_MESSAGES.NOT_FOUND, HTTP_STATUS.NOT_FOUND)
+      }
+
+      await logAuditEvent({
+        userId: context.userId,
+        action: "COMPETENCY_VERSION_RESTORED",
+        resource: "competencies",
+        resourceId: id,
+        details: { restoredVersion: version.versionNumber, newVersion: result.competency.version },
+        severity: "MEDIUM",
+      })
+
+      return createSuccessResponse(
+        { competency: result.competency },
+        `Restored version ${version.versionNumber}`
+      )
+    }
+  )
+)
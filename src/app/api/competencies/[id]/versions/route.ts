@@ -0,0 +1,45 @@
+import { eq } from "drizzle-orm"
+import type { NextRequest } from "next/server"
+import { db } from "@/database/connection-pool"
+import { competencies } from "@/database/schema"
+import {
+  createErrorResponse,
+  createSuccessResponse,
+  ERROR_MESSAGES,
+  HTTP_STATUS,
+  withErrorHandling,
+} from "@/lib/api-response"
+import { listCompetencyVersions } from "@/lib/competency-deployments"
+import { getSchoolContext } from "@/lib/school-utils"
+import type { UserRole } from "@/types"
+
+const ADMIN_ROLES: UserRole[] = ["SUPER_ADMIN", "SCHOOL_ADMIN"]
+
+// GET /api/competencies/[id]/versions - Earlier versions of a competency, newest first
+export const GET = withErrorHandling(
+  async (_request: NextRequest, { params }: { params: Promise<{ id: string }> }) => {
+    const context = await getSchoolContext()
+    if (!ADMIN_ROLES.includes(context.userRole)) {
+      return createErrorResponse(ERROR_MESSAGES.INSUFFICIENT_PERMISSIONS, HTTP_STATUS.FORBIDDEN)
+    }
+
+    const { id } = await params
+    const [competency] = await db
+      .select({ schoolId: competencies.schoolId, version: competencies.version })
+      .from(competencies)
+      .where(eq(competencies.id, id))
+      .limit(1)
+    if (!competency || (!context.canAccessAllSchools && competency.schoolId !== context.schoolId)) {
+      return createErrorResponse(ERROR_MESSAGES.NOT_FOUND, HTTP_STATUS.NOT_FOUND)
+    }
+
+    const versions = await listCompetencyVersions(id)
+    return createSuccessResponse({
+      currentVersion: competency.version,
+      versions: versions.map((version) => ({
+        ...version,
+        previousData: JSON.parse(version.previousData),
+      })),
+    })
+  }
+)
@@ -10,6 +10,7 @@ import {
   HTTP_STATUS,
   ERROR_MESSAGES,
 } from "@/lib/api-response"
+import { updateCompetencyVersioned } from "@/lib/competency-deployments"
 import { getSchoolContext } from "@/lib/school-utils"
 import type { UserRole } from "@/types"
 
@@ -172,17 +173,18 @@ export const PUT = withErrorHandling(async (request: NextRequest) => {
     return createErrorResponse(ERROR_MESSAGES.INSUFFICIENT_PERMISSIONS, HTTP_STATUS.FORBIDDEN)
   }
 
-  const [updatedCompetency] = await db
-    .update(competencies)
-    .set({
-      ...validatedData,
-      criteria: validatedData.criteria ? JSON.stringify(validatedData.criteria) : undefined,
-      updatedAt: new Date(),
-    })
-    .where(eq(competencies.id, id))
-    .returning()
+  // The content being replaced is kept as a version
+  const { criteria, isActive: _isActive, ...changes } = validatedData
+  const result = await updateCompetencyVersioned(
+    id,
+    { ...changes, criteria: criteria ? JSON.stringify(criteria) : undefined },
+    context.userId
+  )
+  if (!result.ok) {
+    return createErrorResponse("Competency not found", HTTP_STATUS.NOT_FOUND)
+  }
 
-  return createSuccessResponse({ competency: updatedCompetency }, "Competency updated successfully")
+  return createSuccessResponse({ competency: result.competency }, "Competency updated successfully")
 })
 
 // DELETE /api/competencies - Delete competency
@@ -553,10 +553,17 @@ export const DELETE = withCSRF(async (request: NextRequest) => {
     const daysOld = Number.parseInt(searchParams.get("daysOld") || "30")
     const cutoffDate = new Date(Date.now() - daysOld * 24 * 60 * 60 * 1000)
 
-    // Delete old analytics records
+    // Delete old analytics records; school admins only clear their own school's
     const result = await db
       .delete(learningAnalytics)
-      .where(lte(learningAnalytics.recordedAt, cutoffDate))
+      .where(
+        and(
+          lte(learningAnalytics.recordedAt, cutoffDate),
+          permissions.userRole === ("SUPER_ADMIN" as UserRole)
+            ? undefined
+            : eq(learningAnalytics.schoolId, permissions.schoolId || "")
+        )
+      )
       .returning({ id: learningAnalytics.id })
 
     return NextResponse.json({
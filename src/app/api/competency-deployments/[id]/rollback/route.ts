@@ -0,0 +1,61 @@
+import type { NextRequest } from "next/server"
+import { z } from "zod"
+import {
+  createErrorResponse,
+  createSuccessResponse,
+  ERROR_MESSAGES,
+  HTTP_STATUS,
+  withErrorHandling,
+} from "@/lib/api-response"
+import { rollbackDeployment } from "@/lib/competency-deployments"
+import { withCSRF } from "@/lib/csrf-middleware"
+import { logAuditEvent } from "@/lib/rbac-middleware"
+import { getSchoolContext } from "@/lib/school-utils"
+import type { UserRole } from "@/types"
+
+const ADMIN_ROLES: UserRole[] = ["SUPER_ADMIN", "SCHOOL_ADMIN"]
+
+const rollbackSchema = z.object({
+  reason: z.string().max(1000).optional(),
+})
+
+// POST /api/competency-deployments/[id]/rollback - Withdraw unstarted assignments and archive
+export const POST = withCSRF(
+  withErrorHandling(
+    async (request: NextRequest, { params }: { params: Promise<{ id: string }> }) => {
+      const context = await getSchoolContext()
+      if (!ADMIN_ROLES.includes(context.userRole)) {
+        return createErrorResponse(ERROR_MESSAGES.INSUFFICIENT_PERMISSIONS, HTTP_STATUS.FORBIDDEN)
+      }
+      if (!context.canAccessAllSchools && !context.schoolId) {
+        return createErrorResponse(ERROR_MESSAGES.INSUFFICIENT_PERMISSIONS, HTTP_STATUS.FORBIDDEN)
+      }
+
+      const { id } = await params
+      const { reason } = rollbackSchema.parse(await request.json().catch(() => ({})))
+      const result = await rollbackDeployment(id, context.userId, {
+        schoolId: context.canAccessAllSchools ? null : context.schoolId,
+        reason,
+      })
+      if (!result.ok) {
+        return result.reason === "not_found"
+          ? createErrorResponse(ERROR_MESSAGES.NOT_FOUND, HTTP_STATUS.NOT_FOUND)
+          : createErrorResponse("Deployment has already been rolled back", HTTP_STATUS.CONFLICT)
+      }
+
+      await logAuditEvent({
+        userId: context.userId,
+        action: "COMPETENCY_DEPLOYMENT_ROLLED_BACK",
+        resource: "competency_deployments",
+        resourceId: id,
+        details: { reason, withdrawn: result.withdrawn, retained: result.retained },
+        severity: "HIGH",
+      })
+
+      return createSuccessResponse(
+        { deployment: result.deployment, withdrawn: result.withdrawn, retained: result.retained },
+        "Deployment rolled back"
+      )
+    }
+  )
+)
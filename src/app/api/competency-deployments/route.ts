@@ -0,0 +1,113 @@
+import type { NextRequest } from "next/server"
+import { z } from "zod"
+import {
+  createErrorResponse,
+  createSuccessResponse,
+  ERROR_MESSAGES,
+  HTTP_STATUS,
+  withErrorHandling,
+} from "@/lib/api-response"
+import { deployCompetency, getDeploymentOverview } from "@/lib/competency-deployments"
+import { withCSRF } from "@/lib/csrf-middleware"
+import { logAuditEvent } from "@/lib/rbac-middleware"
+import { getSchoolContext } from "@/lib/school-utils"
+import type { UserRole } from "@/types"
+
+const ADMIN_ROLES: UserRole[] = ["SUPER_ADMIN", "SCHOOL_ADMIN"]
+
+export const dynamic = "force-dynamic"
+
+const deploySchema = z
+  .object({
+    schoolId: z.string().optional(),
+    competencyId: z.string().min(1).optional(),
+    templateId: z.string().min(1).optional(),
+    targetPrograms: z.array(z.string().min(1)).max(100).default([]),
+    targetUsers: z.array(z.string().min(1)).max(5000).default([]),
+    effectiveDate: z.coerce.date().optional(),
+    expiryDate: z.coerce.date().optional(),
+    notes: z.string().max(2000).optional(),
+  })
+  .refine((data) => Boolean(data.competencyId) !== Boolean(data.templateId), {
+    message: "Provide either competencyId or templateId",
+  })
+
+const DEPLOY_ERRORS = {
+  competency_not_found: ["Competency not found", HTTP_STATUS.NOT_FOUND],
+  template_not_found: ["Template not found", HTTP_STATUS.NOT_FOUND],
+  no_targets: ["Select at least one program or student", HTTP_STATUS.BAD_REQUEST],
+  invalid_schedule: ["Expiry date must be after the effective date", HTTP_STATUS.BAD_REQUEST],
+} as const
+
+// GET /api/competency-deployments - Deployment stats and recent deployments for a school
+export const GET = withErrorHandling(async (request: NextRequest) => {
+  const context = await getSchoolContext()
+  if (!ADMIN_ROLES.includes(context.userRole)) {
+    return createErrorResponse(ERROR_MESSAGES.INSUFFICIENT_PERMISSIONS, HTTP_STATUS.FORBIDDEN)
+  }
+
+  const schoolId = context.canAccessAllSchools
+    ? request.nextUrl.searchParams.get("schoolId") || context.schoolId
+    : context.schoolId
+  if (!schoolId) {
+    return createErrorResponse("School ID is required", HTTP_STATUS.BAD_REQUEST)
+  }
+
+  return createSuccessResponse(await getDeploymentOverview(schoolId))
+})
+
+// POST /api/competency-deployments - Deploy a competency or template to programs or students
+export const POST = withCSRF(
+  withErrorHandling(async (request: NextRequest) => {
+    const context = await getSchoolContext()
+    if (!ADMIN_ROLES.includes(context.userRole)) {
+      return createErrorResponse(ERROR_MESSAGES.INSUFFICIENT_PERMISSIONS, HTTP_STATUS.FORBIDDEN)
+    }
+
+    const data = deploySchema.parse(await request.json())
+    const schoolId = context.canAccessAllSchools
+      ? data.schoolId || context.schoolId
+      : context.schoolId
+    if (!schoolId) {
+      return createErrorResponse("School ID is required", HTTP_STATUS.BAD_REQUEST)
+    }
+
+    const result = await deployCompetency({
+      schoolId,
+      deployedBy: context.userId,
+      competencyId: data.competencyId,
+      templateId: data.templateId,
+      targetPrograms: data.targetPrograms,
+      targetUsers: data.targetUsers,
+      effectiveDate: data.effectiveDate,
+      expiryDate: data.expiryDate,
+      notes: data.notes,
+    })
+    if (!result.ok) {
+      const [message, status] = DEPLOY_ERRORS[result.reason]
+      return createErrorResponse(message, status)
+    }
+
+    await logAuditEvent({
+      userId: context.userId,
+      action: "COMPETENCY_DEPLOYED",
+      resource: "competency_deployments",
+      resourceId: result.deployment.id,
+      details: {
+        competencyId: result.deployment.competencyId,
+        templateId: result.deployment.templateId,
+        status: result.deployment.status,
+        assigned: result.assigned,
+      },
+      severity: "MEDIUM",
+    })
+
+    return createSuccessResponse(
+      { deployment: result.deployment, assigned: result.assigned },
+      result.deployment.status === "PENDING"
+        ? "Deployment scheduled"
+        : `Competency assigned to ${result.assigned} student${result.assigned === 1 ? "" : "s"}`,
+      HTTP_STATUS.CREATED
+    )
+  })
+)
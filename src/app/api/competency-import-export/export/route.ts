@@ -0,0 +1,64 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { z } from "zod"
+import {
+  createErrorResponse,
+  ERROR_MESSAGES,
+  HTTP_STATUS,
+  withErrorHandling,
+} from "@/lib/api-response"
+import {
+  exportCompetencyData,
+  TRANSFER_ENTITIES,
+  TRANSFER_FORMATS,
+} from "@/lib/competency-import-export"
+import { logAuditEvent } from "@/lib/rbac-middleware"
+import { getSchoolContext } from "@/lib/school-utils"
+import type { UserRole } from "@/types"
+
+const ADMIN_ROLES: UserRole[] = ["SUPER_ADMIN", "SCHOOL_ADMIN"]
+
+export const dynamic = "force-dynamic"
+
+const exportQuerySchema = z.object({
+  entity: z.enum(TRANSFER_ENTITIES),
+  format: z.enum(TRANSFER_FORMATS).default("csv"),
+  schoolId: z.string().optional(),
+})
+
+// GET /api/competency-import-export/export?entity=&format= - Download a school's records
+export const GET = withErrorHandling(async (request: NextRequest) => {
+  const context = await getSchoolContext()
+  if (!ADMIN_ROLES.includes(context.userRole)) {
+    return createErrorResponse(ERROR_MESSAGES.INSUFFICIENT_PERMISSIONS, HTTP_STATUS.FORBIDDEN)
+  }
+
+  const query = exportQuerySchema.parse(Object.fromEntries(request.nextUrl.searchParams))
+  const schoolId = context.canAccessAllSchools
+    ? query.schoolId || context.schoolId
+    : context.schoolId
+  if (!schoolId) {
+    return createErrorResponse("School ID is required", HTTP_STATUS.BAD_REQUEST)
+  }
+
+  const file = await exportCompetencyData(query.entity, query.format, {
+    schoolId,
+    userId: context.userId,
+  })
+
+  await logAuditEvent({
+    userId: context.userId,
+    action: "COMPETENCY_DATA_EXPORTED",
+    resource: "import_export_logs",
+    details: { entity: query.entity, format: query.format, count: file.count },
+    severity: "LOW",
+  })
+
+  const buffer = Buffer.from(file.content)
+  return new NextResponse(new Uint8Array(buffer), {
+    headers: {
+      "Content-Type": file.contentType,
+      "Content-Disposition": `attachment; filename="${file.fileName}"`,
+      "Content-Length": buffer.length.toString(),
+    },
+  })
+})
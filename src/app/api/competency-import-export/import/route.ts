@@ -0,0 +1,113 @@
+import type { NextRequest } from "next/server"
+import { z } from "zod"
+import {
+  createErrorResponse,
+  createSuccessResponse,
+  ERROR_MESSAGES,
+  HTTP_STATUS,
+  withErrorHandling,
+} from "@/lib/api-response"
+import {
+  importCompetencyData,
+  MAX_IMPORT_BYTES,
+  TRANSFER_ENTITIES,
+  TRANSFER_FORMATS,
+} from "@/lib/competency-import-export"
+import { withCSRF } from "@/lib/csrf-middleware"
+import { logAuditEvent } from "@/lib/rbac-middleware"
+import { getSchoolContext } from "@/lib/school-utils"
+import type { UserRole } from "@/types"
+
+const ADMIN_ROLES: UserRole[] = ["SUPER_ADMIN", "SCHOOL_ADMIN"]
+
+export const dynamic = "force-dynamic"
+
+// Multipart framing overhead allowed on top of the largest file size
+const FORM_OVERHEAD_BYTES = 64 * 1024
+
+const importFieldsSchema = z.object({
+  entity: z.enum(TRANSFER_ENTITIES),
+  format: z.enum(TRANSFER_FORMATS).optional(),
+  dryRun: z.enum(["true", "false"]).default("false"),
+  schoolId: z.string().optional(),
+})
+
+// POST /api/competency-import-export/import - Validate (dryRun=true) or import a CSV or JSON file
+export const POST = withCSRF(
+  withErrorHandling(async (request: NextRequest) => {
+    const context = await getSchoolContext()
+    if (!ADMIN_ROLES.includes(context.userRole)) {
+      return createErrorResponse(ERROR_MESSAGES.INSUFFICIENT_PERMISSIONS, HTTP_STATUS.FORBIDDEN)
+    }
+
+    const declaredLength = Number(request.headers.get("content-length") ?? 0)
+    if (declaredLength > MAX_IMPORT_BYTES + FORM_OVERHEAD_BYTES) {
+      return createErrorResponse("File is too large", HTTP_STATUS.PAYLOAD_TOO_LARGE)
+    }
+
+    const form = await request.formData()
+    const file = form.get("file")
+    if (!(file instanceof File)) {
+      return createErrorResponse("A file is required", HTTP_STATUS.BAD_REQUEST)
+    }
+    if (file.size > MAX_IMPORT_BYTES) {
+      return createErrorResponse("File is too large", HTTP_STATUS.PAYLOAD_TOO_LARGE)
+    }
+
+    const fields = importFieldsSchema.parse({
+      entity: form.get("entity"),
+      format: form.get("format") || undefined,
+      dryRun: form.get("dryRun") || undefined,
+      schoolId: form.get("schoolId") || undefined,
+    })
+    const schoolId = context.canAccessAllSchools
+      ? fields.schoolId || context.schoolId
+      : context.schoolId
+    if (!schoolId) {
+      return createErrorResponse("School ID is required", HTTP_STATUS.BAD_REQUEST)
+    }
+
+    const format = fields.format ?? (file.name.toLowerCase().endsWith(".json") ? "json" : "csv")
+    const dryRun = fields.dryRun === "true"
+    const result = await importCompetencyData({
+      entity: fields.entity,
+      format,
+      fileName: file.name,
+      content: await file.text(),
+      schoolId,
+      userId: context.userId,
+      dryRun,
+    })
+    if (!result.ok) {
+      return createErrorResponse(result.message, HTTP_STATUS.UNPROCESSABLE_ENTITY, {
+        logId: result.logId,
+      })
+    }
+
+    const { report } = result
+    if (!dryRun) {
+      await logAuditEvent({
+        userId: context.userId,
+        action: "COMPETENCY_DATA_IMPORTED",
+        resource: "import_export_logs",
+        resourceId: report.logId ?? undefined,
+        details: {
+          entity: fields.entity,
+          fileName: file.name,
+          created: report.created,
+          updated: report.updated,
+          failed: report.failed,
+        },
+        severity: "MEDIUM",
+      })
+    }
+
+    const summary = `${report.created} to create, ${report.updated} to update, ${report.failed} with errors`
+    return createSuccessResponse(
+      report,
+      dryRun
+        ? `Validation finished: ${summary}`
+        : `Import finished: ${report.created} created, ${report.updated} updated, ${report.failed} failed`
+    )
+  })
+)
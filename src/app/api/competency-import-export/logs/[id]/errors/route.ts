@@ -0,0 +1,56 @@
+import { type NextRequest, NextResponse } from "next/server"
+import {
+  createErrorResponse,
+  ERROR_MESSAGES,
+  HTTP_STATUS,
+  withErrorHandling,
+} from "@/lib/api-response"
+import {
+  buildErrorFile,
+  getImportExportLog,
+  parseErrorDetails,
+} from "@/lib/competency-import-export"
+import { getSchoolContext } from "@/lib/school-utils"
+import type { UserRole } from "@/types"
+
+const ADMIN_ROLES: UserRole[] = ["SUPER_ADMIN", "SCHOOL_ADMIN"]
+
+export const dynamic = "force-dynamic"
+
+// GET /api/competency-import-export/logs/[id]/errors - Download the failed rows of an import as CSV
+export const GET = withErrorHandling(
+  async (request: NextRequest, { params }: { params: Promise<{ id: string }> }) => {
+    const context = await getSchoolContext()
+    if (!ADMIN_ROLES.includes(context.userRole)) {
+      return createErrorResponse(ERROR_MESSAGES.INSUFFICIENT_PERMISSIONS, HTTP_STATUS.FORBIDDEN)
+    }
+
+    const schoolId = context.canAccessAllSchools
+      ? request.nextUrl.searchParams.get("schoolId") || context.schoolId
+      : context.schoolId
+    if (!schoolId) {
+      return createErrorResponse("School ID is required", HTTP_STATUS.BAD_REQUEST)
+    }
+
+    const { id } = await params
+    const log = await getImportExportLog(id, schoolId)
+    if (!log || log.operationType !== "IMPORT") {
+      return createErrorResponse(ERROR_MESSAGES.NOT_FOUND, HTTP_STATUS.NOT_FOUND)
+    }
+
+    const errors = parseErrorDetails(log)
+    if (errors.length === 0) {
+      return createErrorResponse("This import has no errors", HTTP_STATUS.NOT_FOUND)
+    }
+
+    const buffer = Buffer.from(buildErrorFile(errors, "csv"))
+    const baseName = log.fileName.replace(/\.[^.]+$/, "").replace(/[^\w.-]+/g, "_")
+    return new NextResponse(new Uint8Array(buffer), {
+      headers: {
+        "Content-Type": "text/csv; charset=utf-8",
+        "Content-Disposition": `attachment; filename="${baseName}-errors.csv"`,
+        "Content-Length": buffer.length.toString(),
+      },
+    })
+  }
+)
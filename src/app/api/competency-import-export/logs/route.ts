@@ -0,0 +1,32 @@
+import type { NextRequest } from "next/server"
+import {
+  createErrorResponse,
+  createSuccessResponse,
+  ERROR_MESSAGES,
+  HTTP_STATUS,
+  withErrorHandling,
+} from "@/lib/api-response"
+import { listImportExportLogs } from "@/lib/competency-import-export"
+import { getSchoolContext } from "@/lib/school-utils"
+import type { UserRole } from "@/types"
+
+const ADMIN_ROLES: UserRole[] = ["SUPER_ADMIN", "SCHOOL_ADMIN"]
+
+export const dynamic = "force-dynamic"
+
+// GET /api/competency-import-export/logs - Recent imports and exports for a school
+export const GET = withErrorHandling(async (request: NextRequest) => {
+  const context = await getSchoolContext()
+  if (!ADMIN_ROLES.includes(context.userRole)) {
+    return createErrorResponse(ERROR_MESSAGES.INSUFFICIENT_PERMISSIONS, HTTP_STATUS.FORBIDDEN)
+  }
+
+  const schoolId = context.canAccessAllSchools
+    ? request.nextUrl.searchParams.get("schoolId") || context.schoolId
+    : context.schoolId
+  if (!schoolId) {
+    return createErrorResponse("School ID is required", HTTP_STATUS.BAD_REQUEST)
+  }
+
+  return createSuccessResponse({ logs: await listImportExportLogs(schoolId) })
+})
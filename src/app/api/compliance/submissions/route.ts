@@ -2,7 +2,12 @@ import { and, desc, eq } from "drizzle-orm"
 import { type NextRequest, NextResponse } from "next/server"
 import { z } from "zod"
 import { db } from "../../../../database/connection-pool"
-import { complianceSubmissions, complianceRequirements, users } from "../../../../database/schema"
+import {
+  complianceSubmissions,
+  complianceRequirements,
+  documents,
+  users,
+} from "../../../../database/schema"
 import { getSchoolContext } from "../../../../lib/school-utils"
 import {
   createSuccessResponse,
@@ -13,6 +18,9 @@ import {
 } from "@/lib/api-response"
 import { logger } from "@/lib/logger"
 import { notifyComplianceStatusChange } from "@/lib/compliance-notifications"
+import { emitWebhookEvent } from "@/lib/webhooks"
+import { resolveExpiry } from "@/lib/compliance-expiry"
+import { tenantScope } from "@/lib/tenant-scope"
 
 // Role type guards
 const ADMIN_ROLES = ["SUPER_ADMIN", "SCHOOL_ADMIN"]
@@ -45,7 +53,7 @@ export const GET = withErrorHandling(async (request: NextRequest) => {
     | "REJECTED"
     | "EXPIRED"
     | null
-  const schoolId = searchParams.get("schoolId") || context.schoolId
+  const schoolId = searchParams.get("schoolId")
 
   // If student is requesting, they can only see their own
   if (context.userRole === "STUDENT") {
@@ -70,7 +78,10 @@ export const GET = withErrorHandling(async (request: NextRequest) => {
     return createErrorResponse(ERROR_MESSAGES.INSUFFICIENT_PERMISSIONS, HTTP_STATUS.FORBIDDEN)
   }
 
+  // Super admins may narrow to one school; everyone else stays in their own
+  const scope = tenantScope(context, { crossTenantReason: "Compliance oversight" })
   const conditions = []
+  if (schoolId) conditions.push(eq(complianceRequirements.schoolId, schoolId))
   if (studentId) conditions.push(eq(complianceSubmissions.studentId, studentId))
   if (status) conditions.push(eq(complianceSubmissions.status, status))
 
@@ -87,7 +98,7 @@ export const GET = withErrorHandling(async (request: NextRequest) => {
       eq(complianceSubmissions.requirementId, complianceRequirements.id)
     )
     .innerJoin(users, eq(complianceSubmissions.studentId, users.id))
-    .where(and(eq(complianceRequirements.schoolId, schoolId!), ...conditions))
+    .where(scope.where(complianceRequirements, ...conditions))
     .orderBy(desc(complianceSubmissions.createdAt))
 
   return createSuccessResponse(submissions)
@@ -108,13 +119,31 @@ export const POST = withErrorHandling(async (request: NextRequest) => {
   const [requirement] = await db
     .select()
     .from(complianceRequirements)
-    .where(eq(complianceRequirements.id, validatedData.requirementId))
+    .where(
+      tenantScope(context).where(
+        complianceRequirements,
+        eq(complianceRequirements.id, validatedData.requirementId)
+      )
+    )
     .limit(1)
 
   if (!requirement) {
     return createErrorResponse("Requirement not found", HTTP_STATUS.NOT_FOUND)
   }
 
+  // Only the student's own uploads can back a submission
+  if (validatedData.documentId) {
+    const [document] = await db
+      .select({ uploadedBy: documents.uploadedBy })
+      .from(documents)
+      .where(eq(documents.id, validatedData.documentId))
+      .limit(1)
+
+    if (!document || document.uploadedBy !== context.userId) {
+      return createErrorResponse("Document not found", HTTP_STATUS.NOT_FOUND)
+    }
+  }
+
   // Create or update submission
   const [existing] = await db
     .select()
@@ -157,6 +186,17 @@ export const POST = withErrorHandling(async (request: NextRequest) => {
       .returning()
   }
 
+  if (existing?.status !== "PENDING") {
+    await emitWebhookEvent(requirement.schoolId, "compliance_submission.status_changed", {
+      submissionId: result.id,
+      studentId: result.studentId,
+      requirementId: requirement.id,
+      requirementName: requirement.name,
+      previousStatus: existing?.status ?? null,
+      status: result.status,
+    })
+  }
+
   return createSuccessResponse(result, "Requirement submitted successfully")
 })
 
@@ -181,28 +221,47 @@ export const PUT = withErrorHandling(async (request: NextRequest) => {
     return createErrorResponse("Submission not found", HTTP_STATUS.NOT_FOUND)
   }
 
+  // Admins only review submissions against their own school's requirements
+  const [requirement] = await db
+    .select()
+    .from(complianceRequirements)
+    .where(
+      tenantScope(context, { crossTenantReason: "Compliance oversight" }).where(
+        complianceRequirements,
+        eq(complianceRequirements.id, submission.requirementId)
+      )
+    )
+    .limit(1)
+
+  if (!requirement) {
+    return createErrorResponse("Submission not found", HTTP_STATUS.NOT_FOUND)
+  }
+
+  // Recurring requirements fall due again one or two years after approval
+  const reviewedAt = new Date()
+  const explicitExpiry = validatedData.expiresAt ? new Date(validatedData.expiresAt) : null
+  const expiresAt =
+    validatedData.status === "APPROVED"
+      ? resolveExpiry(requirement.frequency, explicitExpiry, reviewedAt)
+      : explicitExpiry
+
   // Update
   const [updated] = await db
     .update(complianceSubmissions)
     .set({
       status: validatedData.status,
       notes: validatedData.notes,
-      expiresAt: validatedData.expiresAt ? new Date(validatedData.expiresAt) : null,
+      expiresAt,
+      lastReminderDays: null,
       reviewedBy: context.userId,
-      reviewedAt: new Date(),
-      updatedAt: new Date(),
+      reviewedAt,
+      updatedAt: reviewedAt,
     })
     .where(eq(complianceSubmissions.id, validatedData.id))
     .returning()
 
-  // Notify student
-  const [requirement] = await db
-    .select()
-    .from(complianceRequirements)
-    .where(eq(complianceRequirements.id, updated.requirementId))
-    .limit(1)
-
-  if (requirement && updated.status !== "PENDING") {
+  if (updated.status !== "PENDING") {
+    // Notify student
     await notifyComplianceStatusChange({
       studentId: updated.studentId,
       requirementName: requirement.name,
@@ -211,5 +270,19 @@ export const PUT = withErrorHandling(async (request: NextRequest) => {
     })
   }
 
+  if (updated.status !== submission.status) {
+    await emitWebhookEvent(requirement.schoolId, "compliance_submission.status_changed", {
+      submissionId: updated.id,
+      studentId: updated.studentId,
+      requirementId: requirement.id,
+      requirementName: requirement.name,
+      previousStatus: submission.status,
+      status: updated.status,
+      reviewedBy: updated.reviewedBy,
+      reviewedAt: updated.reviewedAt,
+      expiresAt: updated.expiresAt,
+    })
+  }
+
   return createSuccessResponse(updated, "Submission reviewed successfully")
 })
@@ -0,0 +1,25 @@
+import type { NextRequest } from "next/server"
+import {
+  createErrorResponse,
+  createSuccessResponse,
+  ERROR_MESSAGES,
+  HTTP_STATUS,
+  withErrorHandling,
+} from "@/lib/api-response"
+import { archiveAuditLogs, createAuditCheckpoints } from "@/lib/audit-chain"
+import { isAuthorizedCronRequest } from "@/lib/cron-auth"
+
+export const dynamic = "force-dynamic"
+export const maxDuration = 300
+
+// GET /api/cron/audit-chain - Sign audit chain checkpoints and apply retention policies
+export const GET = withErrorHandling(async (request: NextRequest) => {
+  if (!isAuthorizedCronRequest(request)) {
+    return createErrorResponse(ERROR_MESSAGES.UNAUTHORIZED, HTTP_STATUS.UNAUTHORIZED)
+  }
+
+  // Checkpoint first so the signed heads cover entries about to be archived
+  const checkpoints = await createAuditCheckpoints()
+  const archived = await archiveAuditLogs()
+  return createSuccessResponse({ checkpoints, archived })
+})
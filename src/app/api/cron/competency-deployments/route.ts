@@ -0,0 +1,23 @@
+import type { NextRequest } from "next/server"
+import {
+  createErrorResponse,
+  createSuccessResponse,
+  ERROR_MESSAGES,
+  HTTP_STATUS,
+  withErrorHandling,
+} from "@/lib/api-response"
+import { runDeploymentSchedule } from "@/lib/competency-deployments"
+import { isAuthorizedCronRequest } from "@/lib/cron-auth"
+
+export const dynamic = "force-dynamic"
+export const maxDuration = 300
+
+// GET /api/cron/competency-deployments - Activate scheduled deployments and retire expired ones
+export const GET = withErrorHandling(async (request: NextRequest) => {
+  if (!isAuthorizedCronRequest(request)) {
+    return createErrorResponse(ERROR_MESSAGES.UNAUTHORIZED, HTTP_STATUS.UNAUTHORIZED)
+  }
+
+  const result = await runDeploymentSchedule()
+  return createSuccessResponse(result)
+})
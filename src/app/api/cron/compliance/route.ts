@@ -0,0 +1,23 @@
+import type { NextRequest } from "next/server"
+import {
+  createErrorResponse,
+  createSuccessResponse,
+  ERROR_MESSAGES,
+  HTTP_STATUS,
+  withErrorHandling,
+} from "@/lib/api-response"
+import { runComplianceSweep } from "@/lib/compliance-expiry"
+import { isAuthorizedCronRequest } from "@/lib/cron-auth"
+
+export const dynamic = "force-dynamic"
+export const maxDuration = 300
+
+// GET /api/cron/compliance - Expire lapsed submissions and send expiry reminders
+export const GET = withErrorHandling(async (request: NextRequest) => {
+  if (!isAuthorizedCronRequest(request)) {
+    return createErrorResponse(ERROR_MESSAGES.UNAUTHORIZED, HTTP_STATUS.UNAUTHORIZED)
+  }
+
+  const result = await runComplianceSweep()
+  return createSuccessResponse(result)
+})
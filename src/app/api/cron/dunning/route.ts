@@ -0,0 +1,23 @@
+import type { NextRequest } from "next/server"
+import {
+  createErrorResponse,
+  createSuccessResponse,
+  ERROR_MESSAGES,
+  HTTP_STATUS,
+  withErrorHandling,
+} from "@/lib/api-response"
+import { isAuthorizedCronRequest } from "@/lib/cron-auth"
+import { runDunningSweep } from "@/lib/payments/dunning"
+
+export const dynamic = "force-dynamic"
+export const maxDuration = 300
+
+// GET /api/cron/dunning - Send past due reminders and move lapsed students to read-only
+export const GET = withErrorHandling(async (request: NextRequest) => {
+  if (!isAuthorizedCronRequest(request)) {
+    return createErrorResponse(ERROR_MESSAGES.UNAUTHORIZED, HTTP_STATUS.UNAUTHORIZED)
+  }
+
+  const result = await runDunningSweep()
+  return createSuccessResponse(result)
+})
@@ -0,0 +1,40 @@
+import type { NextRequest } from "next/server"
+import {
+  createErrorResponse,
+  createSuccessResponse,
+  ERROR_MESSAGES,
+  HTTP_STATUS,
+  withErrorHandling,
+} from "@/lib/api-response"
+import { isAuthorizedCronRequest } from "@/lib/cron-auth"
+import { purgeExpiredIdempotencyKeys } from "@/lib/idempotency"
+import { QueueManager } from "@/lib/queue"
+import { enqueueDueScheduledReports } from "@/lib/reports/scheduled-report-runner"
+import { drainJobs } from "@/workers/job-runner"
+
+export const dynamic = "force-dynamic"
+export const maxDuration = 300
+
+// Time spent draining the queue per invocation, leaving headroom under maxDuration
+// for a job that starts just before the deadline. Anything left waits for the next tick.
+const JOB_DRAIN_BUDGET_MS = 240_000
+
+// GET /api/cron/jobs - Recover stuck jobs, enqueue due scheduled reports, process queued jobs
+// and drop expired idempotency keys
+export const GET = withErrorHandling(async (request: NextRequest) => {
+  if (!isAuthorizedCronRequest(request)) {
+    return createErrorResponse(ERROR_MESSAGES.UNAUTHORIZED, HTTP_STATUS.UNAUTHORIZED)
+  }
+
+  const recovered = await QueueManager.recoverStuckJobs()
+  const enqueued = await enqueueDueScheduledReports()
+  const processed = await drainJobs(JOB_DRAIN_BUDGET_MS)
+  const purgedIdempotencyKeys = await purgeExpiredIdempotencyKeys()
+
+  return createSuccessResponse({
+    recovered,
+    enqueuedReports: enqueued.length,
+    processed,
+    purgedIdempotencyKeys,
+  })
+})
@@ -0,0 +1,24 @@
+import type { NextRequest } from "next/server"
+import {
+  createErrorResponse,
+  createSuccessResponse,
+  ERROR_MESSAGES,
+  HTTP_STATUS,
+  withErrorHandling,
+} from "@/lib/api-response"
+import { isAuthorizedCronRequest } from "@/lib/cron-auth"
+import { purgeExpiredNotifications, sendNotificationDigests } from "@/lib/notification-service"
+
+export const dynamic = "force-dynamic"
+export const maxDuration = 300
+
+// GET /api/cron/notifications - Delete expired notifications and send daily digests
+export const GET = withErrorHandling(async (request: NextRequest) => {
+  if (!isAuthorizedCronRequest(request)) {
+    return createErrorResponse(ERROR_MESSAGES.UNAUTHORIZED, HTTP_STATUS.UNAUTHORIZED)
+  }
+
+  const purged = await purgeExpiredNotifications()
+  const digestsSent = await sendNotificationDigests()
+  return createSuccessResponse({ purged, digestsSent })
+})
@@ -0,0 +1,28 @@
+import type { NextRequest } from "next/server"
+import {
+  createErrorResponse,
+  createSuccessResponse,
+  ERROR_MESSAGES,
+  HTTP_STATUS,
+  withErrorHandling,
+} from "@/lib/api-response"
+import { isAuthorizedCronRequest } from "@/lib/cron-auth"
+import { reconcileSeats } from "@/lib/seat-lifecycle"
+
+export const dynamic = "force-dynamic"
+export const maxDuration = 300
+
+// GET /api/cron/seats - Release seats that ended elsewhere and recount seat usage
+export const GET = withErrorHandling(async (request: NextRequest) => {
+  if (!isAuthorizedCronRequest(request)) {
+    return createErrorResponse(ERROR_MESSAGES.UNAUTHORIZED, HTTP_STATUS.UNAUTHORIZED)
+  }
+
+  const schools = await reconcileSeats()
+  return createSuccessResponse({
+    schools: schools.length,
+    released: schools.reduce((total, school) => total + school.released.length, 0),
+    corrected: schools.filter((school) => school.previousSeatsUsed !== school.seatsUsed).length,
+    overLimit: schools.filter((school) => school.overLimit > 0).map((school) => school.schoolId),
+  })
+})
@@ -0,0 +1,88 @@
+import type { NextRequest } from "next/server"
+import { z } from "zod"
+import {
+  createErrorResponse,
+  createSuccessResponse,
+  ERROR_MESSAGES,
+  HTTP_STATUS,
+  withErrorHandling,
+} from "@/lib/api-response"
+import { withCSRF } from "@/lib/csrf-middleware"
+import { logger } from "@/lib/logger"
+import { QueueManager } from "@/lib/queue"
+import { apiAuthMiddleware } from "@/lib/rbac-middleware"
+import { requeueDeadJobs } from "@/workers/job-runner"
+
+const jobTypeSchema = z.enum(["EMAIL", "REPORT", "WEBHOOK", "INBOUND_WEBHOOK"])
+
+const listQuerySchema = z.object({
+  type: jobTypeSchema.optional(),
+  limit: z.coerce.number().int().min(1).max(200).default(50),
+  offset: z.coerce.number().int().min(0).default(0),
+})
+
+const actionSchema = z
+  .object({
+    action: z.enum(["requeue", "purge"]),
+    jobIds: z.array(z.string().min(1)).min(1).max(500).optional(),
+    type: jobTypeSchema.optional(),
+    // Acting on every dead job must be explicit
+    all: z.boolean().optional(),
+  })
+  .refine((body) => body.jobIds || body.all, {
+    message: "Provide jobIds or set all: true",
+    path: ["jobIds"],
+  })
+
+/**
+ * GET /api/debug/queue/dead
+ * Lists dead-lettered jobs with their last error
+ */
+export const GET = withErrorHandling(async (request: NextRequest) => {
+  const auth = await apiAuthMiddleware(request, { requiredRoles: ["SUPER_ADMIN"] })
+  if (!auth.success) {
+    return createErrorResponse(
+      auth.error || ERROR_MESSAGES.UNAUTHORIZED,
+      auth.status || HTTP_STATUS.UNAUTHORIZED
+    )
+  }
+
+  const query = listQuerySchema.parse(Object.fromEntries(request.nextUrl.searchParams))
+  const jobs = await QueueManager.listDead(query)
+
+  return createSuccessResponse({ jobs, limit: query.limit, offset: query.offset })
+})
+
+/**
+ * POST /api/debug/queue/dead
+ * Requeues (fresh attempt budget) or purges dead-lettered jobs
+ */
+export const POST = withCSRF(
+  withErrorHandling(async (request: NextRequest) => {
+    const auth = await apiAuthMiddleware(request, { requiredRoles: ["SUPER_ADMIN"] })
+    if (!auth.success) {
+      return createErrorResponse(
+        auth.error || ERROR_MESSAGES.UNAUTHORIZED,
+        auth.status || HTTP_STATUS.UNAUTHORIZED
+      )
+    }
+
+    const { action, jobIds, type } = actionSchema.parse(await request.json())
+    const filter = { jobIds, type }
+
+    const affected =
+      action === "requeue"
+        ? await requeueDeadJobs(filter)
+        : await QueueManager.purgeDead(filter)
+
+    logger.info(
+      { action, affected, type, jobIds: jobIds?.length, userId: auth.user?.id },
+      "Dead-letter jobs updated"
+    )
+
+    return createSuccessResponse(
+      { action, affected },
+      action === "requeue" ? `${affected} job(s) requeued` : `${affected} job(s) purged`
+    )
+  })
+)
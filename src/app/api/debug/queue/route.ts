@@ -1,6 +1,6 @@
 import { NextResponse } from "next/server"
 import { QueueManager } from "@/lib/queue"
-import { processNextJob } from "@/workers/email.worker"
+import { processNextJob } from "@/workers/job-runner"
 import { withCSRF } from "@/lib/csrf-middleware"
 
 export const POST = withCSRF(async (request: Request) => {
@@ -0,0 +1,60 @@
+import { eq } from "drizzle-orm"
+import { type NextRequest, NextResponse } from "next/server"
+import { db } from "@/database/connection-pool"
+import { documents } from "@/database/schema"
+import {
+  createErrorResponse,
+  ERROR_MESSAGES,
+  HTTP_STATUS,
+  withErrorHandling,
+} from "@/lib/api-response"
+import { verifySignedDownload } from "@/lib/documents/signed-url"
+import { sha256Hex } from "@/lib/documents/upload-policy"
+import { logger } from "@/lib/logger"
+import { getStorageAdapter } from "@/lib/storage"
+
+export const dynamic = "force-dynamic"
+
+// GET /api/documents/[id]/download?expires=&signature= - Stream a document via a signed URL
+export const GET = withErrorHandling(
+  async (request: NextRequest, { params }: { params: Promise<{ id: string }> }) => {
+    const { id } = await params
+    const { searchParams } = request.nextUrl
+
+    if (!verifySignedDownload(id, searchParams.get("expires"), searchParams.get("signature"))) {
+      return createErrorResponse("Download link is invalid or has expired", HTTP_STATUS.FORBIDDEN)
+    }
+
+    const [document] = await db.select().from(documents).where(eq(documents.id, id)).limit(1)
+    if (!document || document.isArchived) {
+      return createErrorResponse(ERROR_MESSAGES.NOT_FOUND, HTTP_STATUS.NOT_FOUND)
+    }
+
+    const content = await getStorageAdapter().get(document.filePath)
+    if (!content) {
+      logger.error({ documentId: id, filePath: document.filePath }, "Document missing from storage")
+      return createErrorResponse(ERROR_MESSAGES.NOT_FOUND, HTTP_STATUS.NOT_FOUND)
+    }
+
+    // Refuse to serve a file that no longer matches what was uploaded
+    if (document.checksum && sha256Hex(content) !== document.checksum) {
+      logger.error({ documentId: id }, "Document checksum mismatch in storage")
+      return createErrorResponse(
+        "Stored file failed integrity verification",
+        HTTP_STATUS.INTERNAL_SERVER_ERROR
+      )
+    }
+
+    // Header values must be ASCII; the UTF-8 name goes in filename*
+    const asciiName = document.originalName.replace(/[^\x20-\x7e]/g, "_")
+    return new NextResponse(new Uint8Array(content), {
+      headers: {
+        "Content-Type": document.mimeType,
+        "Content-Length": String(content.length),
+        "Content-Disposition": `attachment; filename="${asciiName}"; filename*=UTF-8''${encodeURIComponent(document.originalName)}`,
+        "Cache-Control": "private, no-store",
+        "X-Content-Type-Options": "nosniff",
+      },
+    })
+  }
+)
@@ -0,0 +1,45 @@
+import { eq } from "drizzle-orm"
+import type { NextRequest } from "next/server"
+import { db } from "@/database/connection-pool"
+import { documents } from "@/database/schema"
+import {
+  createErrorResponse,
+  createSuccessResponse,
+  ERROR_MESSAGES,
+  HTTP_STATUS,
+  withErrorHandling,
+} from "@/lib/api-response"
+import { canAccessDocument } from "@/lib/documents/access"
+import { createSignedDownloadUrl } from "@/lib/documents/signed-url"
+import { getSchoolContext } from "@/lib/school-utils"
+
+// GET /api/documents/[id] - Document metadata with a short-lived download URL
+export const GET = withErrorHandling(
+  async (_request: NextRequest, { params }: { params: Promise<{ id: string }> }) => {
+    const context = await getSchoolContext()
+    const { id } = await params
+
+    const [document] = await db.select().from(documents).where(eq(documents.id, id)).limit(1)
+
+    // Hide existence of documents the caller cannot read
+    if (!document || document.isArchived || !(await canAccessDocument(context, document))) {
+      return createErrorResponse(ERROR_MESSAGES.NOT_FOUND, HTTP_STATUS.NOT_FOUND)
+    }
+
+    const download = createSignedDownloadUrl(document.id)
+    return createSuccessResponse({
+      id: document.id,
+      originalName: document.originalName,
+      mimeType: document.mimeType,
+      fileSize: document.fileSize,
+      documentType: document.documentType,
+      relatedEntityType: document.relatedEntityType,
+      relatedEntityId: document.relatedEntityId,
+      checksum: document.checksum,
+      uploadedBy: document.uploadedBy,
+      createdAt: document.createdAt,
+      downloadUrl: download.url,
+      downloadUrlExpiresAt: download.expiresAt,
+    })
+  }
+)
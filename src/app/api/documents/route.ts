@@ -0,0 +1,146 @@
+import type { NextRequest } from "next/server"
+import { z } from "zod"
+import { db } from "@/database/connection-pool"
+import { documents } from "@/database/schema"
+import {
+  createErrorResponse,
+  createSuccessResponse,
+  HTTP_STATUS,
+  withErrorHandling,
+} from "@/lib/api-response"
+import { withCSRF } from "@/lib/csrf-middleware"
+import { createSignedDownloadUrl } from "@/lib/documents/signed-url"
+import {
+  DOCUMENT_UPLOAD_POLICIES,
+  type DocumentType,
+  FILE_EXTENSIONS,
+  MAX_UPLOAD_BYTES,
+  sanitizeFileName,
+  sha256Hex,
+  validateUpload,
+} from "@/lib/documents/upload-policy"
+import { logger } from "@/lib/logger"
+import { getSchoolContext } from "@/lib/school-utils"
+import { getStorageAdapter } from "@/lib/storage"
+
+const uploadFieldsSchema = z.object({
+  documentType: z.enum(Object.keys(DOCUMENT_UPLOAD_POLICIES) as [DocumentType, ...DocumentType[]]),
+  relatedEntityType: z
+    .enum(["user", "rotation", "competency", "assessment", "clinical_site", "program"])
+    .optional(),
+  relatedEntityId: z.string().min(1).optional(),
+  // SHA-256 of the file computed by the client; verified after upload
+  checksum: z
+    .string()
+    .regex(/^[a-f0-9]{64}$/i, "Checksum must be a hex SHA-256 digest")
+    .optional(),
+})
+
+// Multipart framing overhead allowed on top of the largest file size
+const FORM_OVERHEAD_BYTES = 64 * 1024
+
+// POST /api/documents - Upload a document (multipart/form-data with a "file" field)
+export const POST = withCSRF(
+  withErrorHandling(async (request: NextRequest) => {
+    const context = await getSchoolContext()
+
+    const declaredLength = Number(request.headers.get("content-length") ?? 0)
+    if (declaredLength > MAX_UPLOAD_BYTES + FORM_OVERHEAD_BYTES) {
+      return createErrorResponse("File is too large", HTTP_STATUS.PAYLOAD_TOO_LARGE)
+    }
+
+    const form = await request.formData()
+    const file = form.get("file")
+    if (!(file instanceof File)) {
+      return createErrorResponse("A file is required", HTTP_STATUS.BAD_REQUEST)
+    }
+
+    const fields = uploadFieldsSchema.parse({
+      documentType: form.get("documentType") ?? undefined,
+      relatedEntityType: form.get("relatedEntityType") || undefined,
+      relatedEntityId: form.get("relatedEntityId") || undefined,
+      checksum: form.get("checksum") || undefined,
+    })
+
+    // Students can only attach documents to their own record
+    if (
+      context.userRole === "STUDENT" &&
+      fields.relatedEntityType === "user" &&
+      fields.relatedEntityId !== context.userId
+    ) {
+      return createErrorResponse(
+        "Students can only upload documents for themselves",
+        HTTP_STATUS.FORBIDDEN
+      )
+    }
+
+    const content = Buffer.from(await file.arrayBuffer())
+    const mimeType = file.type.split(";")[0].trim().toLowerCase()
+    const invalid = validateUpload({ documentType: fields.documentType, mimeType, content })
+    if (invalid) {
+      const tooLarge = content.length > DOCUMENT_UPLOAD_POLICIES[fields.documentType].maxBytes
+      return createErrorResponse(
+        invalid,
+        tooLarge ? HTTP_STATUS.PAYLOAD_TOO_LARGE : HTTP_STATUS.UNPROCESSABLE_ENTITY
+      )
+    }
+
+    const checksum = sha256Hex(content)
+    if (fields.checksum && fields.checksum.toLowerCase() !== checksum) {
+      return createErrorResponse(
+        "Checksum mismatch: the file was corrupted during upload",
+        HTTP_STATUS.UNPROCESSABLE_ENTITY
+      )
+    }
+
+    const id = crypto.randomUUID()
+    const fileName = `${id}${FILE_EXTENSIONS[mimeType] ?? ""}`
+    const filePath = `${context.schoolId ?? "unassigned"}/${fields.documentType}/${fileName}`
+
+    const storage = getStorageAdapter()
+    await storage.put(filePath, content, { contentType: mimeType })
+
+    let document: typeof documents.$inferSelect
+    try {
+      ;[document] = await db
+        .insert(documents)
+        .values({
+          id,
+          fileName,
+          originalName: sanitizeFileName(file.name),
+          mimeType,
+          fileSize: content.length,
+          filePath,
+          uploadedBy: context.userId,
+          documentType: fields.documentType,
+          relatedEntityType: fields.relatedEntityType ?? null,
+          relatedEntityId: fields.relatedEntityId ?? null,
+          checksum,
+          metadata: { storageDriver: storage.driver },
+        })
+        .returning()
+    } catch (error) {
+      // Do not leave orphaned objects behind when the record cannot be written
+      await storage.delete(filePath).catch((cleanupError) => {
+        logger.error({ err: cleanupError, filePath }, "Failed to clean up orphaned upload")
+      })
+      throw error
+    }
+
+    const download = createSignedDownloadUrl(document.id)
+    return createSuccessResponse(
+      {
+        id: document.id,
+        originalName: document.originalName,
+        mimeType: document.mimeType,
+        fileSize: document.fileSize,
+        documentType: document.documentType,
+        checksum: document.checksum,
+        createdAt: document.createdAt,
+        downloadUrl: download.url,
+        downloadUrlExpiresAt: download.expiresAt,
+      },
+      "Document uploaded successfully"
+    )
+  })
+)
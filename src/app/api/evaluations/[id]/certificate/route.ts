@@ -0,0 +1,53 @@
+import { inArray } from "drizzle-orm"
+import type { NextRequest } from "next/server"
+import { db } from "@/database/connection-pool"
+import { users } from "@/database/schema"
+import {
+  createErrorResponse,
+  createSuccessResponse,
+  ERROR_MESSAGES,
+  HTTP_STATUS,
+  withErrorHandling,
+} from "@/lib/api-response"
+import {
+  buildEvaluationCertificate,
+  canViewEvaluation,
+  getEvaluationWithSignatures,
+} from "@/lib/evaluation-signatures"
+import { getSchoolContext } from "@/lib/school-utils"
+
+// GET /api/evaluations/[id]/certificate - Signed certificate for a fully signed evaluation
+export const GET = withErrorHandling(
+  async (_request: NextRequest, { params }: { params: Promise<{ id: string }> }) => {
+    const context = await getSchoolContext()
+    const { id } = await params
+
+    const loaded = await getEvaluationWithSignatures(id)
+    if (!loaded || !(await canViewEvaluation(loaded.evaluation, context))) {
+      return createErrorResponse(ERROR_MESSAGES.NOT_FOUND, HTTP_STATUS.NOT_FOUND)
+    }
+
+    const { evaluation, signatures } = loaded
+    const parties = await db
+      .select({ id: users.id, name: users.name })
+      .from(users)
+      .where(inArray(users.id, [evaluation.studentId, evaluation.evaluatorId]))
+    const party = (userId: string) => ({
+      id: userId,
+      name: parties.find((p) => p.id === userId)?.name ?? null,
+    })
+
+    const certificate = buildEvaluationCertificate(evaluation, signatures, {
+      student: party(evaluation.studentId),
+      evaluator: party(evaluation.evaluatorId),
+    })
+    if (!certificate) {
+      return createErrorResponse(
+        "Both the evaluator and the student must sign the current version first",
+        HTTP_STATUS.CONFLICT
+      )
+    }
+
+    return createSuccessResponse({ certificate })
+  }
+)
@@ -0,0 +1,116 @@
+import type { NextRequest } from "next/server"
+import { z } from "zod"
+import {
+  createErrorResponse,
+  createSuccessResponse,
+  ERROR_MESSAGES,
+  HTTP_STATUS,
+  withErrorHandling,
+} from "@/lib/api-response"
+import { withCSRF } from "@/lib/csrf-middleware"
+import {
+  canViewEvaluation,
+  getEvaluationWithSignatures,
+  SIGNING_FAILURE_MESSAGES,
+  signingFailureStatus,
+  summarizeSignatures,
+  updateEvaluationContent,
+} from "@/lib/evaluation-signatures"
+import { logAuditEvent } from "@/lib/rbac-middleware"
+import { getSchoolContext } from "@/lib/school-utils"
+
+type RouteParams = { params: Promise<{ id: string }> }
+
+const rating = z.coerce.number().min(0).max(5).transform(String)
+
+const updateEvaluationSchema = z
+  .object({
+    type: z.enum(["MIDTERM", "FINAL", "WEEKLY", "INCIDENT"]),
+    period: z.string().max(100).nullable(),
+    observationDate: z.iso.datetime().transform((value) => new Date(value)),
+    feedback: z.string().max(10000).nullable(),
+    overallRating: rating,
+    criteria: z.string().max(20000).nullable(),
+    clinicalSkills: rating,
+    communication: rating,
+    professionalism: rating,
+    criticalThinking: rating,
+    strengths: z.string().max(10000).nullable(),
+    areasForImprovement: z.string().max(10000).nullable(),
+    goals: z.string().max(10000).nullable(),
+    comments: z.string().max(10000).nullable(),
+  })
+  .partial()
+  .refine((changes) => Object.keys(changes).length > 0, "No changes provided")
+
+// GET /api/evaluations/[id] - Evaluation with its signatures and whether each still matches
+export const GET = withErrorHandling(async (_request: NextRequest, { params }: RouteParams) => {
+  const context = await getSchoolContext()
+  const { id } = await params
+
+  const loaded = await getEvaluationWithSignatures(id)
+  if (!loaded || !(await canViewEvaluation(loaded.evaluation, context))) {
+    return createErrorResponse(ERROR_MESSAGES.NOT_FOUND, HTTP_STATUS.NOT_FOUND)
+  }
+
+  const { evaluation, signatures } = loaded
+  const summary = summarizeSignatures(evaluation, signatures)
+  return createSuccessResponse({
+    evaluation,
+    signing: {
+      ...summary,
+      viewerRole:
+        context.userId === evaluation.evaluatorId
+          ? "EVALUATOR"
+          : context.userId === evaluation.studentId
+            ? "STUDENT"
+            : null,
+    },
+    signatureHistory: signatures,
+  })
+})
+
+// PATCH /api/evaluations/[id] - Evaluator edits; signatures on the old content are invalidated
+export const PATCH = withCSRF(
+  withErrorHandling(async (request: NextRequest, { params }: RouteParams) => {
+    const context = await getSchoolContext()
+    const { id } = await params
+
+    const parsed = updateEvaluationSchema.safeParse(await request.json())
+    if (!parsed.success) {
+      return createErrorResponse(
+        "Invalid request body",
+        HTTP_STATUS.BAD_REQUEST,
+        parsed.error.issues
+      )
+    }
+
+    const result = await updateEvaluationContent({
+      evaluationId: id,
+      userId: context.userId,
+      changes: parsed.data,
+    })
+    if (!result.success) {
+      return createErrorResponse(
+        SIGNING_FAILURE_MESSAGES[result.reason],
+        signingFailureStatus(result.reason)
+      )
+    }
+
+    await logAuditEvent({
+      userId: context.userId,
+      action: "EVALUATION_UPDATED",
+      resource: "EVALUATION",
+      resourceId: id,
+      details: { fields: Object.keys(parsed.data), invalidatedSignatures: result.invalidated },
+      severity: result.invalidated.length > 0 ? "MEDIUM" : "LOW",
+    })
+
+    return createSuccessResponse(
+      { evaluation: result.evaluation, invalidatedSignatures: result.invalidated },
+      result.invalidated.length > 0
+        ? "Evaluation updated. Existing signatures were invalidated and must be collected again."
+        : "Evaluation updated"
+    )
+  })
+)
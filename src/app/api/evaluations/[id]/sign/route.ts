@@ -0,0 +1,80 @@
+import type { NextRequest } from "next/server"
+import { z } from "zod"
+import {
+  createErrorResponse,
+  createSuccessResponse,
+  HTTP_STATUS,
+  withErrorHandling,
+} from "@/lib/api-response"
+import { withCSRF } from "@/lib/csrf-middleware"
+import {
+  SIGNING_FAILURE_MESSAGES,
+  signEvaluation,
+  signingFailureStatus,
+} from "@/lib/evaluation-signatures"
+import { getClientIp, logAuditEvent } from "@/lib/rbac-middleware"
+import { getSchoolContext } from "@/lib/school-utils"
+
+const signSchema = z.object({
+  signedName: z.string().trim().min(2).max(200),
+  // The signer must explicitly agree that the typed name is their signature
+  consent: z.literal(true),
+})
+
+// POST /api/evaluations/[id]/sign - Sign the current content as the evaluator or the student
+export const POST = withCSRF(
+  withErrorHandling(
+    async (request: NextRequest, { params }: { params: Promise<{ id: string }> }) => {
+      const context = await getSchoolContext()
+      const { id } = await params
+
+      const parsed = signSchema.safeParse(await request.json())
+      if (!parsed.success) {
+        return createErrorResponse(
+          "Type your full name and confirm the signature statement",
+          HTTP_STATUS.BAD_REQUEST,
+          parsed.error.issues
+        )
+      }
+
+      const ipAddress = getClientIp(request)
+      const userAgent = request.headers.get("user-agent")
+      const result = await signEvaluation({
+        evaluationId: id,
+        userId: context.userId,
+        signedName: parsed.data.signedName,
+        ipAddress,
+        userAgent,
+      })
+
+      if (!result.success) {
+        return createErrorResponse(
+          SIGNING_FAILURE_MESSAGES[result.reason],
+          signingFailureStatus(result.reason)
+        )
+      }
+
+      await logAuditEvent({
+        userId: context.userId,
+        action: "EVALUATION_SIGNED",
+        resource: "EVALUATION",
+        resourceId: id,
+        details: {
+          signerRole: result.signature.signerRole,
+          contentHash: result.signature.contentHash,
+          fullySigned: result.fullySigned,
+          locked: result.locked,
+        },
+        ipAddress,
+        userAgent: userAgent ?? undefined,
+        severity: "MEDIUM",
+      })
+
+      return createSuccessResponse(
+        { signature: result.signature, fullySigned: result.fullySigned, locked: result.locked },
+        result.locked ? "Evaluation signed and locked" : "Evaluation signed",
+        HTTP_STATUS.CREATED
+      )
+    }
+  )
+)
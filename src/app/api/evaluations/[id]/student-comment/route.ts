@@ -0,0 +1,59 @@
+import type { NextRequest } from "next/server"
+import { z } from "zod"
+import {
+  createErrorResponse,
+  createSuccessResponse,
+  HTTP_STATUS,
+  withErrorHandling,
+} from "@/lib/api-response"
+import { withCSRF } from "@/lib/csrf-middleware"
+import {
+  SIGNING_FAILURE_MESSAGES,
+  saveStudentComment,
+  signingFailureStatus,
+} from "@/lib/evaluation-signatures"
+import { getSchoolContext } from "@/lib/school-utils"
+
+const commentSchema = z.object({
+  comment: z.string().trim().max(5000).nullable(),
+  type: z.enum(["ATTESTATION", "REBUTTAL"]).default("ATTESTATION"),
+})
+
+// PUT /api/evaluations/[id]/student-comment - Student's attestation or rebuttal, added before signing
+export const PUT = withCSRF(
+  withErrorHandling(
+    async (request: NextRequest, { params }: { params: Promise<{ id: string }> }) => {
+      const context = await getSchoolContext()
+      const { id } = await params
+
+      const parsed = commentSchema.safeParse(await request.json())
+      if (!parsed.success) {
+        return createErrorResponse(
+          "Invalid request body",
+          HTTP_STATUS.BAD_REQUEST,
+          parsed.error.issues
+        )
+      }
+
+      const result = await saveStudentComment({
+        evaluationId: id,
+        userId: context.userId,
+        comment: parsed.data.comment || null,
+        commentType: parsed.data.type,
+      })
+      if (!result.success) {
+        return createErrorResponse(
+          SIGNING_FAILURE_MESSAGES[result.reason],
+          signingFailureStatus(result.reason)
+        )
+      }
+
+      return createSuccessResponse(
+        { invalidatedSignatures: result.invalidated },
+        result.invalidated.length > 0
+          ? "Comment saved. Sign again to cover the updated comment."
+          : "Comment saved"
+      )
+    }
+  )
+)
@@ -0,0 +1,71 @@
+import type { NextRequest } from "next/server"
+import { z } from "zod"
+import {
+  createErrorResponse,
+  createSuccessResponse,
+  HTTP_STATUS,
+  withErrorHandling,
+} from "@/lib/api-response"
+import {
+  type EvaluationCertificate,
+  getEvaluationWithSignatures,
+  summarizeSignatures,
+  verifyEvaluationCertificate,
+} from "@/lib/evaluation-signatures"
+import { logger } from "@/lib/logger"
+import { certificateVerifyLimiter } from "@/lib/rate-limiter"
+
+const verifySchema = z.object({
+  certificate: z.object({
+    payload: z.looseObject({
+      evaluationId: z.string(),
+      contentHashes: z.object({ EVALUATOR: z.string(), STUDENT: z.string() }),
+    }),
+    signature: z.string(),
+  }),
+})
+
+// POST /api/evaluations/certificates/verify - Check a certificate and whether the evaluation still matches it.
+// Public so that licensing boards and other programs can verify certificates they are given;
+// it reads nothing beyond what the certificate already contains, so it needs no session or CSRF token.
+export const POST = withErrorHandling(async (request: NextRequest) => {
+  try {
+    const rateLimitResult = await certificateVerifyLimiter.checkLimit(request)
+    if (!rateLimitResult.allowed) {
+      const retryAfter = Math.ceil((rateLimitResult.resetTime - Date.now()) / 1000)
+      return createErrorResponse("Too Many Requests", HTTP_STATUS.TOO_MANY_REQUESTS, {
+        details: "Rate limit exceeded. Please try again later.",
+        retryAfter,
+      })
+    }
+  } catch (rateLimitError) {
+    logger.warn({ rateLimitError }, "Rate limiter error in evaluations/certificates/verify")
+  }
+
+  const parsed = verifySchema.safeParse(await request.json())
+  if (!parsed.success) {
+    return createErrorResponse("Invalid certificate", HTTP_STATUS.BAD_REQUEST, parsed.error.issues)
+  }
+
+  const certificate = parsed.data.certificate as unknown as EvaluationCertificate
+  const authentic = verifyEvaluationCertificate(certificate)
+  if (!authentic) {
+    return createSuccessResponse({ authentic: false, current: false })
+  }
+
+  // The certificate is genuine; check the evaluation was not changed since it was issued
+  const loaded = await getEvaluationWithSignatures(certificate.payload.evaluationId)
+  const summary = loaded && summarizeSignatures(loaded.evaluation, loaded.signatures)
+  const current =
+    !!summary?.fullySigned &&
+    summary.contentHashes.EVALUATOR === certificate.payload.contentHashes.EVALUATOR &&
+    summary.contentHashes.STUDENT === certificate.payload.contentHashes.STUDENT
+
+  return createSuccessResponse({
+    authentic,
+    current,
+    evaluationId: certificate.payload.evaluationId,
+    issuedAt: certificate.payload.issuedAt,
+    signatures: certificate.payload.signatures,
+  })
+})
@@ -12,8 +12,23 @@ import { eq, and, desc, sql } from "drizzle-orm"
 import { z } from "zod"
 import { withCSRF } from "@/lib/csrf-middleware"
 import { logger } from "@/lib/logger"
+import { parseGeofenceBoundary } from "@/lib/geo-utils"
 
 // Request validation schemas
+// Any GeoJSON polygon input, normalized to a Polygon or MultiPolygon; null removes the boundary
+const geofenceBoundarySchema = z.unknown().transform((value, ctx) => {
+  if (value === null) return null
+  try {
+    return parseGeofenceBoundary(value)
+  } catch (error) {
+    ctx.addIssue({
+      code: "custom",
+      message: error instanceof Error ? error.message : "Invalid boundary",
+    })
+    return z.NEVER
+  }
+})
+
 const facilityManagementSchema = z.object({
   facilityName: z.string().min(1).max(200),
   facilityType: z.enum([
@@ -31,6 +46,7 @@ const facilityManagementSchema = z.object({
   longitude: z.number().min(-180).max(180),
   geofenceRadius: z.number().min(10).max(1000).optional().default(100),
   strictGeofence: z.boolean().optional().default(false),
+  boundary: geofenceBoundarySchema.optional(),
   isActive: z.boolean().optional().default(true),
   isCustom: z.boolean().optional().default(false),
   osmId: z.string().optional(),
@@ -125,6 +141,7 @@ export async function GET(request: NextRequest) {
           longitude: Number.parseFloat(facility.longitude),
           geofenceRadius: facility.geofenceRadius,
           strictGeofence: facility.strictGeofence,
+          boundary: facility.boundary,
           isActive: facility.isActive,
           isCustom: facility.isCustom,
           osmId: facility.osmId,
@@ -254,6 +271,7 @@ export const POST = withCSRF(async (request: NextRequest) => {
       longitude: facilityData.longitude.toString(),
       geofenceRadius: facilityData.geofenceRadius,
       strictGeofence: facilityData.strictGeofence,
+      boundary: facilityData.boundary ?? null,
       isActive: facilityData.isActive ?? true,
       isCustom: facilityData.isCustom ?? false,
       osmId: facilityData.osmId,
@@ -279,7 +297,10 @@ export const POST = withCSRF(async (request: NextRequest) => {
       const [created] = await tx.insert(facilityManagement).values(sanitizedValues).returning()
 
       // Sync to clinical site location if linked
-      if (sanitizedValues.clinicalSiteId && sanitizedValues.strictGeofence) {
+      if (
+        sanitizedValues.clinicalSiteId &&
+        (sanitizedValues.strictGeofence || sanitizedValues.boundary)
+      ) {
         // Find primary location or just update all locations for this site?
         // For now, let's update all locations for this site to match the facility settings
         // This assumes 1:1 or 1:many where all share the same policy
@@ -302,7 +323,8 @@ export const POST = withCSRF(async (request: NextRequest) => {
             latitude: sanitizedValues.latitude,
             longitude: sanitizedValues.longitude,
             radius: sanitizedValues.geofenceRadius,
-            strictGeofence: true,
+            boundary: sanitizedValues.boundary,
+            strictGeofence: sanitizedValues.strictGeofence,
           })
         } else {
           await tx
@@ -310,6 +332,7 @@ export const POST = withCSRF(async (request: NextRequest) => {
             .set({
               radius: sanitizedValues.geofenceRadius,
               strictGeofence: sanitizedValues.strictGeofence,
+              ...(sanitizedValues.boundary && { boundary: sanitizedValues.boundary }),
             })
             .where(eq(clinicalSiteLocations.clinicalSiteId, sanitizedValues.clinicalSiteId))
         }
@@ -330,6 +353,7 @@ export const POST = withCSRF(async (request: NextRequest) => {
           longitude: Number.parseFloat(newFacility.longitude),
           geofenceRadius: newFacility.geofenceRadius,
           strictGeofence: newFacility.strictGeofence,
+          boundary: newFacility.boundary,
           isActive: newFacility.isActive,
           isCustom: newFacility.isCustom,
           osmId: newFacility.osmId,
@@ -428,13 +452,16 @@ export const PUT = withCSRF(async (request: NextRequest) => {
     // Sync updates to clinical site locations if linked
     if (updatedFacility && updatedFacility.clinicalSiteId) {
       const shouldSync =
-        updates.geofenceRadius !== undefined || updates.strictGeofence !== undefined
+        updates.geofenceRadius !== undefined ||
+        updates.strictGeofence !== undefined ||
+        updates.boundary !== undefined
 
       if (shouldSync) {
         const updatePayload: any = {}
         if (updates.geofenceRadius !== undefined) updatePayload.radius = updates.geofenceRadius
         if (updates.strictGeofence !== undefined)
           updatePayload.strictGeofence = updates.strictGeofence
+        if (updates.boundary !== undefined) updatePayload.boundary = updates.boundary
 
         await db
           .update(clinicalSiteLocations)
@@ -459,6 +486,7 @@ export const PUT = withCSRF(async (request: NextRequest) => {
           longitude: Number.parseFloat(updatedFacility.longitude),
           geofenceRadius: updatedFacility.geofenceRadius,
           strictGeofence: updatedFacility.strictGeofence,
+          boundary: updatedFacility.boundary,
           isActive: updatedFacility.isActive,
           isCustom: updatedFacility.isCustom,
           osmId: updatedFacility.osmId,
@@ -0,0 +1,30 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { parseCalendarToken, renderCalendarFeed } from "@/lib/calendar-feeds"
+import { logger } from "@/lib/logger"
+
+// GET /api/ical/[token].ics - iCalendar subscription feed; the URL token is the credential
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: Promise<{ token: string }> }
+) {
+  const token = parseCalendarToken((await params).token)
+
+  try {
+    const calendar = token ? await renderCalendarFeed(token) : null
+    if (!calendar) {
+      return new NextResponse("Calendar not found", { status: 404 })
+    }
+
+    return new NextResponse(calendar, {
+      headers: {
+        "Content-Type": "text/calendar; charset=utf-8",
+        "Content-Disposition": 'inline; filename="medstint.ics"',
+        "Cache-Control": "private, max-age=300",
+        "X-Robots-Tag": "noindex",
+      },
+    })
+  } catch (error) {
+    logger.error({ err: error }, "Failed to render calendar feed")
+    return new NextResponse("Calendar unavailable", { status: 500 })
+  }
+}
@@ -13,6 +13,8 @@ import { auth } from "@clerk/nextjs/server"
 import { invalidateUserCache } from "@/lib/auth-utils"
 import type { UserRole } from "@/types"
 import { withCSRF } from "@/lib/csrf-middleware"
+import { assignSchoolSeat } from "@/lib/seat-lifecycle"
+import { emitWebhookEvent } from "@/lib/webhooks"
 
 export const dynamic = "force-dynamic"
 
@@ -108,17 +110,13 @@ export const POST = withCSRF(
         .limit(1)
 
       if (school && school.billingModel === "SCHOOL_PAYS") {
-        const { assignSeat } = await import("@/lib/payments/actions")
-        const result = await assignSeat(user.id, invitation.schoolId)
-
-        if (!result.status) {
-          // Log error but don't fail the invite acceptance?
-          // Or fail it? Plan says "Show error".
-          // If we fail here, we should probably rollback the user update.
-          // But since we are not in a transaction here (drizzle doesn't support nested transactions easily across files without passing tx),
-          // we might need to handle this carefully.
-          // For now, let's assume if seat assignment fails, they just don't get the seat and have to pay or ask admin.
-          console.error("Failed to auto-assign seat:", result.message)
+        // Buys a seat when the school is full and has opted in; admins are
+        // warned as usage crosses each threshold
+        const result = await assignSchoolSeat(user.id, invitation.schoolId)
+
+        if (!result.ok) {
+          // The student keeps access to the school and can pay or be assigned a seat later
+          console.error("Failed to auto-assign seat:", result.reason)
         }
       }
     }
@@ -132,6 +130,17 @@ export const POST = withCSRF(
     // Invalidate user cache so middleware picks up the changes immediately
     invalidateUserCache(user.id)
 
+    if (invitation.role === "STUDENT") {
+      await emitWebhookEvent(invitation.schoolId, "student.accepted", {
+        invitationId: invitation.id,
+        studentId: user.id,
+        email: user.email,
+        name: user.name,
+        programId: invitation.programId,
+        cohortId: invitation.cohortId,
+      })
+    }
+
     return createSuccessResponse(
       {
         schoolId: invitation.schoolId,
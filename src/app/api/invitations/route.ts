@@ -1,4 +1,4 @@
-import { NextRequest } from "next/server"
+import { after, NextRequest } from "next/server"
 import { db } from "@/database/db"
 import { invitations, users, schools, programs, cohorts } from "@/database/schema"
 import { eq, and, desc } from "drizzle-orm"
@@ -10,8 +10,11 @@ import {
   ERROR_MESSAGES,
   withErrorHandling,
 } from "@/lib/api-response"
-import { sendInvitationEmail } from "@/lib/email-service"
+import { buildInvitationEmail } from "@/lib/email-service"
 import { withCSRF } from "@/lib/csrf-middleware"
+import { QueueManager } from "@/lib/queue"
+import { emitWebhookEvent } from "@/lib/webhooks"
+import { processNextJob } from "@/workers/job-runner"
 
 export const dynamic = "force-dynamic"
 
@@ -165,7 +168,7 @@ export const POST = withCSRF(
       id: string
       email: string
       status: string
-      emailSent: boolean
+      emailQueued: boolean
     }> = []
     const errors: Array<{ email: string; error: string }> = []
 
@@ -242,18 +245,35 @@ export const POST = withCSRF(
         const appUrl = process.env.NEXT_PUBLIC_APP_URL || "http://localhost:3000"
         const inviteLink = `${appUrl}/invite/accept?token=${token}`
 
-        const emailSent = await sendInvitationEmail({
-          to: normalizedEmail,
+        // Queued so the email is retried if the provider is down
+        const email = buildInvitationEmail({
           schoolName: school.name,
           programName: program.name,
           inviteLink,
         })
+        await QueueManager.add("EMAIL", {
+          to: normalizedEmail,
+          subject: email.subject,
+          html: email.html,
+          body: email.text,
+        })
+
+        if (role === "STUDENT") {
+          await emitWebhookEvent(currentUser.schoolId, "student.invited", {
+            invitationId: newInvitation.id,
+            email: normalizedEmail,
+            programId,
+            cohortId,
+            invitedBy: userId,
+            expiresAt,
+          })
+        }
 
         createdInvitations.push({
           id: newInvitation.id,
           email: newInvitation.email,
           status: newInvitation.status,
-          emailSent,
+          emailQueued: true,
         })
       } catch (error) {
         console.error(`Error creating invitation for ${normalizedEmail}:`, error)
@@ -261,6 +281,15 @@ export const POST = withCSRF(
       }
     }
 
+    // Send the emails right after responding; the jobs cron picks up the rest
+    if (createdInvitations.length > 0) {
+      after(async () => {
+        for (const _ of createdInvitations) {
+          if (!(await processNextJob(["EMAIL"]))) break
+        }
+      })
+    }
+
     return createSuccessResponse(
       {
         created: createdInvitations,
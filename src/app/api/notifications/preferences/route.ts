@@ -0,0 +1,73 @@
+import type { NextRequest } from "next/server"
+import { z } from "zod"
+import { db } from "@/database/connection-pool"
+import { notificationPreferences } from "@/database/schema"
+import {
+  createErrorResponse,
+  createSuccessResponse,
+  HTTP_STATUS,
+  withErrorHandling,
+} from "@/lib/api-response"
+import { withCSRF } from "@/lib/csrf-middleware"
+import {
+  getNotificationPreferences,
+  NOTIFICATION_TYPES,
+  type NotificationType,
+} from "@/lib/notification-service"
+import { getSchoolContext } from "@/lib/school-utils"
+
+const updatePreferencesSchema = z.object({
+  preferences: z
+    .array(
+      z.object({
+        type: z.enum(NOTIFICATION_TYPES as [NotificationType, ...NotificationType[]]),
+        inApp: z.boolean().optional(),
+        email: z.boolean().optional(),
+        digest: z.boolean().optional(),
+      })
+    )
+    .min(1),
+})
+
+// GET /api/notifications/preferences - Effective channels per notification type
+export const GET = withErrorHandling(async () => {
+  const context = await getSchoolContext()
+  return createSuccessResponse({ preferences: await getNotificationPreferences(context.userId) })
+})
+
+// PUT /api/notifications/preferences - Update channels for one or more notification types
+export const PUT = withCSRF(
+  withErrorHandling(async (request: NextRequest) => {
+    const context = await getSchoolContext()
+    const parsed = updatePreferencesSchema.safeParse(await request.json())
+    if (!parsed.success) {
+      return createErrorResponse(
+        "Invalid request body",
+        HTTP_STATUS.BAD_REQUEST,
+        parsed.error.issues
+      )
+    }
+
+    // Unspecified channels keep their current effective value
+    const current = await getNotificationPreferences(context.userId)
+    const now = new Date()
+
+    for (const update of parsed.data.preferences) {
+      const channels = {
+        inApp: update.inApp ?? current[update.type].inApp,
+        email: update.email ?? current[update.type].email,
+        digest: update.digest ?? current[update.type].digest,
+      }
+      await db
+        .insert(notificationPreferences)
+        .values({ userId: context.userId, notificationType: update.type, ...channels })
+        .onConflictDoUpdate({
+          target: [notificationPreferences.userId, notificationPreferences.notificationType],
+          set: { ...channels, updatedAt: now },
+        })
+      current[update.type] = channels
+    }
+
+    return createSuccessResponse({ preferences: current }, "Notification preferences updated")
+  })
+)
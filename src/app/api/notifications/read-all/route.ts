@@ -0,0 +1,49 @@
+import { and, eq } from "drizzle-orm"
+import type { NextRequest } from "next/server"
+import { z } from "zod"
+import { db } from "@/database/connection-pool"
+import { notifications } from "@/database/schema"
+import {
+  createErrorResponse,
+  createSuccessResponse,
+  HTTP_STATUS,
+  withErrorHandling,
+} from "@/lib/api-response"
+import { withCSRF } from "@/lib/csrf-middleware"
+import { NOTIFICATION_TYPES, type NotificationType } from "@/lib/notification-service"
+import { getSchoolContext } from "@/lib/school-utils"
+
+const readAllSchema = z.object({
+  type: z.enum(NOTIFICATION_TYPES as [NotificationType, ...NotificationType[]]).optional(),
+})
+
+// POST /api/notifications/read-all - Mark every unread notification (optionally of one type) read
+export const POST = withCSRF(
+  withErrorHandling(async (request: NextRequest) => {
+    const context = await getSchoolContext()
+    const body = await request.json().catch(() => ({}))
+    const parsed = readAllSchema.safeParse(body)
+    if (!parsed.success) {
+      return createErrorResponse(
+        "Invalid request body",
+        HTTP_STATUS.BAD_REQUEST,
+        parsed.error.issues
+      )
+    }
+
+    const now = new Date()
+    const updated = await db
+      .update(notifications)
+      .set({ isRead: true, readAt: now, updatedAt: now })
+      .where(
+        and(
+          eq(notifications.userId, context.userId),
+          eq(notifications.isRead, false),
+          parsed.data.type ? eq(notifications.type, parsed.data.type) : undefined
+        )
+      )
+      .returning({ id: notifications.id })
+
+    return createSuccessResponse({ updated: updated.length })
+  })
+)
@@ -1,33 +1,132 @@
-import { NextResponse } from "next/server"
-import { auth } from "@clerk/nextjs/server"
+import { and, count, desc, eq, gt, inArray, isNull, lt, or, type SQL, sql } from "drizzle-orm"
+import type { NextRequest } from "next/server"
+import { z } from "zod"
 import { db } from "@/database/connection-pool"
 import { notifications } from "@/database/schema"
-import { eq, desc, and, isNull } from "drizzle-orm"
-import { logger } from "@/lib/logger"
+import {
+  createErrorResponse,
+  createSuccessResponse,
+  HTTP_STATUS,
+  withErrorHandling,
+} from "@/lib/api-response"
+import { withCSRF } from "@/lib/csrf-middleware"
+import {
+  decodeNotificationCursor,
+  encodeNotificationCursor,
+  NOTIFICATION_TYPES,
+  type NotificationType,
+  notificationCursorTimestamp,
+} from "@/lib/notification-service"
+import { getSchoolContext } from "@/lib/school-utils"
 
-export async function GET() {
-  try {
-    const { userId } = await auth()
+const listQuerySchema = z.object({
+  cursor: z.string().optional(),
+  limit: z.coerce.number().int().min(1).max(100).default(20),
+  status: z.enum(["unread", "read", "all"]).default("all"),
+  type: z.enum(NOTIFICATION_TYPES as [NotificationType, ...NotificationType[]]).optional(),
+  priority: z.enum(["low", "medium", "high", "urgent"]).optional(),
+})
 
-    if (!userId) {
-      return new NextResponse("Unauthorized", { status: 401 })
+const updateSchema = z.object({
+  ids: z.array(z.string().min(1)).min(1).max(100),
+  action: z.enum(["read", "unread", "dismiss"]),
+})
+
+// Notifications the user can still see: not dismissed and not expired
+function visibleTo(userId: string, now: Date) {
+  return and(
+    eq(notifications.userId, userId),
+    isNull(notifications.dismissedAt),
+    or(isNull(notifications.expiresAt), gt(notifications.expiresAt, now))
+  )
+}
+
+// GET /api/notifications - Cursor-paginated notifications for the current user
+export const GET = withErrorHandling(async (request: NextRequest) => {
+  const context = await getSchoolContext()
+  const parsed = listQuerySchema.safeParse(Object.fromEntries(request.nextUrl.searchParams))
+  if (!parsed.success) {
+    return createErrorResponse(
+      "Invalid query parameters",
+      HTTP_STATUS.BAD_REQUEST,
+      parsed.error.issues
+    )
+  }
+  const { cursor, limit, status, type, priority } = parsed.data
+  const now = new Date()
+
+  const conditions: SQL[] = []
+  const visible = visibleTo(context.userId, now)
+  if (visible) conditions.push(visible)
+  if (status !== "all") conditions.push(eq(notifications.isRead, status === "read"))
+  if (type) conditions.push(eq(notifications.type, type))
+  if (priority) conditions.push(eq(notifications.priority, priority))
+
+  if (cursor) {
+    const position = decodeNotificationCursor(cursor)
+    if (!position) {
+      return createErrorResponse("Invalid cursor", HTTP_STATUS.BAD_REQUEST)
     }
+    const createdAt = sql`${position.createdAt}::timestamptz`
+    const after = or(
+      sql`${notifications.createdAt} < ${createdAt}`,
+      and(sql`${notifications.createdAt} = ${createdAt}`, lt(notifications.id, position.id))
+    )
+    if (after) conditions.push(after)
+  }
+
+  // Fetch one extra row to know whether another page exists
+  const rows = await db
+    .select({ notification: notifications, cursorAt: notificationCursorTimestamp })
+    .from(notifications)
+    .where(and(...conditions))
+    .orderBy(desc(notifications.createdAt), desc(notifications.id))
+    .limit(limit + 1)
 
-    const userNotifications = await db
-      .select()
-      .from(notifications)
-      .where(
-        and(
-          eq(notifications.userId, userId),
-          isNull(notifications.readAt) // Fetch unread notifications, or we could fetch all and filter in UI
-        )
+  const page = rows.slice(0, limit)
+  const items = page.map((row) => row.notification)
+  const last = page[page.length - 1]
+  const nextCursor =
+    rows.length > limit && last
+      ? encodeNotificationCursor({ createdAt: last.cursorAt, id: last.notification.id })
+      : null
+
+  const [{ unreadCount }] = await db
+    .select({ unreadCount: count() })
+    .from(notifications)
+    .where(and(visibleTo(context.userId, now), eq(notifications.isRead, false)))
+
+  return createSuccessResponse({ items, nextCursor, unreadCount })
+})
+
+// PATCH /api/notifications - Mark notifications read/unread or dismiss them
+export const PATCH = withCSRF(
+  withErrorHandling(async (request: NextRequest) => {
+    const context = await getSchoolContext()
+    const parsed = updateSchema.safeParse(await request.json())
+    if (!parsed.success) {
+      return createErrorResponse(
+        "Invalid request body",
+        HTTP_STATUS.BAD_REQUEST,
+        parsed.error.issues
       )
-      .orderBy(desc(notifications.createdAt))
-      .limit(10)
+    }
+    const { ids, action } = parsed.data
+    const now = new Date()
 
-    return NextResponse.json(userNotifications)
-  } catch (error) {
-    logger.error({ err: error }, "Failed to fetch notifications")
-    return new NextResponse("Internal Server Error", { status: 500 })
-  }
-}
+    const changes =
+      action === "read"
+        ? { isRead: true, readAt: now }
+        : action === "unread"
+          ? { isRead: false, readAt: null }
+          : { dismissedAt: now }
+
+    const updated = await db
+      .update(notifications)
+      .set({ ...changes, updatedAt: now })
+      .where(and(eq(notifications.userId, context.userId), inArray(notifications.id, ids)))
+      .returning({ id: notifications.id })
+
+    return createSuccessResponse({ updated: updated.map((row) => row.id) })
+  })
+)
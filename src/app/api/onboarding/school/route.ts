@@ -5,6 +5,12 @@ import { db } from "../../../../database/connection-pool"
 import { clinicalSites, evaluations, rotations, users } from "../../../../database/schema"
 import { getSchoolContext } from "../../../../lib/school-utils"
 import { cacheIntegrationService } from "@/lib/cache-integration"
+import {
+  type EvaluationContentChanges,
+  SIGNING_FAILURE_MESSAGES,
+  signingFailureStatus,
+  updateEvaluationContent,
+} from "@/lib/evaluation-signatures"
 import type { UserRole } from "@/types"
 import {
   createSuccessResponse,
@@ -318,27 +324,9 @@ export const PUT = withErrorHandling(async (request: NextRequest) => {
   const body = await request.json()
   const validatedData = updateEvaluationSchema.parse(body)
 
-  // Verify evaluation exists
-  const [existingEvaluation] = await db
-    .select()
-    .from(evaluations)
-    .where(eq(evaluations.id, validatedData.id))
-    .limit(1)
-
-  if (!existingEvaluation) {
-    return createErrorResponse("Evaluation not found", HTTP_STATUS.NOT_FOUND)
-  }
-
-  // Only the original evaluator or admins can update
-  if (
-    existingEvaluation.evaluatorId !== context.userId &&
-    !["SUPER_ADMIN" as UserRole, "SCHOOL_ADMIN" as UserRole].includes(context.userRole)
-  ) {
-    return createErrorResponse("Can only update your own evaluations", HTTP_STATUS.FORBIDDEN)
-  }
-
   // Prepare update values
-  const updateValues: any = {}
+  const updateValues: EvaluationContentChanges = {}
+  if (validatedData.type !== undefined) updateValues.type = validatedData.type
   if (validatedData.overallRating !== undefined)
     updateValues.overallRating = validatedData.overallRating.toString()
   if (validatedData.clinicalSkills !== undefined)
@@ -356,12 +344,19 @@ export const PUT = withErrorHandling(async (request: NextRequest) => {
   if (validatedData.additionalComments !== undefined)
     updateValues.comments = validatedData.additionalComments
 
-  // Update evaluation
-  const [updatedEvaluation] = await db
-    .update(evaluations)
-    .set(updateValues)
-    .where(eq(evaluations.id, validatedData.id))
-    .returning()
+  // Only the original evaluator can edit, never once locked, and edits void existing signatures
+  const result = await updateEvaluationContent({
+    evaluationId: validatedData.id,
+    userId: context.userId,
+    changes: updateValues,
+  })
+  if (!result.success) {
+    return createErrorResponse(
+      SIGNING_FAILURE_MESSAGES[result.reason],
+      signingFailureStatus(result.reason)
+    )
+  }
+  const updatedEvaluation = result.evaluation
 
   // Calculate average rating
   const ratings = [
@@ -0,0 +1,61 @@
+import type { NextRequest } from "next/server"
+import { z } from "zod"
+import {
+  createErrorResponse,
+  createSuccessResponse,
+  ERROR_MESSAGES,
+  HTTP_STATUS,
+  withErrorHandling,
+} from "@/lib/api-response"
+import { withCSRF } from "@/lib/csrf-middleware"
+import { logAuditEvent } from "@/lib/rbac-middleware"
+import { respondToPreceptorAffiliation } from "@/lib/school-affiliations"
+import { getSchoolContext } from "@/lib/school-utils"
+import type { UserRole } from "@/types"
+
+const ADMIN_ROLES: UserRole[] = ["SUPER_ADMIN", "SCHOOL_ADMIN"]
+
+export const dynamic = "force-dynamic"
+
+const responseSchema = z.object({ accept: z.boolean() })
+
+// POST /api/preceptors/[id]/affiliations/respond - Accept or decline a preceptor teaching
+// for the caller's school.
+export const POST = withCSRF(
+  withErrorHandling(
+    async (request: NextRequest, { params }: { params: Promise<{ id: string }> }) => {
+      const context = await getSchoolContext()
+      if (!ADMIN_ROLES.includes(context.userRole) || !context.schoolId) {
+        return createErrorResponse(ERROR_MESSAGES.INSUFFICIENT_PERMISSIONS, HTTP_STATUS.FORBIDDEN)
+      }
+
+      const { id } = await params
+      const { accept } = responseSchema.parse(await request.json())
+      const affiliation = await respondToPreceptorAffiliation({
+        preceptorId: id,
+        schoolId: context.schoolId,
+        accept,
+      })
+      if (!affiliation) {
+        return createErrorResponse(
+          "No pending affiliation for this preceptor",
+          HTTP_STATUS.NOT_FOUND
+        )
+      }
+
+      await logAuditEvent({
+        userId: context.userId,
+        action: accept ? "PRECEPTOR_AFFILIATION_ACCEPTED" : "PRECEPTOR_AFFILIATION_DECLINED",
+        resource: "preceptor_school_affiliations",
+        resourceId: affiliation.id,
+        details: { preceptorId: id, schoolId: context.schoolId },
+        severity: "MEDIUM",
+      })
+
+      return createSuccessResponse(
+        { affiliation },
+        accept ? "Preceptor affiliation accepted" : "Preceptor affiliation declined"
+      )
+    }
+  )
+)
@@ -0,0 +1,125 @@
+import { and, eq } from "drizzle-orm"
+import type { NextRequest } from "next/server"
+import { z } from "zod"
+import { db } from "@/database/connection-pool"
+import { users } from "@/database/schema"
+import {
+  createErrorResponse,
+  createSuccessResponse,
+  ERROR_MESSAGES,
+  HTTP_STATUS,
+  withErrorHandling,
+} from "@/lib/api-response"
+import { withCSRF } from "@/lib/csrf-middleware"
+import { logAuditEvent } from "@/lib/rbac-middleware"
+import { listPreceptorAffiliations, upsertPreceptorAffiliation } from "@/lib/school-affiliations"
+import { getSchoolContext } from "@/lib/school-utils"
+import type { UserRole } from "@/types"
+
+const ADMIN_ROLES: UserRole[] = ["SUPER_ADMIN", "SCHOOL_ADMIN"]
+
+export const dynamic = "force-dynamic"
+
+const affiliationSchema = z.object({
+  schoolId: z.string().min(1),
+  status: z.enum(["ACTIVE", "INACTIVE"]).default("ACTIVE"),
+})
+
+const AFFILIATION_ERRORS = {
+  preceptor_not_found: ["Preceptor not found", HTTP_STATUS.NOT_FOUND],
+  school_not_found: ["School not found", HTTP_STATUS.NOT_FOUND],
+  home_school: ["This is the preceptor's home school", HTTP_STATUS.BAD_REQUEST],
+} as const
+
+type RouteContext = { params: Promise<{ id: string }> }
+
+async function findPreceptor(id: string) {
+  const [preceptor] = await db
+    .select({ id: users.id, schoolId: users.schoolId })
+    .from(users)
+    .where(and(eq(users.id, id), eq(users.role, "CLINICAL_PRECEPTOR")))
+    .limit(1)
+  return preceptor ?? null
+}
+
+// GET /api/preceptors/[id]/affiliations - Schools a preceptor teaches for.
+// Admins of other schools only see their own school's affiliation.
+export const GET = withErrorHandling(async (_request: NextRequest, { params }: RouteContext) => {
+  const context = await getSchoolContext()
+  if (!ADMIN_ROLES.includes(context.userRole)) {
+    return createErrorResponse(ERROR_MESSAGES.INSUFFICIENT_PERMISSIONS, HTTP_STATUS.FORBIDDEN)
+  }
+
+  const { id } = await params
+  const preceptor = await findPreceptor(id)
+  if (!preceptor) {
+    return createErrorResponse("Preceptor not found", HTTP_STATUS.NOT_FOUND)
+  }
+
+  const affiliations = await listPreceptorAffiliations(id)
+  const isHomeSchool = context.canAccessAllSchools || preceptor.schoolId === context.schoolId
+  const visible = isHomeSchool
+    ? affiliations
+    : affiliations.filter((affiliation) => affiliation.schoolId === context.schoolId)
+  if (!isHomeSchool && visible.length === 0) {
+    return createErrorResponse("Preceptor not found", HTTP_STATUS.NOT_FOUND)
+  }
+
+  return createSuccessResponse({
+    homeSchoolId: isHomeSchool ? preceptor.schoolId : null,
+    affiliations: visible,
+  })
+})
+
+// PUT /api/preceptors/[id]/affiliations - Let a preceptor teach for another school.
+// Only the preceptor's home school can do this, and a new affiliation stays PENDING until
+// the other school accepts it.
+export const PUT = withCSRF(
+  withErrorHandling(async (request: NextRequest, { params }: RouteContext) => {
+    const context = await getSchoolContext()
+    if (!ADMIN_ROLES.includes(context.userRole)) {
+      return createErrorResponse(ERROR_MESSAGES.INSUFFICIENT_PERMISSIONS, HTTP_STATUS.FORBIDDEN)
+    }
+
+    const { id } = await params
+    const preceptor = await findPreceptor(id)
+    if (!preceptor) {
+      return createErrorResponse("Preceptor not found", HTTP_STATUS.NOT_FOUND)
+    }
+    if (!context.canAccessAllSchools && preceptor.schoolId !== context.schoolId) {
+      return createErrorResponse(
+        "Only the preceptor's home school can manage their affiliations",
+        HTTP_STATUS.FORBIDDEN
+      )
+    }
+
+    const data = affiliationSchema.parse(await request.json())
+    const result = await upsertPreceptorAffiliation({
+      preceptorId: id,
+      schoolId: data.schoolId,
+      status: data.status,
+      approved: context.userRole === "SUPER_ADMIN",
+      userId: context.userId,
+    })
+    if (!result.ok) {
+      const [message, status] = AFFILIATION_ERRORS[result.reason]
+      return createErrorResponse(message, status)
+    }
+
+    await logAuditEvent({
+      userId: context.userId,
+      action: "PRECEPTOR_AFFILIATION_UPDATED",
+      resource: "preceptor_school_affiliations",
+      resourceId: result.affiliation.id,
+      details: { preceptorId: id, schoolId: data.schoolId, status: result.affiliation.status },
+      severity: "MEDIUM",
+    })
+
+    return createSuccessResponse(
+      { affiliation: result.affiliation },
+      result.affiliation.status === "PENDING"
+        ? "Affiliation requested; the school has to accept it"
+        : "Preceptor affiliation saved"
+    )
+  })
+)
@@ -5,6 +5,7 @@ import { type NextRequest } from "next/server"
 import { z } from "zod"
 import { db } from "@/database/connection-pool"
 import { cacheIntegrationService } from "@/lib/cache-integration"
+import { preceptorServesSchool } from "@/lib/school-affiliations"
 import type { UserRole } from "@/types"
 import { clinicalPreceptors, users } from "@/database/schema"
 import {
@@ -160,10 +161,11 @@ export const GET = withErrorHandling(async (_request: NextRequest) => {
   // Build where conditions - if user has a school_id, filter by it, otherwise show all
   let whereCondition: ReturnType<typeof and> | ReturnType<typeof eq>
   if (user.schoolId) {
+    // Includes preceptors from other schools who also teach for this one
     whereCondition = and(
       eq(users.isActive, true),
       eq(users.role, "CLINICAL_PRECEPTOR"),
-      eq(users.schoolId, user.schoolId)
+      preceptorServesSchool(user.schoolId)
     )
   } else {
     // If admin has no school_id (super admin), show all active preceptors
@@ -0,0 +1,62 @@
+import type { NextRequest } from "next/server"
+import {
+  createErrorResponse,
+  createSuccessResponse,
+  ERROR_MESSAGES,
+  HTTP_STATUS,
+  withErrorHandling,
+} from "@/lib/api-response"
+import { withCSRF } from "@/lib/csrf-middleware"
+import { createImprovementPlan, improvementPlanCreateSchema } from "@/lib/quality-reviews"
+import { logAuditEvent } from "@/lib/rbac-middleware"
+import { getSchoolContext } from "@/lib/school-utils"
+import { tenantScope } from "@/lib/tenant-scope"
+import type { UserRole } from "@/types"
+
+const QUALITY_ROLES: UserRole[] = ["SUPER_ADMIN", "SCHOOL_ADMIN", "CLINICAL_SUPERVISOR"]
+
+const PLAN_ERRORS = {
+  not_found: [ERROR_MESSAGES.NOT_FOUND, HTTP_STATUS.NOT_FOUND],
+  review_not_found: ["Quality review not found", HTTP_STATUS.NOT_FOUND],
+  owner_not_found: ["Plan owner must be active staff of the school", HTTP_STATUS.BAD_REQUEST],
+} as const
+
+// POST /api/quality-reviews/[id]/plans - Add an improvement plan to a review
+export const POST = withCSRF(
+  withErrorHandling(
+    async (request: NextRequest, { params }: { params: Promise<{ id: string }> }) => {
+      const context = await getSchoolContext()
+      if (!QUALITY_ROLES.includes(context.userRole)) {
+        return createErrorResponse(ERROR_MESSAGES.INSUFFICIENT_PERMISSIONS, HTTP_STATUS.FORBIDDEN)
+      }
+
+      const { id } = await params
+      const data = improvementPlanCreateSchema.parse(await request.json())
+      const scope = tenantScope(context, { crossTenantReason: "Quality assurance oversight" })
+      const result = await createImprovementPlan(scope, id, data, context.userId)
+      if (!result.ok) {
+        const [message, status] = PLAN_ERRORS[result.reason]
+        return createErrorResponse(message, status)
+      }
+
+      await logAuditEvent({
+        userId: context.userId,
+        action: "QUALITY_IMPROVEMENT_PLAN_CREATED",
+        resource: "quality_improvement_plans",
+        resourceId: result.plan.id,
+        details: {
+          reviewId: id,
+          ownerId: result.plan.ownerId,
+          milestones: data.milestones.length,
+        },
+        severity: "LOW",
+      })
+
+      return createSuccessResponse(
+        { plan: result.plan },
+        "Improvement plan created",
+        HTTP_STATUS.CREATED
+      )
+    }
+  )
+)
@@ -0,0 +1,104 @@
+import type { NextRequest } from "next/server"
+import {
+  createErrorResponse,
+  createSuccessResponse,
+  ERROR_MESSAGES,
+  HTTP_STATUS,
+  withErrorHandling,
+} from "@/lib/api-response"
+import { withCSRF } from "@/lib/csrf-middleware"
+import {
+  deleteQualityReview,
+  getQualityReview,
+  qualityReviewUpdateSchema,
+  updateQualityReview,
+} from "@/lib/quality-reviews"
+import { logAuditEvent } from "@/lib/rbac-middleware"
+import { getSchoolContext } from "@/lib/school-utils"
+import { tenantScope } from "@/lib/tenant-scope"
+import type { UserRole } from "@/types"
+
+const QUALITY_ROLES: UserRole[] = ["SUPER_ADMIN", "SCHOOL_ADMIN", "CLINICAL_SUPERVISOR"]
+const CROSS_TENANT_REASON = "Quality assurance oversight"
+
+export const dynamic = "force-dynamic"
+
+const REVIEW_ERRORS = {
+  not_found: [ERROR_MESSAGES.NOT_FOUND, HTTP_STATUS.NOT_FOUND],
+  site_not_found: ["Clinical site not found", HTTP_STATUS.NOT_FOUND],
+  follow_up_date_required: ["A follow-up date is required", HTTP_STATUS.BAD_REQUEST],
+} as const
+
+type RouteContext = { params: Promise<{ id: string }> }
+
+// GET /api/quality-reviews/[id] - A review with its improvement plans
+export const GET = withErrorHandling(async (_request: NextRequest, { params }: RouteContext) => {
+  const context = await getSchoolContext()
+  if (!QUALITY_ROLES.includes(context.userRole)) {
+    return createErrorResponse(ERROR_MESSAGES.INSUFFICIENT_PERMISSIONS, HTTP_STATUS.FORBIDDEN)
+  }
+
+  const { id } = await params
+  const scope = tenantScope(context, { crossTenantReason: CROSS_TENANT_REASON })
+  const result = await getQualityReview(scope, id)
+  if (!result) {
+    return createErrorResponse(ERROR_MESSAGES.NOT_FOUND, HTTP_STATUS.NOT_FOUND)
+  }
+  return createSuccessResponse(result)
+})
+
+// PUT /api/quality-reviews/[id] - Update a review, its findings or its follow-up
+export const PUT = withCSRF(
+  withErrorHandling(async (request: NextRequest, { params }: RouteContext) => {
+    const context = await getSchoolContext()
+    if (!QUALITY_ROLES.includes(context.userRole)) {
+      return createErrorResponse(ERROR_MESSAGES.INSUFFICIENT_PERMISSIONS, HTTP_STATUS.FORBIDDEN)
+    }
+
+    const { id } = await params
+    const data = qualityReviewUpdateSchema.parse(await request.json())
+    const scope = tenantScope(context, { crossTenantReason: CROSS_TENANT_REASON })
+    const result = await updateQualityReview(scope, id, data)
+    if (!result.ok) {
+      const [message, status] = REVIEW_ERRORS[result.reason]
+      return createErrorResponse(message, status)
+    }
+
+    await logAuditEvent({
+      userId: context.userId,
+      action: "QUALITY_REVIEW_UPDATED",
+      resource: "quality_reviews",
+      resourceId: id,
+      details: { fields: Object.keys(data), status: result.review.status },
+      severity: "LOW",
+    })
+
+    return createSuccessResponse({ review: result.review }, "Quality review updated")
+  })
+)
+
+// DELETE /api/quality-reviews/[id] - Delete a review and its improvement plans
+export const DELETE = withCSRF(
+  withErrorHandling(async (_request: NextRequest, { params }: RouteContext) => {
+    const context = await getSchoolContext()
+    if (!QUALITY_ROLES.includes(context.userRole)) {
+      return createErrorResponse(ERROR_MESSAGES.INSUFFICIENT_PERMISSIONS, HTTP_STATUS.FORBIDDEN)
+    }
+
+    const { id } = await params
+    const scope = tenantScope(context, { crossTenantReason: CROSS_TENANT_REASON })
+    if (!(await deleteQualityReview(scope, id))) {
+      return createErrorResponse(ERROR_MESSAGES.NOT_FOUND, HTTP_STATUS.NOT_FOUND)
+    }
+
+    await logAuditEvent({
+      userId: context.userId,
+      action: "QUALITY_REVIEW_DELETED",
+      resource: "quality_reviews",
+      resourceId: id,
+      severity: "MEDIUM",
+    })
+
+    return createSuccessResponse({ id }, "Quality review deleted")
+  })
+)
@@ -0,0 +1,34 @@
+import { NextResponse } from "next/server"
+import {
+  createErrorResponse,
+  ERROR_MESSAGES,
+  HTTP_STATUS,
+  withErrorHandling,
+} from "@/lib/api-response"
+import { exportQualityReviews } from "@/lib/quality-reviews"
+import { getSchoolContext } from "@/lib/school-utils"
+import { tenantScope } from "@/lib/tenant-scope"
+import type { UserRole } from "@/types"
+
+const QUALITY_ROLES: UserRole[] = ["SUPER_ADMIN", "SCHOOL_ADMIN", "CLINICAL_SUPERVISOR"]
+
+export const dynamic = "force-dynamic"
+
+// GET /api/quality-reviews/export - Download the school's quality reviews as CSV
+export const GET = withErrorHandling(async () => {
+  const context = await getSchoolContext()
+  if (!QUALITY_ROLES.includes(context.userRole)) {
+    return createErrorResponse(ERROR_MESSAGES.INSUFFICIENT_PERMISSIONS, HTTP_STATUS.FORBIDDEN)
+  }
+
+  const scope = tenantScope(context, { crossTenantReason: "Quality assurance oversight" })
+  const buffer = Buffer.from(await exportQualityReviews(scope))
+  const date = new Date().toISOString().split("T")[0]
+  return new NextResponse(new Uint8Array(buffer), {
+    headers: {
+      "Content-Type": "text/csv; charset=utf-8",
+      "Content-Disposition": `attachment; filename="quality-report-${date}.csv"`,
+      "Content-Length": buffer.length.toString(),
+    },
+  })
+})
@@ -0,0 +1,85 @@
+import type { NextRequest } from "next/server"
+import {
+  createErrorResponse,
+  createSuccessResponse,
+  ERROR_MESSAGES,
+  HTTP_STATUS,
+  withErrorHandling,
+} from "@/lib/api-response"
+import { withCSRF } from "@/lib/csrf-middleware"
+import {
+  deleteImprovementPlan,
+  improvementPlanUpdateSchema,
+  updateImprovementPlan,
+} from "@/lib/quality-reviews"
+import { logAuditEvent } from "@/lib/rbac-middleware"
+import { getSchoolContext } from "@/lib/school-utils"
+import { tenantScope } from "@/lib/tenant-scope"
+import type { UserRole } from "@/types"
+
+const QUALITY_ROLES: UserRole[] = ["SUPER_ADMIN", "SCHOOL_ADMIN", "CLINICAL_SUPERVISOR"]
+const CROSS_TENANT_REASON = "Quality assurance oversight"
+
+const PLAN_ERRORS = {
+  not_found: [ERROR_MESSAGES.NOT_FOUND, HTTP_STATUS.NOT_FOUND],
+  review_not_found: ["Quality review not found", HTTP_STATUS.NOT_FOUND],
+  owner_not_found: ["Plan owner must be active staff of the school", HTTP_STATUS.BAD_REQUEST],
+} as const
+
+type RouteContext = { params: Promise<{ planId: string }> }
+
+// PUT /api/quality-reviews/plans/[planId] - Update a plan's status, owner or milestones
+export const PUT = withCSRF(
+  withErrorHandling(async (request: NextRequest, { params }: RouteContext) => {
+    const context = await getSchoolContext()
+    if (!QUALITY_ROLES.includes(context.userRole)) {
+      return createErrorResponse(ERROR_MESSAGES.INSUFFICIENT_PERMISSIONS, HTTP_STATUS.FORBIDDEN)
+    }
+
+    const { planId } = await params
+    const data = improvementPlanUpdateSchema.parse(await request.json())
+    const scope = tenantScope(context, { crossTenantReason: CROSS_TENANT_REASON })
+    const result = await updateImprovementPlan(scope, planId, data)
+    if (!result.ok) {
+      const [message, status] = PLAN_ERRORS[result.reason]
+      return createErrorResponse(message, status)
+    }
+
+    await logAuditEvent({
+      userId: context.userId,
+      action: "QUALITY_IMPROVEMENT_PLAN_UPDATED",
+      resource: "quality_improvement_plans",
+      resourceId: planId,
+      details: { fields: Object.keys(data), status: result.plan.status },
+      severity: "LOW",
+    })
+
+    return createSuccessResponse({ plan: result.plan }, "Improvement plan updated")
+  })
+)
+
+// DELETE /api/quality-reviews/plans/[planId] - Delete an improvement plan and its milestones
+export const DELETE = withCSRF(
+  withErrorHandling(async (_request: NextRequest, { params }: RouteContext) => {
+    const context = await getSchoolContext()
+    if (!QUALITY_ROLES.includes(context.userRole)) {
+      return createErrorResponse(ERROR_MESSAGES.INSUFFICIENT_PERMISSIONS, HTTP_STATUS.FORBIDDEN)
+    }
+
+    const { planId } = await params
+    const scope = tenantScope(context, { crossTenantReason: CROSS_TENANT_REASON })
+    if (!(await deleteImprovementPlan(scope, planId))) {
+      return createErrorResponse(ERROR_MESSAGES.NOT_FOUND, HTTP_STATUS.NOT_FOUND)
+    }
+
+    await logAuditEvent({
+      userId: context.userId,
+      action: "QUALITY_IMPROVEMENT_PLAN_DELETED",
+      resource: "quality_improvement_plans",
+      resourceId: planId,
+      severity: "MEDIUM",
+    })
+
+    return createSuccessResponse({ id: planId }, "Improvement plan deleted")
+  })
+)
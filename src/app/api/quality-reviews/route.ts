@@ -0,0 +1,80 @@
+import type { NextRequest } from "next/server"
+import {
+  createErrorResponse,
+  createSuccessResponse,
+  ERROR_MESSAGES,
+  HTTP_STATUS,
+  withErrorHandling,
+} from "@/lib/api-response"
+import { withCSRF } from "@/lib/csrf-middleware"
+import {
+  createQualityReview,
+  listImprovementPlans,
+  listQualityReviews,
+  qualityReviewCreateSchema,
+} from "@/lib/quality-reviews"
+import { logAuditEvent } from "@/lib/rbac-middleware"
+import { getSchoolContext } from "@/lib/school-utils"
+import { tenantScope } from "@/lib/tenant-scope"
+import type { UserRole } from "@/types"
+
+const QUALITY_ROLES: UserRole[] = ["SUPER_ADMIN", "SCHOOL_ADMIN", "CLINICAL_SUPERVISOR"]
+
+export const dynamic = "force-dynamic"
+
+const REVIEW_ERRORS = {
+  not_found: [ERROR_MESSAGES.NOT_FOUND, HTTP_STATUS.NOT_FOUND],
+  site_not_found: ["Clinical site not found", HTTP_STATUS.NOT_FOUND],
+  follow_up_date_required: ["A follow-up date is required", HTTP_STATUS.BAD_REQUEST],
+} as const
+
+// GET /api/quality-reviews - Quality reviews and improvement plans for the school
+export const GET = withErrorHandling(async () => {
+  const context = await getSchoolContext()
+  if (!QUALITY_ROLES.includes(context.userRole)) {
+    return createErrorResponse(ERROR_MESSAGES.INSUFFICIENT_PERMISSIONS, HTTP_STATUS.FORBIDDEN)
+  }
+
+  const scope = tenantScope(context, { crossTenantReason: "Quality assurance oversight" })
+  const [reviews, plans] = await Promise.all([
+    listQualityReviews(scope),
+    listImprovementPlans(scope),
+  ])
+  return createSuccessResponse({ reviews, plans })
+})
+
+// POST /api/quality-reviews - Record a quality review with its findings
+export const POST = withCSRF(
+  withErrorHandling(async (request: NextRequest) => {
+    const context = await getSchoolContext()
+    if (!QUALITY_ROLES.includes(context.userRole)) {
+      return createErrorResponse(ERROR_MESSAGES.INSUFFICIENT_PERMISSIONS, HTTP_STATUS.FORBIDDEN)
+    }
+
+    const data = qualityReviewCreateSchema.parse(await request.json())
+    const result = await createQualityReview(tenantScope(context), data, context.userId)
+    if (!result.ok) {
+      const [message, status] = REVIEW_ERRORS[result.reason]
+      return createErrorResponse(message, status)
+    }
+
+    await logAuditEvent({
+      userId: context.userId,
+      action: "QUALITY_REVIEW_CREATED",
+      resource: "quality_reviews",
+      resourceId: result.review.id,
+      details: {
+        type: result.review.type,
+        priority: result.review.priority,
+        clinicalSiteId: result.review.clinicalSiteId,
+      },
+      severity: "LOW",
+    })
+
+    return createSuccessResponse(
+      { review: result.review },
+      "Quality review created",
+      HTTP_STATUS.CREATED
+    )
+  })
+)
@@ -1,121 +1,34 @@
 import { type NextRequest, NextResponse } from "next/server"
-import { createErrorResponse, withErrorHandling, HTTP_STATUS } from "@/lib/api-response"
+import {
+  createErrorResponse,
+  ERROR_MESSAGES,
+  HTTP_STATUS,
+  withErrorHandling,
+} from "@/lib/api-response"
+import { type ReportFormat, renderReport } from "@/lib/reports/render"
+import { generateComprehensiveReportData, parseReportFilters } from "@/lib/reports/report-data"
+import { buildReportDocument, resolveReportType } from "@/lib/reports/report-document"
+import { getSchoolContext } from "@/lib/school-utils"
+import { tenantScope } from "@/lib/tenant-scope"
+import type { UserRole } from "@/types"
 
-// Mock function to generate PDF report
-const generatePDFReport = async (data: any, type: string) => {
-  // In a real implementation, you would use a library like puppeteer, jsPDF, or PDFKit
-  // For now, we'll return a simple text-based PDF placeholder
-  const pdfContent = `
-%PDF-1.4
-1 0 obj
-<<
-/Type /Catalog
-/Pages 2 0 R
-/Title (MedStint Report)
-/Creator (MedStint)
->>
-endobj
+export const dynamic = "force-dynamic"
 
-2 0 obj
-<<
-/Type /Pages
-/Kids [3 0 R]
-/Count 1
->>
-endobj
+const REPORT_ROLES: UserRole[] = ["SUPER_ADMIN", "SCHOOL_ADMIN", "CLINICAL_SUPERVISOR"]
 
-3 0 obj
-<<
-/Type /Page
-/Parent 2 0 R
-/MediaBox [0 0 612 792]
-/Contents 4 0 R
->>
-endobj
+const SUPPORTED_FORMATS: ReportFormat[] = ["pdf", "csv", "excel"]
 
-4 0 obj
-<<
-/Length 44
->>
-stream
-BT
-/F1 12 Tf
-72 720 Td
-(MedStint ${type} Report) Tj
-ET
-endstream
-endobj
-
-xref
-0 5
-0000000000 65535 f 
-0000000009 00000 n 
-0000000058 00000 n 
-0000000115 00000 n 
-0000000206 00000 n 
-trailer
-<<
-/Size 5
-/Root 1 0 R
->>
-startxref
-300
-%%EOF`
-
-  return Buffer.from(pdfContent)
-}
-
-// Mock function to generate CSV report
-const generateCSVReport = async (data: any, type: string) => {
-  let csvContent = ""
-
-  if (type === "summary") {
-    csvContent = `Metric,Value
-Total Students,${data.summary?.totalStudents || 0}
-Total Competencies,${data.summary?.totalCompetencies || 0}
-Total Assignments,${data.summary?.totalAssignments || 0}
-Completion Rate,${data.summary?.completionRate || 0}%
-Average Score,${data.summary?.averageScore || 0}%
-Total Hours,${data.summary?.totalHours || 0}`
-  } else if (type === "time-tracking") {
-    csvContent = "Date,Hours,Students\n"
-    if (data.timeTracking?.dailyHours) {
-      data.timeTracking.dailyHours.forEach((day: any) => {
-        csvContent += `${day.date},${day.hours},${day.students}\n`
-      })
-    }
-  } else if (type === "competencies") {
-    csvContent = "Category,Total,Completed,In Progress,Overdue,Average Score\n"
-    if (data.competencyProgress?.byCategory) {
-      data.competencyProgress.byCategory.forEach((category: any) => {
-        csvContent += `${category.category},${category.total},${category.completed},${category.inProgress},${category.overdue},${category.averageScore}%\n`
-      })
-    }
-  } else if (type === "students") {
-    csvContent = "Student Name,Completed Competencies,Average Score,Total Hours\n"
-    if (data.studentPerformance?.topPerformers) {
-      data.studentPerformance.topPerformers.forEach((student: any) => {
-        csvContent += `${student.name},${student.completedCompetencies},${student.averageScore}%,${student.totalHours}\n`
-      })
-    }
+export const GET = withErrorHandling(async (request: NextRequest) => {
+  const context = await getSchoolContext()
+  if (!REPORT_ROLES.includes(context.userRole)) {
+    return createErrorResponse(ERROR_MESSAGES.INSUFFICIENT_PERMISSIONS, HTTP_STATUS.FORBIDDEN)
   }
+  const scope = tenantScope(context, { crossTenantReason: "Platform-wide reporting" })
 
-  return Buffer.from(csvContent)
-}
-
-// Mock function to generate Excel report
-const generateExcelReport = async (data: any, type: string) => {
-  // In a real implementation, you would use a library like exceljs or xlsx
-  // For now, we'll return CSV format with .xlsx extension
-  const csvData = await generateCSVReport(data, type)
-  return csvData
-}
-
-export const GET = withErrorHandling(async (request: NextRequest) => {
   const { searchParams } = new URL(request.url)
 
-  const format = searchParams.get("format") || "pdf"
-  const type = searchParams.get("type") || "summary"
+  const format = (searchParams.get("format") || "pdf").toLowerCase() as ReportFormat
+  const type = resolveReportType(searchParams.get("type"))
   const from = searchParams.get("from")
   const to = searchParams.get("to")
 
@@ -126,56 +39,35 @@ export const GET = withErrorHandling(async (request: NextRequest) => {
     )
   }
 
-  // Fetch the same data that would be used in the comprehensive report
-  // Mock data for testing - in production, this would come from your database
-  const mockReportData = {
-    summary: {
-      // Empty summary - no mock data to prevent displaying fake information
-    },
-    timeTracking: {
-      // Empty time tracking - no mock data to prevent displaying fake information
-    },
-    competencyProgress: {
-      // Empty competency progress - no mock data to prevent displaying fake information
-    },
-    studentPerformance: {
-      // Empty student performance - no mock data to prevent displaying fake information
-    },
+  if (!SUPPORTED_FORMATS.includes(format)) {
+    return createErrorResponse(
+      "Unsupported format. Use pdf, csv, or excel",
+      HTTP_STATUS.BAD_REQUEST
+    )
   }
-  let reportBuffer: Buffer
-  let contentType: string
-  let fileExtension: string
 
-  switch (format.toLowerCase()) {
-    case "pdf":
-      reportBuffer = await generatePDFReport(mockReportData, type)
-      contentType = "application/pdf"
-      fileExtension = "pdf"
-      break
-    case "csv":
-      reportBuffer = await generateCSVReport(mockReportData, type)
-      contentType = "text/csv"
-      fileExtension = "csv"
-      break
-    case "excel":
-      reportBuffer = await generateExcelReport(mockReportData, type)
-      contentType = "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet"
-      fileExtension = "xlsx"
-      break
-    default:
-      return createErrorResponse(
-        "Unsupported format. Use pdf, csv, or excel",
-        HTTP_STATUS.BAD_REQUEST
-      )
+  if (!type) {
+    return createErrorResponse(
+      "Unsupported report type. Use summary, time-tracking, competency-progress, or student-performance",
+      HTTP_STATUS.BAD_REQUEST
+    )
   }
 
+  // Same dataset as /api/reports/comprehensive, rendered into the requested format
+  const filters = parseReportFilters(searchParams, scope.schoolId)
+  const reportData = await generateComprehensiveReportData(filters)
+  const document = buildReportDocument(reportData, type, {
+    period: { from: filters.from, to: filters.to },
+  })
+  const { buffer, contentType, fileExtension } = renderReport(document, format)
+
   const fileName = `medstint-${type}-report-${new Date().toISOString().split("T")[0]}.${fileExtension}`
 
-  return new NextResponse(new Uint8Array(reportBuffer), {
+  return new NextResponse(new Uint8Array(buffer), {
     headers: {
       "Content-Type": contentType,
       "Content-Disposition": `attachment; filename="${fileName}"`,
-      "Content-Length": reportBuffer.length.toString(),
+      "Content-Length": buffer.length.toString(),
     },
   })
 })
@@ -1,10 +1,12 @@
 import type { UserRole } from "@/types"
 import { currentUser } from "@clerk/nextjs/server"
-import { and, desc, eq, gte, inArray, lte } from "drizzle-orm"
+import { desc, eq, gte, inArray, lte } from "drizzle-orm"
 import { type NextRequest, NextResponse } from "next/server"
 import { z } from "zod"
 import { db } from "../../../database/connection-pool"
 import { withCSRF } from "@/lib/csrf-middleware"
+import { getSchoolContext } from "@/lib/school-utils"
+import { type TenantScope, tenantScope } from "@/lib/tenant-scope"
 
 // Role validation utilities
 const hasRole = (userRole: UserRole, allowedRoles: UserRole[]): boolean => {
@@ -102,6 +104,7 @@ async function checkReportPermissions(
 
 // Report generation functions
 async function generateProgressReport(
+  scope: TenantScope,
   filters: Record<string, unknown>,
   allowedStudentIds: string[]
 ) {
@@ -136,9 +139,9 @@ async function generateProgressReport(
       createdAt: progressSnapshots.createdAt,
     })
     .from(progressSnapshots)
-    .leftJoin(users, eq(progressSnapshots.userId, users.id))
+    .innerJoin(users, eq(progressSnapshots.userId, users.id))
     .leftJoin(competencies, eq(progressSnapshots.competencyId, competencies.id))
-    .where(conditions.length > 0 ? and(...conditions) : undefined)
+    .where(scope.where(users, ...conditions))
     .orderBy(desc(progressSnapshots.createdAt))
 
   return {
@@ -159,6 +162,7 @@ async function generateProgressReport(
 }
 
 async function generateCompetencyAnalyticsReport(
+  scope: TenantScope,
   filters: Record<string, unknown>,
   allowedStudentIds: string[]
 ) {
@@ -189,7 +193,7 @@ async function generateCompetencyAnalyticsReport(
     })
     .from(learningAnalytics)
     .leftJoin(users, eq(learningAnalytics.userId, users.id))
-    .where(conditions.length > 0 ? and(...conditions) : undefined)
+    .where(scope.where(learningAnalytics, ...conditions))
     .orderBy(desc(learningAnalytics.createdAt))
 
   return {
@@ -205,6 +209,7 @@ async function generateCompetencyAnalyticsReport(
 }
 
 async function generateAssessmentSummaryReport(
+  scope: TenantScope,
   filters: Record<string, unknown>,
   allowedStudentIds: string[]
 ) {
@@ -242,9 +247,9 @@ async function generateAssessmentSummaryReport(
       feedback: assessments.feedback,
     })
     .from(assessments)
-    .leftJoin(users, eq(assessments.studentId, users.id))
+    .innerJoin(users, eq(assessments.studentId, users.id))
     .leftJoin(competencies, eq(assessments.competencyId, competencies.id))
-    .where(conditions.length > 0 ? and(...conditions) : undefined)
+    .where(scope.where(users, ...conditions))
     .orderBy(desc(assessments.date))
 
   return {
@@ -306,12 +311,25 @@ export async function GET(request: NextRequest) {
       return createErrorResponse(ERROR_MESSAGES.ACCESS_DENIED, HTTP_STATUS.FORBIDDEN)
     }
 
+    // Reports only ever cover the caller's school, including the cached copy
+    const scope = tenantScope(await getSchoolContext())
+
     // Check cache first
-    const cacheKey = JSON.stringify({ ...validatedQuery, allowedStudentIds })
+    const cacheKey = JSON.stringify({
+      ...validatedQuery,
+      allowedStudentIds,
+      schoolId: scope.schoolId,
+    })
     const cached = await db
       .select()
       .from(reportCache)
-      .where(and(eq(reportCache.cacheKey, cacheKey), gte(reportCache.expiresAt, new Date())))
+      .where(
+        scope.where(
+          reportCache,
+          eq(reportCache.cacheKey, cacheKey),
+          gte(reportCache.expiresAt, new Date())
+        )
+      )
       .limit(1)
 
     if (cached.length > 0) {
@@ -328,16 +346,21 @@ export async function GET(request: NextRequest) {
     }
     switch (validatedQuery.type) {
       case "progress":
-        reportData = await generateProgressReport(validatedQuery, allowedStudentIds || [])
+        reportData = await generateProgressReport(scope, validatedQuery, allowedStudentIds || [])
         break
       case "competency_analytics":
         reportData = await generateCompetencyAnalyticsReport(
+          scope,
           validatedQuery,
           allowedStudentIds || []
         )
         break
       case "assessment_summary":
-        reportData = await generateAssessmentSummaryReport(validatedQuery, allowedStudentIds || [])
+        reportData = await generateAssessmentSummaryReport(
+          scope,
+          validatedQuery,
+          allowedStudentIds || []
+        )
         break
       default:
         return createErrorResponse("Invalid report type", HTTP_STATUS.BAD_REQUEST)
@@ -348,6 +371,7 @@ export async function GET(request: NextRequest) {
     await db.insert(reportCache).values({
       id: `cache_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
       reportType: validatedQuery.type,
+      schoolId: scope.schoolId,
       cacheKey,
       data: JSON.stringify(reportData),
       expiresAt,
@@ -403,8 +427,11 @@ export const DELETE = withCSRF(async (_request: NextRequest) => {
       return createErrorResponse(ERROR_MESSAGES.ACCESS_DENIED, HTTP_STATUS.FORBIDDEN)
     }
 
-    // Clear expired cache entries
-    const _deleted = await db.delete(reportCache).where(lte(reportCache.expiresAt, new Date()))
+    // Clear the school's expired cache entries
+    const scope = tenantScope(await getSchoolContext())
+    const _deleted = await db
+      .delete(reportCache)
+      .where(scope.where(reportCache, lte(reportCache.expiresAt, new Date())))
 
     return createSuccessResponse({
       message: "Cache cleared successfully",
@@ -1,12 +1,15 @@
 import { NextRequest, NextResponse } from "next/server"
 import { auth } from "@clerk/nextjs/server"
 import { cacheIntegrationService } from "@/lib/cache-integration"
+import { calculateNextRun } from "@/lib/reports/schedule"
 import { withCSRF } from "@/lib/csrf-middleware"
 import { z } from "zod"
 import { db } from "@/database/connection-pool"
 import { scheduledReports } from "@/database/schema"
 import { eq } from "drizzle-orm"
 import { generalApiLimiter } from "@/lib/rate-limiter"
+import { getSchoolContext } from "@/lib/school-utils"
+import { TenantIsolationError, tenantScope } from "@/lib/tenant-scope"
 
 import type { UserRole } from "@/types"
 
@@ -30,30 +33,6 @@ function checkSchedulePermissions(userRole: string): boolean {
   return allowedRoles.includes(userRole)
 }
 
-function calculateNextRun(frequency: string, lastRun?: Date): Date {
-  const now = lastRun || new Date()
-  const nextRun = new Date(now)
-
-  switch (frequency) {
-    case "daily":
-      nextRun.setDate(nextRun.getDate() + 1)
-      break
-    case "weekly":
-      nextRun.setDate(nextRun.getDate() + 7)
-      break
-    case "monthly":
-      nextRun.setMonth(nextRun.getMonth() + 1)
-      break
-    case "quarterly":
-      nextRun.setMonth(nextRun.getMonth() + 3)
-      break
-    default:
-      nextRun.setDate(nextRun.getDate() + 7)
-  }
-
-  return nextRun
-}
-
 export async function GET(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
   // Rate limiting check
   const limitResult = await generalApiLimiter.checkLimit(request)
@@ -61,30 +40,9 @@ export async function GET(request: NextRequest, { params }: { params: Promise<{
     return NextResponse.json({ error: "Too many requests" }, { status: 429 })
   }
 
-  try {
-    const { id } = await params
-
-    // Try to get cached response
-    const cached = await cacheIntegrationService.cachedApiResponse(
-      `api:reports/scheduled/${id}`,
-      async () => {
-        return await executeOriginalLogic(id)
-      },
-      300 // 5 minutes TTL
-    )
-
-    if (cached) {
-      return cached
-    }
-
-    // Fallback if cache returns null (shouldn't happen with cachedApiResponse but for safety)
-    return await executeOriginalLogic(id)
-  } catch (cacheError) {
-    console.warn("Cache error in reports/scheduled/[id]/route.ts:", cacheError)
-    // Continue with original logic if cache fails
-    const { id } = await params
-    return await executeOriginalLogic(id)
-  }
+  // Not cached: whether the report is visible depends on the caller's school and role
+  const { id } = await params
+  return await executeOriginalLogic(id)
 }
 
 async function executeOriginalLogic(id: string) {
@@ -101,10 +59,11 @@ async function executeOriginalLogic(id: string) {
       return NextResponse.json({ error: "Insufficient permissions" }, { status: 403 })
     }
 
+    const scope = tenantScope(await getSchoolContext())
     const reportData = await db
       .select()
       .from(scheduledReports)
-      .where(eq(scheduledReports.id, id))
+      .where(scope.where(scheduledReports, eq(scheduledReports.id, id)))
       .limit(1)
 
     if (!reportData.length) {
@@ -127,6 +86,9 @@ async function executeOriginalLogic(id: string) {
 
     return NextResponse.json({ report: formattedReport })
   } catch (error) {
+    if (error instanceof TenantIsolationError) {
+      return NextResponse.json({ error: error.message }, { status: 403 })
+    }
     console.error("Error fetching scheduled report:", error)
     return NextResponse.json({ error: "Failed to fetch scheduled report" }, { status: 500 })
   }
@@ -155,10 +117,11 @@ export const PUT = withCSRF(
 
       const { id } = await params
 
+      const scope = tenantScope(await getSchoolContext())
       const reportData = await db
         .select()
         .from(scheduledReports)
-        .where(eq(scheduledReports.id, id))
+        .where(scope.where(scheduledReports, eq(scheduledReports.id, id)))
         .limit(1)
 
       if (!reportData.length) {
@@ -197,7 +160,7 @@ export const PUT = withCSRF(
       const updatedReports = await db
         .update(scheduledReports)
         .set(updateData)
-        .where(eq(scheduledReports.id, id))
+        .where(scope.where(scheduledReports, eq(scheduledReports.id, id)))
         .returning()
 
       const updatedReport = updatedReports[0]
@@ -205,7 +168,6 @@ export const PUT = withCSRF(
       // Invalidate related caches
       try {
         await cacheIntegrationService.invalidateByTags(["reports"])
-        await cacheIntegrationService.delete(`api:reports/scheduled/${id}`)
       } catch (cacheError) {
         console.warn("Cache invalidation error in reports/scheduled/[id]/route.ts:", cacheError)
       }
@@ -222,6 +184,9 @@ export const PUT = withCSRF(
         report: formattedReport,
       })
     } catch (error) {
+      if (error instanceof TenantIsolationError) {
+        return NextResponse.json({ error: error.message }, { status: 403 })
+      }
       console.error("Error updating scheduled report:", error)
 
       if (error instanceof z.ZodError) {
@@ -256,10 +221,11 @@ export const DELETE = withCSRF(
 
       const { id } = await params
 
+      const scope = tenantScope(await getSchoolContext())
       const reportData = await db
         .select()
         .from(scheduledReports)
-        .where(eq(scheduledReports.id, id))
+        .where(scope.where(scheduledReports, eq(scheduledReports.id, id)))
         .limit(1)
 
       if (!reportData.length) {
@@ -274,12 +240,13 @@ export const DELETE = withCSRF(
       }
 
       // Remove the report
-      await db.delete(scheduledReports).where(eq(scheduledReports.id, id))
+      await db
+        .delete(scheduledReports)
+        .where(scope.where(scheduledReports, eq(scheduledReports.id, id)))
 
       // Invalidate related caches
       try {
         await cacheIntegrationService.invalidateByTags(["reports"])
-        await cacheIntegrationService.delete(`api:reports/scheduled/${id}`)
       } catch (cacheError) {
         console.warn("Cache invalidation error in reports/scheduled/[id]/route.ts:", cacheError)
       }
@@ -288,6 +255,9 @@ export const DELETE = withCSRF(
         message: "Scheduled report deleted successfully",
       })
     } catch (error) {
+      if (error instanceof TenantIsolationError) {
+        return NextResponse.json({ error: error.message }, { status: 403 })
+      }
       console.error("Error deleting scheduled report:", error)
 
       return NextResponse.json({ error: "Failed to delete scheduled report" }, { status: 500 })
@@ -0,0 +1,53 @@
+import { desc, eq } from "drizzle-orm"
+import type { NextRequest } from "next/server"
+import { z } from "zod"
+import { db } from "@/database/connection-pool"
+import { scheduledReportRuns, scheduledReports } from "@/database/schema"
+import {
+  createErrorResponse,
+  createSuccessResponse,
+  ERROR_MESSAGES,
+  HTTP_STATUS,
+  withErrorHandling,
+} from "@/lib/api-response"
+import { getSchoolContext } from "@/lib/school-utils"
+import { tenantScope } from "@/lib/tenant-scope"
+
+const querySchema = z.object({
+  limit: z.coerce.number().int().min(1).max(100).default(20),
+})
+
+const VIEW_ROLES = ["SUPER_ADMIN", "SCHOOL_ADMIN", "CLINICAL_SUPERVISOR"]
+
+// GET /api/reports/scheduled/[id]/runs - Run history for a scheduled report
+export const GET = withErrorHandling(
+  async (request: NextRequest, { params }: { params: Promise<{ id: string }> }) => {
+    const context = await getSchoolContext()
+    if (!VIEW_ROLES.includes(context.userRole)) {
+      return createErrorResponse(ERROR_MESSAGES.FORBIDDEN, HTTP_STATUS.FORBIDDEN)
+    }
+
+    const { id } = await params
+    const { limit } = querySchema.parse(Object.fromEntries(request.nextUrl.searchParams))
+
+    const scope = tenantScope(context, { crossTenantReason: "Scheduled report run history" })
+    const [report] = await db
+      .select({ id: scheduledReports.id, schoolId: scheduledReports.schoolId })
+      .from(scheduledReports)
+      .where(scope.where(scheduledReports, eq(scheduledReports.id, id)))
+      .limit(1)
+
+    if (!report) {
+      return createErrorResponse(ERROR_MESSAGES.NOT_FOUND, HTTP_STATUS.NOT_FOUND)
+    }
+
+    const runs = await db
+      .select()
+      .from(scheduledReportRuns)
+      .where(scope.where(scheduledReportRuns, eq(scheduledReportRuns.scheduledReportId, report.id)))
+      .orderBy(desc(scheduledReportRuns.createdAt))
+      .limit(limit)
+
+    return createSuccessResponse({ runs })
+  }
+)
@@ -7,6 +7,7 @@ import { db } from "@/database/connection-pool"
 import type { UserRole } from "@/types"
 import { scheduledReports, users } from "../../../../database/schema"
 import { cacheIntegrationService } from "@/lib/cache-integration"
+import { calculateNextRun } from "@/lib/reports/schedule"
 import {
   createSuccessResponse,
   createErrorResponse,
@@ -18,6 +19,8 @@ import {
 import { generalApiLimiter } from "@/lib/rate-limiter"
 import { withCSRF } from "@/lib/csrf-middleware"
 import { logger } from "@/lib/logger"
+import { getSchoolContext } from "@/lib/school-utils"
+import { type TenantScope, tenantScope } from "@/lib/tenant-scope"
 
 interface ScheduledReportData {
   name: string
@@ -53,38 +56,17 @@ function checkSchedulePermissions(userRole: string): boolean {
   return allowedRoles.includes(userRole)
 }
 
-function calculateNextRun(frequency: string, lastRun?: Date): Date {
-  const now = lastRun || new Date()
-  const nextRun = new Date(now)
-
-  switch (frequency) {
-    case "daily":
-      nextRun.setDate(nextRun.getDate() + 1)
-      break
-    case "weekly":
-      nextRun.setDate(nextRun.getDate() + 7)
-      break
-    case "monthly":
-      nextRun.setMonth(nextRun.getMonth() + 1)
-      break
-    case "quarterly":
-      nextRun.setMonth(nextRun.getMonth() + 3)
-      break
-    default:
-      nextRun.setDate(nextRun.getDate() + 7) // Default to weekly
-  }
-
-  return nextRun
-}
-
 // Database functions for scheduled reports
-async function getScheduledReports(userId?: string, userRole?: string) {
+async function getScheduledReports(scope: TenantScope, userId?: string, userRole?: string) {
   try {
     // If not school admin, only show reports created by the user
     const reports =
       userRole !== ("SCHOOL_ADMIN" as UserRole) && userId
-        ? await db.select().from(scheduledReports).where(eq(scheduledReports.createdBy, userId))
-        : await db.select().from(scheduledReports)
+        ? await db
+            .select()
+            .from(scheduledReports)
+            .where(scope.where(scheduledReports, eq(scheduledReports.createdBy, userId)))
+        : await db.select().from(scheduledReports).where(scope.where(scheduledReports))
     return reports.map((report) => ({
       ...report,
       recipients: JSON.parse(report.recipients),
@@ -134,7 +116,12 @@ async function createScheduledReport(
   }
 }
 
-async function deleteScheduledReports(reportIds: string[], userId: string, userRole: string) {
+async function deleteScheduledReports(
+  scope: TenantScope,
+  reportIds: string[],
+  userId: string,
+  userRole: string
+) {
   try {
     // Build condition for multiple IDs
     const idConditions = reportIds.map((id) => eq(scheduledReports.id, id))
@@ -149,7 +136,10 @@ async function deleteScheduledReports(reportIds: string[], userId: string, userR
       return 0
     }
 
-    const deleted = await db.delete(scheduledReports).where(deleteCondition).returning()
+    const deleted = await db
+      .delete(scheduledReports)
+      .where(scope.where(scheduledReports, deleteCondition))
+      .returning()
     return deleted.length
   } catch (error) {
     logger.error({ error }, "Error deleting scheduled reports")
@@ -173,47 +163,26 @@ export const GET = withErrorHandling(async (_request: NextRequest) => {
     // Continue with request if rate limiter fails
   }
 
-  // Try to get cached response
-  try {
-    const cached = await cacheIntegrationService.cachedApiResponse(
-      "api:reports/scheduled/route.ts",
-      async () => {
-        return await executeOriginalLogic()
-      },
-      300 // 5 minutes TTL
-    )
-
-    if (cached) {
-      return cached
-    }
-  } catch (cacheError) {
-    logger.warn({ cacheError }, "Cache error in reports/scheduled/route.ts")
-    // Continue with original logic if cache fails
-  }
-
-  async function executeOriginalLogic() {
-    const { userId, sessionClaims } = await auth()
+  // Not cached: the list depends on the caller's school and role
+  const { userId } = await auth()
 
-    if (!userId) {
-      return createErrorResponse(ERROR_MESSAGES.UNAUTHORIZED, HTTP_STATUS.UNAUTHORIZED)
-    }
-
-    const userRole = (sessionClaims?.metadata as UserMetadata)?.role
-
-    if (!checkSchedulePermissions(userRole)) {
-      return createErrorResponse("Insufficient permissions", HTTP_STATUS.FORBIDDEN)
-    }
+  if (!userId) {
+    return createErrorResponse(ERROR_MESSAGES.UNAUTHORIZED, HTTP_STATUS.UNAUTHORIZED)
+  }
 
-    // Fetch reports from database
-    const userReports = await getScheduledReports(userId, userRole)
+  const context = await getSchoolContext()
 
-    return createSuccessResponse({
-      reports: userReports,
-      total: userReports.length,
-    })
+  if (!checkSchedulePermissions(context.userRole)) {
+    return createErrorResponse("Insufficient permissions", HTTP_STATUS.FORBIDDEN)
   }
 
-  return await executeOriginalLogic()
+  // Fetch reports from database
+  const userReports = await getScheduledReports(tenantScope(context), userId, context.userRole)
+
+  return createSuccessResponse({
+    reports: userReports,
+    total: userReports.length,
+  })
 })
 
 export const POST = withCSRF(
@@ -342,7 +311,8 @@ export const DELETE = withCSRF(
     }
 
     // Delete reports from database (with permission check)
-    const deletedCount = await deleteScheduledReports(reportIds, userId, userRole)
+    const scope = tenantScope(await getSchoolContext())
+    const deletedCount = await deleteScheduledReports(scope, reportIds, userId, userRole)
 
     // Invalidate related caches
     try {
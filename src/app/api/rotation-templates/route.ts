@@ -2,10 +2,11 @@
 
 import { NextRequest } from "next/server"
 import { z } from "zod"
-import { eq, and, desc } from "drizzle-orm"
+import { eq, desc } from "drizzle-orm"
 import { db } from "@/database/connection-pool"
 import { rotationTemplates, programs, clinicalSites, users } from "@/database/schema"
 import { getSchoolContext } from "@/lib/school-utils"
+import { tenantScope } from "@/lib/tenant-scope"
 import {
   createSuccessResponse,
   createErrorResponse,
@@ -40,9 +41,11 @@ const updateRotationTemplateSchema = z.object({
   sortOrder: z.number().optional(),
 })
 
+const CROSS_TENANT_REASON = "Rotation template administration"
+
 // GET /api/rotation-templates - List rotation templates
 export const GET = withErrorHandling(async (request: NextRequest) => {
-  const context = await getSchoolContext()
+  const scope = tenantScope(await getSchoolContext(), { crossTenantReason: CROSS_TENANT_REASON })
   const { searchParams } = new URL(request.url)
 
   const programId = searchParams.get("programId")
@@ -51,11 +54,6 @@ export const GET = withErrorHandling(async (request: NextRequest) => {
   // Build conditions
   const conditions = []
 
-  // Filter by school
-  if (context.schoolId && context.userRole !== "SUPER_ADMIN") {
-    conditions.push(eq(rotationTemplates.schoolId, context.schoolId))
-  }
-
   // Filter by program if specified
   if (programId) {
     conditions.push(eq(rotationTemplates.programId, programId))
@@ -89,7 +87,7 @@ export const GET = withErrorHandling(async (request: NextRequest) => {
     .from(rotationTemplates)
     .leftJoin(programs, eq(rotationTemplates.programId, programs.id))
     .leftJoin(clinicalSites, eq(rotationTemplates.defaultClinicalSiteId, clinicalSites.id))
-    .where(conditions.length > 0 ? and(...conditions) : undefined)
+    .where(scope.where(rotationTemplates, ...conditions))
     .orderBy(rotationTemplates.sortOrder, desc(rotationTemplates.createdAt))
 
   // Parse objectives from JSON
@@ -124,7 +122,7 @@ export const POST = withErrorHandling(async (request: NextRequest) => {
     return createErrorResponse("Program not found", HTTP_STATUS.NOT_FOUND)
   }
 
-  if (program.schoolId !== context.schoolId && context.userRole !== "SUPER_ADMIN") {
+  if (!tenantScope(context, { crossTenantReason: CROSS_TENANT_REASON }).owns(program)) {
     return createErrorResponse("Access denied to this program", HTTP_STATUS.FORBIDDEN)
   }
 
@@ -192,7 +190,7 @@ export const PUT = withErrorHandling(async (request: NextRequest) => {
   }
 
   // Verify ownership
-  if (existingTemplate.schoolId !== context.schoolId && context.userRole !== "SUPER_ADMIN") {
+  if (!tenantScope(context, { crossTenantReason: CROSS_TENANT_REASON }).owns(existingTemplate)) {
     return createErrorResponse("Access denied to this template", HTTP_STATUS.FORBIDDEN)
   }
 
@@ -258,7 +256,7 @@ export const DELETE = withErrorHandling(async (request: NextRequest) => {
   }
 
   // Verify ownership
-  if (existingTemplate.schoolId !== context.schoolId && context.userRole !== "SUPER_ADMIN") {
+  if (!tenantScope(context, { crossTenantReason: CROSS_TENANT_REASON }).owns(existingTemplate)) {
     return createErrorResponse("Access denied to this template", HTTP_STATUS.FORBIDDEN)
   }
 
@@ -16,6 +16,23 @@ import {
 } from "@/lib/api-response"
 import { cacheIntegrationService } from "@/lib/cache-integration"
 import { logger } from "@/lib/logger"
+import { getRequestSchoolContext } from "@/lib/rbac-middleware"
+import { checkPlacement, studentInSchool } from "@/lib/school-affiliations"
+
+const PLACEMENT_ERRORS = {
+  site_not_affiliated: [
+    "This clinical site is not available to the student's school",
+    HTTP_STATUS.FORBIDDEN,
+  ],
+  site_full: [
+    "The student's school has no capacity left at this clinical site",
+    HTTP_STATUS.CONFLICT,
+  ],
+  preceptor_not_affiliated: [
+    "This preceptor does not teach for the student's school",
+    HTTP_STATUS.FORBIDDEN,
+  ],
+} as const
 
 // Validation schemas
 const createRotationSchema = z.object({
@@ -43,8 +60,13 @@ const updateRotationSchema = z.object({
 })
 
 // GET /api/rotations - Get rotations with filtering
+// Accepts API keys with the rotations:read scope.
 export const GET = withErrorHandling(async (request: NextRequest) => {
-  const context = await getSchoolContext()
+  const auth = await getRequestSchoolContext(request, ["rotations:read"])
+  if (!auth.success) {
+    return createErrorResponse(auth.error, auth.status)
+  }
+  const { context } = auth
   const { searchParams } = new URL(request.url)
 
   const studentId = searchParams.get("studentId")
@@ -69,6 +91,12 @@ export const GET = withErrorHandling(async (request: NextRequest) => {
     conditions.push(eq(rotations.supervisorId, context.userId))
   }
 
+  // Sites and preceptors can be shared between schools; only this school's students are visible
+  if (!context.canAccessAllSchools && context.userRole !== ("STUDENT" as UserRole)) {
+    const schoolCondition = studentInSchool(rotations.studentId, context.schoolId)
+    if (schoolCondition) conditions.push(schoolCondition)
+  }
+
   if (studentId) {
     conditions.push(eq(rotations.studentId, studentId))
   }
@@ -213,6 +241,19 @@ export const POST = withErrorHandling(async (request: NextRequest) => {
       return createErrorResponse("Clinical site not found", HTTP_STATUS.NOT_FOUND)
     }
 
+    if (student.schoolId) {
+      const placement = await checkPlacement({
+        schoolId: student.schoolId,
+        clinicalSiteId: validatedData.clinicalSiteId,
+        preceptorId: validatedData.preceptorId,
+        window: { startDate, endDate },
+      })
+      if (!placement.ok) {
+        const [message, status] = PLACEMENT_ERRORS[placement.reason]
+        return createErrorResponse(message, status)
+      }
+    }
+
     // Verify supervisor if provided
     if (validatedData.supervisorId) {
       const [supervisor] = await db
@@ -299,6 +340,48 @@ export const PUT = withErrorHandling(async (request: NextRequest) => {
       return createErrorResponse("Rotation not found", HTTP_STATUS.NOT_FOUND)
     }
 
+    const [student] = await db
+      .select({ schoolId: users.schoolId })
+      .from(users)
+      .where(eq(users.id, existingRotation.studentId))
+      .limit(1)
+    if (!context.canAccessAllSchools && student?.schoolId !== context.schoolId) {
+      return createErrorResponse("Rotation not found", HTTP_STATUS.NOT_FOUND)
+    }
+
+    if (student?.schoolId) {
+      // The rotation needs a seat again when it moves to another site or to other dates
+      const window = {
+        startDate: validatedData.startDate
+          ? new Date(validatedData.startDate)
+          : existingRotation.startDate,
+        endDate: validatedData.endDate ? new Date(validatedData.endDate) : existingRotation.endDate,
+        excludeRotationId: existingRotation.id,
+      }
+      const siteChanged =
+        !!validatedData.clinicalSiteId &&
+        validatedData.clinicalSiteId !== existingRotation.clinicalSiteId
+      const datesChanged =
+        window.startDate?.getTime() !== existingRotation.startDate?.getTime() ||
+        window.endDate?.getTime() !== existingRotation.endDate?.getTime()
+      const placement = await checkPlacement({
+        schoolId: student.schoolId,
+        clinicalSiteId:
+          siteChanged || datesChanged
+            ? (validatedData.clinicalSiteId ?? existingRotation.clinicalSiteId)
+            : undefined,
+        preceptorId:
+          validatedData.preceptorId !== existingRotation.preceptorId
+            ? validatedData.preceptorId
+            : undefined,
+        window,
+      })
+      if (!placement.ok) {
+        const [message, status] = PLACEMENT_ERRORS[placement.reason]
+        return createErrorResponse(message, status)
+      }
+    }
+
     // Prepare update values
     const updateValues: Partial<typeof rotations.$inferInsert> = {
       updatedAt: new Date(),
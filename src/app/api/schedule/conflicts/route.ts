@@ -1,7 +1,5 @@
 import { type NextRequest } from "next/server"
-import { and, eq, gte, lte, type SQL } from "drizzle-orm"
-import { db } from "@/database/connection-pool"
-import { rotations, clinicalSites } from "@/database/schema"
+import { z } from "zod"
 import {
   withErrorHandlingAsync,
   createSuccessResponse,
@@ -9,15 +7,21 @@ import {
   HTTP_STATUS,
 } from "@/lib/api-response"
 import { apiAuthMiddleware } from "@/lib/rbac-middleware"
+import { findScheduleConflicts, summarizeConflicts } from "@/services/schedule-conflict-service"
 
 export const dynamic = "force-dynamic"
 
-// Type for conflict details
-interface ConflictDetail {
-  with?: string
-  capacity?: number
-}
-
+const querySchema = z.object({
+  studentId: z.string().optional(),
+  siteId: z.string().optional(),
+  cohortId: z.string().optional(),
+  cohortRotationAssignmentId: z.string().optional(),
+  startDate: z.coerce.date().optional(),
+  endDate: z.coerce.date().optional(),
+  severity: z.enum(["HARD", "SOFT"]).optional(),
+})
+
+// GET /api/schedule/conflicts - Detect scheduling conflicts for rotations
 export async function GET(request: NextRequest) {
   return withErrorHandlingAsync(async () => {
     const auth = await apiAuthMiddleware(request, {
@@ -31,58 +35,22 @@ export async function GET(request: NextRequest) {
     }
 
     const { searchParams } = new URL(request.url)
-    const studentId = searchParams.get("studentId")
-    const siteId = searchParams.get("siteId")
-    const startDate = searchParams.get("startDate")
-    const endDate = searchParams.get("endDate")
-
-    const conditions: SQL<unknown>[] = []
-    if (studentId) conditions.push(eq(rotations.studentId, studentId))
-    if (siteId) conditions.push(eq(rotations.clinicalSiteId, siteId))
-    if (startDate) conditions.push(gte(rotations.startDate, new Date(startDate)))
-    if (endDate) conditions.push(lte(rotations.endDate, new Date(endDate)))
+    const query = querySchema.parse(Object.fromEntries(searchParams))
 
-    const schedule = await db
-      .select({
-        id: rotations.id,
-        studentId: rotations.studentId,
-        clinicalSiteId: rotations.clinicalSiteId,
-        startDate: rotations.startDate,
-        endDate: rotations.endDate,
-        status: rotations.status,
-        capacity: clinicalSites.capacity,
-      })
-      .from(rotations)
-      .leftJoin(clinicalSites, eq(rotations.clinicalSiteId, clinicalSites.id))
-      .where(conditions.length ? and(...conditions) : undefined)
-
-    // Simple overlap + capacity checks (placeholder)
-    const conflicts: Array<{ type: string; rotationId: string; details: ConflictDetail }> = []
-    const byStudent: Record<string, typeof schedule> = {}
-    for (const r of schedule) {
-      const key = r.studentId || "unknown"
-      byStudent[key] = byStudent[key] || []
-      // Check overlap with existing entries for the student
-      for (const o of byStudent[key]) {
-        // Skip overlap check if any date is null
-        if (r.startDate && r.endDate && o.startDate && o.endDate) {
-          const overlap = r.startDate <= o.endDate && o.startDate <= r.endDate
-          if (overlap) {
-            conflicts.push({ type: "OVERLAP_STUDENT", rotationId: r.id!, details: { with: o.id } })
-          }
-        }
-      }
-      byStudent[key].push(r)
+    // School admins only see their own school's schedule
+    const schoolId = auth.user?.role === "SUPER_ADMIN" ? null : (auth.user?.schoolId ?? null)
+    if (auth.user?.role !== "SUPER_ADMIN" && !schoolId) {
+      return createErrorResponse("School context required", HTTP_STATUS.FORBIDDEN)
     }
 
-    // Capacity checks can be expanded based on site assignments
-    // Placeholder: flag if capacity is 0
-    for (const r of schedule) {
-      if ((r.capacity as number | null) === 0) {
-        conflicts.push({ type: "SITE_CAPACITY", rotationId: r.id!, details: { capacity: 0 } })
-      }
-    }
+    const { rotationCount, conflicts } = await findScheduleConflicts({ ...query, schoolId })
+    const filtered = query.severity
+      ? conflicts.filter((conflict) => conflict.severity === query.severity)
+      : conflicts
 
-    return createSuccessResponse({ conflicts })
+    return createSuccessResponse({
+      conflicts: filtered,
+      summary: { ...summarizeConflicts(conflicts), rotationsChecked: rotationCount },
+    })
   })
 }
@@ -0,0 +1,26 @@
+import type { NextRequest } from "next/server"
+import {
+  createErrorResponse,
+  createSuccessResponse,
+  ERROR_MESSAGES,
+  HTTP_STATUS,
+  withErrorHandling,
+} from "@/lib/api-response"
+import { listPendingAffiliations } from "@/lib/school-affiliations"
+import { getSchoolContext } from "@/lib/school-utils"
+import type { UserRole } from "@/types"
+
+const ADMIN_ROLES: UserRole[] = ["SUPER_ADMIN", "SCHOOL_ADMIN"]
+
+export const dynamic = "force-dynamic"
+
+// GET /api/school-affiliations/pending - Sites and preceptors other schools have offered
+// to share with the caller's school, waiting for its admin to accept.
+export const GET = withErrorHandling(async (_request: NextRequest) => {
+  const context = await getSchoolContext()
+  if (!ADMIN_ROLES.includes(context.userRole) || !context.schoolId) {
+    return createErrorResponse(ERROR_MESSAGES.INSUFFICIENT_PERMISSIONS, HTTP_STATUS.FORBIDDEN)
+  }
+
+  return createSuccessResponse(await listPendingAffiliations(context.schoolId))
+})
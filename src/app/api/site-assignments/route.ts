@@ -6,6 +6,7 @@ import { db } from "@/database/connection-pool"
 import type { UserRole } from "@/types"
 import { siteAssignments, users, clinicalSites } from "@/database/schema"
 import { getSchoolContext } from "@/lib/school-utils"
+import { tenantScope } from "@/lib/tenant-scope"
 import { apiAuthMiddleware } from "@/lib/rbac-middleware"
 import {
   createSuccessResponse,
@@ -16,6 +17,9 @@ import {
   ERROR_MESSAGES,
 } from "@/lib/api-response"
 
+const ADMIN_ROLES = ["SUPER_ADMIN", "SCHOOL_ADMIN"] as UserRole[]
+const CROSS_TENANT_REASON = "Site assignment oversight"
+
 // Validation schemas
 const createSiteAssignmentSchema = z.object({
   studentId: z.string().min(1, "Student ID is required"),
@@ -93,10 +97,8 @@ export const GET = withErrorHandling(async (request: NextRequest) => {
     conditions.push(eq(siteAssignments.status, statusParam))
   }
 
-  // For school admins, only show assignments for their school
-  if (context.userRole === ("SCHOOL_ADMIN" as UserRole) && context.schoolId) {
-    conditions.push(eq(siteAssignments.schoolId, context.schoolId))
-  }
+  // Only super admins see assignments across schools
+  const scope = tenantScope(context, { crossTenantReason: CROSS_TENANT_REASON })
 
   const assignments = await db
     .select({
@@ -121,7 +123,7 @@ export const GET = withErrorHandling(async (request: NextRequest) => {
     .from(siteAssignments)
     .leftJoin(users, eq(siteAssignments.studentId, users.id))
     .leftJoin(clinicalSites, eq(siteAssignments.clinicalSiteId, clinicalSites.id))
-    .where(conditions.length > 0 ? and(...conditions) : undefined)
+    .where(scope.where(siteAssignments, ...conditions))
 
   return createSuccessResponse(assignments)
 })
@@ -143,7 +145,7 @@ export const POST = withErrorHandling(async (request: NextRequest) => {
     // Only admins can create site assignments
     if (
       !context.userRole ||
-      !(["SUPER_ADMIN", "SCHOOL_ADMIN"] as UserRole[]).includes(context.userRole)
+      !ADMIN_ROLES.includes(context.userRole)
     ) {
       return createErrorResponse(ERROR_MESSAGES.INSUFFICIENT_PERMISSIONS, HTTP_STATUS.FORBIDDEN)
     }
@@ -397,12 +399,18 @@ export const PUT = withErrorHandling(async (request: NextRequest) => {
     )
   }
 
+  const context = await getSchoolContext()
+  if (!context.userRole || !ADMIN_ROLES.includes(context.userRole)) {
+    return createErrorResponse(ERROR_MESSAGES.INSUFFICIENT_PERMISSIONS, HTTP_STATUS.FORBIDDEN)
+  }
+
   const body = await request.json()
 
   if (!body.id) {
     return createErrorResponse("Assignment ID is required", HTTP_STATUS.BAD_REQUEST)
   }
 
+  const scope = tenantScope(context, { crossTenantReason: CROSS_TENANT_REASON })
   const [updated] = await db
     .update(siteAssignments)
     .set({
@@ -410,7 +418,7 @@ export const PUT = withErrorHandling(async (request: NextRequest) => {
       notes: body.notes,
       updatedAt: new Date(),
     })
-    .where(eq(siteAssignments.id, body.id))
+    .where(scope.where(siteAssignments, eq(siteAssignments.id, body.id)))
     .returning()
 
   if (!updated) {
@@ -431,6 +439,11 @@ export const DELETE = withErrorHandling(async (request: NextRequest) => {
     )
   }
 
+  const context = await getSchoolContext()
+  if (!context.userRole || !ADMIN_ROLES.includes(context.userRole)) {
+    return createErrorResponse(ERROR_MESSAGES.INSUFFICIENT_PERMISSIONS, HTTP_STATUS.FORBIDDEN)
+  }
+
   const { searchParams } = new URL(request.url)
   const id = searchParams.get("id")
 
@@ -438,7 +451,11 @@ export const DELETE = withErrorHandling(async (request: NextRequest) => {
     return createErrorResponse("Assignment ID is required", HTTP_STATUS.BAD_REQUEST)
   }
 
-  const [removed] = await db.delete(siteAssignments).where(eq(siteAssignments.id, id)).returning()
+  const scope = tenantScope(context, { crossTenantReason: CROSS_TENANT_REASON })
+  const [removed] = await db
+    .delete(siteAssignments)
+    .where(scope.where(siteAssignments, eq(siteAssignments.id, id)))
+    .returning()
 
   if (!removed) {
     return createErrorResponse("Assignment not found", HTTP_STATUS.NOT_FOUND)
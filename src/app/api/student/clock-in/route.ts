@@ -13,6 +13,7 @@ import { rotations, siteAssignments } from "@/database/schema"
 import { and, eq, sql, or, isNull, lte, gte } from "drizzle-orm"
 import { TimingPerformanceMonitor } from "@/lib/high-precision-timing"
 import { withCSRF } from "@/lib/csrf-middleware"
+import { withIdempotency } from "@/lib/idempotency"
 
 // Role validation utilities
 const hasRole = (userRole: UserRole, allowedRoles: UserRole[]): boolean => {
@@ -71,87 +72,46 @@ export const POST = withCSRF(async (request: NextRequest) => {
         // Parse request body
         const body = await request.json()
 
-        // Resolve rotationId from siteId if rotationId is not provided
-        let resolvedRotationId: string | undefined = body.rotationId
-
-        if (!resolvedRotationId && body.siteId) {
-          const now = new Date()
-
-          logger.info(
-            {
-              requestId,
-              studentId: user.id,
+        // Retries of the same punch (e.g. replays from the offline queue) return the stored response
+        return withIdempotency(
+          request,
+          {
+            userId: user.id,
+            operation: "clock-in",
+            fingerprint: {
+              rotationId: body.rotationId,
               siteId: body.siteId,
-              currentTime: now.toISOString(),
             },
-            "Attempting to resolve rotationId"
-          )
-
-          // Prefer ACTIVE rotation for the student at the given site and within date range
-          const activeRotation = await db
-            .select({ id: rotations.id })
-            .from(rotations)
-            .where(
-              and(
-                eq(rotations.studentId, user.id),
-                eq(rotations.clinicalSiteId, body.siteId),
-                eq(rotations.status, "ACTIVE"),
-                // Handle open-ended rotations (null endDate) and optional startDate
-                or(isNull(rotations.startDate), lte(rotations.startDate, now)),
-                or(isNull(rotations.endDate), gte(rotations.endDate, now))
-              )
-            )
-            .limit(1)
+          },
+          async () => {
+            // Resolve rotationId from siteId if rotationId is not provided
+            let resolvedRotationId: string | undefined = body.rotationId
 
-          logger.info(
-            {
-              requestId,
-              activeRotation: activeRotation[0]?.id,
-            },
-            "Active rotation query result"
-          )
+            if (!resolvedRotationId && body.siteId) {
+              const now = new Date()
 
-          if (activeRotation[0]?.id) {
-            resolvedRotationId = activeRotation[0].id
-          } else {
-            // Fallback to SCHEDULED rotation if within the date window
-            // This handles cases where status wasn't updated but dates indicate the rotation is current
-            const scheduledRotation = await db
-              .select({ id: rotations.id })
-              .from(rotations)
-              .where(
-                and(
-                  eq(rotations.studentId, user.id),
-                  eq(rotations.clinicalSiteId, body.siteId),
-                  eq(rotations.status, "SCHEDULED"),
-                  or(isNull(rotations.startDate), lte(rotations.startDate, now)),
-                  or(isNull(rotations.endDate), gte(rotations.endDate, now))
-                )
+              logger.info(
+                {
+                  requestId,
+                  studentId: user.id,
+                  siteId: body.siteId,
+                  currentTime: now.toISOString(),
+                },
+                "Attempting to resolve rotationId"
               )
-              .limit(1)
 
-            logger.info(
-              {
-                requestId,
-                scheduledRotation: scheduledRotation[0]?.id,
-              },
-              "Scheduled rotation query result"
-            )
-
-            if (scheduledRotation[0]?.id) {
-              resolvedRotationId = scheduledRotation[0].id
-            } else {
-              // New fallback: use active site assignment to resolve rotationId
-              const assignment = await db
-                .select({ rotationId: siteAssignments.rotationId })
-                .from(siteAssignments)
+              // Prefer ACTIVE rotation for the student at the given site and within date range
+              const activeRotation = await db
+                .select({ id: rotations.id })
+                .from(rotations)
                 .where(
                   and(
-                    eq(siteAssignments.studentId, user.id),
-                    eq(siteAssignments.clinicalSiteId, body.siteId),
-                    eq(siteAssignments.status, "ACTIVE"),
-                    or(isNull(siteAssignments.startDate), lte(siteAssignments.startDate, now)),
-                    or(isNull(siteAssignments.endDate), gte(siteAssignments.endDate, now))
+                    eq(rotations.studentId, user.id),
+                    eq(rotations.clinicalSiteId, body.siteId),
+                    eq(rotations.status, "ACTIVE"),
+                    // Handle open-ended rotations (null endDate) and optional startDate
+                    or(isNull(rotations.startDate), lte(rotations.startDate, now)),
+                    or(isNull(rotations.endDate), gte(rotations.endDate, now))
                   )
                 )
                 .limit(1)
@@ -159,22 +119,24 @@ export const POST = withCSRF(async (request: NextRequest) => {
               logger.info(
                 {
                   requestId,
-                  assignmentRotationId: assignment[0]?.rotationId,
+                  activeRotation: activeRotation[0]?.id,
                 },
-                "Site assignment query result"
+                "Active rotation query result"
               )
 
-              if (assignment[0]?.rotationId) {
-                resolvedRotationId = assignment[0].rotationId as string
+              if (activeRotation[0]?.id) {
+                resolvedRotationId = activeRotation[0].id
               } else {
-                // Final fallback: pick any rotation at this site in date window regardless of status
-                const anyRotation = await db
+                // Fallback to SCHEDULED rotation if within the date window
+                // This handles cases where status wasn't updated but dates indicate the rotation is current
+                const scheduledRotation = await db
                   .select({ id: rotations.id })
                   .from(rotations)
                   .where(
                     and(
                       eq(rotations.studentId, user.id),
                       eq(rotations.clinicalSiteId, body.siteId),
+                      eq(rotations.status, "SCHEDULED"),
                       or(isNull(rotations.startDate), lte(rotations.startDate, now)),
                       or(isNull(rotations.endDate), gte(rotations.endDate, now))
                     )
@@ -184,73 +146,127 @@ export const POST = withCSRF(async (request: NextRequest) => {
                 logger.info(
                   {
                     requestId,
-                    anyRotation: anyRotation[0]?.id,
+                    scheduledRotation: scheduledRotation[0]?.id,
                   },
-                  "Any rotation fallback result"
+                  "Scheduled rotation query result"
                 )
 
-                if (anyRotation[0]?.id) {
-                  resolvedRotationId = anyRotation[0].id
+                if (scheduledRotation[0]?.id) {
+                  resolvedRotationId = scheduledRotation[0].id
+                } else {
+                  // New fallback: use active site assignment to resolve rotationId
+                  const assignment = await db
+                    .select({ rotationId: siteAssignments.rotationId })
+                    .from(siteAssignments)
+                    .where(
+                      and(
+                        eq(siteAssignments.studentId, user.id),
+                        eq(siteAssignments.clinicalSiteId, body.siteId),
+                        eq(siteAssignments.status, "ACTIVE"),
+                        or(isNull(siteAssignments.startDate), lte(siteAssignments.startDate, now)),
+                        or(isNull(siteAssignments.endDate), gte(siteAssignments.endDate, now))
+                      )
+                    )
+                    .limit(1)
+
+                  logger.info(
+                    {
+                      requestId,
+                      assignmentRotationId: assignment[0]?.rotationId,
+                    },
+                    "Site assignment query result"
+                  )
+
+                  if (assignment[0]?.rotationId) {
+                    resolvedRotationId = assignment[0].rotationId as string
+                  } else {
+                    // Final fallback: pick any rotation at this site in date window regardless of status
+                    const anyRotation = await db
+                      .select({ id: rotations.id })
+                      .from(rotations)
+                      .where(
+                        and(
+                          eq(rotations.studentId, user.id),
+                          eq(rotations.clinicalSiteId, body.siteId),
+                          or(isNull(rotations.startDate), lte(rotations.startDate, now)),
+                          or(isNull(rotations.endDate), gte(rotations.endDate, now))
+                        )
+                      )
+                      .limit(1)
+
+                    logger.info(
+                      {
+                        requestId,
+                        anyRotation: anyRotation[0]?.id,
+                      },
+                      "Any rotation fallback result"
+                    )
+
+                    if (anyRotation[0]?.id) {
+                      resolvedRotationId = anyRotation[0].id
+                    }
+                  }
                 }
               }
             }
-          }
-        }
 
-        if (!resolvedRotationId) {
-          logger.warn(
-            {
-              requestId,
-              studentId: user.id,
-              siteId: body.siteId,
-            },
-            "No rotation found for clock-in"
-          )
-          throw createValidationError(
-            "No active or scheduled rotation found for selected site",
-            "rotationId",
-            body.siteId
-          )
-        }
+            if (!resolvedRotationId) {
+              logger.warn(
+                {
+                  requestId,
+                  studentId: user.id,
+                  siteId: body.siteId,
+                },
+                "No rotation found for clock-in"
+              )
+              throw createValidationError(
+                "No active or scheduled rotation found for selected site",
+                "rotationId",
+                body.siteId
+              )
+            }
 
-        const clockInRequest = {
-          studentId: user.id,
-          rotationId: resolvedRotationId,
-          timestamp: body.timestamp,
-          clientTimestamp: body.clientTimestamp,
-          location: body.location,
-          notes: body.notes,
-        }
+            const clockInRequest = {
+              studentId: user.id,
+              rotationId: resolvedRotationId,
+              timestamp: body.timestamp,
+              clientTimestamp: body.clientTimestamp,
+              capturedAt: body.capturedAt,
+              location: body.location,
+              notes: body.notes,
+            }
 
-        // Execute atomic clock-in operation
-        const result = await ClockService.clockIn(clockInRequest)
+            // Execute atomic clock-in operation
+            const result = await ClockService.clockIn(clockInRequest)
 
-        logger.info(
-          {
-            requestId,
-            recordId: result.recordId,
-          },
-          "Clock-in API request completed successfully"
-        )
+            logger.info(
+              {
+                requestId,
+                recordId: result.recordId,
+              },
+              "Clock-in API request completed successfully"
+            )
 
-        // Return success response with enhanced clock status
-        return createSuccessResponse(
-          {
-            status: "clocked_in",
-            clockedIn: result.clockedIn,
-            currentSite: result.currentSite || {
-              name: "Clinical Site",
-              address: "Site Address",
-            },
-            clockInTime: result.clockInTime,
-            clockOutTime: null,
-            totalHours: "0.00",
-            recordId: result.recordId,
-            timeRecordId: result.recordId,
-            isClocked: result.isClocked,
-            currentDuration: result.currentDuration || 0,
-          },
-          "Successfully clocked in"
+            // Return success response with enhanced clock status
+            return createSuccessResponse(
+              {
+                status: "clocked_in",
+                clockedIn: result.clockedIn,
+                currentSite: result.currentSite || {
+                  name: "Clinical Site",
+                  address: "Site Address",
+                },
+                clockInTime: result.clockInTime,
+                clockOutTime: null,
+                totalHours: "0.00",
+                recordId: result.recordId,
+                timeRecordId: result.recordId,
+                isClocked: result.isClocked,
+                currentDuration: result.currentDuration || 0,
+              },
+              "Successfully clocked in"
+            )
+          }
         )
       })
     },
@@ -6,6 +6,7 @@ import { ClockError, formatErrorResponse } from "@/lib/enhanced-error-handling"
 import { logger } from "@/lib/logger"
 import { TimingPerformanceMonitor } from "@/lib/high-precision-timing"
 import { withCSRF } from "@/lib/csrf-middleware"
+import { withIdempotency } from "@/lib/idempotency"
 
 // Role validation utilities
 const hasRole = (userRole: UserRole, allowedRoles: UserRole[]): boolean => {
@@ -64,42 +65,54 @@ export const POST = withCSRF(async (request: NextRequest) => {
         // Parse request body
         const body = await request.json()
 
-        const clockOutRequest = {
-          studentId: user.id,
-          rotationId: body.rotationId, // Required by ClockOutRequest interface
-          timestamp: body.timestamp,
-          clientTimestamp: body.clientTimestamp,
-          location: body.location,
-          notes: body.notes,
-          activities: body.activities,
-        }
-
-        // Execute atomic clock-out operation
-        const result = await ClockService.clockOut(clockOutRequest)
-
-        logger.info(
-          {
-            requestId,
-            recordId: result.recordId,
-            totalHours: result.totalHours,
-          },
-          "Clock-out API request completed successfully"
-        )
-
-        // Return success response with enhanced clock status
-        return createSuccessResponse(
+        // Retries of the same punch (e.g. replays from the offline queue) return the stored response
+        return withIdempotency(
+          request,
           {
-            status: "clocked_out",
-            clockedIn: result.clockedIn,
-            clockInTime: result.clockInTime,
-            clockOutTime: result.clockOutTime,
-            totalHours: result.totalHours,
-            recordId: result.recordId,
-            timeRecordId: result.recordId,
-            isClocked: result.isClocked,
-            currentDuration: result.currentDuration || 0,
+            userId: user.id,
+            operation: "clock-out",
+            fingerprint: { rotationId: body.rotationId },
           },
-          "Successfully clocked out"
+          async () => {
+            const clockOutRequest = {
+              studentId: user.id,
+              rotationId: body.rotationId, // Required by ClockOutRequest interface
+              timestamp: body.timestamp,
+              clientTimestamp: body.clientTimestamp,
+              capturedAt: body.capturedAt,
+              location: body.location,
+              notes: body.notes,
+              activities: body.activities,
+            }
+
+            // Execute atomic clock-out operation
+            const result = await ClockService.clockOut(clockOutRequest)
+
+            logger.info(
+              {
+                requestId,
+                recordId: result.recordId,
+                totalHours: result.totalHours,
+              },
+              "Clock-out API request completed successfully"
+            )
+
+            // Return success response with enhanced clock status
+            return createSuccessResponse(
+              {
+                status: "clocked_out",
+                clockedIn: result.clockedIn,
+                clockInTime: result.clockInTime,
+                clockOutTime: result.clockOutTime,
+                totalHours: result.totalHours,
+                recordId: result.recordId,
+                timeRecordId: result.recordId,
+                isClocked: result.isClocked,
+                currentDuration: result.currentDuration || 0,
+              },
+              "Successfully clocked out"
+            )
+          }
         )
       })
     },
@@ -0,0 +1,80 @@
+import { and, eq } from "drizzle-orm"
+import type { NextRequest } from "next/server"
+import { z } from "zod"
+import { db } from "@/database/connection-pool"
+import { users } from "@/database/schema"
+import {
+  createErrorResponse,
+  createSuccessResponse,
+  ERROR_MESSAGES,
+  HTTP_STATUS,
+  withErrorHandling,
+} from "@/lib/api-response"
+import { invalidateUserCache } from "@/lib/auth-utils"
+import { withCSRF } from "@/lib/csrf-middleware"
+import { logAuditEvent } from "@/lib/rbac-middleware"
+import { getSchoolContext } from "@/lib/school-utils"
+import { applyAcademicStatusToSeat } from "@/lib/seat-lifecycle"
+
+const ADMIN_ROLES = ["SUPER_ADMIN", "SCHOOL_ADMIN"]
+
+const academicStatusSchema = z.object({
+  academicStatus: z.enum(["ACTIVE", "PROBATION", "SUSPENDED", "GRADUATED", "WITHDRAWN"]),
+})
+
+// PUT /api/students/[userId]/academic-status - Change a student's academic status;
+// graduating or withdrawing releases their school-paid seat
+export const PUT = withCSRF(
+  withErrorHandling(
+    async (request: NextRequest, { params }: { params: Promise<{ userId: string }> }) => {
+      const context = await getSchoolContext()
+      if (!ADMIN_ROLES.includes(context.userRole)) {
+        return createErrorResponse(ERROR_MESSAGES.ACCESS_DENIED, HTTP_STATUS.FORBIDDEN)
+      }
+
+      const parsed = academicStatusSchema.safeParse(await request.json())
+      if (!parsed.success) {
+        return createErrorResponse(
+          ERROR_MESSAGES.VALIDATION_ERROR,
+          HTTP_STATUS.BAD_REQUEST,
+          parsed.error.issues
+        )
+      }
+
+      const { userId: studentId } = await params
+      const [student] = await db
+        .select({ id: users.id, schoolId: users.schoolId, academicStatus: users.academicStatus })
+        .from(users)
+        .where(and(eq(users.id, studentId), eq(users.role, "STUDENT")))
+        .limit(1)
+
+      if (!student || (!context.canAccessAllSchools && student.schoolId !== context.schoolId)) {
+        return createErrorResponse(ERROR_MESSAGES.NOT_FOUND, HTTP_STATUS.NOT_FOUND)
+      }
+
+      const { academicStatus } = parsed.data
+      await db
+        .update(users)
+        .set({ academicStatus, updatedAt: new Date() })
+        .where(eq(users.id, studentId))
+
+      const seat = await applyAcademicStatusToSeat(studentId, academicStatus)
+      invalidateUserCache(studentId)
+
+      await logAuditEvent({
+        userId: context.userId,
+        action: "STUDENT_ACADEMIC_STATUS_UPDATED",
+        resource: "users",
+        resourceId: studentId,
+        details: {
+          previous: student.academicStatus,
+          academicStatus,
+          seatReleased: seat?.ok ?? false,
+        },
+        severity: "MEDIUM",
+      })
+
+      return createSuccessResponse({ academicStatus, seatReleased: seat?.ok ?? false })
+    }
+  )
+)
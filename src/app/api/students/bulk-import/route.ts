@@ -1,7 +1,7 @@
 import { type NextRequest } from "next/server"
 import { z } from "zod"
 import { db } from "@/database/connection-pool"
-import { users, programs } from "@/database/schema"
+import { users, programs, schools } from "@/database/schema"
 import { apiAuthMiddleware } from "@/lib/rbac-middleware"
 import {
   createSuccessResponse,
@@ -9,7 +9,8 @@ import {
   withErrorHandling,
   HTTP_STATUS,
 } from "@/lib/api-response"
-import { eq } from "drizzle-orm"
+import { assignSchoolSeat, reserveSeatCapacity } from "@/lib/seat-lifecycle"
+import { eq, inArray } from "drizzle-orm"
 
 const studentImportSchema = z.array(
   z.object({
@@ -19,8 +20,10 @@ const studentImportSchema = z.array(
   })
 )
 
+// POST /api/students/bulk-import - Create students in the admin's school
+// Accepts API keys with the students:write scope.
 export const POST = withErrorHandling(async (request: NextRequest) => {
-  const authResult = await apiAuthMiddleware(request)
+  const authResult = await apiAuthMiddleware(request, { requiredScopes: ["students:write"] })
   if (!authResult.success || !authResult.user || authResult.user.role !== "SCHOOL_ADMIN") {
     return createErrorResponse(
       authResult.error || "Unauthorized",
@@ -50,8 +53,31 @@ export const POST = withErrorHandling(async (request: NextRequest) => {
     )
   }
 
-  const createdCount = 0
-  const errors: string[] = []
+  const [school] = await db
+    .select({ billingModel: schools.billingModel })
+    .from(schools)
+    .where(eq(schools.id, schoolId))
+    .limit(1)
+  const schoolPays = school?.billingModel === "SCHOOL_PAYS"
+
+  // Check seats up front so an import never stops halfway through a full school
+  if (schoolPays) {
+    const emails = [...new Set(students.map((student) => student.email))]
+    const existing = await db
+      .select({ email: users.email })
+      .from(users)
+      .where(inArray(users.email, emails))
+    const newStudents = emails.length - existing.length
+
+    const capacity = await reserveSeatCapacity(schoolId, newStudents)
+    if (!capacity.ok) {
+      return createErrorResponse(
+        `This import needs ${newStudents} seats but only ${capacity.available} are available. Purchase more seats or enable automatic seat purchases.`,
+        HTTP_STATUS.CONFLICT,
+        { needed: newStudents, available: capacity.available }
+      )
+    }
+  }
 
   // Process sequentially to handle errors gracefully
   // In a real prod env, we might use a bulk insert with ON CONFLICT DO NOTHING,
@@ -69,8 +95,9 @@ export const POST = withErrorHandling(async (request: NextRequest) => {
           return { status: "skipped", email: student.email, reason: "Email already exists" }
         }
 
+        const id = crypto.randomUUID()
         await db.insert(users).values({
-          id: crypto.randomUUID(),
+          id,
           name: student.name,
           email: student.email,
           role: "STUDENT",
@@ -82,6 +109,14 @@ export const POST = withErrorHandling(async (request: NextRequest) => {
           updatedAt: new Date(),
         })
 
+        if (schoolPays) {
+          // Capacity was reserved above
+          const seat = await assignSchoolSeat(id, schoolId, { expand: false })
+          if (!seat.ok) {
+            return { status: "created", email: student.email, reason: "No seat assigned" }
+          }
+        }
+
         return { status: "created", email: student.email }
       } catch (error) {
         console.error(`Failed to import student ${student.email}:`, error)
@@ -21,6 +21,7 @@ import { TimingPerformanceMonitor } from "@/lib/high-precision-timing"
 import crypto from "crypto"
 import { ClockService } from "@/lib/clock-service"
 import { withCSRF } from "@/lib/csrf-middleware"
+import { withIdempotency } from "@/lib/idempotency"
 
 // Helper function to extract client information
 function getClientInfo(request: NextRequest) {
@@ -47,6 +48,7 @@ const clockInSchema = z.object({
   accuracy: z.number().min(0).optional(),
   locationSource: z.enum(["gps", "network", "manual"]).optional(),
   timestamp: z.string().optional(), // Allow client timestamp
+  capturedAt: z.string().datetime().optional(), // Device capture time for punches queued offline
 })
 
 const clockOutSchema = z.object({
@@ -66,6 +68,7 @@ const clockOutSchema = z.object({
   accuracy: z.number().min(0).optional(),
   locationSource: z.enum(["gps", "network", "manual"]).optional(),
   timestamp: z.string().optional(), // Allow client timestamp
+  capturedAt: z.string().datetime().optional(), // Device capture time for punches queued offline
 })
 
 const clockActionSchema = z.discriminatedUnion("action", [clockInSchema, clockOutSchema])
@@ -152,14 +155,29 @@ export const POST = withCSRF(async (request: NextRequest) => {
 
       const validatedData = validationResult.data
 
-      // Route to optimized handlers
-      if (validatedData.action === "clock-in") {
-        const result = await handleClockIn(request, validatedData)
-        return result
-      } else {
-        const result = await handleClockOut(request, validatedData)
-        return result
-      }
+      const context = await getSchoolContext()
+
+      // Route to optimized handlers; a retried Idempotency-Key gets the original response
+      return withIdempotency(
+        request,
+        {
+          userId: context.userId,
+          operation: validatedData.action,
+          fingerprint:
+            validatedData.action === "clock-in"
+              ? { rotationId: validatedData.rotationId }
+              : { timeRecordId: validatedData.timeRecordId },
+        },
+        async () => {
+          if (validatedData.action === "clock-in") {
+            const result = await handleClockIn(request, validatedData)
+            return result
+          } else {
+            const result = await handleClockOut(request, validatedData)
+            return result
+          }
+        }
+      )
     })
   })
 })
@@ -212,7 +230,8 @@ async function handleClockIn(request: NextRequest, validatedData: z.infer<typeof
   return TimingPerformanceMonitor.measure("clock-in-operation", async () => {
     const context = await getSchoolContext()
     const { ipAddress, userAgent } = getClientInfo(request)
-    const { rotationId, notes, latitude, longitude, accuracy, timestamp } = validatedData
+    const { rotationId, notes, latitude, longitude, accuracy, timestamp, capturedAt } =
+      validatedData
 
     // Fetch rotation to identify student and validate access
     const [rotation] = await db
@@ -248,6 +267,7 @@ async function handleClockIn(request: NextRequest, validatedData: z.infer<typeof
               }
             : undefined,
         clientTimestamp: timestamp,
+        capturedAt,
         ipAddress,
         userAgent,
       })
@@ -309,8 +329,16 @@ async function handleClockOut(request: NextRequest, validatedData: z.infer<typeo
   return TimingPerformanceMonitor.measure("clock-out-operation", async () => {
     const context = await getSchoolContext()
     const { ipAddress, userAgent } = getClientInfo(request)
-    const { timeRecordId, activities, notes, latitude, longitude, accuracy, timestamp } =
-      validatedData
+    const {
+      timeRecordId,
+      activities,
+      notes,
+      latitude,
+      longitude,
+      accuracy,
+      timestamp,
+      capturedAt,
+    } = validatedData
 
     // Fetch time record to identify student and rotation
     const [record] = await db
@@ -348,6 +376,7 @@ async function handleClockOut(request: NextRequest, validatedData: z.infer<typeo
               }
             : undefined,
         clientTimestamp: timestamp,
+        capturedAt,
         ipAddress,
         userAgent,
       })
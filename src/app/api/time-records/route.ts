@@ -6,8 +6,11 @@ import { z } from "zod"
 import { db } from "../../../database/connection-pool"
 import { ValidationRules } from "@/lib/clock-validation"
 import { rotations, timeRecords, users } from "../../../database/schema"
-import { logAuditEvent } from "../../../lib/rbac-middleware"
+import { getRequestSchoolContext, logAuditEvent } from "../../../lib/rbac-middleware"
+import { syncClinicalHours } from "../../../lib/clinical-hours-ledger"
+import { emitTimeRecordApproved } from "../../../lib/webhooks"
 import { getSchoolContext } from "../../../lib/school-utils"
+import { studentInSchool } from "../../../lib/school-affiliations"
 import {
   createSuccessResponse,
   createErrorResponse,
@@ -41,9 +44,14 @@ const clockInSchema = z.object({
 })
 
 // GET /api/time-records - Get time records with filtering
+// Accepts API keys with the time_records:read scope.
 export const GET = withErrorHandling(async (request: NextRequest) => {
   try {
-    const context = await getSchoolContext()
+    const auth = await getRequestSchoolContext(request, ["time_records:read"])
+    if (!auth.success) {
+      return createErrorResponse(auth.error, auth.status)
+    }
+    const { context } = auth
     const { searchParams } = new URL(request.url)
 
     const studentId = searchParams.get("studentId")
@@ -81,9 +89,10 @@ export const GET = withErrorHandling(async (request: NextRequest) => {
       conditions.push(eq(timeRecords.status, status as "PENDING" | "APPROVED" | "REJECTED"))
     }
 
-    // Add schoolId condition if we have a valid one
-    if (context.userRole === ("STUDENT" as UserRole) && context.schoolId) {
-      conditions.push(eq(users.schoolId, context.schoolId))
+    // Only this school's students are visible; super admins may pick a school
+    if (!context.canAccessAllSchools) {
+      const schoolCondition = studentInSchool(timeRecords.studentId, context.schoolId)
+      if (schoolCondition) conditions.push(schoolCondition)
     } else if (schoolIdParam) {
       conditions.push(eq(users.schoolId, schoolIdParam))
     }
@@ -460,6 +469,11 @@ export const PUT = withErrorHandling(async (request: NextRequest) => {
       .where(eq(timeRecords.id, id))
       .returning()
 
+    await syncClinicalHours(record.studentId)
+    if (record.status !== "APPROVED" && updatedRecord?.status === "APPROVED") {
+      await emitTimeRecordApproved(id)
+    }
+
     // Log audit event
     const auditAction = updateData.clockOut
       ? "CLOCK_OUT"
@@ -546,6 +560,7 @@ export const DELETE = withErrorHandling(async (request: NextRequest) => {
     }
 
     await db.delete(timeRecords).where(eq(timeRecords.id, id))
+    await syncClinicalHours(existingRecord.studentId)
 
     // Log audit event
     await logAuditEvent({
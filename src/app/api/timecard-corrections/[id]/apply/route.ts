@@ -21,14 +21,10 @@ const isSchoolAdmin = (userRole: UserRole): boolean => {
     "SUPER_ADMIN" as UserRole,
   ])
 }
-import {
-  auditLogs,
-  rotations,
-  timecardCorrections,
-  timeRecords,
-  users,
-} from "../../../../../database/schema"
+import { rotations, timecardCorrections, timeRecords, users } from "../../../../../database/schema"
+import { appendAuditLog } from "../../../../../lib/audit-chain"
 import { getCurrentUser } from "../../../../../lib/auth-clerk"
+import { syncClinicalHours } from "../../../../../lib/clinical-hours-ledger"
 import { cacheIntegrationService } from "@/lib/cache-integration"
 import type { UserRole } from "@/types"
 import {
@@ -238,8 +234,10 @@ export const POST = withCSRF(
           })
           .where(eq(timecardCorrections.id, correctionId))
 
+        await syncClinicalHours(correction.studentId)
+
         // Create detailed audit log entry
-        await db.insert(auditLogs).values({
+        await appendAuditLog({
           id: nanoid(),
           userId: user.id,
           action: "TIMECARD_CORRECTION_APPLIED",
@@ -5,6 +5,7 @@ import { z } from "zod"
 import { db } from "../../../../../database/connection-pool"
 import { rotations, timecardCorrections, timeRecords, users } from "../../../../../database/schema"
 import { logAuditEvent } from "../../../../../lib/rbac-middleware"
+import { syncClinicalHours } from "../../../../../lib/clinical-hours-ledger"
 import { cacheIntegrationService } from "@/lib/cache-integration"
 import type { UserRole } from "@/types"
 import { withCSRF } from "@/lib/csrf-middleware"
@@ -201,6 +202,7 @@ export const POST = withCSRF(
               .where(eq(timecardCorrections.id, correctionId))
 
             appliedChanges = true
+            await syncClinicalHours(correction.studentId)
           }
         } catch (error) {
           console.error("Error applying correction changes:", error)
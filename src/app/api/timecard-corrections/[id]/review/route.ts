@@ -4,6 +4,7 @@ import { z } from "zod"
 import { db } from "../../../../../database/connection-pool"
 import { rotations, timecardCorrections, timeRecords, users } from "../../../../../database/schema"
 import { apiAuthMiddleware, logAuditEvent } from "../../../../../lib/rbac-middleware"
+import { syncClinicalHours } from "../../../../../lib/clinical-hours-ledger"
 import { cacheIntegrationService } from "@/lib/cache-integration"
 import type { UserRole } from "@/types"
 
@@ -255,6 +256,10 @@ export const POST = withErrorHandling(
       return { updatedCorrection: updatedCorrection[0], appliedTimeRecord: appliedTimeRecord?.[0] }
     })
 
+    if (result.appliedTimeRecord) {
+      await syncClinicalHours(correctionData.studentId)
+    }
+
     // Log audit event
     await logAuditEvent({
       userId: user?.id,
@@ -5,6 +5,7 @@ import { z } from "zod"
 import { db } from "../../../database/connection-pool"
 import { rotations, timecardCorrections, timeRecords, users } from "../../../database/schema"
 import { apiAuthMiddleware, logAuditEvent } from "../../../lib/rbac-middleware"
+import { syncClinicalHours } from "../../../lib/clinical-hours-ledger"
 import { cacheIntegrationService } from "@/lib/cache-integration"
 import type { UserRole } from "@/types"
 import {
@@ -360,6 +361,9 @@ export const POST = withErrorHandling(async (request: NextRequest) => {
     .set({ status: "PENDING", approvedBy: null, approvedAt: null, updatedAt: new Date() })
     .where(eq(timeRecords.id, validatedData.originalTimeRecordId))
 
+  // The record's hours stop counting until the correction is resolved
+  await syncClinicalHours(record.studentId)
+
   // Audit: record marked pending due to correction
   await logAuditEvent({
     userId: user.id,
@@ -0,0 +1,61 @@
+import type { NextRequest } from "next/server"
+import { z } from "zod"
+import {
+  createErrorResponse,
+  createSuccessResponse,
+  ERROR_MESSAGES,
+  HTTP_STATUS,
+  withErrorHandling,
+} from "@/lib/api-response"
+import { withCSRF } from "@/lib/csrf-middleware"
+import {
+  ACTIVE_SCHOOL_COOKIE,
+  getPreceptorSchoolIds,
+  getSchoolNames,
+} from "@/lib/school-affiliations"
+import { getSchoolContext } from "@/lib/school-utils"
+
+export const dynamic = "force-dynamic"
+
+const switchSchema = z.object({
+  schoolId: z.string().min(1),
+})
+
+// GET /api/user/active-school - Schools the current preceptor can switch between
+export const GET = withErrorHandling(async () => {
+  const context = await getSchoolContext()
+  if (context.userRole !== "CLINICAL_PRECEPTOR") {
+    return createErrorResponse(ERROR_MESSAGES.INSUFFICIENT_PERMISSIONS, HTTP_STATUS.FORBIDDEN)
+  }
+
+  return createSuccessResponse({
+    activeSchoolId: context.schoolId,
+    schools: await getSchoolNames(context.affiliatedSchoolIds ?? []),
+  })
+})
+
+// PUT /api/user/active-school - Switch the school a preceptor is working in
+export const PUT = withCSRF(
+  withErrorHandling(async (request: NextRequest) => {
+    const context = await getSchoolContext()
+    if (context.userRole !== "CLINICAL_PRECEPTOR") {
+      return createErrorResponse(ERROR_MESSAGES.INSUFFICIENT_PERMISSIONS, HTTP_STATUS.FORBIDDEN)
+    }
+
+    const { schoolId } = switchSchema.parse(await request.json())
+    const schoolIds = await getPreceptorSchoolIds(context.userId, context.homeSchoolId ?? null)
+    if (!schoolIds.includes(schoolId)) {
+      return createErrorResponse("You are not affiliated with this school", HTTP_STATUS.FORBIDDEN)
+    }
+
+    const response = createSuccessResponse({ activeSchoolId: schoolId }, "School switched")
+    response.cookies.set(ACTIVE_SCHOOL_COOKIE, schoolId, {
+      httpOnly: true,
+      secure: process.env.NODE_ENV === "production",
+      sameSite: "lax",
+      path: "/",
+      maxAge: 60 * 60 * 24 * 180,
+    })
+    return response
+  })
+)
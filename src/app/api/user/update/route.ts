@@ -22,11 +22,12 @@ import {
   ERROR_MESSAGES,
   withErrorHandling,
 } from "../../../../lib/api-response"
+import { appendAuditLog } from "@/lib/audit-chain"
 import { cacheIntegrationService } from "@/lib/cache-integration"
 import {
   accounts,
   assessments,
-  auditLogs,
+  evaluationSignatures,
   evaluations,
   rotations,
   schools,
@@ -280,7 +281,22 @@ export const POST = withErrorHandling(async (request: NextRequest) => {
                 .update(evaluations)
                 .set({ evaluatorId: userId })
                 .where(eq(evaluations.evaluatorId, oldId))
-              await tx.update(auditLogs).set({ userId }).where(eq(auditLogs.userId, oldId))
+              await tx
+                .update(evaluationSignatures)
+                .set({ signerId: userId })
+                .where(eq(evaluationSignatures.signerId, oldId))
+              // Audit entries are immutable and keep the old id; record the link instead
+              await appendAuditLog(
+                {
+                  userId,
+                  action: "USER_ACCOUNT_RELINKED",
+                  resource: "users",
+                  resourceId: userId,
+                  details: JSON.stringify({ previousUserId: oldId }),
+                  severity: "HIGH",
+                },
+                tx
+              )
 
               // 4) Remove the old user row
               await tx.delete(users).where(eq(users.id, oldId))
@@ -0,0 +1,46 @@
+import { and, eq } from "drizzle-orm"
+import type { NextRequest } from "next/server"
+import { db } from "@/database/connection-pool"
+import { webhookDeliveries } from "@/database/schema"
+import {
+  createErrorResponse,
+  createSuccessResponse,
+  ERROR_MESSAGES,
+  HTTP_STATUS,
+  withErrorHandling,
+} from "@/lib/api-response"
+import { withCSRF } from "@/lib/csrf-middleware"
+import { getSchoolContext } from "@/lib/school-utils"
+import { replayWebhookDelivery } from "@/lib/webhooks"
+
+const ADMIN_ROLES = ["SUPER_ADMIN", "SCHOOL_ADMIN"]
+
+// POST /api/webhook-deliveries/[id]/replay - Queue the same event for the endpoint again
+export const POST = withCSRF(
+  withErrorHandling(
+    async (_request: NextRequest, { params }: { params: Promise<{ id: string }> }) => {
+      const context = await getSchoolContext()
+      if (!ADMIN_ROLES.includes(context.userRole) || !context.schoolId) {
+        return createErrorResponse(ERROR_MESSAGES.ACCESS_DENIED, HTTP_STATUS.FORBIDDEN)
+      }
+
+      const { id } = await params
+      const [delivery] = await db
+        .select()
+        .from(webhookDeliveries)
+        .where(and(eq(webhookDeliveries.id, id), eq(webhookDeliveries.schoolId, context.schoolId)))
+        .limit(1)
+
+      if (!delivery) {
+        return createErrorResponse(ERROR_MESSAGES.NOT_FOUND, HTTP_STATUS.NOT_FOUND)
+      }
+
+      const replay = await replayWebhookDelivery(delivery)
+      return createSuccessResponse(
+        { delivery: { id: replay.id, status: replay.status, replayOf: replay.replayOf } },
+        "Webhook delivery queued for replay",
+        HTTP_STATUS.CREATED
+      )
+    }
+  )
+)
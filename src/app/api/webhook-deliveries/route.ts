@@ -0,0 +1,68 @@
+import { and, desc, eq } from "drizzle-orm"
+import type { NextRequest } from "next/server"
+import { z } from "zod"
+import { db } from "@/database/connection-pool"
+import { webhookDeliveries, webhookEndpoints } from "@/database/schema"
+import {
+  createErrorResponse,
+  createSuccessResponse,
+  ERROR_MESSAGES,
+  HTTP_STATUS,
+  withErrorHandling,
+} from "@/lib/api-response"
+import { getSchoolContext } from "@/lib/school-utils"
+
+const ADMIN_ROLES = ["SUPER_ADMIN", "SCHOOL_ADMIN"]
+
+const querySchema = z.object({
+  endpointId: z.string().min(1).optional(),
+  status: z.enum(["PENDING", "SUCCEEDED", "FAILED"]).optional(),
+  limit: z.coerce.number().int().min(1).max(200).default(50),
+})
+
+// GET /api/webhook-deliveries - Delivery log for the current school's endpoints, newest first
+export const GET = withErrorHandling(async (request: NextRequest) => {
+  const context = await getSchoolContext()
+  if (!ADMIN_ROLES.includes(context.userRole) || !context.schoolId) {
+    return createErrorResponse(ERROR_MESSAGES.ACCESS_DENIED, HTTP_STATUS.FORBIDDEN)
+  }
+
+  const parsed = querySchema.safeParse(Object.fromEntries(new URL(request.url).searchParams))
+  if (!parsed.success) {
+    return createErrorResponse("Invalid query", HTTP_STATUS.BAD_REQUEST, parsed.error.issues)
+  }
+  const { endpointId, status, limit } = parsed.data
+
+  const deliveries = await db
+    .select({
+      id: webhookDeliveries.id,
+      endpointId: webhookDeliveries.endpointId,
+      endpointUrl: webhookEndpoints.url,
+      eventId: webhookDeliveries.eventId,
+      eventType: webhookDeliveries.eventType,
+      status: webhookDeliveries.status,
+      attempts: webhookDeliveries.attempts,
+      responseStatus: webhookDeliveries.responseStatus,
+      responseBody: webhookDeliveries.responseBody,
+      error: webhookDeliveries.error,
+      durationMs: webhookDeliveries.durationMs,
+      replayOf: webhookDeliveries.replayOf,
+      lastAttemptAt: webhookDeliveries.lastAttemptAt,
+      deliveredAt: webhookDeliveries.deliveredAt,
+      createdAt: webhookDeliveries.createdAt,
+      payload: webhookDeliveries.payload,
+    })
+    .from(webhookDeliveries)
+    .innerJoin(webhookEndpoints, eq(webhookDeliveries.endpointId, webhookEndpoints.id))
+    .where(
+      and(
+        eq(webhookDeliveries.schoolId, context.schoolId),
+        endpointId ? eq(webhookDeliveries.endpointId, endpointId) : undefined,
+        status ? eq(webhookDeliveries.status, status) : undefined
+      )
+    )
+    .orderBy(desc(webhookDeliveries.createdAt))
+    .limit(limit)
+
+  return createSuccessResponse({ deliveries })
+})
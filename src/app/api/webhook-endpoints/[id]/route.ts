@@ -0,0 +1,131 @@
+import { and, eq } from "drizzle-orm"
+import type { NextRequest } from "next/server"
+import { z } from "zod"
+import { db } from "@/database/connection-pool"
+import { webhookEndpoints } from "@/database/schema"
+import {
+  createErrorResponse,
+  createSuccessResponse,
+  ERROR_MESSAGES,
+  HTTP_STATUS,
+  withErrorHandling,
+} from "@/lib/api-response"
+import { withCSRF } from "@/lib/csrf-middleware"
+import { logAuditEvent } from "@/lib/rbac-middleware"
+import { getSchoolContext } from "@/lib/school-utils"
+import {
+  generateWebhookSecret,
+  toWebhookEndpointSummary,
+  validateWebhookUrl,
+  WEBHOOK_EVENT_TYPES,
+} from "@/lib/webhooks"
+
+const ADMIN_ROLES = ["SUPER_ADMIN", "SCHOOL_ADMIN"]
+
+const updateEndpointSchema = z.object({
+  url: z
+    .string()
+    .trim()
+    .max(2048)
+    .superRefine((url, ctx) => {
+      const error = validateWebhookUrl(url)
+      if (error) ctx.addIssue({ code: "custom", message: error })
+    })
+    .optional(),
+  description: z.string().trim().max(200).nullable().optional(),
+  events: z.array(z.enum(WEBHOOK_EVENT_TYPES)).min(1).optional(),
+  isActive: z.boolean().optional(),
+  // Issue a new signing secret; the old one stops working immediately
+  rotateSecret: z.boolean().optional(),
+})
+
+type RouteParams = { params: Promise<{ id: string }> }
+
+async function findSchoolEndpoint(id: string) {
+  const context = await getSchoolContext()
+  if (!ADMIN_ROLES.includes(context.userRole) || !context.schoolId) return { context: null }
+
+  const [endpoint] = await db
+    .select()
+    .from(webhookEndpoints)
+    .where(and(eq(webhookEndpoints.id, id), eq(webhookEndpoints.schoolId, context.schoolId)))
+    .limit(1)
+  return { context, endpoint }
+}
+
+// PATCH /api/webhook-endpoints/[id] - Change URL, events or status, or rotate the secret
+export const PATCH = withCSRF(
+  withErrorHandling(async (request: NextRequest, { params }: RouteParams) => {
+    const { id } = await params
+    const { context, endpoint } = await findSchoolEndpoint(id)
+    if (!context) {
+      return createErrorResponse(ERROR_MESSAGES.ACCESS_DENIED, HTTP_STATUS.FORBIDDEN)
+    }
+    if (!endpoint) {
+      return createErrorResponse(ERROR_MESSAGES.NOT_FOUND, HTTP_STATUS.NOT_FOUND)
+    }
+
+    const parsed = updateEndpointSchema.safeParse(await request.json())
+    if (!parsed.success) {
+      return createErrorResponse(
+        "Invalid request body",
+        HTTP_STATUS.BAD_REQUEST,
+        parsed.error.issues
+      )
+    }
+
+    const { rotateSecret, events, ...changes } = parsed.data
+    const secret = rotateSecret ? generateWebhookSecret() : undefined
+    const [updated] = await db
+      .update(webhookEndpoints)
+      .set({
+        ...changes,
+        ...(events ? { events: [...new Set(events)] } : {}),
+        ...(secret ? { secret } : {}),
+        updatedAt: new Date(),
+      })
+      .where(eq(webhookEndpoints.id, id))
+      .returning()
+
+    await logAuditEvent({
+      userId: context.userId,
+      action: "WEBHOOK_ENDPOINT_UPDATED",
+      resource: "WEBHOOK_ENDPOINT",
+      resourceId: id,
+      details: { ...changes, events, rotatedSecret: Boolean(secret) },
+      severity: secret ? "MEDIUM" : "LOW",
+    })
+
+    return createSuccessResponse(
+      { endpoint: toWebhookEndpointSummary(updated), ...(secret ? { secret } : {}) },
+      secret ? "Signing secret rotated. Copy it now." : "Webhook endpoint updated"
+    )
+  })
+)
+
+// DELETE /api/webhook-endpoints/[id] - Remove an endpoint and its delivery log
+export const DELETE = withCSRF(
+  withErrorHandling(async (_request: NextRequest, { params }: RouteParams) => {
+    const { id } = await params
+    const { context, endpoint } = await findSchoolEndpoint(id)
+    if (!context) {
+      return createErrorResponse(ERROR_MESSAGES.ACCESS_DENIED, HTTP_STATUS.FORBIDDEN)
+    }
+    if (!endpoint) {
+      return createErrorResponse(ERROR_MESSAGES.NOT_FOUND, HTTP_STATUS.NOT_FOUND)
+    }
+
+    await db.delete(webhookEndpoints).where(eq(webhookEndpoints.id, id))
+
+    await logAuditEvent({
+      userId: context.userId,
+      action: "WEBHOOK_ENDPOINT_DELETED",
+      resource: "WEBHOOK_ENDPOINT",
+      resourceId: id,
+      details: { url: endpoint.url },
+      severity: "MEDIUM",
+    })
+
+    return createSuccessResponse({ id }, "Webhook endpoint deleted")
+  })
+)
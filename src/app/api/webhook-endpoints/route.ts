@@ -0,0 +1,105 @@
+import { desc, eq } from "drizzle-orm"
+import type { NextRequest } from "next/server"
+import { z } from "zod"
+import { db } from "@/database/connection-pool"
+import { webhookEndpoints } from "@/database/schema"
+import {
+  createErrorResponse,
+  createSuccessResponse,
+  ERROR_MESSAGES,
+  HTTP_STATUS,
+  withErrorHandling,
+} from "@/lib/api-response"
+import { withCSRF } from "@/lib/csrf-middleware"
+import { logAuditEvent } from "@/lib/rbac-middleware"
+import { getSchoolContext } from "@/lib/school-utils"
+import {
+  generateWebhookSecret,
+  toWebhookEndpointSummary,
+  validateWebhookUrl,
+  WEBHOOK_EVENT_TYPES,
+} from "@/lib/webhooks"
+
+const ADMIN_ROLES = ["SUPER_ADMIN", "SCHOOL_ADMIN"]
+
+const createEndpointSchema = z.object({
+  url: z
+    .string()
+    .trim()
+    .max(2048)
+    .superRefine((url, ctx) => {
+      const error = validateWebhookUrl(url)
+      if (error) ctx.addIssue({ code: "custom", message: error })
+    }),
+  description: z.string().trim().max(200).optional(),
+  events: z.array(z.enum(WEBHOOK_EVENT_TYPES)).min(1),
+})
+
+async function getAdminSchool() {
+  const context = await getSchoolContext()
+  if (!ADMIN_ROLES.includes(context.userRole) || !context.schoolId) return null
+  return context
+}
+
+// GET /api/webhook-endpoints - Webhook endpoints registered for the current school
+export const GET = withErrorHandling(async () => {
+  const context = await getAdminSchool()
+  if (!context?.schoolId) {
+    return createErrorResponse(ERROR_MESSAGES.ACCESS_DENIED, HTTP_STATUS.FORBIDDEN)
+  }
+
+  const endpoints = await db
+    .select()
+    .from(webhookEndpoints)
+    .where(eq(webhookEndpoints.schoolId, context.schoolId))
+    .orderBy(desc(webhookEndpoints.createdAt))
+
+  return createSuccessResponse({ endpoints: endpoints.map(toWebhookEndpointSummary) })
+})
+
+// POST /api/webhook-endpoints - Register an endpoint; the signing secret is only returned here
+export const POST = withCSRF(
+  withErrorHandling(async (request: NextRequest) => {
+    const context = await getAdminSchool()
+    if (!context?.schoolId) {
+      return createErrorResponse(ERROR_MESSAGES.ACCESS_DENIED, HTTP_STATUS.FORBIDDEN)
+    }
+
+    const parsed = createEndpointSchema.safeParse(await request.json())
+    if (!parsed.success) {
+      return createErrorResponse(
+        "Invalid request body",
+        HTTP_STATUS.BAD_REQUEST,
+        parsed.error.issues
+      )
+    }
+
+    const secret = generateWebhookSecret()
+    const [endpoint] = await db
+      .insert(webhookEndpoints)
+      .values({
+        schoolId: context.schoolId,
+        url: parsed.data.url,
+        description: parsed.data.description || null,
+        events: [...new Set(parsed.data.events)],
+        secret,
+        createdBy: context.userId,
+      })
+      .returning()
+
+    await logAuditEvent({
+      userId: context.userId,
+      action: "WEBHOOK_ENDPOINT_CREATED",
+      resource: "WEBHOOK_ENDPOINT",
+      resourceId: endpoint.id,
+      details: { url: endpoint.url, events: endpoint.events, schoolId: context.schoolId },
+      severity: "MEDIUM",
+    })
+
+    return createSuccessResponse(
+      { endpoint: toWebhookEndpointSummary(endpoint), secret },
+      "Webhook endpoint created. Copy the signing secret now; it will not be shown again.",
+      HTTP_STATUS.CREATED
+    )
+  })
+)
@@ -1,28 +1,10 @@
-import { eq } from "drizzle-orm"
 import { headers } from "next/headers"
-import type { NextRequest } from "next/server"
+import { after, type NextRequest } from "next/server"
 import { Webhook } from "svix"
-import { db } from "../../../../database/connection-pool"
-import { users } from "../../../../database/schema"
-import { cacheIntegrationService } from "@/lib/cache-integration"
+import type { ClerkWebhookEvent } from "@/lib/clerk-events"
+import { recordInboundWebhookEvent } from "@/lib/inbound-webhooks"
 import { logger } from "@/lib/logger"
-
-import type { UserRole } from "@/types"
-type ClerkWebhookEvent = {
-  type: string
-  data: {
-    id: string
-    email_addresses: Array<{
-      email_address: string
-      id: string
-    }>
-    first_name?: string
-    last_name?: string
-    image_url?: string
-    created_at: number
-    updated_at: number
-  }
-}
+import { processNextJob } from "@/workers/job-runner"
 
 export async function POST(req: NextRequest) {
   // Get the headers
@@ -40,7 +22,6 @@ export async function POST(req: NextRequest) {
 
   // Get the body
   const payload = await req.text()
-  const _body = JSON.parse(payload)
 
   // Validate webhook secret is configured
   const webhookSecret = process.env.CLERK_WEBHOOK_SECRET
@@ -68,89 +49,24 @@ export async function POST(req: NextRequest) {
     })
   }
 
-  // Handle the webhook
-  const { type, data } = evt
-  const userId = data.id
-  const email = data.email_addresses[0]?.email_address
-  const firstName = data.first_name || ""
-  const lastName = data.last_name || ""
-  const name = `${firstName} ${lastName}`.trim() || email?.split("@")[0] || "User"
-  const imageUrl = data.image_url
-
+  // svix-id stays the same across redeliveries of one event
+  let recorded
   try {
-    if (!email) {
-      logger.error({}, "No email address found in webhook data")
-      return new Response("Invalid webhook data - missing email", { status: 400 })
-    }
-
-    switch (type) {
-      case "user.created":
-        // Create user in database when they sign up
-        await db.insert(users).values({
-          id: userId,
-          email: email,
-          name: name,
-          image: imageUrl,
-          emailVerified: true,
-          role: "STUDENT" as UserRole, // Default role
-          isActive: true,
-          onboardingCompleted: false,
-          createdAt: new Date(data.created_at),
-          updatedAt: new Date(data.updated_at),
-        })
-        // User created successfully
-        break
-
-      case "user.updated":
-        // Update user in database when they update their profile
-        await db
-          .update(users)
-          .set({
-            email: email,
-            name: name,
-            image: imageUrl,
-            updatedAt: new Date(data.updated_at),
-          })
-          .where(eq(users.id, userId))
-        // User updated successfully
-        break
-
-      case "user.deleted":
-        // Soft delete user (set inactive) when they delete their account
-        await db
-          .update(users)
-          .set({
-            isActive: false,
-            updatedAt: new Date(),
-          })
-          .where(eq(users.id, userId))
-
-        // Revoke all Clerk sessions for this user to prevent access after deletion
-        try {
-          const clerkSecretKey = process.env.CLERK_SECRET_KEY
-          if (clerkSecretKey) {
-            await fetch(`https://api.clerk.com/v1/users/${userId}/sessions`, {
-              method: "DELETE",
-              headers: {
-                Authorization: `Bearer ${clerkSecretKey}`,
-                "Content-Type": "application/json",
-              },
-            })
-            logger.info({ userId }, "Revoked sessions for deleted user")
-          }
-        } catch (sessionError) {
-          logger.error({ userId, sessionError }, "Failed to revoke sessions for user")
-          // Continue - user is already soft-deleted, session revocation is best-effort
-        }
-        break
-
-      default:
-      // Unhandled webhook type
-    }
+    recorded = await recordInboundWebhookEvent({
+      source: "CLERK",
+      eventId: svix_id,
+      eventType: evt.type,
+      payload: evt,
+    })
   } catch (error) {
-    logger.error({ type, error }, "Error handling webhook")
+    logger.error({ type: evt.type, error }, "Error recording webhook")
     return new Response("Error processing webhook", { status: 500 })
   }
 
-  return new Response("Webhook processed successfully", { status: 200 })
+  if (!recorded.duplicate) {
+    // Handle it right after responding; the jobs cron picks it up otherwise
+    after(() => processNextJob(["INBOUND_WEBHOOK"]))
+  }
+
+  return new Response("Webhook received", { status: 200 })
 }
@@ -1,14 +1,9 @@
 import { headers } from "next/headers"
-import { NextResponse } from "next/server"
+import { after, NextResponse } from "next/server"
 import { stripe } from "@/lib/payments/stripe"
 import { logger } from "@/lib/logger"
-import {
-  handleCheckoutCompleted,
-  handleInvoicePaid,
-  handlePaymentFailed,
-  handleSubscriptionUpdated,
-  handleSubscriptionDeleted,
-} from "@/lib/payments/actions"
+import { recordInboundWebhookEvent } from "@/lib/inbound-webhooks"
+import { processNextJob } from "@/workers/job-runner"
 
 export async function POST(req: Request) {
   const body = await req.text()
@@ -33,30 +28,25 @@ export async function POST(req: Request) {
     return NextResponse.json({ error: "Invalid signature" }, { status: 400 })
   }
 
+  let recorded
   try {
-    switch (event.type) {
-      case "checkout.session.completed":
-        await handleCheckoutCompleted(event.data.object as any)
-        break
-      case "invoice.paid":
-        await handleInvoicePaid(event.data.object as any)
-        break
-      case "invoice.payment_failed":
-        await handlePaymentFailed(event.data.object as any)
-        break
-      case "customer.subscription.updated":
-        await handleSubscriptionUpdated(event.data.object as any)
-        break
-      case "customer.subscription.deleted":
-        await handleSubscriptionDeleted(event.data.object as any)
-        break
-      default:
-        logger.warn(`Unhandled event type: ${event.type}`)
-    }
+    recorded = await recordInboundWebhookEvent({
+      source: "STRIPE",
+      eventId: event.id,
+      eventType: event.type,
+      payload: event,
+    })
   } catch (error) {
-    logger.error({ error }, "Error processing webhook")
+    logger.error({ error, eventId: event.id }, "Error recording webhook")
     return NextResponse.json({ error: "Webhook processing failed" }, { status: 500 })
   }
 
+  if (recorded.duplicate) {
+    return NextResponse.json({ received: true, duplicate: true })
+  }
+
+  // Handle it right after responding; the jobs cron picks it up otherwise
+  after(() => processNextJob(["INBOUND_WEBHOOK"]))
+
   return NextResponse.json({ received: true })
 }
@@ -24,10 +24,11 @@ import {
   TableHeader,
   TableRow,
 } from "../../../../components/ui/table"
+import { AuditIntegrityCard } from "../../../../components/admin/audit-integrity-card"
 import { requireAnyRole } from "../../../../lib/auth-clerk"
 import { db } from "../../../../database/connection-pool"
-import { auditLogs, users } from "../../../../database/schema"
-import { desc, eq } from "drizzle-orm"
+import { auditLogs, schools, users } from "../../../../database/schema"
+import { asc, desc, eq } from "drizzle-orm"
 
 interface AuditLog {
   id: string
@@ -96,6 +97,10 @@ export default async function AuditLogsPage() {
 
   // Fetch real audit log data
   const { logs: auditLogs } = await getAuditLogs()
+  const schoolOptions = await db
+    .select({ id: schools.id, name: schools.name })
+    .from(schools)
+    .orderBy(asc(schools.name))
 
   const securityEvents = [
     {
@@ -169,6 +174,8 @@ export default async function AuditLogsPage() {
         </div>
       </div>
 
+      <AuditIntegrityCard schools={schoolOptions} />
+
       {/* Stats Cards */}
       <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-4">
         <Card>
@@ -17,6 +17,7 @@ import {
 } from "lucide-react"
 import { useCallback, useEffect, useState } from "react"
 import { toast } from "sonner"
+import { GeofenceBoundaryEditor } from "@/components/location/geofence-boundary-editor"
 import { Badge } from "@/components/ui/badge"
 import { Button } from "@/components/ui/button"
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
@@ -53,6 +54,7 @@ import {
   SelectTrigger,
   SelectValue,
 } from "@/components/ui/select"
+import type { GeofenceBoundary } from "@/lib/geo-utils"
 
 interface ManagedFacility {
   id: string
@@ -65,6 +67,8 @@ interface ManagedFacility {
   priority: number
   isCustom: boolean
   isActive: boolean
+  geofenceRadius: number
+  boundary: GeofenceBoundary | null
   createdAt: string
   updatedAt: string
   clinicalSiteId?: string
@@ -80,6 +84,8 @@ interface FacilityFormData {
   priority: number
   isCustom: boolean
   clinicalSiteId?: string
+  geofenceRadius: number
+  boundary: GeofenceBoundary | null
 }
 
 const FACILITY_TYPES = [
@@ -108,6 +114,8 @@ export default function FacilityManagementPage() {
     priority: 1,
     isCustom: true,
     clinicalSiteId: undefined,
+    geofenceRadius: 100,
+    boundary: null,
   })
   const [clinicalSitesOptions, setClinicalSitesOptions] = useState<{ id: string; name: string }[]>(
     []
@@ -171,7 +179,11 @@ export default function FacilityManagementPage() {
         headers: {
           "Content-Type": "application/json",
         },
-        body: JSON.stringify(formData),
+        body: JSON.stringify({
+          ...formData,
+          latitude: Number.parseFloat(formData.latitude),
+          longitude: Number.parseFloat(formData.longitude),
+        }),
       })
 
       if (response.ok) {
@@ -204,6 +216,8 @@ export default function FacilityManagementPage() {
       priority: facility.priority,
       isCustom: facility.isCustom,
       clinicalSiteId: facility.clinicalSiteId,
+      geofenceRadius: facility.geofenceRadius,
+      boundary: facility.boundary,
     })
     setIsDialogOpen(true)
   }
@@ -242,6 +256,8 @@ export default function FacilityManagementPage() {
       priority: 1,
       isCustom: true,
       clinicalSiteId: undefined,
+      geofenceRadius: 100,
+      boundary: null,
     })
   }
 
@@ -284,7 +300,7 @@ export default function FacilityManagementPage() {
               Add Facility
             </Button>
           </DialogTrigger>
-          <DialogContent className="sm:max-w-[600px]">
+          <DialogContent className="max-h-[90vh] overflow-y-auto sm:max-w-[600px]">
             <DialogHeader>
               <DialogTitle>{editingFacility ? "Edit Facility" : "Add New Facility"}</DialogTitle>
               <DialogDescription>
@@ -413,6 +429,18 @@ export default function FacilityManagementPage() {
                 </div>
               </div>
 
+              {Number.isFinite(Number.parseFloat(formData.latitude)) &&
+                Number.isFinite(Number.parseFloat(formData.longitude)) && (
+                  <GeofenceBoundaryEditor
+                    latitude={Number.parseFloat(formData.latitude)}
+                    longitude={Number.parseFloat(formData.longitude)}
+                    radius={formData.geofenceRadius}
+                    value={formData.boundary}
+                    onChange={(boundary) => setFormData((prev) => ({ ...prev, boundary }))}
+                    fileName={formData.facilityName || "facility"}
+                  />
+                )}
+
               <div className="space-y-2">
                 <Label htmlFor="priority">Priority (1-10)</Label>
                 <Input
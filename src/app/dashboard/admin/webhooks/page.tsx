@@ -0,0 +1,17 @@
+import { InboundWebhookEvents } from "@/components/admin/inbound-webhook-events"
+import { PageHeader } from "@/components/layout/page-header"
+import { requireAnyRole } from "@/lib/auth-clerk"
+
+export default async function AdminWebhooksPage() {
+  await requireAnyRole(["SUPER_ADMIN"], "/dashboard")
+
+  return (
+    <div className="space-y-6">
+      <PageHeader
+        title="Webhooks"
+        description="Inspect incoming Stripe and Clerk events and replay failed ones."
+      />
+      <InboundWebhookEvents />
+    </div>
+  )
+}
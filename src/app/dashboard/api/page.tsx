@@ -1,8 +1,12 @@
 "use client"
 
-import { Copy, Plus, Trash2 } from "lucide-react"
-import { useId } from "react"
+import { Copy, KeyRound, Plus, Trash2 } from "lucide-react"
+import { useCallback, useEffect, useId, useState } from "react"
+import { toast } from "sonner"
+import { API_KEY_SCOPE_LABELS, API_KEY_SCOPES, type ApiKeyScope } from "@/lib/api-key-scopes"
+import { safeFetchApi } from "@/lib/safe-fetch"
 import { PageHeader } from "../../../components/layout/page-header"
+import { Badge } from "../../../components/ui/badge"
 import { Button } from "../../../components/ui/button"
 import {
   Card,
@@ -11,11 +15,116 @@ import {
   CardHeader,
   CardTitle,
 } from "../../../components/ui/card"
+import { Checkbox } from "../../../components/ui/checkbox"
 import { Input } from "../../../components/ui/input"
 import { Label } from "../../../components/ui/label"
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "../../../components/ui/select"
+
+interface ApiKeySummary {
+  id: string
+  name: string
+  prefix: string
+  scopes: string[]
+  status: "active" | "expired" | "revoked"
+  createdAt: string
+  expiresAt: string | null
+  lastUsedAt: string | null
+  lastUsedIp: string | null
+}
+
+const EXPIRY_OPTIONS = [
+  { value: "30", label: "30 days" },
+  { value: "90", label: "90 days" },
+  { value: "365", label: "1 year" },
+  { value: "never", label: "Never" },
+]
+
+const STATUS_VARIANTS = {
+  active: "default",
+  expired: "secondary",
+  revoked: "destructive",
+} as const
+
+function formatDate(value: string | null) {
+  return value ? new Date(value).toLocaleString() : "Never"
+}
 
 export default function APIKeysSettingsPage() {
-  const apiKeyId = useId()
+  const nameId = useId()
+  const secretId = useId()
+  const [keys, setKeys] = useState<ApiKeySummary[]>([])
+  const [loading, setLoading] = useState(true)
+  const [name, setName] = useState("")
+  const [scopes, setScopes] = useState<ApiKeyScope[]>(["clinical_hours:read"])
+  const [expiry, setExpiry] = useState("365")
+  const [creating, setCreating] = useState(false)
+  const [newSecret, setNewSecret] = useState<string | null>(null)
+
+  const loadKeys = useCallback(async () => {
+    const result = await safeFetchApi<{ apiKeys: ApiKeySummary[] }>("/api/api-keys")
+    if (result.success && result.data) {
+      setKeys(result.data.apiKeys)
+    } else {
+      toast.error(result.error || "Failed to load API keys")
+    }
+    setLoading(false)
+  }, [])
+
+  useEffect(() => {
+    loadKeys()
+  }, [loadKeys])
+
+  const toggleScope = (scope: ApiKeyScope, checked: boolean) => {
+    setScopes((prev) => (checked ? [...prev, scope] : prev.filter((s) => s !== scope)))
+  }
+
+  const createKey = async () => {
+    setCreating(true)
+    const result = await safeFetchApi<{ apiKey: ApiKeySummary; secret: string }>("/api/api-keys", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({
+        name,
+        scopes,
+        expiresInDays: expiry === "never" ? null : Number(expiry),
+      }),
+    })
+    setCreating(false)
+
+    if (!result.success || !result.data) {
+      toast.error(result.error || "Failed to create API key")
+      return
+    }
+    setNewSecret(result.data.secret)
+    setName("")
+    await loadKeys()
+  }
+
+  const revokeKey = async (key: ApiKeySummary) => {
+    if (!confirm(`Revoke "${key.name}"? Integrations using it will stop working immediately.`)) {
+      return
+    }
+    const result = await safeFetchApi(`/api/api-keys/${key.id}`, { method: "DELETE" })
+    if (!result.success) {
+      toast.error(result.error || "Failed to revoke API key")
+      return
+    }
+    toast.success("API key revoked")
+    await loadKeys()
+  }
+
+  const copySecret = async () => {
+    if (!newSecret) return
+    await navigator.clipboard.writeText(newSecret)
+    toast.success("API key copied")
+  }
+
   return (
     <div className="space-y-6">
       <PageHeader
@@ -23,43 +132,147 @@ export default function APIKeysSettingsPage() {
         description="Manage your API keys for accessing the MedStint API."
       />
 
+      {newSecret && (
+        <Card className="max-w-2xl border-primary">
+          <CardHeader>
+            <CardTitle>New API Key</CardTitle>
+            <CardDescription>
+              Copy this key now. It is stored hashed and will not be shown again.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-2">
+            <Label htmlFor={secretId}>Secret</Label>
+            <div className="flex items-center space-x-2">
+              <Input id={secretId} value={newSecret} readOnly className="font-mono" />
+              <Button type="button" variant="outline" size="icon" onClick={copySecret}>
+                <Copy className="h-4 w-4" />
+              </Button>
+            </div>
+            <p className="text-muted-foreground text-sm">
+              Send it as <code>Authorization: Bearer &lt;key&gt;</code> or in the{" "}
+              <code>X-API-Key</code> header.
+            </p>
+            <Button type="button" variant="ghost" size="sm" onClick={() => setNewSecret(null)}>
+              Done
+            </Button>
+          </CardContent>
+        </Card>
+      )}
+
       <Card className="max-w-2xl">
         <CardHeader>
-          <CardTitle>API Access</CardTitle>
+          <CardTitle>Generate API Key</CardTitle>
           <CardDescription>
-            Generate keys to access the MedStint API programmatically.
+            Keys belong to your school and act with your role, limited to the scopes you grant.
           </CardDescription>
         </CardHeader>
         <CardContent className="space-y-4">
-          <div className="flex items-center justify-between">
-            <div>
-              <Label htmlFor={apiKeyId}>Your API Key</Label>
-              <div className="mt-1 flex items-center space-x-2">
-                <Input
-                  id={apiKeyId}
-                  type="password"
-                  value="sk-1234567890abcdef"
-                  readOnly
-                  className="font-mono"
-                />
-                <Button type="button" variant="outline" size="icon">
-                  <Copy className="h-4 w-4" />
-                </Button>
-                <Button type="button" variant="outline" size="icon" className="text-destructive">
-                  <Trash2 className="h-4 w-4" />
-                </Button>
-              </div>
+          <div className="space-y-2">
+            <Label htmlFor={nameId}>Name</Label>
+            <Input
+              id={nameId}
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder="Registrar nightly hours export"
+              maxLength={100}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label>Scopes</Label>
+            <div className="grid gap-2 sm:grid-cols-2">
+              {API_KEY_SCOPES.map((scope) => (
+                <div key={scope} className="flex items-center space-x-2 text-sm">
+                  <Checkbox
+                    id={`${nameId}-${scope}`}
+                    checked={scopes.includes(scope)}
+                    onCheckedChange={(checked) => toggleScope(scope, checked === true)}
+                  />
+                  <Label htmlFor={`${nameId}-${scope}`} className="font-normal">
+                    {API_KEY_SCOPE_LABELS[scope]}
+                  </Label>
+                </div>
+              ))}
             </div>
           </div>
 
-          <Button type="button" className="w-full">
+          <div className="space-y-2">
+            <Label>Expires</Label>
+            <Select value={expiry} onValueChange={setExpiry}>
+              <SelectTrigger className="w-[180px]">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {EXPIRY_OPTIONS.map((option) => (
+                  <SelectItem key={option.value} value={option.value}>
+                    {option.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <Button
+            type="button"
+            className="w-full"
+            onClick={createKey}
+            disabled={creating || !name.trim() || scopes.length === 0}
+          >
             <Plus className="mr-2 h-4 w-4" />
-            Generate New API Key
+            {creating ? "Generating..." : "Generate New API Key"}
           </Button>
+        </CardContent>
+      </Card>
 
-          <p className="text-muted-foreground">
-            Manage your API keys and access tokens for external integrations with MedStint.
-          </p>
+      <Card className="max-w-2xl">
+        <CardHeader>
+          <CardTitle>API Access</CardTitle>
+          <CardDescription>Keys issued for your school.</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-3">
+          {loading ? (
+            <p className="text-muted-foreground text-sm">Loading...</p>
+          ) : keys.length === 0 ? (
+            <p className="text-muted-foreground text-sm">No API keys yet.</p>
+          ) : (
+            keys.map((key) => (
+              <div key={key.id} className="flex items-start justify-between rounded-md border p-3">
+                <div className="space-y-1">
+                  <div className="flex items-center gap-2">
+                    <KeyRound className="h-4 w-4 text-muted-foreground" />
+                    <span className="font-medium">{key.name}</span>
+                    <Badge variant={STATUS_VARIANTS[key.status]}>{key.status}</Badge>
+                  </div>
+                  <p className="font-mono text-muted-foreground text-xs">{key.prefix}…</p>
+                  <div className="flex flex-wrap gap-1">
+                    {key.scopes.map((scope) => (
+                      <Badge key={scope} variant="outline" className="text-xs">
+                        {scope}
+                      </Badge>
+                    ))}
+                  </div>
+                  <p className="text-muted-foreground text-xs">
+                    Created {formatDate(key.createdAt)} · Expires{" "}
+                    {key.expiresAt ? formatDate(key.expiresAt) : "never"} · Last used{" "}
+                    {formatDate(key.lastUsedAt)}
+                    {key.lastUsedIp ? ` from ${key.lastUsedIp}` : ""}
+                  </p>
+                </div>
+                {key.status === "active" && (
+                  <Button
+                    type="button"
+                    variant="outline"
+                    size="icon"
+                    className="text-destructive"
+                    onClick={() => revokeKey(key)}
+                    aria-label={`Revoke ${key.name}`}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                )}
+              </div>
+            ))
+          )}
         </CardContent>
       </Card>
     </div>
@@ -12,6 +12,8 @@ import {
 } from "../../../components/ui/card"
 import { Label } from "../../../components/ui/label"
 import { RadioGroup, RadioGroupItem } from "../../../components/ui/radio-group"
+import { ChangePreviewSummary } from "../../../components/shared/change-preview-summary"
+import { useChangePreview } from "../../../hooks/use-change-preview"
 import type { Plan } from "../../../lib/payments/plans-service"
 import SubscriptionButton from "./subscription-button"
 
@@ -44,6 +46,12 @@ export default function PlanSelector({ activeSub, plans }: PlanSelectorProps) {
 
   const currentPlan = plans.find((plan) => plan.id.toString() === selectedPlan)
   const buttonText = activeSub ? "Switch to this plan" : "Subscribe"
+  const isCurrentPlan = activeSub?.plan === currentPlan?.name
+  const { preview, loading, error } = useChangePreview(
+    currentPlan && !isCurrentPlan
+      ? { type: "plan_switch", priceId: currentPlan.stripePriceId }
+      : null
+  )
 
   return (
     <Card className="mx-auto max-w-3xl">
@@ -70,7 +78,7 @@ export default function PlanSelector({ activeSub, plans }: PlanSelectorProps) {
                   {plan.name}
                 </Label>
                 <p id={`${id}-${plan.id}-description`} className="text-muted-foreground text-sm">
-                  ${plan.price} per month
+                  ${plan.price} per {plan.interval}
                 </p>
                 {plan.trialDays > 0 && (
                   <span className="text-xs">{plan.trialDays}-day free trial</span>
@@ -105,8 +113,13 @@ export default function PlanSelector({ activeSub, plans }: PlanSelectorProps) {
       </CardContent>
 
       <CardFooter className="flex items-center justify-end gap-4">
-        <div className="flex flex-col items-end gap-2">
-          {activeSub?.plan === currentPlan?.name ? (
+        <div className="flex w-full flex-col items-end gap-2">
+          {!isCurrentPlan && (
+            <div className="w-full">
+              <ChangePreviewSummary preview={preview} loading={loading} error={error} />
+            </div>
+          )}
+          {isCurrentPlan ? (
             activeSub?.cancelAtPeriodEnd ? (
               <p className="text-right text-destructive text-xs">
                 Your subscription will be cancelled on: {activeSub?.periodEnd?.toLocaleDateString()}
@@ -132,6 +145,8 @@ export default function PlanSelector({ activeSub, plans }: PlanSelectorProps) {
                   : undefined
               }
               subId={activeSub?.stripeSubscriptionId || ""}
+              prorationDate={preview?.prorationDate}
+              disabled={loading}
             />
           ) : null}
         </div>
@@ -17,6 +17,9 @@ interface SubscriptionButtonProps {
     [key: string]: unknown
   }
   subId?: string
+  // From the preview the user saw, so the charge matches it
+  prorationDate?: number
+  disabled?: boolean
 }
 
 export default function SubscriptionButton({
@@ -24,6 +27,8 @@ export default function SubscriptionButton({
   plan,
   activeSub,
   subId,
+  prorationDate,
+  disabled,
 }: SubscriptionButtonProps) {
   const router = useRouter()
   const [isPending, setIsPending] = useState(false)
@@ -36,7 +41,7 @@ export default function SubscriptionButton({
         // Update existing subscription
         const loadingToast = toast.loading("Updating subscription...")
 
-        const result = await updateExistingSubscription(subId, plan.stripePriceId)
+        const result = await updateExistingSubscription(subId, plan.stripePriceId, prorationDate)
         // Subscription updated successfully
 
         toast.dismiss(loadingToast)
@@ -72,7 +77,7 @@ export default function SubscriptionButton({
   }
 
   return (
-    <Button type="button" onClick={handleSubscription} disabled={isPending}>
+    <Button type="button" onClick={handleSubscription} disabled={isPending || disabled}>
       {isPending ? "Processing..." : buttonText}
     </Button>
   )
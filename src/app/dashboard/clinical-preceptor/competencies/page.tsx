@@ -2,6 +2,7 @@ import { Suspense } from "react"
 import { redirect } from "next/navigation"
 import { PageContainer } from "@/components/ui/page-container"
 import { requireAnyRole } from "@/lib/auth-clerk"
+import { getPreceptorSchoolScope, studentInSchool } from "@/lib/school-affiliations"
 import { db } from "@/database/connection-pool"
 import {
   competencies,
@@ -21,10 +22,12 @@ export default async function ClinicalPreceptorCompetenciesPage() {
     redirect("/auth/sign-in")
   }
 
+  const { activeSchoolId } = await getPreceptorSchoolScope(user)
+
   return (
     <PageContainer>
       <Suspense fallback={<CompetenciesLoadingSkeleton />}>
-        <CompetenciesDataLoader userId={user.id} />
+        <CompetenciesDataLoader userId={user.id} activeSchoolId={activeSchoolId} />
       </Suspense>
     </PageContainer>
   )
@@ -44,7 +47,13 @@ function CompetenciesLoadingSkeleton() {
   )
 }
 
-async function CompetenciesDataLoader({ userId }: { userId: string }) {
+async function CompetenciesDataLoader({
+  userId,
+  activeSchoolId,
+}: {
+  userId: string
+  activeSchoolId: string | null
+}) {
   // Fetch students assigned to this preceptor via rotations
   const assignedStudentsData = await db
     .select({
@@ -59,7 +68,9 @@ async function CompetenciesDataLoader({ userId }: { userId: string }) {
     .from(rotations)
     .innerJoin(users, eq(rotations.studentId, users.id))
     .leftJoin(students, eq(students.userId, users.id))
-    .where(eq(rotations.preceptorId, userId))
+    .where(
+      and(eq(rotations.preceptorId, userId), studentInSchool(rotations.studentId, activeSchoolId))
+    )
 
   // Get unique students with their program IDs
   const studentMap = new Map<
@@ -1,4 +1,4 @@
-import { eq } from "drizzle-orm"
+import { and, eq } from "drizzle-orm"
 import {
   AlertCircle,
   CheckCircle,
@@ -47,12 +47,15 @@ import {
   TableRow,
 } from "../../../../components/ui/table"
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "../../../../components/ui/tabs"
+import { EvaluationSignatureDialog } from "@/components/evaluations/evaluation-signature-dialog"
 import { db } from "@/database/connection-pool"
 import { evaluations, rotations, users } from "../../../../database/schema"
 import { requireAnyRole } from "../../../../lib/auth-clerk"
+import { getPreceptorSchoolScope, studentInSchool } from "@/lib/school-affiliations"
 
 export default async function PreceptorEvaluationsPage() {
   const user = await requireAnyRole(["CLINICAL_PRECEPTOR"], "/dashboard")
+  const { activeSchoolId } = await getPreceptorSchoolScope(user)
 
   // Fetch evaluations created by this preceptor
   const preceptorEvaluations = await db
@@ -72,7 +75,12 @@ export default async function PreceptorEvaluationsPage() {
     .from(evaluations)
     .leftJoin(users, eq(evaluations.studentId, users.id))
     .leftJoin(rotations, eq(evaluations.rotationId, rotations.id))
-    .where(eq(evaluations.evaluatorId, user.id))
+    .where(
+      and(
+        eq(evaluations.evaluatorId, user.id),
+        studentInSchool(evaluations.studentId, activeSchoolId)
+      )
+    )
     .orderBy(evaluations.createdAt)
 
   // Use actual evaluation data from database with default values
@@ -378,31 +386,34 @@ export default async function PreceptorEvaluationsPage() {
                         </div>
                       </TableCell>
                       <TableCell className="text-right">
-                        <DropdownMenu>
-                          <DropdownMenuTrigger asChild>
-                            <Button variant="ghost" className="h-8 w-8 p-0">
-                              <MoreHorizontal className="h-4 w-4" />
-                            </Button>
-                          </DropdownMenuTrigger>
-                          <DropdownMenuContent align="end">
-                            <DropdownMenuItem>
-                              <Eye className="mr-2 h-4 w-4" />
-                              View Details
-                            </DropdownMenuItem>
-                            <DropdownMenuItem>
-                              <Edit className="mr-2 h-4 w-4" />
-                              Edit Evaluation
-                            </DropdownMenuItem>
-                            <DropdownMenuItem>
-                              <CheckCircle className="mr-2 h-4 w-4" />
-                              Mark Complete
-                            </DropdownMenuItem>
-                            <DropdownMenuItem>
-                              <FileText className="mr-2 h-4 w-4" />
-                              Export PDF
-                            </DropdownMenuItem>
-                          </DropdownMenuContent>
-                        </DropdownMenu>
+                        <div className="flex items-center justify-end gap-2">
+                          <EvaluationSignatureDialog evaluationId={evaluation.id} />
+                          <DropdownMenu>
+                            <DropdownMenuTrigger asChild>
+                              <Button variant="ghost" className="h-8 w-8 p-0">
+                                <MoreHorizontal className="h-4 w-4" />
+                              </Button>
+                            </DropdownMenuTrigger>
+                            <DropdownMenuContent align="end">
+                              <DropdownMenuItem>
+                                <Eye className="mr-2 h-4 w-4" />
+                                View Details
+                              </DropdownMenuItem>
+                              <DropdownMenuItem>
+                                <Edit className="mr-2 h-4 w-4" />
+                                Edit Evaluation
+                              </DropdownMenuItem>
+                              <DropdownMenuItem>
+                                <CheckCircle className="mr-2 h-4 w-4" />
+                                Mark Complete
+                              </DropdownMenuItem>
+                              <DropdownMenuItem>
+                                <FileText className="mr-2 h-4 w-4" />
+                                Export PDF
+                              </DropdownMenuItem>
+                            </DropdownMenuContent>
+                          </DropdownMenu>
+                        </div>
                       </TableCell>
                     </TableRow>
                   ))}
@@ -0,0 +1,26 @@
+import { SchoolSwitcher } from "@/components/dashboard/school-switcher"
+import { requireAnyRole } from "@/lib/auth-clerk"
+import { getPreceptorSchoolScope, getSchoolNames } from "@/lib/school-affiliations"
+
+export default async function ClinicalPreceptorLayout({ children }: { children: React.ReactNode }) {
+  const user = await requireAnyRole(["CLINICAL_PRECEPTOR"], "/dashboard")
+  const scope = await getPreceptorSchoolScope({
+    id: user.id,
+    schoolId: "schoolId" in user ? user.schoolId : null,
+  })
+
+  // Preceptors teaching for a single school have nothing to switch
+  if (scope.schoolIds.length < 2) return children
+
+  return (
+    <>
+      <div className="flex justify-end px-4 pt-4 md:px-6">
+        <SchoolSwitcher
+          schools={await getSchoolNames(scope.schoolIds)}
+          activeSchoolId={scope.activeSchoolId}
+        />
+      </div>
+      {children}
+    </>
+  )
+}
@@ -18,9 +18,11 @@ import { QuickActionCard } from "@/components/ui/quick-action-card"
 import { ActivityList, TaskList } from "@/components/ui/activity-list"
 import type { User } from "../../../database/schema"
 import { requireAnyRole } from "../../../lib/auth-clerk"
+import { getPreceptorSchoolScope, studentInSchool } from "@/lib/school-affiliations"
 
 export default async function ClinicalPreceptorDashboardPage() {
   const user = await requireAnyRole(["CLINICAL_PRECEPTOR"], "/dashboard")
+  const { activeSchoolId } = await getPreceptorSchoolScope(user)
 
   return (
     <PageContainer>
@@ -28,7 +30,7 @@ export default async function ClinicalPreceptorDashboardPage() {
       <WelcomeBanner userRole="CLINICAL_PRECEPTOR" userName={user.name || "Preceptor"} />
 
       <Suspense fallback={<DashboardStatsSkeleton />}>
-        <ClinicalPreceptorDashboardContent user={user} />
+        <ClinicalPreceptorDashboardContent user={user} activeSchoolId={activeSchoolId} />
       </Suspense>
     </PageContainer>
   )
@@ -36,8 +38,10 @@ export default async function ClinicalPreceptorDashboardPage() {
 
 async function ClinicalPreceptorDashboardContent({
   user,
+  activeSchoolId,
 }: {
   user: { id: string; name: string | null }
+  activeSchoolId: string | null
 }) {
   // Fetch real data for clinical preceptor dashboard with comprehensive error handling
   let pendingTimeRecords: Array<{
@@ -96,7 +100,13 @@ async function ClinicalPreceptorDashboardContent({
         .from(timeRecords)
         .innerJoin(users, eq(users.id, timeRecords.studentId))
         .leftJoin(rotations, eq(rotations.id, timeRecords.rotationId))
-        .where(and(eq(rotations.preceptorId, user.id), eq(timeRecords.status, "PENDING")))
+        .where(
+          and(
+            eq(rotations.preceptorId, user.id),
+            eq(timeRecords.status, "PENDING"),
+            studentInSchool(timeRecords.studentId, activeSchoolId)
+          )
+        )
         .orderBy(desc(timeRecords.date)),
 
       // Fetch active rotations for this preceptor
@@ -113,7 +123,12 @@ async function ClinicalPreceptorDashboardContent({
         })
         .from(rotations)
         .leftJoin(users, eq(rotations.studentId, users.id))
-        .where(eq(rotations.preceptorId, user.id))
+        .where(
+          and(
+            eq(rotations.preceptorId, user.id),
+            studentInSchool(rotations.studentId, activeSchoolId)
+          )
+        )
         .orderBy(desc(rotations.startDate)),
 
       // Fetch completed evaluations by this preceptor
@@ -126,7 +141,12 @@ async function ClinicalPreceptorDashboardContent({
           studentId: evaluations.studentId,
         })
         .from(evaluations)
-        .where(eq(evaluations.evaluatorId, user.id))
+        .where(
+          and(
+            eq(evaluations.evaluatorId, user.id),
+            studentInSchool(evaluations.studentId, activeSchoolId)
+          )
+        )
         .orderBy(desc(evaluations.createdAt)),
     ])
 
@@ -20,9 +20,11 @@ import {
   competencies,
 } from "../../../../database/schema"
 import { requireAnyRole } from "../../../../lib/auth-clerk"
+import { getPreceptorSchoolScope, studentInSchool } from "@/lib/school-affiliations"
 
 export default async function PreceptorReportsPage() {
   const user = await requireAnyRole(["CLINICAL_PRECEPTOR"], "/dashboard")
+  const { activeSchoolId } = await getPreceptorSchoolScope(user)
 
   // Fetch data for reports
   const preceptorEvaluations = await db
@@ -34,7 +36,12 @@ export default async function PreceptorReportsPage() {
       studentId: evaluations.studentId,
     })
     .from(evaluations)
-    .where(eq(evaluations.evaluatorId, user.id))
+    .where(
+      and(
+        eq(evaluations.evaluatorId, user.id),
+        studentInSchool(evaluations.studentId, activeSchoolId)
+      )
+    )
 
   const preceptorRotations = await db
     .select({
@@ -44,7 +51,9 @@ export default async function PreceptorReportsPage() {
       endDate: rotations.endDate,
     })
     .from(rotations)
-    .where(eq(rotations.preceptorId, user.id))
+    .where(
+      and(eq(rotations.preceptorId, user.id), studentInSchool(rotations.studentId, activeSchoolId))
+    )
 
   // Types for reporting data
   interface StudentProgress {
@@ -90,7 +99,9 @@ export default async function PreceptorReportsPage() {
     })
     .from(rotations)
     .innerJoin(users, eq(rotations.studentId, users.id))
-    .where(eq(rotations.preceptorId, user.id))
+    .where(
+      and(eq(rotations.preceptorId, user.id), studentInSchool(rotations.studentId, activeSchoolId))
+    )
 
   // Get evaluation scores per student
   const studentScores = new Map<string, number[]>()
@@ -1,4 +1,4 @@
-import { eq, or } from "drizzle-orm"
+import { and, eq, isNull, or } from "drizzle-orm"
 import {
   Calendar,
   ChevronLeft,
@@ -29,9 +29,11 @@ import { Tabs, TabsContent, TabsList, TabsTrigger } from "../../../../components
 import { db } from "@/database/connection-pool"
 import { rotations, users, meetings, assessments, evaluations } from "../../../../database/schema"
 import { requireAnyRole } from "../../../../lib/auth-clerk"
+import { getPreceptorSchoolScope, studentInSchool } from "@/lib/school-affiliations"
 
 export default async function PreceptorSchedulePage() {
   const user = await requireAnyRole(["CLINICAL_PRECEPTOR"], "/dashboard")
+  const { activeSchoolId } = await getPreceptorSchoolScope(user)
 
   // Fetch rotations for this preceptor
   const preceptorRotations = await db
@@ -47,7 +49,9 @@ export default async function PreceptorSchedulePage() {
     })
     .from(rotations)
     .leftJoin(users, eq(rotations.studentId, users.id))
-    .where(eq(rotations.preceptorId, user.id))
+    .where(
+      and(eq(rotations.preceptorId, user.id), studentInSchool(rotations.studentId, activeSchoolId))
+    )
     .orderBy(rotations.startDate)
 
   // Fetch meetings
@@ -66,7 +70,15 @@ export default async function PreceptorSchedulePage() {
     })
     .from(meetings)
     .leftJoin(users, eq(meetings.studentId, users.id))
-    .where(eq(meetings.organizerId, user.id))
+    .where(
+      and(
+        eq(meetings.organizerId, user.id),
+        // Meetings without a student are not tied to any school
+        activeSchoolId
+          ? or(isNull(meetings.studentId), studentInSchool(meetings.studentId, activeSchoolId))
+          : undefined
+      )
+    )
 
   // Fetch assessments
   const assessmentsData = await db
@@ -80,7 +92,12 @@ export default async function PreceptorSchedulePage() {
     })
     .from(assessments)
     .leftJoin(users, eq(assessments.studentId, users.id))
-    .where(eq(assessments.assessorId, user.id))
+    .where(
+      and(
+        eq(assessments.assessorId, user.id),
+        studentInSchool(assessments.studentId, activeSchoolId)
+      )
+    )
 
   // Fetch evaluations
   const evaluationsData = await db
@@ -94,7 +111,12 @@ export default async function PreceptorSchedulePage() {
     })
     .from(evaluations)
     .leftJoin(users, eq(evaluations.studentId, users.id))
-    .where(eq(evaluations.evaluatorId, user.id))
+    .where(
+      and(
+        eq(evaluations.evaluatorId, user.id),
+        studentInSchool(evaluations.studentId, activeSchoolId)
+      )
+    )
 
   // Combine into unified events
   const scheduleEvents = [
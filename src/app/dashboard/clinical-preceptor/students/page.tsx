@@ -1,4 +1,4 @@
-import { eq } from "drizzle-orm"
+import { and, eq } from "drizzle-orm"
 import {
   Award,
   Calendar,
@@ -48,12 +48,14 @@ import {
 import { db } from "@/database/connection-pool"
 import { rotations, users } from "../../../../database/schema"
 import { requireAnyRole } from "../../../../lib/auth-clerk"
+import { getPreceptorSchoolScope, studentInSchool } from "@/lib/school-affiliations"
 
 import { PageContainer } from "@/components/ui/page-container"
 import { StatCard, StatGrid } from "@/components/ui/stat-card"
 
 export default async function PreceptorStudentsPage() {
   const user = await requireAnyRole(["CLINICAL_PRECEPTOR"], "/dashboard")
+  const { activeSchoolId } = await getPreceptorSchoolScope(user)
 
   // Fetch students assigned to this preceptor
   const assignedStudents = await db
@@ -69,7 +71,9 @@ export default async function PreceptorStudentsPage() {
     })
     .from(rotations)
     .leftJoin(users, eq(rotations.studentId, users.id))
-    .where(eq(rotations.preceptorId, user.id))
+    .where(
+      and(eq(rotations.preceptorId, user.id), studentInSchool(rotations.studentId, activeSchoolId))
+    )
     .orderBy(rotations.startDate)
 
   // Fetch comprehensive student oversight data from database
@@ -54,9 +54,11 @@ import {
   users,
 } from "../../../../database/schema"
 import { requireAnyRole } from "../../../../lib/auth-clerk"
+import { getPreceptorSchoolScope, studentInSchool } from "@/lib/school-affiliations"
 
 export default async function TimeRecordsPage() {
   const user = await requireAnyRole(["CLINICAL_PRECEPTOR"], "/dashboard")
+  const { activeSchoolId } = await getPreceptorSchoolScope(user)
 
   // Fetch time records for students assigned to this preceptor
   const studentTimeRecords = await db
@@ -80,7 +82,12 @@ export default async function TimeRecordsPage() {
     .innerJoin(users, eq(users.id, timeRecords.studentId))
     .leftJoin(rotations, eq(rotations.id, timeRecords.rotationId))
     .leftJoin(clinicalSites, eq(clinicalSites.id, rotations.clinicalSiteId))
-    .where(and(eq(rotations.preceptorId, user.id)))
+    .where(
+      and(
+        eq(rotations.preceptorId, user.id),
+        studentInSchool(timeRecords.studentId, activeSchoolId)
+      )
+    )
     .orderBy(desc(timeRecords.date))
 
   // Fetch pending timecard corrections for this preceptor's students
@@ -110,7 +117,13 @@ export default async function TimeRecordsPage() {
     .innerJoin(users, eq(users.id, timecardCorrections.studentId))
     .leftJoin(rotations, eq(rotations.id, timecardCorrections.rotationId))
     .leftJoin(clinicalSites, eq(clinicalSites.id, rotations.clinicalSiteId))
-    .where(and(eq(rotations.preceptorId, user.id), eq(timecardCorrections.status, "PENDING")))
+    .where(
+      and(
+        eq(rotations.preceptorId, user.id),
+        eq(timecardCorrections.status, "PENDING"),
+        studentInSchool(timecardCorrections.studentId, activeSchoolId)
+      )
+    )
     .orderBy(desc(timecardCorrections.createdAt))
 
   const recordStats = {
@@ -26,46 +26,75 @@ import {
   DropdownMenuTrigger,
 } from "../../../../components/ui/dropdown-menu"
 import { Input } from "../../../../components/ui/input"
-import { Progress } from "../../../../components/ui/progress"
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "../../../../components/ui/tabs"
+import { ImprovementPlanCard } from "@/components/quality/improvement-plan-card"
+import { QualityReviewDetailsDialog } from "@/components/quality/quality-review-details-dialog"
+import { QualityReviewFormDialog } from "@/components/quality/quality-review-form-dialog"
+import type { ImprovementPlanItem, QualityOption } from "@/components/quality/types"
 import { db } from "@/database/connection-pool"
-import { qualityReviews } from "../../../../database/schema"
+import { clinicalSites } from "../../../../database/schema"
 import { requireAnyRole } from "../../../../lib/auth-clerk"
-import { desc } from "drizzle-orm"
+import {
+  type ImprovementPlanView,
+  listImprovementPlans,
+  listPlanOwnerCandidates,
+  listQualityReviews,
+} from "@/lib/quality-reviews"
+import { siteVisibleToSchool } from "@/lib/school-affiliations"
+import { getSchoolContext } from "@/lib/school-utils"
+import { tenantScope } from "@/lib/tenant-scope"
+import { asc } from "drizzle-orm"
+
+const toPlanItem = (plan: ImprovementPlanView): ImprovementPlanItem => ({
+  ...plan,
+  dueDate: plan.dueDate.toISOString(),
+  completedAt: plan.completedAt?.toISOString() ?? null,
+  milestones: plan.milestones.map((milestone) => ({
+    id: milestone.id,
+    title: milestone.title,
+    dueDate: milestone.dueDate?.toISOString() ?? null,
+    completedAt: milestone.completedAt?.toISOString() ?? null,
+  })),
+})
 
 export default async function QualityAssurancePage() {
-  const _user = await requireAnyRole(["CLINICAL_SUPERVISOR", "SUPER_ADMIN"], "/dashboard")
+  await requireAnyRole(["CLINICAL_SUPERVISOR", "SUPER_ADMIN"], "/dashboard")
+  const scope = tenantScope(await getSchoolContext(), {
+    crossTenantReason: "Platform quality assurance overview",
+  })
 
-  // Fetch quality reviews from database
-  const reviews = await db.select().from(qualityReviews).orderBy(desc(qualityReviews.updatedAt))
+  const [reviews, plans] = await Promise.all([
+    listQualityReviews(scope),
+    listImprovementPlans(scope),
+  ])
+
+  // Sites and plan owners come from the user's own school; a cross-tenant
+  // overview can read reviews but not open new ones
+  const [sites, owners]: [QualityOption[], QualityOption[]] = scope.schoolId
+    ? await Promise.all([
+        db
+          .select({ id: clinicalSites.id, name: clinicalSites.name })
+          .from(clinicalSites)
+          .where(siteVisibleToSchool(scope.schoolId))
+          .orderBy(asc(clinicalSites.name)),
+        listPlanOwnerCandidates(scope.schoolId).then((users) =>
+          users.map((user) => ({ id: user.id, name: user.name ?? user.email }))
+        ),
+      ])
+    : [[], []]
 
   // Calculate metrics
   const totalReviews = reviews.length
   const pendingReviews = reviews.filter((r) => r.status === "pending").length
+  const scored = reviews.filter((r) => r.overallScore !== null).map((r) => Number(r.overallScore))
+  const qualityScore =
+    scored.length > 0 ? scored.reduce((sum, score) => sum + score, 0) / scored.length : null
   const complianceRate =
     totalReviews > 0
       ? (reviews.filter((r) => Number(r.overallScore) >= 80).length / totalReviews) * 100
       : 100
-
-  // Mock improvement plans for now (could be a separate table later)
-  const improvementPlans = [
-    {
-      id: "1",
-      title: "Documentation Compliance",
-      status: "In Progress",
-      progress: 65,
-      dueDate: "2024-04-15",
-      assignee: "Dr. Sarah Smith",
-    },
-    {
-      id: "2",
-      title: "Clinical Supervision Standards",
-      status: "Pending",
-      progress: 0,
-      dueDate: "2024-05-01",
-      assignee: "Dr. Michael Chen",
-    },
-  ]
+  const openFindings = reviews.flatMap((r) => r.findings).filter((f) => !f.resolved)
+  const activePlans = plans.filter((p) => p.status === "not_started" || p.status === "in_progress")
 
   return (
     <div className="space-y-6">
@@ -75,14 +104,23 @@ export default async function QualityAssurancePage() {
           <p className="text-muted-foreground">Monitor and improve clinical education quality</p>
         </div>
         <div className="flex gap-2">
-          <Button variant="outline">
-            <Download className="mr-2 h-4 w-4" />
-            Export Report
-          </Button>
-          <Button className="bg-blue-600 hover:bg-blue-700">
-            <Plus className="mr-2 h-4 w-4" />
-            New Review
+          <Button variant="outline" asChild>
+            <a href="/api/quality-reviews/export" download>
+              <Download className="mr-2 h-4 w-4" />
+              Export Report
+            </a>
           </Button>
+          {scope.schoolId && (
+            <QualityReviewFormDialog
+              sites={sites}
+              trigger={
+                <Button className="bg-blue-600 hover:bg-blue-700">
+                  <Plus className="mr-2 h-4 w-4" />
+                  New Review
+                </Button>
+              }
+            />
+          )}
         </div>
       </div>
 
@@ -94,9 +132,11 @@ export default async function QualityAssurancePage() {
             <TrendingUp className="h-4 w-4 text-muted-foreground" />
           </CardHeader>
           <CardContent>
-            <div className="font-bold text-2xl">94.2%</div>
+            <div className="font-bold text-2xl">
+              {qualityScore === null ? "-" : `${qualityScore.toFixed(1)}%`}
+            </div>
             <p className="text-muted-foreground text-xs">
-              <span className="text-green-600">+2.1%</span> from last quarter
+              Average of {scored.length} scored review{scored.length === 1 ? "" : "s"}
             </p>
           </CardContent>
         </Card>
@@ -122,7 +162,12 @@ export default async function QualityAssurancePage() {
           <CardContent>
             <div className="font-bold text-2xl">{complianceRate.toFixed(1)}%</div>
             <p className="text-muted-foreground text-xs">
-              <span className="text-green-600">Above target</span> (90%)
+              {complianceRate >= 90 ? (
+                <span className="text-green-600">Above target</span>
+              ) : (
+                <span className="text-red-600">Below target</span>
+              )}{" "}
+              (90%)
             </p>
           </CardContent>
         </Card>
@@ -132,11 +177,16 @@ export default async function QualityAssurancePage() {
             <AlertCircle className="h-4 w-4 text-muted-foreground" />
           </CardHeader>
           <CardContent>
-            <div className="font-bold text-2xl">
-              {reviews.reduce((acc, r) => acc + (r.findings as any[]).length, 0)}
-            </div>
+            <div className="font-bold text-2xl">{openFindings.length}</div>
             <p className="text-muted-foreground text-xs">
-              <span className="text-red-600">-5</span> from last month
+              <span className="text-red-600">
+                {
+                  openFindings.filter((f) => f.severity === "high" || f.severity === "critical")
+                    .length
+                }{" "}
+                high severity
+              </span>{" "}
+              · {activePlans.length} active plan{activePlans.length === 1 ? "" : "s"}
             </p>
           </CardContent>
         </Card>
@@ -210,7 +260,14 @@ export default async function QualityAssurancePage() {
                         key={review.id}
                         className="border-b transition-colors hover:bg-muted/50 data-[state=selected]:bg-muted"
                       >
-                        <td className="p-4 align-middle font-medium">{review.title}</td>
+                        <td className="p-4 align-middle font-medium">
+                          {review.title}
+                          {review.siteName && (
+                            <span className="block text-muted-foreground text-xs">
+                              {review.siteName}
+                            </span>
+                          )}
+                        </td>
                         <td className="p-4 align-middle">{review.type}</td>
                         <td className="p-4 align-middle">
                           <Badge
@@ -239,9 +296,16 @@ export default async function QualityAssurancePage() {
                           {review.reviewDate.toLocaleDateString()}
                         </td>
                         <td className="p-4 align-middle">
-                          <Button variant="ghost" size="sm">
-                            View
-                          </Button>
+                          <QualityReviewDetailsDialog
+                            reviewId={review.id}
+                            sites={sites}
+                            owners={owners}
+                            trigger={
+                              <Button variant="ghost" size="sm">
+                                View
+                              </Button>
+                            }
+                          />
                         </td>
                       </tr>
                     ))}
@@ -267,36 +331,17 @@ export default async function QualityAssurancePage() {
         </TabsContent>
 
         <TabsContent value="plans" className="space-y-4">
-          <div className="grid gap-4 md:grid-cols-2">
-            {improvementPlans.map((plan) => (
-              <Card key={plan.id}>
-                <CardHeader>
-                  <div className="flex items-start justify-between">
-                    <div>
-                      <CardTitle className="text-lg">{plan.title}</CardTitle>
-                      <CardDescription>Assigned to: {plan.assignee}</CardDescription>
-                    </div>
-                    <Badge variant="outline">{plan.status}</Badge>
-                  </div>
-                </CardHeader>
-                <CardContent>
-                  <div className="space-y-4">
-                    <div className="space-y-2">
-                      <div className="flex items-center justify-between text-sm">
-                        <span>Progress</span>
-                        <span>{plan.progress}%</span>
-                      </div>
-                      <Progress value={plan.progress} className="h-2" />
-                    </div>
-                    <div className="flex items-center justify-between text-sm text-muted-foreground">
-                      <span>Due Date:</span>
-                      <span>{new Date(plan.dueDate).toLocaleDateString()}</span>
-                    </div>
-                  </div>
-                </CardContent>
-              </Card>
-            ))}
-          </div>
+          {plans.length === 0 ? (
+            <div className="flex h-40 items-center justify-center rounded-md border p-8 text-center text-muted-foreground">
+              No improvement plans yet. Open a review to add one.
+            </div>
+          ) : (
+            <div className="grid gap-4 md:grid-cols-2">
+              {plans.map((plan) => (
+                <ImprovementPlanCard key={plan.id} plan={toPlanItem(plan)} showReview />
+              ))}
+            </div>
+          )}
         </TabsContent>
       </Tabs>
     </div>
@@ -1,4 +1,5 @@
 import type { Metadata } from "next"
+import { getCurrentUser } from "@/lib/auth-clerk"
 import { PageHeader } from "../../../components/layout/page-header"
 import { IntegrationsClient } from "../../../components/dashboard/integrations-client"
 
@@ -6,14 +7,18 @@ export const metadata: Metadata = {
   title: "Integrations",
 }
 
-export default function IntegrationsPage() {
+export default async function IntegrationsPage() {
+  const user = await getCurrentUser()
+  const canManageWebhooks =
+    !!user?.schoolId && (user.role === "SCHOOL_ADMIN" || user.role === "SUPER_ADMIN")
+
   return (
     <div className="space-y-6">
       <PageHeader
         title="Integrations"
         description="Connect your apps and services to your dashboard."
       />
-      <IntegrationsClient />
+      <IntegrationsClient canManageWebhooks={canManageWebhooks} />
     </div>
   )
 }
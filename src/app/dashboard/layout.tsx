@@ -3,6 +3,8 @@ import { currentUser } from "@clerk/nextjs/server"
 import { DashboardLayoutClient } from "@/components/layout/dashboard-layout-client"
 import { getCurrentUser } from "@/lib/auth-clerk"
 import { logger } from "@/lib/logger"
+import { getSubscriptionAccess } from "@/lib/payments/dunning"
+import { SubscriptionBanner } from "@/components/student/subscription-banner"
 import { UserRole } from "@/database/schema"
 
 export default async function DashboardLayout({ children }: { children: React.ReactNode }) {
@@ -29,7 +31,21 @@ export default async function DashboardLayout({ children }: { children: React.Re
       redirect("/onboarding")
     }
 
-    return <DashboardLayoutClient user={userWithClerkData}>{children}</DashboardLayoutClient>
+    const subscription =
+      userWithClerkData.role === "STUDENT" ? await getSubscriptionAccess(user.id) : null
+    const notice =
+      subscription && subscription.access !== "FULL" ? (
+        <SubscriptionBanner
+          access={subscription.access}
+          graceEndsAt={subscription.graceEndsAt?.toISOString() ?? null}
+        />
+      ) : null
+
+    return (
+      <DashboardLayoutClient user={userWithClerkData} notice={notice}>
+        {children}
+      </DashboardLayoutClient>
+    )
   } catch (error) {
     logger.error({ error }, "[DashboardLayout] Failed to fetch user")
     // Show error state instead of redirect loop
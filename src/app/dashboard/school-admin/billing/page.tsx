@@ -7,6 +7,9 @@ import { eq, desc } from "drizzle-orm"
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
 import { SeatManagementTable } from "@/components/dashboard/school-admin/billing/seat-management-table"
 import { PurchaseSeatsForm } from "@/components/dashboard/school-admin/billing/purchase-seats-form"
+import { SeatAutomationSettings } from "@/components/dashboard/school-admin/billing/seat-automation-settings"
+import { AtRiskStudentsTable } from "@/components/dashboard/school-admin/billing/at-risk-students-table"
+import { getGracePeriodDays, listAtRiskStudents } from "@/lib/payments/dunning"
 import { Progress } from "@/components/ui/progress"
 
 export const metadata: Metadata = {
@@ -47,6 +50,8 @@ export default async function BillingPage() {
     .where(eq(seatAssignments.schoolId, school.id))
     .orderBy(desc(seatAssignments.assignedAt))
 
+  const atRiskStudents = await listAtRiskStudents(school.id)
+
   const activeAssignments = assignments.filter((a) => a.status === "ACTIVE")
   const usagePercentage = school.seatsLimit > 0 ? (school.seatsUsed / school.seatsLimit) * 100 : 0
 
@@ -74,6 +79,16 @@ export default async function BillingPage() {
                 </span>
               </div>
               <Progress value={usagePercentage} className="h-2" />
+              {usagePercentage >= 80 && (
+                <p className="text-sm text-amber-600">
+                  {usagePercentage >= 100
+                    ? "All seats are in use."
+                    : `${Math.round(usagePercentage)}% of seats are in use.`}{" "}
+                  {school.seatAutoExpand
+                    ? "More will be purchased automatically as students join."
+                    : "Purchase more seats before your next intake."}
+                </p>
+              )}
             </div>
             <div className="rounded-lg border p-4 bg-muted/50">
               <div className="flex justify-between items-center">
@@ -86,6 +101,13 @@ export default async function BillingPage() {
                 {/* Add toggle or upgrade button if needed */}
               </div>
             </div>
+            {school.billingModel === "SCHOOL_PAYS" && (
+              <SeatAutomationSettings
+                schoolId={school.id}
+                autoExpand={school.seatAutoExpand}
+                hasSeatSubscription={Boolean(school.seatStripeSubscriptionId)}
+              />
+            )}
           </CardContent>
         </Card>
 
@@ -95,7 +117,10 @@ export default async function BillingPage() {
             <CardDescription>Add more licenses to your plan.</CardDescription>
           </CardHeader>
           <CardContent>
-            <PurchaseSeatsForm schoolId={school.id} />
+            <PurchaseSeatsForm
+              schoolId={school.id}
+              hasSeatSubscription={Boolean(school.seatStripeSubscriptionId)}
+            />
           </CardContent>
         </Card>
       </div>
@@ -118,6 +143,20 @@ export default async function BillingPage() {
           />
         </CardContent>
       </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Students at Risk</CardTitle>
+          <CardDescription>
+            Students whose own subscription payment is overdue. They keep full access for{" "}
+            {getGracePeriodDays()} days after a failed payment, then their account becomes
+            read-only and they can no longer clock in.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <AtRiskStudentsTable students={atRiskStudents} />
+        </CardContent>
+      </Card>
     </div>
   )
 }
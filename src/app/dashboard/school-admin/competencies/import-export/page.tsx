@@ -0,0 +1,17 @@
+import { ImportExportCenter } from "@/components/competency/import-export-center"
+import { PageHeader } from "@/components/layout/page-header"
+import { requireAnyRole } from "@/lib/auth-clerk"
+
+export default async function CompetencyImportExportPage() {
+  await requireAnyRole(["SCHOOL_ADMIN", "SUPER_ADMIN"], "/dashboard")
+
+  return (
+    <div className="space-y-6">
+      <PageHeader
+        title="Import & Export"
+        description="Move competencies, templates and rubrics in and out of your school as CSV or JSON"
+      />
+      <ImportExportCenter />
+    </div>
+  )
+}
@@ -1,6 +1,7 @@
 import { auth } from "@clerk/nextjs/server"
 import { redirect } from "next/navigation"
 import { Suspense } from "react"
+import { AuditIntegrityCard } from "@/components/admin/audit-integrity-card"
 import AdminComplianceClient from "@/components/dashboard/school-admin/compliance-client"
 import { DashboardLoading } from "@/components/dashboard/dashboard-loading"
 import { PageContainer } from "@/components/ui/page-container"
@@ -17,6 +18,9 @@ export default async function AdminCompliancePage() {
       <Suspense fallback={<DashboardLoading />}>
         <AdminComplianceClient userId={userId} />
       </Suspense>
+      <div className="mt-6">
+        <AuditIntegrityCard />
+      </div>
     </PageContainer>
   )
 }
@@ -4,24 +4,29 @@ import {
   CheckCircle,
   Clock,
   Download,
-  Pause,
   Play,
   Rocket,
   Target,
+  Undo2,
   Upload,
   Users,
 } from "lucide-react"
 import Link from "next/link"
-import { useEffect, useState } from "react"
+import { useCallback, useEffect, useState } from "react"
+import { toast } from "sonner"
 import { Badge } from "@/components/ui/badge"
 import { Button } from "@/components/ui/button"
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import type { DeploymentOverview, DeploymentSummary } from "@/lib/competency-deployments"
+import { safeFetchApi } from "@/lib/safe-fetch"
 
-interface DeploymentStats {
-  activeDeployments: number
-  totalAssignments: number
-  completionRate: number
-  pendingImports: number
+type DeploymentStats = Omit<DeploymentOverview, "deployments">
+
+const STATUS_LABELS: Record<DeploymentSummary["status"], string> = {
+  PENDING: "Scheduled",
+  ACTIVE: "Active",
+  INACTIVE: "Expired",
+  ARCHIVED: "Rolled Back",
 }
 
 export default function DeploymentImportPage() {
@@ -31,27 +36,49 @@ export default function DeploymentImportPage() {
     completionRate: 0,
     pendingImports: 0,
   })
+  const [recentDeployments, setRecentDeployments] = useState<DeploymentSummary[]>([])
   const [loading, setLoading] = useState(true)
+  const [rollingBack, setRollingBack] = useState<string | null>(null)
 
-  useEffect(() => {
-    const fetchStats = async () => {
-      try {
-        // Mock data - replace with actual API calls
-        setStats({
-          activeDeployments: 8,
-          totalAssignments: 156,
-          completionRate: 78,
-          pendingImports: 3,
-        })
-      } catch (error) {
-        console.error("Error fetching deployment stats:", error)
-      } finally {
-        setLoading(false)
-      }
+  const fetchStats = useCallback(async () => {
+    const result = await safeFetchApi<DeploymentOverview>("/api/competency-deployments")
+    if (result.success && result.data) {
+      const { deployments, ...overview } = result.data
+      setStats(overview)
+      setRecentDeployments(deployments)
+    } else {
+      toast.error(result.error || "Failed to load deployments")
     }
+    setLoading(false)
+  }, [])
 
+  useEffect(() => {
     fetchStats()
-  }, [])
+  }, [fetchStats])
+
+  const rollBack = async (deployment: DeploymentSummary) => {
+    if (
+      !window.confirm(
+        `Roll back "${deployment.name ?? "this deployment"}"? Assignments students have not started will be withdrawn.`
+      )
+    ) {
+      return
+    }
+    setRollingBack(deployment.id)
+    const result = await safeFetchApi<{ withdrawn: number; retained: number }>(
+      `/api/competency-deployments/${deployment.id}/rollback`,
+      { method: "POST", body: JSON.stringify({}) }
+    )
+    setRollingBack(null)
+    if (!result.success || !result.data) {
+      toast.error(result.error || "Failed to roll back deployment")
+      return
+    }
+    toast.success(
+      `Withdrew ${result.data.withdrawn} unstarted assignment${result.data.withdrawn === 1 ? "" : "s"}; kept ${result.data.retained} in progress or completed`
+    )
+    await fetchStats()
+  }
 
   const deploymentFeatures = [
     {
@@ -110,54 +137,14 @@ export default function DeploymentImportPage() {
     },
   ]
 
-  const recentDeployments = [
-    {
-      name: "General Radiology Q1 2024",
-      status: "Active",
-      progress: 78,
-      assigned: 24,
-      completed: 19,
-      dueDate: "2024-03-15",
-    },
-    {
-      name: "MRI Safety Assessment",
-      status: "Active",
-      progress: 45,
-      assigned: 12,
-      completed: 5,
-      dueDate: "2024-02-28",
-    },
-    {
-      name: "Pediatric Radiology Eval",
-      status: "Completed",
-      progress: 100,
-      assigned: 18,
-      completed: 18,
-      dueDate: "2024-01-30",
-    },
-  ]
-
-  const _getStatusColor = (status: string) => {
-    switch (status) {
-      case "Active":
-        return "bg-green-500"
-      case "Completed":
-        return "bg-blue-500"
-      case "Paused":
-        return "bg-yellow-500"
-      default:
-        return "bg-gray-500"
-    }
-  }
-
-  const getStatusIcon = (status: string) => {
+  const getStatusIcon = (status: DeploymentSummary["status"]) => {
     switch (status) {
-      case "Active":
+      case "ACTIVE":
         return Play
-      case "Completed":
+      case "INACTIVE":
         return CheckCircle
-      case "Paused":
-        return Pause
+      case "ARCHIVED":
+        return Undo2
       default:
         return Clock
     }
@@ -327,54 +314,83 @@ export default function DeploymentImportPage() {
             </Button>
           </Link>
         </div>
-        <div className="grid gap-4 md:grid-cols-3">
-          {recentDeployments.map((deployment) => {
-            const StatusIcon = getStatusIcon(deployment.status)
-            return (
-              <Card key={deployment.name} className="transition-all duration-200 hover:shadow-md">
-                <CardContent className="p-4">
-                  <div className="space-y-3">
-                    <div className="flex items-center justify-between">
-                      <h3 className="font-medium text-sm">{deployment.name}</h3>
-                      <div className="flex items-center gap-1">
-                        <StatusIcon className={"h-3 w-3 text-white"} />
-                        <Badge
-                          variant={
-                            deployment.status === "Active"
-                              ? "default"
-                              : deployment.status === "Completed"
-                                ? "secondary"
-                                : "outline"
-                          }
-                        >
-                          {deployment.status}
-                        </Badge>
+        {recentDeployments.length === 0 ? (
+          <p className="text-muted-foreground text-sm">No competencies have been deployed yet.</p>
+        ) : (
+          <div className="grid gap-4 md:grid-cols-3">
+            {recentDeployments.map((deployment) => {
+              const StatusIcon = getStatusIcon(deployment.status)
+              const progress =
+                deployment.assigned > 0
+                  ? Math.round((deployment.completed / deployment.assigned) * 100)
+                  : 0
+              const canRollBack = deployment.status === "ACTIVE" || deployment.status === "PENDING"
+              return (
+                <Card key={deployment.id} className="transition-all duration-200 hover:shadow-md">
+                  <CardContent className="p-4">
+                    <div className="space-y-3">
+                      <div className="flex items-center justify-between">
+                        <h3 className="font-medium text-sm">
+                          {deployment.name ?? "Deleted competency"}
+                        </h3>
+                        <div className="flex items-center gap-1">
+                          <StatusIcon className="h-3 w-3 text-muted-foreground" />
+                          <Badge
+                            variant={
+                              deployment.status === "ACTIVE"
+                                ? "default"
+                                : deployment.status === "INACTIVE"
+                                  ? "secondary"
+                                  : "outline"
+                            }
+                          >
+                            {STATUS_LABELS[deployment.status]}
+                          </Badge>
+                        </div>
                       </div>
-                    </div>
-                    <div className="space-y-2">
-                      <div className="flex justify-between text-muted-foreground text-xs">
-                        <span>Progress</span>
-                        <span>{deployment.progress}%</span>
+                      <div className="space-y-2">
+                        <div className="flex justify-between text-muted-foreground text-xs">
+                          <span>Progress</span>
+                          <span>{progress}%</span>
+                        </div>
+                        <div className="h-2 w-full rounded-full bg-muted">
+                          <div
+                            className="h-2 rounded-full bg-primary transition-all duration-300"
+                            style={{ width: `${progress}%` }}
+                          />
+                        </div>
                       </div>
-                      <div className="h-2 w-full rounded-full bg-muted">
-                        <div
-                          className="h-2 rounded-full bg-primary transition-all duration-300"
-                          style={{ width: `${deployment.progress}%` }}
-                        />
+                      <div className="flex justify-between text-muted-foreground text-xs">
+                        <span>
+                          {deployment.completed}/{deployment.assigned} completed
+                        </span>
+                        <span>
+                          {deployment.status === "PENDING" && deployment.effectiveDate
+                            ? `Starts ${new Date(deployment.effectiveDate).toLocaleDateString()}`
+                            : deployment.expiryDate
+                              ? `Due ${new Date(deployment.expiryDate).toLocaleDateString()}`
+                              : `Deployed ${new Date(deployment.deployedAt).toLocaleDateString()}`}
+                        </span>
                       </div>
+                      {canRollBack && (
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          className="w-full"
+                          disabled={rollingBack === deployment.id}
+                          onClick={() => rollBack(deployment)}
+                        >
+                          <Undo2 className="mr-2 h-3 w-3" />
+                          {rollingBack === deployment.id ? "Rolling back..." : "Roll Back"}
+                        </Button>
+                      )}
                     </div>
-                    <div className="flex justify-between text-muted-foreground text-xs">
-                      <span>
-                        {deployment.completed}/{deployment.assigned} completed
-                      </span>
-                      <span>Due {deployment.dueDate}</span>
-                    </div>
-                  </div>
-                </CardContent>
-              </Card>
-            )
-          })}
-        </div>
+                  </CardContent>
+                </Card>
+              )
+            })}
+          </div>
+        )}
       </div>
     </div>
   )
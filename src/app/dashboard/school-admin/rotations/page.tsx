@@ -9,6 +9,8 @@ import {
   cohorts,
 } from "../../../../database/schema"
 import { requireAnyRole } from "../../../../lib/auth-clerk"
+import { getSchoolContext } from "@/lib/school-utils"
+import { tenantScope } from "@/lib/tenant-scope"
 
 export default async function SchoolRotationsPage() {
   const user = await requireAnyRole(["SCHOOL_ADMIN"], "/dashboard")
@@ -51,10 +53,11 @@ export default async function SchoolRotationsPage() {
   const rotationIds = schoolRotations.map((r) => r.id).filter(Boolean)
   let assignmentCountByRotation: Record<string, number> = {}
   if (rotationIds.length > 0) {
+    const scope = tenantScope(await getSchoolContext())
     const assignmentCounts = await db
       .select({ rotationId: siteAssignments.rotationId, assignedCount: count(siteAssignments.id) })
       .from(siteAssignments)
-      .where(inArray(siteAssignments.rotationId, rotationIds))
+      .where(scope.where(siteAssignments, inArray(siteAssignments.rotationId, rotationIds)))
       .groupBy(siteAssignments.rotationId)
 
     assignmentCountByRotation = assignmentCounts.reduce(
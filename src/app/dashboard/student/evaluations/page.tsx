@@ -0,0 +1,114 @@
+import { desc, eq } from "drizzle-orm"
+import { CheckCircle, Clock, Lock } from "lucide-react"
+import { EvaluationSignatureDialog } from "@/components/evaluations/evaluation-signature-dialog"
+import { Badge } from "@/components/ui/badge"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { PageContainer } from "@/components/ui/page-container"
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table"
+import { db } from "@/database/connection-pool"
+import { evaluations, rotations, users } from "@/database/schema"
+import { requireAnyRole } from "@/lib/auth-clerk"
+
+export default async function StudentEvaluationsPage() {
+  const user = await requireAnyRole(["STUDENT"], "/dashboard")
+
+  const studentEvaluations = await db
+    .select({
+      id: evaluations.id,
+      type: evaluations.type,
+      observationDate: evaluations.observationDate,
+      overallRating: evaluations.overallRating,
+      evaluatorName: users.name,
+      specialty: rotations.specialty,
+      studentSignature: evaluations.studentSignature,
+      evaluatorSignature: evaluations.evaluatorSignature,
+      lockedAt: evaluations.lockedAt,
+    })
+    .from(evaluations)
+    .leftJoin(users, eq(evaluations.evaluatorId, users.id))
+    .leftJoin(rotations, eq(evaluations.rotationId, rotations.id))
+    .where(eq(evaluations.studentId, user.id))
+    .orderBy(desc(evaluations.observationDate))
+
+  return (
+    <PageContainer>
+      <div className="space-y-6">
+        <div>
+          <h1 className="font-bold text-3xl tracking-tight">My Evaluations</h1>
+          <p className="text-muted-foreground">
+            Review your evaluations, add an attestation or rebuttal, and sign them
+          </p>
+        </div>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Evaluations</CardTitle>
+            <CardDescription>
+              You can sign an evaluation after your evaluator has signed it
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            {studentEvaluations.length === 0 ? (
+              <p className="text-muted-foreground text-sm">No evaluations yet.</p>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Date</TableHead>
+                    <TableHead>Type</TableHead>
+                    <TableHead>Rotation</TableHead>
+                    <TableHead>Evaluator</TableHead>
+                    <TableHead>Rating</TableHead>
+                    <TableHead>Status</TableHead>
+                    <TableHead className="text-right">Actions</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {studentEvaluations.map((evaluation) => (
+                    <TableRow key={evaluation.id}>
+                      <TableCell>{evaluation.observationDate.toLocaleDateString()}</TableCell>
+                      <TableCell>{evaluation.type ?? "—"}</TableCell>
+                      <TableCell>{evaluation.specialty ?? "—"}</TableCell>
+                      <TableCell>{evaluation.evaluatorName ?? "—"}</TableCell>
+                      <TableCell>{Number(evaluation.overallRating).toFixed(1)}</TableCell>
+                      <TableCell>
+                        {evaluation.lockedAt ? (
+                          <Badge variant="outline" className="gap-1">
+                            <Lock className="h-3 w-3" />
+                            Locked
+                          </Badge>
+                        ) : evaluation.studentSignature && evaluation.evaluatorSignature ? (
+                          <Badge variant="outline" className="gap-1 text-green-700">
+                            <CheckCircle className="h-3 w-3" />
+                            Signed
+                          </Badge>
+                        ) : (
+                          <Badge variant="outline" className="gap-1">
+                            <Clock className="h-3 w-3" />
+                            {evaluation.evaluatorSignature
+                              ? "Awaiting your signature"
+                              : "Awaiting evaluator"}
+                          </Badge>
+                        )}
+                      </TableCell>
+                      <TableCell className="text-right">
+                        <EvaluationSignatureDialog evaluationId={evaluation.id} />
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </PageContainer>
+  )
+}
@@ -61,6 +61,13 @@ export default function SubscriptionRequiredPage() {
                 <span className="text-muted-foreground">/month</span>
               </div>
             </div>
+            <p className="text-sm text-muted-foreground">
+              If your payment failed, your time records and evaluations are still available in
+              read-only mode.{" "}
+              <Link href="/dashboard" className="text-primary hover:underline">
+                View my records
+              </Link>
+            </p>
           </CardContent>
 
           <CardFooter className="flex flex-col gap-3 pb-10">
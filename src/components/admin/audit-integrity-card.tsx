@@ -0,0 +1,210 @@
+"use client"
+
+import { AlertTriangle, CheckCircle, ShieldCheck } from "lucide-react"
+import { useCallback, useEffect, useState } from "react"
+import { toast } from "sonner"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select"
+import { safeFetchApi } from "@/lib/safe-fetch"
+
+interface ChainBreak {
+  kind: string
+  sequence: number
+  entryId?: string
+  checkpointId?: string
+  found?: number
+}
+
+interface ChainVerification {
+  valid: boolean
+  verifiedEntries: number
+  headSequence: number
+  checkpointsVerified: number
+  unchainedEntries: number
+  breaks: ChainBreak[]
+  truncated: boolean
+  verifiedAt: string
+}
+
+interface RetentionPolicy {
+  archiveAfterDays: number
+  minArchiveAfterDays: number
+  maxArchiveAfterDays: number
+}
+
+interface AuditIntegrityCardProps {
+  // Super admins pick which chain to check; school admins check their own school
+  schools?: { id: string; name: string }[]
+}
+
+const BREAK_LABELS: Record<string, string> = {
+  missing_entries: "Entries missing",
+  previous_hash_mismatch: "Chain link broken",
+  entry_altered: "Entry altered",
+  head_mismatch: "Latest entries missing",
+  checkpoint_signature_invalid: "Checkpoint signature invalid",
+  checkpoint_mismatch: "Checkpoint does not match",
+}
+
+/**
+ * Verifies the audit log hash chain and, for school admins, sets when old
+ * entries move to the archive.
+ */
+export function AuditIntegrityCard({ schools }: AuditIntegrityCardProps) {
+  const [chain, setChain] = useState("platform")
+  const [verification, setVerification] = useState<ChainVerification | null>(null)
+  const [verifying, setVerifying] = useState(false)
+  const [policy, setPolicy] = useState<RetentionPolicy | null>(null)
+  const [days, setDays] = useState("")
+  const [saving, setSaving] = useState(false)
+
+  const loadPolicy = useCallback(async () => {
+    const result = await safeFetchApi<RetentionPolicy>("/api/audit-logs/retention")
+    if (result.success && result.data) {
+      setPolicy(result.data)
+      setDays(String(result.data.archiveAfterDays))
+    }
+  }, [])
+
+  useEffect(() => {
+    if (!schools) loadPolicy()
+  }, [schools, loadPolicy])
+
+  const verify = async () => {
+    setVerifying(true)
+    const query = schools ? `?schoolId=${encodeURIComponent(chain)}` : ""
+    const result = await safeFetchApi<ChainVerification>(`/api/audit-logs/verify${query}`)
+    setVerifying(false)
+    if (!result.success || !result.data) {
+      toast.error(result.error || "Failed to verify audit log")
+      return
+    }
+    setVerification(result.data)
+  }
+
+  const savePolicy = async () => {
+    setSaving(true)
+    const result = await safeFetchApi<{ archiveAfterDays: number }>("/api/audit-logs/retention", {
+      method: "PUT",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ archiveAfterDays: Number(days) }),
+    })
+    setSaving(false)
+    if (!result.success) {
+      toast.error(result.error || "Failed to save retention policy")
+      return
+    }
+    toast.success("Retention policy saved")
+    await loadPolicy()
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <ShieldCheck className="h-5 w-5" />
+          Audit Log Integrity
+        </CardTitle>
+        <CardDescription>
+          Each audit entry is chained to the one before it, so edited or removed entries are
+          detected. Old entries are archived, never deleted.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex flex-wrap items-center gap-2">
+          {schools && (
+            <Select value={chain} onValueChange={setChain}>
+              <SelectTrigger className="w-[240px]">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="platform">Platform events</SelectItem>
+                {schools.map((school) => (
+                  <SelectItem key={school.id} value={school.id}>
+                    {school.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          )}
+          <Button type="button" disabled={verifying} onClick={verify}>
+            {verifying ? "Verifying..." : "Verify audit log"}
+          </Button>
+        </div>
+
+        {verification && (
+          <div className="space-y-2 rounded-md border p-3 text-sm">
+            {verification.valid ? (
+              <p className="flex items-center gap-2 text-green-700">
+                <CheckCircle className="h-4 w-4" />
+                Intact: {verification.verifiedEntries} entries and{" "}
+                {verification.checkpointsVerified} signed checkpoints verified
+              </p>
+            ) : (
+              <p className="flex items-center gap-2 text-red-600">
+                <AlertTriangle className="h-4 w-4" />
+                {verification.breaks.length}
+                {verification.truncated ? "+" : ""} problem(s) found
+              </p>
+            )}
+            {verification.breaks.map((found, index) => (
+              <div
+                key={`${found.kind}-${found.sequence}-${index}`}
+                className="flex items-center gap-2"
+              >
+                <Badge variant="outline">#{found.sequence}</Badge>
+                <span>{BREAK_LABELS[found.kind] ?? found.kind}</span>
+                {found.entryId && (
+                  <span className="font-mono text-muted-foreground text-xs">{found.entryId}</span>
+                )}
+              </div>
+            ))}
+            {verification.unchainedEntries > 0 && (
+              <p className="text-muted-foreground text-xs">
+                {verification.unchainedEntries} entries predate chaining and cannot be verified.
+              </p>
+            )}
+            <p className="text-muted-foreground text-xs">
+              Checked {new Date(verification.verifiedAt).toLocaleString()}
+            </p>
+          </div>
+        )}
+
+        {!schools && policy && (
+          <div className="space-y-2">
+            <Label htmlFor="audit-archive-days">Archive entries older than (days)</Label>
+            <div className="flex items-center gap-2">
+              <Input
+                id="audit-archive-days"
+                type="number"
+                min={policy.minArchiveAfterDays}
+                max={policy.maxArchiveAfterDays}
+                value={days}
+                onChange={(e) => setDays(e.target.value)}
+                className="w-[140px]"
+              />
+              <Button
+                type="button"
+                variant="outline"
+                disabled={saving || Number(days) === policy.archiveAfterDays}
+                onClick={savePolicy}
+              >
+                Save
+              </Button>
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
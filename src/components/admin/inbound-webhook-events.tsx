@@ -0,0 +1,224 @@
+"use client"
+
+import { RefreshCw, RotateCcw, Webhook } from "lucide-react"
+import { Fragment, useCallback, useEffect, useState } from "react"
+import { toast } from "sonner"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select"
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table"
+import { safeFetchApi } from "@/lib/safe-fetch"
+
+interface InboundEvent {
+  id: string
+  source: "STRIPE" | "CLERK"
+  eventId: string
+  eventType: string
+  payload: unknown
+  status: "PENDING" | "PROCESSING" | "PROCESSED" | "FAILED" | "IGNORED"
+  attempts: number
+  lastError: string | null
+  replayCount: number
+  receivedAt: string
+  processedAt: string | null
+  replayable: boolean
+}
+
+const STATUS_VARIANTS: Record<
+  InboundEvent["status"],
+  "default" | "secondary" | "destructive" | "outline"
+> = {
+  PENDING: "outline",
+  PROCESSING: "outline",
+  PROCESSED: "default",
+  FAILED: "destructive",
+  IGNORED: "secondary",
+}
+
+const ALL = "all"
+
+/**
+ * Stripe and Clerk webhook events as received, with their processing outcome.
+ * Failed and ignored events can be replayed.
+ */
+export function InboundWebhookEvents() {
+  const [events, setEvents] = useState<InboundEvent[]>([])
+  const [loading, setLoading] = useState(true)
+  const [source, setSource] = useState(ALL)
+  const [status, setStatus] = useState("FAILED")
+  const [expanded, setExpanded] = useState<string | null>(null)
+  const [replaying, setReplaying] = useState<string | null>(null)
+
+  const load = useCallback(async () => {
+    setLoading(true)
+    const params = new URLSearchParams()
+    if (source !== ALL) params.set("source", source)
+    if (status !== ALL) params.set("status", status)
+    const result = await safeFetchApi<{ events: InboundEvent[] }>(
+      `/api/admin/webhook-events?${params.toString()}`
+    )
+    setLoading(false)
+    if (!result.success || !result.data) {
+      toast.error(result.error || "Failed to load webhook events")
+      return
+    }
+    setEvents(result.data.events)
+  }, [source, status])
+
+  useEffect(() => {
+    load()
+  }, [load])
+
+  const replay = async (event: InboundEvent) => {
+    setReplaying(event.id)
+    const result = await safeFetchApi(`/api/admin/webhook-events/${event.id}/replay`, {
+      method: "POST",
+    })
+    setReplaying(null)
+    if (!result.success) {
+      toast.error(result.error || "Failed to replay event")
+      return
+    }
+    toast.success("Event queued for replay")
+    await load()
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Webhook className="h-5 w-5" />
+          Incoming Webhooks
+        </CardTitle>
+        <CardDescription>
+          Stripe and Clerk events are recorded once per event id and processed in the background.
+          Events that still fail after retries can be replayed once the cause is fixed.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex flex-wrap items-center gap-2">
+          <Select value={source} onValueChange={setSource}>
+            <SelectTrigger className="w-[160px]">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ALL}>All sources</SelectItem>
+              <SelectItem value="STRIPE">Stripe</SelectItem>
+              <SelectItem value="CLERK">Clerk</SelectItem>
+            </SelectContent>
+          </Select>
+          <Select value={status} onValueChange={setStatus}>
+            <SelectTrigger className="w-[160px]">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ALL}>All statuses</SelectItem>
+              <SelectItem value="FAILED">Failed</SelectItem>
+              <SelectItem value="PENDING">Pending</SelectItem>
+              <SelectItem value="PROCESSING">Processing</SelectItem>
+              <SelectItem value="PROCESSED">Processed</SelectItem>
+              <SelectItem value="IGNORED">Ignored</SelectItem>
+            </SelectContent>
+          </Select>
+          <Button type="button" variant="outline" size="sm" onClick={load} disabled={loading}>
+            <RefreshCw className="mr-2 h-4 w-4" />
+            Refresh
+          </Button>
+        </div>
+
+        {events.length === 0 ? (
+          <p className="text-muted-foreground text-sm">
+            {loading ? "Loading..." : "No events match these filters."}
+          </p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Received</TableHead>
+                <TableHead>Source</TableHead>
+                <TableHead>Event</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead>Attempts</TableHead>
+                <TableHead className="text-right">Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {events.map((event) => (
+                <Fragment key={event.id}>
+                  <TableRow>
+                    <TableCell>{new Date(event.receivedAt).toLocaleString()}</TableCell>
+                    <TableCell>{event.source === "STRIPE" ? "Stripe" : "Clerk"}</TableCell>
+                    <TableCell>
+                      <div className="font-medium">{event.eventType}</div>
+                      <div className="font-mono text-muted-foreground text-xs">{event.eventId}</div>
+                    </TableCell>
+                    <TableCell>
+                      <Badge variant={STATUS_VARIANTS[event.status]}>{event.status}</Badge>
+                    </TableCell>
+                    <TableCell>
+                      {event.attempts}
+                      {event.replayCount > 0 && (
+                        <span className="text-muted-foreground text-xs">
+                          {" "}
+                          ({event.replayCount} replay{event.replayCount === 1 ? "" : "s"})
+                        </span>
+                      )}
+                    </TableCell>
+                    <TableCell className="space-x-2 text-right">
+                      <Button
+                        type="button"
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => setExpanded(expanded === event.id ? null : event.id)}
+                      >
+                        {expanded === event.id ? "Hide" : "Inspect"}
+                      </Button>
+                      {event.replayable && (
+                        <Button
+                          type="button"
+                          variant="outline"
+                          size="sm"
+                          disabled={replaying === event.id}
+                          onClick={() => replay(event)}
+                        >
+                          <RotateCcw className="mr-2 h-4 w-4" />
+                          Replay
+                        </Button>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                  {expanded === event.id && (
+                    <TableRow>
+                      <TableCell colSpan={6} className="space-y-2">
+                        {event.lastError && (
+                          <p className="text-red-600 text-sm">Last error: {event.lastError}</p>
+                        )}
+                        <pre className="max-h-80 overflow-auto rounded-md bg-muted p-3 text-xs">
+                          {JSON.stringify(event.payload, null, 2)}
+                        </pre>
+                      </TableCell>
+                    </TableRow>
+                  )}
+                </Fragment>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,297 @@
+"use client"
+
+import { Download, FileCheck, Loader2, Upload } from "lucide-react"
+import { useCallback, useEffect, useState } from "react"
+import { toast } from "sonner"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select"
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table"
+import type {
+  ImportExportLogSummary,
+  ImportReport,
+  TransferEntity,
+  TransferFormat,
+} from "@/lib/competency-import-export"
+import { safeFetchApi } from "@/lib/safe-fetch"
+
+const ENTITY_LABELS: Record<TransferEntity, string> = {
+  competencies: "Competencies",
+  competency_templates: "Competency templates",
+  rubric_criteria: "Rubric criteria",
+  competency_rubrics: "Rubrics",
+}
+
+const STATUS_VARIANTS: Record<
+  ImportExportLogSummary["status"],
+  "default" | "secondary" | "destructive" | "outline"
+> = {
+  PENDING: "outline",
+  PROCESSING: "secondary",
+  COMPLETED: "default",
+  FAILED: "destructive",
+}
+
+// Only the first errors are listed inline; the rest are in the error file
+const VISIBLE_ERRORS = 50
+
+// Imports of large files run longer than the default request timeout
+const IMPORT_TIMEOUT_MS = 5 * 60 * 1000
+
+export function ImportExportCenter() {
+  const [entity, setEntity] = useState<TransferEntity>("competencies")
+  const [format, setFormat] = useState<TransferFormat>("csv")
+  const [file, setFile] = useState<File | null>(null)
+  const [report, setReport] = useState<ImportReport | null>(null)
+  const [working, setWorking] = useState<"validate" | "import" | null>(null)
+  const [logs, setLogs] = useState<ImportExportLogSummary[]>([])
+
+  const fetchLogs = useCallback(async () => {
+    const result = await safeFetchApi<{ logs: ImportExportLogSummary[] }>(
+      "/api/competency-import-export/logs"
+    )
+    if (result.success && result.data) {
+      setLogs(result.data.logs)
+    }
+  }, [])
+
+  useEffect(() => {
+    fetchLogs()
+  }, [fetchLogs])
+
+  const upload = async (dryRun: boolean) => {
+    if (!file) return
+    setWorking(dryRun ? "validate" : "import")
+
+    const body = new FormData()
+    body.append("file", file)
+    body.append("entity", entity)
+    body.append("format", format)
+    body.append("dryRun", String(dryRun))
+    const result = await safeFetchApi<ImportReport>("/api/competency-import-export/import", {
+      method: "POST",
+      body,
+      timeout: IMPORT_TIMEOUT_MS,
+    })
+    setWorking(null)
+
+    if (result.success && result.data) {
+      setReport(result.data)
+      if (result.data.failed > 0) {
+        toast.warning(result.message || `${result.data.failed} rows have errors`)
+      } else {
+        toast.success(result.message || "Done")
+      }
+    } else {
+      setReport(null)
+      toast.error(result.error || "The file could not be processed")
+    }
+    if (!dryRun) fetchLogs()
+  }
+
+  const exportUrl = `/api/competency-import-export/export?entity=${entity}&format=${format}`
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle>Data type and format</CardTitle>
+          <CardDescription>
+            Exports use the same columns imports expect. Rows with an id, or matching an existing
+            record by name, update that record; other rows create new records.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="grid gap-4 md:grid-cols-3">
+          <div className="space-y-2">
+            <Label>Data</Label>
+            <Select
+              value={entity}
+              onValueChange={(value) => {
+                setEntity(value as TransferEntity)
+                setReport(null)
+              }}
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {Object.entries(ENTITY_LABELS).map(([value, label]) => (
+                  <SelectItem key={value} value={value}>
+                    {label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label>Format</Label>
+            <Select value={format} onValueChange={(value) => setFormat(value as TransferFormat)}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="csv">CSV</SelectItem>
+                <SelectItem value="json">JSON</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="flex items-end">
+            <Button variant="outline" className="w-full" asChild>
+              <a href={exportUrl} onClick={() => setTimeout(fetchLogs, 2000)}>
+                <Download className="mr-2 h-4 w-4" />
+                Export {ENTITY_LABELS[entity]}
+              </a>
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Import</CardTitle>
+          <CardDescription>
+            Validate a file first to see every row-level error without changing anything.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <Input
+            type="file"
+            accept={format === "csv" ? ".csv,text/csv" : ".json,application/json"}
+            onChange={(event) => {
+              setFile(event.target.files?.[0] ?? null)
+              setReport(null)
+            }}
+          />
+          <div className="flex gap-2">
+            <Button
+              variant="outline"
+              disabled={!file || working !== null}
+              onClick={() => upload(true)}
+            >
+              {working === "validate" ? (
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+              ) : (
+                <FileCheck className="mr-2 h-4 w-4" />
+              )}
+              Validate
+            </Button>
+            <Button disabled={!file || working !== null} onClick={() => upload(false)}>
+              {working === "import" ? (
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+              ) : (
+                <Upload className="mr-2 h-4 w-4" />
+              )}
+              Import
+            </Button>
+          </div>
+
+          {report && (
+            <div className="space-y-3 rounded-md border p-4 text-sm">
+              <p className="font-medium">
+                {report.dryRun ? "Validation" : "Import"} of {report.total} rows: {report.created}{" "}
+                {report.dryRun ? "to create" : "created"}, {report.updated}{" "}
+                {report.dryRun ? "to update" : "updated"}, {report.failed} with errors
+              </p>
+              {report.errors.length > 0 && (
+                <>
+                  <ul className="max-h-64 space-y-1 overflow-y-auto">
+                    {report.errors.slice(0, VISIBLE_ERRORS).map((error, index) => (
+                      <li key={`${error.row}-${error.field}-${index}`} className="text-destructive">
+                        Row {error.row}
+                        {error.field ? ` (${error.field})` : ""}: {error.message}
+                      </li>
+                    ))}
+                  </ul>
+                  {report.errors.length > VISIBLE_ERRORS && (
+                    <p className="text-muted-foreground">
+                      {report.errors.length - VISIBLE_ERRORS} more errors not shown
+                    </p>
+                  )}
+                  {report.logId && (
+                    <Button variant="outline" size="sm" asChild>
+                      <a href={`/api/competency-import-export/logs/${report.logId}/errors`}>
+                        <Download className="mr-2 h-4 w-4" />
+                        Download error file
+                      </a>
+                    </Button>
+                  )}
+                </>
+              )}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>History</CardTitle>
+          <CardDescription>Recent imports and exports for your school</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {logs.length === 0 ? (
+            <p className="text-muted-foreground text-sm">No imports or exports yet</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>File</TableHead>
+                  <TableHead>Type</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead>Rows</TableHead>
+                  <TableHead>By</TableHead>
+                  <TableHead>Started</TableHead>
+                  <TableHead />
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {logs.map((log) => (
+                  <TableRow key={log.id}>
+                    <TableCell className="font-medium">{log.fileName}</TableCell>
+                    <TableCell>{log.operationType === "IMPORT" ? "Import" : "Export"}</TableCell>
+                    <TableCell>
+                      <Badge variant={STATUS_VARIANTS[log.status]}>{log.status}</Badge>
+                    </TableCell>
+                    <TableCell>
+                      {log.recordsSuccessful ?? 0}/{log.recordsProcessed ?? 0}
+                      {(log.recordsFailed ?? 0) > 0 && (
+                        <span className="text-destructive"> ({log.recordsFailed} failed)</span>
+                      )}
+                    </TableCell>
+                    <TableCell>{log.processedBy ?? "—"}</TableCell>
+                    <TableCell>{new Date(log.startedAt).toLocaleString()}</TableCell>
+                    <TableCell>
+                      {log.operationType === "IMPORT" &&
+                        (log.status === "FAILED" || (log.recordsFailed ?? 0) > 0) && (
+                          <Button variant="ghost" size="sm" asChild>
+                            <a href={`/api/competency-import-export/logs/${log.id}/errors`}>
+                              Errors
+                            </a>
+                          </Button>
+                        )}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
@@ -0,0 +1,226 @@
+"use client"
+
+import { CalendarDays, Copy, RefreshCw, Trash2 } from "lucide-react"
+import { useCallback, useEffect, useState } from "react"
+import { toast } from "sonner"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Input } from "@/components/ui/input"
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select"
+import { safeFetchApi } from "@/lib/safe-fetch"
+
+interface CalendarFeedSummary {
+  id: string
+  kind: "PERSONAL" | "SITE"
+  clinicalSiteId: string | null
+  siteName: string | null
+  lastAccessedAt: string | null
+  createdAt: string
+}
+
+interface FeedSite {
+  id: string
+  name: string
+}
+
+type FeedTarget = { kind: "PERSONAL" } | { kind: "SITE"; clinicalSiteId: string }
+
+/**
+ * iCalendar subscription URLs for Google Calendar, Outlook, Apple Calendar and
+ * anything else that accepts an .ics feed. URLs are shown once, when a feed
+ * is created or reset.
+ */
+export function CalendarFeedsCard() {
+  const [feeds, setFeeds] = useState<CalendarFeedSummary[]>([])
+  const [sites, setSites] = useState<FeedSite[]>([])
+  const [siteId, setSiteId] = useState("")
+  const [loading, setLoading] = useState(true)
+  const [busy, setBusy] = useState(false)
+  const [newUrl, setNewUrl] = useState<string | null>(null)
+
+  const loadFeeds = useCallback(async () => {
+    const result = await safeFetchApi<{ feeds: CalendarFeedSummary[]; sites: FeedSite[] }>(
+      "/api/calendar-feeds"
+    )
+    if (result.success && result.data) {
+      setFeeds(result.data.feeds)
+      setSites(result.data.sites)
+    } else {
+      toast.error(result.error || "Failed to load calendar feeds")
+    }
+    setLoading(false)
+  }, [])
+
+  useEffect(() => {
+    loadFeeds()
+  }, [loadFeeds])
+
+  const issueFeed = async (target: FeedTarget, existing?: CalendarFeedSummary) => {
+    if (
+      existing &&
+      !confirm("Reset this calendar URL? Calendars using the old URL stop updating.")
+    ) {
+      return
+    }
+    setBusy(true)
+    const result = await safeFetchApi<{ url: string }>("/api/calendar-feeds", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(target),
+    })
+    setBusy(false)
+
+    if (!result.success || !result.data) {
+      toast.error(result.error || "Failed to create calendar feed")
+      return
+    }
+    setNewUrl(result.data.url)
+    await loadFeeds()
+  }
+
+  const removeFeed = async (feed: CalendarFeedSummary) => {
+    if (!confirm("Remove this calendar feed? Subscribed calendars stop updating.")) return
+    const result = await safeFetchApi(`/api/calendar-feeds/${feed.id}`, { method: "DELETE" })
+    if (!result.success) {
+      toast.error(result.error || "Failed to remove calendar feed")
+      return
+    }
+    toast.success("Calendar feed removed")
+    await loadFeeds()
+  }
+
+  const copyUrl = async () => {
+    if (!newUrl) return
+    await navigator.clipboard.writeText(newUrl)
+    toast.success("Calendar URL copied")
+  }
+
+  const targetOf = (feed: CalendarFeedSummary): FeedTarget =>
+    feed.kind === "SITE" && feed.clinicalSiteId
+      ? { kind: "SITE", clinicalSiteId: feed.clinicalSiteId }
+      : { kind: "PERSONAL" }
+
+  const hasPersonalFeed = feeds.some((feed) => feed.kind === "PERSONAL")
+  const availableSites = sites.filter(
+    (site) => !feeds.some((feed) => feed.clinicalSiteId === site.id)
+  )
+
+  return (
+    <Card>
+      <CardHeader className="flex-row items-start gap-4 space-y-0">
+        <div className="rounded-lg bg-muted p-2">
+          <CalendarDays className="h-8 w-8 text-blue-500" />
+        </div>
+        <div>
+          <CardTitle className="text-base">Calendar Subscriptions</CardTitle>
+          <CardDescription className="mt-1">
+            Subscribe from Google Calendar, Outlook or Apple Calendar to see rotations, meetings and
+            compliance due dates. Changes show up the next time your calendar refreshes.
+          </CardDescription>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {newUrl && (
+          <div className="space-y-2 rounded-md border border-primary p-3">
+            <p className="text-sm">
+              Copy this URL into your calendar app&apos;s &quot;subscribe by URL&quot; option. It
+              will not be shown again; anyone with it can see this calendar.
+            </p>
+            <div className="flex items-center space-x-2">
+              <Input value={newUrl} readOnly className="font-mono text-xs" />
+              <Button type="button" variant="outline" size="icon" onClick={copyUrl}>
+                <Copy className="h-4 w-4" />
+              </Button>
+            </div>
+            <Button type="button" variant="ghost" size="sm" onClick={() => setNewUrl(null)}>
+              Done
+            </Button>
+          </div>
+        )}
+
+        {loading ? (
+          <p className="text-muted-foreground text-sm">Loading...</p>
+        ) : (
+          feeds.map((feed) => (
+            <div key={feed.id} className="flex items-center justify-between rounded-md border p-3">
+              <div>
+                <p className="font-medium text-sm">
+                  {feed.kind === "SITE"
+                    ? `Site: ${feed.siteName ?? "Unknown site"}`
+                    : "My calendar"}
+                </p>
+                <p className="text-muted-foreground text-xs">
+                  Last synced{" "}
+                  {feed.lastAccessedAt ? new Date(feed.lastAccessedAt).toLocaleString() : "never"}
+                </p>
+              </div>
+              <div className="flex gap-2">
+                <Button
+                  type="button"
+                  variant="outline"
+                  size="sm"
+                  disabled={busy}
+                  onClick={() => issueFeed(targetOf(feed), feed)}
+                >
+                  <RefreshCw className="mr-1 h-4 w-4" />
+                  Reset URL
+                </Button>
+                <Button
+                  type="button"
+                  variant="outline"
+                  size="icon"
+                  className="text-destructive"
+                  onClick={() => removeFeed(feed)}
+                  aria-label="Remove calendar feed"
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            </div>
+          ))
+        )}
+
+        <div className="flex flex-wrap gap-2">
+          {!loading && !hasPersonalFeed && (
+            <Button type="button" disabled={busy} onClick={() => issueFeed({ kind: "PERSONAL" })}>
+              Create my calendar URL
+            </Button>
+          )}
+          {availableSites.length > 0 && (
+            <>
+              <Select value={siteId} onValueChange={setSiteId}>
+                <SelectTrigger className="w-[220px]">
+                  <SelectValue placeholder="Choose a clinical site" />
+                </SelectTrigger>
+                <SelectContent>
+                  {availableSites.map((site) => (
+                    <SelectItem key={site.id} value={site.id}>
+                      {site.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Button
+                type="button"
+                variant="outline"
+                disabled={busy || !siteId}
+                onClick={async () => {
+                  await issueFeed({ kind: "SITE", clinicalSiteId: siteId })
+                  setSiteId("")
+                }}
+              >
+                Create site calendar URL
+              </Button>
+            </>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  )
+}
@@ -19,6 +19,8 @@ import {
   Users,
   Play,
   Loader2,
+  Building2,
+  AlertTriangle,
 } from "lucide-react"
 import { Button } from "@/components/ui/button"
 import { Input } from "@/components/ui/input"
@@ -111,6 +113,43 @@ interface Stats {
   completedAssignments: number
 }
 
+interface ScheduleConflict {
+  type: string
+  severity: "HARD" | "SOFT"
+  rotationId: string
+  studentId?: string
+  startDate?: string
+  endDate?: string
+  message: string
+  suggestedFix: string
+}
+
+interface ConflictReview {
+  assignmentId: string
+  conflicts: ScheduleConflict[]
+  // Set when a publish or generate request was rejected
+  blockedAction?: string
+}
+
+interface AllocationPreview {
+  assignmentId: string
+  strategy: "balanced" | "priority"
+  toAssign: number
+  skipped: number
+  sites: Array<{
+    clinicalSiteId: string
+    name: string
+    capacity: number
+    occupied: number
+    available: number
+    allocatedCount: number
+  }>
+  excludedSites: Array<{ clinicalSiteId: string; name: string; reason: string }>
+  unallocated: Array<{ id: string; name: string | null }>
+  allocations: Array<{ studentId: string; clinicalSiteId: string }>
+  conflicts: ScheduleConflict[]
+}
+
 interface CohortRotationsClientProps {
   assignments: CohortRotationAssignment[]
   cohorts: Cohort[]
@@ -137,6 +176,8 @@ export function CohortRotationsClient({
   const [isSubmitting, setIsSubmitting] = useState(false)
   const [deleteConfirmId, setDeleteConfirmId] = useState<string | null>(null)
   const [generatingId, setGeneratingId] = useState<string | null>(null)
+  const [allocationPreview, setAllocationPreview] = useState<AllocationPreview | null>(null)
+  const [conflictReview, setConflictReview] = useState<ConflictReview | null>(null)
 
   // Form state
   const [formData, setFormData] = useState({
@@ -238,6 +279,9 @@ export function CohortRotationsClient({
 
       if (!response.ok) {
         const data = await response.json()
+        if (editingAssignment && showBlockingConflicts(editingAssignment.id, data, "Publishing")) {
+          return
+        }
         throw new Error(data.error || "Failed to save assignment")
       }
 
@@ -277,6 +321,39 @@ export function CohortRotationsClient({
     }
   }
 
+  // Hard conflicts come back as a 409 with the conflict list in details
+  const showBlockingConflicts = (
+    assignmentId: string,
+    data: { error?: string; details?: { conflicts?: ScheduleConflict[] } },
+    action: string
+  ) => {
+    const conflicts = data.details?.conflicts
+    if (!conflicts?.length) return false
+    setConflictReview({ assignmentId, conflicts, blockedAction: action })
+    toast.error(data.error || "Resolve schedule conflicts first")
+    return true
+  }
+
+  const handleCheckConflicts = async (assignmentId: string) => {
+    setGeneratingId(assignmentId)
+    try {
+      const response = await fetch(
+        `/api/schedule/conflicts?cohortRotationAssignmentId=${encodeURIComponent(assignmentId)}`
+      )
+      const data = await response.json()
+
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to check conflicts")
+      }
+
+      setConflictReview({ assignmentId, conflicts: data.data.conflicts })
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to check conflicts")
+    } finally {
+      setGeneratingId(null)
+    }
+  }
+
   const handleGenerateRotations = async (assignmentId: string) => {
     setGeneratingId(assignmentId)
     try {
@@ -289,6 +366,7 @@ export function CohortRotationsClient({
       const data = await response.json()
 
       if (!response.ok) {
+        if (showBlockingConflicts(assignmentId, data, "Generating rotations")) return
         throw new Error(data.error || "Failed to generate rotations")
       }
 
@@ -301,6 +379,73 @@ export function CohortRotationsClient({
     }
   }
 
+  const handlePreviewAllocation = async (
+    assignmentId: string,
+    strategy: AllocationPreview["strategy"] = "balanced"
+  ) => {
+    setGeneratingId(assignmentId)
+    try {
+      const response = await fetch("/api/cohort-rotations/generate", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          cohortRotationAssignmentId: assignmentId,
+          mode: "auto",
+          strategy,
+          preview: true,
+        }),
+      })
+
+      const data = await response.json()
+
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to preview allocation")
+      }
+
+      setAllocationPreview({ assignmentId, ...data.data })
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to preview allocation")
+    } finally {
+      setGeneratingId(null)
+    }
+  }
+
+  const handleCommitAllocation = async () => {
+    if (!allocationPreview) return
+    setIsSubmitting(true)
+    try {
+      const response = await fetch("/api/cohort-rotations/generate", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          cohortRotationAssignmentId: allocationPreview.assignmentId,
+          mode: "auto",
+          strategy: allocationPreview.strategy,
+          allocations: allocationPreview.allocations,
+          allowPartial: allocationPreview.unallocated.length > 0,
+        }),
+      })
+
+      const data = await response.json()
+
+      if (!response.ok) {
+        if (showBlockingConflicts(allocationPreview.assignmentId, data, "Creating rotations")) {
+          setAllocationPreview(null)
+          return
+        }
+        throw new Error(data.error || "Failed to generate rotations")
+      }
+
+      toast.success(data.message || `Generated ${data.data.created} rotations`)
+      setAllocationPreview(null)
+      router.refresh()
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to generate rotations")
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
+
   const filteredAssignments = assignments.filter((assignment) => {
     const matchesSearch =
       assignment.cohortName?.toLowerCase().includes(searchTerm.toLowerCase()) ||
@@ -536,6 +681,19 @@ export function CohortRotationsClient({
                             </Button>
                           </DropdownMenuTrigger>
                           <DropdownMenuContent align="end">
+                            {assignment.status !== "CANCELLED" &&
+                              assignment.status !== "COMPLETED" && (
+                                <DropdownMenuItem
+                                  onClick={() => handlePreviewAllocation(assignment.id)}
+                                >
+                                  <Building2 className="mr-2 h-4 w-4" /> Allocate across sites
+                                </DropdownMenuItem>
+                              )}
+                            {assignment.status !== "CANCELLED" && (
+                              <DropdownMenuItem onClick={() => handleCheckConflicts(assignment.id)}>
+                                <AlertTriangle className="mr-2 h-4 w-4" /> Check conflicts
+                              </DropdownMenuItem>
+                            )}
                             <DropdownMenuItem onClick={() => openEditModal(assignment)}>
                               <Edit className="mr-2 h-4 w-4" /> Edit
                             </DropdownMenuItem>
@@ -746,6 +904,150 @@ export function CohortRotationsClient({
         </DialogContent>
       </Dialog>
 
+      {/* Site Allocation Preview Dialog */}
+      <Dialog open={!!allocationPreview} onOpenChange={() => setAllocationPreview(null)}>
+        <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>Allocate Students Across Sites</DialogTitle>
+            <DialogDescription>
+              Review the proposed placement before rotations are created. Capacity accounts for
+              seats already taken by other cohorts during these dates.
+            </DialogDescription>
+          </DialogHeader>
+
+          {allocationPreview && (
+            <div className="space-y-4">
+              <div className="flex items-center justify-between gap-4">
+                <p className="text-sm text-muted-foreground">
+                  {allocationPreview.toAssign} students need placement
+                  {allocationPreview.skipped > 0 &&
+                    ` • ${allocationPreview.skipped} already assigned`}
+                </p>
+                <Select
+                  value={allocationPreview.strategy}
+                  onValueChange={(value) =>
+                    handlePreviewAllocation(
+                      allocationPreview.assignmentId,
+                      value as AllocationPreview["strategy"]
+                    )
+                  }
+                >
+                  <SelectTrigger className="w-[200px]">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="balanced">Spread evenly</SelectItem>
+                    <SelectItem value="priority">Fill by priority</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Site</TableHead>
+                    <TableHead className="text-right">Capacity</TableHead>
+                    <TableHead className="text-right">Taken</TableHead>
+                    <TableHead className="text-right">Allocated</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {allocationPreview.sites.length === 0 ? (
+                    <TableRow>
+                      <TableCell colSpan={4} className="text-center text-muted-foreground">
+                        No linked sites have seats for these dates
+                      </TableCell>
+                    </TableRow>
+                  ) : (
+                    allocationPreview.sites.map((site) => (
+                      <TableRow key={site.clinicalSiteId}>
+                        <TableCell>{site.name}</TableCell>
+                        <TableCell className="text-right">{site.capacity}</TableCell>
+                        <TableCell className="text-right">{site.occupied}</TableCell>
+                        <TableCell className="text-right font-medium">
+                          {site.allocatedCount} / {site.available}
+                        </TableCell>
+                      </TableRow>
+                    ))
+                  )}
+                </TableBody>
+              </Table>
+
+              {allocationPreview.excludedSites.length > 0 && (
+                <div className="space-y-1 text-sm">
+                  <p className="font-medium">Excluded sites</p>
+                  {allocationPreview.excludedSites.map((site) => (
+                    <p key={site.clinicalSiteId} className="text-muted-foreground">
+                      {site.name}: {site.reason}
+                    </p>
+                  ))}
+                </div>
+              )}
+
+              {allocationPreview.unallocated.length > 0 && (
+                <div className="rounded-md border border-amber-200 bg-amber-50 p-3 text-sm text-amber-800 dark:border-amber-900 dark:bg-amber-900/20 dark:text-amber-300">
+                  {allocationPreview.unallocated.length} students cannot be placed with current
+                  capacity:{" "}
+                  {allocationPreview.unallocated.map((s) => s.name || "Unnamed student").join(", ")}
+                </div>
+              )}
+
+              {allocationPreview.conflicts.length > 0 && (
+                <ConflictList conflicts={allocationPreview.conflicts} />
+              )}
+            </div>
+          )}
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setAllocationPreview(null)}>
+              Cancel
+            </Button>
+            <Button
+              onClick={handleCommitAllocation}
+              disabled={
+                isSubmitting ||
+                !allocationPreview?.allocations.length ||
+                allocationPreview.conflicts.some((c) => c.severity === "HARD")
+              }
+            >
+              {isSubmitting
+                ? "Creating..."
+                : `Create ${allocationPreview?.allocations.length ?? 0} Rotations`}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Schedule Conflicts Dialog */}
+      <Dialog open={!!conflictReview} onOpenChange={() => setConflictReview(null)}>
+        <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>Schedule Conflicts</DialogTitle>
+            <DialogDescription>
+              {conflictReview?.blockedAction
+                ? `${conflictReview.blockedAction} is blocked until the hard conflicts below are resolved.`
+                : "Hard conflicts block publishing; warnings can be published but should be reviewed."}
+            </DialogDescription>
+          </DialogHeader>
+
+          {conflictReview &&
+            (conflictReview.conflicts.length === 0 ? (
+              <div className="flex items-center gap-2 text-sm text-green-700 dark:text-green-400">
+                <CheckCircle className="h-4 w-4" />
+                No conflicts found for this assignment
+              </div>
+            ) : (
+              <ConflictList conflicts={conflictReview.conflicts} />
+            ))}
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setConflictReview(null)}>
+              Close
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
       {/* Delete Confirmation Dialog */}
       <Dialog open={!!deleteConfirmId} onOpenChange={() => setDeleteConfirmId(null)}>
         <DialogContent>
@@ -773,3 +1075,42 @@ export function CohortRotationsClient({
     </div>
   )
 }
+
+function ConflictList({ conflicts }: { conflicts: ScheduleConflict[] }) {
+  const hard = conflicts.filter((c) => c.severity === "HARD").length
+
+  return (
+    <div className="space-y-2">
+      <p className="text-sm font-medium">
+        {hard > 0 ? `${hard} blocking` : "No blocking"} conflict{hard === 1 ? "" : "s"}
+        {conflicts.length > hard && ` • ${conflicts.length - hard} warnings`}
+      </p>
+      <div className="max-h-72 space-y-2 overflow-y-auto">
+        {conflicts.map((conflict, index) => (
+          <div
+            key={`${conflict.type}-${conflict.rotationId}-${index}`}
+            className={cn(
+              "rounded-md border p-3 text-sm",
+              conflict.severity === "HARD"
+                ? "border-red-200 bg-red-50 dark:border-red-900 dark:bg-red-900/20"
+                : "border-amber-200 bg-amber-50 dark:border-amber-900 dark:bg-amber-900/20"
+            )}
+          >
+            <div className="flex items-center gap-2">
+              <Badge variant={conflict.severity === "HARD" ? "destructive" : "secondary"}>
+                {conflict.severity === "HARD" ? "Blocking" : "Warning"}
+              </Badge>
+              <span className="font-medium">{conflict.message}</span>
+            </div>
+            {conflict.startDate && conflict.endDate && (
+              <p className="mt-1 text-xs text-muted-foreground">
+                {conflict.startDate} – {conflict.endDate}
+              </p>
+            )}
+            <p className="mt-1 text-muted-foreground">Fix: {conflict.suggestedFix}</p>
+          </div>
+        ))}
+      </div>
+    </div>
+  )
+}
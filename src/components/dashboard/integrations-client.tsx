@@ -5,12 +5,10 @@ import {
   Search,
   CheckCircle,
   XCircle,
-  Shield,
   MessageSquare,
   Database,
   FileText,
   Cloud,
-  Mail,
 } from "lucide-react"
 import { Button } from "@/components/ui/button"
 import { Input } from "@/components/ui/input"
@@ -25,27 +23,20 @@ import {
 } from "@/components/ui/card"
 import { Switch } from "@/components/ui/switch"
 import { toast } from "sonner"
+import { CalendarFeedsCard } from "./calendar-feeds-card"
+import { WebhookEndpointsManager } from "./webhook-endpoints-manager"
 
 interface Integration {
   id: string
   name: string
   description: string
-  category: "auth" | "communication" | "ehr" | "storage" | "analytics"
+  category: "communication" | "ehr" | "storage" | "analytics"
   icon: React.ReactNode
   status: "connected" | "disconnected" | "pending"
   isPopular?: boolean
 }
 
 const MOCK_INTEGRATIONS: Integration[] = [
-  {
-    id: "google",
-    name: "Google Workspace",
-    description: "Sync calendars, contacts, and drive files.",
-    category: "auth",
-    icon: <Shield className="h-8 w-8 text-blue-500" />,
-    status: "connected",
-    isPopular: true,
-  },
   {
     id: "slack",
     name: "Slack",
@@ -87,17 +78,14 @@ const MOCK_INTEGRATIONS: Integration[] = [
     icon: <Cloud className="h-8 w-8 text-blue-700" />,
     status: "connected",
   },
-  {
-    id: "outlook",
-    name: "Outlook",
-    description: "Sync emails and calendar events.",
-    category: "communication",
-    icon: <Mail className="h-8 w-8 text-blue-500" />,
-    status: "connected",
-  },
 ]
 
-export function IntegrationsClient() {
+interface IntegrationsClientProps {
+  // School admins manage outbound webhooks from this page
+  canManageWebhooks?: boolean
+}
+
+export function IntegrationsClient({ canManageWebhooks = false }: IntegrationsClientProps) {
   const [integrations, setIntegrations] = useState(MOCK_INTEGRATIONS)
   const [searchQuery, setSearchQuery] = useState("")
   const [selectedCategory, setSelectedCategory] = useState<string>("all")
@@ -127,6 +115,21 @@ export function IntegrationsClient() {
 
   return (
     <div className="space-y-6">
+      <CalendarFeedsCard />
+
+      {canManageWebhooks && (
+        <section className="space-y-4">
+          <div>
+            <h2 className="font-semibold text-lg">Webhooks</h2>
+            <p className="text-muted-foreground text-sm">
+              Push time record, rotation, compliance, evaluation and enrollment events into your
+              own systems.
+            </p>
+          </div>
+          <WebhookEndpointsManager />
+        </section>
+      )}
+
       {/* Header & Filters */}
       <div className="flex flex-col gap-4 md:flex-row md:items-center justify-between">
         <div className="relative flex-1 max-w-md">
@@ -146,13 +149,6 @@ export function IntegrationsClient() {
           >
             All
           </Button>
-          <Button
-            variant={selectedCategory === "auth" ? "default" : "outline"}
-            onClick={() => setSelectedCategory("auth")}
-            size="sm"
-          >
-            Auth & Identity
-          </Button>
           <Button
             variant={selectedCategory === "communication" ? "default" : "outline"}
             onClick={() => setSelectedCategory("communication")}
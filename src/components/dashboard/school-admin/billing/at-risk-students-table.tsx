@@ -0,0 +1,69 @@
+import { Badge } from "@/components/ui/badge"
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table"
+import type { AtRiskStudent } from "@/lib/payments/dunning"
+
+interface AtRiskStudentsTableProps {
+  students: AtRiskStudent[]
+}
+
+export function AtRiskStudentsTable({ students }: AtRiskStudentsTableProps) {
+  return (
+    <div className="rounded-md border">
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead>Student</TableHead>
+            <TableHead>Email</TableHead>
+            <TableHead>Access</TableHead>
+            <TableHead>Read-only From</TableHead>
+            <TableHead>On Rotation</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {students.length === 0 ? (
+            <TableRow>
+              <TableCell colSpan={5} className="h-24 text-center">
+                No students have overdue subscription payments.
+              </TableCell>
+            </TableRow>
+          ) : (
+            students.map((student) => (
+              <TableRow key={student.id}>
+                <TableCell className="font-medium">{student.name || "Unknown"}</TableCell>
+                <TableCell>{student.email}</TableCell>
+                <TableCell>
+                  <Badge variant={student.access === "READ_ONLY" ? "destructive" : "secondary"}>
+                    {student.access === "READ_ONLY" ? "Read-only" : "Grace period"}
+                  </Badge>
+                </TableCell>
+                <TableCell>
+                  {student.access === "READ_ONLY"
+                    ? student.subscriptionStatus === "CANCELLED"
+                      ? "Cancelled"
+                      : "Now"
+                    : student.graceEndsAt?.toLocaleDateString()}
+                </TableCell>
+                <TableCell>
+                  {student.onActiveRotation ? (
+                    <Badge variant="outline" className="border-amber-500 text-amber-600">
+                      Yes
+                    </Badge>
+                  ) : (
+                    "No"
+                  )}
+                </TableCell>
+              </TableRow>
+            ))
+          )}
+        </TableBody>
+      </Table>
+    </div>
+  )
+}
@@ -1,22 +1,31 @@
 "use client"
 
+import { useRouter } from "next/navigation"
 import { useState } from "react"
 import { Button } from "@/components/ui/button"
 import { Input } from "@/components/ui/input"
 import { Label } from "@/components/ui/label"
 import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group"
+import { ChangePreviewSummary } from "@/components/shared/change-preview-summary"
+import { useChangePreview } from "@/hooks/use-change-preview"
 import { purchaseSeats } from "@/lib/payments/actions"
 import { toast } from "sonner"
 import { Loader2 } from "lucide-react"
 
 interface PurchaseSeatsFormProps {
   schoolId: string
+  // Seats are then added to the existing subscription instead of a new checkout
+  hasSeatSubscription: boolean
 }
 
-export function PurchaseSeatsForm({ schoolId }: PurchaseSeatsFormProps) {
+export function PurchaseSeatsForm({ schoolId, hasSeatSubscription }: PurchaseSeatsFormProps) {
+  const router = useRouter()
   const [quantity, setQuantity] = useState(5)
   const [interval, setInterval] = useState<"month" | "year">("month")
   const [loading, setLoading] = useState(false)
+  const preview = useChangePreview(
+    quantity >= 1 ? { type: "seat_purchase", schoolId, quantity, interval } : null
+  )
 
   const handlePurchase = async () => {
     setLoading(true)
@@ -26,11 +35,15 @@ export function PurchaseSeatsForm({ schoolId }: PurchaseSeatsFormProps) {
         quantity,
         interval,
         window.location.href, // Success URL
-        window.location.href // Cancel URL
+        window.location.href, // Cancel URL
+        preview.preview?.prorationDate
       )
 
       if (result.status && result.url) {
         window.location.href = result.url
+      } else if (result.status) {
+        toast.success(result.message || "Seats added")
+        router.refresh()
       } else {
         toast.error(result.message || "Failed to initiate purchase")
       }
@@ -53,11 +66,11 @@ export function PurchaseSeatsForm({ schoolId }: PurchaseSeatsFormProps) {
         >
           <div className="flex items-center space-x-2">
             <RadioGroupItem value="month" id="month" />
-            <Label htmlFor="month">Monthly ($10/seat)</Label>
+            <Label htmlFor="month">Monthly</Label>
           </div>
           <div className="flex items-center space-x-2">
             <RadioGroupItem value="year" id="year" />
-            <Label htmlFor="year">Annual ($100/seat)</Label>
+            <Label htmlFor="year">Annual</Label>
           </div>
         </RadioGroup>
       </div>
@@ -73,16 +86,15 @@ export function PurchaseSeatsForm({ schoolId }: PurchaseSeatsFormProps) {
         />
       </div>
 
-      <div className="pt-2">
-        <div className="flex justify-between text-sm mb-4">
-          <span>Total</span>
-          <span className="font-bold">
-            ${quantity * (interval === "month" ? 10 : 100)} / {interval}
-          </span>
-        </div>
-        <Button className="w-full" onClick={handlePurchase} disabled={loading || quantity < 1}>
+      <div className="space-y-4 pt-2">
+        <ChangePreviewSummary {...preview} />
+        <Button
+          className="w-full"
+          onClick={handlePurchase}
+          disabled={loading || preview.loading || !preview.preview || quantity < 1}
+        >
           {loading && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
-          Proceed to Checkout
+          {hasSeatSubscription ? "Add Seats" : "Proceed to Checkout"}
         </Button>
       </div>
     </div>
@@ -0,0 +1,93 @@
+"use client"
+
+import { useState } from "react"
+import { useRouter } from "next/navigation"
+import { Button } from "@/components/ui/button"
+import { Label } from "@/components/ui/label"
+import { Switch } from "@/components/ui/switch"
+import { reconcileSchoolSeats, setSeatAutoExpand } from "@/lib/payments/actions"
+import { toast } from "sonner"
+import { Loader2 } from "lucide-react"
+
+interface SeatAutomationSettingsProps {
+  schoolId: string
+  autoExpand: boolean
+  // Automatic purchases go through an existing seat subscription
+  hasSeatSubscription: boolean
+}
+
+export function SeatAutomationSettings({
+  schoolId,
+  autoExpand,
+  hasSeatSubscription,
+}: SeatAutomationSettingsProps) {
+  const router = useRouter()
+  const [enabled, setEnabled] = useState(autoExpand)
+  const [saving, setSaving] = useState(false)
+  const [reconciling, setReconciling] = useState(false)
+
+  const handleToggle = async (checked: boolean) => {
+    setSaving(true)
+    try {
+      const result = await setSeatAutoExpand(schoolId, checked)
+      if (result.status) {
+        setEnabled(checked)
+        toast.success(result.message)
+        router.refresh()
+      } else {
+        toast.error(result.message)
+      }
+    } catch (error) {
+      toast.error("An error occurred")
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const handleReconcile = async () => {
+    setReconciling(true)
+    try {
+      const result = await reconcileSchoolSeats(schoolId)
+      if (result.status) {
+        toast.success(result.message)
+        router.refresh()
+      } else {
+        toast.error(result.message)
+      }
+    } catch (error) {
+      toast.error("An error occurred")
+    } finally {
+      setReconciling(false)
+    }
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-start justify-between gap-4">
+        <div className="space-y-1">
+          <Label htmlFor="seat-auto-expand">Purchase seats automatically</Label>
+          <p className="text-sm text-muted-foreground">
+            {hasSeatSubscription
+              ? "When every seat is in use, add seats to your subscription instead of turning new students away."
+              : "Available after your first seat purchase."}
+          </p>
+        </div>
+        <Switch
+          id="seat-auto-expand"
+          checked={enabled}
+          disabled={saving || (!hasSeatSubscription && !enabled)}
+          onCheckedChange={handleToggle}
+        />
+      </div>
+      <div className="flex items-center justify-between gap-4">
+        <p className="text-sm text-muted-foreground">
+          Seats held by graduated, withdrawn or departed students are released every night.
+        </p>
+        <Button variant="outline" size="sm" onClick={handleReconcile} disabled={reconciling}>
+          {reconciling && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+          Recheck Now
+        </Button>
+      </div>
+    </div>
+  )
+}
@@ -21,6 +21,7 @@ import {
 } from "lucide-react"
 import { format } from "date-fns"
 import { safeFetchApi } from "@/lib/safe-fetch"
+import { openDocument } from "@/lib/documents-client"
 import { DashboardBackground } from "@/components/dashboard/dashboard-background"
 import { motion } from "framer-motion"
 
@@ -30,6 +31,7 @@ interface SubmissionWithDetails {
     status: "PENDING" | "APPROVED" | "REJECTED" | "EXPIRED"
     createdAt: string
     notes: string
+    documentId: string | null
   }
   requirement: {
     name: string
@@ -89,6 +91,11 @@ export default function AdminComplianceClient({ userId }: { userId: string }) {
     }
   }
 
+  const handleViewDocument = async (documentId: string) => {
+    const res = await openDocument(documentId)
+    if (!res.success) toast.error(res.error || "Failed to open document")
+  }
+
   if (isLoading) {
     return (
       <div className="flex items-center justify-center min-h-[400px]">
@@ -212,14 +219,20 @@ export default function AdminComplianceClient({ userId }: { userId: string }) {
                             </div>
                           </div>
                           <div className="flex items-center gap-2 w-full sm:w-auto">
-                            <Button
-                              variant="outline"
-                              size="sm"
-                              className="flex-1 sm:flex-none gap-1.5"
-                            >
-                              <ExternalLink className="h-3.5 w-3.5" />
-                              View Doc
-                            </Button>
+                            {sub.submission.documentId && (
+                              <Button
+                                variant="outline"
+                                size="sm"
+                                className="flex-1 sm:flex-none gap-1.5"
+                                onClick={() =>
+                                  sub.submission.documentId &&
+                                  handleViewDocument(sub.submission.documentId)
+                                }
+                              >
+                                <ExternalLink className="h-3.5 w-3.5" />
+                                View Doc
+                              </Button>
+                            )}
                             <Button
                               variant="outline"
                               size="sm"
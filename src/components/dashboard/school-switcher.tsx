@@ -0,0 +1,66 @@
+"use client"
+
+import { Building2 } from "lucide-react"
+import { useRouter } from "next/navigation"
+import { useState } from "react"
+import { toast } from "sonner"
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select"
+import { safeFetchApi } from "@/lib/safe-fetch"
+
+interface SchoolSwitcherProps {
+  schools: { id: string; name: string }[]
+  activeSchoolId: string | null
+}
+
+/**
+ * Lets a preceptor who teaches for several schools choose whose students they see.
+ */
+export function SchoolSwitcher({ schools, activeSchoolId }: SchoolSwitcherProps) {
+  const router = useRouter()
+  const [value, setValue] = useState(activeSchoolId ?? undefined)
+  const [switching, setSwitching] = useState(false)
+
+  const switchSchool = async (schoolId: string) => {
+    const previous = value
+    setValue(schoolId)
+    setSwitching(true)
+    const result = await safeFetchApi("/api/user/active-school", {
+      method: "PUT",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ schoolId }),
+    })
+    setSwitching(false)
+
+    if (!result.success) {
+      setValue(previous)
+      toast.error(result.error || "Failed to switch school")
+      return
+    }
+    router.refresh()
+  }
+
+  return (
+    <div className="flex items-center gap-2 text-sm">
+      <Building2 className="h-4 w-4 text-muted-foreground" />
+      <span className="text-muted-foreground">Viewing students from</span>
+      <Select value={value} onValueChange={switchSchool} disabled={switching}>
+        <SelectTrigger className="w-56">
+          <SelectValue placeholder="Select a school" />
+        </SelectTrigger>
+        <SelectContent>
+          {schools.map((school) => (
+            <SelectItem key={school.id} value={school.id}>
+              {school.name}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+    </div>
+  )
+}
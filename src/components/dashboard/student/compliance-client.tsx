@@ -1,6 +1,6 @@
 "use client"
 
-import { useState, useEffect } from "react"
+import { useState, useEffect, useRef } from "react"
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
 import { Badge } from "@/components/ui/badge"
 import { Button } from "@/components/ui/button"
@@ -18,6 +18,7 @@ import {
 } from "lucide-react"
 import { format, isPast, isWithinInterval, addDays } from "date-fns"
 import { safeFetchApi } from "@/lib/safe-fetch"
+import { openDocument, uploadDocument } from "@/lib/documents-client"
 import { DashboardBackground } from "@/components/dashboard/dashboard-background"
 import { motion } from "framer-motion"
 
@@ -35,7 +36,7 @@ interface ComplianceSubmission {
   requirementId: string
   status: "PENDING" | "APPROVED" | "REJECTED" | "EXPIRED"
   submissionData: any
-  documentId: string
+  documentId: string | null
   notes: string
   expiresAt: string | null
 }
@@ -47,6 +48,9 @@ interface RequirementWithSubmission extends ComplianceRequirement {
 export default function StudentComplianceClient({ userId }: { userId: string }) {
   const [requirements, setRequirements] = useState<RequirementWithSubmission[]>([])
   const [isLoading, setIsLoading] = useState(true)
+  const [uploadingId, setUploadingId] = useState<string | null>(null)
+  const fileInputRef = useRef<HTMLInputElement>(null)
+  const pendingRequirementRef = useRef<RequirementWithSubmission | null>(null)
 
   useEffect(() => {
     fetchComplianceData()
@@ -82,6 +86,66 @@ export default function StudentComplianceClient({ userId }: { userId: string })
     }
   }
 
+  const submitRequirement = async (
+    req: RequirementWithSubmission,
+    payload: { documentId?: string; submissionData?: Record<string, unknown> }
+  ) => {
+    const res = await safeFetchApi("/api/compliance/submissions", {
+      method: "POST",
+      body: JSON.stringify({ requirementId: req.id, ...payload }),
+    })
+    if (!res.success) throw new Error(res.error || "Failed to submit requirement")
+  }
+
+  const handleSubmitClick = (req: RequirementWithSubmission) => {
+    if (req.type !== "DOCUMENT") {
+      setUploadingId(req.id)
+      submitRequirement(req, { submissionData: { confirmedAt: new Date().toISOString() } })
+        .then(() => {
+          toast.success(`${req.name} submitted for review`)
+          fetchComplianceData()
+        })
+        .catch((error) => toast.error(error instanceof Error ? error.message : "Submit failed"))
+        .finally(() => setUploadingId(null))
+      return
+    }
+    pendingRequirementRef.current = req
+    fileInputRef.current?.click()
+  }
+
+  const handleFileSelected = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0]
+    const req = pendingRequirementRef.current
+    event.target.value = ""
+    if (!file || !req) return
+
+    setUploadingId(req.id)
+    try {
+      const upload = await uploadDocument(file, {
+        documentType: "medical",
+        relatedEntityType: "user",
+        relatedEntityId: userId,
+      })
+      if (!upload.success || !upload.data) {
+        throw new Error(upload.error || "Upload failed")
+      }
+
+      await submitRequirement(req, { documentId: upload.data.id })
+      toast.success(`${req.name} uploaded for review`)
+      fetchComplianceData()
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Upload failed")
+    } finally {
+      setUploadingId(null)
+      pendingRequirementRef.current = null
+    }
+  }
+
+  const handleViewDocument = async (documentId: string) => {
+    const res = await openDocument(documentId)
+    if (!res.success) toast.error(res.error || "Failed to open document")
+  }
+
   const getStatusBadge = (req: RequirementWithSubmission) => {
     if (!req.submission) {
       return (
@@ -145,6 +209,13 @@ export default function StudentComplianceClient({ userId }: { userId: string })
   return (
     <div className="relative min-h-screen w-full">
       <DashboardBackground />
+      <input
+        ref={fileInputRef}
+        type="file"
+        accept="application/pdf,image/jpeg,image/png"
+        className="hidden"
+        onChange={handleFileSelected}
+      />
 
       <div className="relative z-10 space-y-6 max-w-5xl mx-auto">
         <header className="flex flex-col gap-2">
@@ -238,7 +309,15 @@ export default function StudentComplianceClient({ userId }: { userId: string })
                       {getStatusBadge(req)}
                       <div className="flex gap-2">
                         {req.submission?.documentId && (
-                          <Button variant="outline" size="sm" className="h-8 gap-1.5">
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            className="h-8 gap-1.5"
+                            onClick={() =>
+                              req.submission?.documentId &&
+                              handleViewDocument(req.submission.documentId)
+                            }
+                          >
                             <ExternalLink className="h-3.5 w-3.5" />
                             View
                           </Button>
@@ -247,9 +326,15 @@ export default function StudentComplianceClient({ userId }: { userId: string })
                           size="sm"
                           className="h-8 gap-1.5"
                           variant={req.submission ? "secondary" : "default"}
+                          disabled={uploadingId === req.id}
+                          onClick={() => handleSubmitClick(req)}
                         >
                           <FileUp className="h-3.5 w-3.5" />
-                          {req.submission ? "Update" : "Submit"}
+                          {uploadingId === req.id
+                            ? "Uploading..."
+                            : req.submission
+                              ? "Update"
+                              : "Submit"}
                         </Button>
                       </div>
                     </div>
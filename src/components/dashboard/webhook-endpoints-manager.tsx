@@ -0,0 +1,405 @@
+"use client"
+
+import { Copy, Plus, RefreshCw, RotateCcw, Trash2, Webhook } from "lucide-react"
+import { useCallback, useEffect, useId, useState } from "react"
+import { toast } from "sonner"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Checkbox } from "@/components/ui/checkbox"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Switch } from "@/components/ui/switch"
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table"
+import { safeFetchApi } from "@/lib/safe-fetch"
+import {
+  WEBHOOK_EVENT_LABELS,
+  WEBHOOK_EVENT_TYPES,
+  type WebhookEventType,
+} from "@/lib/webhook-events"
+
+interface WebhookEndpointSummary {
+  id: string
+  url: string
+  description: string | null
+  events: string[]
+  isActive: boolean
+  createdAt: string
+}
+
+interface WebhookDeliverySummary {
+  id: string
+  endpointId: string
+  endpointUrl: string
+  eventType: string
+  status: "PENDING" | "SUCCEEDED" | "FAILED"
+  attempts: number
+  responseStatus: number | null
+  error: string | null
+  replayOf: string | null
+  lastAttemptAt: string | null
+  createdAt: string
+}
+
+const STATUS_VARIANTS = {
+  PENDING: "secondary",
+  SUCCEEDED: "default",
+  FAILED: "destructive",
+} as const
+
+/**
+ * Outbound webhook endpoints for the current school and their delivery log.
+ */
+export function WebhookEndpointsManager() {
+  const urlId = useId()
+  const descriptionId = useId()
+  const secretId = useId()
+  const [endpoints, setEndpoints] = useState<WebhookEndpointSummary[]>([])
+  const [deliveries, setDeliveries] = useState<WebhookDeliverySummary[]>([])
+  const [loading, setLoading] = useState(true)
+  const [url, setUrl] = useState("")
+  const [description, setDescription] = useState("")
+  const [events, setEvents] = useState<WebhookEventType[]>([])
+  const [creating, setCreating] = useState(false)
+  const [newSecret, setNewSecret] = useState<string | null>(null)
+
+  const loadEndpoints = useCallback(async () => {
+    const result = await safeFetchApi<{ endpoints: WebhookEndpointSummary[] }>(
+      "/api/webhook-endpoints"
+    )
+    if (result.success && result.data) {
+      setEndpoints(result.data.endpoints)
+    } else {
+      toast.error(result.error || "Failed to load webhook endpoints")
+    }
+    setLoading(false)
+  }, [])
+
+  const loadDeliveries = useCallback(async () => {
+    const result = await safeFetchApi<{ deliveries: WebhookDeliverySummary[] }>(
+      "/api/webhook-deliveries?limit=50"
+    )
+    if (result.success && result.data) {
+      setDeliveries(result.data.deliveries)
+    }
+  }, [])
+
+  useEffect(() => {
+    loadEndpoints()
+    loadDeliveries()
+  }, [loadEndpoints, loadDeliveries])
+
+  const toggleEvent = (event: WebhookEventType, checked: boolean) => {
+    setEvents((prev) => (checked ? [...prev, event] : prev.filter((e) => e !== event)))
+  }
+
+  const createEndpoint = async () => {
+    setCreating(true)
+    const result = await safeFetchApi<{ endpoint: WebhookEndpointSummary; secret: string }>(
+      "/api/webhook-endpoints",
+      {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ url, description: description || undefined, events }),
+      }
+    )
+    setCreating(false)
+
+    if (!result.success || !result.data) {
+      toast.error(result.error || "Failed to add webhook endpoint")
+      return
+    }
+    setNewSecret(result.data.secret)
+    setUrl("")
+    setDescription("")
+    setEvents([])
+    await loadEndpoints()
+  }
+
+  const updateEndpoint = async (
+    endpoint: WebhookEndpointSummary,
+    changes: { isActive?: boolean; rotateSecret?: boolean }
+  ) => {
+    const result = await safeFetchApi<{ endpoint: WebhookEndpointSummary; secret?: string }>(
+      `/api/webhook-endpoints/${endpoint.id}`,
+      {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(changes),
+      }
+    )
+    if (!result.success || !result.data) {
+      toast.error(result.error || "Failed to update webhook endpoint")
+      return
+    }
+    if (result.data.secret) setNewSecret(result.data.secret)
+    await loadEndpoints()
+  }
+
+  const rotateSecret = async (endpoint: WebhookEndpointSummary) => {
+    if (!confirm(`Rotate the signing secret for ${endpoint.url}? The old secret stops working.`)) {
+      return
+    }
+    await updateEndpoint(endpoint, { rotateSecret: true })
+  }
+
+  const deleteEndpoint = async (endpoint: WebhookEndpointSummary) => {
+    if (!confirm(`Delete ${endpoint.url}? Its delivery log is deleted too.`)) return
+    const result = await safeFetchApi(`/api/webhook-endpoints/${endpoint.id}`, {
+      method: "DELETE",
+    })
+    if (!result.success) {
+      toast.error(result.error || "Failed to delete webhook endpoint")
+      return
+    }
+    toast.success("Webhook endpoint deleted")
+    await Promise.all([loadEndpoints(), loadDeliveries()])
+  }
+
+  const replayDelivery = async (delivery: WebhookDeliverySummary) => {
+    const result = await safeFetchApi(`/api/webhook-deliveries/${delivery.id}/replay`, {
+      method: "POST",
+    })
+    if (!result.success) {
+      toast.error(result.error || "Failed to replay delivery")
+      return
+    }
+    toast.success("Delivery queued for replay")
+    await loadDeliveries()
+  }
+
+  const copySecret = async () => {
+    if (!newSecret) return
+    await navigator.clipboard.writeText(newSecret)
+    toast.success("Signing secret copied")
+  }
+
+  return (
+    <div className="space-y-6">
+      {newSecret && (
+        <Card className="border-primary">
+          <CardHeader>
+            <CardTitle>Signing Secret</CardTitle>
+            <CardDescription>
+              Copy this secret now; it will not be shown again. Each request carries an{" "}
+              <code>X-MedStint-Signature: t=&lt;timestamp&gt;,v1=&lt;hmac&gt;</code> header, an
+              HMAC-SHA256 of <code>&lt;timestamp&gt;.&lt;body&gt;</code> with this secret.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-2">
+            <Label htmlFor={secretId}>Secret</Label>
+            <div className="flex items-center space-x-2">
+              <Input id={secretId} value={newSecret} readOnly className="font-mono" />
+              <Button type="button" variant="outline" size="icon" onClick={copySecret}>
+                <Copy className="h-4 w-4" />
+              </Button>
+            </div>
+            <Button type="button" variant="ghost" size="sm" onClick={() => setNewSecret(null)}>
+              Done
+            </Button>
+          </CardContent>
+        </Card>
+      )}
+
+      <div className="grid gap-6 lg:grid-cols-2">
+        <Card>
+          <CardHeader>
+            <CardTitle>Add Webhook Endpoint</CardTitle>
+            <CardDescription>
+              MedStint POSTs a signed JSON event to this HTTPS URL and retries failures with
+              backoff.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor={urlId}>Endpoint URL</Label>
+              <Input
+                id={urlId}
+                value={url}
+                onChange={(e) => setUrl(e.target.value)}
+                placeholder="https://sis.example.edu/medstint/webhooks"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor={descriptionId}>Description</Label>
+              <Input
+                id={descriptionId}
+                value={description}
+                onChange={(e) => setDescription(e.target.value)}
+                placeholder="Registrar system"
+                maxLength={200}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Events</Label>
+              <div className="grid gap-2 sm:grid-cols-2">
+                {WEBHOOK_EVENT_TYPES.map((event) => (
+                  <div key={event} className="flex items-center space-x-2 text-sm">
+                    <Checkbox
+                      id={`${urlId}-${event}`}
+                      checked={events.includes(event)}
+                      onCheckedChange={(checked) => toggleEvent(event, checked === true)}
+                    />
+                    <Label htmlFor={`${urlId}-${event}`} className="font-normal">
+                      {WEBHOOK_EVENT_LABELS[event]}
+                    </Label>
+                  </div>
+                ))}
+              </div>
+            </div>
+            <Button
+              type="button"
+              className="w-full"
+              onClick={createEndpoint}
+              disabled={creating || !url.trim() || events.length === 0}
+            >
+              <Plus className="mr-2 h-4 w-4" />
+              {creating ? "Adding..." : "Add Endpoint"}
+            </Button>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Webhook Endpoints</CardTitle>
+            <CardDescription>Endpoints receiving your school&apos;s events.</CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-3">
+            {loading ? (
+              <p className="text-muted-foreground text-sm">Loading...</p>
+            ) : endpoints.length === 0 ? (
+              <p className="text-muted-foreground text-sm">No webhook endpoints yet.</p>
+            ) : (
+              endpoints.map((endpoint) => (
+                <div key={endpoint.id} className="space-y-2 rounded-md border p-3">
+                  <div className="flex items-start justify-between gap-2">
+                    <div className="min-w-0 space-y-1">
+                      <div className="flex items-center gap-2">
+                        <Webhook className="h-4 w-4 shrink-0 text-muted-foreground" />
+                        <span className="truncate font-mono text-sm">{endpoint.url}</span>
+                      </div>
+                      {endpoint.description && (
+                        <p className="text-muted-foreground text-xs">{endpoint.description}</p>
+                      )}
+                    </div>
+                    <Switch
+                      checked={endpoint.isActive}
+                      onCheckedChange={(checked) => updateEndpoint(endpoint, { isActive: checked })}
+                      aria-label={`Enable ${endpoint.url}`}
+                    />
+                  </div>
+                  <div className="flex flex-wrap gap-1">
+                    {endpoint.events.map((event) => (
+                      <Badge key={event} variant="outline" className="text-xs">
+                        {event}
+                      </Badge>
+                    ))}
+                  </div>
+                  <div className="flex gap-2">
+                    <Button
+                      type="button"
+                      variant="outline"
+                      size="sm"
+                      onClick={() => rotateSecret(endpoint)}
+                    >
+                      <RefreshCw className="mr-1 h-4 w-4" />
+                      Rotate Secret
+                    </Button>
+                    <Button
+                      type="button"
+                      variant="outline"
+                      size="sm"
+                      className="text-destructive"
+                      onClick={() => deleteEndpoint(endpoint)}
+                    >
+                      <Trash2 className="mr-1 h-4 w-4" />
+                      Delete
+                    </Button>
+                  </div>
+                </div>
+              ))
+            )}
+          </CardContent>
+        </Card>
+      </div>
+
+      <Card>
+        <CardHeader className="flex-row items-center justify-between space-y-0">
+          <div>
+            <CardTitle>Delivery Log</CardTitle>
+            <CardDescription>The 50 most recent webhook deliveries.</CardDescription>
+          </div>
+          <Button type="button" variant="outline" size="sm" onClick={loadDeliveries}>
+            <RefreshCw className="mr-1 h-4 w-4" />
+            Refresh
+          </Button>
+        </CardHeader>
+        <CardContent>
+          {deliveries.length === 0 ? (
+            <p className="text-muted-foreground text-sm">No deliveries yet.</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Event</TableHead>
+                  <TableHead>Endpoint</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead>Response</TableHead>
+                  <TableHead>Attempts</TableHead>
+                  <TableHead>Created</TableHead>
+                  <TableHead />
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {deliveries.map((delivery) => (
+                  <TableRow key={delivery.id}>
+                    <TableCell className="font-mono text-xs">
+                      {delivery.eventType}
+                      {delivery.replayOf && (
+                        <Badge variant="outline" className="ml-2 text-xs">
+                          replay
+                        </Badge>
+                      )}
+                    </TableCell>
+                    <TableCell className="max-w-[200px] truncate text-xs">
+                      {delivery.endpointUrl}
+                    </TableCell>
+                    <TableCell>
+                      <Badge variant={STATUS_VARIANTS[delivery.status]}>{delivery.status}</Badge>
+                    </TableCell>
+                    <TableCell className="text-xs" title={delivery.error ?? undefined}>
+                      {delivery.responseStatus ?? (delivery.error ? "Error" : "—")}
+                    </TableCell>
+                    <TableCell>{delivery.attempts}</TableCell>
+                    <TableCell className="text-xs">
+                      {new Date(delivery.createdAt).toLocaleString()}
+                    </TableCell>
+                    <TableCell>
+                      <Button
+                        type="button"
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => replayDelivery(delivery)}
+                        disabled={delivery.status === "PENDING"}
+                      >
+                        <RotateCcw className="mr-1 h-4 w-4" />
+                        Replay
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
@@ -0,0 +1,324 @@
+"use client"
+
+import { AlertTriangle, CheckCircle, Download, Lock, PenLine } from "lucide-react"
+import { useCallback, useEffect, useState } from "react"
+import { toast } from "sonner"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { Checkbox } from "@/components/ui/checkbox"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select"
+import { Separator } from "@/components/ui/separator"
+import { Textarea } from "@/components/ui/textarea"
+import { safeFetchApi } from "@/lib/safe-fetch"
+
+type SignerRole = "STUDENT" | "EVALUATOR"
+type CommentType = "ATTESTATION" | "REBUTTAL"
+
+interface SignatureState {
+  signature: { signedName: string; signedAt: string; contentHash: string }
+  valid: boolean
+}
+
+interface SigningStatus {
+  evaluator: SignatureState | null
+  student: SignatureState | null
+  contentHashes: Record<SignerRole, string>
+  fullySigned: boolean
+  locked: boolean
+  viewerRole: SignerRole | null
+}
+
+interface EvaluationDetail {
+  evaluation: {
+    id: string
+    type: string
+    studentComment: string | null
+    studentCommentType: CommentType | null
+    lockedAt: string | null
+  }
+  signing: SigningStatus
+}
+
+interface EvaluationSignatureDialogProps {
+  evaluationId: string
+  triggerLabel?: string
+}
+
+function SignatureRow({ label, state }: { label: string; state: SignatureState | null }) {
+  return (
+    <div className="flex items-center justify-between text-sm">
+      <span className="font-medium">{label}</span>
+      {!state ? (
+        <Badge variant="outline">Not signed</Badge>
+      ) : state.valid ? (
+        <span className="flex items-center gap-1 text-green-700">
+          <CheckCircle className="h-4 w-4" />
+          {state.signature.signedName}, {new Date(state.signature.signedAt).toLocaleString()}
+        </span>
+      ) : (
+        <span className="flex items-center gap-1 text-orange-600">
+          <AlertTriangle className="h-4 w-4" />
+          Content changed after signing
+        </span>
+      )}
+    </div>
+  )
+}
+
+/**
+ * Signature status for one evaluation plus the actions open to the viewer:
+ * the student's attestation or rebuttal, signing, and the certificate once
+ * both parties have signed.
+ */
+export function EvaluationSignatureDialog({
+  evaluationId,
+  triggerLabel = "Signatures",
+}: EvaluationSignatureDialogProps) {
+  const [open, setOpen] = useState(false)
+  const [detail, setDetail] = useState<EvaluationDetail | null>(null)
+  const [comment, setComment] = useState("")
+  const [commentType, setCommentType] = useState<CommentType>("ATTESTATION")
+  const [signedName, setSignedName] = useState("")
+  const [consent, setConsent] = useState(false)
+  const [busy, setBusy] = useState(false)
+
+  const load = useCallback(async () => {
+    const result = await safeFetchApi<EvaluationDetail>(`/api/evaluations/${evaluationId}`)
+    if (!result.success || !result.data) {
+      toast.error(result.error || "Failed to load evaluation")
+      return
+    }
+    setDetail(result.data)
+    setComment(result.data.evaluation.studentComment ?? "")
+    setCommentType(result.data.evaluation.studentCommentType ?? "ATTESTATION")
+  }, [evaluationId])
+
+  useEffect(() => {
+    if (open) load()
+  }, [open, load])
+
+  const saveComment = async () => {
+    setBusy(true)
+    const result = await safeFetchApi(`/api/evaluations/${evaluationId}/student-comment`, {
+      method: "PUT",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ comment: comment.trim() || null, type: commentType }),
+    })
+    setBusy(false)
+    if (!result.success) {
+      toast.error(result.error || "Failed to save comment")
+      return
+    }
+    toast.success("Comment saved")
+    await load()
+  }
+
+  const sign = async () => {
+    setBusy(true)
+    const result = await safeFetchApi(`/api/evaluations/${evaluationId}/sign`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ signedName, consent }),
+    })
+    setBusy(false)
+    if (!result.success) {
+      toast.error(result.error || "Failed to sign evaluation")
+      return
+    }
+    toast.success("Evaluation signed")
+    setSignedName("")
+    setConsent(false)
+    await load()
+  }
+
+  const downloadCertificate = async () => {
+    const result = await safeFetchApi<{ certificate: unknown }>(
+      `/api/evaluations/${evaluationId}/certificate`
+    )
+    if (!result.success || !result.data) {
+      toast.error(result.error || "Failed to issue certificate")
+      return
+    }
+    const blob = new Blob([JSON.stringify(result.data.certificate, null, 2)], {
+      type: "application/json",
+    })
+    const url = URL.createObjectURL(blob)
+    const link = document.createElement("a")
+    link.href = url
+    link.download = `evaluation-${evaluationId}-certificate.json`
+    link.click()
+    URL.revokeObjectURL(url)
+  }
+
+  const signing = detail?.signing
+  const viewerRole = signing?.viewerRole ?? null
+  const ownSignature =
+    viewerRole === "EVALUATOR"
+      ? signing?.evaluator
+      : viewerRole === "STUDENT"
+        ? signing?.student
+        : null
+  const canComment = viewerRole === "STUDENT" && !signing?.locked
+  const canSign =
+    !!viewerRole &&
+    !signing?.locked &&
+    !ownSignature?.valid &&
+    (viewerRole === "EVALUATOR" || !!signing?.evaluator?.valid)
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm">
+          <PenLine className="mr-1 h-4 w-4" />
+          {triggerLabel}
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Evaluation Signatures</DialogTitle>
+          <DialogDescription>
+            Each signature covers the evaluation exactly as shown. Editing the evaluation after
+            signing voids the signature until it is signed again.
+          </DialogDescription>
+        </DialogHeader>
+
+        {!signing || !detail ? (
+          <p className="text-muted-foreground text-sm">Loading...</p>
+        ) : (
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <SignatureRow label="Evaluator" state={signing.evaluator} />
+              <SignatureRow label="Student" state={signing.student} />
+              {signing.locked && (
+                <p className="flex items-center gap-1 text-muted-foreground text-sm">
+                  <Lock className="h-4 w-4" />
+                  Locked
+                  {detail.evaluation.lockedAt &&
+                    ` on ${new Date(detail.evaluation.lockedAt).toLocaleString()}`}
+                </p>
+              )}
+              <p className="break-all font-mono text-muted-foreground text-xs">
+                Content hash: {signing.contentHashes.EVALUATOR}
+              </p>
+            </div>
+
+            {(canComment || detail.evaluation.studentComment) && (
+              <>
+                <Separator />
+                <div className="space-y-2">
+                  <Label htmlFor={`student-comment-${evaluationId}`}>Student comment</Label>
+                  {canComment ? (
+                    <>
+                      <Select
+                        value={commentType}
+                        onValueChange={(value) => setCommentType(value as CommentType)}
+                      >
+                        <SelectTrigger className="w-[200px]">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="ATTESTATION">Attestation</SelectItem>
+                          <SelectItem value="REBUTTAL">Rebuttal</SelectItem>
+                        </SelectContent>
+                      </Select>
+                      <Textarea
+                        id={`student-comment-${evaluationId}`}
+                        value={comment}
+                        onChange={(e) => setComment(e.target.value)}
+                        maxLength={5000}
+                        rows={4}
+                      />
+                      <Button
+                        type="button"
+                        variant="outline"
+                        size="sm"
+                        disabled={busy}
+                        onClick={saveComment}
+                      >
+                        Save comment
+                      </Button>
+                    </>
+                  ) : (
+                    <p className="whitespace-pre-wrap text-sm">
+                      <Badge variant="outline" className="mr-2">
+                        {detail.evaluation.studentCommentType === "REBUTTAL"
+                          ? "Rebuttal"
+                          : "Attestation"}
+                      </Badge>
+                      {detail.evaluation.studentComment}
+                    </p>
+                  )}
+                </div>
+              </>
+            )}
+
+            {canSign && (
+              <>
+                <Separator />
+                <div className="space-y-3">
+                  <Label htmlFor={`signed-name-${evaluationId}`}>Type your full name to sign</Label>
+                  <Input
+                    id={`signed-name-${evaluationId}`}
+                    value={signedName}
+                    onChange={(e) => setSignedName(e.target.value)}
+                    autoComplete="name"
+                  />
+                  <div className="flex items-start gap-2">
+                    <Checkbox
+                      id={`consent-${evaluationId}`}
+                      checked={consent}
+                      onCheckedChange={(checked) => setConsent(checked === true)}
+                    />
+                    <Label htmlFor={`consent-${evaluationId}`} className="font-normal text-sm">
+                      I agree that typing my name is my electronic signature on this evaluation
+                      {viewerRole === "STUDENT" ? " and my comment above" : ""}.
+                    </Label>
+                  </div>
+                  <Button
+                    type="button"
+                    disabled={busy || !consent || signedName.trim().length < 2}
+                    onClick={sign}
+                  >
+                    Sign evaluation
+                  </Button>
+                </div>
+              </>
+            )}
+
+            {viewerRole === "STUDENT" && !signing.evaluator?.valid && !signing.locked && (
+              <p className="text-muted-foreground text-sm">
+                You can sign once your evaluator has signed.
+              </p>
+            )}
+
+            {signing.fullySigned && (
+              <>
+                <Separator />
+                <Button type="button" variant="outline" onClick={downloadCertificate}>
+                  <Download className="mr-1 h-4 w-4" />
+                  Download certificate
+                </Button>
+              </>
+            )}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -16,6 +16,7 @@ import {
   GraduationCap,
   ClipboardCheck,
   BarChart3,
+  Webhook,
 } from "lucide-react"
 import { Sidebar, type SidebarItem } from "./sidebar"
 import { Header } from "./header"
@@ -31,6 +32,8 @@ interface DashboardLayoutClientProps {
     schoolId: string | null
     programId: string | null
   }
+  // Rendered above the page, e.g. an overdue payment banner
+  notice?: React.ReactNode
 }
 
 // Map roles to navigation items using Lucide icons
@@ -46,6 +49,7 @@ function getNavItems(role: UserRole): SidebarItem[] {
         { name: "Schools", href: "/dashboard/admin/schools", icon: Building2 },
         { name: "Clinical Sites", href: "/dashboard/admin/sites", icon: Building2 },
         { name: "Audit Logs", href: "/dashboard/admin/audit", icon: FileText },
+        { name: "Webhooks", href: "/dashboard/admin/webhooks", icon: Webhook },
         ...baseItems,
       ]
     case "SCHOOL_ADMIN":
@@ -92,6 +96,7 @@ function getNavItems(role: UserRole): SidebarItem[] {
         { name: "Dashboard", href: "/dashboard/student", icon: LayoutDashboard },
         { name: "Rotations", href: "/dashboard/student/rotations", icon: Calendar },
         { name: "Time Records", href: "/dashboard/student/time-records", icon: Clock },
+        { name: "Evaluations", href: "/dashboard/student/evaluations", icon: FileText },
         { name: "Clinical Sites", href: "/dashboard/student/clinical-sites", icon: Building2 },
         ...baseItems,
       ]
@@ -107,7 +112,7 @@ function getHeaderTabs(role: UserRole, pathname: string) {
   return []
 }
 
-export function DashboardLayoutClient({ children, user }: DashboardLayoutClientProps) {
+export function DashboardLayoutClient({ children, user, notice }: DashboardLayoutClientProps) {
   const pathname = usePathname()
   const navItems = getNavItems(user.role)
   const headerTabs = getHeaderTabs(user.role, pathname)
@@ -140,6 +145,7 @@ export function DashboardLayoutClient({ children, user }: DashboardLayoutClientP
           />
 
           <div className="dashboard-content-scroll p-4 sm:p-6 lg:p-8 animate-fade-in">
+            {notice}
             {children}
           </div>
         </main>
@@ -2,8 +2,9 @@
 
 import { useState, useEffect } from "react"
 import Link from "next/link"
-import { usePathname } from "next/navigation"
+import { usePathname, useRouter } from "next/navigation"
 import { cn } from "@/lib/utils"
+import { safeFetchApi } from "@/lib/safe-fetch"
 import { Button } from "@/components/ui/button"
 import { Avatar, AvatarImage, AvatarFallback } from "@/components/ui/avatar"
 import { useUser, useClerk } from "@clerk/nextjs"
@@ -31,6 +32,13 @@ import {
 } from "lucide-react"
 import type { SidebarItem } from "./sidebar"
 
+interface HeaderNotification {
+  id: string
+  title: string
+  message: string
+  actionUrl: string | null
+}
+
 interface Tab {
   name: string
   href: string
@@ -53,21 +61,23 @@ export function Header({
   onToggleSidebar,
 }: HeaderProps) {
   const pathname = usePathname()
+  const router = useRouter()
   const [mobileMenuOpen, setMobileMenuOpen] = useState(false)
   const { user } = useUser()
   const { signOut } = useClerk()
-  const [notifications, setNotifications] = useState<any[]>([])
+  const [notifications, setNotifications] = useState<HeaderNotification[]>([])
   const [unreadCount, setUnreadCount] = useState(0)
   const [loading, setLoading] = useState(true)
 
   useEffect(() => {
     const fetchNotifications = async () => {
       try {
-        const res = await fetch("/api/notifications")
-        if (res.ok) {
-          const data = await res.json()
-          setNotifications(data)
-          setUnreadCount(data.length)
+        const res = await safeFetchApi<{ items: HeaderNotification[]; unreadCount: number }>(
+          "/api/notifications?status=unread&limit=10"
+        )
+        if (res.success && res.data) {
+          setNotifications(res.data.items)
+          setUnreadCount(res.data.unreadCount)
         }
       } catch (error) {
         console.error("Failed to fetch notifications", error)
@@ -81,6 +91,27 @@ export function Header({
     }
   }, [user])
 
+  const handleNotificationClick = async (notification: HeaderNotification) => {
+    setNotifications((current) => current.filter((n) => n.id !== notification.id))
+    setUnreadCount((count) => Math.max(0, count - 1))
+    await safeFetchApi("/api/notifications", {
+      method: "PATCH",
+      body: JSON.stringify({ ids: [notification.id], action: "read" }),
+    })
+    if (notification.actionUrl) router.push(notification.actionUrl)
+  }
+
+  const handleMarkAllRead = async () => {
+    const res = await safeFetchApi("/api/notifications/read-all", {
+      method: "POST",
+      body: JSON.stringify({}),
+    })
+    if (res.success) {
+      setNotifications([])
+      setUnreadCount(0)
+    }
+  }
+
   return (
     <TooltipProvider>
       <header className="relative z-50 px-4 sm:px-6 pt-4">
@@ -106,8 +137,17 @@ export function Header({
                 align="end"
                 sideOffset={12}
               >
-                <DropdownMenuLabel className="text-[var(--text-tertiary)]">
-                  Notifications
+                <DropdownMenuLabel className="text-[var(--text-tertiary)] flex items-center justify-between">
+                  <span>Notifications{unreadCount > 0 ? ` (${unreadCount})` : ""}</span>
+                  {unreadCount > 0 && (
+                    <button
+                      type="button"
+                      className="text-xs font-normal text-[var(--text-muted)] hover:text-white"
+                      onClick={handleMarkAllRead}
+                    >
+                      Mark all read
+                    </button>
+                  )}
                 </DropdownMenuLabel>
                 <DropdownMenuSeparator className="bg-[rgba(255,255,255,var(--ui-opacity-10))]" />
                 {loading ? (
@@ -120,6 +160,7 @@ export function Header({
                   notifications.map((notification) => (
                     <DropdownMenuItem
                       key={notification.id}
+                      onClick={() => handleNotificationClick(notification)}
                       className="text-[var(--text-secondary)] focus:bg-[rgba(255,255,255,var(--ui-opacity-10))] focus:text-white cursor-pointer flex-col items-start"
                     >
                       <span className="font-medium">{notification.title}</span>
@@ -0,0 +1,228 @@
+"use client"
+
+import { Download, Trash2, Undo2, Upload } from "lucide-react"
+import { type MouseEvent, useState } from "react"
+import { Button } from "@/components/ui/button"
+import { Label } from "@/components/ui/label"
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select"
+import { Textarea } from "@/components/ui/textarea"
+import {
+  boundaryToFeature,
+  type GeofenceBoundary,
+  type GeoJsonPosition,
+  parseGeofenceBoundary,
+} from "@/lib/geo-utils"
+
+interface GeofenceBoundaryEditorProps {
+  latitude: number
+  longitude: number
+  // Radius geofence drawn for reference while no boundary is set
+  radius: number
+  value: GeofenceBoundary | null
+  onChange: (boundary: GeofenceBoundary | null) => void
+  fileName?: string
+}
+
+const CANVAS_SIZE = 320
+const METERS_PER_DEGREE = (Math.PI / 180) * 6371e3
+const VIEW_EXTENTS = [100, 250, 500, 1000, 2000]
+
+/**
+ * Click-to-draw polygon editor for a site geofence. The canvas is a local
+ * flat projection centred on the site; each closed shape becomes one polygon
+ * of the boundary. Boundaries can also be imported and exported as GeoJSON.
+ */
+export function GeofenceBoundaryEditor({
+  latitude,
+  longitude,
+  radius,
+  value,
+  onChange,
+  fileName = "geofence",
+}: GeofenceBoundaryEditorProps) {
+  const [draft, setDraft] = useState<GeoJsonPosition[]>([])
+  // Half the canvas width, in meters
+  const [extent, setExtent] = useState(() => VIEW_EXTENTS.find((e) => e >= radius * 2) ?? 2000)
+  const [importText, setImportText] = useState("")
+  const [importError, setImportError] = useState<string | null>(null)
+
+  const lonScale = Math.cos((latitude * Math.PI) / 180)
+  const pixelsPerMeter = CANVAS_SIZE / 2 / extent
+
+  const toPoint = ([lon, lat]: GeoJsonPosition) => {
+    const x = CANVAS_SIZE / 2 + (lon - longitude) * lonScale * METERS_PER_DEGREE * pixelsPerMeter
+    const y = CANVAS_SIZE / 2 - (lat - latitude) * METERS_PER_DEGREE * pixelsPerMeter
+    return `${x.toFixed(1)},${y.toFixed(1)}`
+  }
+
+  const polygons = value ? (value.type === "Polygon" ? [value.coordinates] : value.coordinates) : []
+
+  const handleCanvasClick = (event: MouseEvent<SVGSVGElement>) => {
+    const rect = event.currentTarget.getBoundingClientRect()
+    const x = ((event.clientX - rect.left) / rect.width) * CANVAS_SIZE - CANVAS_SIZE / 2
+    const y = CANVAS_SIZE / 2 - ((event.clientY - rect.top) / rect.height) * CANVAS_SIZE
+    const lon = longitude + x / pixelsPerMeter / METERS_PER_DEGREE / lonScale
+    const lat = latitude + y / pixelsPerMeter / METERS_PER_DEGREE
+    setDraft((prev) => [...prev, [Number(lon.toFixed(7)), Number(lat.toFixed(7))]])
+  }
+
+  const closeShape = () => {
+    if (draft.length < 3) return
+    onChange(parseGeofenceBoundary({ type: "MultiPolygon", coordinates: [...polygons, [draft]] }))
+    setDraft([])
+  }
+
+  const clearBoundary = () => {
+    setDraft([])
+    onChange(null)
+  }
+
+  const importGeoJson = () => {
+    try {
+      onChange(parseGeofenceBoundary(JSON.parse(importText)))
+      setImportText("")
+      setImportError(null)
+    } catch (error) {
+      setImportError(error instanceof Error ? error.message : "Invalid GeoJSON")
+    }
+  }
+
+  const exportGeoJson = () => {
+    if (!value) return
+    const blob = new Blob([JSON.stringify(boundaryToFeature(value, { name: fileName }), null, 2)], {
+      type: "application/geo+json",
+    })
+    const url = URL.createObjectURL(blob)
+    const link = document.createElement("a")
+    link.href = url
+    link.download = `${fileName}.geojson`
+    link.click()
+    URL.revokeObjectURL(url)
+  }
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <Label>Geofence Boundary</Label>
+        <Select value={String(extent)} onValueChange={(val) => setExtent(Number(val))}>
+          <SelectTrigger className="h-8 w-[130px]">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {VIEW_EXTENTS.map((e) => (
+              <SelectItem key={e} value={String(e)}>
+                {e * 2 >= 1000 ? `${(e * 2) / 1000} km` : `${e * 2} m`} view
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      <svg
+        viewBox={`0 0 ${CANVAS_SIZE} ${CANVAS_SIZE}`}
+        className="w-full max-w-[320px] cursor-crosshair rounded-md border bg-muted/30"
+        onClick={handleCanvasClick}
+        role="img"
+        aria-label="Geofence boundary drawing area"
+      >
+        <title>Click to add boundary points around the site</title>
+        {!value && (
+          <circle
+            cx={CANVAS_SIZE / 2}
+            cy={CANVAS_SIZE / 2}
+            r={radius * pixelsPerMeter}
+            className="fill-primary/5 stroke-muted-foreground"
+            strokeDasharray="4 4"
+          />
+        )}
+        {polygons.map((rings) => (
+          <path
+            key={rings[0].map(toPoint).join(" ")}
+            d={rings.map((ring) => `M${ring.map(toPoint).join("L")}Z`).join(" ")}
+            fillRule="evenodd"
+            className="fill-primary/20 stroke-primary"
+            strokeWidth={2}
+          />
+        ))}
+        {draft.length > 0 && (
+          <polyline
+            points={draft.map(toPoint).join(" ")}
+            fill="none"
+            className="stroke-orange-500"
+            strokeWidth={2}
+          />
+        )}
+        {draft.map((position) => {
+          const [cx, cy] = toPoint(position).split(",")
+          return (
+            <circle key={position.join(",")} cx={cx} cy={cy} r={3} className="fill-orange-500" />
+          )
+        })}
+        <circle cx={CANVAS_SIZE / 2} cy={CANVAS_SIZE / 2} r={4} className="fill-red-600" />
+      </svg>
+
+      <p className="text-muted-foreground text-xs">
+        {value
+          ? `${polygons.length} polygon${polygons.length === 1 ? "" : "s"}. Clock-ins are checked against this boundary instead of the radius.`
+          : `No boundary set; the ${radius}m radius is used. Click the canvas to draw one.`}
+      </p>
+
+      <div className="flex flex-wrap gap-2">
+        <Button type="button" size="sm" onClick={closeShape} disabled={draft.length < 3}>
+          Close Shape
+        </Button>
+        <Button
+          type="button"
+          size="sm"
+          variant="outline"
+          onClick={() => setDraft((prev) => prev.slice(0, -1))}
+          disabled={draft.length === 0}
+        >
+          <Undo2 className="mr-1 h-4 w-4" />
+          Undo Point
+        </Button>
+        <Button
+          type="button"
+          size="sm"
+          variant="outline"
+          onClick={clearBoundary}
+          disabled={!value && draft.length === 0}
+        >
+          <Trash2 className="mr-1 h-4 w-4" />
+          Clear
+        </Button>
+        <Button type="button" size="sm" variant="outline" onClick={exportGeoJson} disabled={!value}>
+          <Download className="mr-1 h-4 w-4" />
+          Export GeoJSON
+        </Button>
+      </div>
+
+      <div className="space-y-2">
+        <Textarea
+          value={importText}
+          onChange={(e) => setImportText(e.target.value)}
+          placeholder='Paste a GeoJSON Polygon, MultiPolygon or Feature, e.g. {"type":"Polygon","coordinates":[...]}'
+          rows={3}
+          className="font-mono text-xs"
+        />
+        {importError && <p className="text-destructive text-xs">{importError}</p>}
+        <Button
+          type="button"
+          size="sm"
+          variant="outline"
+          onClick={importGeoJson}
+          disabled={!importText.trim()}
+        >
+          <Upload className="mr-1 h-4 w-4" />
+          Import GeoJSON
+        </Button>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,167 @@
+"use client"
+
+import { Trash2 } from "lucide-react"
+import { useRouter } from "next/navigation"
+import { useState } from "react"
+import { toast } from "sonner"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Checkbox } from "@/components/ui/checkbox"
+import { Progress } from "@/components/ui/progress"
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select"
+import { safeFetchApi } from "@/lib/safe-fetch"
+import type { ImprovementPlanItem } from "./types"
+
+const PLAN_STATUS_LABELS = {
+  not_started: "Not Started",
+  in_progress: "In Progress",
+  completed: "Completed",
+  cancelled: "Cancelled",
+} as const
+
+interface ImprovementPlanCardProps {
+  plan: ImprovementPlanItem
+  // Shows the review the plan belongs to, for lists spanning several reviews
+  showReview?: boolean
+  onChanged?: () => void
+}
+
+/**
+ * An improvement plan with its milestones, which can be ticked off in place.
+ */
+export function ImprovementPlanCard({ plan, showReview, onChanged }: ImprovementPlanCardProps) {
+  const router = useRouter()
+  const [saving, setSaving] = useState(false)
+  const overdue =
+    plan.status !== "completed" &&
+    plan.status !== "cancelled" &&
+    new Date(plan.dueDate) < new Date()
+
+  const update = async (changes: Record<string, unknown>) => {
+    setSaving(true)
+    const result = await safeFetchApi(`/api/quality-reviews/plans/${plan.id}`, {
+      method: "PUT",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(changes),
+    })
+    setSaving(false)
+    if (!result.success) {
+      toast.error(result.error || "Failed to update improvement plan")
+      return
+    }
+    onChanged?.()
+    router.refresh()
+  }
+
+  const toggleMilestone = (milestoneId: string, completed: boolean) =>
+    update({
+      milestones: plan.milestones.map((milestone) => ({
+        id: milestone.id,
+        title: milestone.title,
+        dueDate: milestone.dueDate,
+        completed: milestone.id === milestoneId ? completed : Boolean(milestone.completedAt),
+      })),
+    })
+
+  const remove = async () => {
+    if (!confirm(`Delete the improvement plan "${plan.title}"?`)) return
+    const result = await safeFetchApi(`/api/quality-reviews/plans/${plan.id}`, {
+      method: "DELETE",
+    })
+    if (!result.success) {
+      toast.error(result.error || "Failed to delete improvement plan")
+      return
+    }
+    toast.success("Improvement plan deleted")
+    onChanged?.()
+    router.refresh()
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-start justify-between gap-2">
+          <div>
+            <CardTitle className="text-lg">{plan.title}</CardTitle>
+            <CardDescription>
+              Owner: {plan.ownerName ?? "Unassigned"}
+              {showReview && <> · Review: {plan.reviewTitle}</>}
+            </CardDescription>
+          </div>
+          <div className="flex items-center gap-1">
+            <Select
+              value={plan.status}
+              disabled={saving}
+              onValueChange={(status) => update({ status })}
+            >
+              <SelectTrigger className="h-8 w-36">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {Object.entries(PLAN_STATUS_LABELS).map(([value, label]) => (
+                  <SelectItem key={value} value={value}>
+                    {label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Button variant="ghost" size="icon" aria-label="Delete plan" onClick={remove}>
+              <Trash2 className="h-4 w-4" />
+            </Button>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent>
+        <div className="space-y-4">
+          {plan.description && <p className="text-sm">{plan.description}</p>}
+          <div className="space-y-2">
+            <div className="flex items-center justify-between text-sm">
+              <span>Progress</span>
+              <span>{plan.progress}%</span>
+            </div>
+            <Progress value={plan.progress} className="h-2" />
+          </div>
+          {plan.milestones.length > 0 && (
+            <ul className="space-y-2">
+              {plan.milestones.map((milestone) => (
+                <li key={milestone.id} className="flex items-center gap-2 text-sm">
+                  <Checkbox
+                    id={`milestone-${milestone.id}`}
+                    checked={Boolean(milestone.completedAt)}
+                    disabled={saving}
+                    onCheckedChange={(checked) => toggleMilestone(milestone.id, checked === true)}
+                  />
+                  <label
+                    htmlFor={`milestone-${milestone.id}`}
+                    className={milestone.completedAt ? "text-muted-foreground line-through" : ""}
+                  >
+                    {milestone.title}
+                  </label>
+                  {milestone.dueDate && (
+                    <span className="ml-auto text-muted-foreground text-xs">
+                      {new Date(milestone.dueDate).toLocaleDateString()}
+                    </span>
+                  )}
+                </li>
+              ))}
+            </ul>
+          )}
+          <div className="flex items-center justify-between text-muted-foreground text-sm">
+            <span>Due Date:</span>
+            <span className="flex items-center gap-2">
+              {overdue && <Badge variant="destructive">Overdue</Badge>}
+              {new Date(plan.dueDate).toLocaleDateString()}
+            </span>
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  )
+}
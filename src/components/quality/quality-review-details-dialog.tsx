@@ -0,0 +1,329 @@
+"use client"
+
+import { Pencil, Plus, Trash2 } from "lucide-react"
+import { useRouter } from "next/navigation"
+import { type ReactNode, useCallback, useEffect, useId, useState } from "react"
+import { toast } from "sonner"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select"
+import { Separator } from "@/components/ui/separator"
+import { Textarea } from "@/components/ui/textarea"
+import { safeFetchApi } from "@/lib/safe-fetch"
+import { ImprovementPlanCard } from "./improvement-plan-card"
+import { QualityReviewFormDialog } from "./quality-review-form-dialog"
+import type { ImprovementPlanItem, QualityOption, QualityReviewItem } from "./types"
+
+const SEVERITY_VARIANTS = {
+  low: "outline",
+  medium: "secondary",
+  high: "default",
+  critical: "destructive",
+} as const
+
+const UNASSIGNED = "unassigned"
+
+interface QualityReviewDetailsDialogProps {
+  reviewId: string
+  sites: QualityOption[]
+  owners: QualityOption[]
+  trigger: ReactNode
+}
+
+/**
+ * A review's findings and recommendations with the improvement plans that
+ * address them. The review is loaded when the dialog opens.
+ */
+export function QualityReviewDetailsDialog({
+  reviewId,
+  sites,
+  owners,
+  trigger,
+}: QualityReviewDetailsDialogProps) {
+  const router = useRouter()
+  const fieldId = useId()
+  const [open, setOpen] = useState(false)
+  const [review, setReview] = useState<QualityReviewItem | null>(null)
+  const [plans, setPlans] = useState<ImprovementPlanItem[]>([])
+  const [showPlanForm, setShowPlanForm] = useState(false)
+  const [planTitle, setPlanTitle] = useState("")
+  const [planDescription, setPlanDescription] = useState("")
+  const [ownerId, setOwnerId] = useState(UNASSIGNED)
+  const [dueDate, setDueDate] = useState("")
+  const [milestones, setMilestones] = useState("")
+  const [creating, setCreating] = useState(false)
+
+  const load = useCallback(async () => {
+    const result = await safeFetchApi<{
+      review: QualityReviewItem
+      plans: ImprovementPlanItem[]
+    }>(`/api/quality-reviews/${reviewId}`)
+    if (!result.success || !result.data) {
+      toast.error(result.error || "Failed to load quality review")
+      return
+    }
+    setReview(result.data.review)
+    setPlans(result.data.plans)
+  }, [reviewId])
+
+  useEffect(() => {
+    if (open) load()
+  }, [open, load])
+
+  const resetPlanForm = () => {
+    setShowPlanForm(false)
+    setPlanTitle("")
+    setPlanDescription("")
+    setOwnerId(UNASSIGNED)
+    setDueDate("")
+    setMilestones("")
+  }
+
+  const createPlan = async () => {
+    setCreating(true)
+    const result = await safeFetchApi(`/api/quality-reviews/${reviewId}/plans`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({
+        title: planTitle,
+        description: planDescription || null,
+        ownerId: ownerId === UNASSIGNED ? null : ownerId,
+        dueDate,
+        milestones: milestones
+          .split("\n")
+          .map((line) => line.trim())
+          .filter(Boolean)
+          .map((title) => ({ title })),
+      }),
+    })
+    setCreating(false)
+
+    if (!result.success) {
+      toast.error(result.error || "Failed to create improvement plan")
+      return
+    }
+    toast.success("Improvement plan created")
+    resetPlanForm()
+    await load()
+    router.refresh()
+  }
+
+  const deleteReview = async () => {
+    if (!review || !confirm(`Delete "${review.title}" and its improvement plans?`)) return
+    const result = await safeFetchApi(`/api/quality-reviews/${reviewId}`, { method: "DELETE" })
+    if (!result.success) {
+      toast.error(result.error || "Failed to delete quality review")
+      return
+    }
+    toast.success("Quality review deleted")
+    setOpen(false)
+    router.refresh()
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>{trigger}</DialogTrigger>
+      <DialogContent className="max-h-[90vh] overflow-y-auto sm:max-w-3xl">
+        <DialogHeader>
+          <DialogTitle>{review?.title ?? "Quality Review"}</DialogTitle>
+          <DialogDescription>
+            {review
+              ? `${review.type} · ${review.reviewerName ?? "Unknown reviewer"} · ${new Date(review.reviewDate).toLocaleDateString()}`
+              : "Loading review..."}
+          </DialogDescription>
+        </DialogHeader>
+
+        {review && (
+          <div className="space-y-6">
+            <div className="flex flex-wrap items-center gap-2">
+              <Badge variant="outline" className="capitalize">
+                {review.status.replace("_", " ")}
+              </Badge>
+              <Badge variant="outline" className="capitalize">
+                {review.priority} priority
+              </Badge>
+              {review.siteName && <Badge variant="secondary">{review.siteName}</Badge>}
+              {review.source === "AUTOMATIC" && <Badge variant="secondary">Automatic</Badge>}
+              {review.overallScore && <Badge variant="outline">Score {review.overallScore}%</Badge>}
+              {review.followUpDate && (
+                <Badge variant="outline">
+                  Follow-up {new Date(review.followUpDate).toLocaleDateString()}
+                </Badge>
+              )}
+              <div className="ml-auto flex gap-2">
+                <QualityReviewFormDialog
+                  key={review.updatedAt}
+                  review={review}
+                  sites={sites}
+                  onSaved={load}
+                  trigger={
+                    <Button variant="outline" size="sm">
+                      <Pencil className="mr-1 h-3.5 w-3.5" />
+                      Edit
+                    </Button>
+                  }
+                />
+                <Button variant="outline" size="sm" onClick={deleteReview}>
+                  <Trash2 className="mr-1 h-3.5 w-3.5" />
+                  Delete
+                </Button>
+              </div>
+            </div>
+
+            {review.triggerReason && (
+              <p className="text-muted-foreground text-sm">{review.triggerReason}</p>
+            )}
+
+            <div className="space-y-2">
+              <h3 className="font-medium">Findings</h3>
+              {review.findings.length === 0 ? (
+                <p className="text-muted-foreground text-sm">No findings recorded.</p>
+              ) : (
+                <ul className="space-y-2">
+                  {review.findings.map((finding) => (
+                    <li key={finding.id} className="rounded-md border p-3 text-sm">
+                      <div className="flex items-center gap-2">
+                        <Badge variant={SEVERITY_VARIANTS[finding.severity]} className="capitalize">
+                          {finding.severity}
+                        </Badge>
+                        <span className="font-medium">{finding.category}</span>
+                        {finding.resolved && (
+                          <Badge variant="outline" className="ml-auto">
+                            Resolved
+                          </Badge>
+                        )}
+                      </div>
+                      <p className="mt-2">{finding.description}</p>
+                      {finding.evidence && (
+                        <p className="mt-1 text-muted-foreground">Evidence: {finding.evidence}</p>
+                      )}
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+
+            {review.recommendations.length > 0 && (
+              <div className="space-y-2">
+                <h3 className="font-medium">Recommendations</h3>
+                <ul className="list-disc space-y-1 pl-5 text-sm">
+                  {review.recommendations.map((recommendation) => (
+                    <li key={recommendation}>{recommendation}</li>
+                  ))}
+                </ul>
+              </div>
+            )}
+
+            <Separator />
+
+            <div className="space-y-4">
+              <div className="flex items-center justify-between">
+                <h3 className="font-medium">Improvement Plans</h3>
+                {!showPlanForm && (
+                  <Button variant="outline" size="sm" onClick={() => setShowPlanForm(true)}>
+                    <Plus className="mr-1 h-3.5 w-3.5" />
+                    Add Plan
+                  </Button>
+                )}
+              </div>
+
+              {showPlanForm && (
+                <div className="space-y-3 rounded-md border p-4">
+                  <div className="space-y-2">
+                    <Label htmlFor={`${fieldId}-plan-title`}>Title</Label>
+                    <Input
+                      id={`${fieldId}-plan-title`}
+                      value={planTitle}
+                      onChange={(event) => setPlanTitle(event.target.value)}
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor={`${fieldId}-plan-description`}>Description</Label>
+                    <Textarea
+                      id={`${fieldId}-plan-description`}
+                      value={planDescription}
+                      onChange={(event) => setPlanDescription(event.target.value)}
+                    />
+                  </div>
+                  <div className="grid gap-3 sm:grid-cols-2">
+                    <div className="space-y-2">
+                      <Label>Owner</Label>
+                      <Select value={ownerId} onValueChange={setOwnerId}>
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value={UNASSIGNED}>Unassigned</SelectItem>
+                          {owners.map((owner) => (
+                            <SelectItem key={owner.id} value={owner.id}>
+                              {owner.name}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                    <div className="space-y-2">
+                      <Label htmlFor={`${fieldId}-plan-due`}>Due Date</Label>
+                      <Input
+                        id={`${fieldId}-plan-due`}
+                        type="date"
+                        value={dueDate}
+                        onChange={(event) => setDueDate(event.target.value)}
+                      />
+                    </div>
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor={`${fieldId}-plan-milestones`}>Milestones (one per line)</Label>
+                    <Textarea
+                      id={`${fieldId}-plan-milestones`}
+                      value={milestones}
+                      onChange={(event) => setMilestones(event.target.value)}
+                    />
+                  </div>
+                  <div className="flex justify-end gap-2">
+                    <Button variant="outline" size="sm" onClick={resetPlanForm}>
+                      Cancel
+                    </Button>
+                    <Button
+                      size="sm"
+                      onClick={createPlan}
+                      disabled={creating || !planTitle.trim() || !dueDate}
+                    >
+                      {creating ? "Creating..." : "Create Plan"}
+                    </Button>
+                  </div>
+                </div>
+              )}
+
+              {plans.length === 0 && !showPlanForm ? (
+                <p className="text-muted-foreground text-sm">No improvement plans yet.</p>
+              ) : (
+                <div className="grid gap-4">
+                  {plans.map((plan) => (
+                    <ImprovementPlanCard key={plan.id} plan={plan} onChanged={load} />
+                  ))}
+                </div>
+              )}
+            </div>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,359 @@
+"use client"
+
+import { Plus, Trash2 } from "lucide-react"
+import { useRouter } from "next/navigation"
+import { type ReactNode, useId, useState } from "react"
+import { toast } from "sonner"
+import { Button } from "@/components/ui/button"
+import { Checkbox } from "@/components/ui/checkbox"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select"
+import { Textarea } from "@/components/ui/textarea"
+import { safeFetchApi } from "@/lib/safe-fetch"
+import type { QualityFinding, QualityOption, QualityReviewItem } from "./types"
+
+const REVIEW_TYPES = ["Assessment Quality", "Supervision Quality", "Process Audit"] as const
+const SEVERITIES = ["low", "medium", "high", "critical"] as const
+const NO_SITE = "none"
+
+type FindingDraft = Omit<QualityFinding, "id"> & { id?: string; key: string }
+
+const STATUS_LABELS = {
+  pending: "Pending",
+  in_progress: "In Progress",
+  completed: "Completed",
+} as const
+
+const PRIORITY_LABELS = { high: "High", medium: "Medium", low: "Low" } as const
+
+interface QualityReviewFormDialogProps {
+  // Edits this review; a new review is created when absent
+  review?: QualityReviewItem
+  sites: QualityOption[]
+  trigger: ReactNode
+  onSaved?: () => void
+}
+
+const toDateInput = (value: string | null) => (value ? value.split("T")[0] : "")
+
+export function QualityReviewFormDialog({
+  review,
+  sites,
+  trigger,
+  onSaved,
+}: QualityReviewFormDialogProps) {
+  const router = useRouter()
+  const fieldId = useId()
+  const [open, setOpen] = useState(false)
+  const [saving, setSaving] = useState(false)
+  const [title, setTitle] = useState(review?.title ?? "")
+  const [type, setType] = useState<QualityReviewItem["type"]>(review?.type ?? "Assessment Quality")
+  const [status, setStatus] = useState<QualityReviewItem["status"]>(review?.status ?? "pending")
+  const [priority, setPriority] = useState<QualityReviewItem["priority"]>(
+    review?.priority ?? "medium"
+  )
+  const [score, setScore] = useState(review?.overallScore ?? "")
+  const [siteId, setSiteId] = useState(review?.clinicalSiteId ?? NO_SITE)
+  const [findings, setFindings] = useState<FindingDraft[]>(
+    () => review?.findings.map((finding) => ({ ...finding, key: finding.id })) ?? []
+  )
+  const [recommendations, setRecommendations] = useState(review?.recommendations.join("\n") ?? "")
+  const [followUpRequired, setFollowUpRequired] = useState(review?.followUpRequired ?? false)
+  const [followUpDate, setFollowUpDate] = useState(toDateInput(review?.followUpDate ?? null))
+
+  const updateFinding = (key: string, changes: Partial<FindingDraft>) => {
+    setFindings((prev) =>
+      prev.map((finding) => (finding.key === key ? { ...finding, ...changes } : finding))
+    )
+  }
+
+  const addFinding = () => {
+    setFindings((prev) => [
+      ...prev,
+      {
+        key: crypto.randomUUID(),
+        category: "",
+        severity: "medium",
+        description: "",
+        resolved: false,
+      },
+    ])
+  }
+
+  const save = async () => {
+    setSaving(true)
+    const body = {
+      title,
+      type,
+      status,
+      priority,
+      overallScore: score === "" ? null : Number(score),
+      clinicalSiteId: siteId === NO_SITE ? null : siteId,
+      findings: findings.map(({ key: _key, ...finding }) => ({
+        ...finding,
+        evidence: finding.evidence || undefined,
+      })),
+      recommendations: recommendations
+        .split("\n")
+        .map((line) => line.trim())
+        .filter(Boolean),
+      followUpRequired,
+      followUpDate: followUpDate || null,
+    }
+    const result = await safeFetchApi(
+      review ? `/api/quality-reviews/${review.id}` : "/api/quality-reviews",
+      {
+        method: review ? "PUT" : "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(body),
+      }
+    )
+    setSaving(false)
+
+    if (!result.success) {
+      toast.error(result.error || "Failed to save quality review")
+      return
+    }
+    toast.success(review ? "Quality review updated" : "Quality review created")
+    setOpen(false)
+    onSaved?.()
+    router.refresh()
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>{trigger}</DialogTrigger>
+      <DialogContent className="max-h-[90vh] overflow-y-auto sm:max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>{review ? "Edit Quality Review" : "New Quality Review"}</DialogTitle>
+          <DialogDescription>
+            Record what was reviewed, the findings and any follow-up that is needed.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor={`${fieldId}-title`}>Title</Label>
+            <Input
+              id={`${fieldId}-title`}
+              value={title}
+              onChange={(event) => setTitle(event.target.value)}
+            />
+          </div>
+
+          <div className="grid gap-4 sm:grid-cols-3">
+            <div className="space-y-2">
+              <Label>Type</Label>
+              <Select value={type} onValueChange={(value) => setType(value as typeof type)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {REVIEW_TYPES.map((option) => (
+                    <SelectItem key={option} value={option}>
+                      {option}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>Status</Label>
+              <Select value={status} onValueChange={(value) => setStatus(value as typeof status)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.entries(STATUS_LABELS).map(([value, label]) => (
+                    <SelectItem key={value} value={value}>
+                      {label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>Priority</Label>
+              <Select
+                value={priority}
+                onValueChange={(value) => setPriority(value as typeof priority)}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.entries(PRIORITY_LABELS).map(([value, label]) => (
+                    <SelectItem key={value} value={value}>
+                      {label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <div className="grid gap-4 sm:grid-cols-2">
+            <div className="space-y-2">
+              <Label htmlFor={`${fieldId}-score`}>Overall Score (%)</Label>
+              <Input
+                id={`${fieldId}-score`}
+                type="number"
+                min={0}
+                max={100}
+                step="0.1"
+                value={score}
+                onChange={(event) => setScore(event.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Clinical Site</Label>
+              <Select value={siteId} onValueChange={setSiteId}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={NO_SITE}>No specific site</SelectItem>
+                  {sites.map((site) => (
+                    <SelectItem key={site.id} value={site.id}>
+                      {site.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <div className="flex items-center justify-between">
+              <Label>Findings</Label>
+              <Button type="button" variant="outline" size="sm" onClick={addFinding}>
+                <Plus className="mr-1 h-3.5 w-3.5" />
+                Add Finding
+              </Button>
+            </div>
+            {findings.length === 0 && (
+              <p className="text-muted-foreground text-sm">No findings recorded.</p>
+            )}
+            {findings.map((finding) => (
+              <div key={finding.key} className="space-y-2 rounded-md border p-3">
+                <div className="flex gap-2">
+                  <Input
+                    placeholder="Category"
+                    value={finding.category}
+                    onChange={(event) =>
+                      updateFinding(finding.key, { category: event.target.value })
+                    }
+                  />
+                  <Select
+                    value={finding.severity}
+                    onValueChange={(value) =>
+                      updateFinding(finding.key, { severity: value as FindingDraft["severity"] })
+                    }
+                  >
+                    <SelectTrigger className="w-36">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {SEVERITIES.map((severity) => (
+                        <SelectItem key={severity} value={severity} className="capitalize">
+                          {severity}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="icon"
+                    aria-label="Remove finding"
+                    onClick={() =>
+                      setFindings((prev) => prev.filter((item) => item.key !== finding.key))
+                    }
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+                <Textarea
+                  placeholder="What was found"
+                  value={finding.description}
+                  onChange={(event) =>
+                    updateFinding(finding.key, { description: event.target.value })
+                  }
+                />
+                <Input
+                  placeholder="Evidence (optional)"
+                  value={finding.evidence ?? ""}
+                  onChange={(event) => updateFinding(finding.key, { evidence: event.target.value })}
+                />
+                <div className="flex items-center gap-2">
+                  <Checkbox
+                    id={`${fieldId}-${finding.key}-resolved`}
+                    checked={finding.resolved}
+                    onCheckedChange={(checked) =>
+                      updateFinding(finding.key, { resolved: checked === true })
+                    }
+                  />
+                  <Label htmlFor={`${fieldId}-${finding.key}-resolved`}>Resolved</Label>
+                </div>
+              </div>
+            ))}
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor={`${fieldId}-recommendations`}>Recommendations (one per line)</Label>
+            <Textarea
+              id={`${fieldId}-recommendations`}
+              value={recommendations}
+              onChange={(event) => setRecommendations(event.target.value)}
+            />
+          </div>
+
+          <div className="grid items-end gap-4 sm:grid-cols-2">
+            <div className="flex items-center gap-2">
+              <Checkbox
+                id={`${fieldId}-follow-up`}
+                checked={followUpRequired}
+                onCheckedChange={(checked) => setFollowUpRequired(checked === true)}
+              />
+              <Label htmlFor={`${fieldId}-follow-up`}>Follow-up required</Label>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor={`${fieldId}-follow-up-date`}>Follow-up Date</Label>
+              <Input
+                id={`${fieldId}-follow-up-date`}
+                type="date"
+                value={followUpDate}
+                onChange={(event) => setFollowUpDate(event.target.value)}
+              />
+            </div>
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => setOpen(false)}>
+            Cancel
+          </Button>
+          <Button onClick={save} disabled={saving || !title.trim()}>
+            {saving ? "Saving..." : review ? "Save Changes" : "Create Review"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,38 @@
+import type {
+  ImprovementPlanView,
+  QualityFinding,
+  QualityReviewSummary,
+} from "@/lib/quality-reviews"
+
+// Review and plan rows as they reach the browser, with dates serialized to strings
+export type QualityReviewItem = Omit<
+  QualityReviewSummary,
+  "followUpDate" | "followUpReminderSentAt" | "reviewDate" | "createdAt" | "updatedAt"
+> & {
+  followUpDate: string | null
+  reviewDate: string
+  updatedAt: string
+}
+
+export interface PlanMilestoneItem {
+  id: string
+  title: string
+  dueDate: string | null
+  completedAt: string | null
+}
+
+export type ImprovementPlanItem = Omit<
+  ImprovementPlanView,
+  "dueDate" | "completedAt" | "createdAt" | "updatedAt" | "milestones"
+> & {
+  dueDate: string
+  completedAt: string | null
+  milestones: PlanMilestoneItem[]
+}
+
+export interface QualityOption {
+  id: string
+  name: string
+}
+
+export type { QualityFinding }
@@ -195,7 +195,7 @@ export function ComprehensiveReportsDashboard({
         const url = window.URL.createObjectURL(blob)
         const a = document.createElement("a")
         a.href = url
-        a.download = `medstint-report-${reportType}-${new Date().toISOString().split("T")[0]}.${format}`
+        a.download = `medstint-report-${reportType}-${new Date().toISOString().split("T")[0]}.${format === "excel" ? "xlsx" : format}`
         document.body.appendChild(a)
         a.click()
         window.URL.revokeObjectURL(url)
@@ -190,7 +190,7 @@ export function ReportsDashboard({ userId, userRole }: ReportsDashboardProps) {
       const a = document.createElement("a")
       a.style.display = "none"
       a.href = url
-      a.download = `report_${filters.type}_${new Date().toISOString().split("T")[0]}.${format}`
+      a.download = `report_${filters.type}_${new Date().toISOString().split("T")[0]}.${format === "excel" ? "xlsx" : format}`
       document.body.appendChild(a)
       a.click()
       window.URL.revokeObjectURL(url)
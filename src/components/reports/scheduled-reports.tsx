@@ -38,6 +38,80 @@ interface ScheduledReport {
   filters: any
 }
 
+interface ScheduledReportRun {
+  id: string
+  trigger: "SCHEDULED" | "MANUAL"
+  status: "PENDING" | "RUNNING" | "SUCCEEDED" | "FAILED"
+  recipientCount: number
+  artifactSize: number | null
+  error: string | null
+  createdAt: string
+  completedAt: string | null
+}
+
+const RUN_STATUS_VARIANTS: Record<
+  ScheduledReportRun["status"],
+  "default" | "secondary" | "destructive" | "outline"
+> = {
+  PENDING: "outline",
+  RUNNING: "secondary",
+  SUCCEEDED: "default",
+  FAILED: "destructive",
+}
+
+const formatBytes = (bytes: number | null) => {
+  if (!bytes) return "—"
+  if (bytes < 1024) return `${bytes} B`
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`
+}
+
+function ReportRunHistory({ reportId, refreshKey }: { reportId: string; refreshKey: number }) {
+  const [runs, setRuns] = useState<ScheduledReportRun[]>([])
+
+  useEffect(() => {
+    let cancelled = false
+    fetch(`/api/reports/scheduled/${reportId}/runs?limit=5`)
+      .then((response) => (response.ok ? response.json() : null))
+      .then((result) => {
+        if (!cancelled && result?.data?.runs) {
+          setRuns(result.data.runs)
+        }
+      })
+      .catch(() => {
+        // Run history is informational; keep the card usable if it fails to load
+      })
+    return () => {
+      cancelled = true
+    }
+  }, [reportId, refreshKey])
+
+  if (runs.length === 0) {
+    return null
+  }
+
+  return (
+    <div>
+      <span className="font-medium text-sm">Recent Runs:</span>
+      <ul className="mt-1 space-y-1">
+        {runs.map((run) => (
+          <li key={run.id} className="flex flex-wrap items-center gap-2 text-xs">
+            <Badge variant={RUN_STATUS_VARIANTS[run.status]} className="text-xs">
+              {run.status.toLowerCase()}
+            </Badge>
+            <span>{new Date(run.createdAt).toLocaleString()}</span>
+            <span className="text-muted-foreground">
+              {run.trigger === "MANUAL" ? "Manual" : "Scheduled"} • {run.recipientCount} recipient
+              {run.recipientCount === 1 ? "" : "s"} • {formatBytes(run.artifactSize)}
+            </span>
+            {run.error && <span className="text-destructive">{run.error}</span>}
+          </li>
+        ))}
+      </ul>
+    </div>
+  )
+}
+
 interface ScheduledReportsProps {
   userId: string
   userRole: string
@@ -49,6 +123,7 @@ export function ScheduledReports({ userId, userRole }: ScheduledReportsProps) {
   const [isSubmitting, setIsSubmitting] = useState(false)
   const [dialogOpen, setDialogOpen] = useState(false)
   const [editingReport, setEditingReport] = useState<ScheduledReport | null>(null)
+  const [runsRefreshKey, setRunsRefreshKey] = useState(0)
   const [formData, setFormData] = useState({
     name: "",
     type: "progress",
@@ -227,13 +302,14 @@ export function ScheduledReports({ userId, userRole }: ScheduledReportsProps) {
         throw new Error(errorData.error || errorData.message || "Failed to run report")
       }
 
-      toast.success("Report is being generated and will be sent to recipients")
+      toast.success("Report generated and sent to recipients")
       fetchScheduledReports()
     } catch (_error) {
       // Error running report
       toast.error("Failed to run report")
     } finally {
       setIsSubmitting(false)
+      setRunsRefreshKey((key) => key + 1)
     }
   }
 
@@ -445,6 +521,7 @@ export function ScheduledReports({ userId, userRole }: ScheduledReportsProps) {
                       ))}
                     </div>
                   </div>
+                  <ReportRunHistory reportId={report.id} refreshKey={runsRefreshKey} />
                   <div className="flex justify-end gap-2">
                     <Button
                       size="sm"
@@ -0,0 +1,72 @@
+import { Loader2 } from "lucide-react"
+import type { ChangePreviewData } from "@/hooks/use-change-preview"
+
+interface ChangePreviewSummaryProps {
+  preview: ChangePreviewData | null
+  loading: boolean
+  error: string | null
+}
+
+function formatMoney(cents: number, currency: string) {
+  return new Intl.NumberFormat("en-US", {
+    style: "currency",
+    currency: currency.toUpperCase(),
+  }).format(cents / 100)
+}
+
+function formatDate(value: string) {
+  return new Date(value).toLocaleDateString()
+}
+
+/**
+ * Itemised cost of a subscription change, shown before the user confirms it.
+ */
+export function ChangePreviewSummary({ preview, loading, error }: ChangePreviewSummaryProps) {
+  if (loading) {
+    return (
+      <div className="flex items-center gap-2 text-muted-foreground text-sm">
+        <Loader2 className="h-4 w-4 animate-spin" />
+        Calculating price...
+      </div>
+    )
+  }
+  if (error) return <p className="text-destructive text-sm">{error}</p>
+  if (!preview) return null
+
+  const money = (cents: number) => formatMoney(cents, preview.currency)
+  const prorations = preview.lines.filter((line) => line.proration)
+
+  return (
+    <div className="space-y-3 rounded-md border p-4 text-sm">
+      {prorations.length > 0 && (
+        <ul className="space-y-1">
+          {prorations.map((line, index) => (
+            <li key={`${line.description}-${index}`} className="flex justify-between gap-4">
+              <span className="text-muted-foreground">
+                {line.description} ({formatDate(line.periodStart)} – {formatDate(line.periodEnd)})
+              </span>
+              <span className={line.amount < 0 ? "text-green-600" : undefined}>
+                {money(line.amount)}
+              </span>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <div className="flex justify-between font-semibold">
+        <span>Due today</span>
+        <span>{money(preview.dueNow)}</span>
+      </div>
+
+      <p className="text-muted-foreground text-xs">
+        {preview.billingCycleReset
+          ? `Your billing cycle restarts today. After that you pay ${money(preview.recurringAmount)} per ${preview.interval}.`
+          : `${
+              preview.prorationAdjustment === 0
+                ? "Nothing is charged today."
+                : `The prorated ${preview.prorationAdjustment < 0 ? "credit" : "charge"} of ${money(Math.abs(preview.prorationAdjustment))} is added to your next invoice.`
+            } Next invoice on ${formatDate(preview.nextInvoiceDate)}: ${money(preview.nextInvoiceTotal)}, then ${money(preview.recurringAmount)} per ${preview.interval}.`}
+      </p>
+    </div>
+  )
+}
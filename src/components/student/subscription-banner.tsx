@@ -0,0 +1,55 @@
+"use client"
+
+import { AlertTriangle, CreditCard } from "lucide-react"
+import { useState } from "react"
+import { toast } from "sonner"
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert"
+import { Button } from "@/components/ui/button"
+import { createBillingPortalSession } from "@/lib/payments/actions"
+
+interface SubscriptionBannerProps {
+  access: "GRACE" | "READ_ONLY"
+  graceEndsAt: string | null
+}
+
+/**
+ * Shown across the student dashboard while a subscription payment is overdue.
+ */
+export function SubscriptionBanner({ access, graceEndsAt }: SubscriptionBannerProps) {
+  const [isPending, setIsPending] = useState(false)
+
+  async function openBillingPortal() {
+    setIsPending(true)
+    const result = await createBillingPortalSession(window.location.href)
+    if (result.status && result.url) {
+      window.location.href = result.url
+      return
+    }
+    setIsPending(false)
+    toast.error(result.message || "Failed to open the billing portal")
+  }
+
+  const readOnly = access === "READ_ONLY"
+
+  return (
+    <Alert variant={readOnly ? "destructive" : "default"} className="mb-6">
+      <AlertTriangle className="h-4 w-4" />
+      <AlertTitle>
+        {readOnly ? "Your account is read-only" : "Your subscription payment failed"}
+      </AlertTitle>
+      <AlertDescription className="flex flex-col gap-3 sm:flex-row sm:items-center sm:justify-between">
+        <span>
+          {readOnly
+            ? "You can still view your records and clock out of an open shift, but clocking in and new submissions are paused until your payment is updated."
+            : `You can keep clocking in as usual${
+                graceEndsAt ? ` until ${new Date(graceEndsAt).toLocaleDateString()}` : ""
+              }. Update your payment method to avoid interruption.`}
+        </span>
+        <Button size="sm" onClick={openBillingPortal} disabled={isPending}>
+          <CreditCard className="mr-2 h-4 w-4" />
+          {isPending ? "Opening..." : "Update payment method"}
+        </Button>
+      </AlertDescription>
+    </Alert>
+  )
+}
@@ -58,6 +58,9 @@ export const users = pgTable("users", {
     enum: ["NONE", "TRIAL", "ACTIVE", "PAST_DUE", "CANCELLED", "GRANDFATHERED"],
   }).default("NONE"),
   subscriptionId: text("subscription_id"), // Reference to subscriptions.id
+  // Dunning: start of the current PAST_DUE spell and the last reminder day sent
+  pastDueSince: timestamp("past_due_since", { withTimezone: true }),
+  dunningReminderDay: integer("dunning_reminder_day"),
 }, (table) => ({
   emailActiveIdx: uniqueIndex("users_email_active_idx").on(table.email, table.isActive),
   programIdx: index("users_program_idx").on(table.programId),
@@ -154,6 +157,11 @@ export const schools = pgTable("schools", {
     .notNull(),
   seatsLimit: integer("seats_limit").default(0).notNull(),
   seatsUsed: integer("seats_used").default(0).notNull(),
+  // Buy the missing seats on the seat subscription instead of refusing a student
+  seatAutoExpand: boolean("seat_auto_expand").default(false).notNull(),
+  seatStripeSubscriptionId: text("seat_stripe_subscription_id"),
+  // Highest usage threshold (percent) admins have been warned about
+  seatWarningLevel: integer("seat_warning_level").default(0).notNull(),
   createdAt: timestamp("created_at")
     .$defaultFn(() => new Date())
     .notNull(),
@@ -179,7 +187,14 @@ export const seatAssignments = pgTable("seat_assignments", {
     .$defaultFn(() => new Date())
     .notNull(),
   revokedAt: timestamp("revoked_at"),
-})
+  revokedReason: text("revoked_reason", {
+    enum: ["ADMIN", "GRADUATED", "WITHDRAWN", "LEFT_SCHOOL", "DEACTIVATED"],
+  }),
+}, (table) => ({
+  activeStudentIdx: uniqueIndex("seat_assignments_active_student_idx")
+    .on(table.studentId)
+    .where(sql`${table.status} = 'ACTIVE'`),
+}))
 
 export const plans = pgTable("plans", {
   id: text("id").primaryKey(), // Stripe Price ID or internal UUID
@@ -311,6 +326,61 @@ export const programClinicalSites = pgTable("program_clinical_sites", {
   dateRangeIdx: index("program_clinical_sites_date_range_idx").on(table.startDate, table.endDate),
 }))
 
+// Schools placing students at a clinical site. The owning school (clinical_sites.school_id)
+// has a row too; other schools share the site and may reserve part of its capacity.
+export const siteSchoolAffiliations = pgTable("site_school_affiliations", {
+  id: text("id").primaryKey(),
+  clinicalSiteId: text("clinical_site_id")
+    .references(() => clinicalSites.id, { onDelete: "cascade" })
+    .notNull(),
+  schoolId: text("school_id")
+    .references(() => schools.id, { onDelete: "cascade" })
+    .notNull(),
+  // PENDING until the affiliated school's admin accepts the invitation
+  status: text("status", { enum: ["PENDING", "ACTIVE", "INACTIVE"] }).default("ACTIVE").notNull(),
+  // Placements held back for this school; null draws only on the unreserved capacity
+  reservedCapacity: integer("reserved_capacity"),
+  createdBy: text("created_by").references(() => users.id, { onDelete: "set null" }),
+  createdAt: timestamp("created_at")
+    .$defaultFn(() => new Date())
+    .notNull(),
+  updatedAt: timestamp("updated_at")
+    .$defaultFn(() => new Date())
+    .notNull(),
+}, (table) => ({
+  uniqueSiteSchool: uniqueIndex("site_school_affiliations_site_school_unique").on(
+    table.clinicalSiteId,
+    table.schoolId,
+  ),
+  schoolIdx: index("site_school_affiliations_school_idx").on(table.schoolId),
+}))
+
+// Schools a preceptor teaches for besides their home school (users.school_id)
+export const preceptorSchoolAffiliations = pgTable("preceptor_school_affiliations", {
+  id: text("id").primaryKey(),
+  preceptorId: text("preceptor_id")
+    .references(() => users.id, { onDelete: "cascade" })
+    .notNull(),
+  schoolId: text("school_id")
+    .references(() => schools.id, { onDelete: "cascade" })
+    .notNull(),
+  // PENDING until the affiliated school's admin accepts the invitation
+  status: text("status", { enum: ["PENDING", "ACTIVE", "INACTIVE"] }).default("ACTIVE").notNull(),
+  createdBy: text("created_by").references(() => users.id, { onDelete: "set null" }),
+  createdAt: timestamp("created_at")
+    .$defaultFn(() => new Date())
+    .notNull(),
+  updatedAt: timestamp("updated_at")
+    .$defaultFn(() => new Date())
+    .notNull(),
+}, (table) => ({
+  uniquePreceptorSchool: uniqueIndex("preceptor_school_affiliations_preceptor_school_unique").on(
+    table.preceptorId,
+    table.schoolId,
+  ),
+  schoolIdx: index("preceptor_school_affiliations_school_idx").on(table.schoolId),
+}))
+
 // Rotation Templates - Defines reusable rotation patterns for cohorts
 export const rotationTemplates = pgTable("rotation_templates", {
   id: text("id").primaryKey().$defaultFn(() => crypto.randomUUID()),
@@ -430,6 +500,9 @@ export const timeRecords = pgTable("time_records", {
   clockOutAccuracy: decimal("clock_out_accuracy", { precision: 8, scale: 2 }),
   clockInSource: text("clock_in_source", { enum: ["gps", "network", "manual"] }),
   clockOutSource: text("clock_out_source", { enum: ["gps", "network", "manual"] }),
+  // Set when a punch was captured offline: clockIn/clockOut hold the capture time, these hold arrival
+  clockInSyncedAt: timestamp("clock_in_synced_at", { withTimezone: true }),
+  clockOutSyncedAt: timestamp("clock_out_synced_at", { withTimezone: true }),
   // Status and approval
   status: text("status", { enum: ["PENDING", "APPROVED", "REJECTED"] })
     .default("PENDING")
@@ -461,6 +534,205 @@ export const timeRecords = pgTable("time_records", {
   studentClockOutIdx: index("time_records_student_clock_out_idx").on(table.studentId, table.clockOut),
 }))
 
+// Responses to requests sent with an Idempotency-Key, replayed when the same key is retried
+export const idempotencyKeys = pgTable("idempotency_keys", {
+  id: text("id").primaryKey().$defaultFn(() => crypto.randomUUID()),
+  userId: text("user_id")
+    .references(() => users.id, { onDelete: "cascade" })
+    .notNull(),
+  key: text("key").notNull(),
+  operation: text("operation").notNull(),
+  // Hash of the request fields that must match when the key is reused
+  requestHash: text("request_hash").notNull(),
+  status: text("status", { enum: ["IN_PROGRESS", "COMPLETED"] })
+    .default("IN_PROGRESS")
+    .notNull(),
+  responseStatus: integer("response_status"),
+  responseBody: jsonb("response_body"),
+  createdAt: timestamp("created_at", { withTimezone: true }).default(sql`NOW()`).notNull(),
+  completedAt: timestamp("completed_at", { withTimezone: true }),
+  expiresAt: timestamp("expires_at", { withTimezone: true }).notNull(),
+}, (table) => ({
+  userKeyIdx: uniqueIndex("idempotency_keys_user_key_idx").on(table.userId, table.key),
+  expiresIdx: index("idempotency_keys_expires_idx").on(table.expiresAt),
+}))
+
+// Per-school rules for turning approved time records into credited clinical hours
+export const clinicalHoursPolicies = pgTable("clinical_hours_policies", {
+  id: text("id").primaryKey().$defaultFn(() => crypto.randomUUID()),
+  schoolId: text("school_id")
+    .references(() => schools.id, { onDelete: "cascade" })
+    .notNull(),
+  // 0 disables rounding
+  roundingIncrementMinutes: integer("rounding_increment_minutes").default(0).notNull(),
+  roundingMode: text("rounding_mode", { enum: ["NEAREST", "UP", "DOWN"] })
+    .default("NEAREST")
+    .notNull(),
+  // Shifts at least this long have breakDeductionMinutes subtracted
+  breakThresholdMinutes: integer("break_threshold_minutes").default(0).notNull(),
+  breakDeductionMinutes: integer("break_deduction_minutes").default(0).notNull(),
+  dailyCapMinutes: integer("daily_cap_minutes"),
+  weeklyCapMinutes: integer("weekly_cap_minutes"),
+  // IANA zone that defines day and week boundaries for the caps
+  timezone: text("timezone").default("UTC").notNull(),
+  updatedBy: text("updated_by").references(() => users.id, { onDelete: "set null" }),
+  createdAt: timestamp("created_at", { withTimezone: true }).default(sql`NOW()`).notNull(),
+  updatedAt: timestamp("updated_at", { withTimezone: true }).default(sql`NOW()`).notNull(),
+}, (table) => ({
+  schoolIdx: uniqueIndex("clinical_hours_policies_school_idx").on(table.schoolId),
+}))
+
+// Credited hours for each approved time record; rebuilt per student whenever records change
+export const clinicalHoursLedger = pgTable("clinical_hours_ledger", {
+  id: text("id").primaryKey().$defaultFn(() => crypto.randomUUID()),
+  timeRecordId: text("time_record_id")
+    .references(() => timeRecords.id, { onDelete: "cascade" })
+    .notNull(),
+  studentId: text("student_id")
+    .references(() => users.id, { onDelete: "cascade" })
+    .notNull(),
+  rotationId: text("rotation_id")
+    .references(() => rotations.id, { onDelete: "cascade" })
+    .notNull(),
+  clinicalSiteId: text("clinical_site_id").references(() => clinicalSites.id, {
+    onDelete: "set null",
+  }),
+  specialty: text("specialty").notNull(),
+  // Local day (YYYY-MM-DD) and ISO week start the caps were applied to
+  workDate: text("work_date").notNull(),
+  weekStart: text("week_start").notNull(),
+  rawMinutes: integer("raw_minutes").notNull(),
+  breakMinutes: integer("break_minutes").notNull(),
+  roundedMinutes: integer("rounded_minutes").notNull(),
+  cappedMinutes: integer("capped_minutes").notNull(),
+  creditedMinutes: integer("credited_minutes").notNull(),
+  // Policy values used for this entry
+  policy: jsonb("policy").notNull(),
+  computedAt: timestamp("computed_at", { withTimezone: true }).default(sql`NOW()`).notNull(),
+}, (table) => ({
+  timeRecordIdx: uniqueIndex("clinical_hours_ledger_time_record_idx").on(table.timeRecordId),
+  studentIdx: index("clinical_hours_ledger_student_idx").on(table.studentId, table.workDate),
+  rotationIdx: index("clinical_hours_ledger_rotation_idx").on(table.rotationId),
+}))
+
+// School-scoped keys for machine access to the API; only a hash of the secret is stored
+export const apiKeys = pgTable("api_keys", {
+  id: text("id").primaryKey().$defaultFn(() => crypto.randomUUID()),
+  schoolId: text("school_id")
+    .references(() => schools.id, { onDelete: "cascade" })
+    .notNull(),
+  name: text("name").notNull(),
+  // First characters of the secret, shown so admins can tell keys apart
+  prefix: text("prefix").notNull(),
+  keyHash: text("key_hash").notNull(),
+  scopes: text("scopes").array().default([]).notNull(),
+  // Requests made with the key act with this user's role
+  createdBy: text("created_by")
+    .references(() => users.id, { onDelete: "cascade" })
+    .notNull(),
+  expiresAt: timestamp("expires_at", { withTimezone: true }),
+  lastUsedAt: timestamp("last_used_at", { withTimezone: true }),
+  lastUsedIp: text("last_used_ip"),
+  revokedAt: timestamp("revoked_at", { withTimezone: true }),
+  revokedBy: text("revoked_by").references(() => users.id, { onDelete: "set null" }),
+  createdAt: timestamp("created_at", { withTimezone: true }).default(sql`NOW()`).notNull(),
+}, (table) => ({
+  keyHashIdx: uniqueIndex("api_keys_key_hash_idx").on(table.keyHash),
+  schoolIdx: index("api_keys_school_idx").on(table.schoolId),
+}))
+
+// School endpoints that receive signed event notifications
+export const webhookEndpoints = pgTable("webhook_endpoints", {
+  id: text("id").primaryKey().$defaultFn(() => crypto.randomUUID()),
+  schoolId: text("school_id")
+    .references(() => schools.id, { onDelete: "cascade" })
+    .notNull(),
+  url: text("url").notNull(),
+  description: text("description"),
+  events: text("events").array().default([]).notNull(),
+  // HMAC-SHA256 signing secret; kept in plain text because every delivery needs it
+  secret: text("secret").notNull(),
+  isActive: boolean("is_active").default(true).notNull(),
+  createdBy: text("created_by").references(() => users.id, { onDelete: "set null" }),
+  createdAt: timestamp("created_at", { withTimezone: true }).default(sql`NOW()`).notNull(),
+  updatedAt: timestamp("updated_at", { withTimezone: true }).default(sql`NOW()`).notNull(),
+}, (table) => ({
+  schoolIdx: index("webhook_endpoints_school_idx").on(table.schoolId),
+}))
+
+// One row per event sent to an endpoint; retries update the row, replays add a new one
+export const webhookDeliveries = pgTable("webhook_deliveries", {
+  id: text("id").primaryKey().$defaultFn(() => crypto.randomUUID()),
+  endpointId: text("endpoint_id")
+    .references(() => webhookEndpoints.id, { onDelete: "cascade" })
+    .notNull(),
+  schoolId: text("school_id")
+    .references(() => schools.id, { onDelete: "cascade" })
+    .notNull(),
+  // Shared by every delivery of the same event so receivers can deduplicate
+  eventId: text("event_id").notNull(),
+  eventType: text("event_type").notNull(),
+  payload: jsonb("payload").notNull(),
+  status: text("status", { enum: ["PENDING", "SUCCEEDED", "FAILED"] })
+    .default("PENDING")
+    .notNull(),
+  attempts: integer("attempts").default(0).notNull(),
+  responseStatus: integer("response_status"),
+  // Truncated response body or network error from the last attempt
+  responseBody: text("response_body"),
+  error: text("error"),
+  durationMs: integer("duration_ms"),
+  replayOf: text("replay_of"),
+  lastAttemptAt: timestamp("last_attempt_at", { withTimezone: true }),
+  deliveredAt: timestamp("delivered_at", { withTimezone: true }),
+  createdAt: timestamp("created_at", { withTimezone: true }).default(sql`NOW()`).notNull(),
+}, (table) => ({
+  endpointCreatedIdx: index("webhook_deliveries_endpoint_created_idx").on(table.endpointId, table.createdAt),
+  schoolCreatedIdx: index("webhook_deliveries_school_created_idx").on(table.schoolId, table.createdAt),
+}))
+
+// Events received from Stripe and Clerk, deduplicated by the provider's event
+// id and processed through the jobs queue
+export const inboundWebhookEvents = pgTable("inbound_webhook_events", {
+  id: text("id").primaryKey().$defaultFn(() => crypto.randomUUID()),
+  source: text("source", { enum: ["STRIPE", "CLERK"] }).notNull(),
+  eventId: text("event_id").notNull(),
+  eventType: text("event_type").notNull(),
+  payload: jsonb("payload").notNull(),
+  status: text("status", { enum: ["PENDING", "PROCESSING", "PROCESSED", "FAILED", "IGNORED"] })
+    .default("PENDING")
+    .notNull(),
+  attempts: integer("attempts").default(0).notNull(),
+  lastError: text("last_error"),
+  replayCount: integer("replay_count").default(0).notNull(),
+  receivedAt: timestamp("received_at", { withTimezone: true }).default(sql`NOW()`).notNull(),
+  processedAt: timestamp("processed_at", { withTimezone: true }),
+  updatedAt: timestamp("updated_at", { withTimezone: true }).default(sql`NOW()`).notNull(),
+}, (table) => ({
+  sourceEventIdx: uniqueIndex("inbound_webhook_events_source_event_idx").on(table.source, table.eventId),
+  statusReceivedIdx: index("inbound_webhook_events_status_received_idx").on(table.status, table.receivedAt),
+}))
+
+// Token-protected iCalendar subscriptions. PERSONAL feeds follow the owner's
+// role; SITE feeds list everything scheduled at one clinical site for admins.
+export const calendarFeeds = pgTable("calendar_feeds", {
+  id: text("id").primaryKey().$defaultFn(() => crypto.randomUUID()),
+  userId: text("user_id")
+    .references(() => users.id, { onDelete: "cascade" })
+    .notNull(),
+  kind: text("kind", { enum: ["PERSONAL", "SITE"] }).notNull(),
+  clinicalSiteId: text("clinical_site_id")
+    .references(() => clinicalSites.id, { onDelete: "cascade" }),
+  // SHA-256 of the URL token; resetting replaces it so old URLs stop working
+  tokenHash: text("token_hash").notNull(),
+  lastAccessedAt: timestamp("last_accessed_at", { withTimezone: true }),
+  createdAt: timestamp("created_at", { withTimezone: true }).default(sql`NOW()`).notNull(),
+  updatedAt: timestamp("updated_at", { withTimezone: true }).default(sql`NOW()`).notNull(),
+}, (table) => ({
+  tokenHashIdx: uniqueIndex("calendar_feeds_token_hash_idx").on(table.tokenHash),
+  userIdx: index("calendar_feeds_user_idx").on(table.userId),
+}))
+
 export const competencyTemplates = pgTable("competency_templates", {
   id: text("id").primaryKey(),
   name: text("name").notNull(),
@@ -769,9 +1041,16 @@ export const evaluations = pgTable("evaluations", {
   areasForImprovement: text("areas_for_improvement"),
   goals: text("goals"),
   comments: text("comments"),
+  // Student's attestation or rebuttal, covered by the student's signature only
+  studentComment: text("student_comment"),
+  studentCommentType: text("student_comment_type", { enum: ["ATTESTATION", "REBUTTAL"] }),
+  // Summary flags kept in step with evaluation_signatures; a flag is cleared
+  // when its signature is invalidated by an edit
   studentSignature: boolean("student_signature").default(false),
   evaluatorSignature: boolean("evaluator_signature").default(false),
   signedAt: timestamp("signed_at"),
+  // Set when a FINAL evaluation has both signatures; locked evaluations cannot change
+  lockedAt: timestamp("locked_at", { withTimezone: true }),
   createdAt: timestamp("created_at")
     .$defaultFn(() => new Date())
     .notNull(),
@@ -780,9 +1059,33 @@ export const evaluations = pgTable("evaluations", {
     .notNull(),
 })
 
+// One row per signature act. The content hash is taken at signing time so a
+// later edit can be detected; invalidated rows are kept as history.
+export const evaluationSignatures = pgTable("evaluation_signatures", {
+  id: text("id").primaryKey().$defaultFn(() => crypto.randomUUID()),
+  evaluationId: text("evaluation_id")
+    .references(() => evaluations.id, { onDelete: "cascade" })
+    .notNull(),
+  signerId: text("signer_id")
+    .references(() => users.id)
+    .notNull(),
+  signerRole: text("signer_role", { enum: ["STUDENT", "EVALUATOR"] }).notNull(),
+  // Full name typed by the signer
+  signedName: text("signed_name").notNull(),
+  contentHash: text("content_hash").notNull(),
+  ipAddress: text("ip_address"),
+  userAgent: text("user_agent"),
+  signedAt: timestamp("signed_at", { withTimezone: true }).default(sql`NOW()`).notNull(),
+  invalidatedAt: timestamp("invalidated_at", { withTimezone: true }),
+  invalidatedReason: text("invalidated_reason"),
+}, (table) => ({
+  evaluationIdx: index("evaluation_signatures_evaluation_idx").on(table.evaluationId),
+}))
+
 export const auditLogs = pgTable("audit_logs", {
   id: text("id").primaryKey(),
-  userId: text("user_id").references(() => users.id),
+  // No foreign key: entries are immutable and must outlive the accounts they name
+  userId: text("user_id"),
   action: text("action").notNull(),
   resource: text("resource"),
   resourceId: text("resource_id"),
@@ -799,6 +1102,71 @@ export const auditLogs = pgTable("audit_logs", {
   createdAt: timestamp("created_at")
     .$defaultFn(() => new Date())
     .notNull(),
+  // Hash chain, one per school (null = platform events). Entries written
+  // before chaining was introduced have no sequence.
+  schoolId: text("school_id"),
+  sequence: integer("sequence"),
+  previousHash: text("previous_hash"),
+  hash: text("hash"),
+}, (table) => ({
+  chainIdx: index("audit_logs_chain_idx").on(table.schoolId, table.sequence),
+}))
+
+// Audit entries moved out of audit_logs by the retention policy. Rows keep
+// their chain fields so verification covers archived history too.
+export const auditLogArchive = pgTable("audit_log_archive", {
+  id: text("id").primaryKey(),
+  userId: text("user_id"),
+  action: text("action").notNull(),
+  resource: text("resource"),
+  resourceId: text("resource_id"),
+  details: text("details"),
+  ipAddress: text("ip_address"),
+  userAgent: text("user_agent"),
+  sessionId: text("session_id"),
+  severity: text("severity", { enum: ["LOW", "MEDIUM", "HIGH", "CRITICAL"] }).notNull(),
+  status: text("status", { enum: ["SUCCESS", "FAILURE", "ERROR"] }).notNull(),
+  createdAt: timestamp("created_at").notNull(),
+  schoolId: text("school_id"),
+  sequence: integer("sequence"),
+  previousHash: text("previous_hash"),
+  hash: text("hash"),
+  archivedAt: timestamp("archived_at", { withTimezone: true }).default(sql`NOW()`).notNull(),
+}, (table) => ({
+  chainIdx: index("audit_log_archive_chain_idx").on(table.schoolId, table.sequence),
+}))
+
+// Latest entry per chain; the row lock serializes appends to a chain
+export const auditChainHeads = pgTable("audit_chain_heads", {
+  // School id, or "platform" for entries not tied to a school
+  chainKey: text("chain_key").primaryKey(),
+  schoolId: text("school_id"),
+  sequence: integer("sequence").notNull(),
+  hash: text("hash").notNull(),
+  updatedAt: timestamp("updated_at", { withTimezone: true }).default(sql`NOW()`).notNull(),
+})
+
+// HMAC-signed snapshots of chain heads, so a rewritten chain cannot be passed off as intact
+export const auditCheckpoints = pgTable("audit_checkpoints", {
+  id: text("id").primaryKey().$defaultFn(() => crypto.randomUUID()),
+  chainKey: text("chain_key").notNull(),
+  schoolId: text("school_id"),
+  sequence: integer("sequence").notNull(),
+  hash: text("hash").notNull(),
+  signature: text("signature").notNull(),
+  createdAt: timestamp("created_at", { withTimezone: true }).notNull(),
+}, (table) => ({
+  chainIdx: index("audit_checkpoints_chain_idx").on(table.chainKey, table.sequence),
+}))
+
+export const auditRetentionPolicies = pgTable("audit_retention_policies", {
+  schoolId: text("school_id")
+    .primaryKey()
+    .references(() => schools.id, { onDelete: "cascade" }),
+  // Entries older than this move to audit_log_archive; nothing is deleted
+  archiveAfterDays: integer("archive_after_days").notNull(),
+  updatedBy: text("updated_by").references(() => users.id),
+  updatedAt: timestamp("updated_at", { withTimezone: true }).default(sql`NOW()`).notNull(),
 })
 
 export const timecardCorrections = pgTable("timecard_corrections", {
@@ -845,7 +1213,7 @@ export const jobs = pgTable("jobs", {
   id: text("id").primaryKey().$defaultFn(() => crypto.randomUUID()),
   type: text("type").notNull(), // e.g., 'EMAIL', 'REPORT'
   payload: jsonb("payload").notNull(),
-  status: text("status", { enum: ["PENDING", "PROCESSING", "COMPLETED", "FAILED"] })
+  status: text("status", { enum: ["PENDING", "PROCESSING", "COMPLETED", "DEAD"] })
     .default("PENDING")
     .notNull(),
   attempts: integer("attempts").default(0).notNull(),
@@ -858,6 +1226,7 @@ export const jobs = pgTable("jobs", {
 }, (table) => ({
   statusIdx: index("jobs_status_idx").on(table.status),
   runAtIdx: index("jobs_run_at_idx").on(table.runAt),
+  statusRunAtIdx: index("jobs_status_run_at_idx").on(table.status, table.runAt),
   typeIdx: index("jobs_type_idx").on(table.type),
 }))
 
@@ -1068,6 +1437,38 @@ export const scheduledReports = pgTable("scheduled_reports", {
     .notNull(),
 })
 
+// Scheduled Report Run History - one row per execution (scheduled or manual)
+export const scheduledReportRuns = pgTable("scheduled_report_runs", {
+  id: text("id").primaryKey().$defaultFn(() => crypto.randomUUID()),
+  scheduledReportId: text("scheduled_report_id")
+    .references(() => scheduledReports.id, { onDelete: "cascade" })
+    .notNull(),
+  schoolId: text("school_id")
+    .references(() => schools.id, { onDelete: "cascade" })
+    .notNull(),
+  jobId: text("job_id").references(() => jobs.id, { onDelete: "set null" }),
+  trigger: text("trigger", { enum: ["SCHEDULED", "MANUAL"] }).default("SCHEDULED").notNull(),
+  triggeredBy: text("triggered_by").references(() => users.id, { onDelete: "set null" }),
+  status: text("status", { enum: ["PENDING", "RUNNING", "SUCCEEDED", "FAILED"] })
+    .default("PENDING")
+    .notNull(),
+  format: text("format", { enum: ["pdf", "excel"] }).notNull(),
+  periodStart: timestamp("period_start", { withTimezone: true }),
+  periodEnd: timestamp("period_end", { withTimezone: true }),
+  recipientCount: integer("recipient_count").default(0).notNull(),
+  artifactSize: integer("artifact_size"), // bytes
+  error: text("error"),
+  startedAt: timestamp("started_at", { withTimezone: true }),
+  completedAt: timestamp("completed_at", { withTimezone: true }),
+  createdAt: timestamp("created_at", { withTimezone: true }).defaultNow().notNull(),
+}, (table) => ({
+  reportCreatedIdx: index("scheduled_report_runs_report_created_idx").on(
+    table.scheduledReportId,
+    table.createdAt
+  ),
+  statusIdx: index("scheduled_report_runs_status_idx").on(table.status),
+}))
+
 // Duplicate removed - using Neon-compatible version below
 
 // Onboarding Session Management Table - Neon Compatible
@@ -1189,6 +1590,8 @@ export const clinicalSiteLocations = pgTable("clinical_site_locations", {
   latitude: decimal("latitude", { precision: 10, scale: 8 }).notNull(),
   longitude: decimal("longitude", { precision: 11, scale: 8 }).notNull(),
   radius: integer("radius").default(100).notNull(), // meters
+  // GeoJSON Polygon or MultiPolygon; when set it replaces the radius check
+  boundary: jsonb("boundary"),
   strictGeofence: boolean("strict_geofence").default(false).notNull(),
   isActive: boolean("is_active").default(true).notNull(),
   isPrimary: boolean("is_primary").default(false).notNull(), // primary location for the site
@@ -1267,6 +1670,7 @@ export const facilityManagement = pgTable("facility_management", {
   latitude: decimal("latitude", { precision: 10, scale: 8 }).notNull(),
   longitude: decimal("longitude", { precision: 11, scale: 8 }).notNull(),
   geofenceRadius: integer("geofence_radius").default(100).notNull(),
+  boundary: jsonb("boundary"), // GeoJSON Polygon or MultiPolygon
   strictGeofence: boolean("strict_geofence").default(false).notNull(),
   isActive: boolean("is_active").default(true).notNull(),
   isCustom: boolean("is_custom").default(false).notNull(),
@@ -1308,9 +1712,39 @@ export const notifications = pgTable("notifications", {
   data: jsonb("data").default({}).notNull(),
   actionUrl: text("action_url"),
   expiresAt: timestamp("expires_at", { withTimezone: true }),
+  dismissedAt: timestamp("dismissed_at", { withTimezone: true }),
+  // Waiting to be included in the user's next digest email
+  digestPending: boolean("digest_pending").default(false).notNull(),
   createdAt: timestamp("created_at", { withTimezone: true }).default(sql`NOW()`).notNull(),
   updatedAt: timestamp("updated_at", { withTimezone: true }).default(sql`NOW()`).notNull(),
-})
+}, (table) => ({
+  userCreatedIdx: index("notifications_user_created_idx").on(table.userId, table.createdAt, table.id),
+  userReadIdx: index("notifications_user_read_idx").on(table.userId, table.isRead),
+  expiresIdx: index("notifications_expires_idx").on(table.expiresAt),
+}))
+
+// Per-user delivery channels for each notification type
+export const notificationPreferences = pgTable("notification_preferences", {
+  id: text("id")
+    .primaryKey()
+    .$defaultFn(() => crypto.randomUUID()),
+  userId: text("user_id")
+    .references(() => users.id, { onDelete: "cascade" })
+    .notNull(),
+  notificationType: text("notification_type", {
+    enum: ["info", "warning", "error", "success", "reminder", "assignment", "evaluation", "system"]
+  }).notNull(),
+  inApp: boolean("in_app").default(true).notNull(),
+  email: boolean("email").default(true).notNull(),
+  digest: boolean("digest").default(false).notNull(),
+  createdAt: timestamp("created_at", { withTimezone: true }).default(sql`NOW()`).notNull(),
+  updatedAt: timestamp("updated_at", { withTimezone: true }).default(sql`NOW()`).notNull(),
+}, (table) => ({
+  userTypeIdx: uniqueIndex("notification_preferences_user_type_idx").on(
+    table.userId,
+    table.notificationType
+  ),
+}))
 
 // Documents table - Document management system
 export const documents = pgTable("documents", {
@@ -1479,6 +1913,8 @@ export type Subscription = typeof subscriptions.$inferSelect
 export type NewSubscription = typeof subscriptions.$inferInsert
 export type School = typeof schools.$inferSelect
 export type NewSchool = typeof schools.$inferInsert
+export type SeatAssignment = typeof seatAssignments.$inferSelect
+export type InboundWebhookEvent = typeof inboundWebhookEvents.$inferSelect
 export type Program = typeof programs.$inferSelect
 export type NewProgram = typeof programs.$inferInsert
 export type ClinicalSite = typeof clinicalSites.$inferSelect
@@ -1489,6 +1925,24 @@ export type Rotation = typeof rotations.$inferSelect
 export type NewRotation = typeof rotations.$inferInsert
 export type TimeRecord = typeof timeRecords.$inferSelect
 export type NewTimeRecord = typeof timeRecords.$inferInsert
+export type IdempotencyKey = typeof idempotencyKeys.$inferSelect
+export type NewIdempotencyKey = typeof idempotencyKeys.$inferInsert
+export type ClinicalHoursPolicy = typeof clinicalHoursPolicies.$inferSelect
+export type NewClinicalHoursPolicy = typeof clinicalHoursPolicies.$inferInsert
+export type ClinicalHoursLedgerEntry = typeof clinicalHoursLedger.$inferSelect
+export type NewClinicalHoursLedgerEntry = typeof clinicalHoursLedger.$inferInsert
+export type ApiKey = typeof apiKeys.$inferSelect
+export type NewApiKey = typeof apiKeys.$inferInsert
+export type WebhookEndpoint = typeof webhookEndpoints.$inferSelect
+export type NewWebhookEndpoint = typeof webhookEndpoints.$inferInsert
+export type WebhookDelivery = typeof webhookDeliveries.$inferSelect
+export type NewWebhookDelivery = typeof webhookDeliveries.$inferInsert
+export type CalendarFeed = typeof calendarFeeds.$inferSelect
+export type NewCalendarFeed = typeof calendarFeeds.$inferInsert
+export type EvaluationSignature = typeof evaluationSignatures.$inferSelect
+export type NewEvaluationSignature = typeof evaluationSignatures.$inferInsert
+export type AuditCheckpoint = typeof auditCheckpoints.$inferSelect
+export type AuditRetentionPolicy = typeof auditRetentionPolicies.$inferSelect
 export type Competency = typeof competencies.$inferSelect
 export type NewCompetency = typeof competencies.$inferInsert
 export type Assessment = typeof assessments.$inferSelect
@@ -1509,6 +1963,8 @@ export type CompetencySubmission = typeof competencySubmissions.$inferSelect
 export type NewCompetencySubmission = typeof competencySubmissions.$inferInsert
 export type CompetencyVersion = typeof competencyVersions.$inferSelect
 export type NewCompetencyVersion = typeof competencyVersions.$inferInsert
+export type SiteSchoolAffiliation = typeof siteSchoolAffiliations.$inferSelect
+export type PreceptorSchoolAffiliation = typeof preceptorSchoolAffiliations.$inferSelect
 export type ImportExportLog = typeof importExportLogs.$inferSelect
 export type NewImportExportLog = typeof importExportLogs.$inferInsert
 export type NotificationTemplate = typeof notificationTemplates.$inferSelect
@@ -1529,6 +1985,8 @@ export type SiteAssignment = typeof siteAssignments.$inferSelect
 export type NewSiteAssignment = typeof siteAssignments.$inferInsert
 export type ScheduledReport = typeof scheduledReports.$inferSelect
 export type NewScheduledReport = typeof scheduledReports.$inferInsert
+export type ScheduledReportRun = typeof scheduledReportRuns.$inferSelect
+export type NewScheduledReportRun = typeof scheduledReportRuns.$inferInsert
 export type OnboardingAnalytics = typeof onboardingAnalytics.$inferSelect
 export type NewOnboardingAnalytics = typeof onboardingAnalytics.$inferInsert
 export type OnboardingSession = typeof onboardingSessions.$inferSelect
@@ -1537,6 +1995,8 @@ export type FacilityManagement = typeof facilityManagement.$inferSelect
 export type NewFacilityManagement = typeof facilityManagement.$inferInsert
 export type Notification = typeof notifications.$inferSelect
 export type NewNotification = typeof notifications.$inferInsert
+export type NotificationPreference = typeof notificationPreferences.$inferSelect
+export type NewNotificationPreference = typeof notificationPreferences.$inferInsert
 export type Document = typeof documents.$inferSelect
 export type NewDocument = typeof documents.$inferInsert
 export type Student = typeof students.$inferSelect
@@ -1553,6 +2013,8 @@ export type CohortRotationAssignment = typeof cohortRotationAssignments.$inferSe
 export type NewCohortRotationAssignment = typeof cohortRotationAssignments.$inferInsert
 export type Cohort = typeof cohorts.$inferSelect
 export type NewCohort = typeof cohorts.$inferInsert
+export type Job = typeof jobs.$inferSelect
+export type NewJob = typeof jobs.$inferInsert
 
 // Materialized Views (defined as tables for querying)
 export const mvUserProgressSummary = pgTable("mv_user_progress_summary", {
@@ -1690,6 +2152,13 @@ export const qualityReviews = pgTable("quality_reviews", {
   recommendations: jsonb("recommendations").default([]).notNull(), // Array of strings
   followUpRequired: boolean("follow_up_required").default(false).notNull(),
   followUpDate: timestamp("follow_up_date", { withTimezone: true }),
+  followUpReminderSentAt: timestamp("follow_up_reminder_sent_at", { withTimezone: true }), // Cleared when the date moves
+  clinicalSiteId: text("clinical_site_id")
+    .references(() => clinicalSites.id, { onDelete: "set null" }),
+  // MANUAL reviews are opened by a supervisor, AUTOMATIC ones by the quality sweep
+  source: text("source", { enum: ["MANUAL", "AUTOMATIC"] }).default("MANUAL").notNull(),
+  triggerReason: text("trigger_reason"),
+  completedAt: timestamp("completed_at", { withTimezone: true }), // Cleared when reopened
   reviewDate: timestamp("review_date", { withTimezone: true }).defaultNow().notNull(),
   createdAt: timestamp("created_at", { withTimezone: true }).defaultNow().notNull(),
   updatedAt: timestamp("updated_at", { withTimezone: true }).defaultNow().notNull(),
@@ -1697,11 +2166,58 @@ export const qualityReviews = pgTable("quality_reviews", {
   schoolIdx: index("quality_reviews_school_idx").on(table.schoolId),
   reviewerIdx: index("quality_reviews_reviewer_idx").on(table.reviewerId),
   statusIdx: index("quality_reviews_status_idx").on(table.status),
+  siteIdx: index("quality_reviews_site_idx").on(table.clinicalSiteId),
 }))
 
 export type QualityReview = typeof qualityReviews.$inferSelect
 export type NewQualityReview = typeof qualityReviews.$inferInsert
 
+// Improvement plans agreed after a review, tracked through their milestones
+export const qualityImprovementPlans = pgTable("quality_improvement_plans", {
+  id: text("id").primaryKey().$defaultFn(() => crypto.randomUUID()),
+  reviewId: text("review_id")
+    .references(() => qualityReviews.id, { onDelete: "cascade" })
+    .notNull(),
+  schoolId: text("school_id")
+    .references(() => schools.id, { onDelete: "cascade" })
+    .notNull(),
+  title: text("title").notNull(),
+  description: text("description"),
+  ownerId: text("owner_id").references(() => users.id, { onDelete: "set null" }),
+  status: text("status", {
+    enum: ["not_started", "in_progress", "completed", "cancelled"]
+  }).default("not_started").notNull(),
+  dueDate: timestamp("due_date", { withTimezone: true }).notNull(),
+  completedAt: timestamp("completed_at", { withTimezone: true }),
+  createdBy: text("created_by").references(() => users.id, { onDelete: "set null" }),
+  createdAt: timestamp("created_at", { withTimezone: true }).defaultNow().notNull(),
+  updatedAt: timestamp("updated_at", { withTimezone: true }).defaultNow().notNull(),
+}, (table) => ({
+  reviewIdx: index("quality_plans_review_idx").on(table.reviewId),
+  schoolIdx: index("quality_plans_school_idx").on(table.schoolId),
+  ownerIdx: index("quality_plans_owner_idx").on(table.ownerId),
+}))
+
+export const qualityPlanMilestones = pgTable("quality_plan_milestones", {
+  id: text("id").primaryKey().$defaultFn(() => crypto.randomUUID()),
+  planId: text("plan_id")
+    .references(() => qualityImprovementPlans.id, { onDelete: "cascade" })
+    .notNull(),
+  title: text("title").notNull(),
+  dueDate: timestamp("due_date", { withTimezone: true }),
+  completedAt: timestamp("completed_at", { withTimezone: true }),
+  sortOrder: integer("sort_order").default(0).notNull(),
+  createdAt: timestamp("created_at", { withTimezone: true }).defaultNow().notNull(),
+  updatedAt: timestamp("updated_at", { withTimezone: true }).defaultNow().notNull(),
+}, (table) => ({
+  planIdx: index("quality_milestones_plan_idx").on(table.planId),
+}))
+
+export type QualityImprovementPlan = typeof qualityImprovementPlans.$inferSelect
+export type NewQualityImprovementPlan = typeof qualityImprovementPlans.$inferInsert
+export type QualityPlanMilestone = typeof qualityPlanMilestones.$inferSelect
+export type NewQualityPlanMilestone = typeof qualityPlanMilestones.$inferInsert
+
 
 // Compliance & Requirement Center Tables
 
@@ -1756,11 +2272,13 @@ export const complianceSubmissions = pgTable("compliance_submissions", {
     .references(() => users.id, { onDelete: "set null" }),
   reviewedAt: timestamp("reviewed_at", { withTimezone: true }),
   expiresAt: timestamp("expires_at", { withTimezone: true }),
+  lastReminderDays: integer("last_reminder_days"), // Smallest reminder offset already sent
   createdAt: timestamp("created_at", { withTimezone: true }).default(sql`NOW()`).notNull(),
   updatedAt: timestamp("updated_at", { withTimezone: true }).default(sql`NOW()`).notNull(),
 }, (table) => ({
   studentReqIdx: index("compliance_sub_student_req_idx").on(table.studentId, table.requirementId),
   statusIdx: index("compliance_sub_status_idx").on(table.status),
+  statusExpiresIdx: index("compliance_sub_status_expires_idx").on(table.status, table.expiresAt),
 }))
 
 export type ComplianceRequirement = typeof complianceRequirements.$inferSelect
@@ -0,0 +1,65 @@
+import { useEffect, useState } from "react"
+import type { ChangePreview, PreviewLine } from "@/lib/payments/proration"
+import { safeFetchApi } from "@/lib/safe-fetch"
+
+// Dates arrive as ISO strings from the preview API
+export type PreviewLineData = Omit<PreviewLine, "periodStart" | "periodEnd"> & {
+  periodStart: string
+  periodEnd: string
+}
+
+export type ChangePreviewData = Omit<ChangePreview, "lines" | "nextInvoiceDate"> & {
+  lines: PreviewLineData[]
+  nextInvoiceDate: string
+}
+
+export type ChangePreviewQuery =
+  | { type: "plan_switch"; priceId: string }
+  | { type: "seat_purchase"; schoolId: string; quantity: number; interval: "month" | "year" }
+
+const DEBOUNCE_MS = 400
+
+/**
+ * Fetches what a change will cost from /api/billing/preview, debounced so
+ * typing a seat count does not hit Stripe on every keystroke. Pass null to
+ * skip, e.g. while the current plan is selected.
+ */
+export function useChangePreview(query: ChangePreviewQuery | null) {
+  const [preview, setPreview] = useState<ChangePreviewData | null>(null)
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const search = query
+    ? new URLSearchParams(
+        Object.entries(query).map(([key, value]) => [key, String(value)])
+      ).toString()
+    : null
+
+  useEffect(() => {
+    setPreview(null)
+    setError(null)
+    if (!search) {
+      setLoading(false)
+      return
+    }
+
+    let cancelled = false
+    setLoading(true)
+    const timer = setTimeout(async () => {
+      const result = await safeFetchApi<{ preview: ChangePreviewData }>(
+        `/api/billing/preview?${search}`
+      )
+      if (cancelled) return
+      if (result.success && result.data) setPreview(result.data.preview)
+      else setError(result.error || "Failed to load pricing")
+      setLoading(false)
+    }, DEBOUNCE_MS)
+
+    return () => {
+      cancelled = true
+      clearTimeout(timer)
+    }
+  }, [search])
+
+  return { preview, loading, error }
+}
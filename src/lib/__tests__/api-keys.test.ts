@@ -0,0 +1,66 @@
+import { describe, expect, it, vi } from "vitest"
+
+vi.mock("@/database/connection-pool", () => ({ db: {} }))
+
+import {
+  API_KEY_PREFIX,
+  authenticateApiKey,
+  extractApiKey,
+  generateApiKey,
+  getApiKeyStatus,
+  hasApiKeyScopes,
+  hashApiKey,
+} from "../api-keys"
+
+describe("generateApiKey", () => {
+  it("returns a prefixed secret with a matching hash and display prefix", () => {
+    const { secret, prefix, keyHash } = generateApiKey()
+
+    expect(secret.startsWith(API_KEY_PREFIX)).toBe(true)
+    expect(secret.startsWith(prefix)).toBe(true)
+    expect(prefix.length).toBeLessThan(secret.length - 20)
+    expect(keyHash).toBe(hashApiKey(secret))
+    expect(keyHash).not.toContain(secret)
+    expect(generateApiKey().secret).not.toBe(secret)
+  })
+})
+
+describe("extractApiKey", () => {
+  it("reads the X-API-Key header and msk_ bearer tokens only", () => {
+    expect(extractApiKey(new Headers({ "X-API-Key": "msk_abc" }))).toBe("msk_abc")
+    expect(extractApiKey(new Headers({ Authorization: "Bearer msk_abc" }))).toBe("msk_abc")
+    // Other bearer tokens belong to other auth schemes
+    expect(extractApiKey(new Headers({ Authorization: "Bearer eyJhbGciOi" }))).toBeNull()
+    expect(extractApiKey(new Headers())).toBeNull()
+  })
+})
+
+describe("hasApiKeyScopes", () => {
+  it("requires every requested scope", () => {
+    const granted = ["clinical_hours:read", "rotations:read"]
+
+    expect(hasApiKeyScopes(granted, ["clinical_hours:read"])).toBe(true)
+    expect(hasApiKeyScopes(granted, ["clinical_hours:read", "students:write"])).toBe(false)
+  })
+})
+
+describe("getApiKeyStatus", () => {
+  const now = new Date("2026-03-01T00:00:00Z")
+
+  it("reports revoked ahead of expired and expires at expiresAt", () => {
+    expect(getApiKeyStatus({ revokedAt: null, expiresAt: null }, now)).toBe("active")
+    expect(getApiKeyStatus({ revokedAt: null, expiresAt: now }, now)).toBe("expired")
+    expect(
+      getApiKeyStatus({ revokedAt: now, expiresAt: new Date("2027-01-01T00:00:00Z") }, now)
+    ).toBe("revoked")
+  })
+})
+
+describe("authenticateApiKey", () => {
+  it("rejects secrets without the key prefix before querying", async () => {
+    await expect(authenticateApiKey("sk-1234567890abcdef")).resolves.toEqual({
+      success: false,
+      reason: "unknown",
+    })
+  })
+})
@@ -0,0 +1,32 @@
+import { describe, expect, it, vi } from "vitest"
+
+vi.mock("@/database/connection-pool", () => ({ db: {} }))
+
+import {
+  CALENDAR_FEED_TOKEN_PREFIX,
+  calendarFeedUrl,
+  generateCalendarToken,
+  hashCalendarToken,
+  parseCalendarToken,
+} from "../calendar-feeds"
+
+describe("calendar feed tokens", () => {
+  it("generates prefixed tokens that are only stored as hashes", () => {
+    const { token, tokenHash } = generateCalendarToken()
+
+    expect(token.startsWith(CALENDAR_FEED_TOKEN_PREFIX)).toBe(true)
+    expect(tokenHash).toBe(hashCalendarToken(token))
+    expect(tokenHash).not.toContain(token)
+    expect(generateCalendarToken().token).not.toBe(token)
+  })
+
+  it("round-trips through the feed URL with or without .ics", () => {
+    const { token } = generateCalendarToken()
+    const url = calendarFeedUrl("https://app.example.com/", token)
+
+    expect(url).toBe(`https://app.example.com/api/ical/${token}.ics`)
+    expect(parseCalendarToken(`${token}.ics`)).toBe(token)
+    expect(parseCalendarToken(token)).toBe(token)
+    expect(parseCalendarToken("not-a-token.ics")).toBeNull()
+  })
+})
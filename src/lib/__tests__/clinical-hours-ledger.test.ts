@@ -0,0 +1,127 @@
+import { describe, expect, it, vi } from "vitest"
+
+vi.mock("@/database/connection-pool", () => ({ db: {} }))
+vi.mock("@/lib/logger", () => ({ logger: { info: vi.fn(), error: vi.fn() } }))
+
+import {
+  computeLedgerEntries,
+  DEFAULT_HOURS_POLICY,
+  type HoursPolicy,
+  isoWeekStart,
+  type LedgerSourceRecord,
+  roundMinutes,
+  summarizeLedger,
+} from "../clinical-hours-ledger"
+
+function record(
+  id: string,
+  clockIn: string,
+  clockOut: string,
+  overrides: Partial<LedgerSourceRecord> = {}
+): LedgerSourceRecord {
+  return {
+    id,
+    studentId: "student-1",
+    rotationId: "rotation-1",
+    clinicalSiteId: "site-1",
+    specialty: "Emergency",
+    clockIn: new Date(clockIn),
+    clockOut: new Date(clockOut),
+    totalHours: null,
+    ...overrides,
+  }
+}
+
+describe("clinical hours ledger", () => {
+  it("credits raw minutes when no policy is configured", () => {
+    const [entry] = computeLedgerEntries(
+      [record("r1", "2025-03-03T08:00:00Z", "2025-03-03T16:07:00Z")],
+      DEFAULT_HOURS_POLICY
+    )
+    expect(entry).toMatchObject({
+      rawMinutes: 487,
+      breakMinutes: 0,
+      creditedMinutes: 487,
+      workDate: "2025-03-03",
+    })
+  })
+
+  it("deducts breaks before rounding", () => {
+    const policy: HoursPolicy = {
+      ...DEFAULT_HOURS_POLICY,
+      roundingIncrementMinutes: 15,
+      breakThresholdMinutes: 6 * 60,
+      breakDeductionMinutes: 30,
+    }
+    const [long, short] = computeLedgerEntries(
+      [
+        record("r1", "2025-03-03T08:00:00Z", "2025-03-03T16:07:00Z"),
+        record("r2", "2025-03-04T08:00:00Z", "2025-03-04T12:08:00Z"),
+      ],
+      policy
+    )
+    // 487 - 30 = 457 -> 450
+    expect(long).toMatchObject({ breakMinutes: 30, roundedMinutes: 450 })
+    // Under the threshold: 248 -> 255
+    expect(short).toMatchObject({ breakMinutes: 0, roundedMinutes: 255 })
+    expect(roundMinutes(248, 15, "DOWN")).toBe(240)
+    expect(roundMinutes(241, 15, "UP")).toBe(255)
+  })
+
+  it("fills daily and weekly caps in clock-in order", () => {
+    const policy: HoursPolicy = {
+      ...DEFAULT_HOURS_POLICY,
+      dailyCapMinutes: 10 * 60,
+      weeklyCapMinutes: 20 * 60,
+    }
+    const entries = computeLedgerEntries(
+      [
+        // Listed out of order on purpose
+        record("r3", "2025-03-04T07:00:00Z", "2025-03-04T19:00:00Z"),
+        record("r1", "2025-03-03T07:00:00Z", "2025-03-03T15:00:00Z"),
+        record("r2", "2025-03-03T16:00:00Z", "2025-03-03T20:00:00Z"),
+        record("r4", "2025-03-05T07:00:00Z", "2025-03-05T12:00:00Z"),
+      ],
+      policy
+    )
+
+    expect(entries.map((e) => [e.timeRecordId, e.creditedMinutes, e.cappedMinutes])).toEqual([
+      ["r1", 480, 0],
+      ["r2", 120, 120], // day capped at 10h
+      ["r3", 600, 120], // day capped at 10h
+      ["r4", 0, 300], // week capped at 20h
+    ])
+  })
+
+  it("uses the policy time zone for day boundaries", () => {
+    const [entry] = computeLedgerEntries(
+      [record("r1", "2025-03-03T02:00:00Z", "2025-03-03T06:00:00Z")],
+      { ...DEFAULT_HOURS_POLICY, timezone: "America/Chicago" }
+    )
+    expect(entry.workDate).toBe("2025-03-02")
+    expect(entry.weekStart).toBe("2025-02-24")
+    expect(isoWeekStart("2025-03-09")).toBe("2025-03-03")
+  })
+
+  it("rolls totals up with the records they came from", () => {
+    const entries = computeLedgerEntries(
+      [
+        record("r1", "2025-03-03T08:00:00Z", "2025-03-03T12:00:00Z"),
+        record("r2", "2025-03-04T08:00:00Z", "2025-03-04T11:30:00Z", {
+          rotationId: "rotation-2",
+          specialty: "Pediatrics",
+          clinicalSiteId: null,
+        }),
+      ],
+      DEFAULT_HOURS_POLICY
+    )
+    const summary = summarizeLedger(entries)
+
+    expect(summary.totalHours).toBe(7.5)
+    expect(summary.bySpecialty).toEqual([
+      { key: "Emergency", minutes: 240, hours: 4, timeRecordIds: ["r1"] },
+      { key: "Pediatrics", minutes: 210, hours: 3.5, timeRecordIds: ["r2"] },
+    ])
+    expect(summary.bySite.map((b) => b.key)).toEqual(["site-1", "unassigned"])
+  })
+})
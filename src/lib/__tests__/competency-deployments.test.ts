@@ -0,0 +1,87 @@
+import { describe, expect, it, vi } from "vitest"
+
+vi.mock("@/database/connection-pool", () => ({ db: {} }))
+vi.mock("@/lib/logger", () => ({ logger: { info: vi.fn(), error: vi.fn() } }))
+vi.mock("@/lib/notification-service", () => ({ sendNotificationToUsers: vi.fn() }))
+
+import {
+  bumpVersion,
+  changedFields,
+  deployCompetency,
+  deploymentTargets,
+  initialDeploymentStatus,
+} from "../competency-deployments"
+
+const current = {
+  name: "Venipuncture",
+  description: "Perform venipuncture correctly",
+  category: "Clinical Skills",
+  level: "FUNDAMENTAL" as const,
+  isRequired: true,
+  programId: "program-1",
+  criteria: null,
+  version: "1.0",
+}
+
+describe("competency versioning", () => {
+  it("bumps the minor version", () => {
+    expect(bumpVersion("1.0")).toBe("1.1")
+    expect(bumpVersion("2.9")).toBe("2.10")
+    expect(bumpVersion("3")).toBe("3.1")
+    expect(bumpVersion(null)).toBe("1.1")
+    expect(bumpVersion("draft")).toBe("1.1")
+  })
+
+  it("only reports fields the edit changes", () => {
+    expect(changedFields(current, { name: "Venipuncture", level: "ADVANCED" })).toEqual(["level"])
+    expect(changedFields(current, { description: undefined })).toEqual([])
+    expect(changedFields(current, { criteria: '["Select site"]', isRequired: false })).toEqual([
+      "isRequired",
+      "criteria",
+    ])
+  })
+})
+
+describe("deployment scheduling", () => {
+  const now = new Date("2026-08-20T12:00:00Z")
+
+  it("waits for a future effective date", () => {
+    expect(initialDeploymentStatus(new Date("2026-09-01T00:00:00Z"), now)).toBe("PENDING")
+    expect(initialDeploymentStatus(new Date("2026-08-01T00:00:00Z"), now)).toBe("ACTIVE")
+    expect(initialDeploymentStatus(null, now)).toBe("ACTIVE")
+  })
+
+  it("reads stored targets leniently", () => {
+    expect(deploymentTargets({ targetPrograms: '["p1","p2"]', targetUsers: null })).toEqual({
+      programs: ["p1", "p2"],
+      users: [],
+    })
+    expect(deploymentTargets({ targetPrograms: "not json", targetUsers: '[1,"u1"]' })).toEqual({
+      programs: [],
+      users: ["u1"],
+    })
+  })
+
+  it("rejects deployments without targets or with expiry before activation", async () => {
+    const input = {
+      schoolId: "school-1",
+      deployedBy: "admin-1",
+      competencyId: "competency-1",
+      targetPrograms: [],
+      targetUsers: [],
+    }
+
+    expect(await deployCompetency(input, now)).toEqual({ ok: false, reason: "no_targets" })
+    expect(
+      await deployCompetency(
+        {
+          ...input,
+          targetPrograms: ["program-1"],
+          effectiveDate: new Date("2026-09-01T00:00:00Z"),
+          expiryDate: new Date("2026-08-25T00:00:00Z"),
+        },
+        now
+      )
+    ).toEqual({ ok: false, reason: "invalid_schedule" })
+  })
+})
@@ -0,0 +1,187 @@
+import Papa from "papaparse"
+import { describe, expect, it, vi } from "vitest"
+
+vi.mock("@/database/connection-pool", () => ({ db: {} }))
+vi.mock("@/lib/logger", () => ({ logger: { info: vi.fn(), error: vi.fn() } }))
+vi.mock("@/lib/notification-service", () => ({ sendNotificationToUsers: vi.fn() }))
+
+import {
+  buildErrorFile,
+  parseImportContent,
+  planImport,
+  serializeRows,
+} from "../competency-import-export"
+
+const emptyIndex = () => ({ ids: new Set<string>(), byKey: new Map<string, string[]>() })
+
+function existing(records: { id: string; key: string }[] = [], competencies = records) {
+  const index = (list: { id: string; key: string }[]) => ({
+    ids: new Set(list.map((record) => record.id)),
+    byKey: new Map(list.map((record) => [record.key, [record.id]])),
+  })
+  return {
+    records: index(records),
+    competencyIndex: competencies.length ? index(competencies) : emptyIndex(),
+    programIds: new Set(["program-1"]),
+  }
+}
+
+describe("parseImportContent", () => {
+  it("reads CSV with a byte order mark and padded headers", () => {
+    const result = parseImportContent("﻿name , category\nSuturing,Clinical\n\n", "csv")
+    expect(result).toEqual({ ok: true, rows: [{ name: "Suturing", category: "Clinical" }] })
+  })
+
+  it("accepts a JSON array or an object with rows", () => {
+    expect(parseImportContent('[{"name":"A"}]', "json")).toEqual({
+      ok: true,
+      rows: [{ name: "A" }],
+    })
+    expect(parseImportContent('{"rows":[{"name":"A"}]}', "json")).toEqual({
+      ok: true,
+      rows: [{ name: "A" }],
+    })
+    expect(parseImportContent('{"name":"A"}', "json").ok).toBe(false)
+    expect(parseImportContent("[1, 2]", "json").ok).toBe(false)
+    expect(parseImportContent("not json", "json").ok).toBe(false)
+  })
+})
+
+describe("planImport", () => {
+  const competency = {
+    name: "Suturing",
+    description: "Close a simple laceration",
+    category: "Clinical",
+    level: "fundamental",
+  }
+
+  it("creates new rows and updates rows matching by natural key", () => {
+    const plan = planImport(
+      "competencies",
+      [competency, { ...competency, name: "Casting", isRequired: "yes" }],
+      existing([{ id: "comp-1", key: "casting|clinical" }])
+    )
+
+    expect(plan.errors).toEqual([])
+    expect(plan.rows.map((row) => [row.action, (row.values as { level: string }).level])).toEqual([
+      ["create", "FUNDAMENTAL"],
+      ["update", "FUNDAMENTAL"],
+    ])
+    expect(plan.rows[1].id).toBe("comp-1")
+    expect((plan.rows[1].values as { isRequired: boolean }).isRequired).toBe(true)
+  })
+
+  it("reports every invalid row with its field", () => {
+    const plan = planImport(
+      "competencies",
+      [
+        { ...competency, level: "NOVICE", isRequired: "maybe" },
+        { ...competency, name: "" },
+        { ...competency, name: "Casting", programId: "other-school" },
+        { ...competency, id: "unknown" },
+        { ...competency, criteria: "{not json" },
+      ],
+      existing()
+    )
+
+    expect(plan.rows).toEqual([])
+    expect(plan.errors.map((error) => [error.row, error.field])).toEqual([
+      [1, "level"],
+      [1, "isRequired"],
+      [2, "name"],
+      [3, "programId"],
+      [4, "id"],
+      [5, "criteria"],
+    ])
+    expect(plan.errors[2].message).toBe("Required")
+    expect(plan.errors[0].values).toMatchObject({ level: "NOVICE" })
+  })
+
+  it("rejects rows repeating a record earlier in the file", () => {
+    const plan = planImport(
+      "competencies",
+      [competency, { ...competency, name: " suturing " }],
+      existing()
+    )
+
+    expect(plan.rows).toHaveLength(1)
+    expect(plan.errors).toEqual([
+      expect.objectContaining({ row: 2, message: "Duplicate of row 1" }),
+    ])
+  })
+
+  it("resolves rubric criteria to a competency by name", () => {
+    const criterion = {
+      competency: "Suturing",
+      criterionName: "Technique",
+      description: "Uses correct technique",
+      performanceLevels: '["Novice","Competent"]',
+    }
+    const plan = planImport(
+      "rubric_criteria",
+      [criterion, { ...criterion, competency: "Casting" }],
+      existing([], [{ id: "comp-1", key: "suturing" }])
+    )
+
+    expect(plan.rows).toHaveLength(1)
+    expect(plan.rows[0].values).toMatchObject({
+      competencyId: "comp-1",
+      weight: "1.0",
+      maxScore: "5.0",
+      orderIndex: 0,
+    })
+    expect(plan.errors).toEqual([
+      expect.objectContaining({
+        row: 2,
+        field: "competency",
+        message: "No competency with this name in your school",
+      }),
+    ])
+  })
+})
+
+describe("file output", () => {
+  it("escapes formulae in CSV exports and strips the escape on import", () => {
+    const csv = serializeRows(
+      [{ name: "=HYPERLINK()", description: "Plain" }],
+      ["name", "description"],
+      "csv"
+    )
+    expect(csv).toContain("'=HYPERLINK()")
+
+    const parsed = parseImportContent(csv, "csv")
+    const plan = planImport(
+      "competencies",
+      parsed.ok
+        ? parsed.rows.map((row) => ({ ...row, category: "Clinical", level: "EXPERT" }))
+        : [],
+      existing()
+    )
+    expect(plan.rows[0].values).toMatchObject({ name: "=HYPERLINK()" })
+  })
+
+  it("embeds JSON columns as JSON in JSON exports", () => {
+    const json = serializeRows(
+      [{ id: "c1", criteria: '["a"]', extra: "ignored" }],
+      ["id", "criteria", "name"],
+      "json",
+      ["criteria"]
+    )
+    expect(JSON.parse(json)).toEqual([{ id: "c1", criteria: ["a"], name: null }])
+  })
+
+  it("lists failed rows with their reason and original values", () => {
+    const csv = buildErrorFile(
+      [
+        { row: 2, field: "level", message: "Invalid option", values: { name: "A", level: "X" } },
+        { row: 5, message: "Duplicate of row 1", values: { name: "B" } },
+      ],
+      "csv"
+    )
+
+    expect(Papa.parse(csv, { header: true }).data).toEqual([
+      { row: "2", field: "level", error: "Invalid option", name: "A", level: "X" },
+      { row: "5", field: "", error: "Duplicate of row 1", name: "B", level: "" },
+    ])
+  })
+})
@@ -0,0 +1,50 @@
+import { describe, expect, it, vi } from "vitest"
+
+vi.mock("@/database/connection-pool", () => ({ db: {} }))
+vi.mock("@/lib/logger", () => ({ logger: { info: vi.fn(), error: vi.fn() } }))
+vi.mock("../compliance-notifications", () => ({}))
+
+import {
+  calculateNextDueDate,
+  dueReminderOffset,
+  getReminderOffsets,
+  resolveExpiry,
+} from "../compliance-expiry"
+
+describe("compliance expiry", () => {
+  const approvedAt = new Date("2025-03-15T12:00:00Z")
+
+  it("derives the next due date from the requirement frequency", () => {
+    expect(calculateNextDueDate("ANNUAL", approvedAt)?.toISOString()).toBe(
+      "2026-03-15T12:00:00.000Z"
+    )
+    expect(calculateNextDueDate("BIENNIAL", approvedAt)?.toISOString()).toBe(
+      "2027-03-15T12:00:00.000Z"
+    )
+    expect(calculateNextDueDate("ONCE", approvedAt)).toBeNull()
+
+    const explicit = new Date("2025-09-01T00:00:00Z")
+    expect(resolveExpiry("ANNUAL", explicit, approvedAt)).toBe(explicit)
+  })
+
+  it("parses reminder offsets and falls back to the defaults", () => {
+    expect(getReminderOffsets("3, 30,14,14")).toEqual([30, 14, 3])
+    expect(getReminderOffsets("")).toEqual([30, 14, 3])
+    expect(getReminderOffsets("abc,-2")).toEqual([30, 14, 3])
+  })
+
+  it("sends each reminder offset once, skipping offsets already passed", () => {
+    const offsets = [30, 14, 3]
+    const now = new Date("2026-01-01T06:00:00Z")
+    const inDays = (days: number) => new Date(now.getTime() + days * 24 * 60 * 60 * 1000)
+
+    expect(dueReminderOffset(inDays(45), now, offsets, null)).toBeNull()
+    expect(dueReminderOffset(inDays(30), now, offsets, null)).toBe(30)
+    expect(dueReminderOffset(inDays(20), now, offsets, 30)).toBeNull()
+    // First seen 10 days out: only the 14-day reminder goes out
+    expect(dueReminderOffset(inDays(10), now, offsets, null)).toBe(14)
+    expect(dueReminderOffset(inDays(2), now, offsets, 14)).toBe(3)
+    expect(dueReminderOffset(inDays(2), now, offsets, 3)).toBeNull()
+    expect(dueReminderOffset(inDays(-1), now, offsets, null)).toBeNull()
+  })
+})
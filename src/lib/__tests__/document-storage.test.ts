@@ -0,0 +1,128 @@
+import { mkdtemp, rm } from "node:fs/promises"
+import { tmpdir } from "node:os"
+import path from "node:path"
+import { afterAll, afterEach, describe, expect, it, vi } from "vitest"
+
+vi.mock("@/database/connection-pool", () => ({ db: {} }))
+
+import { evaluateDocumentAccess } from "../documents/access"
+import { createSignedDownloadUrl, verifySignedDownload } from "../documents/signed-url"
+import { sanitizeFileName, validateUpload } from "../documents/upload-policy"
+import { getStorageAdapter, LocalStorageAdapter } from "../storage"
+
+const pdf = Buffer.from("%PDF-1.7\n...")
+
+describe("document upload policy", () => {
+  it("enforces MIME allow-lists, size limits and file signatures", () => {
+    expect(
+      validateUpload({ documentType: "medical", mimeType: "application/pdf", content: pdf })
+    ).toBeNull()
+    expect(
+      validateUpload({ documentType: "transcript", mimeType: "image/png", content: pdf })
+    ).toMatch(/not allowed/)
+    expect(
+      validateUpload({
+        documentType: "medical",
+        mimeType: "application/pdf",
+        content: Buffer.from("<html>not a pdf</html>"),
+      })
+    ).toMatch(/does not match/)
+    expect(
+      validateUpload({
+        documentType: "medical",
+        mimeType: "application/pdf",
+        content: Buffer.concat([pdf, Buffer.alloc(11 * 1024 * 1024)]),
+      })
+    ).toMatch(/10 MB/)
+    expect(sanitizeFileName('..\\..\\etc/"passwd"\u0000')).toBe("passwd")
+  })
+})
+
+describe("signed download URLs", () => {
+  const secret = "test-secret"
+  const now = new Date("2026-01-01T00:00:00Z")
+
+  it("accepts a fresh signature and rejects tampered or expired links", () => {
+    const { url } = createSignedDownloadUrl("doc-1", { secret, now, ttlSeconds: 60 })
+    const params = new URL(url, "http://localhost").searchParams
+    const expires = params.get("expires")
+    const signature = params.get("signature")
+
+    expect(verifySignedDownload("doc-1", expires, signature, { secret, now })).toBe(true)
+    expect(verifySignedDownload("doc-2", expires, signature, { secret, now })).toBe(false)
+    expect(
+      verifySignedDownload("doc-1", String(Number(expires) + 60), signature, { secret, now })
+    ).toBe(false)
+    expect(
+      verifySignedDownload("doc-1", expires, signature, {
+        secret,
+        now: new Date(now.getTime() + 61_000),
+      })
+    ).toBe(false)
+  })
+})
+
+describe("document access", () => {
+  const document = { uploadedBy: "student-1", isPublic: false }
+  const check = (viewer: { userId: string; userRole: string; schoolId: string | null }) =>
+    evaluateDocumentAccess({
+      viewer,
+      document,
+      uploaderSchoolId: "school-1",
+      isRecordedReviewer: false,
+    })
+
+  it("allows the owner, school admins and reviewers only", () => {
+    expect(check({ userId: "student-1", userRole: "STUDENT", schoolId: "school-1" })).toBe(true)
+    expect(check({ userId: "admin", userRole: "SCHOOL_ADMIN", schoolId: "school-1" })).toBe(true)
+    expect(check({ userId: "sup", userRole: "CLINICAL_SUPERVISOR", schoolId: "school-1" })).toBe(
+      true
+    )
+    expect(check({ userId: "admin", userRole: "SCHOOL_ADMIN", schoolId: "school-2" })).toBe(false)
+    expect(check({ userId: "student-2", userRole: "STUDENT", schoolId: "school-1" })).toBe(false)
+  })
+})
+
+describe("LocalStorageAdapter", () => {
+  let root: string | undefined
+
+  afterAll(async () => {
+    if (root) await rm(root, { recursive: true, force: true })
+  })
+
+  it("round-trips objects and keeps keys inside the root", async () => {
+    root = await mkdtemp(path.join(tmpdir(), "storage-test-"))
+    const storage = new LocalStorageAdapter(root)
+
+    await storage.put("school-1/medical/a.pdf", pdf, { contentType: "application/pdf" })
+    expect(await storage.get("school-1/medical/a.pdf")).toEqual(pdf)
+
+    await storage.delete("school-1/medical/a.pdf")
+    expect(await storage.get("school-1/medical/a.pdf")).toBeNull()
+
+    await expect(
+      storage.put("../escape.pdf", pdf, { contentType: "application/pdf" })
+    ).rejects.toThrow(/Invalid storage key/)
+  })
+})
+
+describe("getStorageAdapter", () => {
+  afterEach(() => {
+    vi.unstubAllEnvs()
+  })
+
+  it("refuses to fall back to local disk in production", () => {
+    vi.stubEnv("NODE_ENV", "production")
+    vi.stubEnv("STORAGE_DRIVER", undefined)
+    expect(() => getStorageAdapter()).toThrow(/STORAGE_DRIVER is required in production/)
+
+    vi.stubEnv("STORAGE_DRIVER", "local")
+    expect(() => getStorageAdapter()).toThrow(/not durable storage/)
+  })
+
+  it("defaults to local disk outside production", () => {
+    vi.stubEnv("NODE_ENV", "test")
+    vi.stubEnv("STORAGE_DRIVER", undefined)
+    expect(getStorageAdapter()).toBeInstanceOf(LocalStorageAdapter)
+  })
+})
@@ -0,0 +1,122 @@
+import { describe, expect, it, vi } from "vitest"
+
+vi.mock("@/database/connection-pool", () => ({ db: {} }))
+vi.mock("@/lib/logger", () => ({ logger: { info: vi.fn(), error: vi.fn() } }))
+vi.mock("@/lib/notification-service", () => ({
+  sendNotification: vi.fn(),
+  sendNotificationToUsers: vi.fn(),
+}))
+
+import {
+  dueDunningReminder,
+  getDunningReminderDays,
+  getGracePeriodDays,
+  isRefusedWhenReadOnly,
+  subscriptionAccessFor,
+} from "../payments/dunning"
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+describe("dunning configuration", () => {
+  it("parses the grace period and falls back to the default", () => {
+    expect(getGracePeriodDays("21")).toBe(21)
+    expect(getGracePeriodDays("0")).toBe(0)
+    expect(getGracePeriodDays("")).toBe(14)
+    expect(getGracePeriodDays("-3")).toBe(14)
+  })
+
+  it("parses reminder days earliest first", () => {
+    expect(getDunningReminderDays("7, 0,3,3")).toEqual([0, 3, 7])
+    expect(getDunningReminderDays("abc")).toEqual([0, 3, 7, 12])
+  })
+})
+
+describe("subscriptionAccessFor", () => {
+  const now = new Date("2026-03-20T12:00:00Z")
+  const student = {
+    role: "STUDENT" as const,
+    subscriptionStatus: "ACTIVE" as const,
+    pastDueSince: null,
+  }
+
+  it("keeps full access for paying students and other roles", () => {
+    expect(subscriptionAccessFor(student, now, 14).access).toBe("FULL")
+    expect(subscriptionAccessFor({ ...student, subscriptionStatus: "NONE" }, now, 14).access).toBe(
+      "FULL"
+    )
+    expect(
+      subscriptionAccessFor(
+        { ...student, role: "SCHOOL_ADMIN", subscriptionStatus: "PAST_DUE" },
+        now,
+        14
+      ).access
+    ).toBe("FULL")
+  })
+
+  it("keeps past due students fully working until the grace period ends", () => {
+    const pastDueSince = new Date(now.getTime() - 13 * DAY_MS)
+    const state = subscriptionAccessFor(
+      { ...student, subscriptionStatus: "PAST_DUE", pastDueSince },
+      now,
+      14
+    )
+    expect(state.access).toBe("GRACE")
+    expect(state.graceEndsAt?.toISOString()).toBe("2026-03-21T12:00:00.000Z")
+  })
+
+  it("downgrades to read-only after the grace period and on cancellation", () => {
+    const pastDueSince = new Date(now.getTime() - 14 * DAY_MS)
+    expect(
+      subscriptionAccessFor({ ...student, subscriptionStatus: "PAST_DUE", pastDueSince }, now, 14)
+        .access
+    ).toBe("READ_ONLY")
+    expect(
+      subscriptionAccessFor({ ...student, subscriptionStatus: "CANCELLED" }, now, 14).access
+    ).toBe("READ_ONLY")
+  })
+
+  it("starts the grace period now when the failure has not been swept yet", () => {
+    expect(
+      subscriptionAccessFor({ ...student, subscriptionStatus: "PAST_DUE" }, now, 14).access
+    ).toBe("GRACE")
+  })
+})
+
+describe("isRefusedWhenReadOnly", () => {
+  it("refuses writes to any API route", () => {
+    expect(isRefusedWhenReadOnly("POST", "/api/time-records")).toBe(true)
+    expect(isRefusedWhenReadOnly("PUT", "/api/timecard-corrections")).toBe(true)
+    expect(isRefusedWhenReadOnly("post", "/api/documents/upload")).toBe(true)
+    expect(isRefusedWhenReadOnly("DELETE", "/api/student/clock-outside")).toBe(true)
+  })
+
+  it("allows reads, clocking out, paying and the student's own settings", () => {
+    expect(isRefusedWhenReadOnly("GET", "/api/time-records")).toBe(false)
+    expect(isRefusedWhenReadOnly("POST", "/api/student/clock-out")).toBe(false)
+    expect(isRefusedWhenReadOnly("POST", "/api/clock/sync-out")).toBe(false)
+    expect(isRefusedWhenReadOnly("POST", "/api/billing/create-student-checkout")).toBe(false)
+    expect(isRefusedWhenReadOnly("PUT", "/api/notifications/read-all")).toBe(false)
+    expect(isRefusedWhenReadOnly("POST", "/dashboard/student")).toBe(false)
+  })
+})
+
+describe("dueDunningReminder", () => {
+  const pastDueSince = new Date("2026-03-01T09:00:00Z")
+  const after = (days: number) => new Date(pastDueSince.getTime() + days * DAY_MS)
+  const days = [0, 3, 7, 12]
+
+  it("sends each reminder once as the days pass", () => {
+    expect(dueDunningReminder(pastDueSince, after(0), days, 14, null)).toBe(0)
+    expect(dueDunningReminder(pastDueSince, after(1), days, 14, 0)).toBeNull()
+    expect(dueDunningReminder(pastDueSince, after(3), days, 14, 0)).toBe(3)
+    expect(dueDunningReminder(pastDueSince, after(3), days, 14, 3)).toBeNull()
+  })
+
+  it("sends only the latest reminder after a missed sweep", () => {
+    expect(dueDunningReminder(pastDueSince, after(8), days, 14, 0)).toBe(7)
+  })
+
+  it("leaves days past the grace period to the read-only notice", () => {
+    expect(dueDunningReminder(pastDueSince, after(12), days, 10, 7)).toBeNull()
+  })
+})
@@ -0,0 +1,199 @@
+import { describe, expect, it, vi } from "vitest"
+import type { Evaluation, EvaluationSignature } from "@/database/schema"
+
+vi.mock("@/database/connection-pool", () => ({ db: {} }))
+vi.mock("@/lib/webhooks", () => ({ emitWebhookEvent: vi.fn().mockResolvedValue(0) }))
+
+import {
+  buildEvaluationCertificate,
+  canonicalJson,
+  hashEvaluationContent,
+  summarizeSignatures,
+  verifyEvaluationCertificate,
+} from "../evaluation-signatures"
+
+const secret = "test-certificate-secret"
+
+function makeEvaluation(overrides: Partial<Evaluation> = {}): Evaluation {
+  return {
+    id: "eval-1",
+    assignmentId: "assignment-1",
+    studentId: "student-1",
+    rotationId: "rotation-1",
+    evaluatorId: "preceptor-1",
+    clinicalSiteId: null,
+    type: "FINAL",
+    period: null,
+    observationDate: new Date("2026-03-01T00:00:00Z"),
+    feedback: null,
+    overallRating: "4.00",
+    criteria: null,
+    metadata: null,
+    clinicalSkills: "4.00",
+    communication: "4.50",
+    professionalism: "5.00",
+    criticalThinking: "3.50",
+    strengths: "Thorough histories",
+    areasForImprovement: null,
+    goals: null,
+    comments: null,
+    studentComment: null,
+    studentCommentType: null,
+    studentSignature: false,
+    evaluatorSignature: false,
+    signedAt: null,
+    lockedAt: null,
+    createdAt: new Date("2026-03-01T00:00:00Z"),
+    updatedAt: new Date("2026-03-01T00:00:00Z"),
+    ...overrides,
+  } as Evaluation
+}
+
+function makeSignature(
+  evaluation: Evaluation,
+  role: EvaluationSignature["signerRole"],
+  overrides: Partial<EvaluationSignature> = {}
+): EvaluationSignature {
+  return {
+    id: `sig-${role}`,
+    evaluationId: evaluation.id,
+    signerId: role === "STUDENT" ? evaluation.studentId : evaluation.evaluatorId,
+    signerRole: role,
+    signedName: role === "STUDENT" ? "Jordan Student" : "Dr. Preceptor",
+    contentHash: hashEvaluationContent(evaluation, role),
+    ipAddress: "203.0.113.5",
+    userAgent: "vitest",
+    signedAt: new Date(role === "STUDENT" ? "2026-03-02T00:00:00Z" : "2026-03-01T12:00:00Z"),
+    invalidatedAt: null,
+    invalidatedReason: null,
+    ...overrides,
+  }
+}
+
+describe("canonicalJson", () => {
+  it("is independent of key order and serialises dates as ISO strings", () => {
+    const date = new Date("2026-01-01T00:00:00Z")
+    expect(canonicalJson({ b: 1, a: { d: date, c: null } })).toBe(
+      canonicalJson({ a: { c: null, d: date }, b: 1 })
+    )
+    expect(canonicalJson({ d: date })).toBe('{"d":"2026-01-01T00:00:00.000Z"}')
+  })
+})
+
+describe("hashEvaluationContent", () => {
+  it("changes both hashes when the evaluator edits the content", () => {
+    const original = makeEvaluation()
+    const edited = makeEvaluation({ strengths: "Thorough histories and exams" })
+
+    expect(hashEvaluationContent(edited, "EVALUATOR")).not.toBe(
+      hashEvaluationContent(original, "EVALUATOR")
+    )
+    expect(hashEvaluationContent(edited, "STUDENT")).not.toBe(
+      hashEvaluationContent(original, "STUDENT")
+    )
+  })
+
+  it("only changes the student hash when the student comments", () => {
+    const original = makeEvaluation()
+    const commented = makeEvaluation({
+      studentComment: "I disagree with the communication rating",
+      studentCommentType: "REBUTTAL",
+    })
+
+    expect(hashEvaluationContent(commented, "EVALUATOR")).toBe(
+      hashEvaluationContent(original, "EVALUATOR")
+    )
+    expect(hashEvaluationContent(commented, "STUDENT")).not.toBe(
+      hashEvaluationContent(original, "STUDENT")
+    )
+  })
+
+  it("ignores bookkeeping columns", () => {
+    const original = makeEvaluation()
+    const touched = makeEvaluation({ updatedAt: new Date(), evaluatorSignature: true })
+    expect(hashEvaluationContent(touched, "STUDENT")).toBe(
+      hashEvaluationContent(original, "STUDENT")
+    )
+  })
+})
+
+describe("summarizeSignatures", () => {
+  it("is fully signed when both current signatures match the content", () => {
+    const evaluation = makeEvaluation()
+    const summary = summarizeSignatures(evaluation, [
+      makeSignature(evaluation, "EVALUATOR"),
+      makeSignature(evaluation, "STUDENT"),
+    ])
+
+    expect(summary.evaluator?.valid).toBe(true)
+    expect(summary.student?.valid).toBe(true)
+    expect(summary.fullySigned).toBe(true)
+  })
+
+  it("flags signatures whose content has since changed", () => {
+    const signedVersion = makeEvaluation()
+    const signatures = [
+      makeSignature(signedVersion, "EVALUATOR"),
+      makeSignature(signedVersion, "STUDENT"),
+    ]
+    const summary = summarizeSignatures(makeEvaluation({ goals: "New goal" }), signatures)
+
+    expect(summary.evaluator?.valid).toBe(false)
+    expect(summary.student?.valid).toBe(false)
+    expect(summary.fullySigned).toBe(false)
+  })
+
+  it("ignores invalidated signatures", () => {
+    const evaluation = makeEvaluation()
+    const summary = summarizeSignatures(evaluation, [
+      makeSignature(evaluation, "EVALUATOR", {
+        invalidatedAt: new Date(),
+        invalidatedReason: "content_changed",
+      }),
+    ])
+
+    expect(summary.evaluator).toBeNull()
+    expect(summary.fullySigned).toBe(false)
+  })
+})
+
+describe("evaluation certificates", () => {
+  const parties = {
+    student: { id: "student-1", name: "Jordan Student" },
+    evaluator: { id: "preceptor-1", name: "Dr. Preceptor" },
+  }
+
+  it("is only issued once both parties have signed", () => {
+    const evaluation = makeEvaluation()
+    const certificate = buildEvaluationCertificate(
+      evaluation,
+      [makeSignature(evaluation, "EVALUATOR")],
+      parties,
+      { secret }
+    )
+    expect(certificate).toBeNull()
+  })
+
+  it("verifies an untouched certificate and rejects a tampered one", () => {
+    const evaluation = makeEvaluation({ lockedAt: new Date("2026-03-02T00:00:00Z") })
+    const certificate = buildEvaluationCertificate(
+      evaluation,
+      [makeSignature(evaluation, "EVALUATOR"), makeSignature(evaluation, "STUDENT")],
+      parties,
+      { secret, now: new Date("2026-03-03T00:00:00Z") }
+    )
+
+    expect(certificate).not.toBeNull()
+    if (!certificate) return
+    expect(certificate.payload.signatures.map((s) => s.role)).toEqual(["EVALUATOR", "STUDENT"])
+    expect(certificate.payload.signatures[0].ipAddress).toBe("203.0.113.5")
+    expect(verifyEvaluationCertificate(certificate, { secret })).toBe(true)
+
+    const tampered = {
+      ...certificate,
+      payload: { ...certificate.payload, student: { id: "student-1", name: "Someone Else" } },
+    }
+    expect(verifyEvaluationCertificate(tampered, { secret })).toBe(false)
+    expect(verifyEvaluationCertificate(certificate, { secret: "other-secret" })).toBe(false)
+  })
+})
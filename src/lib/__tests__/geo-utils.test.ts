@@ -0,0 +1,115 @@
+import { describe, expect, it } from "vitest"
+import {
+  distanceToBoundary,
+  isPointInBoundary,
+  isWithinBoundary,
+  MAX_ACCURACY_BUFFER_METERS,
+  parseGeofenceBoundary,
+} from "../geo-utils"
+
+// ~111m square around (40, -74) with a ~22m square hole in the middle
+const square = {
+  type: "Polygon" as const,
+  coordinates: [
+    [
+      [-74.0013, 39.9995],
+      [-74.0, 39.9995],
+      [-74.0, 40.0005],
+      [-74.0013, 40.0005],
+      [-74.0013, 39.9995],
+    ] as [number, number][],
+    [
+      [-74.0008, 39.9999],
+      [-74.0005, 39.9999],
+      [-74.0005, 40.0001],
+      [-74.0008, 40.0001],
+      [-74.0008, 39.9999],
+    ] as [number, number][],
+  ],
+}
+
+describe("polygon geofences", () => {
+  it("normalizes features and closes open rings", () => {
+    const boundary = parseGeofenceBoundary({
+      type: "FeatureCollection",
+      features: [
+        {
+          type: "Feature",
+          properties: {},
+          geometry: {
+            type: "Polygon",
+            coordinates: [
+              [
+                [0, 0],
+                [1, 0],
+                [1, 1],
+              ],
+            ],
+          },
+        },
+        { type: "Feature", properties: {}, geometry: square },
+      ],
+    })
+
+    expect(boundary.type).toBe("MultiPolygon")
+    expect(boundary.coordinates[0]).toEqual([
+      [
+        [0, 0],
+        [1, 0],
+        [1, 1],
+        [0, 0],
+      ],
+    ])
+  })
+
+  it("rejects non-polygon and malformed input", () => {
+    expect(() => parseGeofenceBoundary({ type: "Point", coordinates: [0, 0] })).toThrow()
+    expect(() =>
+      parseGeofenceBoundary({
+        type: "Polygon",
+        coordinates: [
+          [
+            [0, 0],
+            [1, 1],
+          ],
+        ],
+      })
+    ).toThrow("at least three")
+    expect(() =>
+      parseGeofenceBoundary({
+        type: "Polygon",
+        coordinates: [
+          [
+            [0, 0],
+            [200, 0],
+            [1, 1],
+          ],
+        ],
+      })
+    ).toThrow("outside valid")
+  })
+
+  it("excludes holes from point-in-polygon checks", () => {
+    expect(isPointInBoundary(39.9997, -74.0002, square)).toBe(true)
+    expect(isPointInBoundary(40.0, -74.00065, square)).toBe(false)
+    expect(isPointInBoundary(40.001, -74.0002, square)).toBe(false)
+  })
+
+  it("measures distance to the nearest edge in meters", () => {
+    expect(distanceToBoundary(39.9997, -74.0002, square)).toBe(0)
+    // 0.0005 degrees of latitude north of the top edge
+    expect(distanceToBoundary(40.001, -74.0005, square)).toBeCloseTo(55.6, 0)
+  })
+
+  it("widens the boundary by GPS accuracy up to the cap", () => {
+    // ~22m outside the east edge
+    const lat = 40.0
+    const lon = -73.99974
+    expect(isWithinBoundary(lat, lon, square)).toBe(false)
+    expect(isWithinBoundary(lat, lon, square, 30)).toBe(true)
+    expect(isWithinBoundary(40.0015, -74.0005, square, 500)).toBe(false)
+    expect(distanceToBoundary(40.0015, -74.0005, square)).toBeGreaterThan(
+      MAX_ACCURACY_BUFFER_METERS
+    )
+  })
+})
@@ -0,0 +1,82 @@
+import { describe, expect, it } from "vitest"
+import { buildCalendar, escapeText, foldLine } from "../ical"
+
+describe("escapeText", () => {
+  it("escapes backslashes, separators and newlines", () => {
+    expect(escapeText("a\\b; c, d\nnext")).toBe("a\\\\b\\; c\\, d\\nnext")
+  })
+})
+
+describe("foldLine", () => {
+  it("leaves short lines alone", () => {
+    expect(foldLine("SUMMARY:Short")).toBe("SUMMARY:Short")
+  })
+
+  it("folds at 75 octets without splitting multi-byte characters", () => {
+    const line = `DESCRIPTION:${"é".repeat(100)}`
+    const folded = foldLine(line)
+    const parts = folded.split("\r\n")
+
+    expect(parts.length).toBeGreaterThan(1)
+    for (const part of parts) {
+      expect(new TextEncoder().encode(part).length).toBeLessThanOrEqual(75)
+    }
+    expect(parts.slice(1).every((part) => part.startsWith(" "))).toBe(true)
+    expect(parts.map((part, i) => (i === 0 ? part : part.slice(1))).join("")).toBe(line)
+  })
+})
+
+describe("buildCalendar", () => {
+  const now = new Date("2026-03-01T12:00:00Z")
+
+  it("writes timed and all-day events with CRLF line endings", () => {
+    const calendar = buildCalendar({
+      name: "MedStint: Jordan",
+      now,
+      events: [
+        {
+          uid: "meeting-1@medstint.app",
+          summary: "Mid-rotation check-in",
+          start: new Date("2026-03-02T15:00:00Z"),
+          end: new Date("2026-03-02T15:30:00Z"),
+          url: "https://meet.example.com/abc",
+        },
+        {
+          uid: "rotation-1@medstint.app",
+          summary: "Cardiology rotation at General, Main",
+          start: new Date("2026-03-09T00:00:00Z"),
+          end: new Date("2026-04-03T00:00:00Z"),
+          allDay: true,
+          status: "TENTATIVE",
+          lastModified: new Date("2026-02-20T08:00:00Z"),
+        },
+      ],
+    })
+
+    expect(calendar.startsWith("BEGIN:VCALENDAR\r\nVERSION:2.0\r\n")).toBe(true)
+    expect(calendar.endsWith("END:VCALENDAR\r\n")).toBe(true)
+    expect(calendar).not.toMatch(/[^\r]\n/)
+    expect(calendar).toContain("DTSTART:20260302T150000Z\r\nDTEND:20260302T153000Z")
+    expect(calendar).toContain("DTSTAMP:20260301T120000Z")
+    // All-day DTEND is the day after the last day
+    expect(calendar).toContain("DTSTART;VALUE=DATE:20260309\r\nDTEND;VALUE=DATE:20260404")
+    expect(calendar).toContain("SUMMARY:Cardiology rotation at General\\, Main")
+    expect(calendar).toContain("STATUS:TENTATIVE")
+    expect(calendar).toContain("DTSTAMP:20260220T080000Z")
+  })
+
+  it("produces identical output for unchanged events so clients see no update", () => {
+    const event = {
+      uid: "rotation-2@medstint.app",
+      summary: "Rotation",
+      start: new Date("2026-05-01T00:00:00Z"),
+      allDay: true,
+      lastModified: new Date("2026-04-01T00:00:00Z"),
+    }
+
+    const first = buildCalendar({ name: "Feed", events: [event], now })
+    const later = buildCalendar({ name: "Feed", events: [event], now: new Date() })
+
+    expect(later).toBe(first)
+  })
+})
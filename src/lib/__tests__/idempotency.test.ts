@@ -0,0 +1,120 @@
+import { beforeEach, describe, expect, it, vi } from "vitest"
+
+const { store } = vi.hoisted(() => ({
+  store: new Map<string, Record<string, unknown>>(),
+}))
+
+// Minimal in-memory stand-in for the idempotency_keys table; each test uses a single key
+vi.mock("@/database/connection-pool", () => {
+  let pendingKey: string | null = null
+  return {
+    db: {
+      insert: () => ({
+        values: (values: Record<string, unknown>) => ({
+          onConflictDoNothing: () => ({
+            returning: async () => {
+              const key = `${values.userId}:${values.key}`
+              if (store.has(key)) return []
+              const row = { ...values, id: key, status: "IN_PROGRESS", responseStatus: null }
+              store.set(key, row)
+              pendingKey = key
+              return [{ id: key }]
+            },
+          }),
+        }),
+      }),
+      select: () => ({
+        from: () => ({
+          where: () => ({ limit: async () => [...store.values()] }),
+        }),
+      }),
+      update: () => ({
+        set: (changes: Record<string, unknown>) => ({
+          where: async () => {
+            if (pendingKey) store.set(pendingKey, { ...store.get(pendingKey), ...changes })
+          },
+        }),
+      }),
+      delete: () => ({
+        where: async () => {
+          if (pendingKey) store.delete(pendingKey)
+        },
+      }),
+    },
+  }
+})
+vi.mock("@/lib/logger", () => ({ logger: { info: vi.fn(), error: vi.fn() } }))
+
+import { NextResponse } from "next/server"
+import {
+  hashIdempotentRequest,
+  IDEMPOTENCY_HEADER,
+  IDEMPOTENCY_REPLAYED_HEADER,
+  withIdempotency,
+} from "../idempotency"
+
+const request = (key?: string) =>
+  new Request("http://localhost/api/student/clock-in", {
+    method: "POST",
+    headers: key ? { [IDEMPOTENCY_HEADER]: key } : {},
+  })
+
+const options = { userId: "student-1", operation: "clock-in", fingerprint: { rotationId: "r1" } }
+
+describe("withIdempotency", () => {
+  beforeEach(() => store.clear())
+
+  it("hashes fingerprints independently of property order", () => {
+    expect(hashIdempotentRequest({ a: 1, b: { c: 2, d: 3 } })).toBe(
+      hashIdempotentRequest({ b: { d: 3, c: 2 }, a: 1 })
+    )
+    expect(hashIdempotentRequest({ a: 1 })).not.toBe(hashIdempotentRequest({ a: 2 }))
+  })
+
+  it("runs the handler once and replays the stored response", async () => {
+    const handler = vi.fn(async () => NextResponse.json({ success: true, data: { id: "t1" } }))
+    const key = "3f0c8a52-6f7e-4c1b-9a5d-2b7d0c1e4f90"
+
+    const first = await withIdempotency(request(key), options, handler)
+    const replay = await withIdempotency(request(key), options, handler)
+
+    expect(handler).toHaveBeenCalledTimes(1)
+    expect(first.headers.get(IDEMPOTENCY_REPLAYED_HEADER)).toBeNull()
+    expect(replay.headers.get(IDEMPOTENCY_REPLAYED_HEADER)).toBe("true")
+    expect(await replay.json()).toEqual({ success: true, data: { id: "t1" } })
+  })
+
+  it("rejects a key reused for a different request", async () => {
+    const key = "key-for-rotation-r1"
+    await withIdempotency(request(key), options, async () => NextResponse.json({ ok: true }))
+
+    const response = await withIdempotency(
+      request(key),
+      { ...options, fingerprint: { rotationId: "r2" } },
+      async () => NextResponse.json({ ok: true })
+    )
+    expect(response.status).toBe(422)
+  })
+
+  it("releases the key when the handler throws so a retry can run", async () => {
+    const key = "key-that-fails-first"
+    await expect(
+      withIdempotency(request(key), options, async () => {
+        throw new Error("database unavailable")
+      })
+    ).rejects.toThrow("database unavailable")
+
+    const handler = vi.fn(async () => NextResponse.json({ ok: true }))
+    const retry = await withIdempotency(request(key), options, handler)
+    expect(handler).toHaveBeenCalledTimes(1)
+    expect(retry.status).toBe(200)
+  })
+
+  it("passes requests without a key straight through", async () => {
+    const handler = vi.fn(async () => NextResponse.json({ ok: true }))
+    await withIdempotency(request(), options, handler)
+    await withIdempotency(request(), options, handler)
+    expect(handler).toHaveBeenCalledTimes(2)
+    expect(store.size).toBe(0)
+  })
+})
@@ -0,0 +1,84 @@
+import { describe, expect, it, vi } from "vitest"
+
+vi.mock("@/database/connection-pool", () => ({ db: {} }))
+vi.mock("@/lib/logger", () => ({ logger: { info: vi.fn(), error: vi.fn() } }))
+vi.mock("@/lib/notification-service", () => ({ sendNotification: vi.fn() }))
+vi.mock("@/lib/payments/stripe", () => ({ stripe: {} }))
+vi.mock("@/lib/seat-lifecycle", () => ({ checkSeatThresholds: vi.fn() }))
+vi.mock("../queue", () => ({ QueueManager: { add: vi.fn() }, STUCK_JOB_TIMEOUT_MS: 60_000 }))
+
+import { CLERK_EVENT_HANDLERS } from "../clerk-events"
+import { isReplayable, resolveInboundWebhookHandler } from "../inbound-webhooks"
+import { STRIPE_EVENT_HANDLERS, userSubscriptionStatusFor } from "../payments/stripe-events"
+
+describe("userSubscriptionStatusFor", () => {
+  it("maps Stripe statuses onto the user's subscription status", () => {
+    expect(userSubscriptionStatusFor("trialing")).toBe("TRIAL")
+    expect(userSubscriptionStatusFor("active")).toBe("ACTIVE")
+    expect(userSubscriptionStatusFor("past_due")).toBe("PAST_DUE")
+    expect(userSubscriptionStatusFor("canceled")).toBe("CANCELLED")
+  })
+
+  it("suspends disputed and ends refunded subscriptions", () => {
+    expect(userSubscriptionStatusFor("disputed")).toBe("PAST_DUE")
+    expect(userSubscriptionStatusFor("refunded")).toBe("CANCELLED")
+  })
+
+  it("leaves unknown statuses alone", () => {
+    expect(userSubscriptionStatusFor("something_new")).toBeNull()
+  })
+})
+
+describe("resolveInboundWebhookHandler", () => {
+  it("passes Stripe handlers the event's data object", async () => {
+    const handler = vi.fn().mockResolvedValue(undefined)
+    const original = STRIPE_EVENT_HANDLERS["charge.refunded"]
+    STRIPE_EVENT_HANDLERS["charge.refunded"] = handler
+    try {
+      const resolved = resolveInboundWebhookHandler("STRIPE", "charge.refunded")
+      await resolved?.({ id: "evt_1", data: { object: { id: "ch_1" } } })
+      expect(handler).toHaveBeenCalledWith({ id: "ch_1" })
+    } finally {
+      STRIPE_EVENT_HANDLERS["charge.refunded"] = original
+    }
+  })
+
+  it("passes Clerk handlers the event's data", async () => {
+    const handler = vi.fn().mockResolvedValue(undefined)
+    const original = CLERK_EVENT_HANDLERS["user.deleted"]
+    CLERK_EVENT_HANDLERS["user.deleted"] = handler
+    try {
+      const resolved = resolveInboundWebhookHandler("CLERK", "user.deleted")
+      await resolved?.({ type: "user.deleted", data: { id: "user_1" } })
+      expect(handler).toHaveBeenCalledWith({ id: "user_1" })
+    } finally {
+      CLERK_EVENT_HANDLERS["user.deleted"] = original
+    }
+  })
+
+  it("handles the trial, refund and dispute events", () => {
+    for (const type of [
+      "customer.subscription.trial_will_end",
+      "charge.refunded",
+      "charge.dispute.created",
+      "charge.dispute.closed",
+    ]) {
+      expect(resolveInboundWebhookHandler("STRIPE", type)).not.toBeNull()
+    }
+  })
+
+  it("returns null for event types without a handler", () => {
+    expect(resolveInboundWebhookHandler("STRIPE", "payout.paid")).toBeNull()
+    expect(resolveInboundWebhookHandler("CLERK", "session.created")).toBeNull()
+  })
+})
+
+describe("isReplayable", () => {
+  it("allows replaying failed and ignored events only", () => {
+    expect(isReplayable({ status: "FAILED" })).toBe(true)
+    expect(isReplayable({ status: "IGNORED" })).toBe(true)
+    expect(isReplayable({ status: "PROCESSED" })).toBe(false)
+    expect(isReplayable({ status: "PENDING" })).toBe(false)
+    expect(isReplayable({ status: "PROCESSING" })).toBe(false)
+  })
+})
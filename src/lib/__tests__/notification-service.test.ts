@@ -0,0 +1,106 @@
+import { beforeEach, describe, expect, it, vi } from "vitest"
+
+const { selectResults, inserted, sendNotificationEmail } = vi.hoisted(() => ({
+  selectResults: [] as unknown[][],
+  inserted: [] as Record<string, unknown>[],
+  sendNotificationEmail: vi.fn(async () => true),
+}))
+
+vi.mock("@/database/connection-pool", () => ({
+  db: {
+    select: () => ({
+      from: () => ({
+        where: () => {
+          const rows = Promise.resolve(selectResults.shift() ?? [])
+          return Object.assign(rows, { limit: () => rows })
+        },
+      }),
+    }),
+    insert: () => ({
+      values: async (values: Record<string, unknown>) => {
+        inserted.push(values)
+      },
+    }),
+  },
+}))
+vi.mock("@/lib/logger", () => ({ logger: { info: vi.fn(), warn: vi.fn(), error: vi.fn() } }))
+vi.mock("../email-service", () => ({ sendNotificationEmail }))
+
+import {
+  DEFAULT_CHANNELS,
+  decodeNotificationCursor,
+  encodeNotificationCursor,
+  resolveChannels,
+  sendNotification,
+} from "../notification-service"
+
+describe("notification service", () => {
+  beforeEach(() => {
+    selectResults.length = 0
+    inserted.length = 0
+    sendNotificationEmail.mockClear()
+  })
+
+  it("falls back to default channels for types without a preference", () => {
+    const preferences = [
+      { notificationType: "reminder" as const, inApp: false, email: false, digest: true },
+    ]
+    expect(resolveChannels("reminder", preferences)).toEqual({
+      inApp: false,
+      email: false,
+      digest: true,
+    })
+    expect(resolveChannels("warning", preferences)).toEqual(DEFAULT_CHANNELS)
+  })
+
+  it("round-trips pagination cursors and rejects malformed ones", () => {
+    // Keeps the microseconds Postgres stores, which a JS Date would drop
+    const row = { createdAt: "2026-03-01 10:00:00.123456+00", id: "n|1" }
+    expect(decodeNotificationCursor(encodeNotificationCursor(row))).toEqual(row)
+    expect(decodeNotificationCursor("not-a-cursor")).toBeNull()
+    expect(decodeNotificationCursor(Buffer.from("yesterday|n1").toString("base64url"))).toBeNull()
+    expect(
+      decodeNotificationCursor(Buffer.from("2026-03-01'; --|n1").toString("base64url"))
+    ).toBeNull()
+  })
+
+  it("honours the user's channel preferences when sending", async () => {
+    selectResults.push(
+      [{ id: "u1", email: "student@example.com" }],
+      [{ notificationType: "warning", inApp: false, email: false, digest: true }]
+    )
+
+    const result = await sendNotification({
+      userId: "u1",
+      title: "Compliance Update",
+      message: "Expired",
+      type: "warning",
+    })
+
+    expect(result.emailed).toBe(false)
+    expect(sendNotificationEmail).not.toHaveBeenCalled()
+    expect(inserted).toHaveLength(1)
+    expect(inserted[0]).toMatchObject({ userId: "u1", digestPending: true })
+    expect(inserted[0].dismissedAt).toBeInstanceOf(Date)
+  })
+
+  it("stores and emails by default", async () => {
+    selectResults.push([{ id: "u1", email: "student@example.com" }], [])
+
+    await sendNotification({
+      userId: "u1",
+      title: "Approved",
+      message: "Your submission was approved",
+      type: "success",
+      actionUrl: "https://app.example.com/dashboard",
+    })
+
+    expect(inserted[0]).toMatchObject({ dismissedAt: null, digestPending: false })
+    expect(sendNotificationEmail).toHaveBeenCalledWith(
+      expect.objectContaining({
+        to: "student@example.com",
+        actionUrl: "https://app.example.com/dashboard",
+      })
+    )
+  })
+})
@@ -0,0 +1,45 @@
+import { describe, expect, it, vi } from "vitest"
+
+vi.mock("@/database/connection-pool", () => ({ db: {} }))
+vi.mock("@/lib/logger", () => ({ logger: { info: vi.fn(), warn: vi.fn(), error: vi.fn() } }))
+
+import { resolveCapturedTime } from "../clock-service"
+
+const HOUR = 60 * 60 * 1000
+
+describe("resolveCapturedTime", () => {
+  const serverTime = new Date("2026-04-01T12:00:00Z")
+
+  it("keeps the device capture time for punches synced later", () => {
+    const { capturedTime, warnings } = resolveCapturedTime(
+      "2026-04-01T07:30:00Z",
+      "2026-04-01T12:00:00.500Z",
+      serverTime,
+      24 * HOUR
+    )
+    expect(capturedTime.toISOString()).toBe("2026-04-01T07:30:00.000Z")
+    expect(warnings).toEqual([])
+  })
+
+  it("shifts the capture time by the device clock drift", () => {
+    // Device clock runs ten minutes fast
+    const { capturedTime, warnings } = resolveCapturedTime(
+      "2026-04-01T07:40:00Z",
+      "2026-04-01T12:10:00Z",
+      serverTime,
+      24 * HOUR
+    )
+    expect(capturedTime.toISOString()).toBe("2026-04-01T07:30:00.000Z")
+    expect(warnings).toHaveLength(1)
+  })
+
+  it("rejects capture times that are too old, in the future or malformed", () => {
+    expect(() =>
+      resolveCapturedTime("2026-03-30T12:00:00Z", undefined, serverTime, 24 * HOUR)
+    ).toThrow(/older than the offline limit/)
+    expect(() =>
+      resolveCapturedTime("2026-04-01T12:30:00Z", undefined, serverTime, 24 * HOUR)
+    ).toThrow(/in the future/)
+    expect(() => resolveCapturedTime("yesterday", undefined, serverTime)).toThrow(/Invalid/)
+  })
+})
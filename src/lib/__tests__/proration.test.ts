@@ -0,0 +1,112 @@
+import { describe, expect, it, vi } from "vitest"
+
+vi.mock("@/lib/payments/stripe", () => ({ stripe: {} }))
+
+import {
+  acceptedProrationDate,
+  addInterval,
+  calculateNewSubscription,
+  calculateProration,
+  PREVIEW_VALIDITY_SECONDS,
+} from "../payments/proration"
+
+const periodStart = new Date("2026-01-01T00:00:00Z")
+const periodEnd = new Date("2027-01-01T00:00:00Z")
+// Exactly halfway through a 365 day year
+const midYear = new Date("2026-07-02T12:00:00Z")
+
+describe("calculateProration", () => {
+  it("prorates a mid-year seat purchase onto the next invoice", () => {
+    const preview = calculateProration(
+      { unitAmount: 10000, quantity: 20, interval: "year", periodStart, periodEnd },
+      { unitAmount: 10000, quantity: 30, interval: "year" },
+      midYear
+    )
+
+    expect(preview.billingCycleReset).toBe(false)
+    expect(preview.dueNow).toBe(0)
+    // 10 extra seats for half a year
+    expect(preview.prorationAdjustment).toBe(50000)
+    expect(preview.lines.filter((line) => line.proration).map((line) => line.amount)).toEqual([
+      -100000, 150000,
+    ])
+    expect(preview.nextInvoiceDate).toEqual(periodEnd)
+    expect(preview.nextInvoiceTotal).toBe(350000)
+    expect(preview.recurringAmount).toBe(300000)
+  })
+
+  it("credits unused time when downgrading within the interval", () => {
+    const preview = calculateProration(
+      { unitAmount: 2000, quantity: 1, interval: "year", periodStart, periodEnd },
+      { unitAmount: 1000, quantity: 1, interval: "year" },
+      midYear
+    )
+
+    expect(preview.prorationAdjustment).toBe(-500)
+    expect(preview.nextInvoiceTotal).toBe(500)
+  })
+
+  it("charges the new interval straight away less unused time", () => {
+    const monthStart = new Date("2026-04-01T00:00:00Z")
+    const monthEnd = new Date("2026-05-01T00:00:00Z")
+    const at = new Date("2026-04-16T00:00:00Z")
+    const preview = calculateProration(
+      {
+        unitAmount: 1000,
+        quantity: 5,
+        interval: "month",
+        periodStart: monthStart,
+        periodEnd: monthEnd,
+      },
+      { unitAmount: 10000, quantity: 5, interval: "year" },
+      at
+    )
+
+    expect(preview.billingCycleReset).toBe(true)
+    expect(preview.prorationAdjustment).toBe(-2500)
+    expect(preview.dueNow).toBe(47500)
+    expect(preview.nextInvoiceDate).toEqual(at)
+    expect(preview.lines.at(-1)?.periodEnd).toEqual(new Date("2027-04-16T00:00:00Z"))
+  })
+
+  it("has nothing to prorate at the end of the period", () => {
+    const preview = calculateProration(
+      { unitAmount: 1000, quantity: 1, interval: "month", periodStart, periodEnd },
+      { unitAmount: 2000, quantity: 1, interval: "month" },
+      periodEnd
+    )
+
+    expect(preview.lines.some((line) => line.proration)).toBe(false)
+    expect(preview.nextInvoiceTotal).toBe(2000)
+  })
+})
+
+describe("calculateNewSubscription", () => {
+  it("charges the first period in full", () => {
+    const at = new Date("2026-03-15T10:00:00Z")
+    const preview = calculateNewSubscription(
+      { unitAmount: 1000, quantity: 12, interval: "month" },
+      at
+    )
+
+    expect(preview.dueNow).toBe(12000)
+    expect(preview.billingCycleReset).toBe(true)
+    expect(preview.lines).toHaveLength(1)
+    expect(preview.lines[0].periodEnd).toEqual(addInterval(at, "month"))
+  })
+})
+
+describe("acceptedProrationDate", () => {
+  const now = new Date("2026-03-15T10:00:00Z")
+  const nowSeconds = now.getTime() / 1000
+
+  it("honours a recent preview", () => {
+    expect(acceptedProrationDate(nowSeconds - 60, now)).toBe(nowSeconds - 60)
+  })
+
+  it("ignores stale or future dates", () => {
+    expect(acceptedProrationDate(nowSeconds - PREVIEW_VALIDITY_SECONDS - 1, now)).toBeUndefined()
+    expect(acceptedProrationDate(nowSeconds + 60, now)).toBeUndefined()
+    expect(acceptedProrationDate(undefined, now)).toBeUndefined()
+  })
+})
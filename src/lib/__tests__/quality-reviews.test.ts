@@ -0,0 +1,162 @@
+import { describe, expect, it, vi } from "vitest"
+
+vi.mock("@/database/connection-pool", () => ({ db: {} }))
+vi.mock("@/lib/logger", () => ({ logger: { info: vi.fn(), error: vi.fn(), warn: vi.fn() } }))
+vi.mock("@/lib/notification-service", () => ({ sendNotification: vi.fn() }))
+
+import {
+  flagLowRatedSites,
+  getFollowUpReminderDays,
+  getSiteRatingThreshold,
+  isFollowUpReminderDue,
+  isSiteReviewDue,
+  parseFindings,
+  planProgress,
+  qualityReviewCreateSchema,
+  qualityReviewUpdateSchema,
+  type SiteRatingSummary,
+} from "../quality-reviews"
+
+const now = new Date("2026-03-10T12:00:00Z")
+const daysFromNow = (days: number) => new Date(now.getTime() + days * 24 * 60 * 60 * 1000)
+
+describe("quality review input", () => {
+  it("requires a follow-up date when a follow-up is required", () => {
+    const base = { title: "Preceptor feedback audit", type: "Supervision Quality" }
+
+    expect(qualityReviewCreateSchema.safeParse({ ...base, followUpRequired: true }).success).toBe(
+      false
+    )
+    const parsed = qualityReviewCreateSchema.parse({
+      ...base,
+      followUpRequired: true,
+      followUpDate: "2026-04-01",
+    })
+    expect(parsed.followUpDate).toEqual(new Date("2026-04-01"))
+    expect(parsed).toMatchObject({ status: "pending", priority: "medium", findings: [] })
+  })
+
+  it("leaves fields out of an update instead of resetting them", () => {
+    expect(qualityReviewUpdateSchema.parse({ status: "completed" })).toEqual({
+      status: "completed",
+    })
+  })
+
+  it("keeps well-formed findings and gives them ids", () => {
+    const findings = parseFindings([
+      { category: "Documentation", severity: "high", description: "Missing signatures" },
+      { id: "finding-2", category: "Supervision", severity: "low", description: "Late feedback" },
+      { category: "Unknown", severity: "urgent", description: "Bad severity" },
+      "not a finding",
+    ])
+
+    expect(findings).toHaveLength(2)
+    expect(findings[0]).toMatchObject({ category: "Documentation", resolved: false })
+    expect(findings[0].id).toEqual(expect.any(String))
+    expect(findings[1].id).toBe("finding-2")
+    expect(parseFindings(null)).toEqual([])
+  })
+})
+
+describe("planProgress", () => {
+  it("counts completed milestones", () => {
+    const milestones = [{ completedAt: now }, { completedAt: null }, { completedAt: null }]
+
+    expect(planProgress({ status: "in_progress" }, milestones)).toBe(33)
+    expect(planProgress({ status: "not_started" }, [])).toBe(0)
+    expect(planProgress({ status: "completed" }, milestones)).toBe(100)
+  })
+})
+
+describe("follow-up reminders", () => {
+  const review = {
+    status: "in_progress" as const,
+    followUpRequired: true,
+    followUpDate: daysFromNow(2),
+    followUpReminderSentAt: null,
+  }
+
+  it("reminds once within the lead time, including overdue follow-ups", () => {
+    expect(isFollowUpReminderDue(review, now, 3)).toBe(true)
+    expect(isFollowUpReminderDue({ ...review, followUpDate: daysFromNow(-1) }, now, 3)).toBe(true)
+    expect(isFollowUpReminderDue({ ...review, followUpDate: daysFromNow(5) }, now, 3)).toBe(false)
+    expect(isFollowUpReminderDue({ ...review, followUpReminderSentAt: now }, now, 3)).toBe(false)
+  })
+
+  it("skips completed reviews and reviews without a follow-up", () => {
+    expect(isFollowUpReminderDue({ ...review, status: "completed" }, now, 3)).toBe(false)
+    expect(isFollowUpReminderDue({ ...review, followUpRequired: false }, now, 3)).toBe(false)
+    expect(isFollowUpReminderDue({ ...review, followUpDate: null }, now, 3)).toBe(false)
+  })
+
+  it("reads the lead time from the environment", () => {
+    expect(getFollowUpReminderDays(undefined)).toBe(3)
+    expect(getFollowUpReminderDays("7")).toBe(7)
+    expect(getFollowUpReminderDays("0")).toBe(0)
+    expect(getFollowUpReminderDays("soon")).toBe(3)
+    expect(getFollowUpReminderDays("-2")).toBe(3)
+  })
+})
+
+describe("site rating triggers", () => {
+  const site: SiteRatingSummary = {
+    schoolId: "school-1",
+    clinicalSiteId: "site-1",
+    siteName: "Mercy General",
+    evaluations: 6,
+    rating: 2.5,
+    learningOpportunities: 2.2,
+    preceptorSupport: 3.8,
+    facilityQuality: null,
+    latestEvaluationAt: daysFromNow(-2),
+  }
+
+  it("flags sites rated below the threshold with a finding per weak area", () => {
+    const [flagged] = flagLowRatedSites([site], 3)
+
+    expect(flagged).toMatchObject({ priority: "medium", overallScore: 50 })
+    expect(flagged.findings.map((finding) => finding.category)).toEqual([
+      "Student site ratings",
+      "Learning opportunities",
+    ])
+    expect(flagged.reason).toContain("2.50/5 from 6 evaluations")
+  })
+
+  it("raises the priority for sites well below the threshold", () => {
+    const [flagged] = flagLowRatedSites([{ ...site, rating: 1.5 }], 3)
+
+    expect(flagged.priority).toBe("high")
+    expect(flagged.findings[0].severity).toBe("high")
+  })
+
+  it("ignores sites above the threshold or with too few evaluations", () => {
+    expect(flagLowRatedSites([{ ...site, rating: 3.2 }], 3)).toEqual([])
+    expect(flagLowRatedSites([{ ...site, evaluations: 2 }], 3)).toEqual([])
+  })
+
+  it("opens one review at a time and waits for new ratings after it is completed", () => {
+    const review = {
+      schoolId: "school-1",
+      clinicalSiteId: "site-1",
+      status: "completed" as const,
+      completedAt: daysFromNow(-5),
+    }
+
+    expect(isSiteReviewDue(site, [])).toBe(true)
+    expect(isSiteReviewDue(site, [review])).toBe(true)
+    expect(isSiteReviewDue(site, [{ ...review, completedAt: daysFromNow(-1) }])).toBe(false)
+    expect(isSiteReviewDue(site, [{ ...review, status: "in_progress", completedAt: null }])).toBe(
+      false
+    )
+    expect(
+      isSiteReviewDue(site, [{ ...review, clinicalSiteId: "site-2", status: "pending" }])
+    ).toBe(true)
+  })
+
+  it("reads the threshold from the environment", () => {
+    expect(getSiteRatingThreshold(undefined)).toBe(3)
+    expect(getSiteRatingThreshold("3.5")).toBe(3.5)
+    expect(getSiteRatingThreshold("8")).toBe(3)
+    expect(getSiteRatingThreshold("low")).toBe(3)
+  })
+})
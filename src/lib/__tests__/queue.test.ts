@@ -0,0 +1,27 @@
+import { describe, expect, it, vi } from "vitest"
+
+vi.mock("@/database/connection-pool", () => ({ db: {} }))
+
+import { computeBackoffDelay, getRetryPolicy, RETRY_POLICIES } from "../queue"
+
+describe("queue retry policy", () => {
+  const policy = { maxAttempts: 5, baseDelayMs: 1000, maxDelayMs: 10_000, jitter: 0.5 }
+
+  it("doubles the delay per attempt up to the cap", () => {
+    const noJitter = { ...policy, jitter: 0 }
+    expect(computeBackoffDelay(1, noJitter)).toBe(1000)
+    expect(computeBackoffDelay(2, noJitter)).toBe(2000)
+    expect(computeBackoffDelay(3, noJitter)).toBe(4000)
+    expect(computeBackoffDelay(10, noJitter)).toBe(10_000)
+  })
+
+  it("randomises only the jittered share of the delay", () => {
+    expect(computeBackoffDelay(3, policy, () => 0)).toBe(2000)
+    expect(computeBackoffDelay(3, policy, () => 1)).toBe(4000)
+  })
+
+  it("falls back to a default policy for unknown job types", () => {
+    expect(getRetryPolicy("EMAIL")).toBe(RETRY_POLICIES.EMAIL)
+    expect(getRetryPolicy("UNKNOWN").maxAttempts).toBe(3)
+  })
+})
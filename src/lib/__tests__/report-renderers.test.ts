@@ -0,0 +1,161 @@
+import { inflateRawSync } from "zlib"
+import { describe, expect, it } from "vitest"
+import type { ComprehensiveReportData } from "../reports/report-data"
+import { buildReportDocument, resolveReportType } from "../reports/report-document"
+import { renderReport, renderReportCsv } from "../reports/render"
+import { renderReportPdf } from "../reports/pdf-renderer"
+import { renderReportXlsx, toSheetName } from "../reports/xlsx-renderer"
+import { crc32 } from "../reports/zip"
+
+function makeData(studentCount = 3): ComprehensiveReportData {
+  const students = Array.from({ length: studentCount }, (_, i) => ({
+    studentId: `s${i}`,
+    name: `Student ${i}, "Test"`,
+    approvedHours: 10 + i,
+    pendingHours: 2,
+    totalHours: 12 + i,
+    recordCount: 3,
+  }))
+  return {
+    summary: {
+      totalStudents: studentCount,
+      totalCompetencies: 4,
+      totalAssignments: 10,
+      completionRate: 40,
+      averageScore: "3.50",
+      totalHours: "120.00",
+    },
+    timeTracking: {
+      dailyHours: [
+        { date: "2026-01-05", hours: 16, students: 2 },
+        { date: "2026-01-06", hours: 8, students: 1 },
+      ],
+      hoursByStudent: students,
+      weeklyTrends: [],
+      topActivities: [],
+    },
+    competencyProgress: {
+      byCategory: [{ category: "Patient Care", total: 10, completed: 4, rate: 40 }],
+      byStudent: [],
+      overallTrends: [],
+    },
+    studentPerformance: {
+      topPerformers: [
+        {
+          studentId: "s0",
+          name: "Student 0",
+          completedCompetencies: 2,
+          averageScore: 4.2,
+          totalHours: 12,
+        },
+      ],
+      needsAttention: [],
+      averagesByProgram: [],
+    },
+    assessmentAnalytics: { completionRates: [], scoreDistribution: [], timeToCompletion: [] },
+    clinicalSites: { utilizationRates: [], performanceByLocation: [], capacityAnalysis: [] },
+    recommendations: [],
+  }
+}
+
+// Read file entries from a ZIP archive via its central directory
+function readZip(buffer: Buffer): Record<string, string> {
+  const endOffset = buffer.lastIndexOf(Buffer.from([0x50, 0x4b, 0x05, 0x06]))
+  const entryCount = buffer.readUInt16LE(endOffset + 10)
+  let cursor = buffer.readUInt32LE(endOffset + 16)
+  const files: Record<string, string> = {}
+  for (let i = 0; i < entryCount; i++) {
+    const compressedSize = buffer.readUInt32LE(cursor + 20)
+    const nameLength = buffer.readUInt16LE(cursor + 28)
+    const localOffset = buffer.readUInt32LE(cursor + 42)
+    const name = buffer.toString("utf8", cursor + 46, cursor + 46 + nameLength)
+    const localNameLength = buffer.readUInt16LE(localOffset + 26)
+    const dataStart = localOffset + 30 + localNameLength
+    const data = inflateRawSync(buffer.subarray(dataStart, dataStart + compressedSize))
+    expect(crc32(data)).toBe(buffer.readUInt32LE(cursor + 16))
+    files[name] = data.toString("utf8")
+    cursor += 46 + nameLength
+  }
+  return files
+}
+
+describe("report renderers", () => {
+  const period = { from: new Date("2026-01-01"), to: new Date("2026-01-31") }
+
+  it("resolves legacy report type names", () => {
+    expect(resolveReportType("competencies")).toBe("competency-progress")
+    expect(resolveReportType("students")).toBe("student-performance")
+    expect(resolveReportType(null)).toBe("summary")
+    expect(resolveReportType("bogus")).toBeNull()
+  })
+
+  it("bundles every section into the summary document", () => {
+    const doc = buildReportDocument(makeData(), "summary", { period })
+    expect(doc.sections.map((s) => s.id)).toEqual([
+      "summary",
+      "daily-hours",
+      "student-hours",
+      "competency-progress",
+      "student-performance",
+    ])
+  })
+
+  it("writes a PDF with a valid cross-reference table", () => {
+    const pdf = renderReportPdf(buildReportDocument(makeData(), "summary", { period }))
+    const text = pdf.toString("latin1")
+    expect(text.startsWith("%PDF-1.4")).toBe(true)
+    expect(text.trimEnd().endsWith("%%EOF")).toBe(true)
+
+    const startxref = Number(text.match(/startxref\n(\d+)/)?.[1])
+    expect(text.slice(startxref, startxref + 4)).toBe("xref")
+
+    // Every xref entry must point at its "n 0 obj" header
+    const entries = text.slice(startxref).match(/(\d{10}) 00000 n /g) ?? []
+    entries.forEach((entry, i) => {
+      const offset = Number(entry.slice(0, 10))
+      expect(text.slice(offset, offset + `${i + 1} 0 obj`.length)).toBe(`${i + 1} 0 obj`)
+    })
+  })
+
+  it("paginates long tables across multiple PDF pages", () => {
+    const pdf = renderReportPdf(buildReportDocument(makeData(120), "time-tracking", { period }))
+    const pageCount = Number(pdf.toString("latin1").match(/\/Count (\d+)/)?.[1])
+    expect(pageCount).toBeGreaterThan(1)
+  })
+
+  it("writes one worksheet per section with typed numeric cells", () => {
+    const doc = buildReportDocument(makeData(), "time-tracking", { period })
+    const files = readZip(renderReportXlsx(doc))
+
+    expect(Object.keys(files)).toEqual(
+      expect.arrayContaining([
+        "[Content_Types].xml",
+        "xl/workbook.xml",
+        "xl/worksheets/sheet1.xml",
+        "xl/worksheets/sheet2.xml",
+      ])
+    )
+    expect(files["xl/workbook.xml"]).toContain('name="Daily Clinical Hours"')
+    expect(files["xl/workbook.xml"]).toContain('name="Hours by Student"')
+    expect(files["xl/worksheets/sheet1.xml"]).toContain('<c r="B2" s="2"><v>16</v></c>')
+    expect(files["xl/worksheets/sheet2.xml"]).toContain("Student 0, &quot;Test&quot;")
+  })
+
+  it("keeps sheet names within Excel limits", () => {
+    const used = new Set<string>()
+    expect(toSheetName("A very long section title that exceeds the limit", used)).toHaveLength(31)
+    expect(toSheetName("Hours/Site", used)).toBe("Hours Site")
+    expect(toSheetName("hours site", used)).toBe("hours site (2)")
+  })
+
+  it("quotes CSV values containing commas and quotes", () => {
+    const csv = renderReportCsv(buildReportDocument(makeData(1), "time-tracking", { period }))
+    expect(csv.toString()).toContain('"Student 0, ""Test""",10.00,2.00,12.00,3')
+  })
+
+  it("maps formats to content types", () => {
+    const doc = buildReportDocument(makeData(), "competency-progress", { period })
+    expect(renderReport(doc, "excel").fileExtension).toBe("xlsx")
+    expect(renderReport(doc, "pdf").contentType).toBe("application/pdf")
+  })
+})
@@ -0,0 +1,24 @@
+import { describe, expect, it } from "vitest"
+import { advanceNextRun, calculateNextRun, reportPeriod } from "../reports/schedule"
+
+describe("scheduled report dates", () => {
+  const monday = new Date("2026-03-02T07:00:00Z")
+
+  it("adds one interval per frequency", () => {
+    expect(calculateNextRun("daily", monday).toISOString()).toBe("2026-03-03T07:00:00.000Z")
+    expect(calculateNextRun("weekly", monday).toISOString()).toBe("2026-03-09T07:00:00.000Z")
+    expect(calculateNextRun("monthly", monday).getUTCMonth()).toBe(3)
+    expect(calculateNextRun("quarterly", monday).getUTCMonth()).toBe(5)
+  })
+
+  it("keeps the cadence when catching up on missed runs", () => {
+    const now = new Date("2026-03-20T12:00:00Z")
+    expect(advanceNextRun("weekly", monday, now).toISOString()).toBe("2026-03-23T07:00:00.000Z")
+  })
+
+  it("covers one interval ending at the run time", () => {
+    const { from, to } = reportPeriod("weekly", monday)
+    expect(from.toISOString()).toBe("2026-02-23T07:00:00.000Z")
+    expect(to.toISOString()).toBe(monday.toISOString())
+  })
+})
@@ -0,0 +1,113 @@
+import { describe, expect, it, vi } from "vitest"
+
+vi.mock("@/database/connection-pool", () => ({ db: {} }))
+vi.mock("@/lib/logger", () => ({ logger: { info: vi.fn(), error: vi.fn(), warn: vi.fn() } }))
+
+import { canAccessSchoolData } from "../rbac-middleware"
+import {
+  allocateSiteCapacity,
+  nextAffiliationStatus,
+  resolveActiveSchool,
+} from "../school-affiliations"
+import { canAccessSchool, type SchoolContext } from "../school-utils"
+
+describe("nextAffiliationStatus", () => {
+  it("waits for the invited school to accept a new or lapsed affiliation", () => {
+    expect(nextAffiliationStatus(null, "ACTIVE", false)).toBe("PENDING")
+    expect(nextAffiliationStatus("INACTIVE", "ACTIVE", false)).toBe("PENDING")
+    expect(nextAffiliationStatus("PENDING", "ACTIVE", false)).toBe("PENDING")
+  })
+
+  it("keeps an accepted affiliation active and lets either side withdraw", () => {
+    expect(nextAffiliationStatus("ACTIVE", "ACTIVE", false)).toBe("ACTIVE")
+    expect(nextAffiliationStatus("PENDING", "INACTIVE", false)).toBe("INACTIVE")
+    expect(nextAffiliationStatus("ACTIVE", "INACTIVE", false)).toBe("INACTIVE")
+  })
+
+  it("activates directly for super admins", () => {
+    expect(nextAffiliationStatus(null, "ACTIVE", true)).toBe("ACTIVE")
+  })
+})
+
+describe("allocateSiteCapacity", () => {
+  // 10 places: school A reserves 4, school B reserves 3, 3 are shared
+  const site = {
+    capacity: 10,
+    reservations: { "school-a": 4, "school-b": 3 },
+    usage: { "school-a": 5, "school-b": 1, "school-c": 1 },
+  }
+
+  it("fills a school's reservation before the shared places", () => {
+    expect(allocateSiteCapacity(site, "school-b")).toEqual({
+      capacity: 10,
+      reserved: 3,
+      used: 1,
+      sharedCapacity: 3,
+      // One overflow place from A and one from C
+      sharedUsed: 2,
+      available: 3,
+    })
+  })
+
+  it("lets schools without a reservation use only the shared places", () => {
+    expect(allocateSiteCapacity(site, "school-a").available).toBe(1)
+    expect(allocateSiteCapacity(site, "school-c").available).toBe(1)
+    expect(allocateSiteCapacity(site, "school-d").available).toBe(1)
+  })
+
+  it("keeps reserved places for their school when the shared ones run out", () => {
+    const full = { ...site, usage: { "school-a": 6, "school-c": 1 } }
+    expect(allocateSiteCapacity(full, "school-c").available).toBe(0)
+    expect(allocateSiteCapacity(full, "school-b").available).toBe(3)
+  })
+
+  it("treats an unshared site as one pool", () => {
+    expect(
+      allocateSiteCapacity({ capacity: 5, reservations: {}, usage: { "school-a": 2 } }, "school-a")
+        .available
+    ).toBe(3)
+  })
+})
+
+describe("resolveActiveSchool", () => {
+  const schoolIds = ["home", "partner"]
+
+  it("uses the requested school when the preceptor is affiliated with it", () => {
+    expect(resolveActiveSchool("home", schoolIds, "partner")).toBe("partner")
+  })
+
+  it("falls back to the home school", () => {
+    expect(resolveActiveSchool("home", schoolIds, "other")).toBe("home")
+    expect(resolveActiveSchool("home", schoolIds, null)).toBe("home")
+    expect(resolveActiveSchool(null, ["partner"], undefined)).toBe("partner")
+    expect(resolveActiveSchool(null, [], "partner")).toBeNull()
+  })
+})
+
+describe("school access", () => {
+  it("lets preceptors reach their affiliated schools only", () => {
+    expect(canAccessSchoolData("CLINICAL_PRECEPTOR", "home", "partner", ["home", "partner"])).toBe(
+      true
+    )
+    expect(canAccessSchoolData("CLINICAL_PRECEPTOR", "home", "other", ["home", "partner"])).toBe(
+      false
+    )
+    expect(canAccessSchoolData("SCHOOL_ADMIN", "home", "partner", ["home", "partner"])).toBe(false)
+    expect(canAccessSchoolData("SUPER_ADMIN", "home", "other")).toBe(true)
+  })
+
+  it("checks the school context against affiliations", () => {
+    const context: SchoolContext = {
+      schoolId: "partner",
+      schoolName: null,
+      userRole: "CLINICAL_PRECEPTOR",
+      userId: "preceptor-1",
+      canAccessAllSchools: false,
+      homeSchoolId: "home",
+      affiliatedSchoolIds: ["home", "partner"],
+    }
+    expect(canAccessSchool("home", context)).toBe(true)
+    expect(canAccessSchool("partner", context)).toBe(true)
+    expect(canAccessSchool("other", context)).toBe(false)
+  })
+})
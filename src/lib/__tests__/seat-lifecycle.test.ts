@@ -0,0 +1,63 @@
+import { describe, expect, it, vi } from "vitest"
+
+vi.mock("@/database/connection-pool", () => ({ db: {} }))
+vi.mock("@/lib/logger", () => ({ logger: { info: vi.fn(), error: vi.fn() } }))
+vi.mock("../notification-service", () => ({ sendNotificationToUsers: vi.fn() }))
+vi.mock("../payments/stripe", () => ({ stripe: {} }))
+
+import {
+  academicStatusRevocationReason,
+  seatRevocationReason,
+  seatShortfall,
+  seatWarningLevel,
+} from "../seat-lifecycle"
+
+describe("seatWarningLevel", () => {
+  it("reports the highest threshold reached", () => {
+    expect(seatWarningLevel(7, 10)).toBe(0)
+    expect(seatWarningLevel(8, 10)).toBe(80)
+    expect(seatWarningLevel(9, 10)).toBe(80)
+    expect(seatWarningLevel(10, 10)).toBe(100)
+  })
+
+  it("never warns a school without seats", () => {
+    expect(seatWarningLevel(0, 0)).toBe(0)
+  })
+})
+
+describe("seatShortfall", () => {
+  it("counts only the seats that are missing", () => {
+    expect(seatShortfall({ seatsUsed: 8, seatsLimit: 10 }, 2)).toBe(0)
+    expect(seatShortfall({ seatsUsed: 8, seatsLimit: 10 }, 5)).toBe(3)
+    expect(seatShortfall({ seatsUsed: 10, seatsLimit: 10 }, 0)).toBe(0)
+  })
+})
+
+describe("seat revocation", () => {
+  const student = { academicStatus: "ACTIVE" as const, isActive: true, schoolId: "school-1" }
+
+  it("releases seats on graduation and withdrawal only", () => {
+    expect(academicStatusRevocationReason("GRADUATED")).toBe("GRADUATED")
+    expect(academicStatusRevocationReason("WITHDRAWN")).toBe("WITHDRAWN")
+    expect(academicStatusRevocationReason("SUSPENDED")).toBeNull()
+    expect(academicStatusRevocationReason("PROBATION")).toBeNull()
+  })
+
+  it("keeps the seat of an active student at the seat's school", () => {
+    expect(seatRevocationReason(student, "school-1")).toBeNull()
+  })
+
+  it("releases seats of deactivated students and students who moved school", () => {
+    expect(seatRevocationReason({ ...student, isActive: false }, "school-1")).toBe("DEACTIVATED")
+    expect(seatRevocationReason({ ...student, schoolId: "school-2" }, "school-1")).toBe(
+      "LEFT_SCHOOL"
+    )
+    expect(seatRevocationReason({ ...student, schoolId: null }, "school-1")).toBe("LEFT_SCHOOL")
+  })
+
+  it("prefers the academic reason", () => {
+    expect(
+      seatRevocationReason({ ...student, academicStatus: "GRADUATED", isActive: false }, "school-1")
+    ).toBe("GRADUATED")
+  })
+})
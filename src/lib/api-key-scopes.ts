@@ -0,0 +1,21 @@
+/**
+ * Scopes that can be granted to a school API key. Kept free of server imports
+ * so the key management page can list them. Only add a scope together with an
+ * endpoint that requires it and its entry in the proxy's API key routes.
+ */
+
+export const API_KEY_SCOPES = [
+  "rotations:read",
+  "time_records:read",
+  "clinical_hours:read",
+  "students:write",
+] as const
+
+export type ApiKeyScope = (typeof API_KEY_SCOPES)[number]
+
+export const API_KEY_SCOPE_LABELS: Record<ApiKeyScope, string> = {
+  "rotations:read": "Read rotations",
+  "time_records:read": "Read time records",
+  "clinical_hours:read": "Read clinical hours",
+  "students:write": "Import students",
+}
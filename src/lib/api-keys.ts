@@ -0,0 +1,114 @@
+import { createHash, randomBytes } from "node:crypto"
+import { eq } from "drizzle-orm"
+import { db } from "../database/connection-pool"
+import { type ApiKey, apiKeys } from "../database/schema"
+import type { ApiKeyScope } from "./api-key-scopes"
+
+/**
+ * School-scoped API keys for integrations that run without a person signed in,
+ * such as a registrar's nightly hours export. The secret is shown once at
+ * creation; only its SHA-256 hash is stored.
+ *
+ * A key acts with its creator's role inside its school and may only call
+ * endpoints that declare a scope the key was granted.
+ */
+
+export { API_KEY_SCOPE_LABELS, API_KEY_SCOPES, type ApiKeyScope } from "./api-key-scopes"
+
+export const API_KEY_PREFIX = "msk_"
+export const API_KEY_HEADER = "X-API-Key"
+
+// Characters of the secret kept in plain text for display
+const DISPLAY_PREFIX_LENGTH = API_KEY_PREFIX.length + 8
+
+export function hashApiKey(secret: string): string {
+  return createHash("sha256").update(secret).digest("hex")
+}
+
+export function generateApiKey() {
+  const secret = `${API_KEY_PREFIX}${randomBytes(32).toString("base64url")}`
+  return {
+    secret,
+    prefix: secret.slice(0, DISPLAY_PREFIX_LENGTH),
+    keyHash: hashApiKey(secret),
+  }
+}
+
+/**
+ * Key sent as `Authorization: Bearer msk_...` or in the X-API-Key header.
+ * Bearer tokens without our prefix are left for other schemes.
+ */
+export function extractApiKey(headers: Headers): string | null {
+  const header = headers.get(API_KEY_HEADER)?.trim()
+  if (header) return header
+
+  const authorization = headers.get("authorization")
+  const match = authorization?.match(/^Bearer\s+(\S+)$/i)
+  return match?.[1].startsWith(API_KEY_PREFIX) ? match[1] : null
+}
+
+export function hasApiKeyScopes(granted: string[], required: ApiKeyScope[]): boolean {
+  return required.every((scope) => granted.includes(scope))
+}
+
+export type ApiKeyStatus = "active" | "expired" | "revoked"
+
+export function getApiKeyStatus(
+  key: Pick<ApiKey, "revokedAt" | "expiresAt">,
+  now: Date = new Date()
+): ApiKeyStatus {
+  if (key.revokedAt) return "revoked"
+  if (key.expiresAt && key.expiresAt <= now) return "expired"
+  return "active"
+}
+
+/**
+ * Fields safe to return to admins; never includes the hash.
+ */
+export function toApiKeySummary(key: ApiKey) {
+  return {
+    id: key.id,
+    name: key.name,
+    prefix: key.prefix,
+    scopes: key.scopes,
+    status: getApiKeyStatus(key),
+    createdBy: key.createdBy,
+    createdAt: key.createdAt,
+    expiresAt: key.expiresAt,
+    lastUsedAt: key.lastUsedAt,
+    lastUsedIp: key.lastUsedIp,
+    revokedAt: key.revokedAt,
+  }
+}
+
+export type ApiKeyAuthResult =
+  | { success: true; key: ApiKey }
+  | { success: false; reason: "unknown" | "expired" | "revoked"; key?: ApiKey }
+
+/**
+ * Look up a presented secret and record its use. Does not check scopes.
+ */
+export async function authenticateApiKey(
+  secret: string,
+  ipAddress?: string
+): Promise<ApiKeyAuthResult> {
+  if (!secret.startsWith(API_KEY_PREFIX)) return { success: false, reason: "unknown" }
+
+  const [key] = await db
+    .select()
+    .from(apiKeys)
+    .where(eq(apiKeys.keyHash, hashApiKey(secret)))
+    .limit(1)
+
+  if (!key) return { success: false, reason: "unknown" }
+
+  const status = getApiKeyStatus(key)
+  if (status !== "active") return { success: false, reason: status, key }
+
+  await db
+    .update(apiKeys)
+    .set({ lastUsedAt: new Date(), lastUsedIp: ipAddress ?? null })
+    .where(eq(apiKeys.id, key.id))
+
+  return { success: true, key }
+}
@@ -5,6 +5,7 @@
 
 import { NextResponse } from "next/server"
 import { ClockError, ClockErrorType } from "@/lib/enhanced-error-handling"
+import { TenantIsolationError } from "@/lib/tenant-isolation-error"
 import { ZodError } from "zod"
 
 export interface StandardApiResponse<T = unknown> {
@@ -164,6 +165,12 @@ export function withErrorHandling(
         return ensureJsonMethod(resp)
       }
 
+      // A query that would have crossed schools
+      if (error instanceof TenantIsolationError) {
+        const resp = createErrorResponse(error.message, HTTP_STATUS.FORBIDDEN)
+        return ensureJsonMethod(resp)
+      }
+
       // Handle Zod validation errors explicitly
       if (error instanceof ZodError) {
         const details = error.issues.map((issue) => ({
@@ -224,6 +231,12 @@ export async function withErrorHandlingAsync(
       return ensureJsonMethod(resp)
     }
 
+    // A query that would have crossed schools
+    if (error instanceof TenantIsolationError) {
+      const resp = createErrorResponse(error.message, HTTP_STATUS.FORBIDDEN)
+      return ensureJsonMethod(resp)
+    }
+
     // Handle Zod validation errors explicitly
     if (error instanceof ZodError) {
       const details = error.issues.map((issue) => ({
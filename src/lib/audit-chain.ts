@@ -0,0 +1,537 @@
+import { createHash, createHmac, randomUUID, timingSafeEqual } from "node:crypto"
+import {
+  and,
+  asc,
+  desc,
+  type ExtractTablesWithRelations,
+  eq,
+  gt,
+  inArray,
+  isNull,
+  lt,
+  lte,
+  or,
+  sql,
+} from "drizzle-orm"
+import type { PgQueryResultHKT, PgTransaction } from "drizzle-orm/pg-core"
+import { db } from "../database/connection-pool"
+import {
+  type AuditCheckpoint,
+  type AuditLog,
+  auditChainHeads,
+  auditCheckpoints,
+  auditLogArchive,
+  auditLogs,
+  auditRetentionPolicies,
+  type NewAuditLog,
+  users,
+} from "../database/schema"
+import type * as schema from "../database/schema"
+
+/**
+ * Tamper-evident audit log. Every entry carries the hash of the entry before
+ * it in the same school's chain, so editing or removing a row breaks every
+ * hash after it. Heads are checkpointed with an HMAC so that rewriting a
+ * whole chain is detectable too, and old entries are archived, never deleted.
+ */
+
+export const PLATFORM_CHAIN = "platform"
+export const GENESIS_HASH = "0".repeat(64)
+export const DEFAULT_ARCHIVE_AFTER_DAYS = 365
+export const MIN_ARCHIVE_AFTER_DAYS = 30
+export const MAX_ARCHIVE_AFTER_DAYS = 2555
+
+const VERIFY_PAGE_SIZE = 500
+const ARCHIVE_BATCH_SIZE = 1000
+const MAX_REPORTED_BREAKS = 100
+
+// Any transaction over our schema, including the batched ones in transaction-batcher
+type Tx = PgTransaction<PgQueryResultHKT, typeof schema, ExtractTablesWithRelations<typeof schema>>
+
+export type AuditLogEntry = Omit<
+  NewAuditLog,
+  "id" | "schoolId" | "sequence" | "previousHash" | "hash"
+> & {
+  id?: string
+  // Defaults to the acting user's school; null writes to the platform chain
+  schoolId?: string | null
+}
+
+export type ChainedFields = Pick<
+  AuditLog,
+  | "id"
+  | "userId"
+  | "action"
+  | "resource"
+  | "resourceId"
+  | "details"
+  | "ipAddress"
+  | "userAgent"
+  | "sessionId"
+  | "severity"
+  | "status"
+  | "createdAt"
+  | "schoolId"
+  | "sequence"
+  | "previousHash"
+>
+
+export function chainKeyFor(schoolId: string | null): string {
+  return schoolId ?? PLATFORM_CHAIN
+}
+
+/**
+ * SHA-256 over the entry's fields in a fixed order, including the previous
+ * entry's hash.
+ */
+export function hashAuditEntry(entry: ChainedFields): string {
+  const fields = [
+    entry.previousHash,
+    entry.schoolId,
+    entry.sequence,
+    entry.id,
+    entry.userId,
+    entry.action,
+    entry.resource,
+    entry.resourceId,
+    entry.details,
+    entry.ipAddress,
+    entry.userAgent,
+    entry.sessionId,
+    entry.severity,
+    entry.status,
+    entry.createdAt.toISOString(),
+  ].map((value) => value ?? null)
+  return createHash("sha256").update(JSON.stringify(fields)).digest("hex")
+}
+
+async function resolveSchoolId(tx: Tx, entry: AuditLogEntry): Promise<string | null> {
+  if (entry.schoolId !== undefined) return entry.schoolId
+  if (!entry.userId) return null
+  const [user] = await tx
+    .select({ schoolId: users.schoolId })
+    .from(users)
+    .where(eq(users.id, entry.userId))
+    .limit(1)
+  return user?.schoolId ?? null
+}
+
+async function appendInTransaction(tx: Tx, entries: AuditLogEntry[]): Promise<AuditLog[]> {
+  const inserted: AuditLog[] = []
+  for (const entry of entries) {
+    const schoolId = await resolveSchoolId(tx, entry)
+    const chainKey = chainKeyFor(schoolId)
+
+    await tx
+      .insert(auditChainHeads)
+      .values({ chainKey, schoolId, sequence: 0, hash: GENESIS_HASH })
+      .onConflictDoNothing()
+    const [head] = await tx
+      .select()
+      .from(auditChainHeads)
+      .where(eq(auditChainHeads.chainKey, chainKey))
+      .for("update")
+
+    const chained = {
+      id: entry.id ?? randomUUID(),
+      userId: entry.userId ?? null,
+      action: entry.action,
+      resource: entry.resource ?? null,
+      resourceId: entry.resourceId ?? null,
+      details: entry.details ?? null,
+      ipAddress: entry.ipAddress ?? null,
+      userAgent: entry.userAgent ?? null,
+      sessionId: entry.sessionId ?? null,
+      severity: entry.severity ?? "LOW",
+      status: entry.status ?? "SUCCESS",
+      createdAt: entry.createdAt ?? new Date(),
+      schoolId,
+      sequence: head.sequence + 1,
+      previousHash: head.hash,
+    }
+    const hash = hashAuditEntry(chained)
+
+    const [row] = await tx
+      .insert(auditLogs)
+      .values({ ...chained, hash })
+      .returning()
+    await tx
+      .update(auditChainHeads)
+      .set({ sequence: chained.sequence, hash, updatedAt: new Date() })
+      .where(eq(auditChainHeads.chainKey, chainKey))
+    inserted.push(row)
+  }
+  return inserted
+}
+
+/**
+ * The only way audit entries should be written. Pass `tx` when the entry must
+ * commit or roll back with the surrounding change.
+ */
+export async function appendAuditLog(entry: AuditLogEntry, tx?: Tx): Promise<AuditLog> {
+  const [row] = tx
+    ? await appendInTransaction(tx, [entry])
+    : await db.transaction((inner) => appendInTransaction(inner, [entry]))
+  return row
+}
+
+export async function appendAuditLogs(entries: AuditLogEntry[], tx?: Tx): Promise<AuditLog[]> {
+  if (entries.length === 0) return []
+  return tx
+    ? appendInTransaction(tx, entries)
+    : db.transaction((inner) => appendInTransaction(inner, entries))
+}
+
+// Checkpoints
+
+function getCheckpointSecret(): string {
+  const secret = process.env.AUDIT_CHECKPOINT_SECRET
+  if (!secret) throw new Error("AUDIT_CHECKPOINT_SECRET is not configured")
+  return secret
+}
+
+export function signCheckpoint(
+  checkpoint: Pick<AuditCheckpoint, "chainKey" | "sequence" | "hash" | "createdAt">,
+  secret: string
+): string {
+  return createHmac("sha256", secret)
+    .update(
+      `${checkpoint.chainKey}:${checkpoint.sequence}:${checkpoint.hash}:${checkpoint.createdAt.toISOString()}`
+    )
+    .digest("hex")
+}
+
+export function isCheckpointSignatureValid(checkpoint: AuditCheckpoint, secret: string): boolean {
+  const expected = Buffer.from(signCheckpoint(checkpoint, secret), "hex")
+  const actual = Buffer.from(checkpoint.signature, "hex")
+  return actual.length === expected.length && timingSafeEqual(actual, expected)
+}
+
+/**
+ * Sign the current head of every chain that has grown since its last
+ * checkpoint. Returns the number of checkpoints written.
+ */
+export async function createAuditCheckpoints(
+  options: { now?: Date; secret?: string } = {}
+): Promise<number> {
+  const secret = options.secret ?? getCheckpointSecret()
+  const now = options.now ?? new Date()
+  const heads = await db.select().from(auditChainHeads).where(gt(auditChainHeads.sequence, 0))
+
+  let written = 0
+  for (const head of heads) {
+    const [latest] = await db
+      .select({ sequence: auditCheckpoints.sequence })
+      .from(auditCheckpoints)
+      .where(eq(auditCheckpoints.chainKey, head.chainKey))
+      .orderBy(desc(auditCheckpoints.sequence))
+      .limit(1)
+    if (latest && latest.sequence >= head.sequence) continue
+
+    const checkpoint = {
+      chainKey: head.chainKey,
+      schoolId: head.schoolId,
+      sequence: head.sequence,
+      hash: head.hash,
+      createdAt: now,
+    }
+    await db
+      .insert(auditCheckpoints)
+      .values({ ...checkpoint, signature: signCheckpoint(checkpoint, secret) })
+    written++
+  }
+  return written
+}
+
+// Verification
+
+export type AuditChainBreak =
+  | { kind: "missing_entries"; sequence: number; found: number }
+  | { kind: "previous_hash_mismatch"; sequence: number; entryId: string }
+  | { kind: "entry_altered"; sequence: number; entryId: string }
+  | { kind: "head_mismatch"; sequence: number }
+  | { kind: "checkpoint_signature_invalid"; sequence: number; checkpointId: string }
+  | { kind: "checkpoint_mismatch"; sequence: number; checkpointId: string }
+
+export interface AuditChainVerification {
+  schoolId: string | null
+  valid: boolean
+  verifiedEntries: number
+  headSequence: number
+  checkpointsVerified: number
+  // Entries written before chaining existed; they cannot be verified
+  unchainedEntries: number
+  breaks: AuditChainBreak[]
+  // More breaks were found than are reported
+  truncated: boolean
+  verifiedAt: string
+}
+
+function chainCondition(table: typeof auditLogs | typeof auditLogArchive, schoolId: string | null) {
+  return schoolId ? eq(table.schoolId, schoolId) : isNull(table.schoolId)
+}
+
+async function* chainEntries(schoolId: string | null) {
+  // Archival always moves a prefix of the chain, so archived entries come first
+  for (const table of [auditLogArchive, auditLogs]) {
+    let after = 0
+    while (true) {
+      const page = await db
+        .select({
+          id: table.id,
+          userId: table.userId,
+          action: table.action,
+          resource: table.resource,
+          resourceId: table.resourceId,
+          details: table.details,
+          ipAddress: table.ipAddress,
+          userAgent: table.userAgent,
+          sessionId: table.sessionId,
+          severity: table.severity,
+          status: table.status,
+          createdAt: table.createdAt,
+          schoolId: table.schoolId,
+          sequence: table.sequence,
+          previousHash: table.previousHash,
+          hash: table.hash,
+        })
+        .from(table)
+        .where(and(chainCondition(table, schoolId), gt(table.sequence, after)))
+        .orderBy(asc(table.sequence))
+        .limit(VERIFY_PAGE_SIZE)
+      yield* page
+      if (page.length < VERIFY_PAGE_SIZE) break
+      after = page[page.length - 1].sequence ?? after
+    }
+  }
+}
+
+type ChainHead = { sequence: number; hash: string }
+
+export interface AuditChainWalk {
+  verifiedEntries: number
+  checkpointsVerified: number
+  breaks: AuditChainBreak[]
+  breakCount: number
+}
+
+/**
+ * Check entries in sequence order against each other, the signed checkpoints
+ * and the recorded head. Entries appended after the head was read are ignored.
+ */
+export async function walkAuditChain(
+  entries:
+    | Iterable<ChainedFields & { hash: string | null }>
+    | AsyncIterable<ChainedFields & { hash: string | null }>,
+  checkpoints: AuditCheckpoint[],
+  head: ChainHead | null,
+  secret: string
+): Promise<AuditChainWalk> {
+  const breaks: AuditChainBreak[] = []
+  let breakCount = 0
+  const report = (found: AuditChainBreak) => {
+    breakCount++
+    if (breaks.length < MAX_REPORTED_BREAKS) breaks.push(found)
+  }
+
+  const checkpointsBySequence = new Map<number, AuditCheckpoint[]>()
+  for (const checkpoint of checkpoints) {
+    if (!isCheckpointSignatureValid(checkpoint, secret)) {
+      report({
+        kind: "checkpoint_signature_invalid",
+        sequence: checkpoint.sequence,
+        checkpointId: checkpoint.id,
+      })
+      continue
+    }
+    const list = checkpointsBySequence.get(checkpoint.sequence) ?? []
+    list.push(checkpoint)
+    checkpointsBySequence.set(checkpoint.sequence, list)
+  }
+
+  const headSequence = head?.sequence ?? 0
+  let expected = 1
+  let previousHash = GENESIS_HASH
+  let verifiedEntries = 0
+  let checkpointsVerified = 0
+  for await (const entry of entries) {
+    const sequence = entry.sequence ?? 0
+    if (sequence > headSequence) break
+
+    if (sequence !== expected) {
+      report({ kind: "missing_entries", sequence: expected, found: sequence })
+    } else if (entry.previousHash !== previousHash) {
+      report({ kind: "previous_hash_mismatch", sequence, entryId: entry.id })
+    }
+    if (hashAuditEntry(entry) !== entry.hash) {
+      report({ kind: "entry_altered", sequence, entryId: entry.id })
+    }
+
+    for (const checkpoint of checkpointsBySequence.get(sequence) ?? []) {
+      if (checkpoint.hash === entry.hash) {
+        checkpointsVerified++
+      } else {
+        report({ kind: "checkpoint_mismatch", sequence, checkpointId: checkpoint.id })
+      }
+    }
+    checkpointsBySequence.delete(sequence)
+
+    previousHash = entry.hash ?? ""
+    expected = sequence + 1
+    verifiedEntries++
+  }
+
+  // Checkpointed entries that no longer exist
+  for (const [sequence, list] of checkpointsBySequence) {
+    for (const checkpoint of list) {
+      report({ kind: "checkpoint_mismatch", sequence, checkpointId: checkpoint.id })
+    }
+  }
+
+  // Entries removed from the end of the chain
+  if (headSequence !== expected - 1 || (head && head.hash !== previousHash)) {
+    report({ kind: "head_mismatch", sequence: headSequence })
+  }
+
+  return { verifiedEntries, checkpointsVerified, breaks, breakCount }
+}
+
+/**
+ * Walk a school's chain (archive first, then live entries) and report every
+ * point where it no longer holds together.
+ */
+export async function verifyAuditChain(
+  schoolId: string | null,
+  options: { secret?: string } = {}
+): Promise<AuditChainVerification> {
+  const secret = options.secret ?? getCheckpointSecret()
+  const chainKey = chainKeyFor(schoolId)
+
+  const [head] = await db
+    .select()
+    .from(auditChainHeads)
+    .where(eq(auditChainHeads.chainKey, chainKey))
+    .limit(1)
+  const checkpoints = await db
+    .select()
+    .from(auditCheckpoints)
+    .where(eq(auditCheckpoints.chainKey, chainKey))
+    .orderBy(asc(auditCheckpoints.sequence))
+
+  const walk = await walkAuditChain(chainEntries(schoolId), checkpoints, head ?? null, secret)
+
+  const unchained = await Promise.all(
+    [auditLogs, auditLogArchive].map((table) =>
+      db
+        .select({ count: sql<number>`count(*)::int` })
+        .from(table)
+        .where(and(chainCondition(table, schoolId), isNull(table.sequence)))
+    )
+  )
+
+  return {
+    schoolId,
+    valid: walk.breakCount === 0,
+    verifiedEntries: walk.verifiedEntries,
+    headSequence: head?.sequence ?? 0,
+    checkpointsVerified: walk.checkpointsVerified,
+    unchainedEntries: unchained.reduce((sum, [row]) => sum + (row?.count ?? 0), 0),
+    breaks: walk.breaks,
+    truncated: walk.breakCount > walk.breaks.length,
+    verifiedAt: new Date().toISOString(),
+  }
+}
+
+// Retention
+
+export async function getArchiveAfterDays(schoolId: string | null): Promise<number> {
+  if (!schoolId) return DEFAULT_ARCHIVE_AFTER_DAYS
+  const [policy] = await db
+    .select({ archiveAfterDays: auditRetentionPolicies.archiveAfterDays })
+    .from(auditRetentionPolicies)
+    .where(eq(auditRetentionPolicies.schoolId, schoolId))
+    .limit(1)
+  return policy?.archiveAfterDays ?? DEFAULT_ARCHIVE_AFTER_DAYS
+}
+
+export async function setArchiveAfterDays(
+  schoolId: string,
+  archiveAfterDays: number,
+  updatedBy: string
+) {
+  const now = new Date()
+  const [policy] = await db
+    .insert(auditRetentionPolicies)
+    .values({ schoolId, archiveAfterDays, updatedBy, updatedAt: now })
+    .onConflictDoUpdate({
+      target: auditRetentionPolicies.schoolId,
+      set: { archiveAfterDays, updatedBy, updatedAt: now },
+    })
+    .returning()
+  return policy
+}
+
+/**
+ * Move one batch of a chain's entries older than its retention policy into
+ * audit_log_archive. Only a prefix of the chain is moved so verification can
+ * read the archive and the live table back to back.
+ */
+async function archiveChainBatch(schoolId: string | null, cutoff: Date): Promise<number> {
+  return db.transaction(async (tx) => {
+    const [boundary] = await tx
+      .select({ sequence: sql<number | null>`max(${auditLogs.sequence})` })
+      .from(auditLogs)
+      .where(and(chainCondition(auditLogs, schoolId), lt(auditLogs.createdAt, cutoff)))
+
+    const prefix = boundary?.sequence ? lte(auditLogs.sequence, boundary.sequence) : sql`false`
+    const rows = await tx
+      .select()
+      .from(auditLogs)
+      .where(
+        and(
+          chainCondition(auditLogs, schoolId),
+          or(prefix, and(isNull(auditLogs.sequence), lt(auditLogs.createdAt, cutoff)))
+        )
+      )
+      .orderBy(sql`${auditLogs.sequence} asc nulls first`)
+      .limit(ARCHIVE_BATCH_SIZE)
+      .for("update")
+    if (rows.length === 0) return 0
+
+    await tx.insert(auditLogArchive).values(rows).onConflictDoNothing()
+    await tx.delete(auditLogs).where(
+      inArray(
+        auditLogs.id,
+        rows.map((row) => row.id)
+      )
+    )
+    return rows.length
+  })
+}
+
+/**
+ * Apply every school's retention policy. Returns the number of entries
+ * archived per chain.
+ */
+export async function archiveAuditLogs(
+  options: { now?: Date; maxBatches?: number } = {}
+): Promise<Record<string, number>> {
+  const now = options.now ?? new Date()
+  const maxBatches = options.maxBatches ?? 10
+  const chains = await db.selectDistinct({ schoolId: auditLogs.schoolId }).from(auditLogs)
+
+  const archived: Record<string, number> = {}
+  for (const { schoolId } of chains) {
+    const days = await getArchiveAfterDays(schoolId)
+    const cutoff = new Date(now.getTime() - days * 24 * 60 * 60 * 1000)
+
+    let total = 0
+    for (let batch = 0; batch < maxBatches; batch++) {
+      const moved = await archiveChainBatch(schoolId, cutoff)
+      total += moved
+      if (moved < ARCHIVE_BATCH_SIZE) break
+    }
+    if (total > 0) archived[chainKeyFor(schoolId)] = total
+  }
+  return archived
+}
@@ -17,6 +17,7 @@ import {
   users,
   programs,
 } from "../database/schema"
+import { appendAuditLog } from "./audit-chain"
 import { BatchProcessor, batchOperations } from "./batch-processor"
 import { analyticsTransactionBatcher } from "./transaction-batcher"
 
@@ -252,17 +253,20 @@ export class CompetencyBulkOperations {
       const results = await Promise.all(
         logs.map((log) =>
           analyticsTransactionBatcher.addOperation(
-            async (tx) => {
-              return await tx
-                .insert(auditLogs)
-                .values({
-                  ...log,
-                  id: crypto.randomUUID(),
+            (tx) =>
+              appendAuditLog(
+                {
+                  userId: log.userId,
+                  action: log.action,
+                  resource: log.resourceType,
+                  resourceId: log.resourceId,
                   details: log.details ? JSON.stringify(log.details) : null,
-                  createdAt: new Date(),
-                })
-                .returning()
-            },
+                  ipAddress: log.ipAddress,
+                  userAgent: log.userAgent,
+                  createdAt: log.timestamp,
+                },
+                tx
+              ),
             "low" // Low priority for audit logs
           )
         )
@@ -0,0 +1,486 @@
+import { createHash, randomBytes } from "node:crypto"
+import { and, eq, gte, isNotNull, isNull, ne, or, type SQL } from "drizzle-orm"
+import { alias } from "drizzle-orm/pg-core"
+import { db } from "../database/connection-pool"
+import {
+  type CalendarFeed,
+  clinicalSites,
+  cohortRotationAssignments,
+  cohorts,
+  complianceRequirements,
+  complianceSubmissions,
+  calendarFeeds,
+  meetings,
+  programComplianceRequirements,
+  rotations,
+  rotationTemplates,
+  users,
+} from "../database/schema"
+import { buildCalendar, type CalendarEvent } from "./ical"
+import { siteVisibleToSchool, studentInSchool } from "./school-affiliations"
+
+/**
+ * iCalendar subscription feeds. Each feed is reached through a secret URL
+ * token, stored only as a SHA-256 hash; resetting a feed replaces the token so
+ * old URLs stop working.
+ *
+ * PERSONAL feeds follow the owner's role: students see their rotations,
+ * published cohort rotations, meetings and compliance due dates; preceptors and
+ * supervisors see the rotations of students assigned to them. SITE feeds give
+ * school admins what their own school has scheduled at one clinical site, which
+ * may be shared with other schools through affiliations.
+ *
+ * Event UIDs are derived from the source row ids, so a changed rotation or
+ * meeting replaces the existing calendar entry instead of adding another.
+ */
+
+export const CALENDAR_FEED_TOKEN_PREFIX = "cal_"
+
+const UID_DOMAIN = "medstint.app"
+const DAY_MS = 24 * 60 * 60 * 1000
+// Older events are left out to keep feeds small; clients keep what they saw
+const HISTORY_DAYS = 90
+
+const ADMIN_ROLES = ["SUPER_ADMIN", "SCHOOL_ADMIN"]
+const PRECEPTOR_ROLES = ["CLINICAL_PRECEPTOR", "CLINICAL_SUPERVISOR"]
+
+export function hashCalendarToken(token: string): string {
+  return createHash("sha256").update(token).digest("hex")
+}
+
+export function generateCalendarToken() {
+  const token = `${CALENDAR_FEED_TOKEN_PREFIX}${randomBytes(24).toString("base64url")}`
+  return { token, tokenHash: hashCalendarToken(token) }
+}
+
+/**
+ * Token from the last path segment, with or without the `.ics` extension
+ * calendar apps like to see.
+ */
+export function parseCalendarToken(segment: string): string | null {
+  const token = segment.replace(/\.ics$/i, "")
+  return token.startsWith(CALENDAR_FEED_TOKEN_PREFIX) ? token : null
+}
+
+export function calendarFeedUrl(origin: string, token: string) {
+  return `${origin.replace(/\/$/, "")}/api/ical/${token}.ics`
+}
+
+export function calendarUid(source: string, id: string) {
+  return `${source}-${id}@${UID_DOMAIN}`
+}
+
+type FeedOwner = Pick<
+  typeof users.$inferSelect,
+  "id" | "name" | "role" | "schoolId" | "programId" | "cohortId" | "enrollmentDate"
+>
+
+function rotationStatus(status: string): CalendarEvent["status"] {
+  if (status === "CANCELLED") return "CANCELLED"
+  return status === "SCHEDULED" ? "TENTATIVE" : "CONFIRMED"
+}
+
+async function rotationEvents(
+  where: SQL | undefined,
+  since: Date,
+  withStudentName: boolean
+): Promise<CalendarEvent[]> {
+  const students = alias(users, "students")
+  const rows = await db
+    .select({
+      id: rotations.id,
+      specialty: rotations.specialty,
+      status: rotations.status,
+      startDate: rotations.startDate,
+      endDate: rotations.endDate,
+      requiredHours: rotations.requiredHours,
+      updatedAt: rotations.updatedAt,
+      siteName: clinicalSites.name,
+      siteAddress: clinicalSites.address,
+      studentName: students.name,
+    })
+    .from(rotations)
+    .innerJoin(clinicalSites, eq(rotations.clinicalSiteId, clinicalSites.id))
+    .innerJoin(students, eq(rotations.studentId, students.id))
+    .where(
+      and(
+        where,
+        isNotNull(rotations.startDate),
+        or(isNull(rotations.endDate), gte(rotations.endDate, since))
+      )
+    )
+
+  return rows.map((row) => ({
+    uid: calendarUid("rotation", row.id),
+    summary: withStudentName
+      ? `${row.studentName ?? "Student"}: ${row.specialty} rotation`
+      : `${row.specialty} rotation at ${row.siteName}`,
+    start: row.startDate as Date,
+    end: row.endDate,
+    allDay: true,
+    location: `${row.siteName}, ${row.siteAddress}`,
+    description: row.requiredHours ? `${row.requiredHours} clinical hours required` : null,
+    status: rotationStatus(row.status),
+    categories: ["Rotation"],
+    lastModified: row.updatedAt,
+  }))
+}
+
+async function cohortAssignmentEvents(
+  where: SQL | undefined,
+  since: Date,
+  excludeIds: string[] = []
+): Promise<CalendarEvent[]> {
+  const rows = await db
+    .select({
+      id: cohortRotationAssignments.id,
+      status: cohortRotationAssignments.status,
+      startDate: cohortRotationAssignments.startDate,
+      endDate: cohortRotationAssignments.endDate,
+      requiredHours: cohortRotationAssignments.requiredHours,
+      updatedAt: cohortRotationAssignments.updatedAt,
+      templateName: rotationTemplates.name,
+      cohortName: cohorts.name,
+      siteName: clinicalSites.name,
+      siteAddress: clinicalSites.address,
+    })
+    .from(cohortRotationAssignments)
+    .innerJoin(
+      rotationTemplates,
+      eq(cohortRotationAssignments.rotationTemplateId, rotationTemplates.id)
+    )
+    .innerJoin(cohorts, eq(cohortRotationAssignments.cohortId, cohorts.id))
+    .leftJoin(clinicalSites, eq(cohortRotationAssignments.clinicalSiteId, clinicalSites.id))
+    .where(
+      and(
+        where,
+        ne(cohortRotationAssignments.status, "DRAFT"),
+        gte(cohortRotationAssignments.endDate, since)
+      )
+    )
+
+  return rows
+    .filter((row) => !excludeIds.includes(row.id))
+    .map((row) => ({
+      uid: calendarUid("cohort-rotation", row.id),
+      summary: `${row.templateName} (${row.cohortName})`,
+      start: row.startDate,
+      end: row.endDate,
+      allDay: true,
+      location: row.siteName ? `${row.siteName}, ${row.siteAddress}` : null,
+      description: `${row.requiredHours} clinical hours required`,
+      status: row.status === "CANCELLED" ? "CANCELLED" : "CONFIRMED",
+      categories: ["Rotation"],
+      lastModified: row.updatedAt,
+    }))
+}
+
+async function meetingEvents(userId: string, since: Date): Promise<CalendarEvent[]> {
+  const rows = await db
+    .select()
+    .from(meetings)
+    .where(
+      and(
+        or(eq(meetings.organizerId, userId), eq(meetings.studentId, userId)),
+        gte(meetings.endTime, since)
+      )
+    )
+
+  return rows.map((row) => ({
+    uid: calendarUid("meeting", row.id),
+    summary: row.title,
+    start: row.startTime,
+    end: row.endTime,
+    description: row.description,
+    location: row.type === "VIRTUAL" ? (row.meetingLink ?? row.location) : row.location,
+    url: row.meetingLink,
+    status: row.status === "CANCELLED" ? "CANCELLED" : "CONFIRMED",
+    categories: ["Meeting"],
+    lastModified: row.updatedAt,
+  }))
+}
+
+/**
+ * First-time due dates from the program's requirement offsets (until the
+ * student has submitted something) and renewal dates of approved submissions.
+ */
+async function complianceEvents(student: FeedOwner, since: Date): Promise<CalendarEvent[]> {
+  const submissions = await db
+    .select({
+      id: complianceSubmissions.id,
+      requirementId: complianceSubmissions.requirementId,
+      status: complianceSubmissions.status,
+      expiresAt: complianceSubmissions.expiresAt,
+      updatedAt: complianceSubmissions.updatedAt,
+      requirementName: complianceRequirements.name,
+    })
+    .from(complianceSubmissions)
+    .innerJoin(
+      complianceRequirements,
+      eq(complianceSubmissions.requirementId, complianceRequirements.id)
+    )
+    .where(eq(complianceSubmissions.studentId, student.id))
+
+  const events: CalendarEvent[] = submissions
+    .filter((row) => row.status === "APPROVED" && row.expiresAt && row.expiresAt >= since)
+    .map((row) => ({
+      uid: calendarUid("compliance-renewal", row.id),
+      summary: `Renewal due: ${row.requirementName}`,
+      start: row.expiresAt as Date,
+      allDay: true,
+      categories: ["Compliance"],
+      lastModified: row.updatedAt,
+    }))
+
+  if (!student.programId || !student.enrollmentDate) return events
+
+  const submitted = new Set(
+    submissions
+      .filter((row) => row.status === "APPROVED" || row.status === "PENDING")
+      .map((row) => row.requirementId)
+  )
+  const requirements = await db
+    .select({
+      requirementId: complianceRequirements.id,
+      name: complianceRequirements.name,
+      description: complianceRequirements.description,
+      dueDateOffsetDays: programComplianceRequirements.dueDateOffsetDays,
+      updatedAt: programComplianceRequirements.updatedAt,
+    })
+    .from(programComplianceRequirements)
+    .innerJoin(
+      complianceRequirements,
+      eq(programComplianceRequirements.requirementId, complianceRequirements.id)
+    )
+    .where(
+      and(
+        eq(programComplianceRequirements.programId, student.programId),
+        eq(complianceRequirements.isActive, true),
+        isNotNull(programComplianceRequirements.dueDateOffsetDays)
+      )
+    )
+
+  const enrolledAt = student.enrollmentDate.getTime()
+  for (const row of requirements) {
+    if (submitted.has(row.requirementId)) continue
+    events.push({
+      uid: calendarUid("compliance-due", `${student.id}-${row.requirementId}`),
+      summary: `Due: ${row.name}`,
+      start: new Date(enrolledAt + (row.dueDateOffsetDays ?? 0) * DAY_MS),
+      allDay: true,
+      description: row.description,
+      categories: ["Compliance"],
+      lastModified: row.updatedAt,
+    })
+  }
+  return events
+}
+
+async function personalEvents(owner: FeedOwner, since: Date): Promise<CalendarEvent[]> {
+  const events = await meetingEvents(owner.id, since)
+
+  if (owner.role === "STUDENT") {
+    const own = await rotationEvents(eq(rotations.studentId, owner.id), since, false)
+    // Cohort rotations the student already has a personal rotation for are skipped
+    const linked = await db
+      .select({ id: rotations.cohortRotationAssignmentId })
+      .from(rotations)
+      .where(
+        and(eq(rotations.studentId, owner.id), isNotNull(rotations.cohortRotationAssignmentId))
+      )
+    const cohort = owner.cohortId
+      ? await cohortAssignmentEvents(
+          eq(cohortRotationAssignments.cohortId, owner.cohortId),
+          since,
+          linked.map((row) => row.id as string)
+        )
+      : []
+    events.push(...own, ...cohort, ...(await complianceEvents(owner, since)))
+  } else if (owner.role && PRECEPTOR_ROLES.includes(owner.role)) {
+    events.push(
+      ...(await rotationEvents(
+        or(eq(rotations.preceptorId, owner.id), eq(rotations.supervisorId, owner.id)),
+        since,
+        true
+      ))
+    )
+  }
+  return events
+}
+
+// schoolId is null only for super admins, who see every school at the site
+async function siteEvents(
+  siteId: string,
+  schoolId: string | null,
+  since: Date
+): Promise<CalendarEvent[]> {
+  return [
+    ...(await rotationEvents(
+      and(eq(rotations.clinicalSiteId, siteId), studentInSchool(rotations.studentId, schoolId)),
+      since,
+      true
+    )),
+    ...(await cohortAssignmentEvents(
+      and(
+        eq(cohortRotationAssignments.clinicalSiteId, siteId),
+        schoolId ? eq(rotationTemplates.schoolId, schoolId) : undefined
+      ),
+      since
+    )),
+  ]
+}
+
+function feedSchoolId(owner: Pick<FeedOwner, "role" | "schoolId">) {
+  return owner.role === "SUPER_ADMIN" ? null : owner.schoolId
+}
+
+/**
+ * Whether the owner may still see a SITE feed; access is re-checked on every
+ * fetch so a demoted admin's feed stops working.
+ */
+async function findAccessibleSite(
+  owner: Pick<FeedOwner, "role" | "schoolId">,
+  siteId: string | null
+) {
+  if (!siteId || !owner.role || !ADMIN_ROLES.includes(owner.role)) return null
+  const schoolId = feedSchoolId(owner)
+  if (owner.role !== "SUPER_ADMIN" && !schoolId) return null
+  const [site] = await db
+    .select({ id: clinicalSites.id, name: clinicalSites.name })
+    .from(clinicalSites)
+    .where(and(eq(clinicalSites.id, siteId), schoolId ? siteVisibleToSchool(schoolId) : undefined))
+    .limit(1)
+  return site ?? null
+}
+
+/**
+ * Render the feed behind a URL token, or null when the token is unknown or
+ * the owner can no longer see it.
+ */
+export async function renderCalendarFeed(token: string, now: Date = new Date()) {
+  const [row] = await db
+    .select({ feed: calendarFeeds, owner: users })
+    .from(calendarFeeds)
+    .innerJoin(users, eq(calendarFeeds.userId, users.id))
+    .where(eq(calendarFeeds.tokenHash, hashCalendarToken(token)))
+    .limit(1)
+
+  if (!row || !row.owner.isActive) return null
+  const { feed, owner } = row
+  const since = new Date(now.getTime() - HISTORY_DAYS * DAY_MS)
+
+  let name: string
+  let events: CalendarEvent[]
+  if (feed.kind === "SITE") {
+    const site = await findAccessibleSite(owner, feed.clinicalSiteId)
+    if (!site) return null
+    name = `MedStint: ${site.name}`
+    events = await siteEvents(site.id, feedSchoolId(owner), since)
+  } else {
+    name = owner.name ? `MedStint: ${owner.name}` : "MedStint"
+    events = await personalEvents(owner, since)
+  }
+
+  await db.update(calendarFeeds).set({ lastAccessedAt: now }).where(eq(calendarFeeds.id, feed.id))
+
+  return buildCalendar({
+    name,
+    description: "Rotations, meetings and due dates from MedStint",
+    events: events.sort((a, b) => a.start.getTime() - b.start.getTime()),
+    now,
+  })
+}
+
+export interface CalendarFeedTarget {
+  kind: CalendarFeed["kind"]
+  clinicalSiteId?: string | null
+}
+
+/**
+ * Check a SITE feed target before it is created; PERSONAL feeds are always
+ * allowed. Returns an error message or null.
+ */
+export async function validateCalendarFeedTarget(
+  owner: Pick<FeedOwner, "role" | "schoolId">,
+  target: CalendarFeedTarget
+): Promise<string | null> {
+  if (target.kind === "PERSONAL") return null
+  if (!owner.role || !ADMIN_ROLES.includes(owner.role)) {
+    return "Only school administrators can subscribe to site calendars"
+  }
+  const site = await findAccessibleSite(owner, target.clinicalSiteId ?? null)
+  return site ? null : "Clinical site not found"
+}
+
+/**
+ * Create the feed for this owner and target, or issue a new token for the
+ * existing one. The plain token is only available from the return value.
+ */
+export async function issueCalendarFeed(userId: string, target: CalendarFeedTarget) {
+  const { token, tokenHash } = generateCalendarToken()
+  const siteId = target.kind === "SITE" ? (target.clinicalSiteId ?? null) : null
+
+  const [existing] = await db
+    .select({ id: calendarFeeds.id })
+    .from(calendarFeeds)
+    .where(
+      and(
+        eq(calendarFeeds.userId, userId),
+        eq(calendarFeeds.kind, target.kind),
+        siteId ? eq(calendarFeeds.clinicalSiteId, siteId) : isNull(calendarFeeds.clinicalSiteId)
+      )
+    )
+    .limit(1)
+
+  const [feed] = existing
+    ? await db
+        .update(calendarFeeds)
+        .set({ tokenHash, lastAccessedAt: null, updatedAt: new Date() })
+        .where(eq(calendarFeeds.id, existing.id))
+        .returning()
+    : await db
+        .insert(calendarFeeds)
+        .values({ userId, kind: target.kind, clinicalSiteId: siteId, tokenHash })
+        .returning()
+
+  return { feed, token, reset: !!existing }
+}
+
+/**
+ * The user's feeds with site names; never includes the token hash.
+ */
+export async function listCalendarFeeds(userId: string) {
+  const feeds = await db
+    .select({
+      id: calendarFeeds.id,
+      kind: calendarFeeds.kind,
+      clinicalSiteId: calendarFeeds.clinicalSiteId,
+      siteName: clinicalSites.name,
+      lastAccessedAt: calendarFeeds.lastAccessedAt,
+      createdAt: calendarFeeds.createdAt,
+      updatedAt: calendarFeeds.updatedAt,
+    })
+    .from(calendarFeeds)
+    .leftJoin(clinicalSites, eq(calendarFeeds.clinicalSiteId, clinicalSites.id))
+    .where(eq(calendarFeeds.userId, userId))
+  return feeds
+}
+
+/**
+ * Sites an admin can subscribe to.
+ */
+export async function listFeedSites(owner: Pick<FeedOwner, "role" | "schoolId">) {
+  if (!owner.role || !ADMIN_ROLES.includes(owner.role) || !owner.schoolId) return []
+  return db
+    .select({ id: clinicalSites.id, name: clinicalSites.name })
+    .from(clinicalSites)
+    .where(and(siteVisibleToSchool(owner.schoolId), eq(clinicalSites.isActive, true)))
+}
+
+export async function deleteCalendarFeed(userId: string, id: string) {
+  const deleted = await db
+    .delete(calendarFeeds)
+    .where(and(eq(calendarFeeds.id, id), eq(calendarFeeds.userId, userId)))
+    .returning({ id: calendarFeeds.id })
+  return deleted.length > 0
+}
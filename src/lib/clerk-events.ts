@@ -0,0 +1,103 @@
+import { eq } from "drizzle-orm"
+import { db } from "../database/connection-pool"
+import { users } from "../database/schema"
+import type { UserRole } from "../types"
+import { logger } from "./logger"
+
+/**
+ * Clerk webhook event handlers, run by the inbound webhook worker. Handlers
+ * throw on failure so the event is retried and, once retries run out, shown
+ * to admins for replay.
+ */
+
+export type ClerkWebhookEvent = {
+  type: string
+  data: {
+    id: string
+    email_addresses?: Array<{
+      email_address: string
+      id: string
+    }>
+    first_name?: string
+    last_name?: string
+    image_url?: string
+    created_at?: number
+    updated_at?: number
+  }
+}
+
+type ClerkUserData = ClerkWebhookEvent["data"]
+
+function profileOf(data: ClerkUserData) {
+  const email = data.email_addresses?.[0]?.email_address
+  if (!email) {
+    throw new Error("Invalid webhook data - missing email")
+  }
+  const firstName = data.first_name || ""
+  const lastName = data.last_name || ""
+  const name = `${firstName} ${lastName}`.trim() || email.split("@")[0] || "User"
+  return { email, name, image: data.image_url }
+}
+
+async function handleUserCreated(data: ClerkUserData) {
+  const profile = profileOf(data)
+  // Redelivered after a partial failure: the user row may already exist
+  await db
+    .insert(users)
+    .values({
+      id: data.id,
+      ...profile,
+      emailVerified: true,
+      role: "STUDENT" as UserRole, // Default role
+      isActive: true,
+      onboardingCompleted: false,
+      createdAt: data.created_at ? new Date(data.created_at) : new Date(),
+      updatedAt: data.updated_at ? new Date(data.updated_at) : new Date(),
+    })
+    .onConflictDoNothing({ target: users.id })
+}
+
+async function handleUserUpdated(data: ClerkUserData) {
+  await db
+    .update(users)
+    .set({
+      ...profileOf(data),
+      updatedAt: data.updated_at ? new Date(data.updated_at) : new Date(),
+    })
+    .where(eq(users.id, data.id))
+}
+
+async function handleUserDeleted(data: ClerkUserData) {
+  // Soft delete user (set inactive) when they delete their account
+  await db
+    .update(users)
+    .set({
+      isActive: false,
+      updatedAt: new Date(),
+    })
+    .where(eq(users.id, data.id))
+
+  // Revoke all Clerk sessions for this user to prevent access after deletion
+  try {
+    const clerkSecretKey = process.env.CLERK_SECRET_KEY
+    if (clerkSecretKey) {
+      await fetch(`https://api.clerk.com/v1/users/${data.id}/sessions`, {
+        method: "DELETE",
+        headers: {
+          Authorization: `Bearer ${clerkSecretKey}`,
+          "Content-Type": "application/json",
+        },
+      })
+      logger.info({ userId: data.id }, "Revoked sessions for deleted user")
+    }
+  } catch (sessionError) {
+    logger.error({ userId: data.id, sessionError }, "Failed to revoke sessions for user")
+    // Continue - user is already soft-deleted, session revocation is best-effort
+  }
+}
+
+export const CLERK_EVENT_HANDLERS: Record<string, (data: ClerkUserData) => Promise<void>> = {
+  "user.created": handleUserCreated,
+  "user.updated": handleUserUpdated,
+  "user.deleted": handleUserDeleted,
+}
@@ -0,0 +1,362 @@
+import { and, eq, inArray, sql } from "drizzle-orm"
+import { db } from "../database/connection-pool"
+import {
+  type ClinicalHoursPolicy,
+  clinicalHoursLedger,
+  clinicalHoursPolicies,
+  type NewClinicalHoursLedgerEntry,
+  rotations,
+  timeRecords,
+  users,
+} from "../database/schema"
+import { logger } from "./logger"
+
+/**
+ * Clinical hours ledger. Each approved time record gets one ledger entry with
+ * the minutes credited after the school's policy is applied:
+ * 1. break deduction for shifts over the threshold
+ * 2. rounding to the configured increment
+ * 3. daily and weekly caps, filled in clock-in order
+ *
+ * Caps make a student's entries depend on each other, so the whole ledger for
+ * a student is rebuilt whenever any of their records changes. Rotation and
+ * user hour totals are derived from the ledger in the same transaction.
+ */
+
+export type HoursPolicy = Pick<
+  ClinicalHoursPolicy,
+  | "roundingIncrementMinutes"
+  | "roundingMode"
+  | "breakThresholdMinutes"
+  | "breakDeductionMinutes"
+  | "dailyCapMinutes"
+  | "weeklyCapMinutes"
+  | "timezone"
+>
+
+// Schools without a policy are credited their raw clocked minutes
+export const DEFAULT_HOURS_POLICY: HoursPolicy = {
+  roundingIncrementMinutes: 0,
+  roundingMode: "NEAREST",
+  breakThresholdMinutes: 0,
+  breakDeductionMinutes: 0,
+  dailyCapMinutes: null,
+  weeklyCapMinutes: null,
+  timezone: "UTC",
+}
+
+export interface LedgerSourceRecord {
+  id: string
+  studentId: string
+  rotationId: string
+  clinicalSiteId: string | null
+  specialty: string
+  clockIn: Date | null
+  clockOut: Date | null
+  totalHours: string | null
+}
+
+export type ComputedLedgerEntry = Omit<NewClinicalHoursLedgerEntry, "id" | "computedAt"> & {
+  policy: HoursPolicy
+}
+
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone })
+    return true
+  } catch {
+    return false
+  }
+}
+
+export function roundMinutes(
+  minutes: number,
+  increment: number,
+  mode: HoursPolicy["roundingMode"]
+): number {
+  if (increment <= 0) return minutes
+  const units = minutes / increment
+  const rounded =
+    mode === "UP" ? Math.ceil(units) : mode === "DOWN" ? Math.floor(units) : Math.round(units)
+  return rounded * increment
+}
+
+/**
+ * Calendar day (YYYY-MM-DD) of an instant in the given time zone.
+ */
+export function localDate(date: Date, timeZone: string): string {
+  // en-CA formats as YYYY-MM-DD
+  return new Intl.DateTimeFormat("en-CA", {
+    timeZone,
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+  }).format(date)
+}
+
+/**
+ * Monday of the ISO week containing the given YYYY-MM-DD day.
+ */
+export function isoWeekStart(day: string): string {
+  const date = new Date(`${day}T00:00:00Z`)
+  const offset = (date.getUTCDay() + 6) % 7
+  date.setUTCDate(date.getUTCDate() - offset)
+  return date.toISOString().slice(0, 10)
+}
+
+function rawMinutes(record: LedgerSourceRecord): number | null {
+  if (record.clockIn && record.clockOut) {
+    return Math.max(0, Math.round((record.clockOut.getTime() - record.clockIn.getTime()) / 60000))
+  }
+  // Manually entered records may only carry a total
+  if (record.totalHours !== null && record.clockIn) {
+    const hours = Number.parseFloat(record.totalHours)
+    return Number.isFinite(hours) ? Math.max(0, Math.round(hours * 60)) : null
+  }
+  return null
+}
+
+/**
+ * Apply a policy to one student's approved records. Records without a
+ * complete shift are skipped.
+ */
+export function computeLedgerEntries(
+  records: LedgerSourceRecord[],
+  policy: HoursPolicy
+): ComputedLedgerEntry[] {
+  const ordered = records
+    .filter((record) => record.clockIn)
+    .sort(
+      (a, b) =>
+        (a.clockIn as Date).getTime() - (b.clockIn as Date).getTime() || a.id.localeCompare(b.id)
+    )
+
+  const dailyUsed = new Map<string, number>()
+  const weeklyUsed = new Map<string, number>()
+  const entries: ComputedLedgerEntry[] = []
+
+  for (const record of ordered) {
+    const raw = rawMinutes(record)
+    if (raw === null) continue
+
+    const breakMinutes =
+      policy.breakDeductionMinutes > 0 && raw >= policy.breakThresholdMinutes
+        ? Math.min(policy.breakDeductionMinutes, raw)
+        : 0
+    const rounded = roundMinutes(
+      raw - breakMinutes,
+      policy.roundingIncrementMinutes,
+      policy.roundingMode
+    )
+
+    const workDate = localDate(record.clockIn as Date, policy.timezone)
+    const weekStart = isoWeekStart(workDate)
+    const dayTotal = dailyUsed.get(workDate) ?? 0
+    const weekTotal = weeklyUsed.get(weekStart) ?? 0
+
+    let credited = rounded
+    if (policy.dailyCapMinutes !== null) {
+      credited = Math.min(credited, Math.max(policy.dailyCapMinutes - dayTotal, 0))
+    }
+    if (policy.weeklyCapMinutes !== null) {
+      credited = Math.min(credited, Math.max(policy.weeklyCapMinutes - weekTotal, 0))
+    }
+
+    dailyUsed.set(workDate, dayTotal + credited)
+    weeklyUsed.set(weekStart, weekTotal + credited)
+
+    entries.push({
+      timeRecordId: record.id,
+      studentId: record.studentId,
+      rotationId: record.rotationId,
+      clinicalSiteId: record.clinicalSiteId,
+      specialty: record.specialty,
+      workDate,
+      weekStart,
+      rawMinutes: raw,
+      breakMinutes,
+      roundedMinutes: rounded,
+      cappedMinutes: rounded - credited,
+      creditedMinutes: credited,
+      policy,
+    })
+  }
+
+  return entries
+}
+
+export interface HoursBucket {
+  key: string
+  minutes: number
+  hours: number
+  timeRecordIds: string[]
+}
+
+type SummarySource = Pick<
+  ComputedLedgerEntry,
+  "timeRecordId" | "rotationId" | "specialty" | "clinicalSiteId" | "creditedMinutes"
+>
+
+function toHours(minutes: number) {
+  return Math.round((minutes / 60) * 100) / 100
+}
+
+/**
+ * Roll entries up by rotation, specialty and site. Every bucket lists the
+ * time records its total came from.
+ */
+export function summarizeLedger(entries: SummarySource[]) {
+  const group = (keyOf: (entry: SummarySource) => string | null | undefined) => {
+    const buckets = new Map<string, HoursBucket>()
+    for (const entry of entries) {
+      const key = keyOf(entry) ?? "unassigned"
+      const bucket = buckets.get(key) ?? { key, minutes: 0, hours: 0, timeRecordIds: [] }
+      bucket.minutes += entry.creditedMinutes
+      bucket.hours = toHours(bucket.minutes)
+      bucket.timeRecordIds.push(entry.timeRecordId)
+      buckets.set(key, bucket)
+    }
+    return [...buckets.values()]
+  }
+
+  const totalMinutes = entries.reduce((sum, entry) => sum + entry.creditedMinutes, 0)
+  return {
+    totalMinutes,
+    totalHours: toHours(totalMinutes),
+    byRotation: group((entry) => entry.rotationId),
+    bySpecialty: group((entry) => entry.specialty),
+    bySite: group((entry) => entry.clinicalSiteId),
+  }
+}
+
+function toHoursPolicy(row: ClinicalHoursPolicy | undefined): HoursPolicy {
+  if (!row) return DEFAULT_HOURS_POLICY
+  return {
+    roundingIncrementMinutes: row.roundingIncrementMinutes,
+    roundingMode: row.roundingMode,
+    breakThresholdMinutes: row.breakThresholdMinutes,
+    breakDeductionMinutes: row.breakDeductionMinutes,
+    dailyCapMinutes: row.dailyCapMinutes,
+    weeklyCapMinutes: row.weeklyCapMinutes,
+    timezone: row.timezone,
+  }
+}
+
+export async function getHoursPolicy(schoolId: string): Promise<HoursPolicy> {
+  const [row] = await db
+    .select()
+    .from(clinicalHoursPolicies)
+    .where(eq(clinicalHoursPolicies.schoolId, schoolId))
+    .limit(1)
+  return toHoursPolicy(row)
+}
+
+const INSERT_CHUNK_SIZE = 500
+
+/**
+ * Rebuild the ledger and hour totals for the given students.
+ */
+export async function recomputeClinicalHours(studentIds: string[]) {
+  const ids = [...new Set(studentIds)].sort()
+  if (ids.length === 0) return 0
+
+  return db.transaction(async (tx) => {
+    // Serialize rebuilds per student so concurrent approvals cannot interleave
+    for (const id of ids) {
+      await tx.execute(sql`SELECT pg_advisory_xact_lock(hashtext(${`clinical-hours:${id}`}))`)
+    }
+
+    const students = await tx
+      .select({ id: users.id, schoolId: users.schoolId })
+      .from(users)
+      .where(inArray(users.id, ids))
+
+    const schoolIds = [
+      ...new Set(students.map((s) => s.schoolId).filter((id): id is string => !!id)),
+    ]
+    const policyRows =
+      schoolIds.length > 0
+        ? await tx
+            .select()
+            .from(clinicalHoursPolicies)
+            .where(inArray(clinicalHoursPolicies.schoolId, schoolIds))
+        : []
+
+    const records = await tx
+      .select({
+        id: timeRecords.id,
+        studentId: timeRecords.studentId,
+        rotationId: timeRecords.rotationId,
+        clinicalSiteId: rotations.clinicalSiteId,
+        specialty: rotations.specialty,
+        clockIn: timeRecords.clockIn,
+        clockOut: timeRecords.clockOut,
+        totalHours: timeRecords.totalHours,
+      })
+      .from(timeRecords)
+      .innerJoin(rotations, eq(timeRecords.rotationId, rotations.id))
+      .where(and(inArray(timeRecords.studentId, ids), eq(timeRecords.status, "APPROVED")))
+
+    const entries = students.flatMap((student) =>
+      computeLedgerEntries(
+        records.filter((record) => record.studentId === student.id),
+        toHoursPolicy(policyRows.find((row) => row.schoolId === student.schoolId))
+      )
+    )
+
+    await tx.delete(clinicalHoursLedger).where(inArray(clinicalHoursLedger.studentId, ids))
+    for (let i = 0; i < entries.length; i += INSERT_CHUNK_SIZE) {
+      await tx.insert(clinicalHoursLedger).values(entries.slice(i, i + INSERT_CHUNK_SIZE))
+    }
+
+    await tx
+      .update(rotations)
+      .set({
+        completedHours: sql`COALESCE((SELECT FLOOR(SUM(${clinicalHoursLedger.creditedMinutes}) / 60) FROM ${clinicalHoursLedger} WHERE ${clinicalHoursLedger.rotationId} = ${rotations.id}), 0)::int`,
+        updatedAt: new Date(),
+      })
+      .where(inArray(rotations.studentId, ids))
+
+    await tx
+      .update(users)
+      .set({
+        totalClinicalHours: sql`COALESCE((SELECT FLOOR(SUM(${clinicalHoursLedger.creditedMinutes}) / 60) FROM ${clinicalHoursLedger} WHERE ${clinicalHoursLedger.studentId} = ${users.id}), 0)::int`,
+      })
+      .where(inArray(users.id, ids))
+
+    return entries.length
+  })
+}
+
+/**
+ * Rebuild one student's hours after a time record changed. Failures are
+ * logged rather than thrown: the record change itself has already been saved
+ * and the next change or a recompute will bring the ledger up to date.
+ */
+export async function syncClinicalHours(studentId: string) {
+  try {
+    await recomputeClinicalHours([studentId])
+  } catch (error) {
+    logger.error({ err: error, studentId }, "Failed to update clinical hours ledger")
+  }
+}
+
+const SCHOOL_RECOMPUTE_BATCH = 200
+
+/**
+ * Rebuild hours for every student in a school, e.g. after its policy changed.
+ */
+export async function recomputeSchoolClinicalHours(schoolId: string) {
+  const students = await db
+    .select({ id: users.id })
+    .from(users)
+    .where(and(eq(users.schoolId, schoolId), eq(users.role, "STUDENT")))
+
+  let entries = 0
+  for (let i = 0; i < students.length; i += SCHOOL_RECOMPUTE_BATCH) {
+    entries += await recomputeClinicalHours(
+      students.slice(i, i + SCHOOL_RECOMPUTE_BATCH).map((s) => s.id)
+    )
+  }
+  return { students: students.length, entries }
+}
@@ -1,5 +1,5 @@
 import { type ClockInRequest, type ClockOutRequest, type ClockStatus } from "./clock-service"
-import { offlineQueue } from "./offline-queue"
+import { clockRequestHeaders, offlineQueue } from "./offline-queue"
 import { getTimeSyncService } from "./time-sync-service"
 import { logger } from "./client-logger"
 
@@ -21,13 +21,21 @@ export interface ClientClockInRequest {
     userAgent?: string
   }
   notes?: string
+  capturedAt?: string
+  // Reused for every attempt of this punch so the server applies it at most once
+  idempotencyKey?: string
 }
 
+export type ClientClockOutRequest = ClockOutRequest & { idempotencyKey?: string }
+
 export class ClockServiceClient {
   /**
    * Clock in a student
    */
   static async clockIn(request: ClientClockInRequest): Promise<ClockStatus> {
+    request.idempotencyKey ??= crypto.randomUUID()
+    request.capturedAt ??= getTimeSyncService().getCurrentTime().toISOString()
+
     try {
       // Check if online
       if (typeof navigator !== "undefined" && !navigator.onLine) {
@@ -40,12 +48,11 @@ export class ClockServiceClient {
         request.clientTimestamp = timeSync.getCurrentTime().toISOString()
       }
 
+      const { capturedAt: _capturedAt, idempotencyKey, ...body } = request
       const response = await fetch("/api/student/clock-in", {
         method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-        },
-        body: JSON.stringify(request),
+        headers: clockRequestHeaders(idempotencyKey as string),
+        body: JSON.stringify(body),
       })
 
       if (!response.ok) {
@@ -76,7 +83,10 @@ export class ClockServiceClient {
   /**
    * Clock out a student
    */
-  static async clockOut(request: ClockOutRequest): Promise<ClockStatus> {
+  static async clockOut(request: ClientClockOutRequest): Promise<ClockStatus> {
+    request.idempotencyKey ??= crypto.randomUUID()
+    request.capturedAt ??= getTimeSyncService().getCurrentTime().toISOString()
+
     try {
       // Check if online
       if (typeof navigator !== "undefined" && !navigator.onLine) {
@@ -89,12 +99,11 @@ export class ClockServiceClient {
         request.clientTimestamp = timeSync.getCurrentTime().toISOString()
       }
 
+      const { capturedAt: _capturedAt, idempotencyKey, ...body } = request
       const response = await fetch("/api/student/clock-out", {
         method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-        },
-        body: JSON.stringify(request),
+        headers: clockRequestHeaders(idempotencyKey as string),
+        body: JSON.stringify(body),
       })
 
       if (!response.ok) {
@@ -150,16 +159,20 @@ export class ClockServiceClient {
    * Handle offline clock-in operation
    */
   private static async handleOfflineClockIn(request: ClientClockInRequest): Promise<ClockStatus> {
-    const offlineTimestamp = new Date()
+    // The punch counts from when the student tapped, not from when the queue replays it
+    const offlineTimestamp = request.capturedAt ? new Date(request.capturedAt) : new Date()
+    const { idempotencyKey, ...data } = request
 
     // Queue the operation for when back online
     if (offlineQueue) {
       await offlineQueue.enqueue({
         type: "clock-in",
         data: {
-          ...request,
+          ...data,
+          capturedAt: offlineTimestamp.toISOString(),
           offlineTimestamp: offlineTimestamp.getTime(),
         },
+        idempotencyKey,
         timestamp: Date.now(),
         maxRetries: 3,
         priority: "high",
@@ -187,17 +200,20 @@ export class ClockServiceClient {
   /**
    * Handle offline clock-out operation
    */
-  private static async handleOfflineClockOut(request: ClockOutRequest): Promise<ClockStatus> {
-    const offlineTimestamp = new Date()
+  private static async handleOfflineClockOut(request: ClientClockOutRequest): Promise<ClockStatus> {
+    const offlineTimestamp = request.capturedAt ? new Date(request.capturedAt) : new Date()
+    const { idempotencyKey, ...data } = request
 
     // Queue the operation for when back online
     if (offlineQueue) {
       await offlineQueue.enqueue({
         type: "clock-out",
         data: {
-          ...request,
+          ...data,
+          capturedAt: offlineTimestamp.toISOString(),
           offlineTimestamp: offlineTimestamp.getTime(),
         },
+        idempotencyKey,
         timestamp: Date.now(),
         maxRetries: 3,
         priority: "high",
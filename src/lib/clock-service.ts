@@ -25,6 +25,9 @@ import {
 } from "./clock-validation"
 import { z } from "zod"
 import { logger } from "./logger"
+import { isReadOnlyStudent, READ_ONLY_MESSAGE } from "./payments/dunning"
+import { syncClinicalHours } from "./clinical-hours-ledger"
+import { emitTimeRecordApproved } from "./webhooks"
 import crypto from "crypto"
 import {
   validateLocationWithGeofence,
@@ -38,6 +41,7 @@ export interface ClockInRequest {
   rotationId: string
   timestamp?: string
   clientTimestamp?: string // Client-side timestamp for drift detection
+  capturedAt?: string // When the punch was captured on the device, for operations queued offline
   location?: {
     latitude: number
     longitude: number
@@ -55,6 +59,7 @@ export interface ClockOutRequest {
   rotationId: string
   timestamp?: string
   clientTimestamp?: string // Client-side timestamp for drift detection
+  capturedAt?: string // When the punch was captured on the device, for operations queued offline
   location?: {
     latitude: number
     longitude: number
@@ -101,6 +106,63 @@ const DEFAULT_TIME_VALIDATION: TimeValidationConfig = {
   requireSync: true,
 }
 
+// Offline punches older than this are not trusted and fall back to server time
+const DEFAULT_OFFLINE_CAPTURE_MAX_AGE_HOURS = 24
+
+function getOfflineCaptureMaxAgeMs() {
+  const hours = Number(process.env.OFFLINE_CLOCK_MAX_AGE_HOURS)
+  const maxAgeHours =
+    Number.isFinite(hours) && hours > 0 ? hours : DEFAULT_OFFLINE_CAPTURE_MAX_AGE_HOURS
+  return maxAgeHours * 60 * 60 * 1000
+}
+
+/**
+ * Resolve the time a punch was captured on the device. The device clock may
+ * be off, so when the send-time clientTimestamp shows drift beyond the normal
+ * tolerance the capture time is shifted by the same amount.
+ */
+export function resolveCapturedTime(
+  capturedAt: string,
+  clientTimestamp: string | undefined,
+  serverTime: Date,
+  maxAgeMs: number = getOfflineCaptureMaxAgeMs(),
+  config: TimeValidationConfig = DEFAULT_TIME_VALIDATION
+): { capturedTime: Date; warnings: string[] } {
+  const warnings: string[] = []
+  let capturedTime = new Date(capturedAt)
+
+  if (Number.isNaN(capturedTime.getTime())) {
+    throw createValidationError("Invalid capture timestamp", "capturedAt", capturedAt)
+  }
+
+  const clientTime = clientTimestamp ? new Date(clientTimestamp) : null
+  if (clientTime && !Number.isNaN(clientTime.getTime())) {
+    const offset = serverTime.getTime() - clientTime.getTime()
+    if (Math.abs(offset) > config.maxDriftMs) {
+      capturedTime = new Date(capturedTime.getTime() + offset)
+      warnings.push(`Capture time corrected for device clock drift: ${offset}ms`)
+    }
+  }
+
+  const age = serverTime.getTime() - capturedTime.getTime()
+  if (age < -config.maxFutureMs) {
+    throw createValidationError(
+      `Capture timestamp is in the future: ${Math.abs(age)}ms`,
+      "capturedAt",
+      capturedTime.toISOString()
+    )
+  }
+  if (age > maxAgeMs) {
+    throw createValidationError(
+      `Capture timestamp is older than the offline limit: ${Math.round(age / 60000)} minutes`,
+      "capturedAt",
+      capturedTime.toISOString()
+    )
+  }
+
+  return { capturedTime, warnings }
+}
+
 export class ClockService {
   /**
    * Validate timestamp against server time with drift detection
@@ -179,6 +241,17 @@ export class ClockService {
     }
   }
 
+  /**
+   * Capture time of an offline punch, in the same shape as validateTimestamp
+   */
+  private static resolveCapturedTime(
+    capturedAt: string,
+    clientTimestamp?: string
+  ): { validatedTime: Date; warnings: string[] } {
+    const { capturedTime, warnings } = resolveCapturedTime(capturedAt, clientTimestamp, new Date())
+    return { validatedTime: capturedTime, warnings }
+  }
+
   /**
    * Get server time for synchronization
    */
@@ -205,6 +278,7 @@ export class ClockService {
   private static async validateClockIn(request: ClockInRequest): Promise<{
     validatedData: any
     validatedTime: Date
+    syncedAt: Date | null
     systemFlags: string[]
     locationValidationResult?: LocationValidationResult
   }> {
@@ -219,6 +293,11 @@ export class ClockService {
       throw createValidationError("Rotation ID is required", "rotationId", "REQUIRED_FIELD")
     }
 
+    // Lapsed subscriptions are read-only; clocking out of an open shift stays allowed
+    if (await isReadOnlyStudent(request.studentId)) {
+      throw createBusinessLogicError(READ_ONLY_MESSAGE, "SUBSCRIPTION_READ_ONLY")
+    }
+
     // Validate location - SOFT VALIDATION
     if (request.location) {
       try {
@@ -242,11 +321,11 @@ export class ClockService {
 
     // Validate and synchronize timestamp - SOFT VALIDATION
     let validatedTime = new Date()
+    const syncedAt = request.capturedAt ? validatedTime : null
     try {
-      const timeValidation = await ClockService.validateTimestamp(
-        request.clientTimestamp,
-        request.timestamp
-      )
+      const timeValidation = request.capturedAt
+        ? ClockService.resolveCapturedTime(request.capturedAt, request.clientTimestamp)
+        : await ClockService.validateTimestamp(request.clientTimestamp, request.timestamp)
       validatedTime = timeValidation.validatedTime
 
       if (timeValidation.warnings && timeValidation.warnings.length > 0) {
@@ -351,7 +430,7 @@ export class ClockService {
         : flagsText
     }
 
-    return { validatedData, validatedTime, systemFlags, locationValidationResult }
+    return { validatedData, validatedTime, syncedAt, systemFlags, locationValidationResult }
   }
 
   /**
@@ -360,6 +439,7 @@ export class ClockService {
   private static async validateClockOut(request: ClockOutRequest): Promise<{
     validatedData: any
     validatedTime: Date
+    syncedAt: Date | null
     systemFlags: string[]
     locationValidationResult?: LocationValidationResult
   }> {
@@ -397,11 +477,11 @@ export class ClockService {
 
     // Validate and synchronize timestamp - SOFT VALIDATION
     let validatedTime = new Date()
+    const syncedAt = request.capturedAt ? validatedTime : null
     try {
-      const timeValidation = await ClockService.validateTimestamp(
-        request.clientTimestamp,
-        request.timestamp
-      )
+      const timeValidation = request.capturedAt
+        ? ClockService.resolveCapturedTime(request.capturedAt, request.clientTimestamp)
+        : await ClockService.validateTimestamp(request.clientTimestamp, request.timestamp)
       validatedTime = timeValidation.validatedTime
 
       if (timeValidation.warnings && timeValidation.warnings.length > 0) {
@@ -525,7 +605,7 @@ export class ClockService {
         : flagsText
     }
 
-    return { validatedData, validatedTime, systemFlags }
+    return { validatedData, validatedTime, syncedAt, systemFlags }
   }
 
   /**
@@ -547,7 +627,7 @@ export class ClockService {
     try {
       logger.info({ operationId, studentId: request.studentId }, "Clock-in operation started")
 
-      const { validatedData, validatedTime, systemFlags, locationValidationResult } =
+      const { validatedData, validatedTime, syncedAt, systemFlags, locationValidationResult } =
         await ClockService.validateClockIn(request)
 
       // Execute atomic clock-in operation with retry
@@ -560,7 +640,8 @@ export class ClockService {
             request.ipAddress,
             request.userAgent,
             request.locationSource,
-            locationValidationResult
+            locationValidationResult,
+            syncedAt
           ),
         3,
         1000,
@@ -647,7 +728,7 @@ export class ClockService {
     try {
       logger.info({ operationId, studentId: request.studentId }, "Clock-out operation started")
 
-      const { validatedData, validatedTime, systemFlags, locationValidationResult } =
+      const { validatedData, validatedTime, syncedAt, systemFlags, locationValidationResult } =
         await ClockService.validateClockOut(request)
 
       // Execute atomic clock-out operation with retry
@@ -660,13 +741,18 @@ export class ClockService {
             request.ipAddress,
             request.userAgent,
             request.locationSource,
-            locationValidationResult
+            locationValidationResult,
+            syncedAt
           ),
         3,
         1000,
         (error) => error instanceof ClockError && error.retryable
       )
 
+      // Clean clock-outs are auto-approved and count toward the student's hours
+      await syncClinicalHours(request.studentId)
+      if (result.recordId) await emitTimeRecordApproved(result.recordId)
+
       logger.info(
         {
           operationId,
@@ -795,7 +881,8 @@ export class ClockService {
     ipAddress?: string,
     userAgent?: string,
     locationSource?: "gps" | "network" | "manual",
-    locationValidationResult?: LocationValidationResult
+    locationValidationResult?: LocationValidationResult,
+    syncedAt?: Date | null
   ): Promise<ClockStatus> {
     return await dbCircuitBreaker.execute(async () => {
       try {
@@ -837,6 +924,7 @@ export class ClockService {
               clockInIpAddress: ipAddress ?? null,
               clockInUserAgent: userAgent ?? null,
               clockInSource: locationSource ?? "manual",
+              clockInSyncedAt: syncedAt ?? null,
             })
             .returning({ id: timeRecords.id })
 
@@ -887,7 +975,8 @@ export class ClockService {
     ipAddress?: string,
     userAgent?: string,
     locationSource?: "gps" | "network" | "manual",
-    locationValidationResult?: LocationValidationResult
+    locationValidationResult?: LocationValidationResult,
+    syncedAt?: Date | null
   ): Promise<ClockStatus> {
     return await dbCircuitBreaker.execute(async () => {
       return await db.transaction(async (tx) => {
@@ -926,6 +1015,15 @@ export class ClockService {
 
         // Use targeted SQL update to avoid referencing columns that may not exist in Neon
         const clockInTime = new Date(activeRecord.clockIn)
+
+        // An offline clock-out can carry a capture time from before the session began
+        if (validatedTime.getTime() <= clockInTime.getTime()) {
+          throw createBusinessLogicError(
+            "Clock-out time must be after clock-in time",
+            "INVALID_CLOCK_OUT_TIME",
+            { recordId: activeRecord.id, clockIn: clockInTime.toISOString() }
+          )
+        }
         const totalHoursValue = (
           (validatedTime.getTime() - clockInTime.getTime()) /
           (1000 * 60 * 60)
@@ -948,6 +1046,7 @@ export class ClockService {
             clockOutIpAddress: ipAddress ?? null,
             clockOutUserAgent: userAgent ?? null,
             clockOutSource: locationSource ?? "manual",
+            clockOutSyncedAt: syncedAt ?? null,
           })
           .where(eq(timeRecords.id, activeRecord.id))
           .returning({ id: timeRecords.id })
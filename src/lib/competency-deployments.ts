@@ -0,0 +1,768 @@
+import { and, count, desc, eq, inArray, lte, notExists, or, type SQL } from "drizzle-orm"
+import { db } from "@/database/connection-pool"
+import {
+  type Competency,
+  type CompetencyDeployment,
+  competencies,
+  competencyAssignments,
+  competencyDeployments,
+  competencyTemplates,
+  competencyVersions,
+  evaluations,
+  importExportLogs,
+  rubricCriteria,
+  users,
+} from "@/database/schema"
+import { logger } from "@/lib/logger"
+import { sendNotificationToUsers } from "@/lib/notification-service"
+
+/**
+ * Versioned competency publishing. Every edit snapshots the previous content
+ * into competency_versions, so a revision can always be restored. Deployments
+ * push a competency (or a fresh copy of a template) to programs or individual
+ * students as competency_assignments, optionally from a future effective date
+ * until an expiry date, which is also when its assignments are due. Expiry
+ * stops new assignments and keeps the existing ones, now overdue if unfinished.
+ * Rolling a deployment back withdraws the assignments students have not
+ * started and keeps any work already done.
+ */
+
+type Tx = Parameters<Parameters<typeof db.transaction>[0]>[0]
+
+export const VERSIONED_FIELDS = [
+  "name",
+  "description",
+  "category",
+  "level",
+  "isRequired",
+  "programId",
+  "criteria",
+] as const
+
+type VersionedField = (typeof VERSIONED_FIELDS)[number]
+
+export type CompetencySnapshot = Pick<Competency, VersionedField | "version">
+export type CompetencyChanges = Partial<Pick<Competency, VersionedField>>
+
+/**
+ * Next minor version: "1.0" becomes "1.1", "2" becomes "2.1".
+ */
+export function bumpVersion(version: string | null) {
+  const match = /^(\d+)(?:\.(\d+))?$/.exec(version?.trim() ?? "")
+  if (!match) return "1.1"
+  return `${match[1]}.${Number(match[2] ?? 0) + 1}`
+}
+
+export function snapshotCompetency(competency: Competency): CompetencySnapshot {
+  return {
+    name: competency.name,
+    description: competency.description,
+    category: competency.category,
+    level: competency.level,
+    isRequired: competency.isRequired,
+    programId: competency.programId,
+    criteria: competency.criteria,
+    version: competency.version,
+  }
+}
+
+/**
+ * Versioned fields the change actually alters.
+ */
+export function changedFields(current: CompetencySnapshot, changes: CompetencyChanges) {
+  return VERSIONED_FIELDS.filter(
+    (field) => changes[field] !== undefined && changes[field] !== current[field]
+  )
+}
+
+export type CompetencyEditResult =
+  | { ok: true; competency: Competency; versioned: boolean }
+  | { ok: false; reason: "not_found" }
+
+/**
+ * Edit a competency, first saving its current content as a version. Edits
+ * that change nothing do not create a version.
+ */
+export async function updateCompetencyVersioned(
+  competencyId: string,
+  changes: CompetencyChanges,
+  userId: string,
+  changesSummary?: string
+): Promise<CompetencyEditResult> {
+  return db.transaction(async (tx): Promise<CompetencyEditResult> => {
+    const [current] = await tx
+      .select()
+      .from(competencies)
+      .where(eq(competencies.id, competencyId))
+      .for("update")
+    if (!current) return { ok: false, reason: "not_found" }
+
+    const changed = changedFields(current, changes)
+    if (changed.length === 0) return { ok: true, competency: current, versioned: false }
+
+    await tx.insert(competencyVersions).values({
+      id: crypto.randomUUID(),
+      competencyId,
+      versionNumber: current.version ?? "1.0",
+      changesSummary: changesSummary || `Changed ${changed.join(", ")}`,
+      previousData: JSON.stringify(snapshotCompetency(current)),
+      createdBy: userId,
+    })
+
+    const [competency] = await tx
+      .update(competencies)
+      .set({
+        ...Object.fromEntries(changed.map((field) => [field, changes[field]])),
+        version: bumpVersion(current.version),
+        updatedAt: new Date(),
+      })
+      .where(eq(competencies.id, competencyId))
+      .returning()
+
+    return { ok: true, competency, versioned: true }
+  })
+}
+
+export async function listCompetencyVersions(competencyId: string) {
+  return db
+    .select()
+    .from(competencyVersions)
+    .where(eq(competencyVersions.competencyId, competencyId))
+    .orderBy(desc(competencyVersions.createdAt))
+}
+
+/**
+ * Bring back the content of an earlier version. The restore is itself a new
+ * version, so the content it replaces can be restored in turn.
+ */
+export async function restoreCompetencyVersion(
+  versionId: string,
+  userId: string
+): Promise<CompetencyEditResult> {
+  const [version] = await db
+    .select()
+    .from(competencyVersions)
+    .where(eq(competencyVersions.id, versionId))
+    .limit(1)
+  if (!version) return { ok: false, reason: "not_found" }
+
+  const snapshot = JSON.parse(version.previousData) as CompetencySnapshot
+  const changes = Object.fromEntries(
+    VERSIONED_FIELDS.filter((field) => field in snapshot).map((field) => [field, snapshot[field]])
+  ) as CompetencyChanges
+
+  return updateCompetencyVersioned(
+    version.competencyId,
+    changes,
+    userId,
+    `Restored version ${version.versionNumber}`
+  )
+}
+
+export interface DeploymentInput {
+  schoolId: string
+  deployedBy: string
+  competencyId?: string
+  templateId?: string
+  targetPrograms: string[]
+  targetUsers: string[]
+  effectiveDate?: Date | null
+  expiryDate?: Date | null
+  notes?: string | null
+}
+
+interface DeploymentRollbackData {
+  // Competency version the deployment published
+  competencyVersion: string | null
+  createdFromTemplate: boolean
+  rolledBackAt?: string
+  rolledBackBy?: string
+  reason?: string | null
+  withdrawnAssignments?: number
+  retainedAssignments?: number
+}
+
+export type DeploymentResult =
+  | { ok: true; deployment: CompetencyDeployment; assigned: number }
+  | {
+      ok: false
+      reason: "competency_not_found" | "template_not_found" | "no_targets" | "invalid_schedule"
+    }
+
+export type DeploymentTargets = Pick<CompetencyDeployment, "targetPrograms" | "targetUsers">
+
+function parseIds(value: string | null): string[] {
+  if (!value) return []
+  try {
+    const parsed = JSON.parse(value)
+    return Array.isArray(parsed) ? parsed.filter((id) => typeof id === "string") : []
+  } catch {
+    return []
+  }
+}
+
+function parseRollbackData(value: string | null): DeploymentRollbackData {
+  try {
+    return { competencyVersion: null, createdFromTemplate: false, ...JSON.parse(value ?? "{}") }
+  } catch {
+    return { competencyVersion: null, createdFromTemplate: false }
+  }
+}
+
+export function deploymentTargets(deployment: DeploymentTargets) {
+  return {
+    programs: parseIds(deployment.targetPrograms),
+    users: parseIds(deployment.targetUsers),
+  }
+}
+
+/**
+ * Whether a deployment starts active or waits for its effective date.
+ */
+export function initialDeploymentStatus(effectiveDate: Date | null | undefined, now: Date) {
+  return effectiveDate && effectiveDate > now ? "PENDING" : "ACTIVE"
+}
+
+/**
+ * A new competency from a template, with the template's rubric criteria.
+ */
+async function competencyFromTemplate(
+  tx: Tx,
+  templateId: string,
+  input: DeploymentInput
+): Promise<Competency | null> {
+  const [template] = await tx
+    .select({ template: competencyTemplates, creatorSchoolId: users.schoolId })
+    .from(competencyTemplates)
+    .leftJoin(users, eq(users.id, competencyTemplates.createdBy))
+    .where(and(eq(competencyTemplates.id, templateId), eq(competencyTemplates.isActive, true)))
+    .limit(1)
+  if (!template) return null
+  if (!template.template.isPublic && template.creatorSchoolId !== input.schoolId) return null
+
+  const content = (() => {
+    try {
+      return JSON.parse(template.template.content ?? "{}") as { criteria?: unknown }
+    } catch {
+      return {}
+    }
+  })()
+
+  const [competency] = await tx
+    .insert(competencies)
+    .values({
+      id: crypto.randomUUID(),
+      name: template.template.name,
+      description: template.template.description,
+      category: template.template.category,
+      level: template.template.level,
+      criteria: Array.isArray(content.criteria) ? JSON.stringify(content.criteria) : null,
+      templateId,
+      schoolId: input.schoolId,
+      version: template.template.version,
+      source: "TEMPLATE",
+      deploymentScope: input.targetPrograms.length > 0 ? "PROGRAM_SPECIFIC" : "USER_SPECIFIC",
+      createdBy: input.deployedBy,
+    })
+    .returning()
+
+  const criteria = await tx
+    .select()
+    .from(rubricCriteria)
+    .where(eq(rubricCriteria.templateId, templateId))
+  if (criteria.length > 0) {
+    await tx.insert(rubricCriteria).values(
+      criteria.map((criterion) => ({
+        ...criterion,
+        id: crypto.randomUUID(),
+        competencyId: competency.id,
+        templateId: null,
+        createdAt: new Date(),
+        updatedAt: new Date(),
+      }))
+    )
+  }
+
+  return competency
+}
+
+const ASSIGNMENT_BATCH_SIZE = 500
+
+/**
+ * Assign the deployment's competency to its target students who do not
+ * already have it. Only active students of the deploying school are assigned.
+ */
+async function createAssignments(
+  tx: Tx,
+  deployment: CompetencyDeployment,
+  competency: Pick<Competency, "id" | "isRequired">
+): Promise<string[]> {
+  const targets = deploymentTargets(deployment)
+  const matches: SQL[] = []
+  if (targets.programs.length > 0) matches.push(inArray(users.programId, targets.programs))
+  if (targets.users.length > 0) matches.push(inArray(users.id, targets.users))
+  if (matches.length === 0) return []
+
+  const students = await tx
+    .select({ id: users.id, programId: users.programId })
+    .from(users)
+    .where(
+      and(
+        eq(users.schoolId, deployment.schoolId),
+        eq(users.role, "STUDENT"),
+        eq(users.isActive, true),
+        or(...matches),
+        notExists(
+          tx
+            .select({ id: competencyAssignments.id })
+            .from(competencyAssignments)
+            .where(
+              and(
+                eq(competencyAssignments.userId, users.id),
+                eq(competencyAssignments.competencyId, competency.id)
+              )
+            )
+        )
+      )
+    )
+
+  const now = new Date()
+  for (let i = 0; i < students.length; i += ASSIGNMENT_BATCH_SIZE) {
+    await tx.insert(competencyAssignments).values(
+      students.slice(i, i + ASSIGNMENT_BATCH_SIZE).map((student) => ({
+        id: crypto.randomUUID(),
+        userId: student.id,
+        competencyId: competency.id,
+        deploymentId: deployment.id,
+        programId: student.programId,
+        assignedBy: deployment.deployedBy,
+        assignmentType: competency.isRequired ? ("REQUIRED" as const) : ("OPTIONAL" as const),
+        status: "ASSIGNED" as const,
+        // Assignments are due when the deployment expires
+        dueDate: deployment.expiryDate,
+        createdAt: now,
+        updatedAt: now,
+      }))
+    )
+  }
+
+  await tx
+    .update(competencies)
+    .set({ isDeployed: true, updatedAt: now })
+    .where(eq(competencies.id, competency.id))
+
+  return students.map((student) => student.id)
+}
+
+async function notifyAssigned(userIds: string[], competencyName: string) {
+  if (userIds.length === 0) return
+  try {
+    await sendNotificationToUsers(userIds, {
+      title: "New competency assigned",
+      message: `${competencyName} has been added to your competencies.`,
+      type: "info",
+      actionUrl: "/dashboard/student/competencies",
+      actionText: "View Competencies",
+    })
+  } catch (error) {
+    logger.error({ err: error }, "Failed to notify students of competency assignment")
+  }
+}
+
+/**
+ * Deploy a competency, or a new copy of a template, to programs and students.
+ * Deployments with a future effective date are assigned when the schedule
+ * runs on that date.
+ */
+export async function deployCompetency(
+  input: DeploymentInput,
+  now: Date = new Date()
+): Promise<DeploymentResult> {
+  if (input.targetPrograms.length === 0 && input.targetUsers.length === 0) {
+    return { ok: false, reason: "no_targets" }
+  }
+  const startsAt = input.effectiveDate ?? now
+  if (input.expiryDate && input.expiryDate <= startsAt) {
+    return { ok: false, reason: "invalid_schedule" }
+  }
+
+  type Deployed =
+    | { ok: true; deployment: CompetencyDeployment; userIds: string[]; name: string }
+    | Extract<DeploymentResult, { ok: false }>
+
+  const result = await db.transaction(async (tx): Promise<Deployed> => {
+    let competency: Competency | null = null
+    if (input.templateId) {
+      competency = await competencyFromTemplate(tx, input.templateId, input)
+      if (!competency) return { ok: false, reason: "template_not_found" }
+    } else if (input.competencyId) {
+      ;[competency] = await tx
+        .select()
+        .from(competencies)
+        .where(
+          and(eq(competencies.id, input.competencyId), eq(competencies.schoolId, input.schoolId))
+        )
+        .limit(1)
+    }
+    if (!competency) return { ok: false, reason: "competency_not_found" }
+
+    const rollbackData: DeploymentRollbackData = {
+      competencyVersion: competency.version,
+      createdFromTemplate: Boolean(input.templateId),
+    }
+    const [deployment] = await tx
+      .insert(competencyDeployments)
+      .values({
+        id: crypto.randomUUID(),
+        schoolId: input.schoolId,
+        templateId: input.templateId ?? null,
+        competencyId: competency.id,
+        deploymentType: input.templateId ? "TEMPLATE_IMPORT" : "CUSTOM_CREATION",
+        status: initialDeploymentStatus(input.effectiveDate, now),
+        deployedBy: input.deployedBy,
+        deployedAt: now,
+        effectiveDate: input.effectiveDate ?? null,
+        expiryDate: input.expiryDate ?? null,
+        targetPrograms: JSON.stringify(input.targetPrograms),
+        targetUsers: JSON.stringify(input.targetUsers),
+        rollbackData: JSON.stringify(rollbackData),
+        notes: input.notes ?? null,
+      })
+      .returning()
+
+    const userIds =
+      deployment.status === "ACTIVE" ? await createAssignments(tx, deployment, competency) : []
+    return { ok: true, deployment, userIds, name: competency.name }
+  })
+  if (!result.ok) return result
+
+  await notifyAssigned(result.userIds, result.name)
+  return { ok: true, deployment: result.deployment, assigned: result.userIds.length }
+}
+
+/**
+ * Delete the deployment's assignments that no one has started. Assignments
+ * with progress or an evaluation are kept.
+ */
+async function withdrawUnstartedAssignments(tx: Tx, deploymentId: string) {
+  const withdrawn = await tx
+    .delete(competencyAssignments)
+    .where(
+      and(
+        eq(competencyAssignments.deploymentId, deploymentId),
+        eq(competencyAssignments.status, "ASSIGNED"),
+        notExists(
+          tx
+            .select({ id: evaluations.id })
+            .from(evaluations)
+            .where(eq(evaluations.assignmentId, competencyAssignments.id))
+        )
+      )
+    )
+    .returning({ userId: competencyAssignments.userId })
+
+  const [{ retained }] = await tx
+    .select({ retained: count() })
+    .from(competencyAssignments)
+    .where(eq(competencyAssignments.deploymentId, deploymentId))
+
+  return { withdrawn: withdrawn.map((row) => row.userId), retained }
+}
+
+/**
+ * Competencies stay marked as deployed while any other deployment is live.
+ */
+async function refreshDeployedFlag(tx: Tx, competencyId: string | null) {
+  if (!competencyId) return
+  const [live] = await tx
+    .select({ live: count() })
+    .from(competencyDeployments)
+    .where(
+      and(
+        eq(competencyDeployments.competencyId, competencyId),
+        inArray(competencyDeployments.status, ["PENDING", "ACTIVE"])
+      )
+    )
+  if (live.live === 0) {
+    await tx
+      .update(competencies)
+      .set({ isDeployed: false, updatedAt: new Date() })
+      .where(eq(competencies.id, competencyId))
+  }
+}
+
+export type RollbackResult =
+  | { ok: true; deployment: CompetencyDeployment; withdrawn: number; retained: number }
+  | { ok: false; reason: "not_found" | "already_rolled_back" }
+
+/**
+ * Roll a deployment back: unstarted assignments are withdrawn, started or
+ * completed ones are kept, and the deployment is archived with a record of
+ * what was undone.
+ */
+export async function rollbackDeployment(
+  deploymentId: string,
+  userId: string,
+  options: { schoolId?: string | null; reason?: string | null } = {}
+): Promise<RollbackResult> {
+  const result = await db.transaction(async (tx) => {
+    const [deployment] = await tx
+      .select()
+      .from(competencyDeployments)
+      .where(
+        and(
+          eq(competencyDeployments.id, deploymentId),
+          options.schoolId ? eq(competencyDeployments.schoolId, options.schoolId) : undefined
+        )
+      )
+      .for("update")
+    if (!deployment) return { ok: false as const, reason: "not_found" as const }
+    if (deployment.status === "ARCHIVED") {
+      return { ok: false as const, reason: "already_rolled_back" as const }
+    }
+
+    const { withdrawn, retained } = await withdrawUnstartedAssignments(tx, deploymentId)
+    const now = new Date()
+    const rollbackData: DeploymentRollbackData = {
+      ...parseRollbackData(deployment.rollbackData),
+      rolledBackAt: now.toISOString(),
+      rolledBackBy: userId,
+      reason: options.reason ?? null,
+      withdrawnAssignments: withdrawn.length,
+      retainedAssignments: retained,
+    }
+
+    const [updated] = await tx
+      .update(competencyDeployments)
+      .set({ status: "ARCHIVED", rollbackData: JSON.stringify(rollbackData), updatedAt: now })
+      .where(eq(competencyDeployments.id, deploymentId))
+      .returning()
+    await refreshDeployedFlag(tx, deployment.competencyId)
+
+    return { ok: true as const, deployment: updated, withdrawn, retained }
+  })
+  if (!result.ok) return result
+
+  if (result.withdrawn.length > 0) {
+    try {
+      await sendNotificationToUsers(result.withdrawn, {
+        title: "Competency assignment withdrawn",
+        message: "A competency assignment you had not started has been withdrawn by your program.",
+        type: "info",
+        actionUrl: "/dashboard/student/competencies",
+        actionText: "View Competencies",
+      })
+    } catch (error) {
+      logger.error({ err: error, deploymentId }, "Failed to notify students of withdrawal")
+    }
+  }
+
+  return {
+    ok: true,
+    deployment: result.deployment,
+    withdrawn: result.withdrawn.length,
+    retained: result.retained,
+  }
+}
+
+export interface DeploymentScheduleResult {
+  activated: number
+  assigned: number
+  expired: number
+}
+
+/**
+ * Activate deployments whose effective date has arrived and retire those past
+ * their expiry date. Expiry leaves the deployment inactive so it assigns no
+ * more students; assignments already made stay, since the expiry date is
+ * their due date.
+ */
+export async function runDeploymentSchedule(
+  now: Date = new Date()
+): Promise<DeploymentScheduleResult> {
+  const result: DeploymentScheduleResult = { activated: 0, assigned: 0, expired: 0 }
+
+  const due = await db
+    .select({ id: competencyDeployments.id })
+    .from(competencyDeployments)
+    .where(
+      and(
+        eq(competencyDeployments.status, "PENDING"),
+        lte(competencyDeployments.effectiveDate, now)
+      )
+    )
+
+  for (const { id } of due) {
+    try {
+      const activated = await db.transaction(async (tx) => {
+        const [deployment] = await tx
+          .select()
+          .from(competencyDeployments)
+          .where(and(eq(competencyDeployments.id, id), eq(competencyDeployments.status, "PENDING")))
+          .for("update")
+        if (!deployment?.competencyId) return null
+
+        const [competency] = await tx
+          .select()
+          .from(competencies)
+          .where(eq(competencies.id, deployment.competencyId))
+          .limit(1)
+        if (!competency) return null
+
+        await tx
+          .update(competencyDeployments)
+          .set({ status: "ACTIVE", updatedAt: now })
+          .where(eq(competencyDeployments.id, id))
+        return { userIds: await createAssignments(tx, deployment, competency), competency }
+      })
+      if (!activated) continue
+
+      result.activated++
+      result.assigned += activated.userIds.length
+      await notifyAssigned(activated.userIds, activated.competency.name)
+    } catch (error) {
+      logger.error({ err: error, deploymentId: id }, "Failed to activate competency deployment")
+    }
+  }
+
+  const expired = await db
+    .select({ id: competencyDeployments.id })
+    .from(competencyDeployments)
+    .where(
+      and(eq(competencyDeployments.status, "ACTIVE"), lte(competencyDeployments.expiryDate, now))
+    )
+
+  for (const { id } of expired) {
+    try {
+      const expiredNow = await db.transaction(async (tx) => {
+        const [deployment] = await tx
+          .update(competencyDeployments)
+          .set({ status: "INACTIVE", updatedAt: now })
+          .where(and(eq(competencyDeployments.id, id), eq(competencyDeployments.status, "ACTIVE")))
+          .returning()
+        if (!deployment) return false
+
+        await refreshDeployedFlag(tx, deployment.competencyId)
+        return true
+      })
+      if (expiredNow) result.expired++
+    } catch (error) {
+      logger.error({ err: error, deploymentId: id }, "Failed to expire competency deployment")
+    }
+  }
+
+  logger.info(result, "Competency deployment schedule completed")
+  return result
+}
+
+export interface DeploymentSummary {
+  id: string
+  competencyId: string | null
+  name: string | null
+  status: CompetencyDeployment["status"]
+  deployedAt: Date
+  effectiveDate: Date | null
+  expiryDate: Date | null
+  assigned: number
+  completed: number
+  targetPrograms: string[]
+  targetUsers: string[]
+}
+
+export interface DeploymentOverview {
+  activeDeployments: number
+  totalAssignments: number
+  completionRate: number
+  pendingImports: number
+  deployments: DeploymentSummary[]
+}
+
+/**
+ * Deployment counts and the most recent deployments of a school.
+ */
+export async function getDeploymentOverview(
+  schoolId: string,
+  limit = 20
+): Promise<DeploymentOverview> {
+  const deployments = await db
+    .select({
+      id: competencyDeployments.id,
+      competencyId: competencyDeployments.competencyId,
+      name: competencies.name,
+      status: competencyDeployments.status,
+      deployedAt: competencyDeployments.deployedAt,
+      effectiveDate: competencyDeployments.effectiveDate,
+      expiryDate: competencyDeployments.expiryDate,
+      targetPrograms: competencyDeployments.targetPrograms,
+      targetUsers: competencyDeployments.targetUsers,
+    })
+    .from(competencyDeployments)
+    .leftJoin(competencies, eq(competencies.id, competencyDeployments.competencyId))
+    .where(eq(competencyDeployments.schoolId, schoolId))
+    .orderBy(desc(competencyDeployments.deployedAt))
+    .limit(limit)
+
+  const progress = await db
+    .select({
+      deploymentId: competencyAssignments.deploymentId,
+      status: competencyAssignments.status,
+      total: count(),
+    })
+    .from(competencyAssignments)
+    .innerJoin(
+      competencyDeployments,
+      eq(competencyDeployments.id, competencyAssignments.deploymentId)
+    )
+    .where(eq(competencyDeployments.schoolId, schoolId))
+    .groupBy(competencyAssignments.deploymentId, competencyAssignments.status)
+
+  const [active] = await db
+    .select({ total: count() })
+    .from(competencyDeployments)
+    .where(
+      and(eq(competencyDeployments.schoolId, schoolId), eq(competencyDeployments.status, "ACTIVE"))
+    )
+
+  const [pendingImports] = await db
+    .select({ total: count() })
+    .from(importExportLogs)
+    .where(
+      and(
+        eq(importExportLogs.schoolId, schoolId),
+        eq(importExportLogs.operationType, "IMPORT"),
+        inArray(importExportLogs.status, ["PENDING", "PROCESSING"])
+      )
+    )
+
+  const byDeployment = new Map<string, { assigned: number; completed: number }>()
+  let totalAssignments = 0
+  let completedAssignments = 0
+  for (const row of progress) {
+    if (!row.deploymentId) continue
+    const entry = byDeployment.get(row.deploymentId) ?? { assigned: 0, completed: 0 }
+    entry.assigned += row.total
+    totalAssignments += row.total
+    if (row.status === "COMPLETED") {
+      entry.completed += row.total
+      completedAssignments += row.total
+    }
+    byDeployment.set(row.deploymentId, entry)
+  }
+
+  return {
+    activeDeployments: active?.total ?? 0,
+    totalAssignments,
+    completionRate:
+      totalAssignments > 0 ? Math.round((completedAssignments / totalAssignments) * 100) : 0,
+    pendingImports: pendingImports?.total ?? 0,
+    deployments: deployments.map((deployment) => {
+      const targets = deploymentTargets(deployment)
+      return {
+        ...deployment,
+        ...(byDeployment.get(deployment.id) ?? { assigned: 0, completed: 0 }),
+        targetPrograms: targets.programs,
+        targetUsers: targets.users,
+      }
+    }),
+  }
+}
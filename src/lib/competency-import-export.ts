@@ -0,0 +1,952 @@
+import { and, desc, eq } from "drizzle-orm"
+import Papa from "papaparse"
+import { z } from "zod"
+import { db } from "@/database/connection-pool"
+import {
+  competencies,
+  competencyRubrics,
+  competencyTemplates,
+  type ImportExportLog,
+  importExportLogs,
+  programs,
+  rubricCriteria,
+  users,
+} from "@/database/schema"
+import { updateCompetencyVersioned } from "@/lib/competency-deployments"
+import { logger } from "@/lib/logger"
+
+/**
+ * CSV and JSON import/export of a school's competencies, competency
+ * templates, rubric criteria and rubrics. Rows are matched to existing
+ * records by id or by a natural key (e.g. competency name and category) and
+ * updated in place, otherwise created. Every file is validated in full before
+ * anything is written, so a dry run reports exactly the errors a real import
+ * would. Imports and exports are recorded in import_export_logs together
+ * with the failing rows, which can be downloaded, fixed and imported again.
+ */
+
+export const TRANSFER_ENTITIES = [
+  "competencies",
+  "competency_templates",
+  "rubric_criteria",
+  "competency_rubrics",
+] as const
+export type TransferEntity = (typeof TRANSFER_ENTITIES)[number]
+
+export const TRANSFER_FORMATS = ["csv", "json"] as const
+export type TransferFormat = (typeof TRANSFER_FORMATS)[number]
+
+export const MAX_IMPORT_ROWS = 5000
+export const MAX_IMPORT_BYTES = 5 * 1024 * 1024
+// Stored error details are capped so a broken file cannot bloat the log
+const MAX_LOGGED_ERRORS = 1000
+const PROGRESS_INTERVAL = 25
+
+/**
+ * Columns of each entity, in file order. Imports accept the same columns.
+ */
+export const TRANSFER_COLUMNS: Record<TransferEntity, string[]> = {
+  competencies: [
+    "id",
+    "name",
+    "description",
+    "category",
+    "level",
+    "isRequired",
+    "programId",
+    "criteria",
+  ],
+  competency_templates: [
+    "id",
+    "name",
+    "description",
+    "category",
+    "level",
+    "type",
+    "content",
+    "tags",
+    "version",
+    "isActive",
+  ],
+  rubric_criteria: [
+    "id",
+    "competencyId",
+    "competency",
+    "criterionName",
+    "description",
+    "weight",
+    "maxScore",
+    "performanceLevels",
+    "orderIndex",
+  ],
+  competency_rubrics: [
+    "id",
+    "competencyId",
+    "competency",
+    "name",
+    "description",
+    "criteria",
+    "scoringScale",
+    "version",
+    "isActive",
+  ],
+}
+
+export interface RowError {
+  // 1-based position among the data rows of the file; 0 for the file itself
+  row: number
+  field?: string
+  message: string
+  values?: Record<string, string>
+}
+
+type RawRow = Record<string, unknown>
+type Cells = Record<string, string>
+
+export type ParseResult = { ok: true; rows: RawRow[] } | { ok: false; message: string }
+
+export function parseImportContent(content: string, format: TransferFormat): ParseResult {
+  const text = content.replace(/^﻿/, "")
+  if (format === "json") {
+    let parsed: unknown
+    try {
+      parsed = JSON.parse(text)
+    } catch {
+      return { ok: false, message: "The file is not valid JSON" }
+    }
+    const rows = Array.isArray(parsed) ? parsed : (parsed as { rows?: unknown } | null)?.rows
+    if (!Array.isArray(rows)) {
+      return { ok: false, message: "Expected a JSON array of records" }
+    }
+    if (rows.some((row) => !row || typeof row !== "object" || Array.isArray(row))) {
+      return { ok: false, message: "Every JSON record must be an object" }
+    }
+    return { ok: true, rows: rows as RawRow[] }
+  }
+
+  const result = Papa.parse<RawRow>(text, {
+    header: true,
+    skipEmptyLines: "greedy",
+    transformHeader: (header) => header.trim(),
+  })
+  const fatal = result.errors.find((error) => error.type === "Quotes")
+  if (fatal) {
+    return {
+      ok: false,
+      message: `Malformed CSV near row ${(fatal.row ?? 0) + 1}: ${fatal.message}`,
+    }
+  }
+  return { ok: true, rows: result.data }
+}
+
+/**
+ * A cell as trimmed text. Exports escape leading formula characters with an
+ * apostrophe, which is removed again here so files round-trip unchanged.
+ */
+function cellText(value: unknown): string | undefined {
+  if (value === undefined || value === null) return undefined
+  if (typeof value === "object") return JSON.stringify(value)
+  const text = String(value).trim()
+  if (text === "") return undefined
+  return /^'[=+\-@\t\r]/.test(text) ? text.slice(1) : text
+}
+
+function cellsOf(row: RawRow): Cells {
+  const cells: Cells = {}
+  for (const [key, value] of Object.entries(row)) {
+    const text = cellText(value)
+    if (text !== undefined) cells[key] = text
+  }
+  return cells
+}
+
+const LEVELS = ["FUNDAMENTAL", "INTERMEDIATE", "ADVANCED", "EXPERT"] as const
+
+const level = z.preprocess(
+  (value) => (typeof value === "string" ? value.toUpperCase() : value),
+  z.enum(LEVELS)
+)
+
+const flag = (fallback: boolean) =>
+  z
+    .string()
+    .optional()
+    .transform((value, ctx) => {
+      if (value === undefined) return fallback
+      const normalized = value.toLowerCase()
+      if (["true", "yes", "y", "1"].includes(normalized)) return true
+      if (["false", "no", "n", "0"].includes(normalized)) return false
+      ctx.addIssue({ code: "custom", message: "Expected true or false" })
+      return z.NEVER
+    })
+
+const json = (kind: "array" | "object" | "any") =>
+  z.string().refine(
+    (value) => {
+      try {
+        const parsed = JSON.parse(value)
+        if (kind === "array") return Array.isArray(parsed)
+        if (kind === "object") return parsed !== null && typeof parsed === "object"
+        return true
+      } catch {
+        return false
+      }
+    },
+    { message: kind === "any" ? "Expected JSON" : `Expected a JSON ${kind}` }
+  )
+
+const decimal = z.coerce.number().min(0).max(999).transform(String)
+
+const competencyRefs = {
+  competencyId: z.string().max(200).optional(),
+  competency: z.string().max(200).optional(),
+}
+
+const ROW_SCHEMAS = {
+  competencies: z.object({
+    id: z.string().max(200).optional(),
+    name: z.string().max(200),
+    description: z.string().max(5000),
+    category: z.string().max(200),
+    level,
+    isRequired: flag(false),
+    programId: z.string().max(200).optional(),
+    criteria: json("array").optional(),
+  }),
+  competency_templates: z.object({
+    id: z.string().max(200).optional(),
+    name: z.string().max(200),
+    description: z.string().max(5000),
+    category: z.string().max(200),
+    level,
+    type: z
+      .preprocess(
+        (value) => (typeof value === "string" ? value.toUpperCase() : value),
+        z.enum(["COMPETENCY", "RUBRIC"])
+      )
+      .default("COMPETENCY"),
+    content: json("object").optional(),
+    tags: json("array").optional(),
+    version: z.string().max(20).default("1.0"),
+    isActive: flag(true),
+  }),
+  rubric_criteria: z.object({
+    id: z.string().max(200).optional(),
+    ...competencyRefs,
+    criterionName: z.string().max(200),
+    description: z.string().max(5000),
+    weight: decimal.default("1.0"),
+    maxScore: decimal.default("5.0"),
+    performanceLevels: json("array"),
+    orderIndex: z.coerce.number().int().min(0).default(0),
+  }),
+  competency_rubrics: z.object({
+    id: z.string().max(200).optional(),
+    ...competencyRefs,
+    name: z.string().max(200),
+    description: z.string().max(5000).optional(),
+    criteria: json("any"),
+    scoringScale: json("any"),
+    version: z.string().max(20).default("1.0"),
+    isActive: flag(true),
+  }),
+}
+
+type RowValues<E extends TransferEntity> = z.output<(typeof ROW_SCHEMAS)[E]>
+
+export interface PlannedRow<E extends TransferEntity = TransferEntity> {
+  row: number
+  action: "create" | "update"
+  id: string
+  values: RowValues<E>
+  cells: Cells
+}
+
+export interface ImportPlan {
+  rows: PlannedRow[]
+  errors: RowError[]
+}
+
+const keyOf = (...parts: string[]) => parts.map((part) => part.trim().toLowerCase()).join("|")
+
+/**
+ * Records of the school that imported rows can match, by id and by natural key.
+ */
+interface ExistingRecords {
+  ids: Set<string>
+  byKey: Map<string, string[]>
+}
+
+function indexRecords<T extends { id: string }>(records: T[], key: (record: T) => string) {
+  const index: ExistingRecords = { ids: new Set(), byKey: new Map() }
+  for (const record of records) {
+    index.ids.add(record.id)
+    const k = key(record)
+    index.byKey.set(k, [...(index.byKey.get(k) ?? []), record.id])
+  }
+  return index
+}
+
+async function schoolCompetencies(schoolId: string) {
+  return db
+    .select({ id: competencies.id, name: competencies.name, category: competencies.category })
+    .from(competencies)
+    .where(eq(competencies.schoolId, schoolId))
+}
+
+/**
+ * Load what an import of the entity can match against within the school.
+ */
+async function loadExisting(entity: TransferEntity, schoolId: string) {
+  const school = await schoolCompetencies(schoolId)
+  const competencyIndex = indexRecords(school, (c) => keyOf(c.name))
+  const schoolPrograms = await db
+    .select({ id: programs.id })
+    .from(programs)
+    .where(eq(programs.schoolId, schoolId))
+  const programIds = new Set(schoolPrograms.map((program) => program.id))
+
+  switch (entity) {
+    case "competencies":
+      return {
+        records: indexRecords(school, (c) => keyOf(c.name, c.category)),
+        competencyIndex,
+        programIds,
+      }
+    case "competency_templates": {
+      // Templates belong to a school through the user who created them
+      const templates = await db
+        .select({
+          id: competencyTemplates.id,
+          name: competencyTemplates.name,
+          version: competencyTemplates.version,
+        })
+        .from(competencyTemplates)
+        .innerJoin(users, eq(users.id, competencyTemplates.createdBy))
+        .where(eq(users.schoolId, schoolId))
+      return {
+        records: indexRecords(templates, (t) => keyOf(t.name, t.version)),
+        competencyIndex,
+        programIds,
+      }
+    }
+    case "rubric_criteria": {
+      const criteria = await db
+        .select({
+          id: rubricCriteria.id,
+          competencyId: rubricCriteria.competencyId,
+          criterionName: rubricCriteria.criterionName,
+        })
+        .from(rubricCriteria)
+        .innerJoin(competencies, eq(competencies.id, rubricCriteria.competencyId))
+        .where(eq(competencies.schoolId, schoolId))
+      return {
+        records: indexRecords(criteria, (c) => keyOf(c.competencyId ?? "", c.criterionName)),
+        competencyIndex,
+        programIds,
+      }
+    }
+    case "competency_rubrics": {
+      const rubrics = await db
+        .select({
+          id: competencyRubrics.id,
+          competencyId: competencyRubrics.competencyId,
+          name: competencyRubrics.name,
+        })
+        .from(competencyRubrics)
+        .where(eq(competencyRubrics.schoolId, schoolId))
+      return {
+        records: indexRecords(rubrics, (r) => keyOf(r.competencyId, r.name)),
+        competencyIndex,
+        programIds,
+      }
+    }
+  }
+}
+
+type Existing = Awaited<ReturnType<typeof loadExisting>>
+
+function resolveCompetency(
+  values: { competencyId?: string; competency?: string },
+  index: ExistingRecords
+): { id: string } | { field: string; message: string } {
+  if (values.competencyId) {
+    return index.ids.has(values.competencyId)
+      ? { id: values.competencyId }
+      : { field: "competencyId", message: "No competency with this id in your school" }
+  }
+  if (!values.competency) {
+    return { field: "competency", message: "Provide competencyId or the competency name" }
+  }
+  const matches = index.byKey.get(keyOf(values.competency)) ?? []
+  if (matches.length === 1) return { id: matches[0] }
+  return {
+    field: "competency",
+    message:
+      matches.length === 0
+        ? "No competency with this name in your school"
+        : `${matches.length} competencies have this name; use competencyId instead`,
+  }
+}
+
+/**
+ * The natural key of a validated row, after resolving its competency.
+ */
+function naturalKey(
+  entity: TransferEntity,
+  values: RowValues<TransferEntity>,
+  existing: Existing
+): { key: string; competencyId?: string } | { field: string; message: string } {
+  switch (entity) {
+    case "competencies": {
+      const v = values as RowValues<"competencies">
+      if (v.programId && !existing.programIds.has(v.programId)) {
+        return { field: "programId", message: "No program with this id in your school" }
+      }
+      return { key: keyOf(v.name, v.category) }
+    }
+    case "competency_templates": {
+      const v = values as RowValues<"competency_templates">
+      return { key: keyOf(v.name, v.version) }
+    }
+    case "rubric_criteria": {
+      const v = values as RowValues<"rubric_criteria">
+      const competency = resolveCompetency(v, existing.competencyIndex)
+      if (!("id" in competency)) return competency
+      return { key: keyOf(competency.id, v.criterionName), competencyId: competency.id }
+    }
+    case "competency_rubrics": {
+      const v = values as RowValues<"competency_rubrics">
+      const competency = resolveCompetency(v, existing.competencyIndex)
+      if (!("id" in competency)) return competency
+      return { key: keyOf(competency.id, v.name), competencyId: competency.id }
+    }
+  }
+}
+
+/**
+ * Validate every row and decide whether it creates or updates a record,
+ * without writing anything.
+ */
+export function planImport(entity: TransferEntity, rows: RawRow[], existing: Existing): ImportPlan {
+  const plan: ImportPlan = { rows: [], errors: [] }
+  const seen = new Map<string, number>()
+
+  rows.forEach((raw, index) => {
+    const row = index + 1
+    const cells = cellsOf(raw)
+    const fail = (message: string, field?: string) =>
+      plan.errors.push({ row, field, message, values: cells })
+
+    const parsed = ROW_SCHEMAS[entity].safeParse(cells)
+    if (!parsed.success) {
+      for (const issue of parsed.error.issues) {
+        const field = issue.path.join(".") || undefined
+        fail(
+          issue.code === "invalid_type" && cells[field ?? ""] === undefined
+            ? "Required"
+            : issue.message,
+          field
+        )
+      }
+      return
+    }
+
+    const values = parsed.data as RowValues<TransferEntity>
+    const key = naturalKey(entity, values, existing)
+    if ("message" in key) return fail(key.message, key.field)
+
+    // Later rows for the same record would silently overwrite earlier ones
+    const dedupeKey = values.id ? `id:${values.id}` : key.key
+    const firstRow = seen.get(dedupeKey)
+    if (firstRow !== undefined) return fail(`Duplicate of row ${firstRow}`)
+    seen.set(dedupeKey, row)
+
+    let id: string
+    let action: PlannedRow["action"]
+    if (values.id) {
+      if (!existing.records.ids.has(values.id)) {
+        return fail("No record with this id in your school", "id")
+      }
+      id = values.id
+      action = "update"
+    } else {
+      const matches = existing.records.byKey.get(key.key) ?? []
+      if (matches.length > 1) {
+        return fail(`Matches ${matches.length} existing records; include their id to update one`)
+      }
+      id = matches[0] ?? crypto.randomUUID()
+      action = matches.length === 1 ? "update" : "create"
+    }
+
+    const resolved =
+      key.competencyId !== undefined ? { ...values, competencyId: key.competencyId } : values
+    plan.rows.push({ row, action, id, values: resolved, cells })
+  })
+
+  return plan
+}
+
+interface ImportContext {
+  schoolId: string
+  userId: string
+}
+
+async function applyRow(entity: TransferEntity, planned: PlannedRow, ctx: ImportContext) {
+  const now = new Date()
+  switch (entity) {
+    case "competencies": {
+      const { id: _id, ...v } = planned.values as RowValues<"competencies">
+      const fields = { ...v, programId: v.programId ?? null, criteria: v.criteria ?? null }
+      if (planned.action === "update") {
+        const result = await updateCompetencyVersioned(
+          planned.id,
+          fields,
+          ctx.userId,
+          "Updated by import"
+        )
+        if (!result.ok) throw new Error("Competency no longer exists")
+        return
+      }
+      await db.insert(competencies).values({
+        ...fields,
+        id: planned.id,
+        schoolId: ctx.schoolId,
+        source: "CUSTOM",
+        deploymentScope: v.programId ? "PROGRAM_SPECIFIC" : "SCHOOL_WIDE",
+        createdBy: ctx.userId,
+      })
+      return
+    }
+    case "competency_templates": {
+      const { id: _id, ...v } = planned.values as RowValues<"competency_templates">
+      const fields = { ...v, content: v.content ?? null, tags: v.tags ?? null, updatedAt: now }
+      if (planned.action === "update") {
+        await db
+          .update(competencyTemplates)
+          .set(fields)
+          .where(eq(competencyTemplates.id, planned.id))
+        return
+      }
+      await db.insert(competencyTemplates).values({
+        ...fields,
+        id: planned.id,
+        isPublic: false,
+        source: "CUSTOM",
+        createdBy: ctx.userId,
+      })
+      return
+    }
+    case "rubric_criteria": {
+      const { id: _id, competency: _name, ...v } = planned.values as RowValues<"rubric_criteria">
+      const fields = { ...v, updatedAt: now }
+      if (planned.action === "update") {
+        await db.update(rubricCriteria).set(fields).where(eq(rubricCriteria.id, planned.id))
+        return
+      }
+      await db.insert(rubricCriteria).values({ ...fields, id: planned.id })
+      return
+    }
+    case "competency_rubrics": {
+      const {
+        id: _id,
+        competency: _name,
+        competencyId,
+        ...v
+      } = planned.values as RowValues<"competency_rubrics">
+      const fields = {
+        ...v,
+        competencyId: competencyId as string,
+        description: v.description ?? null,
+        updatedAt: now,
+      }
+      if (planned.action === "update") {
+        await db
+          .update(competencyRubrics)
+          .set(fields)
+          .where(
+            and(eq(competencyRubrics.id, planned.id), eq(competencyRubrics.schoolId, ctx.schoolId))
+          )
+        return
+      }
+      await db.insert(competencyRubrics).values({
+        ...fields,
+        id: planned.id,
+        schoolId: ctx.schoolId,
+        createdBy: ctx.userId,
+      })
+      return
+    }
+  }
+}
+
+export interface ImportInput extends ImportContext {
+  entity: TransferEntity
+  format: TransferFormat
+  fileName: string
+  content: string
+  dryRun: boolean
+}
+
+export interface ImportReport {
+  dryRun: boolean
+  logId: string | null
+  total: number
+  created: number
+  updated: number
+  failed: number
+  errors: RowError[]
+}
+
+export type ImportResult =
+  | { ok: true; report: ImportReport }
+  | { ok: false; reason: "unreadable" | "too_many_rows"; message: string; logId: string | null }
+
+async function recordFailedImport(input: ImportInput, message: string) {
+  if (input.dryRun) return null
+  const [log] = await db
+    .insert(importExportLogs)
+    .values({
+      id: crypto.randomUUID(),
+      schoolId: input.schoolId,
+      operationType: "IMPORT",
+      fileName: input.fileName,
+      fileSize: Buffer.byteLength(input.content),
+      status: "FAILED",
+      errorDetails: JSON.stringify([{ row: 0, message }] satisfies RowError[]),
+      processedBy: input.userId,
+      completedAt: new Date(),
+    })
+    .returning({ id: importExportLogs.id })
+  return log.id
+}
+
+/**
+ * Validate a file and, unless it is a dry run, write its valid rows. Rows
+ * are applied one at a time so one bad row does not undo the rest; the log
+ * is updated as the import progresses.
+ */
+export async function importCompetencyData(input: ImportInput): Promise<ImportResult> {
+  const parsed = parseImportContent(input.content, input.format)
+  if (!parsed.ok) {
+    return {
+      ok: false,
+      reason: "unreadable",
+      message: parsed.message,
+      logId: await recordFailedImport(input, parsed.message),
+    }
+  }
+  if (parsed.rows.length > MAX_IMPORT_ROWS) {
+    const message = `Files are limited to ${MAX_IMPORT_ROWS} rows; split this file of ${parsed.rows.length}`
+    return {
+      ok: false,
+      reason: "too_many_rows",
+      message,
+      logId: await recordFailedImport(input, message),
+    }
+  }
+
+  const existing = await loadExisting(input.entity, input.schoolId)
+  const plan = planImport(input.entity, parsed.rows, existing)
+  const failedRows = new Set(plan.errors.map((error) => error.row))
+  const report: ImportReport = {
+    dryRun: input.dryRun,
+    logId: null,
+    total: parsed.rows.length,
+    created: plan.rows.filter((row) => row.action === "create").length,
+    updated: plan.rows.filter((row) => row.action === "update").length,
+    failed: failedRows.size,
+    errors: plan.errors,
+  }
+  if (input.dryRun) return { ok: true, report }
+
+  const [log] = await db
+    .insert(importExportLogs)
+    .values({
+      id: crypto.randomUUID(),
+      schoolId: input.schoolId,
+      operationType: "IMPORT",
+      fileName: input.fileName,
+      fileSize: Buffer.byteLength(input.content),
+      status: "PROCESSING",
+      recordsProcessed: failedRows.size,
+      recordsFailed: failedRows.size,
+      processedBy: input.userId,
+    })
+    .returning({ id: importExportLogs.id })
+  report.logId = log.id
+
+  const errors = [...plan.errors]
+  let created = 0
+  let updated = 0
+  const progress = () =>
+    db
+      .update(importExportLogs)
+      .set({
+        recordsProcessed: failedRows.size + created + updated,
+        recordsSuccessful: created + updated,
+        recordsFailed: failedRows.size,
+      })
+      .where(eq(importExportLogs.id, log.id))
+
+  try {
+    for (const [index, planned] of plan.rows.entries()) {
+      try {
+        await applyRow(input.entity, planned, input)
+        if (planned.action === "create") created++
+        else updated++
+      } catch (error) {
+        logger.error({ err: error, logId: log.id, row: planned.row }, "Failed to import row")
+        failedRows.add(planned.row)
+        errors.push({ row: planned.row, message: "Could not be saved", values: planned.cells })
+      }
+      if ((index + 1) % PROGRESS_INTERVAL === 0) await progress()
+    }
+  } catch (error) {
+    // Without this the log would stay PROCESSING forever
+    logger.error({ err: error, logId: log.id }, "Import stopped before all rows were processed")
+    errors.push({ row: 0, message: "Import stopped before all rows were processed" })
+    await db
+      .update(importExportLogs)
+      .set({
+        status: "FAILED",
+        recordsProcessed: failedRows.size + created + updated,
+        recordsSuccessful: created + updated,
+        recordsFailed: failedRows.size,
+        errorDetails: JSON.stringify(errors.slice(-MAX_LOGGED_ERRORS)),
+        completedAt: new Date(),
+      })
+      .where(eq(importExportLogs.id, log.id))
+      .catch((err) => logger.error({ err, logId: log.id }, "Failed to mark import as failed"))
+    throw error
+  }
+
+  errors.sort((a, b) => a.row - b.row)
+  await db
+    .update(importExportLogs)
+    .set({
+      status: "COMPLETED",
+      recordsProcessed: parsed.rows.length,
+      recordsSuccessful: created + updated,
+      recordsFailed: failedRows.size,
+      errorDetails: errors.length > 0 ? JSON.stringify(errors.slice(0, MAX_LOGGED_ERRORS)) : null,
+      completedAt: new Date(),
+    })
+    .where(eq(importExportLogs.id, log.id))
+
+  return {
+    ok: true,
+    report: { ...report, created, updated, failed: failedRows.size, errors },
+  }
+}
+
+/**
+ * Rows of the entity for a school, with the import columns.
+ */
+async function exportRows(entity: TransferEntity, schoolId: string): Promise<RawRow[]> {
+  switch (entity) {
+    case "competencies":
+      return db
+        .select({
+          id: competencies.id,
+          name: competencies.name,
+          description: competencies.description,
+          category: competencies.category,
+          level: competencies.level,
+          isRequired: competencies.isRequired,
+          programId: competencies.programId,
+          criteria: competencies.criteria,
+        })
+        .from(competencies)
+        .where(eq(competencies.schoolId, schoolId))
+        .orderBy(competencies.category, competencies.name)
+    case "competency_templates":
+      return db
+        .select({
+          id: competencyTemplates.id,
+          name: competencyTemplates.name,
+          description: competencyTemplates.description,
+          category: competencyTemplates.category,
+          level: competencyTemplates.level,
+          type: competencyTemplates.type,
+          content: competencyTemplates.content,
+          tags: competencyTemplates.tags,
+          version: competencyTemplates.version,
+          isActive: competencyTemplates.isActive,
+        })
+        .from(competencyTemplates)
+        .innerJoin(users, eq(users.id, competencyTemplates.createdBy))
+        .where(eq(users.schoolId, schoolId))
+        .orderBy(competencyTemplates.name, competencyTemplates.version)
+    case "rubric_criteria":
+      return db
+        .select({
+          id: rubricCriteria.id,
+          competencyId: rubricCriteria.competencyId,
+          competency: competencies.name,
+          criterionName: rubricCriteria.criterionName,
+          description: rubricCriteria.description,
+          weight: rubricCriteria.weight,
+          maxScore: rubricCriteria.maxScore,
+          performanceLevels: rubricCriteria.performanceLevels,
+          orderIndex: rubricCriteria.orderIndex,
+        })
+        .from(rubricCriteria)
+        .innerJoin(competencies, eq(competencies.id, rubricCriteria.competencyId))
+        .where(eq(competencies.schoolId, schoolId))
+        .orderBy(competencies.name, rubricCriteria.orderIndex)
+    case "competency_rubrics":
+      return db
+        .select({
+          id: competencyRubrics.id,
+          competencyId: competencyRubrics.competencyId,
+          competency: competencies.name,
+          name: competencyRubrics.name,
+          description: competencyRubrics.description,
+          criteria: competencyRubrics.criteria,
+          scoringScale: competencyRubrics.scoringScale,
+          version: competencyRubrics.version,
+          isActive: competencyRubrics.isActive,
+        })
+        .from(competencyRubrics)
+        .innerJoin(competencies, eq(competencies.id, competencyRubrics.competencyId))
+        .where(eq(competencyRubrics.schoolId, schoolId))
+        .orderBy(competencies.name, competencyRubrics.name)
+  }
+}
+
+/**
+ * Serialise rows. JSON text columns are embedded as JSON in JSON files and
+ * kept as text in CSV files.
+ */
+export function serializeRows(
+  rows: RawRow[],
+  columns: string[],
+  format: TransferFormat,
+  jsonColumns: string[] = []
+): string {
+  if (format === "json") {
+    const records = rows.map((row) =>
+      Object.fromEntries(
+        columns.map((column) => {
+          const value = row[column] ?? null
+          if (typeof value === "string" && jsonColumns.includes(column)) {
+            try {
+              return [column, JSON.parse(value)]
+            } catch {
+              return [column, value]
+            }
+          }
+          return [column, value]
+        })
+      )
+    )
+    return JSON.stringify(records, null, 2)
+  }
+  return Papa.unparse(
+    { fields: columns, data: rows.map((row) => columns.map((column) => row[column] ?? "")) },
+    { escapeFormulae: true }
+  )
+}
+
+const JSON_COLUMNS: Record<TransferEntity, string[]> = {
+  competencies: ["criteria"],
+  competency_templates: ["content", "tags"],
+  rubric_criteria: ["performanceLevels"],
+  competency_rubrics: ["criteria", "scoringScale"],
+}
+
+export const CONTENT_TYPES: Record<TransferFormat, string> = {
+  csv: "text/csv; charset=utf-8",
+  json: "application/json",
+}
+
+export interface ExportResult {
+  fileName: string
+  content: string
+  contentType: string
+  count: number
+}
+
+export async function exportCompetencyData(
+  entity: TransferEntity,
+  format: TransferFormat,
+  ctx: ImportContext
+): Promise<ExportResult> {
+  const rows = await exportRows(entity, ctx.schoolId)
+  const content = serializeRows(rows, TRANSFER_COLUMNS[entity], format, JSON_COLUMNS[entity])
+  const fileName = `${entity.replace(/_/g, "-")}-${new Date().toISOString().split("T")[0]}.${format}`
+
+  await db.insert(importExportLogs).values({
+    id: crypto.randomUUID(),
+    schoolId: ctx.schoolId,
+    operationType: "EXPORT",
+    fileName,
+    fileSize: Buffer.byteLength(content),
+    recordsProcessed: rows.length,
+    recordsSuccessful: rows.length,
+    recordsFailed: 0,
+    status: "COMPLETED",
+    processedBy: ctx.userId,
+    completedAt: new Date(),
+  })
+
+  return { fileName, content, contentType: CONTENT_TYPES[format], count: rows.length }
+}
+
+/**
+ * The failing rows of an import with their original values and the reason,
+ * so they can be corrected and imported again.
+ */
+export function buildErrorFile(errors: RowError[], format: TransferFormat): string {
+  const valueColumns = [...new Set(errors.flatMap((error) => Object.keys(error.values ?? {})))]
+  const rows = errors.map((error) => ({
+    ...error.values,
+    row: error.row,
+    field: error.field ?? "",
+    error: error.message,
+  }))
+  return serializeRows(rows, ["row", "field", "error", ...valueColumns], format)
+}
+
+export function parseErrorDetails(log: Pick<ImportExportLog, "errorDetails">): RowError[] {
+  try {
+    const parsed = JSON.parse(log.errorDetails ?? "[]")
+    return Array.isArray(parsed) ? parsed : []
+  } catch {
+    return []
+  }
+}
+
+export async function listImportExportLogs(schoolId: string, limit = 25) {
+  return db
+    .select({
+      id: importExportLogs.id,
+      operationType: importExportLogs.operationType,
+      fileName: importExportLogs.fileName,
+      fileSize: importExportLogs.fileSize,
+      recordsProcessed: importExportLogs.recordsProcessed,
+      recordsSuccessful: importExportLogs.recordsSuccessful,
+      recordsFailed: importExportLogs.recordsFailed,
+      status: importExportLogs.status,
+      startedAt: importExportLogs.startedAt,
+      completedAt: importExportLogs.completedAt,
+      processedBy: users.name,
+    })
+    .from(importExportLogs)
+    .leftJoin(users, eq(users.id, importExportLogs.processedBy))
+    .where(eq(importExportLogs.schoolId, schoolId))
+    .orderBy(desc(importExportLogs.startedAt))
+    .limit(limit)
+}
+
+export async function getImportExportLog(id: string, schoolId: string) {
+  const [log] = await db
+    .select()
+    .from(importExportLogs)
+    .where(and(eq(importExportLogs.id, id), eq(importExportLogs.schoolId, schoolId)))
+    .limit(1)
+  return log ?? null
+}
+
+export type ImportExportLogSummary = Awaited<ReturnType<typeof listImportExportLogs>>[number]
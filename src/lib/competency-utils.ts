@@ -8,12 +8,12 @@ import { and, count, eq } from "drizzle-orm"
 import type { NextResponse } from "next/server"
 import { db } from "@/database/connection-pool"
 import {
-  auditLogs,
   competencies,
   competencyAssignments,
   competencyDeployments,
   competencySubmissions,
 } from "@/database/schema"
+import { appendAuditLog } from "@/lib/audit-chain"
 
 /**
  * Rate limiting store (in production, use Redis or similar distributed cache)
@@ -127,7 +127,17 @@ export const createAuditLog = async ({
       }),
     }
 
-    await db.insert(auditLogs).values(auditData)
+    await appendAuditLog({
+      id: auditData.id,
+      userId,
+      action,
+      resource: auditData.resourceType,
+      resourceId: auditData.resourceId,
+      details,
+      severity: auditData.severity,
+      status: auditData.status,
+      createdAt: auditData.timestamp,
+    })
     return auditData
   } catch (error) {
     console.error("Failed to create audit log:", error)
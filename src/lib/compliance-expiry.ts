@@ -0,0 +1,340 @@
+import { and, eq, gt, gte, inArray, isNull, lte, ne, or } from "drizzle-orm"
+import { db } from "../database/connection-pool"
+import {
+  type ComplianceRequirement,
+  complianceRequirements,
+  complianceSubmissions,
+  rotations,
+  users,
+} from "../database/schema"
+import {
+  notifyAdminsOfNonCompliance,
+  notifyComplianceExpiring,
+  notifyComplianceStatusChange,
+} from "./compliance-notifications"
+import { logger } from "./logger"
+import { emitWebhookEvent } from "./webhooks"
+
+/**
+ * Daily compliance sweep: expires lapsed submissions, sends advance reminders
+ * and alerts school admins when a student in an active rotation lapses.
+ */
+
+export const DEFAULT_REMINDER_OFFSETS = [30, 14, 3]
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+type Frequency = ComplianceRequirement["frequency"]
+
+/**
+ * Reminder offsets in days before expiry, from COMPLIANCE_REMINDER_DAYS
+ * (e.g. "30,14,3"), sorted largest first.
+ */
+export function getReminderOffsets(raw = process.env.COMPLIANCE_REMINDER_DAYS): number[] {
+  const parsed = (raw ?? "")
+    .split(",")
+    .map((value) => Number.parseInt(value.trim(), 10))
+    .filter((value) => Number.isInteger(value) && value > 0)
+  const offsets = parsed.length > 0 ? parsed : DEFAULT_REMINDER_OFFSETS
+  return [...new Set(offsets)].sort((a, b) => b - a)
+}
+
+/**
+ * When a submission approved on `from` next falls due. ONCE requirements never
+ * expire on their own.
+ */
+export function calculateNextDueDate(frequency: Frequency, from: Date): Date | null {
+  const years = frequency === "ANNUAL" ? 1 : frequency === "BIENNIAL" ? 2 : 0
+  if (years === 0) return null
+  const next = new Date(from)
+  next.setUTCFullYear(next.getUTCFullYear() + years)
+  return next
+}
+
+/**
+ * Expiry for an approval: an explicit date from the reviewer wins, otherwise
+ * it is derived from the requirement's frequency.
+ */
+export function resolveExpiry(
+  frequency: Frequency,
+  explicit: Date | null | undefined,
+  approvedAt: Date
+): Date | null {
+  return explicit ?? calculateNextDueDate(frequency, approvedAt)
+}
+
+export function daysUntil(date: Date, now: Date): number {
+  return Math.ceil((date.getTime() - now.getTime()) / DAY_MS)
+}
+
+/**
+ * The reminder offset to send now, or null. Only the closest offset that has
+ * been reached is sent, so a submission first seen 10 days out gets the
+ * 14-day reminder once rather than both 30 and 14.
+ */
+export function dueReminderOffset(
+  expiresAt: Date,
+  now: Date,
+  offsets: number[],
+  lastReminderDays: number | null
+): number | null {
+  const remaining = daysUntil(expiresAt, now)
+  if (remaining <= 0) return null
+
+  const reached = offsets.filter((offset) => remaining <= offset)
+  if (reached.length === 0) return null
+
+  const offset = Math.min(...reached)
+  if (lastReminderDays !== null && lastReminderDays <= offset) return null
+  return offset
+}
+
+export interface ComplianceSweepResult {
+  backfilled: number
+  expired: number
+  reminded: number
+  adminAlerts: number
+}
+
+/**
+ * Approved submissions for recurring requirements that were approved without
+ * an expiry date get one derived from the requirement's frequency.
+ */
+async function backfillExpiryDates() {
+  const missing = await db
+    .select({
+      id: complianceSubmissions.id,
+      reviewedAt: complianceSubmissions.reviewedAt,
+      createdAt: complianceSubmissions.createdAt,
+      frequency: complianceRequirements.frequency,
+    })
+    .from(complianceSubmissions)
+    .innerJoin(
+      complianceRequirements,
+      eq(complianceSubmissions.requirementId, complianceRequirements.id)
+    )
+    .where(
+      and(
+        eq(complianceSubmissions.status, "APPROVED"),
+        isNull(complianceSubmissions.expiresAt),
+        ne(complianceRequirements.frequency, "ONCE")
+      )
+    )
+
+  for (const submission of missing) {
+    const expiresAt = calculateNextDueDate(
+      submission.frequency,
+      submission.reviewedAt ?? submission.createdAt
+    )
+    if (!expiresAt) continue
+    await db
+      .update(complianceSubmissions)
+      .set({ expiresAt, updatedAt: new Date() })
+      .where(eq(complianceSubmissions.id, submission.id))
+  }
+
+  return missing.length
+}
+
+/**
+ * Keys ("studentId:requirementId") for which the student still holds an
+ * approved, unexpired submission or has a renewal awaiting review.
+ */
+async function findRenewedKeys(
+  pairs: Array<{ id: string; studentId: string; requirementId: string }>,
+  now: Date
+) {
+  if (pairs.length === 0) return new Set<string>()
+
+  const renewals = await db
+    .select({
+      id: complianceSubmissions.id,
+      studentId: complianceSubmissions.studentId,
+      requirementId: complianceSubmissions.requirementId,
+      status: complianceSubmissions.status,
+    })
+    .from(complianceSubmissions)
+    .where(
+      and(
+        inArray(complianceSubmissions.studentId, [...new Set(pairs.map((p) => p.studentId))]),
+        inArray(complianceSubmissions.requirementId, [
+          ...new Set(pairs.map((p) => p.requirementId)),
+        ]),
+        or(
+          eq(complianceSubmissions.status, "PENDING"),
+          and(
+            eq(complianceSubmissions.status, "APPROVED"),
+            or(isNull(complianceSubmissions.expiresAt), gt(complianceSubmissions.expiresAt, now))
+          )
+        )
+      )
+    )
+
+  const sweptIds = new Set(pairs.map((p) => p.id))
+  return new Set(
+    renewals
+      .filter((renewal) => !sweptIds.has(renewal.id))
+      .map((renewal) => `${renewal.studentId}:${renewal.requirementId}`)
+  )
+}
+
+async function expireLapsedSubmissions(now: Date) {
+  const expired = await db
+    .update(complianceSubmissions)
+    .set({ status: "EXPIRED", updatedAt: now })
+    .where(
+      and(eq(complianceSubmissions.status, "APPROVED"), lte(complianceSubmissions.expiresAt, now))
+    )
+    .returning({
+      id: complianceSubmissions.id,
+      studentId: complianceSubmissions.studentId,
+      requirementId: complianceSubmissions.requirementId,
+    })
+
+  if (expired.length === 0) return { expired: 0, adminAlerts: 0 }
+
+  const requirementRows = await db
+    .select({
+      id: complianceRequirements.id,
+      name: complianceRequirements.name,
+      schoolId: complianceRequirements.schoolId,
+    })
+    .from(complianceRequirements)
+    .where(inArray(complianceRequirements.id, [...new Set(expired.map((s) => s.requirementId))]))
+  const requirementsById = new Map(requirementRows.map((r) => [r.id, r]))
+  const requirementNames = new Map(requirementRows.map((r) => [r.id, r.name]))
+
+  for (const submission of expired) {
+    const requirement = requirementsById.get(submission.requirementId)
+    await emitWebhookEvent(requirement?.schoolId, "compliance_submission.status_changed", {
+      submissionId: submission.id,
+      studentId: submission.studentId,
+      requirementId: submission.requirementId,
+      requirementName: requirement?.name ?? null,
+      previousStatus: "APPROVED",
+      status: "EXPIRED",
+    })
+  }
+
+  // A student who already renewed is still compliant; the old record just lapses quietly
+  const renewed = await findRenewedKeys(expired, now)
+  const lapsed = expired.filter((s) => !renewed.has(`${s.studentId}:${s.requirementId}`))
+  if (lapsed.length === 0) return { expired: expired.length, adminAlerts: 0 }
+
+  for (const submission of lapsed) {
+    await notifyComplianceStatusChange({
+      studentId: submission.studentId,
+      requirementName: requirementNames.get(submission.requirementId) ?? "Compliance requirement",
+      status: "EXPIRED",
+    })
+  }
+
+  // Students currently on site: ACTIVE rotations, or SCHEDULED ones already under way
+  const onRotation = await db
+    .selectDistinct({ id: users.id, name: users.name, schoolId: users.schoolId })
+    .from(rotations)
+    .innerJoin(users, eq(rotations.studentId, users.id))
+    .where(
+      and(
+        inArray(rotations.studentId, [...new Set(lapsed.map((s) => s.studentId))]),
+        or(
+          eq(rotations.status, "ACTIVE"),
+          and(
+            eq(rotations.status, "SCHEDULED"),
+            lte(rotations.startDate, now),
+            gte(rotations.endDate, now)
+          )
+        )
+      )
+    )
+
+  const bySchool = new Map<
+    string,
+    Array<{ studentId: string; studentName: string | null; requirementNames: string[] }>
+  >()
+  for (const student of onRotation) {
+    if (!student.schoolId) continue
+    const names = lapsed
+      .filter((s) => s.studentId === student.id)
+      .map((s) => requirementNames.get(s.requirementId) ?? "Compliance requirement")
+    const list = bySchool.get(student.schoolId) ?? []
+    list.push({ studentId: student.id, studentName: student.name, requirementNames: names })
+    bySchool.set(student.schoolId, list)
+  }
+
+  for (const [schoolId, students] of bySchool) {
+    await notifyAdminsOfNonCompliance({ schoolId, students })
+  }
+
+  return { expired: expired.length, adminAlerts: bySchool.size }
+}
+
+async function sendExpiryReminders(now: Date, offsets: number[]) {
+  if (offsets.length === 0) return 0
+  const horizon = new Date(now.getTime() + Math.max(...offsets) * DAY_MS)
+
+  const upcoming = await db
+    .select({
+      id: complianceSubmissions.id,
+      studentId: complianceSubmissions.studentId,
+      requirementId: complianceSubmissions.requirementId,
+      expiresAt: complianceSubmissions.expiresAt,
+      lastReminderDays: complianceSubmissions.lastReminderDays,
+      requirementName: complianceRequirements.name,
+    })
+    .from(complianceSubmissions)
+    .innerJoin(
+      complianceRequirements,
+      eq(complianceSubmissions.requirementId, complianceRequirements.id)
+    )
+    .where(
+      and(
+        eq(complianceSubmissions.status, "APPROVED"),
+        eq(complianceRequirements.isActive, true),
+        gt(complianceSubmissions.expiresAt, now),
+        lte(complianceSubmissions.expiresAt, horizon)
+      )
+    )
+
+  const due = upcoming.filter(
+    (s) => s.expiresAt && dueReminderOffset(s.expiresAt, now, offsets, s.lastReminderDays) !== null
+  )
+  const renewed = await findRenewedKeys(due, now)
+
+  let reminded = 0
+  for (const submission of due) {
+    const expiresAt = submission.expiresAt as Date
+    const offset = dueReminderOffset(expiresAt, now, offsets, submission.lastReminderDays)
+    if (offset === null) continue
+
+    // Record the offset even when renewed so the student is not reminded about the old record
+    await db
+      .update(complianceSubmissions)
+      .set({ lastReminderDays: offset, updatedAt: now })
+      .where(eq(complianceSubmissions.id, submission.id))
+
+    if (renewed.has(`${submission.studentId}:${submission.requirementId}`)) continue
+
+    await notifyComplianceExpiring({
+      studentId: submission.studentId,
+      requirementName: submission.requirementName,
+      expiresAt,
+      daysRemaining: daysUntil(expiresAt, now),
+    })
+    reminded++
+  }
+
+  return reminded
+}
+
+export async function runComplianceSweep(
+  now: Date = new Date(),
+  offsets: number[] = getReminderOffsets()
+): Promise<ComplianceSweepResult> {
+  const backfilled = await backfillExpiryDates()
+  const { expired, adminAlerts } = await expireLapsedSubmissions(now)
+  const reminded = await sendExpiryReminders(now, offsets)
+
+  logger.info({ backfilled, expired, reminded, adminAlerts }, "Compliance sweep completed")
+  return { backfilled, expired, reminded, adminAlerts }
+}
@@ -1,8 +1,8 @@
 import { db } from "../database/connection-pool"
-import { notifications, users } from "../database/schema"
-import { sendNotificationEmail } from "./email-service"
+import { users } from "../database/schema"
 import { logger } from "./logger"
-import { eq } from "drizzle-orm"
+import { sendNotification, sendNotificationToUsers } from "./notification-service"
+import { and, eq } from "drizzle-orm"
 
 export async function notifyComplianceStatusChange({
   studentId,
@@ -16,11 +16,6 @@ export async function notifyComplianceStatusChange({
   notes?: string
 }) {
   try {
-    // 1. Get student email and name
-    const [student] = await db.select().from(users).where(eq(users.id, studentId)).limit(1)
-
-    if (!student) return
-
     const title = `Compliance Update: ${requirementName}`
     let message = ""
     let type: "success" | "warning" | "error" | "info" = "info"
@@ -36,28 +31,91 @@ export async function notifyComplianceStatusChange({
       type = "warning"
     }
 
-    // 2. Create in-app notification
-    await db.insert(notifications).values({
-      id: crypto.randomUUID(),
+    await sendNotification({
       userId: studentId,
       title,
       message,
       type,
       priority: status === "APPROVED" ? "low" : "high",
       actionUrl: "/dashboard/student/compliance",
+      actionText: "View Compliance Center",
+    })
+  } catch (error) {
+    logger.error({ err: error, studentId }, "Failed to send compliance notification")
+  }
+}
+
+export async function notifyComplianceExpiring({
+  studentId,
+  requirementName,
+  expiresAt,
+  daysRemaining,
+}: {
+  studentId: string
+  requirementName: string
+  expiresAt: Date
+  daysRemaining: number
+}) {
+  try {
+    const title = `Compliance Reminder: ${requirementName}`
+    const message = `Your "${requirementName}" expires in ${daysRemaining} day${daysRemaining === 1 ? "" : "s"} (${expiresAt.toLocaleDateString("en-US")}). Please submit a renewal before it lapses.`
+
+    await sendNotification({
+      userId: studentId,
+      title,
+      message,
+      type: "reminder",
+      priority: daysRemaining <= 7 ? "high" : "medium",
+      actionUrl: "/dashboard/student/compliance",
+      actionText: "Renew Now",
+      data: { requirementName, expiresAt: expiresAt.toISOString(), daysRemaining },
     })
+  } catch (error) {
+    logger.error({ err: error, studentId }, "Failed to send compliance reminder")
+  }
+}
+
+/**
+ * Alert a school's admins that students in active rotations are no longer
+ * compliant, so sites are not the first to find out.
+ */
+export async function notifyAdminsOfNonCompliance({
+  schoolId,
+  students,
+}: {
+  schoolId: string
+  students: Array<{ studentId: string; studentName: string | null; requirementNames: string[] }>
+}) {
+  if (students.length === 0) return
+
+  try {
+    const admins = await db
+      .select({ id: users.id })
+      .from(users)
+      .where(
+        and(eq(users.schoolId, schoolId), eq(users.role, "SCHOOL_ADMIN"), eq(users.isActive, true))
+      )
 
-    // 3. Send email notification
-    if (student.email) {
-      await sendNotificationEmail({
-        to: student.email,
-        subject: title,
+    if (admins.length === 0) return
+
+    const title = `${students.length} student${students.length === 1 ? "" : "s"} in active rotations became non-compliant`
+    const message = students
+      .map((s) => `${s.studentName || "Unnamed student"}: ${s.requirementNames.join(", ")} expired`)
+      .join("; ")
+
+    await sendNotificationToUsers(
+      admins.map((admin) => admin.id),
+      {
+        title,
         message,
-        actionUrl: `${process.env.NEXT_PUBLIC_APP_URL}/dashboard/student/compliance`,
-        actionText: "View Compliance Center",
-      })
-    }
+        type: "warning",
+        priority: "urgent",
+        actionUrl: "/dashboard/school-admin/compliance",
+        actionText: "Review Compliance",
+        data: { students },
+      }
+    )
   } catch (error) {
-    logger.error({ err: error, studentId }, "Failed to send compliance notification")
+    logger.error({ err: error, schoolId }, "Failed to notify admins of non-compliant students")
   }
 }
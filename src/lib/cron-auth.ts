@@ -0,0 +1,18 @@
+import crypto from "crypto"
+import type { NextRequest } from "next/server"
+
+/**
+ * Verify a scheduled invocation from Vercel Cron (or any scheduler) carrying
+ * `Authorization: Bearer $CRON_SECRET`. Cron routes are exempt from Clerk in
+ * src/proxy.ts, so this check is their only authentication.
+ */
+export function isAuthorizedCronRequest(request: NextRequest): boolean {
+  const secret = process.env.CRON_SECRET
+  if (!secret) return false
+
+  const provided = request.headers.get("authorization") ?? ""
+  const expected = `Bearer ${secret}`
+  if (provided.length !== expected.length) return false
+
+  return crypto.timingSafeEqual(Buffer.from(provided), Buffer.from(expected))
+}
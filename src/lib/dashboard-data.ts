@@ -254,7 +254,7 @@ export async function getRecentActivitiesData(limit = 5): Promise<RecentActivity
           .where(
             currentUser.role === ("SUPER_ADMIN" as UserRole)
               ? undefined // Super admin sees all
-              : undefined // Remove school filter for now since auditLogs doesn't have schoolId
+              : eq(auditLogs.schoolId, currentUser.schoolId || "")
           )
           .orderBy(desc(auditLogs.createdAt))
           .limit(limit)
@@ -0,0 +1,55 @@
+import { safeFetchApi } from "@/lib/safe-fetch"
+
+export interface UploadedDocument {
+  id: string
+  originalName: string
+  mimeType: string
+  fileSize: number
+  documentType: string
+  checksum: string
+  downloadUrl: string
+}
+
+async function sha256Hex(file: File): Promise<string> {
+  const digest = await crypto.subtle.digest("SHA-256", await file.arrayBuffer())
+  return Array.from(new Uint8Array(digest), (byte) => byte.toString(16).padStart(2, "0")).join("")
+}
+
+/**
+ * Upload a file to /api/documents. The SHA-256 is sent along so the server can
+ * reject files corrupted in transit.
+ */
+export async function uploadDocument(
+  file: File,
+  options: {
+    documentType: string
+    relatedEntityType?: string
+    relatedEntityId?: string
+  }
+) {
+  const form = new FormData()
+  form.append("file", file)
+  form.append("documentType", options.documentType)
+  form.append("checksum", await sha256Hex(file))
+  if (options.relatedEntityType) form.append("relatedEntityType", options.relatedEntityType)
+  if (options.relatedEntityId) form.append("relatedEntityId", options.relatedEntityId)
+
+  return safeFetchApi<UploadedDocument>("/api/documents", {
+    method: "POST",
+    body: form,
+    timeout: 120000,
+  })
+}
+
+/**
+ * Open a document in a new tab using a freshly signed download URL.
+ */
+export async function openDocument(documentId: string) {
+  const result = await safeFetchApi<{ downloadUrl: string }>(
+    `/api/documents/${encodeURIComponent(documentId)}`
+  )
+  if (result.success && result.data) {
+    window.open(result.data.downloadUrl, "_blank", "noopener,noreferrer")
+  }
+  return result
+}
@@ -0,0 +1,69 @@
+import { and, eq } from "drizzle-orm"
+import { db } from "@/database/connection-pool"
+import { complianceSubmissions, type Document, users } from "@/database/schema"
+
+export interface DocumentViewer {
+  userId: string
+  userRole: string
+  schoolId: string | null
+}
+
+/**
+ * Who may read a document:
+ * - the uploader
+ * - super admins, and school admins of the uploader's school
+ * - reviewers: clinical supervisors of the uploader's school, or the user
+ *   recorded as reviewer on a compliance submission that references it
+ * - anyone in the uploader's school when the document is public
+ */
+export function evaluateDocumentAccess(params: {
+  viewer: DocumentViewer
+  document: Pick<Document, "uploadedBy" | "isPublic">
+  uploaderSchoolId: string | null
+  isRecordedReviewer: boolean
+}): boolean {
+  const { viewer, document, uploaderSchoolId } = params
+
+  if (document.uploadedBy && document.uploadedBy === viewer.userId) return true
+  if (viewer.userRole === "SUPER_ADMIN") return true
+  if (params.isRecordedReviewer) return true
+
+  const sameSchool = !!uploaderSchoolId && uploaderSchoolId === viewer.schoolId
+  if (!sameSchool) return false
+
+  if (viewer.userRole === "SCHOOL_ADMIN" || viewer.userRole === "CLINICAL_SUPERVISOR") return true
+  return document.isPublic
+}
+
+export async function canAccessDocument(
+  viewer: DocumentViewer,
+  document: Pick<Document, "id" | "uploadedBy" | "isPublic">
+): Promise<boolean> {
+  if (document.uploadedBy === viewer.userId || viewer.userRole === "SUPER_ADMIN") return true
+
+  const [uploader] = document.uploadedBy
+    ? await db
+        .select({ schoolId: users.schoolId })
+        .from(users)
+        .where(eq(users.id, document.uploadedBy))
+        .limit(1)
+    : []
+
+  const [review] = await db
+    .select({ id: complianceSubmissions.id })
+    .from(complianceSubmissions)
+    .where(
+      and(
+        eq(complianceSubmissions.documentId, document.id),
+        eq(complianceSubmissions.reviewedBy, viewer.userId)
+      )
+    )
+    .limit(1)
+
+  return evaluateDocumentAccess({
+    viewer,
+    document,
+    uploaderSchoolId: uploader?.schoolId ?? null,
+    isRecordedReviewer: !!review,
+  })
+}
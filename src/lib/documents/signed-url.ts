@@ -0,0 +1,50 @@
+import { createHmac, timingSafeEqual } from "node:crypto"
+
+// Download links are short-lived; clients request a fresh one each time
+export const DEFAULT_DOWNLOAD_URL_TTL_SECONDS = 5 * 60
+
+function getSigningSecret(): string {
+  const secret = process.env.DOCUMENT_URL_SECRET
+  if (!secret) throw new Error("DOCUMENT_URL_SECRET is not configured")
+  return secret
+}
+
+function sign(documentId: string, expires: number, secret: string): string {
+  return createHmac("sha256", secret).update(`${documentId}:${expires}`).digest("hex")
+}
+
+/**
+ * Build a time-limited download URL for a document. Access is checked when
+ * the URL is issued; the signature stands in for the session when it is used.
+ */
+export function createSignedDownloadUrl(
+  documentId: string,
+  options: { ttlSeconds?: number; now?: Date; secret?: string } = {}
+): { url: string; expiresAt: Date } {
+  const now = options.now ?? new Date()
+  const expires =
+    Math.floor(now.getTime() / 1000) + (options.ttlSeconds ?? DEFAULT_DOWNLOAD_URL_TTL_SECONDS)
+  const signature = sign(documentId, expires, options.secret ?? getSigningSecret())
+
+  return {
+    url: `/api/documents/${encodeURIComponent(documentId)}/download?expires=${expires}&signature=${signature}`,
+    expiresAt: new Date(expires * 1000),
+  }
+}
+
+export function verifySignedDownload(
+  documentId: string,
+  expires: string | null,
+  signature: string | null,
+  options: { now?: Date; secret?: string } = {}
+): boolean {
+  if (!expires || !signature || !/^\d+$/.test(expires)) return false
+
+  const expiresAt = Number(expires)
+  const now = Math.floor((options.now ?? new Date()).getTime() / 1000)
+  if (expiresAt < now) return false
+
+  const expected = Buffer.from(sign(documentId, expiresAt, options.secret ?? getSigningSecret()))
+  const provided = Buffer.from(signature)
+  return expected.length === provided.length && timingSafeEqual(expected, provided)
+}
@@ -0,0 +1,94 @@
+import { createHash } from "node:crypto"
+import type { Document } from "@/database/schema"
+
+export type DocumentType = Document["documentType"]
+
+export interface UploadPolicy {
+  mimeTypes: string[]
+  maxBytes: number
+}
+
+const MB = 1024 * 1024
+
+const PDF = "application/pdf"
+const JPEG = "image/jpeg"
+const PNG = "image/png"
+const DOCX = "application/vnd.openxmlformats-officedocument.wordprocessingml.document"
+const TEXT = "text/plain"
+const CSV = "text/csv"
+
+/**
+ * Allowed MIME types and size per documentType. Scans of records (medical,
+ * certificates) may be photos; official records must be PDFs.
+ */
+export const DOCUMENT_UPLOAD_POLICIES: Record<DocumentType, UploadPolicy> = {
+  medical: { mimeTypes: [PDF, JPEG, PNG], maxBytes: 10 * MB },
+  certificate: { mimeTypes: [PDF, JPEG, PNG], maxBytes: 10 * MB },
+  transcript: { mimeTypes: [PDF], maxBytes: 10 * MB },
+  legal: { mimeTypes: [PDF], maxBytes: 10 * MB },
+  evaluation: { mimeTypes: [PDF, DOCX], maxBytes: 10 * MB },
+  assignment: { mimeTypes: [PDF, DOCX, TEXT, JPEG, PNG], maxBytes: 25 * MB },
+  other: { mimeTypes: [PDF, DOCX, TEXT, CSV, JPEG, PNG], maxBytes: 10 * MB },
+}
+
+export const MAX_UPLOAD_BYTES = Math.max(
+  ...Object.values(DOCUMENT_UPLOAD_POLICIES).map((policy) => policy.maxBytes)
+)
+
+export const FILE_EXTENSIONS: Record<string, string> = {
+  [PDF]: ".pdf",
+  [JPEG]: ".jpg",
+  [PNG]: ".png",
+  [DOCX]: ".docx",
+  [TEXT]: ".txt",
+  [CSV]: ".csv",
+}
+
+// Leading bytes for binary formats; text formats have no reliable signature
+const SIGNATURES: Array<{ mimeType: string; bytes: number[] }> = [
+  { mimeType: PDF, bytes: [0x25, 0x50, 0x44, 0x46] }, // %PDF
+  { mimeType: PNG, bytes: [0x89, 0x50, 0x4e, 0x47] },
+  { mimeType: JPEG, bytes: [0xff, 0xd8, 0xff] },
+  { mimeType: DOCX, bytes: [0x50, 0x4b, 0x03, 0x04] }, // zip container
+]
+
+export function sha256Hex(data: Buffer): string {
+  return createHash("sha256").update(data).digest("hex")
+}
+
+/**
+ * Check an upload against the documentType policy. The declared MIME type
+ * must be allowed and, for binary formats, match the file's signature.
+ * Returns an error message, or null when the upload is acceptable.
+ */
+export function validateUpload(params: {
+  documentType: DocumentType
+  mimeType: string
+  content: Buffer
+}): string | null {
+  const policy = DOCUMENT_UPLOAD_POLICIES[params.documentType]
+  const mimeType = params.mimeType.split(";")[0].trim().toLowerCase()
+
+  if (params.content.length === 0) return "File is empty"
+  if (params.content.length > policy.maxBytes) {
+    return `File exceeds the ${Math.round(policy.maxBytes / MB)} MB limit for ${params.documentType} documents`
+  }
+  if (!policy.mimeTypes.includes(mimeType)) {
+    return `${mimeType || "Unknown file type"} is not allowed for ${params.documentType} documents`
+  }
+
+  const signature = SIGNATURES.find((s) => s.mimeType === mimeType)
+  if (signature && !signature.bytes.every((byte, i) => params.content[i] === byte)) {
+    return "File content does not match its declared type"
+  }
+  return null
+}
+
+/**
+ * Strip directory components and control characters from a client file name.
+ */
+export function sanitizeFileName(name: string): string {
+  const base = name.split(/[\\/]/).pop() ?? ""
+  const cleaned = base.replace(/[\u0000-\u001f\u007f"]/g, "").trim()
+  return cleaned.slice(0, 200) || "document"
+}
@@ -28,6 +28,12 @@ export interface ReportEmailOptions {
   format: "pdf" | "excel" | "csv"
   reportType: string
   schoolName?: string
+  // Rendered report file; omitted for notification-only report emails
+  attachment?: {
+    filename: string
+    content: Buffer
+    contentType: string
+  }
 }
 
 /**
@@ -91,7 +97,14 @@ export async function sendEmail(options: EmailOptions): Promise<boolean> {
  */
 export async function sendReportEmail(options: ReportEmailOptions): Promise<boolean> {
   try {
-    const { recipients, reportData, format, reportType, schoolName = "Your School" } = options
+    const {
+      recipients,
+      reportData,
+      format,
+      reportType,
+      schoolName = "Your School",
+      attachment,
+    } = options
 
     // Generate email content based on report type and format
     const subject = `${reportType} Report - ${new Date().toLocaleDateString()}`
@@ -116,6 +129,7 @@ export async function sendReportEmail(options: ReportEmailOptions): Promise<bool
       subject,
       html,
       text,
+      attachments: attachment ? [attachment] : undefined,
     })
   } catch (error) {
     console.error("Error sending report email:", error)
@@ -277,19 +291,18 @@ ${actionUrl ? `${actionText}: ${actionUrl}` : ""}
 }
 
 /**
- * Send invitation email to a student
+ * Invitation email for a student. Routes queue it as an EMAIL job so it is
+ * retried while the provider is down.
  */
-export async function sendInvitationEmail({
-  to,
+export function buildInvitationEmail({
   schoolName,
   programName,
   inviteLink,
 }: {
-  to: string
   schoolName: string
   programName: string
   inviteLink: string
-}): Promise<boolean> {
+}): { subject: string; html: string; text: string } {
   const subject = `You've been invited to join ${schoolName}`
 
   const html = `
@@ -332,10 +345,5 @@ ${inviteLink}
 This invitation will expire in 7 days.
   `.trim()
 
-  return await sendEmail({
-    to,
-    subject,
-    html,
-    text,
-  })
+  return { subject, html, text }
 }
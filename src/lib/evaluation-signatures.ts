@@ -0,0 +1,553 @@
+import { createHash, createHmac, timingSafeEqual } from "node:crypto"
+import { asc, eq } from "drizzle-orm"
+import { db } from "../database/connection-pool"
+import {
+  type Evaluation,
+  type EvaluationSignature,
+  evaluationSignatures,
+  evaluations,
+  users,
+} from "../database/schema"
+import { HTTP_STATUS } from "./api-response"
+import { emitWebhookEvent } from "./webhooks"
+
+/**
+ * Evaluation e-signatures. Each signature stores who signed, from where, and
+ * a SHA-256 hash of the evaluation content it covers:
+ * - the evaluator signs the evaluation itself
+ * - the student signs the evaluation plus their attestation or rebuttal
+ *
+ * Any change to covered content invalidates the affected signatures, which are
+ * kept for history. A FINAL evaluation locks once both parties have signed.
+ * Fully signed evaluations can be exported as a certificate whose HMAC lets
+ * anyone holding the server secret check it was not altered.
+ */
+
+export type SignerRole = EvaluationSignature["signerRole"]
+
+// Who signed is recorded on the signature itself, so the student and evaluator
+// ids stay out of the hash and an account relink does not invalidate signatures
+const EVALUATOR_CONTENT_FIELDS = [
+  "id",
+  "assignmentId",
+  "rotationId",
+  "clinicalSiteId",
+  "type",
+  "period",
+  "observationDate",
+  "feedback",
+  "overallRating",
+  "criteria",
+  "clinicalSkills",
+  "communication",
+  "professionalism",
+  "criticalThinking",
+  "strengths",
+  "areasForImprovement",
+  "goals",
+  "comments",
+] as const satisfies readonly (keyof Evaluation)[]
+
+const STUDENT_CONTENT_FIELDS = [
+  ...EVALUATOR_CONTENT_FIELDS,
+  "studentComment",
+  "studentCommentType",
+] as const satisfies readonly (keyof Evaluation)[]
+
+// Fields the evaluator may edit; anything covered by a signature
+export const EDITABLE_EVALUATION_FIELDS = [
+  "type",
+  "period",
+  "observationDate",
+  "feedback",
+  "overallRating",
+  "criteria",
+  "clinicalSkills",
+  "communication",
+  "professionalism",
+  "criticalThinking",
+  "strengths",
+  "areasForImprovement",
+  "goals",
+  "comments",
+] as const
+
+export type EvaluationContentChanges = Partial<
+  Pick<Evaluation, (typeof EDITABLE_EVALUATION_FIELDS)[number]>
+>
+
+/**
+ * JSON with object keys sorted at every level, so equal content always
+ * serializes identically.
+ */
+export function canonicalJson(value: unknown): string {
+  if (value instanceof Date) return JSON.stringify(value.toISOString())
+  if (Array.isArray(value)) return `[${value.map(canonicalJson).join(",")}]`
+  if (value && typeof value === "object") {
+    const entries = Object.entries(value as Record<string, unknown>)
+      .filter(([, v]) => v !== undefined)
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0))
+    return `{${entries.map(([k, v]) => `${JSON.stringify(k)}:${canonicalJson(v)}`).join(",")}}`
+  }
+  return JSON.stringify(value ?? null)
+}
+
+export function hashEvaluationContent(
+  evaluation: Pick<Evaluation, (typeof STUDENT_CONTENT_FIELDS)[number]>,
+  role: SignerRole
+): string {
+  const fields = role === "STUDENT" ? STUDENT_CONTENT_FIELDS : EVALUATOR_CONTENT_FIELDS
+  const content = Object.fromEntries(
+    fields.map((field) => [field, (evaluation as Record<string, unknown>)[field] ?? null])
+  )
+  return createHash("sha256").update(canonicalJson(content)).digest("hex")
+}
+
+export interface SignatureState {
+  signature: EvaluationSignature
+  // False when the content changed after signing
+  valid: boolean
+}
+
+export interface EvaluationSigningSummary {
+  evaluator: SignatureState | null
+  student: SignatureState | null
+  contentHashes: Record<SignerRole, string>
+  fullySigned: boolean
+  locked: boolean
+}
+
+/**
+ * Current signature per role, checked against the evaluation as it is now.
+ * Invalidated signatures are ignored.
+ */
+export function summarizeSignatures(
+  evaluation: Evaluation,
+  signatures: EvaluationSignature[]
+): EvaluationSigningSummary {
+  const contentHashes = {
+    EVALUATOR: hashEvaluationContent(evaluation, "EVALUATOR"),
+    STUDENT: hashEvaluationContent(evaluation, "STUDENT"),
+  }
+  const current = (role: SignerRole): SignatureState | null => {
+    const signature = signatures
+      .filter((s) => s.signerRole === role && !s.invalidatedAt)
+      .sort((a, b) => b.signedAt.getTime() - a.signedAt.getTime())[0]
+    return signature ? { signature, valid: signature.contentHash === contentHashes[role] } : null
+  }
+
+  const evaluator = current("EVALUATOR")
+  const student = current("STUDENT")
+  return {
+    evaluator,
+    student,
+    contentHashes,
+    fullySigned: !!evaluator?.valid && !!student?.valid,
+    locked: !!evaluation.lockedAt,
+  }
+}
+
+export function signerRoleFor(evaluation: Evaluation, userId: string): SignerRole | null {
+  if (evaluation.evaluatorId === userId) return "EVALUATOR"
+  if (evaluation.studentId === userId) return "STUDENT"
+  return null
+}
+
+export type SigningFailure =
+  | "not_found"
+  | "not_a_party"
+  | "locked"
+  | "already_signed"
+  | "evaluator_must_sign_first"
+
+export type SigningResult<T> = { success: true } & T
+export type SigningError = { success: false; reason: SigningFailure }
+
+export const SIGNING_FAILURE_MESSAGES: Record<SigningFailure, string> = {
+  not_found: "Evaluation not found",
+  not_a_party: "Only the evaluator or the evaluated student can do this",
+  locked: "This final evaluation is signed by both parties and locked",
+  already_signed: "You have already signed the current version of this evaluation",
+  evaluator_must_sign_first: "The evaluator must sign before the student",
+}
+
+export function signingFailureStatus(reason: SigningFailure) {
+  if (reason === "not_found") return HTTP_STATUS.NOT_FOUND
+  if (reason === "not_a_party") return HTTP_STATUS.FORBIDDEN
+  return HTTP_STATUS.CONFLICT
+}
+
+/**
+ * Parties can always see an evaluation; school admins can see those of
+ * students in their school.
+ */
+export async function canViewEvaluation(
+  evaluation: Pick<Evaluation, "studentId" | "evaluatorId">,
+  viewer: { userId: string; userRole: string; schoolId: string | null }
+): Promise<boolean> {
+  if (viewer.userId === evaluation.studentId || viewer.userId === evaluation.evaluatorId) {
+    return true
+  }
+  if (viewer.userRole === "SUPER_ADMIN") return true
+  if (viewer.userRole !== "SCHOOL_ADMIN" || !viewer.schoolId) return false
+
+  const [student] = await db
+    .select({ schoolId: users.schoolId })
+    .from(users)
+    .where(eq(users.id, evaluation.studentId))
+    .limit(1)
+  return student?.schoolId === viewer.schoolId
+}
+
+type Tx = Parameters<Parameters<typeof db.transaction>[0]>[0]
+
+async function loadForUpdate(tx: Tx, evaluationId: string) {
+  const [evaluation] = await tx
+    .select()
+    .from(evaluations)
+    .where(eq(evaluations.id, evaluationId))
+    .limit(1)
+    .for("update")
+  if (!evaluation) return null
+
+  const signatures = await tx
+    .select()
+    .from(evaluationSignatures)
+    .where(eq(evaluationSignatures.evaluationId, evaluationId))
+    .orderBy(asc(evaluationSignatures.signedAt))
+  return { evaluation, signatures }
+}
+
+/**
+ * Invalidate signatures whose content no longer matches and bring the summary
+ * flags on the evaluation in line. Returns the roles that were invalidated.
+ */
+async function reconcileSignatures(
+  tx: Tx,
+  evaluation: Evaluation,
+  signatures: EvaluationSignature[],
+  reason: string,
+  now: Date
+): Promise<SignerRole[]> {
+  const summary = summarizeSignatures(evaluation, signatures)
+  const stale = [summary.evaluator, summary.student].filter(
+    (state): state is SignatureState => !!state && !state.valid
+  )
+
+  for (const { signature } of stale) {
+    await tx
+      .update(evaluationSignatures)
+      .set({ invalidatedAt: now, invalidatedReason: reason })
+      .where(eq(evaluationSignatures.id, signature.id))
+  }
+
+  await tx
+    .update(evaluations)
+    .set({
+      evaluatorSignature: !!summary.evaluator?.valid,
+      studentSignature: !!summary.student?.valid,
+      signedAt: summary.fullySigned ? evaluation.signedAt : null,
+    })
+    .where(eq(evaluations.id, evaluation.id))
+
+  return stale.map(({ signature }) => signature.signerRole)
+}
+
+export interface SignEvaluationInput {
+  evaluationId: string
+  userId: string
+  signedName: string
+  ipAddress?: string | null
+  userAgent?: string | null
+  now?: Date
+}
+
+/**
+ * Record a signature by the evaluator or the student. The student can only
+ * sign after the evaluator, so their signature always covers final content.
+ */
+export async function signEvaluation(
+  input: SignEvaluationInput
+): Promise<
+  | SigningResult<{ signature: EvaluationSignature; fullySigned: boolean; locked: boolean }>
+  | SigningError
+> {
+  const now = input.now ?? new Date()
+
+  const result = await db.transaction(async (tx) => {
+    const loaded = await loadForUpdate(tx, input.evaluationId)
+    if (!loaded) return { success: false as const, reason: "not_found" as const }
+    const { evaluation, signatures } = loaded
+
+    const role = signerRoleFor(evaluation, input.userId)
+    if (!role) return { success: false as const, reason: "not_a_party" as const }
+    if (evaluation.lockedAt) return { success: false as const, reason: "locked" as const }
+
+    const summary = summarizeSignatures(evaluation, signatures)
+    const existing = role === "STUDENT" ? summary.student : summary.evaluator
+    if (existing?.valid) return { success: false as const, reason: "already_signed" as const }
+    if (role === "STUDENT" && !summary.evaluator?.valid) {
+      return { success: false as const, reason: "evaluator_must_sign_first" as const }
+    }
+
+    // A stale signature by the same role is superseded by this one
+    if (existing) {
+      await tx
+        .update(evaluationSignatures)
+        .set({ invalidatedAt: now, invalidatedReason: "Superseded by a new signature" })
+        .where(eq(evaluationSignatures.id, existing.signature.id))
+    }
+
+    const [signature] = await tx
+      .insert(evaluationSignatures)
+      .values({
+        evaluationId: evaluation.id,
+        signerId: input.userId,
+        signerRole: role,
+        signedName: input.signedName,
+        contentHash: summary.contentHashes[role],
+        ipAddress: input.ipAddress ?? null,
+        userAgent: input.userAgent ?? null,
+        signedAt: now,
+      })
+      .returning()
+
+    const fullySigned = role === "STUDENT" ? !!summary.evaluator?.valid : !!summary.student?.valid
+    const locked = fullySigned && evaluation.type === "FINAL"
+
+    await tx
+      .update(evaluations)
+      .set({
+        ...(role === "STUDENT" ? { studentSignature: true } : { evaluatorSignature: true }),
+        signedAt: fullySigned ? now : null,
+        lockedAt: locked ? now : null,
+      })
+      .where(eq(evaluations.id, evaluation.id))
+
+    return { success: true as const, signature, fullySigned, locked, evaluation }
+  })
+
+  if (!result.success) return result
+
+  const { evaluation, ...signed } = result
+  const [student] = await db
+    .select({ schoolId: users.schoolId })
+    .from(users)
+    .where(eq(users.id, evaluation.studentId))
+    .limit(1)
+  await emitWebhookEvent(student?.schoolId, "evaluation.signed", {
+    evaluationId: evaluation.id,
+    evaluationType: evaluation.type,
+    studentId: evaluation.studentId,
+    evaluatorId: evaluation.evaluatorId,
+    signerRole: signed.signature.signerRole,
+    signedAt: signed.signature.signedAt,
+    contentHash: signed.signature.contentHash,
+    fullySigned: signed.fullySigned,
+    locked: signed.locked,
+  })
+
+  return signed
+}
+
+/**
+ * Save the student's attestation or rebuttal. Changing it after signing
+ * invalidates the student's signature.
+ */
+export async function saveStudentComment(input: {
+  evaluationId: string
+  userId: string
+  comment: string | null
+  commentType: Evaluation["studentCommentType"]
+  now?: Date
+}): Promise<SigningResult<{ invalidated: SignerRole[] }> | SigningError> {
+  const now = input.now ?? new Date()
+
+  return db.transaction(async (tx) => {
+    const loaded = await loadForUpdate(tx, input.evaluationId)
+    if (!loaded) return { success: false as const, reason: "not_found" as const }
+    const { evaluation, signatures } = loaded
+
+    if (evaluation.studentId !== input.userId) {
+      return { success: false as const, reason: "not_a_party" as const }
+    }
+    if (evaluation.lockedAt) return { success: false as const, reason: "locked" as const }
+
+    const [updated] = await tx
+      .update(evaluations)
+      .set({
+        studentComment: input.comment,
+        studentCommentType: input.comment ? input.commentType : null,
+        updatedAt: now,
+      })
+      .where(eq(evaluations.id, evaluation.id))
+      .returning()
+
+    const invalidated = await reconcileSignatures(
+      tx,
+      updated,
+      signatures,
+      "Student comment changed after signing",
+      now
+    )
+    return { success: true as const, invalidated }
+  })
+}
+
+/**
+ * Apply an evaluator's edit. Signatures covering the old content are
+ * invalidated; locked evaluations cannot be edited.
+ */
+export async function updateEvaluationContent(input: {
+  evaluationId: string
+  userId: string
+  changes: EvaluationContentChanges
+  now?: Date
+}): Promise<SigningResult<{ evaluation: Evaluation; invalidated: SignerRole[] }> | SigningError> {
+  const now = input.now ?? new Date()
+
+  return db.transaction(async (tx) => {
+    const loaded = await loadForUpdate(tx, input.evaluationId)
+    if (!loaded) return { success: false as const, reason: "not_found" as const }
+    const { evaluation, signatures } = loaded
+
+    if (evaluation.evaluatorId !== input.userId) {
+      return { success: false as const, reason: "not_a_party" as const }
+    }
+    if (evaluation.lockedAt) return { success: false as const, reason: "locked" as const }
+
+    const [updated] = await tx
+      .update(evaluations)
+      .set({ ...input.changes, updatedAt: now })
+      .where(eq(evaluations.id, evaluation.id))
+      .returning()
+
+    const invalidated = await reconcileSignatures(
+      tx,
+      updated,
+      signatures,
+      "Evaluation edited after signing",
+      now
+    )
+    return { success: true as const, evaluation: updated, invalidated }
+  })
+}
+
+export async function getEvaluationWithSignatures(evaluationId: string) {
+  const [evaluation] = await db
+    .select()
+    .from(evaluations)
+    .where(eq(evaluations.id, evaluationId))
+    .limit(1)
+  if (!evaluation) return null
+
+  const signatures = await db
+    .select()
+    .from(evaluationSignatures)
+    .where(eq(evaluationSignatures.evaluationId, evaluationId))
+    .orderBy(asc(evaluationSignatures.signedAt))
+  return { evaluation, signatures }
+}
+
+// Certificates
+
+const CERTIFICATE_VERSION = 1
+
+export interface EvaluationCertificatePayload {
+  version: number
+  evaluationId: string
+  evaluationType: Evaluation["type"]
+  observationDate: string
+  student: { id: string; name: string | null }
+  evaluator: { id: string; name: string | null }
+  contentHashes: Record<SignerRole, string>
+  signatures: {
+    role: SignerRole
+    signerId: string
+    signedName: string
+    signedAt: string
+    contentHash: string
+    ipAddress: string | null
+    userAgent: string | null
+  }[]
+  studentCommentType: Evaluation["studentCommentType"]
+  lockedAt: string | null
+  issuedAt: string
+}
+
+export interface EvaluationCertificate {
+  payload: EvaluationCertificatePayload
+  // HMAC-SHA256 of the canonical payload
+  signature: string
+}
+
+function getCertificateSecret(): string {
+  const secret = process.env.EVALUATION_CERTIFICATE_SECRET
+  if (!secret) throw new Error("EVALUATION_CERTIFICATE_SECRET is not configured")
+  return secret
+}
+
+function signCertificatePayload(payload: EvaluationCertificatePayload, secret: string) {
+  return createHmac("sha256", secret).update(canonicalJson(payload)).digest("hex")
+}
+
+/**
+ * Certificate for a fully signed evaluation, or null while either signature
+ * is missing or no longer matches the content.
+ */
+export function buildEvaluationCertificate(
+  evaluation: Evaluation,
+  signatures: EvaluationSignature[],
+  parties: {
+    student: { id: string; name: string | null }
+    evaluator: { id: string; name: string | null }
+  },
+  options: { now?: Date; secret?: string } = {}
+): EvaluationCertificate | null {
+  const summary = summarizeSignatures(evaluation, signatures)
+  if (!summary.fullySigned || !summary.evaluator || !summary.student) return null
+
+  const payload: EvaluationCertificatePayload = {
+    version: CERTIFICATE_VERSION,
+    evaluationId: evaluation.id,
+    evaluationType: evaluation.type,
+    observationDate: evaluation.observationDate.toISOString(),
+    student: parties.student,
+    evaluator: parties.evaluator,
+    contentHashes: summary.contentHashes,
+    signatures: [summary.evaluator.signature, summary.student.signature].map((s) => ({
+      role: s.signerRole,
+      signerId: s.signerId,
+      signedName: s.signedName,
+      signedAt: s.signedAt.toISOString(),
+      contentHash: s.contentHash,
+      ipAddress: s.ipAddress,
+      userAgent: s.userAgent,
+    })),
+    studentCommentType: evaluation.studentCommentType,
+    lockedAt: evaluation.lockedAt?.toISOString() ?? null,
+    issuedAt: (options.now ?? new Date()).toISOString(),
+  }
+
+  return {
+    payload,
+    signature: signCertificatePayload(payload, options.secret ?? getCertificateSecret()),
+  }
+}
+
+/**
+ * Whether the certificate was issued by this server and not altered since.
+ * Callers compare the content hashes with the stored evaluation to tell if
+ * the evaluation itself changed afterwards.
+ */
+export function verifyEvaluationCertificate(
+  certificate: EvaluationCertificate,
+  options: { secret?: string } = {}
+): boolean {
+  if (!certificate?.payload || typeof certificate.signature !== "string") return false
+  const expected = Buffer.from(
+    signCertificatePayload(certificate.payload, options.secret ?? getCertificateSecret())
+  )
+  const provided = Buffer.from(certificate.signature)
+  return expected.length === provided.length && timingSafeEqual(expected, provided)
+}
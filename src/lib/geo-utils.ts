@@ -102,3 +102,237 @@ export function degreesToRadians(degrees: number): number {
 export function radiansToDegrees(radians: number): number {
   return (radians * 180) / Math.PI
 }
+
+/**
+ * GeoJSON position: [longitude, latitude] in degrees.
+ */
+export type GeoJsonPosition = [number, number]
+
+export interface GeofencePolygon {
+  type: "Polygon"
+  // Outer ring first, then holes; each ring is closed
+  coordinates: GeoJsonPosition[][]
+}
+
+export interface GeofenceMultiPolygon {
+  type: "MultiPolygon"
+  coordinates: GeoJsonPosition[][][]
+}
+
+export type GeofenceBoundary = GeofencePolygon | GeofenceMultiPolygon
+
+/**
+ * Largest GPS accuracy (meters) allowed to widen a boundary. Readings worse
+ * than this are rejected by accuracy validation anyway.
+ */
+export const MAX_ACCURACY_BUFFER_METERS = 50
+
+const EARTH_RADIUS_METERS = 6371e3
+
+function parsePosition(value: unknown): GeoJsonPosition {
+  if (!Array.isArray(value) || value.length < 2) {
+    throw new Error("Each position must be a [longitude, latitude] pair")
+  }
+  const [lon, lat] = value
+  if (
+    typeof lon !== "number" ||
+    typeof lat !== "number" ||
+    !Number.isFinite(lon) ||
+    !Number.isFinite(lat)
+  ) {
+    throw new Error("Positions must contain numeric coordinates")
+  }
+  if (lon < -180 || lon > 180 || lat < -90 || lat > 90) {
+    throw new Error("Position is outside valid longitude/latitude ranges")
+  }
+  return [lon, lat]
+}
+
+function parseRing(value: unknown): GeoJsonPosition[] {
+  if (!Array.isArray(value)) {
+    throw new Error("Polygon rings must be arrays of positions")
+  }
+  const ring = value.map(parsePosition)
+  const [first] = ring
+  const last = ring[ring.length - 1]
+  // Accept open rings from hand-drawn input and close them here
+  if (first && (first[0] !== last[0] || first[1] !== last[1])) {
+    ring.push([first[0], first[1]])
+  }
+  if (ring.length < 4) {
+    throw new Error("Polygon rings need at least three distinct points")
+  }
+  return ring
+}
+
+function parsePolygonCoordinates(value: unknown): GeoJsonPosition[][] {
+  if (!Array.isArray(value) || value.length === 0) {
+    throw new Error("Polygon must have at least one ring")
+  }
+  return value.map(parseRing)
+}
+
+function collectPolygons(value: unknown, polygons: GeoJsonPosition[][][]) {
+  if (!value || typeof value !== "object") {
+    throw new Error("Boundary must be a GeoJSON object")
+  }
+  const geo = value as {
+    type?: unknown
+    coordinates?: unknown
+    geometry?: unknown
+    features?: unknown
+  }
+
+  switch (geo.type) {
+    case "Polygon":
+      polygons.push(parsePolygonCoordinates(geo.coordinates))
+      return
+    case "MultiPolygon":
+      if (!Array.isArray(geo.coordinates)) {
+        throw new Error("MultiPolygon coordinates must be an array")
+      }
+      for (const polygon of geo.coordinates) {
+        polygons.push(parsePolygonCoordinates(polygon))
+      }
+      return
+    case "Feature":
+      collectPolygons(geo.geometry, polygons)
+      return
+    case "FeatureCollection":
+      if (!Array.isArray(geo.features)) {
+        throw new Error("FeatureCollection features must be an array")
+      }
+      for (const feature of geo.features) {
+        collectPolygons(feature, polygons)
+      }
+      return
+    default:
+      throw new Error("Boundary must be a Polygon or MultiPolygon")
+  }
+}
+
+/**
+ * Validate GeoJSON input and normalize it to a Polygon or MultiPolygon.
+ * Accepts a geometry, a Feature, or a FeatureCollection of polygon features.
+ * @param input - Parsed GeoJSON
+ * @returns Normalized boundary
+ * @throws Error describing the first invalid part of the input
+ */
+export function parseGeofenceBoundary(input: unknown): GeofenceBoundary {
+  const polygons: GeoJsonPosition[][][] = []
+  collectPolygons(input, polygons)
+
+  if (polygons.length === 0) {
+    throw new Error("Boundary does not contain any polygons")
+  }
+  return polygons.length === 1
+    ? { type: "Polygon", coordinates: polygons[0] }
+    : { type: "MultiPolygon", coordinates: polygons }
+}
+
+/**
+ * Wrap a boundary in a GeoJSON Feature for export.
+ * @param boundary - Boundary geometry
+ * @param properties - Feature properties
+ * @returns GeoJSON Feature
+ */
+export function boundaryToFeature(
+  boundary: GeofenceBoundary,
+  properties: Record<string, unknown> = {}
+) {
+  return { type: "Feature" as const, geometry: boundary, properties }
+}
+
+function getPolygons(boundary: GeofenceBoundary): GeoJsonPosition[][][] {
+  return boundary.type === "Polygon" ? [boundary.coordinates] : boundary.coordinates
+}
+
+function isPointInRing(lat: number, lon: number, ring: GeoJsonPosition[]): boolean {
+  let inside = false
+  for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+    const [xi, yi] = ring[i]
+    const [xj, yj] = ring[j]
+    if (yi > lat !== yj > lat && lon < ((xj - xi) * (lat - yi)) / (yj - yi) + xi) {
+      inside = !inside
+    }
+  }
+  return inside
+}
+
+/**
+ * Check if a point lies inside a polygon boundary (ray casting; holes excluded).
+ * @param lat - Latitude of the point
+ * @param lon - Longitude of the point
+ * @param boundary - Polygon or MultiPolygon
+ * @returns True if the point is inside any polygon and outside its holes
+ */
+export function isPointInBoundary(lat: number, lon: number, boundary: GeofenceBoundary): boolean {
+  return getPolygons(boundary).some(
+    ([outer, ...holes]) =>
+      isPointInRing(lat, lon, outer) && !holes.some((hole) => isPointInRing(lat, lon, hole))
+  )
+}
+
+/**
+ * Distance from a point to the nearest boundary edge. Uses a local flat
+ * projection, which is accurate at the scale of a clinical site.
+ * @param lat - Latitude of the point
+ * @param lon - Longitude of the point
+ * @param boundary - Polygon or MultiPolygon
+ * @returns 0 when the point is inside, otherwise distance in meters
+ */
+export function distanceToBoundary(lat: number, lon: number, boundary: GeofenceBoundary): number {
+  if (isPointInBoundary(lat, lon, boundary)) return 0
+
+  const metersPerDegree = (Math.PI / 180) * EARTH_RADIUS_METERS
+  const lonScale = Math.cos(degreesToRadians(lat))
+  const project = ([pLon, pLat]: GeoJsonPosition) => [
+    (pLon - lon) * lonScale * metersPerDegree,
+    (pLat - lat) * metersPerDegree,
+  ]
+
+  let min = Number.POSITIVE_INFINITY
+  for (const polygon of getPolygons(boundary)) {
+    for (const ring of polygon) {
+      for (let i = 1; i < ring.length; i++) {
+        const [ax, ay] = project(ring[i - 1])
+        const [bx, by] = project(ring[i])
+        const dx = bx - ax
+        const dy = by - ay
+        const lengthSq = dx * dx + dy * dy
+        // Closest point on segment AB to the origin (the user's position)
+        const t = lengthSq === 0 ? 0 : Math.max(0, Math.min(1, -(ax * dx + ay * dy) / lengthSq))
+        min = Math.min(min, Math.hypot(ax + t * dx, ay + t * dy))
+      }
+    }
+  }
+  return min
+}
+
+/**
+ * Check if a point is within a polygon geofence, widening the boundary by the
+ * reported GPS accuracy so a reading whose error circle overlaps the area passes.
+ * @param lat - Latitude of the point
+ * @param lon - Longitude of the point
+ * @param boundary - Polygon or MultiPolygon
+ * @param accuracyMeters - Reported GPS accuracy in meters (default: 0)
+ * @returns True if the point is inside the buffered boundary
+ */
+export function isWithinBoundary(
+  lat: number,
+  lon: number,
+  boundary: GeofenceBoundary,
+  accuracyMeters = 0
+): boolean {
+  return distanceToBoundary(lat, lon, boundary) <= getAccuracyBuffer(accuracyMeters)
+}
+
+/**
+ * Buffer applied to geofence edges for a given GPS accuracy.
+ * @param accuracyMeters - Reported GPS accuracy in meters
+ * @returns Buffer in meters, capped at MAX_ACCURACY_BUFFER_METERS
+ */
+export function getAccuracyBuffer(accuracyMeters: number): number {
+  if (!Number.isFinite(accuracyMeters) || accuracyMeters <= 0) return 0
+  return Math.min(accuracyMeters, MAX_ACCURACY_BUFFER_METERS)
+}
@@ -0,0 +1,138 @@
+/**
+ * Minimal RFC 5545 writer for subscription feeds. Only the properties our
+ * feeds use are supported; output uses CRLF line endings and folds lines at
+ * 75 octets as calendar clients expect.
+ */
+
+export interface CalendarEvent {
+  // Must stay the same for a given source row so clients update, not duplicate
+  uid: string
+  summary: string
+  start: Date
+  end?: Date | null
+  // All-day events use the UTC calendar date of start and end (inclusive)
+  allDay?: boolean
+  description?: string | null
+  location?: string | null
+  url?: string | null
+  status?: "CONFIRMED" | "TENTATIVE" | "CANCELLED"
+  categories?: string[]
+  lastModified?: Date | null
+}
+
+export interface CalendarOptions {
+  name: string
+  description?: string
+  events: CalendarEvent[]
+  // Suggested refresh interval for subscribing clients
+  refreshMinutes?: number
+  now?: Date
+}
+
+const PRODUCT_ID = "-//MedStint//Clinical Calendar//EN"
+const MAX_LINE_OCTETS = 75
+
+export function escapeText(value: string): string {
+  return value
+    .replace(/\\/g, "\\\\")
+    .replace(/;/g, "\\;")
+    .replace(/,/g, "\\,")
+    .replace(/\r\n|\r|\n/g, "\\n")
+}
+
+/**
+ * Split a content line into 75-octet chunks joined by CRLF + space, without
+ * breaking multi-byte characters.
+ */
+export function foldLine(line: string): string {
+  const encoder = new TextEncoder()
+  if (encoder.encode(line).length <= MAX_LINE_OCTETS) return line
+
+  const chunks: string[] = []
+  let current = ""
+  let currentOctets = 0
+  for (const char of line) {
+    const octets = encoder.encode(char).length
+    // Continuation lines start with a space, which counts towards the limit
+    const limit = chunks.length === 0 ? MAX_LINE_OCTETS : MAX_LINE_OCTETS - 1
+    if (currentOctets + octets > limit) {
+      chunks.push(current)
+      current = ""
+      currentOctets = 0
+    }
+    current += char
+    currentOctets += octets
+  }
+  chunks.push(current)
+  return chunks.join("\r\n ")
+}
+
+export function formatDateTime(date: Date): string {
+  return date
+    .toISOString()
+    .replace(/[-:]/g, "")
+    .replace(/\.\d{3}/, "")
+}
+
+export function formatDate(date: Date): string {
+  return date.toISOString().slice(0, 10).replace(/-/g, "")
+}
+
+function addDays(date: Date, days: number) {
+  const copy = new Date(date)
+  copy.setUTCDate(copy.getUTCDate() + days)
+  return copy
+}
+
+function eventLines(event: CalendarEvent, now: Date): string[] {
+  const lines = [
+    "BEGIN:VEVENT",
+    `UID:${event.uid}`,
+    `DTSTAMP:${formatDateTime(event.lastModified ?? now)}`,
+  ]
+
+  if (event.allDay) {
+    // DTEND is exclusive for all-day events
+    const end = addDays(event.end ?? event.start, 1)
+    lines.push(`DTSTART;VALUE=DATE:${formatDate(event.start)}`)
+    lines.push(`DTEND;VALUE=DATE:${formatDate(end)}`)
+  } else {
+    lines.push(`DTSTART:${formatDateTime(event.start)}`)
+    if (event.end) lines.push(`DTEND:${formatDateTime(event.end)}`)
+  }
+
+  lines.push(`SUMMARY:${escapeText(event.summary)}`)
+  if (event.description) lines.push(`DESCRIPTION:${escapeText(event.description)}`)
+  if (event.location) lines.push(`LOCATION:${escapeText(event.location)}`)
+  if (event.url) lines.push(`URL:${event.url}`)
+  if (event.categories?.length) {
+    lines.push(`CATEGORIES:${event.categories.map(escapeText).join(",")}`)
+  }
+  lines.push(`STATUS:${event.status ?? "CONFIRMED"}`)
+  if (event.lastModified) lines.push(`LAST-MODIFIED:${formatDateTime(event.lastModified)}`)
+  lines.push("END:VEVENT")
+  return lines
+}
+
+export function buildCalendar({
+  name,
+  description,
+  events,
+  refreshMinutes = 60,
+  now = new Date(),
+}: CalendarOptions): string {
+  const lines = [
+    "BEGIN:VCALENDAR",
+    "VERSION:2.0",
+    `PRODID:${PRODUCT_ID}`,
+    "CALSCALE:GREGORIAN",
+    "METHOD:PUBLISH",
+    `X-WR-CALNAME:${escapeText(name)}`,
+    ...(description ? [`X-WR-CALDESC:${escapeText(description)}`] : []),
+    `REFRESH-INTERVAL;VALUE=DURATION:PT${refreshMinutes}M`,
+    `X-PUBLISHED-TTL:PT${refreshMinutes}M`,
+    ...events.flatMap((event) => eventLines(event, now)),
+    "END:VCALENDAR",
+  ]
+  return `${lines.map(foldLine).join("\r\n")}\r\n`
+}
@@ -0,0 +1,179 @@
+import { createHash } from "node:crypto"
+import { and, eq, lt } from "drizzle-orm"
+import { NextResponse } from "next/server"
+import { db } from "../database/connection-pool"
+import { idempotencyKeys } from "../database/schema"
+import { createErrorResponse, HTTP_STATUS } from "./api-response"
+import { logger } from "./logger"
+
+/**
+ * Server-side idempotency for retried mutations. The first request with a key
+ * runs the handler and stores its response; later requests with the same key
+ * get the stored response back instead of repeating the side effect.
+ *
+ * Only responses the handler returns with a status below 500 are stored.
+ * Thrown errors and server errors release the key so the client can retry.
+ */
+
+export const IDEMPOTENCY_HEADER = "Idempotency-Key"
+export const IDEMPOTENCY_REPLAYED_HEADER = "Idempotent-Replayed"
+
+// Long enough to cover a device that stays offline over a weekend
+const DEFAULT_RETENTION_HOURS = 72
+
+const KEY_PATTERN = /^[A-Za-z0-9_.:-]{8,255}$/
+
+export function isValidIdempotencyKey(key: string): boolean {
+  return KEY_PATTERN.test(key)
+}
+
+/**
+ * Stable hash of the request fields that identify the operation. Keys are
+ * sorted so property order does not matter.
+ */
+export function hashIdempotentRequest(fingerprint: unknown): string {
+  const canonical = JSON.stringify(fingerprint, (_key, value) =>
+    value && typeof value === "object" && !Array.isArray(value)
+      ? Object.fromEntries(Object.entries(value).sort(([a], [b]) => a.localeCompare(b)))
+      : value
+  )
+  return createHash("sha256")
+    .update(canonical ?? "")
+    .digest("hex")
+}
+
+function getRetentionMs() {
+  const hours = Number(process.env.IDEMPOTENCY_KEY_TTL_HOURS)
+  return (Number.isFinite(hours) && hours > 0 ? hours : DEFAULT_RETENTION_HOURS) * 60 * 60 * 1000
+}
+
+export interface IdempotencyOptions {
+  userId: string
+  operation: string
+  // Request fields that must be identical when a key is reused
+  fingerprint: unknown
+}
+
+export async function withIdempotency(
+  request: Request,
+  options: IdempotencyOptions,
+  handler: () => Promise<NextResponse>
+): Promise<NextResponse> {
+  const key = request.headers.get(IDEMPOTENCY_HEADER)
+  if (!key) return handler()
+
+  if (!isValidIdempotencyKey(key)) {
+    return createErrorResponse("Invalid idempotency key", HTTP_STATUS.BAD_REQUEST, {
+      code: "INVALID_IDEMPOTENCY_KEY",
+    })
+  }
+
+  const requestHash = hashIdempotentRequest({
+    operation: options.operation,
+    fingerprint: options.fingerprint,
+  })
+  const now = new Date()
+
+  const [claimed] = await db
+    .insert(idempotencyKeys)
+    .values({
+      userId: options.userId,
+      key,
+      operation: options.operation,
+      requestHash,
+      expiresAt: new Date(now.getTime() + getRetentionMs()),
+    })
+    .onConflictDoNothing({ target: [idempotencyKeys.userId, idempotencyKeys.key] })
+    .returning({ id: idempotencyKeys.id })
+
+  if (!claimed) {
+    const [existing] = await db
+      .select()
+      .from(idempotencyKeys)
+      .where(and(eq(idempotencyKeys.userId, options.userId), eq(idempotencyKeys.key, key)))
+      .limit(1)
+
+    // Released between our insert and select; ask the client to retry
+    if (!existing) {
+      return createErrorResponse(
+        "Request with this idempotency key is being processed",
+        HTTP_STATUS.CONFLICT,
+        { code: "IDEMPOTENCY_KEY_IN_PROGRESS" }
+      )
+    }
+
+    if (existing.operation !== options.operation || existing.requestHash !== requestHash) {
+      return createErrorResponse(
+        "Idempotency key was already used for a different request",
+        HTTP_STATUS.UNPROCESSABLE_ENTITY,
+        { code: "IDEMPOTENCY_KEY_MISMATCH" }
+      )
+    }
+
+    if (existing.status !== "COMPLETED" || existing.responseStatus === null) {
+      return createErrorResponse(
+        "Request with this idempotency key is being processed",
+        HTTP_STATUS.CONFLICT,
+        { code: "IDEMPOTENCY_KEY_IN_PROGRESS" }
+      )
+    }
+
+    logger.info(
+      { userId: options.userId, operation: options.operation, key },
+      "Replaying stored idempotent response"
+    )
+    return NextResponse.json(existing.responseBody, {
+      status: existing.responseStatus,
+      headers: { [IDEMPOTENCY_REPLAYED_HEADER]: "true" },
+    })
+  }
+
+  let response: NextResponse
+  try {
+    response = await handler()
+  } catch (error) {
+    await releaseKey(claimed.id)
+    throw error
+  }
+
+  if (response.status >= 500) {
+    await releaseKey(claimed.id)
+    return response
+  }
+
+  const responseBody = await response
+    .clone()
+    .json()
+    .catch(() => null)
+  await db
+    .update(idempotencyKeys)
+    .set({
+      status: "COMPLETED",
+      responseStatus: response.status,
+      responseBody,
+      completedAt: new Date(),
+    })
+    .where(eq(idempotencyKeys.id, claimed.id))
+
+  return response
+}
+
+async function releaseKey(id: string) {
+  try {
+    await db.delete(idempotencyKeys).where(eq(idempotencyKeys.id, id))
+  } catch (error) {
+    // The key stays IN_PROGRESS until it expires; retries get 409 in the meantime
+    logger.error({ err: error, id }, "Failed to release idempotency key")
+  }
+}
+
+/**
+ * Delete stored responses past their retention window.
+ */
+export async function purgeExpiredIdempotencyKeys(now: Date = new Date()) {
+  const deleted = await db
+    .delete(idempotencyKeys)
+    .where(lt(idempotencyKeys.expiresAt, now))
+    .returning({ id: idempotencyKeys.id })
+  return deleted.length
+}
@@ -0,0 +1,219 @@
+import { and, desc, eq, inArray, lt, or, sql } from "drizzle-orm"
+import { db } from "../database/connection-pool"
+import { type InboundWebhookEvent, inboundWebhookEvents } from "../database/schema"
+import { CLERK_EVENT_HANDLERS, type ClerkWebhookEvent } from "./clerk-events"
+import { logger } from "./logger"
+import { STRIPE_EVENT_HANDLERS } from "./payments/stripe-events"
+import { QueueManager, STUCK_JOB_TIMEOUT_MS } from "./queue"
+
+/**
+ * Store for webhooks received from Stripe and Clerk. Each event is recorded
+ * once per provider event id, acknowledged straight away and processed by an
+ * INBOUND_WEBHOOK job, so a redelivery never runs its handler twice and a
+ * failing handler is retried and kept for an admin to replay.
+ */
+
+export type InboundWebhookSource = InboundWebhookEvent["source"]
+export type InboundWebhookStatus = InboundWebhookEvent["status"]
+
+// Settled events an admin may run again. PROCESSED events are excluded because
+// handlers such as checkout completion are not safe to repeat.
+export const REPLAYABLE_STATUSES: InboundWebhookStatus[] = ["FAILED", "IGNORED"]
+
+type InboundHandler = (payload: unknown) => Promise<void>
+
+/**
+ * The handler for an event, given its stored payload, or null when the event
+ * type is not handled.
+ */
+export function resolveInboundWebhookHandler(
+  source: InboundWebhookSource,
+  eventType: string
+): InboundHandler | null {
+  if (source === "STRIPE") {
+    const handler = STRIPE_EVENT_HANDLERS[eventType]
+    // Stored payload is the whole Stripe event
+    return handler
+      ? (payload) => handler((payload as { data: { object: unknown } }).data.object)
+      : null
+  }
+  const handler = CLERK_EVENT_HANDLERS[eventType]
+  return handler ? (payload) => handler((payload as ClerkWebhookEvent).data) : null
+}
+
+export function isReplayable(event: Pick<InboundWebhookEvent, "status">) {
+  return REPLAYABLE_STATUSES.includes(event.status)
+}
+
+export type RecordInboundWebhookResult =
+  | { duplicate: false; event: InboundWebhookEvent }
+  | { duplicate: true; event: InboundWebhookEvent | null }
+
+/**
+ * Record a verified event and queue it for processing. Redeliveries of an
+ * event id already on record are reported as duplicates and not queued again.
+ */
+export async function recordInboundWebhookEvent(input: {
+  source: InboundWebhookSource
+  eventId: string
+  eventType: string
+  payload: unknown
+}): Promise<RecordInboundWebhookResult> {
+  const [event] = await db
+    .insert(inboundWebhookEvents)
+    .values(input)
+    .onConflictDoNothing({ target: [inboundWebhookEvents.source, inboundWebhookEvents.eventId] })
+    .returning()
+
+  if (!event) {
+    const [existing] = await db
+      .select()
+      .from(inboundWebhookEvents)
+      .where(
+        and(
+          eq(inboundWebhookEvents.source, input.source),
+          eq(inboundWebhookEvents.eventId, input.eventId)
+        )
+      )
+      .limit(1)
+    return { duplicate: true, event: existing ?? null }
+  }
+
+  try {
+    await QueueManager.add("INBOUND_WEBHOOK", { eventId: event.id })
+  } catch (error) {
+    // Forget the event so the provider's redelivery is not taken for a duplicate
+    await db.delete(inboundWebhookEvents).where(eq(inboundWebhookEvents.id, event.id))
+    throw error
+  }
+  return { duplicate: false, event }
+}
+
+/**
+ * Run the handler for a stored event and record the outcome. Throws when the
+ * handler fails so the job runner schedules a retry; on the final attempt the
+ * event is marked FAILED first. Events already settled, or being processed by
+ * another worker, are skipped.
+ */
+export async function processInboundWebhookEvent(id: string, finalAttempt: boolean) {
+  const now = new Date()
+  const staleBefore = new Date(now.getTime() - STUCK_JOB_TIMEOUT_MS)
+  const [event] = await db
+    .update(inboundWebhookEvents)
+    .set({
+      status: "PROCESSING",
+      attempts: sql`${inboundWebhookEvents.attempts} + 1`,
+      updatedAt: now,
+    })
+    .where(
+      and(
+        eq(inboundWebhookEvents.id, id),
+        or(
+          inArray(inboundWebhookEvents.status, ["PENDING", "FAILED"]),
+          // Left behind by a crashed worker
+          and(
+            eq(inboundWebhookEvents.status, "PROCESSING"),
+            lt(inboundWebhookEvents.updatedAt, staleBefore)
+          )
+        )
+      )
+    )
+    .returning()
+
+  if (!event) return null
+
+  const handler = resolveInboundWebhookHandler(event.source, event.eventType)
+  if (!handler) {
+    await settle(event.id, "IGNORED")
+    return "IGNORED" as const
+  }
+
+  try {
+    await handler(event.payload)
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error)
+    logger.error(
+      { err: error, eventId: event.eventId, source: event.source, type: event.eventType },
+      "Inbound webhook handler failed"
+    )
+    await db
+      .update(inboundWebhookEvents)
+      .set({
+        status: finalAttempt ? "FAILED" : "PENDING",
+        lastError: message.slice(0, 2000),
+        updatedAt: new Date(),
+      })
+      .where(eq(inboundWebhookEvents.id, event.id))
+    throw error
+  }
+
+  await settle(event.id, "PROCESSED")
+  return "PROCESSED" as const
+}
+
+async function settle(id: string, status: "PROCESSED" | "IGNORED") {
+  const now = new Date()
+  await db
+    .update(inboundWebhookEvents)
+    .set({ status, lastError: null, processedAt: now, updatedAt: now })
+    .where(eq(inboundWebhookEvents.id, id))
+}
+
+export type ReplayInboundWebhookResult =
+  | { ok: true; event: InboundWebhookEvent }
+  | { ok: false; reason: "not_found" | "not_replayable" }
+
+/**
+ * Queue a failed or ignored event to run again with a fresh retry budget.
+ */
+export async function replayInboundWebhookEvent(id: string): Promise<ReplayInboundWebhookResult> {
+  const [event] = await db
+    .update(inboundWebhookEvents)
+    .set({
+      status: "PENDING",
+      replayCount: sql`${inboundWebhookEvents.replayCount} + 1`,
+      updatedAt: new Date(),
+    })
+    .where(
+      and(
+        eq(inboundWebhookEvents.id, id),
+        inArray(inboundWebhookEvents.status, REPLAYABLE_STATUSES)
+      )
+    )
+    .returning()
+
+  if (!event) {
+    const [existing] = await db
+      .select({ id: inboundWebhookEvents.id })
+      .from(inboundWebhookEvents)
+      .where(eq(inboundWebhookEvents.id, id))
+      .limit(1)
+    return { ok: false, reason: existing ? "not_replayable" : "not_found" }
+  }
+
+  await QueueManager.add("INBOUND_WEBHOOK", { eventId: event.id })
+  return { ok: true, event }
+}
+
+/**
+ * Stored events, newest first, for the admin view.
+ */
+export async function listInboundWebhookEvents(filter: {
+  source?: InboundWebhookSource
+  status?: InboundWebhookStatus
+  eventType?: string
+  limit?: number
+}) {
+  return db
+    .select()
+    .from(inboundWebhookEvents)
+    .where(
+      and(
+        filter.source ? eq(inboundWebhookEvents.source, filter.source) : undefined,
+        filter.status ? eq(inboundWebhookEvents.status, filter.status) : undefined,
+        filter.eventType ? eq(inboundWebhookEvents.eventType, filter.eventType) : undefined
+      )
+    )
+    .orderBy(desc(inboundWebhookEvents.receivedAt))
+    .limit(filter.limit ?? 50)
+}
@@ -1,9 +1,7 @@
 import "server-only"
 
 // import pino from 'pino'
-import { db } from "@/database/connection-pool"
-import { auditLogs } from "@/database/schema"
-import crypto from "crypto"
+import { appendAuditLog } from "@/lib/audit-chain"
 
 // Configure Pino
 // const isDev = process.env.NODE_ENV === 'development'
@@ -58,8 +56,7 @@ export const auditLogger = {
       logger.info({ audit: params }, `[Audit] ${params.action}`)
 
       // 2. Persist to Neon Database
-      await db.insert(auditLogs).values({
-        id: crypto.randomUUID(),
+      await appendAuditLog({
         action: params.action,
         userId: params.userId,
         resource: params.resource,
@@ -0,0 +1,265 @@
+import { and, eq, inArray, isNotNull, lt, sql } from "drizzle-orm"
+import { db } from "../database/connection-pool"
+import {
+  type Notification,
+  type NotificationPreference,
+  notificationPreferences,
+  notifications,
+  users,
+} from "../database/schema"
+import { sendNotificationEmail } from "./email-service"
+import { logger } from "./logger"
+
+/**
+ * Single entry point for user notifications. Delivery honours the user's
+ * per-type channel preferences:
+ * - inApp: shown in the notification center
+ * - email: emailed immediately
+ * - digest: collected into a daily summary email
+ */
+
+export type NotificationType = Notification["type"]
+export type NotificationPriority = Notification["priority"]
+
+export const NOTIFICATION_TYPES: NotificationType[] = [
+  "info",
+  "warning",
+  "error",
+  "success",
+  "reminder",
+  "assignment",
+  "evaluation",
+  "system",
+]
+
+export interface NotificationChannels {
+  inApp: boolean
+  email: boolean
+  digest: boolean
+}
+
+// Users who never set preferences keep the behaviour they had before preferences existed
+export const DEFAULT_CHANNELS: NotificationChannels = { inApp: true, email: true, digest: false }
+
+type PreferenceRow = Pick<NotificationPreference, "notificationType" | "inApp" | "email" | "digest">
+
+export function resolveChannels(
+  type: NotificationType,
+  preferences: PreferenceRow[]
+): NotificationChannels {
+  const row = preferences.find((p) => p.notificationType === type)
+  return row ? { inApp: row.inApp, email: row.email, digest: row.digest } : DEFAULT_CHANNELS
+}
+
+export async function getNotificationPreferences(
+  userId: string
+): Promise<Record<NotificationType, NotificationChannels>> {
+  const rows = await db
+    .select()
+    .from(notificationPreferences)
+    .where(eq(notificationPreferences.userId, userId))
+
+  return Object.fromEntries(
+    NOTIFICATION_TYPES.map((type) => [type, resolveChannels(type, rows)])
+  ) as Record<NotificationType, NotificationChannels>
+}
+
+export interface SendNotificationInput {
+  userId: string
+  title: string
+  message: string
+  type: NotificationType
+  priority?: NotificationPriority
+  actionUrl?: string
+  // Button label in the email
+  actionText?: string
+  data?: Record<string, unknown>
+  expiresAt?: Date
+}
+
+function absoluteUrl(actionUrl?: string) {
+  if (!actionUrl) return undefined
+  return actionUrl.startsWith("/") ? `${process.env.NEXT_PUBLIC_APP_URL}${actionUrl}` : actionUrl
+}
+
+/**
+ * Deliver a notification on the channels the user has enabled for its type.
+ * Returns the in-app notification id (null when no row was stored).
+ */
+export async function sendNotification(input: SendNotificationInput) {
+  const [user] = await db
+    .select({ id: users.id, email: users.email })
+    .from(users)
+    .where(eq(users.id, input.userId))
+    .limit(1)
+
+  if (!user) return { notificationId: null, emailed: false }
+
+  const preferences = await db
+    .select()
+    .from(notificationPreferences)
+    .where(
+      and(
+        eq(notificationPreferences.userId, input.userId),
+        eq(notificationPreferences.notificationType, input.type)
+      )
+    )
+  const channels = resolveChannels(input.type, preferences)
+
+  let notificationId: string | null = null
+  if (channels.inApp || channels.digest) {
+    const now = new Date()
+    notificationId = crypto.randomUUID()
+    await db.insert(notifications).values({
+      id: notificationId,
+      userId: input.userId,
+      title: input.title,
+      message: input.message,
+      type: input.type,
+      priority: input.priority ?? "medium",
+      actionUrl: input.actionUrl,
+      data: input.data ?? {},
+      expiresAt: input.expiresAt,
+      // Digest-only notifications are stored for the digest but hidden from the center
+      dismissedAt: channels.inApp ? null : now,
+      digestPending: channels.digest,
+    })
+  }
+
+  let emailed = false
+  if (channels.email && user.email) {
+    emailed = await sendNotificationEmail({
+      to: user.email,
+      subject: input.title,
+      message: input.message,
+      actionUrl: absoluteUrl(input.actionUrl),
+      actionText: input.actionText,
+    })
+  }
+
+  return { notificationId, emailed }
+}
+
+/**
+ * Send the same notification to several users, e.g. every admin of a school.
+ */
+export async function sendNotificationToUsers(
+  userIds: string[],
+  input: Omit<SendNotificationInput, "userId">
+) {
+  for (const userId of userIds) {
+    try {
+      await sendNotification({ ...input, userId })
+    } catch (error) {
+      logger.error({ err: error, userId }, "Failed to send notification")
+    }
+  }
+}
+
+/**
+ * created_at as Postgres prints it. The column keeps microseconds, which a JS
+ * Date would truncate, so cursors carry this text instead.
+ */
+export const notificationCursorTimestamp = sql<string>`${notifications.createdAt}::text`
+
+// e.g. "2026-03-01 10:00:00.123456+00"
+const CURSOR_TIMESTAMP =
+  /^\d{4}-\d{2}-\d{2}[ T]\d{2}:\d{2}:\d{2}(\.\d{1,6})?([+-]\d{2}(:\d{2})?|Z)$/
+
+/**
+ * Opaque pagination cursor over (createdAt desc, id desc), where createdAt is
+ * the notificationCursorTimestamp text of the row.
+ */
+export function encodeNotificationCursor(row: { createdAt: string; id: string }): string {
+  return Buffer.from(`${row.createdAt}|${row.id}`).toString("base64url")
+}
+
+export function decodeNotificationCursor(cursor: string): { createdAt: string; id: string } | null {
+  const decoded = Buffer.from(cursor, "base64url").toString("utf8")
+  const separator = decoded.indexOf("|")
+  if (separator === -1) return null
+
+  const createdAt = decoded.slice(0, separator)
+  const id = decoded.slice(separator + 1)
+  if (!CURSOR_TIMESTAMP.test(createdAt) || !id) return null
+  return { createdAt, id }
+}
+
+/**
+ * Delete notifications whose expiresAt has passed.
+ */
+export async function purgeExpiredNotifications(now: Date = new Date()) {
+  const deleted = await db
+    .delete(notifications)
+    .where(and(isNotNull(notifications.expiresAt), lt(notifications.expiresAt, now)))
+    .returning({ id: notifications.id })
+  return deleted.length
+}
+
+function escapeHtml(text: string) {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+}
+
+/**
+ * Email each user one summary of their pending digest notifications.
+ */
+export async function sendNotificationDigests() {
+  const pending = await db
+    .select({
+      id: notifications.id,
+      userId: notifications.userId,
+      title: notifications.title,
+      message: notifications.message,
+      email: users.email,
+    })
+    .from(notifications)
+    .innerJoin(users, eq(notifications.userId, users.id))
+    .where(eq(notifications.digestPending, true))
+    .orderBy(notifications.createdAt)
+
+  const byUser = new Map<string, typeof pending>()
+  for (const row of pending) {
+    const list = byUser.get(row.userId) ?? []
+    list.push(row)
+    byUser.set(row.userId, list)
+  }
+
+  let sent = 0
+  for (const [userId, items] of byUser) {
+    const message = items
+      .map((item) => `<strong>${escapeHtml(item.title)}</strong><br>${escapeHtml(item.message)}`)
+      .join("<br><br>")
+
+    const delivered = items[0].email
+      ? await sendNotificationEmail({
+          to: items[0].email,
+          subject: `Your daily summary: ${items.length} notification${items.length === 1 ? "" : "s"}`,
+          message,
+          actionUrl: absoluteUrl("/dashboard/notifications"),
+          actionText: "View Notifications",
+        })
+      : false
+
+    // Users without an email address are cleared too so the queue does not grow forever
+    if (delivered || !items[0].email) {
+      await db
+        .update(notifications)
+        .set({ digestPending: false, updatedAt: new Date() })
+        .where(
+          inArray(
+            notifications.id,
+            items.map((item) => item.id)
+          )
+        )
+      if (delivered) sent++
+    } else {
+      logger.warn({ userId }, "Notification digest email failed; will retry next run")
+    }
+  }
+
+  return sent
+}
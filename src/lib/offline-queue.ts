@@ -6,12 +6,15 @@
  */
 
 import { logger } from "./client-logger"
+import { getCSRFToken } from "./safe-fetch"
 
 export interface QueuedOperation {
   id: string
   type: "clock-in" | "clock-out" | "time-sync"
   data: any
   timestamp: number
+  // Sent with every replay so the server applies the operation at most once
+  idempotencyKey: string
   retryCount: number
   maxRetries: number
   priority: "high" | "medium" | "low"
@@ -27,6 +30,19 @@ export interface OfflineQueueConfig {
   conflictResolution: "merge" | "overwrite" | "manual"
 }
 
+/**
+ * Headers for clock mutations, shared with ClockServiceClient
+ */
+export function clockRequestHeaders(idempotencyKey: string): HeadersInit {
+  const headers: Record<string, string> = {
+    "Content-Type": "application/json",
+    "Idempotency-Key": idempotencyKey,
+  }
+  const csrfToken = getCSRFToken()
+  if (csrfToken) headers["x-csrf-token"] = csrfToken
+  return headers
+}
+
 const DEFAULT_CONFIG: OfflineQueueConfig = {
   maxQueueSize: 100,
   maxRetries: 3,
@@ -60,9 +76,14 @@ export class OfflineQueue {
   /**
    * Add operation to queue
    */
-  enqueue(operation: Omit<QueuedOperation, "id" | "retryCount" | "status">): string {
+  enqueue(
+    operation: Omit<QueuedOperation, "id" | "retryCount" | "status" | "idempotencyKey"> & {
+      idempotencyKey?: string
+    }
+  ): string {
     const queuedOperation: QueuedOperation = {
       ...operation,
+      idempotencyKey: operation.idempotencyKey ?? crypto.randomUUID(),
       id: this.generateId(),
       retryCount: 0,
       status: "pending",
@@ -283,13 +304,14 @@ export class OfflineQueue {
    * Execute clock-in operation
    */
   private async executeClockIn(operation: QueuedOperation): Promise<void> {
-    const response = await fetch("/api/clock/in", {
+    const response = await fetch("/api/student/clock-in", {
       method: "POST",
-      headers: {
-        "Content-Type": "application/json",
-      },
+      headers: clockRequestHeaders(operation.idempotencyKey),
       body: JSON.stringify({
         ...operation.data,
+        capturedAt: operation.data.capturedAt ?? new Date(operation.timestamp).toISOString(),
+        // Send time, so the server can correct the capture time for device clock drift
+        clientTimestamp: new Date().toISOString(),
         offlineTimestamp: operation.timestamp,
         queueId: operation.id,
       }),
@@ -309,13 +331,14 @@ export class OfflineQueue {
    * Execute clock-out operation
    */
   private async executeClockOut(operation: QueuedOperation): Promise<void> {
-    const response = await fetch("/api/clock/out", {
+    const response = await fetch("/api/student/clock-out", {
       method: "POST",
-      headers: {
-        "Content-Type": "application/json",
-      },
+      headers: clockRequestHeaders(operation.idempotencyKey),
       body: JSON.stringify({
         ...operation.data,
+        capturedAt: operation.data.capturedAt ?? new Date(operation.timestamp).toISOString(),
+        // Send time, so the server can correct the capture time for device clock drift
+        clientTimestamp: new Date().toISOString(),
         offlineTimestamp: operation.timestamp,
         queueId: operation.id,
       }),
@@ -419,6 +442,10 @@ export class OfflineQueue {
       const stored = localStorage.getItem(this.config.storageKey)
       if (stored) {
         this.queue = JSON.parse(stored)
+        // Operations queued before idempotency keys existed get one now, before their first replay
+        for (const operation of this.queue) {
+          operation.idempotencyKey ??= crypto.randomUUID()
+        }
         logger.info(
           {
             operationCount: this.queue.length,
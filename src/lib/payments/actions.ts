@@ -4,7 +4,14 @@ import { eq, and, sql } from "drizzle-orm"
 import { getCurrentUser } from "@/lib/auth-clerk"
 import { db } from "@/database/connection-pool"
 import { subscriptions, schools, seatAssignments, users } from "@/database/schema"
+import { applySubscriptionChange } from "@/lib/payments/proration"
 import { stripe } from "@/lib/payments/stripe"
+import {
+  assignSchoolSeat,
+  checkSeatThresholds,
+  reconcileSeats,
+  releaseSchoolSeat,
+} from "@/lib/seat-lifecycle"
 import { getSchoolSeatPlans } from "./plans-service"
 
 interface Subscription {
@@ -89,7 +96,8 @@ export async function getActiveSubscription(): Promise<{
 
 export async function updateExistingSubscription(
   subId: string,
-  switchToPriceId: string
+  switchToPriceId: string,
+  prorationDate?: number
 ): Promise<{ status: boolean; message: string }> {
   const user = await getCurrentUser()
   if (!user) {
@@ -122,16 +130,9 @@ export async function updateExistingSubscription(
       }
     }
 
-    await stripe.subscriptions.update(subId, {
-      items: [
-        {
-          id: subscription.items.data[0].id,
-          price: switchToPriceId,
-        },
-      ],
-      cancel_at_period_end: false,
-      proration_behavior: "create_prorations",
-    })
+    // Same proration date as the preview the user confirmed. Switching plans keeps the
+    // subscription going, so it also clears a scheduled cancellation.
+    await applySubscriptionChange(subId, { priceId: switchToPriceId, resume: true }, prorationDate)
 
     return {
       status: true,
@@ -247,17 +248,75 @@ export async function cancelSubscription(): Promise<{
   }
 }
 
+/**
+ * Stripe billing portal session where the user can replace a failing card.
+ */
+export async function createBillingPortalSession(
+  returnUrl: string
+): Promise<{ status: boolean; url?: string; message?: string }> {
+  const user = await getCurrentUser()
+  if (!user) {
+    return {
+      status: false,
+      message: "You need to be logged in.",
+    }
+  }
+
+  if (!stripe) {
+    return {
+      status: false,
+      message: "Stripe is not configured.",
+    }
+  }
+
+  try {
+    const [subscription] = await db
+      .select({ stripeCustomerId: subscriptions.stripeCustomerId })
+      .from(subscriptions)
+      .where(eq(subscriptions.referenceId, user.id))
+      .limit(1)
+
+    const customerId = user.stripeCustomerId ?? subscription?.stripeCustomerId
+    if (!customerId) {
+      return {
+        status: false,
+        message: "No billing account found.",
+      }
+    }
+
+    const session = await stripe.billingPortal.sessions.create({
+      customer: customerId,
+      return_url: returnUrl,
+    })
+
+    return {
+      status: true,
+      url: session.url,
+    }
+  } catch (error) {
+    console.error("Error creating billing portal session:", error)
+    return {
+      status: false,
+      message: "Failed to open the billing portal.",
+    }
+  }
+}
+
 export async function purchaseSeats(
   schoolId: string,
   quantity: number,
   interval: "month" | "year",
   successUrl: string,
-  cancelUrl: string
+  cancelUrl: string,
+  prorationDate?: number
 ): Promise<{ status: boolean; url?: string; message?: string }> {
   const user = await getCurrentUser()
   if (!user || (user.role !== "SCHOOL_ADMIN" && user.role !== "SUPER_ADMIN")) {
     return { status: false, message: "Unauthorized" }
   }
+  if (user.role === "SCHOOL_ADMIN" && user.schoolId !== schoolId) {
+    return { status: false, message: "Unauthorized" }
+  }
 
   if (!stripe) {
     return { status: false, message: "Stripe is not configured" }
@@ -273,6 +332,36 @@ export async function purchaseSeats(
 
   const priceId = selectedPlan.stripePriceId
 
+  const [school] = await db
+    .select({ seatStripeSubscriptionId: schools.seatStripeSubscriptionId })
+    .from(schools)
+    .where(eq(schools.id, schoolId))
+    .limit(1)
+
+  // Mid-term purchases join the existing seat subscription, prorated to its renewal date
+  if (school?.seatStripeSubscriptionId) {
+    try {
+      await applySubscriptionChange(
+        school.seatStripeSubscriptionId,
+        { priceId, addQuantity: quantity },
+        prorationDate
+      )
+      await db
+        .update(schools)
+        .set({ seatsLimit: sql`${schools.seatsLimit} + ${quantity}`, updatedAt: new Date() })
+        .where(eq(schools.id, schoolId))
+      await checkSeatThresholds(schoolId)
+
+      return {
+        status: true,
+        message: `Added ${quantity} seat${quantity === 1 ? "" : "s"} to your subscription.`,
+      }
+    } catch (error) {
+      console.error("Error adding seats to subscription:", error)
+      return { status: false, message: "Failed to add seats to your subscription" }
+    }
+  }
+
   try {
     const session = await stripe.checkout.sessions.create({
       mode: "subscription",
@@ -300,6 +389,12 @@ export async function purchaseSeats(
   }
 }
 
+const SEAT_ASSIGNMENT_MESSAGES = {
+  school_not_found: "School does not support seat assignment",
+  not_school_pays: "School does not support seat assignment",
+  seat_limit_reached: "School seat limit reached",
+} as const
+
 export async function assignSeat(
   studentId: string,
   schoolId: string
@@ -309,47 +404,10 @@ export async function assignSeat(
   if (!user) return { status: false, message: "Unauthorized" }
 
   try {
-    return await db.transaction(async (tx) => {
-      // Check school limits
-      const [school] = await tx.select().from(schools).where(eq(schools.id, schoolId)).limit(1)
-
-      if (!school || school.billingModel !== "SCHOOL_PAYS") {
-        return { status: false, message: "School does not support seat assignment" }
-      }
-
-      if (school.seatsUsed >= school.seatsLimit) {
-        return { status: false, message: "School seat limit reached" }
-      }
-
-      // Check if student already has a seat
-      const existing = await tx
-        .select()
-        .from(seatAssignments)
-        .where(and(eq(seatAssignments.studentId, studentId), eq(seatAssignments.status, "ACTIVE")))
-        .limit(1)
-
-      if (existing.length) {
-        return { status: true, message: "Seat already assigned" }
-      }
-
-      // Assign seat
-      await tx.insert(seatAssignments).values({
-        schoolId,
-        studentId,
-        status: "ACTIVE",
-      })
-
-      // Increment usage
-      await tx
-        .update(schools)
-        .set({ seatsUsed: sql`${schools.seatsUsed} + 1` })
-        .where(eq(schools.id, schoolId))
-
-      // Update user subscription status
-      await tx.update(users).set({ subscriptionStatus: "ACTIVE" }).where(eq(users.id, studentId))
-
-      return { status: true, message: "Seat assigned successfully" }
-    })
+    const result = await assignSchoolSeat(studentId, schoolId)
+    if (!result.ok) return { status: false, message: SEAT_ASSIGNMENT_MESSAGES[result.reason] }
+    if (result.alreadyAssigned) return { status: true, message: "Seat already assigned" }
+    return { status: true, message: "Seat assigned successfully" }
   } catch (error) {
     console.error("Error assigning seat:", error)
     return { status: false, message: "Failed to assign seat" }
@@ -366,157 +424,77 @@ export async function revokeSeat(
   }
 
   try {
-    return await db.transaction(async (tx) => {
-      const [assignment] = await tx
-        .select()
-        .from(seatAssignments)
-        .where(
-          and(
-            eq(seatAssignments.studentId, studentId),
-            eq(seatAssignments.schoolId, schoolId),
-            eq(seatAssignments.status, "ACTIVE")
-          )
-        )
-        .limit(1)
-
-      if (!assignment) {
-        return { status: false, message: "No active seat assignment found" }
-      }
-
-      // Revoke seat
-      await tx
-        .update(seatAssignments)
-        .set({ status: "REVOKED", revokedAt: new Date() })
-        .where(eq(seatAssignments.id, assignment.id))
-
-      // Decrement usage
-      await tx
-        .update(schools)
-        .set({ seatsUsed: sql`${schools.seatsUsed} - 1` })
-        .where(eq(schools.id, schoolId))
-
-      // Update user subscription status
-      await tx.update(users).set({ subscriptionStatus: "NONE" }).where(eq(users.id, studentId))
-
-      return { status: true, message: "Seat revoked successfully" }
-    })
+    const result = await releaseSchoolSeat(studentId, "ADMIN", { schoolId })
+    if (!result.ok) return { status: false, message: "No active seat assignment found" }
+    return { status: true, message: "Seat revoked successfully" }
   } catch (error) {
     console.error("Error revoking seat:", error)
     return { status: false, message: "Failed to revoke seat" }
   }
 }
 
-export async function handleCheckoutCompleted(session: any) {
-  if (session?.metadata?.type === "SEAT_PURCHASE") {
-    const schoolId = session.metadata.schoolId
-    const quantity = parseInt(session.metadata.quantity || "0")
-
-    if (schoolId && quantity > 0) {
-      try {
-        await db
-          .update(schools)
-          .set({
-            seatsLimit: sql`${schools.seatsLimit} + ${quantity}`,
-            billingModel: "SCHOOL_PAYS",
-          })
-          .where(eq(schools.id, schoolId))
-      } catch (error) {
-        console.error("Error updating school seats:", error)
-      }
-    }
-    return
-  }
-
-  if (!session?.metadata?.userId) {
-    console.error("Missing userId in checkout session metadata")
-    return
-  }
-
-  const userId = session.metadata.userId
-  const subscriptionId = session.subscription as string
-
-  try {
-    const subscription = (await stripe.subscriptions.retrieve(subscriptionId)) as any
-
-    await db.insert(subscriptions).values({
-      id: crypto.randomUUID(),
-      referenceId: userId,
-      stripeSubscriptionId: subscriptionId,
-      status: subscription.status,
-      plan: subscription.items.data[0].price.id,
-      periodStart: new Date(subscription.current_period_start * 1000),
-      periodEnd: new Date(subscription.current_period_end * 1000),
-      cancelAtPeriodEnd: subscription.cancel_at_period_end,
-    })
-  } catch (error) {
-    console.error("Error handling checkout completed:", error)
+export async function setSeatAutoExpand(
+  schoolId: string,
+  enabled: boolean
+): Promise<{ status: boolean; message: string }> {
+  const user = await getCurrentUser()
+  if (
+    !user ||
+    (user.role !== "SUPER_ADMIN" && (user.role !== "SCHOOL_ADMIN" || user.schoolId !== schoolId))
+  ) {
+    return { status: false, message: "Unauthorized" }
   }
-}
-
-export async function handleInvoicePaid(invoice: any) {
-  const subscriptionId = invoice.subscription as string
-  if (!subscriptionId) return
 
   try {
-    const subscription = (await stripe.subscriptions.retrieve(subscriptionId)) as any
+    const [school] = await db.select().from(schools).where(eq(schools.id, schoolId)).limit(1)
+    if (!school || school.billingModel !== "SCHOOL_PAYS") {
+      return { status: false, message: "School does not support seat assignment" }
+    }
+    if (enabled && !school.seatStripeSubscriptionId) {
+      return { status: false, message: "Purchase seats before enabling automatic seat purchases" }
+    }
 
     await db
-      .update(subscriptions)
-      .set({
-        status: subscription.status,
-        periodStart: new Date(subscription.current_period_start * 1000),
-        periodEnd: new Date(subscription.current_period_end * 1000),
-      })
-      .where(eq(subscriptions.stripeSubscriptionId, subscriptionId))
-  } catch (error) {
-    console.error("Error handling invoice paid:", error)
-  }
-}
-
-export async function handlePaymentFailed(invoice: any) {
-  const subscriptionId = invoice.subscription as string
-  if (!subscriptionId) return
+      .update(schools)
+      .set({ seatAutoExpand: enabled, updatedAt: new Date() })
+      .where(eq(schools.id, schoolId))
 
-  try {
-    await db
-      .update(subscriptions)
-      .set({
-        status: "past_due",
-      })
-      .where(eq(subscriptions.stripeSubscriptionId, subscriptionId))
+    return {
+      status: true,
+      message: enabled ? "Automatic seat purchases enabled" : "Automatic seat purchases disabled",
+    }
   } catch (error) {
-    console.error("Error handling payment failed:", error)
+    console.error("Error updating seat auto-expand:", error)
+    return { status: false, message: "Failed to update seat settings" }
   }
 }
 
-export async function handleSubscriptionUpdated(subscription: any) {
-  try {
-    await db
-      .update(subscriptions)
-      .set({
-        status: subscription.status,
-        plan: subscription.items.data[0].price.id,
-        cancelAtPeriodEnd: subscription.cancel_at_period_end,
-        periodStart: new Date(subscription.current_period_start * 1000),
-        periodEnd: new Date(subscription.current_period_end * 1000),
-      })
-      .where(eq(subscriptions.stripeSubscriptionId, subscription.id))
-  } catch (error) {
-    console.error("Error handling subscription updated:", error)
+export async function reconcileSchoolSeats(
+  schoolId: string
+): Promise<{ status: boolean; message: string }> {
+  const user = await getCurrentUser()
+  if (
+    !user ||
+    (user.role !== "SUPER_ADMIN" && (user.role !== "SCHOOL_ADMIN" || user.schoolId !== schoolId))
+  ) {
+    return { status: false, message: "Unauthorized" }
   }
-}
 
-export async function handleSubscriptionDeleted(subscription: any) {
   try {
-    await db
-      .update(subscriptions)
-      .set({
-        status: "canceled",
-        cancelAtPeriodEnd: false,
-      })
-      .where(eq(subscriptions.stripeSubscriptionId, subscription.id))
+    const [result] = await reconcileSeats({ schoolId })
+    if (!result) return { status: false, message: "School does not support seat assignment" }
+
+    const released = result.released.length
+    return {
+      status: true,
+      message:
+        released > 0
+          ? `Released ${released} seat${released === 1 ? "" : "s"} from graduated, withdrawn or departed students`
+          : "Seat usage is up to date",
+    }
   } catch (error) {
-    console.error("Error handling subscription deleted:", error)
+    console.error("Error reconciling seats:", error)
+    return { status: false, message: "Failed to reconcile seats" }
   }
 }
 
@@ -536,7 +514,9 @@ export async function checkSchoolBillingStatus(schoolId: string): Promise<{
 
     return {
       supported: true,
-      seatsAvailable: school.seatsUsed < school.seatsLimit,
+      seatsAvailable:
+        school.seatsUsed < school.seatsLimit ||
+        (school.seatAutoExpand && Boolean(school.seatStripeSubscriptionId)),
     }
   } catch (error) {
     console.error("Error checking school billing:", error)
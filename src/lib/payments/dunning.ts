@@ -0,0 +1,401 @@
+import { and, eq, gte, inArray, lte, or } from "drizzle-orm"
+import { db } from "@/database/connection-pool"
+import { rotations, type User, users } from "@/database/schema"
+import { logger } from "@/lib/logger"
+import {
+  type NotificationPriority,
+  sendNotification,
+  sendNotificationToUsers,
+} from "@/lib/notification-service"
+
+/**
+ * Dunning for student subscriptions. A failed payment starts a grace period in
+ * which the student keeps full access, clocking in included, and sees a
+ * banner while reminders escalate. Once it runs out the account is read-only:
+ * records stay visible and an open shift can still be clocked out, but new
+ * clock-ins, submissions and every other write are refused until the payment
+ * is fixed.
+ */
+
+export const DEFAULT_GRACE_PERIOD_DAYS = 14
+export const DEFAULT_DUNNING_REMINDER_DAYS = [0, 3, 7, 12]
+
+export const READ_ONLY_MESSAGE =
+  "Your subscription payment is overdue, so your account is read-only. Update your payment method to clock in and submit records again."
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+/**
+ * Days of full access after a failed payment, from SUBSCRIPTION_GRACE_DAYS.
+ */
+export function getGracePeriodDays(raw = process.env.SUBSCRIPTION_GRACE_DAYS): number {
+  const parsed = Number.parseInt((raw ?? "").trim(), 10)
+  return Number.isInteger(parsed) && parsed >= 0 ? parsed : DEFAULT_GRACE_PERIOD_DAYS
+}
+
+/**
+ * Days after a failed payment on which reminders are sent, from
+ * DUNNING_REMINDER_DAYS (e.g. "0,3,7,12"), sorted earliest first.
+ */
+export function getDunningReminderDays(raw = process.env.DUNNING_REMINDER_DAYS): number[] {
+  const parsed = (raw ?? "")
+    .split(",")
+    .map((value) => Number.parseInt(value.trim(), 10))
+    .filter((value) => Number.isInteger(value) && value >= 0)
+  const days = parsed.length > 0 ? parsed : DEFAULT_DUNNING_REMINDER_DAYS
+  return [...new Set(days)].sort((a, b) => a - b)
+}
+
+export type SubscriptionAccess = "FULL" | "GRACE" | "READ_ONLY"
+
+export interface SubscriptionAccessState {
+  access: SubscriptionAccess
+  graceEndsAt: Date | null
+}
+
+type DunningSubject = Pick<User, "role" | "subscriptionStatus" | "pastDueSince">
+
+export function graceEndsAt(pastDueSince: Date, graceDays: number) {
+  return new Date(pastDueSince.getTime() + graceDays * DAY_MS)
+}
+
+/**
+ * What a user may do given their subscription. Only students pay for
+ * themselves; students who never subscribed are left to onboarding.
+ */
+export function subscriptionAccessFor(
+  user: DunningSubject,
+  now: Date = new Date(),
+  graceDays: number = getGracePeriodDays()
+): SubscriptionAccessState {
+  if (user.role !== "STUDENT") return { access: "FULL", graceEndsAt: null }
+
+  switch (user.subscriptionStatus) {
+    case "PAST_DUE": {
+      // Not yet picked up by the sweep: the spell starts now
+      const ends = graceEndsAt(user.pastDueSince ?? now, graceDays)
+      return { access: now < ends ? "GRACE" : "READ_ONLY", graceEndsAt: ends }
+    }
+    case "CANCELLED":
+      return { access: "READ_ONLY", graceEndsAt: null }
+    default:
+      return { access: "FULL", graceEndsAt: null }
+  }
+}
+
+/**
+ * The reminder day to send now, or null. Only the latest day reached is sent,
+ * so a sweep that missed a run does not send a burst of reminders. Days at or
+ * after the end of the grace period are covered by the read-only notice.
+ */
+export function dueDunningReminder(
+  pastDueSince: Date,
+  now: Date,
+  reminderDays: number[],
+  graceDays: number,
+  lastReminderDay: number | null
+): number | null {
+  const elapsed = Math.floor((now.getTime() - pastDueSince.getTime()) / DAY_MS)
+  const reached = reminderDays.filter((day) => day <= elapsed && day < graceDays)
+  if (reached.length === 0) return null
+
+  const day = Math.max(...reached)
+  if (lastReminderDay !== null && lastReminderDay >= day) return null
+  return day
+}
+
+/**
+ * The current user's access, for pages and write endpoints.
+ */
+export async function getSubscriptionAccess(
+  userId: string,
+  now: Date = new Date()
+): Promise<SubscriptionAccessState> {
+  const [user] = await db
+    .select({
+      role: users.role,
+      subscriptionStatus: users.subscriptionStatus,
+      pastDueSince: users.pastDueSince,
+    })
+    .from(users)
+    .where(eq(users.id, userId))
+    .limit(1)
+
+  if (!user) return { access: "FULL", graceEndsAt: null }
+  return subscriptionAccessFor(user, now)
+}
+
+export async function isReadOnlyStudent(userId: string) {
+  return (await getSubscriptionAccess(userId)).access === "READ_ONLY"
+}
+
+// Writes a read-only student can still make: finishing an open shift, paying,
+// and their own notifications and profile
+const READ_ONLY_ALLOWED_WRITES = [
+  "/api/student/clock-out",
+  "/api/clock/sync-out",
+  "/api/billing",
+  "/api/notifications",
+  "/api/user",
+]
+
+/**
+ * Whether a read-only student is refused this request. The proxy checks every
+ * API request, so new write endpoints are covered without a check of their own.
+ */
+export function isRefusedWhenReadOnly(method: string, pathname: string) {
+  if (["GET", "HEAD", "OPTIONS"].includes(method.toUpperCase())) return false
+  if (!pathname.startsWith("/api/")) return false
+  return !READ_ONLY_ALLOWED_WRITES.some(
+    (allowed) => pathname === allowed || pathname.startsWith(`${allowed}/`)
+  )
+}
+
+function reminderFor(day: number, reminderDays: number[], graceDays: number, daysLeft: number) {
+  const days = reminderDays.filter((d) => d < graceDays)
+  const stage = days.filter((d) => d < day).length
+  const final = days.every((d) => d <= day)
+  const remaining = `${daysLeft} day${daysLeft === 1 ? "" : "s"}`
+  const priority: NotificationPriority = final ? "urgent" : stage === 0 ? "medium" : "high"
+
+  return {
+    title: final
+      ? "Final notice: update your payment method"
+      : stage === 0
+        ? "Your subscription payment failed"
+        : "Reminder: your subscription payment is overdue",
+    message: `Your account becomes read-only in ${remaining}. Until then you can keep clocking in as usual. Update your payment method to avoid interruption.`,
+    priority,
+  }
+}
+
+export interface DunningSweepResult {
+  reminded: number
+  readOnly: number
+  adminAlerts: number
+}
+
+interface AtRiskAlert {
+  studentId: string
+  studentName: string | null
+  readOnly: boolean
+}
+
+/**
+ * Daily pass over past due students: sends the reminder that is due, tells
+ * students whose grace period ended that their account is read-only, and
+ * alerts school admins about students who entered either stage.
+ */
+export async function runDunningSweep(
+  now: Date = new Date(),
+  graceDays: number = getGracePeriodDays(),
+  reminderDays: number[] = getDunningReminderDays()
+): Promise<DunningSweepResult> {
+  const pastDue = await db
+    .select({
+      id: users.id,
+      name: users.name,
+      schoolId: users.schoolId,
+      role: users.role,
+      subscriptionStatus: users.subscriptionStatus,
+      pastDueSince: users.pastDueSince,
+      dunningReminderDay: users.dunningReminderDay,
+    })
+    .from(users)
+    .where(
+      and(
+        eq(users.role, "STUDENT"),
+        eq(users.subscriptionStatus, "PAST_DUE"),
+        eq(users.isActive, true)
+      )
+    )
+
+  let reminded = 0
+  let readOnly = 0
+  const alerts = new Map<string, AtRiskAlert[]>()
+  const alert = (schoolId: string | null, entry: AtRiskAlert) => {
+    if (!schoolId) return
+    alerts.set(schoolId, [...(alerts.get(schoolId) ?? []), entry])
+  }
+
+  for (const student of pastDue) {
+    const pastDueSince = student.pastDueSince ?? now
+    const state = subscriptionAccessFor({ ...student, pastDueSince }, now, graceDays)
+
+    if (state.access === "READ_ONLY") {
+      if ((student.dunningReminderDay ?? -1) >= graceDays) continue
+
+      await db
+        .update(users)
+        .set({ pastDueSince, dunningReminderDay: graceDays, updatedAt: now })
+        .where(eq(users.id, student.id))
+      await sendNotification({
+        userId: student.id,
+        title: "Your account is now read-only",
+        message: READ_ONLY_MESSAGE,
+        type: "warning",
+        priority: "urgent",
+        actionUrl: "/dashboard/billing",
+        actionText: "Update Payment Method",
+      })
+      alert(student.schoolId, { studentId: student.id, studentName: student.name, readOnly: true })
+      readOnly++
+      continue
+    }
+
+    const day = dueDunningReminder(
+      pastDueSince,
+      now,
+      reminderDays,
+      graceDays,
+      student.dunningReminderDay
+    )
+    if (day === null) continue
+
+    await db
+      .update(users)
+      .set({ pastDueSince, dunningReminderDay: day, updatedAt: now })
+      .where(eq(users.id, student.id))
+
+    const daysLeft = Math.max(
+      1,
+      Math.ceil(((state.graceEndsAt as Date).getTime() - now.getTime()) / DAY_MS)
+    )
+    await sendNotification({
+      userId: student.id,
+      ...reminderFor(day, reminderDays, graceDays, daysLeft),
+      type: "warning",
+      actionUrl: "/dashboard/billing",
+      actionText: "Update Payment Method",
+      data: { graceEndsAt: state.graceEndsAt?.toISOString() },
+    })
+    reminded++
+
+    // Admins hear about a student once when dunning starts and again at read-only
+    if (student.dunningReminderDay === null) {
+      alert(student.schoolId, { studentId: student.id, studentName: student.name, readOnly: false })
+    }
+  }
+
+  for (const [schoolId, students] of alerts) {
+    await notifyAdminsOfAtRiskStudents(schoolId, students)
+  }
+
+  logger.info({ reminded, readOnly, adminAlerts: alerts.size }, "Dunning sweep completed")
+  return { reminded, readOnly, adminAlerts: alerts.size }
+}
+
+async function notifyAdminsOfAtRiskStudents(schoolId: string, students: AtRiskAlert[]) {
+  try {
+    const admins = await db
+      .select({ id: users.id })
+      .from(users)
+      .where(
+        and(eq(users.schoolId, schoolId), eq(users.role, "SCHOOL_ADMIN"), eq(users.isActive, true))
+      )
+    if (admins.length === 0) return
+
+    const lockedOut = students.filter((s) => s.readOnly).length
+    await sendNotificationToUsers(
+      admins.map((admin) => admin.id),
+      {
+        title: `${students.length} student${students.length === 1 ? "" : "s"} with overdue subscription payments`,
+        message: students
+          .map(
+            (s) =>
+              `${s.studentName || "Unnamed student"}: ${s.readOnly ? "now read-only" : "payment failed, in grace period"}`
+          )
+          .join("; "),
+        type: "warning",
+        priority: lockedOut > 0 ? "urgent" : "high",
+        actionUrl: "/dashboard/school-admin/billing",
+        actionText: "View Students at Risk",
+        data: { students },
+      }
+    )
+  } catch (error) {
+    logger.error({ err: error, schoolId }, "Failed to notify admins of at-risk students")
+  }
+}
+
+export interface AtRiskStudent {
+  id: string
+  name: string | null
+  email: string
+  subscriptionStatus: User["subscriptionStatus"]
+  access: SubscriptionAccess
+  pastDueSince: Date | null
+  graceEndsAt: Date | null
+  onActiveRotation: boolean
+}
+
+/**
+ * Students of a school in their grace period or already read-only, those who
+ * lose access soonest first. Students currently on rotation are flagged since
+ * they are the ones who cannot clock in once read-only.
+ */
+export async function listAtRiskStudents(
+  schoolId: string,
+  now: Date = new Date()
+): Promise<AtRiskStudent[]> {
+  const graceDays = getGracePeriodDays()
+  const students = await db
+    .select({
+      id: users.id,
+      name: users.name,
+      email: users.email,
+      role: users.role,
+      subscriptionStatus: users.subscriptionStatus,
+      pastDueSince: users.pastDueSince,
+    })
+    .from(users)
+    .where(
+      and(
+        eq(users.schoolId, schoolId),
+        eq(users.role, "STUDENT"),
+        eq(users.isActive, true),
+        inArray(users.subscriptionStatus, ["PAST_DUE", "CANCELLED"])
+      )
+    )
+  if (students.length === 0) return []
+
+  const onRotation = await db
+    .selectDistinct({ studentId: rotations.studentId })
+    .from(rotations)
+    .where(
+      and(
+        inArray(
+          rotations.studentId,
+          students.map((s) => s.id)
+        ),
+        or(
+          eq(rotations.status, "ACTIVE"),
+          and(
+            eq(rotations.status, "SCHEDULED"),
+            lte(rotations.startDate, now),
+            gte(rotations.endDate, now)
+          )
+        )
+      )
+    )
+  const rotating = new Set(onRotation.map((row) => row.studentId))
+
+  return students
+    .map((student) => {
+      const state = subscriptionAccessFor(student, now, graceDays)
+      return {
+        id: student.id,
+        name: student.name,
+        email: student.email,
+        subscriptionStatus: student.subscriptionStatus,
+        access: state.access,
+        pastDueSince: student.pastDueSince,
+        graceEndsAt: state.graceEndsAt,
+        onActiveRotation: rotating.has(student.id),
+      }
+    })
+    .sort((a, b) => {
+      if (a.access !== b.access) return a.access === "READ_ONLY" ? -1 : 1
+      return (a.graceEndsAt?.getTime() ?? 0) - (b.graceEndsAt?.getTime() ?? 0)
+    })
+}
@@ -0,0 +1,314 @@
+import type Stripe from "stripe"
+import { stripe } from "@/lib/payments/stripe"
+
+/**
+ * Previews of what a subscription change will cost, shown before the user
+ * confirms it. Changes within the same billing interval are prorated to the
+ * second and the net adjustment lands on the next regular invoice; a change of
+ * interval (e.g. monthly to yearly) restarts the billing cycle and is invoiced
+ * straight away, less a credit for unused time. Previews come from Stripe's
+ * invoice preview; calculateProration applies the same rules locally.
+ */
+
+export type BillingInterval = "month" | "year"
+
+export interface PriceSnapshot {
+  // Per unit, in cents
+  unitAmount: number
+  quantity: number
+  interval: BillingInterval
+}
+
+export interface CurrentPeriod extends PriceSnapshot {
+  periodStart: Date
+  periodEnd: Date
+}
+
+export interface PreviewLine {
+  description: string
+  // In cents; credits are negative
+  amount: number
+  proration: boolean
+  periodStart: Date
+  periodEnd: Date
+}
+
+export interface ChangePreview {
+  currency: string
+  lines: PreviewLine[]
+  // Charged as soon as the change is confirmed
+  dueNow: number
+  // Net proration; added to the next invoice unless the billing cycle restarts
+  prorationAdjustment: number
+  nextInvoiceDate: Date
+  nextInvoiceTotal: number
+  // Regular charge per interval after the change
+  recurringAmount: number
+  interval: BillingInterval
+  billingCycleReset: boolean
+  // Unix seconds; pass back when confirming so the charge matches the preview
+  prorationDate: number
+}
+
+export function addInterval(from: Date, interval: BillingInterval) {
+  const next = new Date(from)
+  if (interval === "year") next.setUTCFullYear(next.getUTCFullYear() + 1)
+  else next.setUTCMonth(next.getUTCMonth() + 1)
+  return next
+}
+
+function formatAmount(cents: number, currency: string) {
+  return new Intl.NumberFormat("en-US", { style: "currency", currency }).format(cents / 100)
+}
+
+function describe(price: PriceSnapshot, currency: string) {
+  return `${price.quantity} × ${formatAmount(price.unitAmount, currency)} per ${price.interval}`
+}
+
+function sum(lines: PreviewLine[]) {
+  return lines.reduce((total, line) => total + line.amount, 0)
+}
+
+/**
+ * Local equivalent of Stripe's proration for changing a subscription at `at`.
+ */
+export function calculateProration(
+  current: CurrentPeriod,
+  next: PriceSnapshot,
+  at: Date,
+  currency = "usd"
+): ChangePreview {
+  const periodMs = current.periodEnd.getTime() - current.periodStart.getTime()
+  const remaining =
+    periodMs > 0
+      ? Math.min(1, Math.max(0, (current.periodEnd.getTime() - at.getTime()) / periodMs))
+      : 0
+  const currentTotal = current.unitAmount * current.quantity
+  const nextTotal = next.unitAmount * next.quantity
+  const billingCycleReset = current.interval !== next.interval
+  const prorationDate = Math.floor(at.getTime() / 1000)
+
+  const prorations: PreviewLine[] = []
+  if (currentTotal > 0 && remaining > 0) {
+    prorations.push({
+      description: `Unused time on ${describe(current, currency)}`,
+      amount: -Math.round(currentTotal * remaining),
+      proration: true,
+      periodStart: at,
+      periodEnd: current.periodEnd,
+    })
+  }
+
+  if (billingCycleReset) {
+    const charge: PreviewLine = {
+      description: describe(next, currency),
+      amount: nextTotal,
+      proration: false,
+      periodStart: at,
+      periodEnd: addInterval(at, next.interval),
+    }
+    const total = Math.max(0, sum(prorations) + nextTotal)
+    return {
+      currency,
+      lines: [...prorations, charge],
+      dueNow: total,
+      prorationAdjustment: sum(prorations),
+      nextInvoiceDate: at,
+      nextInvoiceTotal: total,
+      recurringAmount: nextTotal,
+      interval: next.interval,
+      billingCycleReset,
+      prorationDate,
+    }
+  }
+
+  if (nextTotal > 0 && remaining > 0) {
+    prorations.push({
+      description: `Remaining time on ${describe(next, currency)}`,
+      amount: Math.round(nextTotal * remaining),
+      proration: true,
+      periodStart: at,
+      periodEnd: current.periodEnd,
+    })
+  }
+  const renewal: PreviewLine = {
+    description: describe(next, currency),
+    amount: nextTotal,
+    proration: false,
+    periodStart: current.periodEnd,
+    periodEnd: addInterval(current.periodEnd, next.interval),
+  }
+  const adjustment = sum(prorations)
+
+  return {
+    currency,
+    lines: [...prorations, renewal],
+    dueNow: 0,
+    prorationAdjustment: adjustment,
+    nextInvoiceDate: current.periodEnd,
+    nextInvoiceTotal: Math.max(0, adjustment + nextTotal),
+    recurringAmount: nextTotal,
+    interval: next.interval,
+    billingCycleReset,
+    prorationDate,
+  }
+}
+
+/**
+ * A brand new subscription: the first period is charged in full at checkout.
+ */
+export function calculateNewSubscription(
+  next: PriceSnapshot,
+  at: Date,
+  currency = "usd"
+): ChangePreview {
+  const total = next.unitAmount * next.quantity
+  return {
+    currency,
+    lines: [
+      {
+        description: describe(next, currency),
+        amount: total,
+        proration: false,
+        periodStart: at,
+        periodEnd: addInterval(at, next.interval),
+      },
+    ],
+    dueNow: total,
+    prorationAdjustment: 0,
+    nextInvoiceDate: at,
+    nextInvoiceTotal: total,
+    recurringAmount: total,
+    interval: next.interval,
+    billingCycleReset: true,
+    prorationDate: Math.floor(at.getTime() / 1000),
+  }
+}
+
+function snapshot(price: Stripe.Price, quantity: number | undefined): PriceSnapshot {
+  return {
+    unitAmount: price.unit_amount ?? 0,
+    quantity: quantity ?? 1,
+    interval: price.recurring?.interval === "year" ? "year" : "month",
+  }
+}
+
+export interface SubscriptionChange {
+  // Switch the subscription to this price
+  priceId?: string
+  // Seats to add on top of the current quantity
+  addQuantity?: number
+  // Clear a scheduled cancellation; only an explicit plan switch does this
+  resume?: boolean
+}
+
+async function resolveChange(subscriptionId: string, change: SubscriptionChange) {
+  const subscription = await stripe.subscriptions.retrieve(subscriptionId)
+  const item = subscription.items.data[0]
+  if (!item) throw new Error(`Subscription ${subscriptionId} has no items`)
+
+  const price = change.priceId ? await stripe.prices.retrieve(change.priceId) : item.price
+  const quantity = (item.quantity ?? 1) + (change.addQuantity ?? 0)
+  return { subscription, item, price, quantity }
+}
+
+/**
+ * Preview a change to an existing subscription using Stripe's invoice preview.
+ */
+export async function previewSubscriptionChange(
+  subscriptionId: string,
+  change: SubscriptionChange,
+  at: Date = new Date()
+): Promise<ChangePreview> {
+  const { subscription, item, price, quantity } = await resolveChange(subscriptionId, change)
+  const current = snapshot(item.price, item.quantity)
+  const next = snapshot(price, quantity)
+  const billingCycleReset = current.interval !== next.interval
+  const prorationDate = Math.floor(at.getTime() / 1000)
+
+  const invoice = await stripe.invoices.createPreview({
+    customer:
+      typeof subscription.customer === "string" ? subscription.customer : subscription.customer.id,
+    subscription: subscription.id,
+    subscription_details: {
+      items: [{ id: item.id, price: price.id, quantity }],
+      proration_behavior: "create_prorations",
+      proration_date: prorationDate,
+    },
+  })
+
+  const lines = invoice.lines.data.map(
+    (line): PreviewLine => ({
+      description: line.description ?? "",
+      amount: line.amount,
+      proration: Boolean(
+        line.parent?.subscription_item_details?.proration ??
+          line.parent?.invoice_item_details?.proration
+      ),
+      periodStart: new Date(line.period.start * 1000),
+      periodEnd: new Date(line.period.end * 1000),
+    })
+  )
+
+  return {
+    currency: invoice.currency,
+    lines,
+    dueNow: billingCycleReset ? invoice.amount_due : 0,
+    prorationAdjustment: sum(lines.filter((line) => line.proration)),
+    nextInvoiceDate: billingCycleReset ? at : new Date(item.current_period_end * 1000),
+    nextInvoiceTotal: invoice.amount_due,
+    recurringAmount: next.unitAmount * next.quantity,
+    interval: next.interval,
+    billingCycleReset,
+    prorationDate,
+  }
+}
+
+/**
+ * Preview subscribing to a price from scratch.
+ */
+export async function previewNewSubscription(
+  priceId: string,
+  quantity = 1,
+  at: Date = new Date()
+): Promise<ChangePreview> {
+  const price = await stripe.prices.retrieve(priceId)
+  return calculateNewSubscription(snapshot(price, quantity), at, price.currency)
+}
+
+// How long a confirmed preview's proration date is honoured
+export const PREVIEW_VALIDITY_SECONDS = 15 * 60
+
+/**
+ * The preview's proration date if it is recent enough to honour. It comes
+ * from the client, and an old date would let an upgrade be backdated.
+ */
+export function acceptedProrationDate(
+  prorationDate: number | undefined,
+  now: Date = new Date()
+): number | undefined {
+  if (!prorationDate) return undefined
+  const nowSeconds = Math.floor(now.getTime() / 1000)
+  const age = nowSeconds - prorationDate
+  return age >= 0 && age <= PREVIEW_VALIDITY_SECONDS ? prorationDate : undefined
+}
+
+/**
+ * Apply a change as previewed. Passing the preview's `prorationDate` keeps the
+ * charge identical to what the user confirmed.
+ */
+export async function applySubscriptionChange(
+  subscriptionId: string,
+  change: SubscriptionChange,
+  prorationDate?: number
+) {
+  const { item, price, quantity } = await resolveChange(subscriptionId, change)
+  const accepted = acceptedProrationDate(prorationDate)
+
+  return stripe.subscriptions.update(subscriptionId, {
+    items: [{ id: item.id, price: price.id, quantity }],
+    ...(change.resume ? { cancel_at_period_end: false } : {}),
+    proration_behavior: "create_prorations",
+    ...(accepted ? { proration_date: accepted } : {}),
+  })
+}
@@ -0,0 +1,290 @@
+import { and, eq, inArray, ne, sql } from "drizzle-orm"
+import type Stripe from "stripe"
+import { db } from "@/database/connection-pool"
+import { schools, subscriptions, type User, users } from "@/database/schema"
+import { sendNotification } from "@/lib/notification-service"
+import { stripe } from "@/lib/payments/stripe"
+import { checkSeatThresholds } from "@/lib/seat-lifecycle"
+
+/**
+ * Stripe webhook event handlers, run by the inbound webhook worker. Handlers
+ * throw on failure so the event is retried and, once retries run out, shown
+ * to admins for replay.
+ */
+
+type UserSubscriptionStatus = NonNullable<User["subscriptionStatus"]>
+
+/**
+ * The student-facing status for a Stripe subscription status.
+ */
+export function userSubscriptionStatusFor(stripeStatus: string): UserSubscriptionStatus | null {
+  switch (stripeStatus) {
+    case "trialing":
+      return "TRIAL"
+    case "active":
+      return "ACTIVE"
+    case "past_due":
+    case "unpaid":
+    case "incomplete":
+    case "paused":
+    case "disputed":
+      return "PAST_DUE"
+    case "canceled":
+    case "incomplete_expired":
+    case "refunded":
+      return "CANCELLED"
+    default:
+      return null
+  }
+}
+
+/**
+ * Store a Stripe-side status on our subscription rows and mirror it onto the
+ * owning users. Grandfathered users keep access whatever Stripe says.
+ */
+async function setSubscriptionStatus(stripeSubscriptionId: string, status: string) {
+  const updated = await db
+    .update(subscriptions)
+    .set({ status })
+    .where(eq(subscriptions.stripeSubscriptionId, stripeSubscriptionId))
+    .returning({ referenceId: subscriptions.referenceId })
+
+  const userStatus = userSubscriptionStatusFor(status)
+  if (!userStatus || updated.length === 0) return
+
+  await db
+    .update(users)
+    .set({
+      subscriptionStatus: userStatus,
+      ...dunningStateFor(userStatus),
+      updatedAt: new Date(),
+    })
+    .where(
+      and(
+        inArray(
+          users.id,
+          updated.map((row) => row.referenceId)
+        ),
+        ne(users.subscriptionStatus, "GRANDFATHERED")
+      )
+    )
+}
+
+/**
+ * Dunning columns for a new status: a past due spell keeps the date it started
+ * (repeat failures must not extend the grace period) and recovery clears it.
+ * Cancellation leaves them as they were.
+ */
+function dunningStateFor(status: UserSubscriptionStatus) {
+  if (status === "PAST_DUE") {
+    return { pastDueSince: sql`COALESCE(${users.pastDueSince}, NOW())` }
+  }
+  if (status === "ACTIVE" || status === "TRIAL") {
+    return { pastDueSince: null, dunningReminderDay: null }
+  }
+  return {}
+}
+
+// The id of an expandable Stripe reference
+function stripeIdOf(value: string | { id: string } | null | undefined) {
+  if (!value) return null
+  return typeof value === "string" ? value : value.id
+}
+
+export async function handleCheckoutCompleted(session: any) {
+  if (session?.metadata?.type === "SEAT_PURCHASE") {
+    const schoolId = session.metadata.schoolId
+    const quantity = parseInt(session.metadata.quantity || "0")
+
+    if (schoolId && quantity > 0) {
+      await db
+        .update(schools)
+        .set({
+          seatsLimit: sql`${schools.seatsLimit} + ${quantity}`,
+          billingModel: "SCHOOL_PAYS",
+          // Automatic seat purchases add to the most recent seat subscription
+          ...(session.subscription ? { seatStripeSubscriptionId: session.subscription } : {}),
+        })
+        .where(eq(schools.id, schoolId))
+      // More room lowers the warning level so the next crossing warns again
+      await checkSeatThresholds(schoolId)
+    }
+    return
+  }
+
+  if (!session?.metadata?.userId) {
+    throw new Error("Missing userId in checkout session metadata")
+  }
+
+  const userId = session.metadata.userId
+  const subscriptionId = session.subscription as string
+
+  const subscription = (await stripe.subscriptions.retrieve(subscriptionId)) as any
+
+  await db.insert(subscriptions).values({
+    id: crypto.randomUUID(),
+    referenceId: userId,
+    stripeCustomerId: stripeIdOf(session.customer),
+    stripeSubscriptionId: subscriptionId,
+    status: subscription.status,
+    plan: subscription.items.data[0].price.id,
+    periodStart: new Date(subscription.current_period_start * 1000),
+    periodEnd: new Date(subscription.current_period_end * 1000),
+    cancelAtPeriodEnd: subscription.cancel_at_period_end,
+  })
+}
+
+export async function handleInvoicePaid(invoice: any) {
+  const subscriptionId = invoice.subscription as string
+  if (!subscriptionId) return
+
+  const subscription = (await stripe.subscriptions.retrieve(subscriptionId)) as any
+
+  await db
+    .update(subscriptions)
+    .set({
+      periodStart: new Date(subscription.current_period_start * 1000),
+      periodEnd: new Date(subscription.current_period_end * 1000),
+    })
+    .where(eq(subscriptions.stripeSubscriptionId, subscriptionId))
+  await setSubscriptionStatus(subscriptionId, subscription.status)
+}
+
+export async function handlePaymentFailed(invoice: any) {
+  const subscriptionId = invoice.subscription as string
+  if (!subscriptionId) return
+
+  await setSubscriptionStatus(subscriptionId, "past_due")
+}
+
+export async function handleSubscriptionUpdated(subscription: any) {
+  await db
+    .update(subscriptions)
+    .set({
+      plan: subscription.items.data[0].price.id,
+      cancelAtPeriodEnd: subscription.cancel_at_period_end,
+      periodStart: new Date(subscription.current_period_start * 1000),
+      periodEnd: new Date(subscription.current_period_end * 1000),
+    })
+    .where(eq(subscriptions.stripeSubscriptionId, subscription.id))
+  await setSubscriptionStatus(subscription.id, subscription.status)
+}
+
+export async function handleSubscriptionDeleted(subscription: any) {
+  await db
+    .update(subscriptions)
+    .set({ cancelAtPeriodEnd: false })
+    .where(eq(subscriptions.stripeSubscriptionId, subscription.id))
+  await setSubscriptionStatus(subscription.id, "canceled")
+}
+
+/**
+ * Sent three days before a trial ends: record the end date and remind the
+ * student to add a payment method.
+ */
+export async function handleTrialWillEnd(subscription: Stripe.Subscription) {
+  const trialEnd = subscription.trial_end ? new Date(subscription.trial_end * 1000) : null
+
+  const updated = await db
+    .update(subscriptions)
+    .set({ trialEnd })
+    .where(eq(subscriptions.stripeSubscriptionId, subscription.id))
+    .returning({ referenceId: subscriptions.referenceId })
+  await setSubscriptionStatus(subscription.id, subscription.status)
+
+  for (const row of updated) {
+    await sendNotification({
+      userId: row.referenceId,
+      title: "Your free trial is ending soon",
+      message: trialEnd
+        ? `Your trial ends on ${trialEnd.toLocaleDateString("en-US")}. Add a payment method to keep access.`
+        : "Your trial is ending soon. Add a payment method to keep access.",
+      type: "reminder",
+      priority: "high",
+      actionUrl: "/dashboard/billing",
+      actionText: "Manage Subscription",
+      data: { stripeSubscriptionId: subscription.id },
+    })
+  }
+}
+
+/**
+ * The Stripe subscription whose invoice a charge paid, or null for charges
+ * outside a subscription (e.g. one-off payments).
+ */
+async function subscriptionIdForCharge(charge: Stripe.Charge) {
+  const paymentIntentId = stripeIdOf(charge.payment_intent)
+  if (!paymentIntentId) return null
+
+  const payments = await stripe.invoicePayments.list({
+    payment: { type: "payment_intent", payment_intent: paymentIntentId },
+    limit: 1,
+  })
+  const invoiceRef = payments.data[0]?.invoice
+  if (!invoiceRef) return null
+  const invoice =
+    typeof invoiceRef === "string" ? await stripe.invoices.retrieve(invoiceRef) : invoiceRef
+  if ("deleted" in invoice && invoice.deleted) return null
+
+  const subscription = invoice.parent?.subscription_details?.subscription
+  return stripeIdOf(subscription)
+}
+
+async function subscriptionIdForDispute(dispute: Stripe.Dispute) {
+  const charge =
+    typeof dispute.charge === "string"
+      ? await stripe.charges.retrieve(dispute.charge)
+      : dispute.charge
+  return subscriptionIdForCharge(charge)
+}
+
+/**
+ * A full refund ends the access the charge paid for, on that subscription
+ * only; partial refunds (e.g. goodwill credits) leave it alone.
+ */
+export async function handleChargeRefunded(charge: Stripe.Charge) {
+  if (charge.amount_refunded < charge.amount) return
+
+  const subscriptionId = await subscriptionIdForCharge(charge)
+  if (!subscriptionId) return
+  await setSubscriptionStatus(subscriptionId, "refunded")
+}
+
+/**
+ * Access to the subscription the disputed charge paid for is suspended while
+ * the dispute is open.
+ */
+export async function handleDisputeCreated(dispute: Stripe.Dispute) {
+  const subscriptionId = await subscriptionIdForDispute(dispute)
+  if (!subscriptionId) return
+  await setSubscriptionStatus(subscriptionId, "disputed")
+}
+
+/**
+ * A lost dispute ends access. Any other outcome (won, or a closed warning)
+ * restores whatever Stripe now says about the subscription.
+ */
+export async function handleDisputeClosed(dispute: Stripe.Dispute) {
+  const subscriptionId = await subscriptionIdForDispute(dispute)
+  if (!subscriptionId) return
+
+  if (dispute.status === "lost") {
+    await setSubscriptionStatus(subscriptionId, "canceled")
+    return
+  }
+
+  const subscription = await stripe.subscriptions.retrieve(subscriptionId)
+  await setSubscriptionStatus(subscriptionId, subscription.status)
+}
+
+export const STRIPE_EVENT_HANDLERS: Record<string, (object: any) => Promise<void>> = {
+  "checkout.session.completed": handleCheckoutCompleted,
+  "invoice.paid": handleInvoicePaid,
+  "invoice.payment_failed": handlePaymentFailed,
+  "customer.subscription.updated": handleSubscriptionUpdated,
+  "customer.subscription.deleted": handleSubscriptionDeleted,
+  "customer.subscription.trial_will_end": handleTrialWillEnd,
+  "charge.refunded": handleChargeRefunded,
+  "charge.dispute.created": handleDisputeCreated,
+  "charge.dispute.closed": handleDisputeClosed,
+}
@@ -0,0 +1,928 @@
+import {
+  and,
+  asc,
+  avg,
+  count,
+  desc,
+  eq,
+  gte,
+  inArray,
+  isNotNull,
+  isNull,
+  lte,
+  max,
+  ne,
+  notInArray,
+  or,
+} from "drizzle-orm"
+import Papa from "papaparse"
+import { z } from "zod"
+import { db } from "@/database/connection-pool"
+import {
+  clinicalSites,
+  type QualityImprovementPlan,
+  type QualityPlanMilestone,
+  type QualityReview,
+  qualityImprovementPlans,
+  qualityPlanMilestones,
+  qualityReviews,
+  siteEvaluations,
+  users,
+} from "@/database/schema"
+import { logger } from "@/lib/logger"
+import { sendNotification } from "@/lib/notification-service"
+import { siteVisibleToSchool } from "@/lib/school-affiliations"
+import type { TenantScope } from "@/lib/tenant-scope"
+
+/**
+ * Quality assurance: reviews with structured findings, improvement plans
+ * tracked through owned milestones, follow-up reminders, and reviews opened
+ * automatically when a clinical site's student ratings drop.
+ */
+
+export const FINDING_SEVERITIES = ["low", "medium", "high", "critical"] as const
+export type FindingSeverity = (typeof FINDING_SEVERITIES)[number]
+
+export const DEFAULT_FOLLOW_UP_REMINDER_DAYS = 3
+export const DEFAULT_SITE_RATING_THRESHOLD = 3
+// Ratings are averaged over this window and need enough evaluations to mean anything
+export const SITE_RATING_WINDOW_DAYS = 90
+export const MIN_SITE_EVALUATIONS = 3
+const AUTOMATIC_REVIEW_FOLLOW_UP_DAYS = 14
+
+const DAY_MS = 24 * 60 * 60 * 1000
+const QUALITY_URL = "/dashboard/clinical-supervisor/quality"
+
+export const qualityFindingSchema = z.object({
+  id: z.string().min(1).optional(),
+  category: z.string().trim().min(1).max(120),
+  severity: z.enum(FINDING_SEVERITIES),
+  description: z.string().trim().min(1).max(2000),
+  evidence: z.string().trim().max(2000).optional(),
+  resolved: z.boolean().default(false),
+})
+
+export type QualityFinding = Required<Omit<z.infer<typeof qualityFindingSchema>, "evidence">> & {
+  evidence?: string
+}
+
+const reviewFields = {
+  title: z.string().trim().min(1).max(200),
+  type: z.enum(qualityReviews.type.enumValues),
+  status: z.enum(qualityReviews.status.enumValues),
+  priority: z.enum(qualityReviews.priority.enumValues),
+  overallScore: z.number().min(0).max(100).nullable(),
+  findings: z.array(qualityFindingSchema).max(100),
+  recommendations: z.array(z.string().trim().min(1).max(1000)).max(50),
+  followUpRequired: z.boolean(),
+  followUpDate: z.coerce.date().nullable(),
+  clinicalSiteId: z.string().min(1).nullable(),
+}
+
+export const qualityReviewCreateSchema = z
+  .object({
+    ...reviewFields,
+    status: reviewFields.status.default("pending"),
+    priority: reviewFields.priority.default("medium"),
+    overallScore: reviewFields.overallScore.optional(),
+    findings: reviewFields.findings.default([]),
+    recommendations: reviewFields.recommendations.default([]),
+    followUpRequired: reviewFields.followUpRequired.default(false),
+    followUpDate: reviewFields.followUpDate.optional(),
+    clinicalSiteId: reviewFields.clinicalSiteId.optional(),
+  })
+  .refine((review) => !review.followUpRequired || review.followUpDate, {
+    message: "A follow-up date is required when a follow-up is required",
+    path: ["followUpDate"],
+  })
+
+// No defaults: fields left out of an update keep their current value
+export const qualityReviewUpdateSchema = z.object(reviewFields).partial()
+
+export type QualityReviewCreateInput = z.infer<typeof qualityReviewCreateSchema>
+export type QualityReviewUpdateInput = z.infer<typeof qualityReviewUpdateSchema>
+
+export const milestoneInputSchema = z.object({
+  id: z.string().min(1).optional(),
+  title: z.string().trim().min(1).max(200),
+  dueDate: z.coerce.date().nullable().optional(),
+  completed: z.boolean().default(false),
+})
+
+const planFields = {
+  title: z.string().trim().min(1).max(200),
+  description: z.string().trim().max(4000).nullable(),
+  ownerId: z.string().min(1).nullable(),
+  status: z.enum(qualityImprovementPlans.status.enumValues),
+  dueDate: z.coerce.date(),
+  milestones: z.array(milestoneInputSchema).max(50),
+}
+
+export const improvementPlanCreateSchema = z.object({
+  ...planFields,
+  description: planFields.description.optional(),
+  ownerId: planFields.ownerId.optional(),
+  status: planFields.status.default("not_started"),
+  milestones: planFields.milestones.default([]),
+})
+
+export const improvementPlanUpdateSchema = z.object(planFields).partial()
+
+export type ImprovementPlanCreateInput = z.infer<typeof improvementPlanCreateSchema>
+export type ImprovementPlanUpdateInput = z.infer<typeof improvementPlanUpdateSchema>
+
+/**
+ * Findings as stored, dropping entries that do not match the finding shape
+ * and giving each an id so it can be referenced and resolved later.
+ */
+export function parseFindings(value: unknown): QualityFinding[] {
+  if (!Array.isArray(value)) return []
+  return value.flatMap((entry) => {
+    const parsed = qualityFindingSchema.safeParse(entry)
+    if (!parsed.success) return []
+    return [{ ...parsed.data, id: parsed.data.id ?? crypto.randomUUID() }]
+  })
+}
+
+/**
+ * Share of milestones completed, as a whole percentage. A completed plan is
+ * done whatever its milestones say.
+ */
+export function planProgress(
+  plan: Pick<QualityImprovementPlan, "status">,
+  milestones: Pick<QualityPlanMilestone, "completedAt">[]
+): number {
+  if (plan.status === "completed") return 100
+  if (milestones.length === 0) return 0
+  const done = milestones.filter((milestone) => milestone.completedAt).length
+  return Math.round((done / milestones.length) * 100)
+}
+
+export type QualityReviewSummary = Omit<QualityReview, "findings" | "recommendations"> & {
+  findings: QualityFinding[]
+  recommendations: string[]
+  reviewerName: string | null
+  siteName: string | null
+}
+
+export type ImprovementPlanView = QualityImprovementPlan & {
+  ownerName: string | null
+  reviewTitle: string
+  milestones: QualityPlanMilestone[]
+  progress: number
+}
+
+function toSummary(
+  row: QualityReview & { reviewerName: string | null; siteName: string | null }
+): QualityReviewSummary {
+  return {
+    ...row,
+    findings: parseFindings(row.findings),
+    recommendations: Array.isArray(row.recommendations)
+      ? row.recommendations.filter((item): item is string => typeof item === "string")
+      : [],
+  }
+}
+
+const reviewColumns = {
+  review: qualityReviews,
+  reviewerName: users.name,
+  siteName: clinicalSites.name,
+}
+
+export async function listQualityReviews(scope: TenantScope): Promise<QualityReviewSummary[]> {
+  const rows = await db
+    .select(reviewColumns)
+    .from(qualityReviews)
+    .leftJoin(users, eq(users.id, qualityReviews.reviewerId))
+    .leftJoin(clinicalSites, eq(clinicalSites.id, qualityReviews.clinicalSiteId))
+    .where(scope.where(qualityReviews))
+    .orderBy(desc(qualityReviews.updatedAt))
+
+  return rows.map((row) =>
+    toSummary({ ...row.review, reviewerName: row.reviewerName, siteName: row.siteName })
+  )
+}
+
+async function loadPlans(scope: TenantScope, reviewId?: string): Promise<ImprovementPlanView[]> {
+  const plans = await db
+    .select({
+      plan: qualityImprovementPlans,
+      ownerName: users.name,
+      reviewTitle: qualityReviews.title,
+    })
+    .from(qualityImprovementPlans)
+    .innerJoin(qualityReviews, eq(qualityReviews.id, qualityImprovementPlans.reviewId))
+    .leftJoin(users, eq(users.id, qualityImprovementPlans.ownerId))
+    .where(
+      scope.where(
+        qualityImprovementPlans,
+        reviewId ? eq(qualityImprovementPlans.reviewId, reviewId) : undefined
+      )
+    )
+    .orderBy(asc(qualityImprovementPlans.dueDate))
+
+  if (plans.length === 0) return []
+
+  const milestones = await db
+    .select()
+    .from(qualityPlanMilestones)
+    .where(
+      inArray(
+        qualityPlanMilestones.planId,
+        plans.map((row) => row.plan.id)
+      )
+    )
+    .orderBy(asc(qualityPlanMilestones.sortOrder))
+
+  return plans.map((row) => {
+    const planMilestones = milestones.filter((milestone) => milestone.planId === row.plan.id)
+    return {
+      ...row.plan,
+      ownerName: row.ownerName,
+      reviewTitle: row.reviewTitle,
+      milestones: planMilestones,
+      progress: planProgress(row.plan, planMilestones),
+    }
+  })
+}
+
+export async function listImprovementPlans(scope: TenantScope) {
+  return loadPlans(scope)
+}
+
+export async function getQualityReview(scope: TenantScope, id: string) {
+  const [row] = await db
+    .select(reviewColumns)
+    .from(qualityReviews)
+    .leftJoin(users, eq(users.id, qualityReviews.reviewerId))
+    .leftJoin(clinicalSites, eq(clinicalSites.id, qualityReviews.clinicalSiteId))
+    .where(scope.where(qualityReviews, eq(qualityReviews.id, id)))
+    .limit(1)
+  if (!row) return null
+
+  return {
+    review: toSummary({ ...row.review, reviewerName: row.reviewerName, siteName: row.siteName }),
+    plans: await loadPlans(scope, id),
+  }
+}
+
+async function isSiteAvailable(schoolId: string, clinicalSiteId: string) {
+  const [site] = await db
+    .select({ id: clinicalSites.id })
+    .from(clinicalSites)
+    .where(and(eq(clinicalSites.id, clinicalSiteId), siteVisibleToSchool(schoolId)))
+    .limit(1)
+  return Boolean(site)
+}
+
+type ReviewResult =
+  | { ok: true; review: QualityReview }
+  | { ok: false; reason: "not_found" | "site_not_found" | "follow_up_date_required" }
+
+export async function createQualityReview(
+  scope: TenantScope,
+  input: QualityReviewCreateInput,
+  reviewerId: string
+): Promise<ReviewResult> {
+  const schoolId = scope.requireSchoolId()
+  if (input.clinicalSiteId && !(await isSiteAvailable(schoolId, input.clinicalSiteId))) {
+    return { ok: false, reason: "site_not_found" }
+  }
+
+  const [review] = await db
+    .insert(qualityReviews)
+    .values({
+      title: input.title,
+      reviewerId,
+      schoolId,
+      type: input.type,
+      status: input.status,
+      priority: input.priority,
+      overallScore: input.overallScore == null ? null : input.overallScore.toFixed(2),
+      findings: parseFindings(input.findings),
+      recommendations: input.recommendations,
+      followUpRequired: input.followUpRequired,
+      followUpDate: input.followUpDate ?? null,
+      clinicalSiteId: input.clinicalSiteId ?? null,
+      completedAt: input.status === "completed" ? new Date() : null,
+    })
+    .returning()
+
+  return { ok: true, review }
+}
+
+export async function updateQualityReview(
+  scope: TenantScope,
+  id: string,
+  input: QualityReviewUpdateInput
+): Promise<ReviewResult> {
+  const [existing] = await db
+    .select()
+    .from(qualityReviews)
+    .where(scope.where(qualityReviews, eq(qualityReviews.id, id)))
+    .limit(1)
+  if (!existing) return { ok: false, reason: "not_found" }
+
+  if (input.clinicalSiteId && !(await isSiteAvailable(existing.schoolId, input.clinicalSiteId))) {
+    return { ok: false, reason: "site_not_found" }
+  }
+
+  const followUpRequired = input.followUpRequired ?? existing.followUpRequired
+  const followUpDate = input.followUpDate === undefined ? existing.followUpDate : input.followUpDate
+  if (followUpRequired && !followUpDate) {
+    return { ok: false, reason: "follow_up_date_required" }
+  }
+
+  const { overallScore, findings, ...fields } = input
+  const followUpMoved = followUpDate?.getTime() !== existing.followUpDate?.getTime()
+  const statusChanged = fields.status !== undefined && fields.status !== existing.status
+  const now = new Date()
+
+  const [review] = await db
+    .update(qualityReviews)
+    .set({
+      ...fields,
+      ...(overallScore !== undefined && {
+        overallScore: overallScore === null ? null : overallScore.toFixed(2),
+      }),
+      ...(findings !== undefined && { findings: parseFindings(findings) }),
+      // A new follow-up date gets its own reminder
+      ...(followUpMoved && { followUpReminderSentAt: null }),
+      ...(statusChanged && { completedAt: fields.status === "completed" ? now : null }),
+      updatedAt: now,
+    })
+    .where(eq(qualityReviews.id, existing.id))
+    .returning()
+
+  return { ok: true, review }
+}
+
+export async function deleteQualityReview(scope: TenantScope, id: string) {
+  const deleted = await db
+    .delete(qualityReviews)
+    .where(scope.where(qualityReviews, eq(qualityReviews.id, id)))
+    .returning({ id: qualityReviews.id })
+  return deleted.length > 0
+}
+
+/**
+ * Staff of the school who can own an improvement plan.
+ */
+export async function listPlanOwnerCandidates(schoolId: string) {
+  return db
+    .select({ id: users.id, name: users.name, email: users.email, role: users.role })
+    .from(users)
+    .where(
+      and(
+        eq(users.schoolId, schoolId),
+        eq(users.isActive, true),
+        inArray(users.role, ["SCHOOL_ADMIN", "CLINICAL_SUPERVISOR", "CLINICAL_PRECEPTOR"])
+      )
+    )
+    .orderBy(asc(users.name))
+}
+
+async function isEligibleOwner(schoolId: string, ownerId: string) {
+  const candidates = await db
+    .select({ id: users.id })
+    .from(users)
+    .where(
+      and(
+        eq(users.id, ownerId),
+        eq(users.schoolId, schoolId),
+        eq(users.isActive, true),
+        ne(users.role, "STUDENT")
+      )
+    )
+    .limit(1)
+  return candidates.length > 0
+}
+
+async function notifyPlanOwner(plan: QualityImprovementPlan) {
+  if (!plan.ownerId) return
+  try {
+    await sendNotification({
+      userId: plan.ownerId,
+      title: `Improvement plan assigned: ${plan.title}`,
+      message: `You own the improvement plan "${plan.title}", due ${plan.dueDate.toLocaleDateString("en-US")}.`,
+      type: "assignment",
+      priority: "medium",
+      actionUrl: QUALITY_URL,
+      actionText: "View Plan",
+      data: { planId: plan.id, reviewId: plan.reviewId },
+    })
+  } catch (error) {
+    logger.error({ err: error, planId: plan.id }, "Failed to notify improvement plan owner")
+  }
+}
+
+type PlanResult =
+  | { ok: true; plan: QualityImprovementPlan }
+  | { ok: false; reason: "not_found" | "review_not_found" | "owner_not_found" }
+
+export async function createImprovementPlan(
+  scope: TenantScope,
+  reviewId: string,
+  input: ImprovementPlanCreateInput,
+  userId: string
+): Promise<PlanResult> {
+  const [review] = await db
+    .select({ id: qualityReviews.id, schoolId: qualityReviews.schoolId })
+    .from(qualityReviews)
+    .where(scope.where(qualityReviews, eq(qualityReviews.id, reviewId)))
+    .limit(1)
+  if (!review) return { ok: false, reason: "review_not_found" }
+
+  if (input.ownerId && !(await isEligibleOwner(review.schoolId, input.ownerId))) {
+    return { ok: false, reason: "owner_not_found" }
+  }
+
+  const now = new Date()
+  const plan = await db.transaction(async (tx) => {
+    const [created] = await tx
+      .insert(qualityImprovementPlans)
+      .values({
+        reviewId: review.id,
+        schoolId: review.schoolId,
+        title: input.title,
+        description: input.description ?? null,
+        ownerId: input.ownerId ?? null,
+        status: input.status,
+        dueDate: input.dueDate,
+        completedAt: input.status === "completed" ? now : null,
+        createdBy: userId,
+      })
+      .returning()
+
+    if (input.milestones.length > 0) {
+      await tx.insert(qualityPlanMilestones).values(
+        input.milestones.map((milestone, index) => ({
+          planId: created.id,
+          title: milestone.title,
+          dueDate: milestone.dueDate ?? null,
+          completedAt: milestone.completed ? now : null,
+          sortOrder: index,
+        }))
+      )
+    }
+    return created
+  })
+
+  await notifyPlanOwner(plan)
+  return { ok: true, plan }
+}
+
+/**
+ * Updates a plan. A milestone list replaces the plan's milestones: entries
+ * with a known id are updated in place, others added, and missing ones removed.
+ */
+export async function updateImprovementPlan(
+  scope: TenantScope,
+  planId: string,
+  input: ImprovementPlanUpdateInput
+): Promise<PlanResult> {
+  const [existing] = await db
+    .select()
+    .from(qualityImprovementPlans)
+    .where(scope.where(qualityImprovementPlans, eq(qualityImprovementPlans.id, planId)))
+    .limit(1)
+  if (!existing) return { ok: false, reason: "not_found" }
+
+  if (input.ownerId && !(await isEligibleOwner(existing.schoolId, input.ownerId))) {
+    return { ok: false, reason: "owner_not_found" }
+  }
+
+  const { milestones, ...fields } = input
+  const now = new Date()
+  const statusChanged = fields.status !== undefined && fields.status !== existing.status
+
+  const plan = await db.transaction(async (tx) => {
+    const [updated] = await tx
+      .update(qualityImprovementPlans)
+      .set({
+        ...fields,
+        ...(statusChanged && { completedAt: fields.status === "completed" ? now : null }),
+        updatedAt: now,
+      })
+      .where(eq(qualityImprovementPlans.id, existing.id))
+      .returning()
+
+    if (milestones) {
+      const current = await tx
+        .select()
+        .from(qualityPlanMilestones)
+        .where(eq(qualityPlanMilestones.planId, existing.id))
+      const currentById = new Map(current.map((milestone) => [milestone.id, milestone]))
+      const keptIds = milestones.flatMap((milestone) =>
+        milestone.id && currentById.has(milestone.id) ? [milestone.id] : []
+      )
+
+      await tx
+        .delete(qualityPlanMilestones)
+        .where(
+          and(
+            eq(qualityPlanMilestones.planId, existing.id),
+            keptIds.length > 0 ? notInArray(qualityPlanMilestones.id, keptIds) : undefined
+          )
+        )
+
+      for (const [index, milestone] of milestones.entries()) {
+        const previous = milestone.id ? currentById.get(milestone.id) : undefined
+        // Keep the original completion time when a completed milestone is saved again
+        const completedAt = milestone.completed ? (previous?.completedAt ?? now) : null
+        if (previous) {
+          await tx
+            .update(qualityPlanMilestones)
+            .set({
+              title: milestone.title,
+              dueDate: milestone.dueDate ?? null,
+              completedAt,
+              sortOrder: index,
+              updatedAt: now,
+            })
+            .where(eq(qualityPlanMilestones.id, previous.id))
+        } else {
+          await tx.insert(qualityPlanMilestones).values({
+            planId: existing.id,
+            title: milestone.title,
+            dueDate: milestone.dueDate ?? null,
+            completedAt,
+            sortOrder: index,
+          })
+        }
+      }
+    }
+    return updated
+  })
+
+  if (plan.ownerId && plan.ownerId !== existing.ownerId) {
+    await notifyPlanOwner(plan)
+  }
+  return { ok: true, plan }
+}
+
+export async function deleteImprovementPlan(scope: TenantScope, planId: string) {
+  const deleted = await db
+    .delete(qualityImprovementPlans)
+    .where(scope.where(qualityImprovementPlans, eq(qualityImprovementPlans.id, planId)))
+    .returning({ id: qualityImprovementPlans.id })
+  return deleted.length > 0
+}
+
+const EXPORT_COLUMNS = [
+  "title",
+  "type",
+  "status",
+  "priority",
+  "overallScore",
+  "site",
+  "reviewer",
+  "reviewDate",
+  "findings",
+  "openFindings",
+  "recommendations",
+  "followUpDate",
+  "improvementPlans",
+  "completedPlans",
+]
+
+/**
+ * The scope's reviews as CSV, one row per review with its plan counts.
+ */
+export async function exportQualityReviews(scope: TenantScope): Promise<string> {
+  const [reviews, plans] = await Promise.all([listQualityReviews(scope), loadPlans(scope)])
+
+  const rows = reviews.map((review) => {
+    const reviewPlans = plans.filter((plan) => plan.reviewId === review.id)
+    return [
+      review.title,
+      review.type,
+      review.status,
+      review.priority,
+      review.overallScore ?? "",
+      review.siteName ?? "",
+      review.reviewerName ?? "",
+      review.reviewDate.toISOString().split("T")[0],
+      review.findings.map((finding) => `[${finding.severity}] ${finding.description}`).join("; "),
+      review.findings.filter((finding) => !finding.resolved).length,
+      review.recommendations.join("; "),
+      review.followUpDate?.toISOString().split("T")[0] ?? "",
+      reviewPlans.length,
+      reviewPlans.filter((plan) => plan.status === "completed").length,
+    ]
+  })
+
+  return Papa.unparse({ fields: EXPORT_COLUMNS, data: rows }, { escapeFormulae: true })
+}
+
+/**
+ * Days before a follow-up date on which the reviewer is reminded, from
+ * QUALITY_FOLLOW_UP_REMINDER_DAYS.
+ */
+export function getFollowUpReminderDays(raw = process.env.QUALITY_FOLLOW_UP_REMINDER_DAYS) {
+  const parsed = Number.parseInt((raw ?? "").trim(), 10)
+  return Number.isInteger(parsed) && parsed >= 0 ? parsed : DEFAULT_FOLLOW_UP_REMINDER_DAYS
+}
+
+/**
+ * Average site rating (out of 5) below which a review is opened, from
+ * QUALITY_SITE_RATING_THRESHOLD.
+ */
+export function getSiteRatingThreshold(raw = process.env.QUALITY_SITE_RATING_THRESHOLD) {
+  const parsed = Number.parseFloat((raw ?? "").trim())
+  return Number.isFinite(parsed) && parsed > 0 && parsed <= 5
+    ? parsed
+    : DEFAULT_SITE_RATING_THRESHOLD
+}
+
+export function isFollowUpReminderDue(
+  review: Pick<
+    QualityReview,
+    "status" | "followUpRequired" | "followUpDate" | "followUpReminderSentAt"
+  >,
+  now: Date,
+  leadDays: number
+): boolean {
+  if (!review.followUpRequired || !review.followUpDate) return false
+  if (review.status === "completed" || review.followUpReminderSentAt) return false
+  return review.followUpDate.getTime() - now.getTime() <= leadDays * DAY_MS
+}
+
+async function sendFollowUpReminders(now: Date) {
+  const leadDays = getFollowUpReminderDays()
+  const due = await db
+    .select()
+    .from(qualityReviews)
+    .where(
+      and(
+        eq(qualityReviews.followUpRequired, true),
+        ne(qualityReviews.status, "completed"),
+        isNull(qualityReviews.followUpReminderSentAt),
+        lte(qualityReviews.followUpDate, new Date(now.getTime() + leadDays * DAY_MS))
+      )
+    )
+
+  let reminded = 0
+  for (const review of due.filter((row) => isFollowUpReminderDue(row, now, leadDays))) {
+    const followUpDate = review.followUpDate as Date
+    const overdue = followUpDate.getTime() < now.getTime()
+    try {
+      await sendNotification({
+        userId: review.reviewerId,
+        title: `Quality review follow-up ${overdue ? "overdue" : "due"}: ${review.title}`,
+        message: `The follow-up for "${review.title}" ${overdue ? "was" : "is"} due ${followUpDate.toLocaleDateString("en-US")}.`,
+        type: "reminder",
+        priority: overdue || review.priority === "high" ? "high" : "medium",
+        actionUrl: QUALITY_URL,
+        actionText: "Open Review",
+        data: { reviewId: review.id, followUpDate: followUpDate.toISOString() },
+      })
+    } catch (error) {
+      logger.error({ err: error, reviewId: review.id }, "Failed to send quality follow-up reminder")
+      continue
+    }
+    await db
+      .update(qualityReviews)
+      .set({ followUpReminderSentAt: now })
+      .where(eq(qualityReviews.id, review.id))
+    reminded++
+  }
+  return reminded
+}
+
+export interface SiteRatingSummary {
+  schoolId: string
+  clinicalSiteId: string
+  siteName: string
+  evaluations: number
+  rating: number
+  learningOpportunities: number | null
+  preceptorSupport: number | null
+  facilityQuality: number | null
+  latestEvaluationAt: Date
+}
+
+export interface FlaggedSite extends SiteRatingSummary {
+  priority: QualityReview["priority"]
+  overallScore: number
+  findings: QualityFinding[]
+  reason: string
+}
+
+const RATING_AREAS = [
+  ["learningOpportunities", "Learning opportunities"],
+  ["preceptorSupport", "Preceptor support"],
+  ["facilityQuality", "Facility quality"],
+] as const
+
+/**
+ * Sites whose average student rating fell below the threshold, with a finding
+ * for the overall rating and for each rated area that is also below it.
+ */
+export function flagLowRatedSites(
+  sites: SiteRatingSummary[],
+  threshold: number,
+  minEvaluations = MIN_SITE_EVALUATIONS
+): FlaggedSite[] {
+  return sites
+    .filter((site) => site.evaluations >= minEvaluations && site.rating < threshold)
+    .map((site) => {
+      const severe = site.rating < threshold - 1
+      const reason = `Average student rating ${site.rating.toFixed(2)}/5 from ${site.evaluations} evaluations in the last ${SITE_RATING_WINDOW_DAYS} days is below ${threshold}`
+      const areaFindings = RATING_AREAS.flatMap(([key, label]) => {
+        const value = site[key]
+        if (value === null || value >= threshold) return []
+        return [
+          {
+            id: crypto.randomUUID(),
+            category: label,
+            severity: "medium" as const,
+            description: `${label} averages ${value.toFixed(2)}/5`,
+            resolved: false,
+          },
+        ]
+      })
+
+      return {
+        ...site,
+        priority: severe ? "high" : "medium",
+        overallScore: Math.round((site.rating / 5) * 10000) / 100,
+        reason,
+        findings: [
+          {
+            id: crypto.randomUUID(),
+            category: "Student site ratings",
+            severity: severe ? "high" : "medium",
+            description: reason,
+            resolved: false,
+          },
+          ...areaFindings,
+        ],
+      }
+    })
+}
+
+async function loadSiteRatings(since: Date): Promise<SiteRatingSummary[]> {
+  const rows = await db
+    .select({
+      schoolId: users.schoolId,
+      clinicalSiteId: siteEvaluations.clinicalSiteId,
+      siteName: clinicalSites.name,
+      evaluations: count(siteEvaluations.id),
+      rating: avg(siteEvaluations.rating),
+      learningOpportunities: avg(siteEvaluations.learningOpportunitiesRating),
+      preceptorSupport: avg(siteEvaluations.preceptorSupportRating),
+      facilityQuality: avg(siteEvaluations.facilityQualityRating),
+      latestEvaluationAt: max(siteEvaluations.createdAt),
+    })
+    .from(siteEvaluations)
+    .innerJoin(users, eq(users.id, siteEvaluations.studentId))
+    .innerJoin(clinicalSites, eq(clinicalSites.id, siteEvaluations.clinicalSiteId))
+    .where(and(gte(siteEvaluations.createdAt, since), isNotNull(users.schoolId)))
+    .groupBy(users.schoolId, siteEvaluations.clinicalSiteId, clinicalSites.name)
+
+  const toNumber = (value: string | null) => (value === null ? null : Number(value))
+  return rows.map((row) => ({
+    schoolId: row.schoolId as string,
+    clinicalSiteId: row.clinicalSiteId,
+    siteName: row.siteName,
+    evaluations: Number(row.evaluations),
+    rating: Number(row.rating ?? 0),
+    learningOpportunities: toNumber(row.learningOpportunities),
+    preceptorSupport: toNumber(row.preceptorSupport),
+    facilityQuality: toNumber(row.facilityQuality),
+    latestEvaluationAt: row.latestEvaluationAt ?? since,
+  }))
+}
+
+type AutomaticReview = Pick<QualityReview, "schoolId" | "clinicalSiteId" | "status" | "completedAt">
+
+/**
+ * Whether a flagged site needs a new automatic review: not while one is open,
+ * and not again until students rate the site after the last one was completed.
+ */
+export function isSiteReviewDue(
+  site: Pick<SiteRatingSummary, "schoolId" | "clinicalSiteId" | "latestEvaluationAt">,
+  reviews: AutomaticReview[]
+) {
+  return reviews
+    .filter(
+      (review) => review.schoolId === site.schoolId && review.clinicalSiteId === site.clinicalSiteId
+    )
+    .every(
+      (review) =>
+        review.status === "completed" &&
+        review.completedAt !== null &&
+        review.completedAt < site.latestEvaluationAt
+    )
+}
+
+/**
+ * Opens a review for each school and site whose ratings from that school's
+ * students dropped, unless an automatic review for the site is still open or
+ * was completed after the latest rating. It goes to a clinical supervisor of
+ * the school, or an admin when there is none.
+ */
+async function openSiteRatingReviews(now: Date) {
+  const since = new Date(now.getTime() - SITE_RATING_WINDOW_DAYS * DAY_MS)
+  const flagged = flagLowRatedSites(await loadSiteRatings(since), getSiteRatingThreshold())
+  if (flagged.length === 0) return 0
+
+  const schoolIds = [...new Set(flagged.map((site) => site.schoolId))]
+  const [automaticReviews, staff] = await Promise.all([
+    db
+      .select({
+        schoolId: qualityReviews.schoolId,
+        clinicalSiteId: qualityReviews.clinicalSiteId,
+        status: qualityReviews.status,
+        completedAt: qualityReviews.completedAt,
+      })
+      .from(qualityReviews)
+      .where(
+        and(
+          eq(qualityReviews.source, "AUTOMATIC"),
+          inArray(qualityReviews.schoolId, schoolIds),
+          or(ne(qualityReviews.status, "completed"), gte(qualityReviews.completedAt, since))
+        )
+      ),
+    db
+      .select({ id: users.id, schoolId: users.schoolId, role: users.role })
+      .from(users)
+      .where(
+        and(
+          inArray(users.schoolId, schoolIds),
+          inArray(users.role, ["CLINICAL_SUPERVISOR", "SCHOOL_ADMIN"]),
+          eq(users.isActive, true)
+        )
+      )
+      .orderBy(asc(users.createdAt)),
+  ])
+
+  let opened = 0
+  for (const site of flagged) {
+    if (!isSiteReviewDue(site, automaticReviews)) continue
+
+    const schoolStaff = staff.filter((user) => user.schoolId === site.schoolId)
+    const reviewer =
+      schoolStaff.find((user) => user.role === "CLINICAL_SUPERVISOR") ??
+      schoolStaff.find((user) => user.role === "SCHOOL_ADMIN")
+    if (!reviewer) {
+      logger.warn(
+        { schoolId: site.schoolId, clinicalSiteId: site.clinicalSiteId },
+        "No reviewer for automatic site quality review"
+      )
+      continue
+    }
+
+    const [review] = await db
+      .insert(qualityReviews)
+      .values({
+        title: `Low student ratings: ${site.siteName}`,
+        reviewerId: reviewer.id,
+        schoolId: site.schoolId,
+        type: "Process Audit",
+        priority: site.priority,
+        overallScore: site.overallScore.toFixed(2),
+        findings: site.findings,
+        followUpRequired: true,
+        followUpDate: new Date(now.getTime() + AUTOMATIC_REVIEW_FOLLOW_UP_DAYS * DAY_MS),
+        clinicalSiteId: site.clinicalSiteId,
+        source: "AUTOMATIC",
+        triggerReason: site.reason,
+      })
+      .returning()
+    opened++
+
+    try {
+      await sendNotification({
+        userId: reviewer.id,
+        title: review.title,
+        message: `${site.reason}. A quality review has been opened for you.`,
+        type: "warning",
+        priority: site.priority === "high" ? "high" : "medium",
+        actionUrl: QUALITY_URL,
+        actionText: "Open Review",
+        data: { reviewId: review.id, clinicalSiteId: site.clinicalSiteId },
+      })
+    } catch (error) {
+      logger.error({ err: error, reviewId: review.id }, "Failed to notify reviewer of site review")
+    }
+  }
+  return opened
+}
+
+export interface QualitySweepResult {
+  remindersSent: number
+  reviewsOpened: number
+}
+
+/**
+ * Daily quality sweep: follow-up reminders and reviews for poorly rated sites.
+ */
+export async function runQualitySweep(now: Date = new Date()): Promise<QualitySweepResult> {
+  const remindersSent = await sendFollowUpReminders(now)
+  const reviewsOpened = await openSiteRatingReviews(now)
+  logger.info({ remindersSent, reviewsOpened }, "Quality sweep completed")
+  return { remindersSent, reviewsOpened }
+}
@@ -1,24 +1,95 @@
 import { db } from "@/database/connection-pool"
 import { jobs } from "@/database/schema"
-import { eq, lt, and, asc, sql } from "drizzle-orm"
+import { eq, lt, and, asc, desc, gte, inArray, sql } from "drizzle-orm"
 
-export type JobType = "EMAIL" | "REPORT"
+export type JobType = "EMAIL" | "REPORT" | "WEBHOOK" | "INBOUND_WEBHOOK"
 
 export interface JobPayload {
   [key: string]: any
 }
 
+export interface RetryPolicy {
+  maxAttempts: number
+  baseDelayMs: number
+  maxDelayMs: number
+  // Fraction of the delay that is randomised (0 = none, 1 = full jitter)
+  jitter: number
+}
+
+const MINUTE = 60 * 1000
+
+/**
+ * Per-type retry policies. EMAIL retries quickly to ride out short provider
+ * outages; REPORT jobs are expensive, so they back off further. WEBHOOK keeps
+ * trying for about a day so a receiver can recover from an outage.
+ * INBOUND_WEBHOOK events from Stripe and Clerk give up after a few hours and
+ * wait for an admin to replay them.
+ */
+export const RETRY_POLICIES: Record<JobType, RetryPolicy> = {
+  EMAIL: { maxAttempts: 6, baseDelayMs: 30 * 1000, maxDelayMs: 60 * MINUTE, jitter: 0.5 },
+  REPORT: { maxAttempts: 3, baseDelayMs: 5 * MINUTE, maxDelayMs: 2 * 60 * MINUTE, jitter: 0.25 },
+  WEBHOOK: { maxAttempts: 8, baseDelayMs: MINUTE, maxDelayMs: 6 * 60 * MINUTE, jitter: 0.25 },
+  INBOUND_WEBHOOK: { maxAttempts: 5, baseDelayMs: MINUTE, maxDelayMs: 60 * MINUTE, jitter: 0.25 },
+}
+
+const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  maxAttempts: 3,
+  baseDelayMs: MINUTE,
+  maxDelayMs: 60 * MINUTE,
+  jitter: 0.5,
+}
+
+// Jobs left in PROCESSING longer than this are assumed to belong to a crashed worker
+export const STUCK_JOB_TIMEOUT_MS = 15 * MINUTE
+
+export function getRetryPolicy(type: string): RetryPolicy {
+  return RETRY_POLICIES[type as JobType] ?? DEFAULT_RETRY_POLICY
+}
+
+/**
+ * Exponential backoff for the given attempt (1-based), capped at maxDelayMs.
+ * The jittered portion spreads retries so a provider outage does not cause a
+ * thundering herd when it recovers.
+ */
+export function computeBackoffDelay(
+  attempt: number,
+  policy: RetryPolicy,
+  random: () => number = Math.random
+): number {
+  const exponential = policy.baseDelayMs * 2 ** Math.max(attempt - 1, 0)
+  const capped = Math.min(exponential, policy.maxDelayMs)
+  const jitter = Math.min(Math.max(policy.jitter, 0), 1)
+  return Math.round(capped * (1 - jitter) + capped * jitter * random())
+}
+
+export type FailOutcome =
+  | { status: "PENDING"; runAt: Date; attempts: number }
+  | { status: "DEAD"; attempts: number }
+
+type Tx = Parameters<Parameters<typeof db.transaction>[0]>[0]
+
+/**
+ * Runs in the requeue transaction with the payloads of one type's requeued
+ * jobs, so state kept outside the job is reopened along with it.
+ */
+export type RequeueHook = (tx: Tx, payloads: unknown[]) => Promise<void>
+
 export class QueueManager {
   /**
    * Add a job to the queue
    */
-  static async add(type: JobType, payload: JobPayload, options?: { runAt?: Date }) {
+  static async add(
+    type: JobType,
+    payload: JobPayload,
+    options?: { runAt?: Date; maxAttempts?: number }
+  ) {
     const [job] = await db
       .insert(jobs)
       .values({
         type,
         payload,
         runAt: options?.runAt || new Date(),
+        maxAttempts: options?.maxAttempts ?? getRetryPolicy(type).maxAttempts,
       })
       .returning()
     return job
@@ -85,17 +156,117 @@ export class QueueManager {
   }
 
   /**
-   * Mark job as failed
+   * Record a failed attempt. The job is rescheduled with backoff until it
+   * reaches maxAttempts, then moved to the DEAD (dead-letter) status.
    */
-  static async fail(jobId: string, error: string) {
+  static async fail(jobId: string, error: string): Promise<FailOutcome | null> {
+    const [job] = await db.select().from(jobs).where(eq(jobs.id, jobId)).limit(1)
+    if (!job) return null
+
+    const now = new Date()
+    if (job.attempts >= job.maxAttempts) {
+      await db
+        .update(jobs)
+        .set({ status: "DEAD", lastError: error, processedAt: now, updatedAt: now })
+        .where(eq(jobs.id, jobId))
+      return { status: "DEAD", attempts: job.attempts }
+    }
+
+    const runAt = new Date(
+      now.getTime() + computeBackoffDelay(job.attempts, getRetryPolicy(job.type))
+    )
     await db
       .update(jobs)
-      .set({
-        status: "FAILED",
-        lastError: error,
-        updatedAt: new Date(),
-      })
+      .set({ status: "PENDING", lastError: error, runAt, updatedAt: now })
       .where(eq(jobs.id, jobId))
+    return { status: "PENDING", runAt, attempts: job.attempts }
+  }
+
+  /**
+   * Release jobs stuck in PROCESSING after a worker crash or timeout.
+   * Jobs with attempts left go back to PENDING; exhausted ones are dead-lettered.
+   */
+  static async recoverStuckJobs(timeoutMs: number = STUCK_JOB_TIMEOUT_MS) {
+    const now = new Date()
+    const staleBefore = new Date(now.getTime() - timeoutMs)
+    const stuck = and(eq(jobs.status, "PROCESSING"), lt(jobs.updatedAt, staleBefore))
+    const lastError = `Worker did not finish within ${Math.round(timeoutMs / 1000)}s`
+
+    const dead = await db
+      .update(jobs)
+      .set({ status: "DEAD", lastError, processedAt: now, updatedAt: now })
+      .where(and(stuck, gte(jobs.attempts, jobs.maxAttempts)))
+      .returning({ id: jobs.id })
+
+    const requeued = await db
+      .update(jobs)
+      .set({ status: "PENDING", lastError, runAt: now, updatedAt: now })
+      .where(and(stuck, lt(jobs.attempts, jobs.maxAttempts)))
+      .returning({ id: jobs.id })
+
+    return { requeued: requeued.length, dead: dead.length }
+  }
+
+  /**
+   * List dead-lettered jobs, most recent first
+   */
+  static async listDead(options?: { type?: JobType; limit?: number; offset?: number }) {
+    return await db
+      .select()
+      .from(jobs)
+      .where(and(eq(jobs.status, "DEAD"), options?.type ? eq(jobs.type, options.type) : undefined))
+      .orderBy(desc(jobs.updatedAt), asc(jobs.id))
+      .limit(options?.limit ?? 50)
+      .offset(options?.offset ?? 0)
+  }
+
+  /**
+   * Move dead jobs back to PENDING with a fresh attempt budget.
+   * Without jobIds every dead job (optionally of one type) is requeued.
+   * Each type's hook runs in the same transaction.
+   */
+  static async requeueDead(
+    options?: { jobIds?: string[]; type?: JobType },
+    hooks: Partial<Record<JobType, RequeueHook>> = {}
+  ) {
+    const now = new Date()
+    return await db.transaction(async (tx) => {
+      const requeued = await tx
+        .update(jobs)
+        .set({ status: "PENDING", attempts: 0, runAt: now, processedAt: null, updatedAt: now })
+        .where(
+          and(
+            eq(jobs.status, "DEAD"),
+            options?.jobIds ? inArray(jobs.id, options.jobIds) : undefined,
+            options?.type ? eq(jobs.type, options.type) : undefined
+          )
+        )
+        .returning({ id: jobs.id, type: jobs.type, payload: jobs.payload })
+
+      for (const [type, hook] of Object.entries(hooks)) {
+        const payloads = requeued.filter((job) => job.type === type).map((job) => job.payload)
+        if (payloads.length > 0) await hook(tx, payloads)
+      }
+      return requeued.length
+    })
+  }
+
+  /**
+   * Permanently delete dead jobs.
+   * Without jobIds every dead job (optionally of one type) is purged.
+   */
+  static async purgeDead(options?: { jobIds?: string[]; type?: JobType }) {
+    const purged = await db
+      .delete(jobs)
+      .where(
+        and(
+          eq(jobs.status, "DEAD"),
+          options?.jobIds ? inArray(jobs.id, options.jobIds) : undefined,
+          options?.type ? eq(jobs.type, options.type) : undefined
+        )
+      )
+      .returning({ id: jobs.id })
+    return purged.length
   }
 }
 
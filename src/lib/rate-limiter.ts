@@ -168,3 +168,16 @@ export const adminApiLimiter = new RateLimiter({
     return `admin:ip:${ip}`
   },
 })
+
+// Public certificate verification is unauthenticated, so it is limited per IP
+export const certificateVerifyLimiter = new RateLimiter({
+  windowMs: 60 * 1000, // 1 minute
+  maxRequests: 20, // Max 20 verifications per minute
+  keyGenerator: (request) => {
+    const ip =
+      request.headers.get("x-forwarded-for")?.split(",")[0]?.trim() ||
+      request.headers.get("x-real-ip") ||
+      "unknown"
+    return `certificate-verify:ip:${ip}`
+  },
+})
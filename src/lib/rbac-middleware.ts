@@ -1,10 +1,18 @@
 import { eq } from "drizzle-orm"
 import type { NextRequest } from "next/server"
 import { db } from "@/database/connection-pool"
-import { auditLogs, users } from "@/database/schema"
+import { users } from "@/database/schema"
+import { appendAuditLog } from "@/lib/audit-chain"
+import {
+  type ApiKeyScope,
+  authenticateApiKey,
+  extractApiKey,
+  hasApiKeyScopes,
+} from "@/lib/api-keys"
 import { hasPermission, type Permission, ROLE_HIERARCHY } from "@/lib/auth"
 import { getCurrentUser } from "@/lib/auth-clerk"
 import { logger } from "@/lib/logger"
+import { getSchoolContext, type SchoolContext } from "@/lib/school-utils"
 import type { UserRole } from "@/types"
 
 // Role validation utilities
@@ -512,8 +520,7 @@ export async function logAuditEvent({
   status?: "SUCCESS" | "FAILURE" | "ERROR"
 }) {
   try {
-    await db.insert(auditLogs).values({
-      id: crypto.randomUUID(),
+    await appendAuditLog({
       userId,
       action,
       resource,
@@ -569,6 +576,122 @@ export function hasRouteAccess(
   return { hasAccess: true, config }
 }
 
+type AuthenticatedUser = NonNullable<Awaited<ReturnType<typeof getCurrentUser>>>
+
+// API key that authenticated the request, when one was used instead of a session
+export interface ApiKeyPrincipal {
+  id: string
+  name: string
+  schoolId: string
+  scopes: string[]
+}
+
+export function getClientIp(request: NextRequest) {
+  return request.headers.get("x-forwarded-for") || request.headers.get("x-real-ip") || "unknown"
+}
+
+async function authenticateWithApiKey(
+  request: NextRequest,
+  secret: string,
+  requiredScopes: ApiKeyScope[] | undefined
+): Promise<
+  | { success: true; user: AuthenticatedUser; apiKey: ApiKeyPrincipal }
+  | { success: false; error: string; status: number }
+> {
+  const ipAddress = getClientIp(request)
+  const userAgent = request.headers.get("user-agent") || undefined
+  const result = await authenticateApiKey(secret, ipAddress)
+
+  if (!result.success) {
+    await logAuditEvent({
+      userId: result.key?.createdBy,
+      action: "API_KEY_REJECTED",
+      resource: "API_ROUTE",
+      resourceId: request.nextUrl.pathname,
+      details: { reason: result.reason, apiKeyId: result.key?.id },
+      ipAddress,
+      userAgent,
+      severity: "MEDIUM",
+      status: "FAILURE",
+    })
+    return { success: false, error: "Invalid or expired API key", status: 401 }
+  }
+
+  const { key } = result
+  // Endpoints opt in to API keys by declaring the scopes they need
+  if (!requiredScopes?.length || !hasApiKeyScopes(key.scopes, requiredScopes)) {
+    await logAuditEvent({
+      userId: key.createdBy,
+      action: "ACCESS_DENIED",
+      resource: "API_ROUTE",
+      resourceId: request.nextUrl.pathname,
+      details: { reason: "Missing API key scope", apiKeyId: key.id, requiredScopes },
+      ipAddress,
+      userAgent,
+      severity: "MEDIUM",
+      status: "FAILURE",
+    })
+    return {
+      success: false,
+      error: requiredScopes?.length
+        ? `API key is missing required scopes: ${requiredScopes.join(", ")}`
+        : "This endpoint does not accept API keys",
+      status: 403,
+    }
+  }
+
+  const owner = await getUserById(key.createdBy)
+  if (!owner?.isActive || !owner.role) {
+    return { success: false, error: "Invalid or expired API key", status: 401 }
+  }
+
+  return {
+    success: true,
+    // Keys are confined to their school, so a super admin's key acts as that school's admin
+    user: {
+      ...owner,
+      name: owner.name || "User",
+      totalClinicalHours: owner.totalClinicalHours ?? 0,
+      completedRotations: owner.completedRotations ?? 0,
+      role: owner.role === "SUPER_ADMIN" ? "SCHOOL_ADMIN" : owner.role,
+      schoolId: key.schoolId,
+    },
+    apiKey: { id: key.id, name: key.name, schoolId: key.schoolId, scopes: key.scopes },
+  }
+}
+
+/**
+ * School context for a route that also accepts API keys. A key acts as its
+ * creator confined to the key's school; without one this is the session's
+ * getSchoolContext().
+ */
+export async function getRequestSchoolContext(
+  request: NextRequest,
+  requiredScopes: ApiKeyScope[]
+): Promise<
+  { success: true; context: SchoolContext } | { success: false; error: string; status: number }
+> {
+  const secret = extractApiKey(request.headers)
+  if (!secret) return { success: true, context: await getSchoolContext() }
+
+  const keyAuth = await authenticateWithApiKey(request, secret, requiredScopes)
+  if (!keyAuth.success) return keyAuth
+
+  const { user, apiKey } = keyAuth
+  return {
+    success: true,
+    context: {
+      schoolId: apiKey.schoolId,
+      schoolName: null,
+      userRole: user.role,
+      userId: user.id,
+      canAccessAllSchools: false,
+      homeSchoolId: apiKey.schoolId,
+      affiliatedSchoolIds: [apiKey.schoolId],
+    },
+  }
+}
+
 // API Authorization function for API routes
 export async function apiAuthMiddleware(
   request: NextRequest,
@@ -577,22 +700,34 @@ export async function apiAuthMiddleware(
     requiredPermissions?: Permission[]
     requireAll?: boolean
     requireAny?: boolean
+    // API keys are rejected unless the endpoint lists the scopes it needs
+    requiredScopes?: ApiKeyScope[]
   }
 ): Promise<{
   success: boolean
   error?: string
   status?: number
   user?: typeof getCurrentUser extends () => Promise<infer U> ? U : never
+  apiKey?: ApiKeyPrincipal
 }> {
   const {
     requiredRoles,
     requiredPermissions,
     requireAll = false,
     requireAny = false,
+    requiredScopes,
   } = options || {}
   try {
+    const apiKeySecret = extractApiKey(request.headers)
+    const keyAuth = apiKeySecret
+      ? await authenticateWithApiKey(request, apiKeySecret, requiredScopes)
+      : null
+    if (keyAuth && !keyAuth.success) {
+      return { success: false, error: keyAuth.error, status: keyAuth.status }
+    }
+
     // Get current user
-    const user = await getCurrentUser()
+    const user = keyAuth ? keyAuth.user : await getCurrentUser()
 
     if (!user) {
       return {
@@ -683,9 +818,27 @@ export async function apiAuthMiddleware(
       }
     }
 
+    if (keyAuth) {
+      await logAuditEvent({
+        userId: user.id,
+        action: "API_KEY_REQUEST",
+        resource: "API_ROUTE",
+        resourceId: request.nextUrl.pathname,
+        details: {
+          method: request.method,
+          apiKeyId: keyAuth.apiKey.id,
+          apiKeyName: keyAuth.apiKey.name,
+          schoolId: keyAuth.apiKey.schoolId,
+        },
+        ipAddress: getClientIp(request),
+        userAgent: request.headers.get("user-agent") || undefined,
+      })
+    }
+
     return {
       success: true,
       user,
+      apiKey: keyAuth?.apiKey,
     }
   } catch (error) {
     logger.error({ error }, "API auth middleware error")
@@ -754,13 +907,18 @@ export function canModifyRole(
 export function canAccessSchoolData(
   userRole: UserRole,
   userSchoolId: string,
-  targetSchoolId: string
+  targetSchoolId: string,
+  affiliatedSchoolIds: string[] = []
 ): boolean {
   // SUPER_ADMIN can access all school data
   if (userRole === "SUPER_ADMIN") {
     return true
   }
 
-  // All other roles are limited to their school
-  return userSchoolId === targetSchoolId
+  if (userSchoolId === targetSchoolId) {
+    return true
+  }
+
+  // Preceptors also teach for the schools they are affiliated with
+  return userRole === "CLINICAL_PRECEPTOR" && affiliatedSchoolIds.includes(targetSchoolId)
 }
@@ -0,0 +1,313 @@
+import { deflateSync } from "zlib"
+import {
+  formatCellValue,
+  type ReportChart,
+  type ReportDocument,
+  type ReportSection,
+} from "./report-document"
+
+/**
+ * PDF renderer for report documents.
+ * Writes PDF 1.4 directly using the standard Helvetica fonts, so no font files
+ * or native dependencies are needed at runtime. Produces US Letter pages with a
+ * repeated header/footer, paginated tables and horizontal bar charts.
+ */
+
+const PAGE_WIDTH = 612
+const PAGE_HEIGHT = 792
+const MARGIN = 50
+const CONTENT_WIDTH = PAGE_WIDTH - MARGIN * 2
+const HEADER_BOTTOM = PAGE_HEIGHT - MARGIN - 40
+const FOOTER_TOP = MARGIN + 20
+const ROW_HEIGHT = 16
+const MAX_CHART_BARS = 40
+
+// Helvetica advance widths (1/1000 em) for ASCII 32..126
+const HELVETICA_WIDTHS = [
+  278, 278, 355, 556, 556, 889, 667, 191, 333, 333, 389, 584, 278, 333, 278, 278, 556, 556, 556,
+  556, 556, 556, 556, 556, 556, 556, 278, 278, 584, 584, 584, 556, 1015, 667, 667, 722, 722, 667,
+  611, 778, 722, 278, 500, 667, 556, 833, 722, 778, 667, 778, 722, 667, 611, 722, 667, 944, 667,
+  667, 611, 278, 278, 278, 469, 556, 333, 556, 556, 500, 556, 556, 278, 556, 556, 222, 222, 500,
+  222, 833, 556, 556, 556, 556, 333, 500, 278, 556, 500, 722, 500, 500, 500, 334, 260, 334, 584,
+]
+
+type FontName = "F1" | "F2"
+
+export function measureText(text: string, size: number, font: FontName = "F1"): number {
+  let width = 0
+  for (const char of text) {
+    const code = char.charCodeAt(0)
+    width += code >= 32 && code <= 126 ? HELVETICA_WIDTHS[code - 32] : 556
+  }
+  // Helvetica-Bold runs roughly 5% wider than the regular face
+  return (width * size * (font === "F2" ? 1.05 : 1)) / 1000
+}
+
+function truncateToWidth(text: string, maxWidth: number, size: number, font: FontName): string {
+  if (measureText(text, size, font) <= maxWidth) return text
+  let truncated = text
+  while (truncated.length > 0 && measureText(`${truncated}...`, size, font) > maxWidth) {
+    truncated = truncated.slice(0, -1)
+  }
+  return `${truncated}...`
+}
+
+// Escape a string for a PDF literal, mapping non-Latin-1 characters to "?"
+function pdfString(text: string): string {
+  let out = ""
+  for (const char of text) {
+    const code = char.charCodeAt(0)
+    if (char === "\\" || char === "(" || char === ")") {
+      out += `\\${char}`
+    } else if (code >= 32 && code <= 126) {
+      out += char
+    } else if (code >= 160 && code <= 255) {
+      out += `\\${code.toString(8).padStart(3, "0")}`
+    } else {
+      out += "?"
+    }
+  }
+  return `(${out})`
+}
+
+const fmt = (n: number) => (Math.round(n * 100) / 100).toString()
+
+class PdfPageWriter {
+  pages: string[][] = []
+  private ops: string[] = []
+  y = HEADER_BOTTOM
+
+  constructor(private readonly doc: ReportDocument) {
+    this.newPage()
+  }
+
+  newPage() {
+    this.ops = []
+    this.pages.push(this.ops)
+    this.y = HEADER_BOTTOM
+    this.drawHeader()
+  }
+
+  ensureSpace(height: number) {
+    if (this.y - height < FOOTER_TOP) {
+      this.newPage()
+      return true
+    }
+    return false
+  }
+
+  text(x: number, y: number, value: string, size = 10, font: FontName = "F1") {
+    this.ops.push(`BT /${font} ${size} Tf ${fmt(x)} ${fmt(y)} Td ${pdfString(value)} Tj ET`)
+  }
+
+  rect(x: number, y: number, width: number, height: number, gray: number) {
+    this.ops.push(`${gray} g ${fmt(x)} ${fmt(y)} ${fmt(width)} ${fmt(height)} re f 0 g`)
+  }
+
+  line(x1: number, y1: number, x2: number, y2: number, gray = 0.75) {
+    this.ops.push(`${gray} G 0.5 w ${fmt(x1)} ${fmt(y1)} m ${fmt(x2)} ${fmt(y2)} l S 0 G`)
+  }
+
+  private drawHeader() {
+    const top = PAGE_HEIGHT - MARGIN
+    this.text(MARGIN, top - 14, this.doc.title, 14, "F2")
+    const meta = [
+      this.doc.subtitle,
+      this.doc.period
+        ? `${this.doc.period.from.toISOString().split("T")[0]} to ${this.doc.period.to.toISOString().split("T")[0]}`
+        : undefined,
+      `Generated ${this.doc.generatedAt.toISOString().replace("T", " ").slice(0, 16)} UTC`,
+    ]
+      .filter(Boolean)
+      .join("  |  ")
+    this.text(MARGIN, top - 30, meta, 8)
+    this.line(MARGIN, top - 36, PAGE_WIDTH - MARGIN, top - 36, 0.5)
+  }
+}
+
+function columnWidths(section: ReportSection): number[] {
+  const weights = section.columns.map((c) => (!c.kind || c.kind === "text" ? 2 : 1))
+  const totalWeight = weights.reduce((a, b) => a + b, 0)
+  return weights.map((w) => (w / totalWeight) * CONTENT_WIDTH)
+}
+
+function drawTableHeader(page: PdfPageWriter, section: ReportSection, widths: number[]) {
+  page.rect(MARGIN, page.y - ROW_HEIGHT + 4, CONTENT_WIDTH, ROW_HEIGHT, 0.9)
+  let x = MARGIN
+  section.columns.forEach((column, i) => {
+    const label = truncateToWidth(column.label, widths[i] - 8, 9, "F2")
+    page.text(x + 4, page.y - 8, label, 9, "F2")
+    x += widths[i]
+  })
+  page.y -= ROW_HEIGHT
+}
+
+function drawTable(page: PdfPageWriter, section: ReportSection) {
+  const widths = columnWidths(section)
+  page.ensureSpace(ROW_HEIGHT * 2)
+  drawTableHeader(page, section, widths)
+
+  if (section.rows.length === 0) {
+    page.text(MARGIN + 4, page.y - 8, "No data for this period.", 9)
+    page.y -= ROW_HEIGHT
+    return
+  }
+
+  for (const row of section.rows) {
+    if (page.ensureSpace(ROW_HEIGHT)) {
+      page.text(MARGIN, page.y - 8, `${section.title} (continued)`, 10, "F2")
+      page.y -= ROW_HEIGHT
+      drawTableHeader(page, section, widths)
+    }
+    let x = MARGIN
+    section.columns.forEach((column, i) => {
+      const raw = formatCellValue(row[column.key] ?? null, column.kind)
+      const value = truncateToWidth(raw, widths[i] - 8, 9, "F1")
+      const isNumeric = column.kind && column.kind !== "text"
+      const textX = isNumeric ? x + widths[i] - 4 - measureText(value, 9) : x + 4
+      page.text(textX, page.y - 8, value, 9)
+      x += widths[i]
+    })
+    page.line(MARGIN, page.y - ROW_HEIGHT + 4, PAGE_WIDTH - MARGIN, page.y - ROW_HEIGHT + 4, 0.85)
+    page.y -= ROW_HEIGHT
+  }
+}
+
+function drawChart(page: PdfPageWriter, chart: ReportChart) {
+  const labels = chart.labels.slice(0, MAX_CHART_BARS)
+  const values = chart.values.slice(0, MAX_CHART_BARS)
+  if (values.length === 0) return
+
+  const labelWidth = 140
+  const valueWidth = 50
+  const barArea = CONTENT_WIDTH - labelWidth - valueWidth
+  const max = chart.max ?? Math.max(...values, 0)
+  const barHeight = 10
+
+  page.ensureSpace(ROW_HEIGHT * 2)
+  page.text(MARGIN, page.y - 10, chart.title, 10, "F2")
+  page.y -= ROW_HEIGHT + 4
+
+  values.forEach((value, i) => {
+    page.ensureSpace(barHeight + 4)
+    const label = truncateToWidth(labels[i] ?? "", labelWidth - 8, 8, "F1")
+    page.text(MARGIN, page.y - 8, label, 8)
+    const width = max > 0 ? Math.max(0, (value / max) * barArea) : 0
+    page.rect(MARGIN + labelWidth, page.y - barHeight, width, barHeight - 2, 0.45)
+    page.text(MARGIN + labelWidth + width + 4, page.y - 8, `${fmt(value)}${chart.unit ?? ""}`, 8)
+    page.y -= barHeight + 4
+  })
+
+  if (chart.values.length > MAX_CHART_BARS) {
+    page.text(MARGIN, page.y - 8, `Showing first ${MAX_CHART_BARS} of ${chart.values.length}.`, 8)
+    page.y -= ROW_HEIGHT
+  }
+}
+
+function layoutPages(doc: ReportDocument): string[][] {
+  const page = new PdfPageWriter(doc)
+
+  doc.sections.forEach((section, index) => {
+    // Start each section after the first on a fresh page when less than a third remains
+    if (index > 0 && page.y < FOOTER_TOP + (HEADER_BOTTOM - FOOTER_TOP) / 3) {
+      page.newPage()
+    }
+    page.ensureSpace(ROW_HEIGHT * 3)
+    page.text(MARGIN, page.y - 12, section.title, 12, "F2")
+    page.y -= ROW_HEIGHT + 6
+    if (section.description) {
+      page.text(MARGIN, page.y - 8, section.description, 8)
+      page.y -= ROW_HEIGHT
+    }
+    if (section.chart) {
+      drawChart(page, section.chart)
+      page.y -= 8
+    }
+    drawTable(page, section)
+    page.y -= ROW_HEIGHT
+  })
+
+  const total = page.pages.length
+  page.pages.forEach((ops, i) => {
+    const label = `Page ${i + 1} of ${total}`
+    ops.push(
+      `BT /F1 8 Tf ${fmt(PAGE_WIDTH - MARGIN - measureText(label, 8))} ${MARGIN} Td ${pdfString(label)} Tj ET`
+    )
+    ops.push(`BT /F1 8 Tf ${MARGIN} ${MARGIN} Td ${pdfString("MedStint - Confidential")} Tj ET`)
+  })
+
+  return page.pages
+}
+
+export function renderReportPdf(doc: ReportDocument): Buffer {
+  const pages = layoutPages(doc)
+  const objects: Buffer[] = []
+  const addObject = (body: Buffer | string) => {
+    objects.push(typeof body === "string" ? Buffer.from(body, "latin1") : body)
+    return objects.length
+  }
+
+  // Fixed object numbers: 1 catalog, 2 page tree, 3-4 fonts, 5 info
+  const pageTreeId = 2
+  const firstPageId = 6
+  const pageIds = pages.map((_, i) => firstPageId + i * 2)
+
+  addObject(`<< /Type /Catalog /Pages ${pageTreeId} 0 R >>`)
+  addObject(
+    `<< /Type /Pages /Kids [${pageIds.map((id) => `${id} 0 R`).join(" ")}] /Count ${pages.length} >>`
+  )
+  addObject("<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>")
+  addObject(
+    "<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>"
+  )
+  addObject(
+    `<< /Title ${pdfString(doc.title)} /Creator (MedStint) /Producer (MedStint Reports) /CreationDate ${pdfString(
+      `D:${doc.generatedAt.toISOString().replace(/[-:T]/g, "").slice(0, 14)}Z`
+    )} >>`
+  )
+
+  for (const ops of pages) {
+    const pageId = objects.length + 1
+    const contentId = pageId + 1
+    addObject(
+      `<< /Type /Page /Parent ${pageTreeId} 0 R /MediaBox [0 0 ${PAGE_WIDTH} ${PAGE_HEIGHT}] /Resources << /Font << /F1 3 0 R /F2 4 0 R >> >> /Contents ${contentId} 0 R >>`
+    )
+    const stream = deflateSync(Buffer.from(ops.join("\n"), "latin1"))
+    addObject(
+      Buffer.concat([
+        Buffer.from(`<< /Length ${stream.length} /Filter /FlateDecode >>\nstream\n`, "latin1"),
+        stream,
+        Buffer.from("\nendstream", "latin1"),
+      ])
+    )
+  }
+
+  const chunks: Buffer[] = [Buffer.from("%PDF-1.4\n%\xE2\xE3\xCF\xD3\n", "latin1")]
+  let offset = chunks[0].length
+  const offsets: number[] = []
+  objects.forEach((body, i) => {
+    offsets.push(offset)
+    const chunk = Buffer.concat([
+      Buffer.from(`${i + 1} 0 obj\n`, "latin1"),
+      body,
+      Buffer.from("\nendobj\n", "latin1"),
+    ])
+    chunks.push(chunk)
+    offset += chunk.length
+  })
+
+  const xref = [
+    "xref",
+    `0 ${objects.length + 1}`,
+    "0000000000 65535 f ",
+    ...offsets.map((o) => `${o.toString().padStart(10, "0")} 00000 n `),
+    "trailer",
+    `<< /Size ${objects.length + 1} /Root 1 0 R /Info 5 0 R >>`,
+    "startxref",
+    String(offset),
+    "%%EOF",
+  ].join("\n")
+  chunks.push(Buffer.from(xref, "latin1"))
+
+  return Buffer.concat(chunks)
+}
@@ -0,0 +1,50 @@
+import { formatCellValue, type ReportCellValue, type ReportDocument } from "./report-document"
+import { renderReportPdf } from "./pdf-renderer"
+import { renderReportXlsx } from "./xlsx-renderer"
+
+export type ReportFormat = "pdf" | "excel" | "csv"
+
+export interface RenderedReport {
+  buffer: Buffer
+  contentType: string
+  fileExtension: string
+}
+
+function csvValue(value: ReportCellValue | string): string {
+  const text = value === null || value === undefined ? "" : String(value)
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text
+}
+
+/**
+ * CSV export. Multi-section documents are written as consecutive blocks,
+ * each preceded by its section title and separated by a blank line.
+ */
+export function renderReportCsv(doc: ReportDocument): Buffer {
+  const blocks = doc.sections.map((section) => {
+    const lines = [section.columns.map((c) => csvValue(c.label)).join(",")]
+    for (const row of section.rows) {
+      lines.push(
+        section.columns.map((c) => csvValue(formatCellValue(row[c.key] ?? null, c.kind))).join(",")
+      )
+    }
+    return doc.sections.length > 1
+      ? [csvValue(section.title), ...lines].join("\n")
+      : lines.join("\n")
+  })
+  return Buffer.from(`${blocks.join("\n\n")}\n`)
+}
+
+export function renderReport(doc: ReportDocument, format: ReportFormat): RenderedReport {
+  switch (format) {
+    case "pdf":
+      return { buffer: renderReportPdf(doc), contentType: "application/pdf", fileExtension: "pdf" }
+    case "excel":
+      return {
+        buffer: renderReportXlsx(doc),
+        contentType: "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+        fileExtension: "xlsx",
+      }
+    case "csv":
+      return { buffer: renderReportCsv(doc), contentType: "text/csv", fileExtension: "csv" }
+  }
+}
@@ -0,0 +1,278 @@
+import { and, avg, count, desc, eq, gte, lte, sql, sum } from "drizzle-orm"
+import { db } from "@/database/db"
+import {
+  assessments,
+  clinicalSites,
+  competencies,
+  competencyAssignments,
+  rotations,
+  timeRecords,
+  users,
+} from "@/database/schema"
+import { studentInSchool } from "@/lib/school-affiliations"
+
+/**
+ * Comprehensive report dataset shared by /api/reports/comprehensive (JSON),
+ * /api/reports/export (PDF, XLSX, CSV) and the scheduled report worker.
+ */
+
+export interface ReportDataFilters {
+  from: Date
+  to: Date
+  // Required so every caller decides the school; null only for a cross-tenant scope
+  schoolId: string | null
+  programId?: string | null
+}
+
+export interface StudentHoursBreakdown {
+  studentId: string
+  name: string
+  approvedHours: number
+  pendingHours: number
+  totalHours: number
+  recordCount: number
+}
+
+export interface ComprehensiveReportData {
+  summary: {
+    totalStudents: number
+    totalCompetencies: number
+    totalAssignments: number
+    completionRate: number
+    averageScore: string
+    totalHours: string
+  }
+  timeTracking: {
+    dailyHours: Array<{ date: string; hours: number; students: number }>
+    hoursByStudent: StudentHoursBreakdown[]
+    weeklyTrends: unknown[]
+    topActivities: unknown[]
+  }
+  competencyProgress: {
+    byCategory: Array<{ category: string; total: number; completed: number; rate: number }>
+    byStudent: unknown[]
+    overallTrends: unknown[]
+  }
+  studentPerformance: {
+    topPerformers: Array<{
+      studentId: string
+      name: string
+      completedCompetencies: number
+      averageScore: number
+      totalHours: number
+    }>
+    needsAttention: unknown[]
+    averagesByProgram: unknown[]
+  }
+  assessmentAnalytics: {
+    completionRates: unknown[]
+    scoreDistribution: unknown[]
+    timeToCompletion: unknown[]
+  }
+  clinicalSites: {
+    utilizationRates: Array<{ name: string; activeRotations: number }>
+    performanceByLocation: unknown[]
+    capacityAnalysis: unknown[]
+  }
+  recommendations: unknown[]
+}
+
+/**
+ * Parse the from/to query parameters used by the reporting endpoints,
+ * defaulting to the last month. The school always comes from the caller's
+ * tenant scope, never from the query string.
+ */
+export function parseReportFilters(
+  params: URLSearchParams,
+  schoolId: string | null
+): ReportDataFilters {
+  const from = params.get("from")
+  const to = params.get("to")
+
+  return {
+    from: from ? new Date(from) : new Date(new Date().setMonth(new Date().getMonth() - 1)),
+    to: to ? new Date(to) : new Date(),
+    schoolId,
+    programId: params.get("program"),
+  }
+}
+
+export async function generateComprehensiveReportData(
+  filters: ReportDataFilters
+): Promise<ComprehensiveReportData> {
+  const { from, to, schoolId, programId } = filters
+
+  // Scope student-owned rows by joining through users
+  const studentScope = and(
+    eq(users.role, "STUDENT"),
+    schoolId ? eq(users.schoolId, schoolId) : undefined,
+    programId ? eq(users.programId, programId) : undefined
+  )
+  const dateFilter = and(gte(timeRecords.date, from), lte(timeRecords.date, to))
+
+  // 1. Summary Statistics
+  const [studentCount] = await db.select({ count: count() }).from(users).where(studentScope)
+
+  const [competencyCount] = await db
+    .select({ count: count() })
+    .from(competencies)
+    .where(schoolId ? eq(competencies.schoolId, schoolId) : undefined)
+
+  const [assignmentStats] = await db
+    .select({
+      total: count(),
+      completed: sql<number>`sum(case when ${competencyAssignments.status} = 'COMPLETED' then 1 else 0 end)`,
+    })
+    .from(competencyAssignments)
+    .innerJoin(users, eq(competencyAssignments.userId, users.id))
+    .where(studentScope)
+
+  const [hoursStats] = await db
+    .select({ total: sum(timeRecords.totalHours) })
+    .from(timeRecords)
+    .innerJoin(users, eq(timeRecords.studentId, users.id))
+    .where(and(dateFilter, studentScope))
+
+  const [scoreStats] = await db
+    .select({ average: avg(assessments.score) })
+    .from(assessments)
+    .innerJoin(users, eq(assessments.studentId, users.id))
+    .where(studentScope)
+
+  const completionRate = assignmentStats?.total
+    ? (Number(assignmentStats.completed) / Number(assignmentStats.total)) * 100
+    : 0
+
+  // 2. Time Tracking Trends (Daily)
+  const dailyHours = await db
+    .select({
+      date: timeRecords.date,
+      hours: sum(timeRecords.totalHours),
+      students: sql<number>`count(distinct ${timeRecords.studentId})`,
+    })
+    .from(timeRecords)
+    .innerJoin(users, eq(timeRecords.studentId, users.id))
+    .where(and(dateFilter, studentScope))
+    .groupBy(timeRecords.date)
+    .orderBy(timeRecords.date)
+
+  // 3. Per-student hour breakdown
+  const hoursByStudent = await db
+    .select({
+      studentId: users.id,
+      name: users.name,
+      approvedHours: sql<string>`coalesce(sum(case when ${timeRecords.status} = 'APPROVED' then ${timeRecords.totalHours} else 0 end), 0)`,
+      pendingHours: sql<string>`coalesce(sum(case when ${timeRecords.status} = 'PENDING' then ${timeRecords.totalHours} else 0 end), 0)`,
+      totalHours: sql<string>`coalesce(sum(${timeRecords.totalHours}), 0)`,
+      recordCount: count(timeRecords.id),
+    })
+    .from(timeRecords)
+    .innerJoin(users, eq(timeRecords.studentId, users.id))
+    .where(and(dateFilter, studentScope))
+    .groupBy(users.id, users.name)
+    .orderBy(users.name)
+
+  // 4. Competency Progress by Category
+  const competencyProgress = await db
+    .select({
+      category: competencies.category,
+      count: count(competencyAssignments.id),
+      completed: sql<number>`sum(case when ${competencyAssignments.status} = 'COMPLETED' then 1 else 0 end)`,
+    })
+    .from(competencyAssignments)
+    .innerJoin(users, eq(competencyAssignments.userId, users.id))
+    .leftJoin(competencies, eq(competencyAssignments.competencyId, competencies.id))
+    .where(studentScope)
+    .groupBy(competencies.category)
+
+  // 5. Top performers by assessment average
+  const topPerformers = await db
+    .select({
+      studentId: users.id,
+      name: users.name,
+      averageScore: avg(assessments.score),
+      passed: sql<number>`sum(case when ${assessments.passed} then 1 else 0 end)`,
+    })
+    .from(assessments)
+    .innerJoin(users, eq(assessments.studentId, users.id))
+    .where(studentScope)
+    .groupBy(users.id, users.name)
+    .orderBy(desc(avg(assessments.score)))
+    .limit(25)
+
+  // 6. Clinical Site Utilization, counting only the school's own students at shared sites
+  const siteUtilization = await db
+    .select({
+      name: clinicalSites.name,
+      activeRotations: count(rotations.id),
+    })
+    .from(clinicalSites)
+    .leftJoin(rotations, eq(clinicalSites.id, rotations.clinicalSiteId))
+    .where(and(eq(rotations.status, "ACTIVE"), studentInSchool(rotations.studentId, schoolId)))
+    .groupBy(clinicalSites.id, clinicalSites.name)
+
+  const hoursLookup = new Map(hoursByStudent.map((s) => [s.studentId, Number(s.totalHours)]))
+
+  return {
+    summary: {
+      totalStudents: studentCount?.count || 0,
+      totalCompetencies: competencyCount?.count || 0,
+      totalAssignments: assignmentStats?.total || 0,
+      completionRate: Math.round(completionRate * 100) / 100,
+      averageScore: Number(scoreStats?.average || 0).toFixed(2),
+      totalHours: Number(hoursStats?.total || 0).toFixed(2),
+    },
+    timeTracking: {
+      dailyHours: dailyHours.map((d) => ({
+        date: d.date.toISOString().split("T")[0],
+        hours: Number(d.hours),
+        students: Number(d.students),
+      })),
+      hoursByStudent: hoursByStudent.map((s) => ({
+        studentId: s.studentId,
+        name: s.name || "Unknown student",
+        approvedHours: Number(s.approvedHours),
+        pendingHours: Number(s.pendingHours),
+        totalHours: Number(s.totalHours),
+        recordCount: s.recordCount,
+      })),
+      weeklyTrends: [], // Placeholder for complex aggregation
+      topActivities: [], // Placeholder
+    },
+    competencyProgress: {
+      byCategory: competencyProgress.map((c) => ({
+        category: c.category || "Uncategorized",
+        total: c.count,
+        completed: Number(c.completed),
+        rate: c.count ? (Number(c.completed) / c.count) * 100 : 0,
+      })),
+      byStudent: [],
+      overallTrends: [],
+    },
+    studentPerformance: {
+      topPerformers: topPerformers.map((p) => ({
+        studentId: p.studentId,
+        name: p.name || "Unknown student",
+        completedCompetencies: Number(p.passed),
+        averageScore: Math.round(Number(p.averageScore || 0) * 100) / 100,
+        totalHours: hoursLookup.get(p.studentId) || 0,
+      })),
+      needsAttention: [],
+      averagesByProgram: [],
+    },
+    assessmentAnalytics: {
+      completionRates: [],
+      scoreDistribution: [],
+      timeToCompletion: [],
+    },
+    clinicalSites: {
+      utilizationRates: siteUtilization.map((s) => ({
+        name: s.name,
+        activeRotations: s.activeRotations,
+      })),
+      performanceByLocation: [],
+      capacityAnalysis: [],
+    },
+    recommendations: [],
+  }
+}
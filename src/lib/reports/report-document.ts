@@ -0,0 +1,226 @@
+import type { ComprehensiveReportData } from "./report-data"
+
+/**
+ * Format-neutral report model.
+ * Renderers (PDF, XLSX, CSV) consume a ReportDocument so every export format
+ * shows the same sections, columns and totals.
+ */
+
+export const REPORT_TYPES = [
+  "summary",
+  "time-tracking",
+  "competency-progress",
+  "student-performance",
+] as const
+
+export type ReportType = (typeof REPORT_TYPES)[number]
+
+// Legacy type names still sent by older dashboard builds
+const REPORT_TYPE_ALIASES: Record<string, ReportType> = {
+  competencies: "competency-progress",
+  students: "student-performance",
+}
+
+export type ReportCellValue = string | number | null
+
+export interface ReportColumn {
+  key: string
+  label: string
+  kind?: "text" | "number" | "hours" | "percent"
+}
+
+export interface ReportChart {
+  title: string
+  labels: string[]
+  values: number[]
+  unit?: string
+  max?: number
+}
+
+export interface ReportSection {
+  id: string
+  title: string
+  description?: string
+  columns: ReportColumn[]
+  rows: Record<string, ReportCellValue>[]
+  chart?: ReportChart
+}
+
+export interface ReportDocument {
+  title: string
+  subtitle?: string
+  generatedAt: Date
+  period?: { from: Date; to: Date }
+  sections: ReportSection[]
+}
+
+export function resolveReportType(type: string | null | undefined): ReportType | null {
+  if (!type) return "summary"
+  if ((REPORT_TYPES as readonly string[]).includes(type)) return type as ReportType
+  return REPORT_TYPE_ALIASES[type] ?? null
+}
+
+function summarySection(data: ComprehensiveReportData): ReportSection {
+  const { summary } = data
+  return {
+    id: "summary",
+    title: "Program Summary",
+    columns: [
+      { key: "metric", label: "Metric" },
+      { key: "value", label: "Value", kind: "number" },
+    ],
+    rows: [
+      { metric: "Total Students", value: Number(summary.totalStudents) },
+      { metric: "Total Competencies", value: Number(summary.totalCompetencies) },
+      { metric: "Total Assignments", value: Number(summary.totalAssignments) },
+      { metric: "Completion Rate (%)", value: Number(summary.completionRate) },
+      { metric: "Average Score", value: Number(summary.averageScore) },
+      { metric: "Total Clinical Hours", value: Number(summary.totalHours) },
+    ],
+  }
+}
+
+function timeTrackingSections(data: ComprehensiveReportData): ReportSection[] {
+  const { dailyHours, hoursByStudent } = data.timeTracking
+  return [
+    {
+      id: "daily-hours",
+      title: "Daily Clinical Hours",
+      columns: [
+        { key: "date", label: "Date" },
+        { key: "hours", label: "Hours", kind: "hours" },
+        { key: "students", label: "Students", kind: "number" },
+      ],
+      rows: dailyHours.map((d) => ({ date: d.date, hours: d.hours, students: d.students })),
+      chart: {
+        title: "Hours per day",
+        labels: dailyHours.map((d) => d.date.slice(5)),
+        values: dailyHours.map((d) => d.hours),
+        unit: "h",
+      },
+    },
+    {
+      id: "student-hours",
+      title: "Hours by Student",
+      description: "Approved and pending clinical hours per student for the reporting period.",
+      columns: [
+        { key: "name", label: "Student" },
+        { key: "approvedHours", label: "Approved", kind: "hours" },
+        { key: "pendingHours", label: "Pending", kind: "hours" },
+        { key: "totalHours", label: "Total", kind: "hours" },
+        { key: "recordCount", label: "Records", kind: "number" },
+      ],
+      rows: hoursByStudent.map((s) => ({
+        name: s.name,
+        approvedHours: s.approvedHours,
+        pendingHours: s.pendingHours,
+        totalHours: s.totalHours,
+        recordCount: s.recordCount,
+      })),
+    },
+  ]
+}
+
+function competencySection(data: ComprehensiveReportData): ReportSection {
+  const { byCategory } = data.competencyProgress
+  return {
+    id: "competency-progress",
+    title: "Competency Progress by Category",
+    columns: [
+      { key: "category", label: "Category" },
+      { key: "total", label: "Assigned", kind: "number" },
+      { key: "completed", label: "Completed", kind: "number" },
+      { key: "rate", label: "Completion", kind: "percent" },
+    ],
+    rows: byCategory.map((c) => ({
+      category: c.category,
+      total: c.total,
+      completed: c.completed,
+      rate: Math.round(c.rate * 100) / 100,
+    })),
+    chart: {
+      title: "Completion rate by category",
+      labels: byCategory.map((c) => c.category),
+      values: byCategory.map((c) => Math.round(c.rate * 100) / 100),
+      unit: "%",
+      max: 100,
+    },
+  }
+}
+
+function studentPerformanceSection(data: ComprehensiveReportData): ReportSection {
+  return {
+    id: "student-performance",
+    title: "Student Performance",
+    columns: [
+      { key: "name", label: "Student" },
+      { key: "completedCompetencies", label: "Passed Assessments", kind: "number" },
+      { key: "averageScore", label: "Average Score", kind: "number" },
+      { key: "totalHours", label: "Clinical Hours", kind: "hours" },
+    ],
+    rows: data.studentPerformance.topPerformers.map((p) => ({
+      name: p.name,
+      completedCompetencies: p.completedCompetencies,
+      averageScore: p.averageScore,
+      totalHours: p.totalHours,
+    })),
+  }
+}
+
+const REPORT_TITLES: Record<ReportType, string> = {
+  summary: "Clinical Education Summary",
+  "time-tracking": "Clinical Hours Report",
+  "competency-progress": "Competency Progress Report",
+  "student-performance": "Student Performance Report",
+}
+
+/**
+ * Build the sections for a report type. The summary export bundles every
+ * section so it can be handed over as a single document.
+ */
+export function buildReportDocument(
+  data: ComprehensiveReportData,
+  type: ReportType,
+  options: { period?: { from: Date; to: Date }; schoolName?: string; generatedAt?: Date } = {}
+): ReportDocument {
+  let sections: ReportSection[]
+  switch (type) {
+    case "time-tracking":
+      sections = timeTrackingSections(data)
+      break
+    case "competency-progress":
+      sections = [competencySection(data)]
+      break
+    case "student-performance":
+      sections = [studentPerformanceSection(data), timeTrackingSections(data)[1]]
+      break
+    default:
+      sections = [
+        summarySection(data),
+        ...timeTrackingSections(data),
+        competencySection(data),
+        studentPerformanceSection(data),
+      ]
+  }
+
+  return {
+    title: `MedStint ${REPORT_TITLES[type]}`,
+    subtitle: options.schoolName,
+    generatedAt: options.generatedAt ?? new Date(),
+    period: options.period,
+    sections,
+  }
+}
+
+export function formatCellValue(value: ReportCellValue, kind: ReportColumn["kind"]): string {
+  if (value === null || value === undefined) return ""
+  if (typeof value === "string") return value
+  switch (kind) {
+    case "hours":
+      return value.toFixed(2)
+    case "percent":
+      return `${value.toFixed(1)}%`
+    default:
+      return Number.isInteger(value) ? String(value) : value.toFixed(2)
+  }
+}
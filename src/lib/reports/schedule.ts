@@ -0,0 +1,65 @@
+import type { ScheduledReport } from "@/database/schema"
+import type { ReportType } from "./report-document"
+
+/**
+ * Scheduling helpers for scheduled reports. Kept free of database access so the
+ * API routes, the REPORT job worker and unit tests share the same date maths.
+ */
+
+export type ReportFrequency = ScheduledReport["frequency"]
+
+// Scheduled report types map onto the export report types
+export const SCHEDULED_REPORT_TYPES: Record<ScheduledReport["type"], ReportType> = {
+  progress: "summary",
+  competency_analytics: "competency-progress",
+  assessment_summary: "student-performance",
+}
+
+function addInterval(date: Date, frequency: string, direction: 1 | -1): Date {
+  const result = new Date(date)
+  switch (frequency) {
+    case "daily":
+      result.setDate(result.getDate() + direction)
+      break
+    case "monthly":
+      result.setMonth(result.getMonth() + direction)
+      break
+    case "quarterly":
+      result.setMonth(result.getMonth() + 3 * direction)
+      break
+    default:
+      // Weekly is the default cadence
+      result.setDate(result.getDate() + 7 * direction)
+  }
+  return result
+}
+
+/**
+ * Next run after `from` for the given frequency.
+ */
+export function calculateNextRun(frequency: string, from: Date = new Date()): Date {
+  return addInterval(from, frequency, 1)
+}
+
+/**
+ * Advance a due nextRun past `now` while keeping its original cadence, so a
+ * Monday 07:00 digest stays on Monday 07:00 even if the worker ran late or
+ * missed several intervals.
+ */
+export function advanceNextRun(frequency: string, previous: Date, now: Date = new Date()): Date {
+  let next = calculateNextRun(frequency, previous)
+  while (next <= now) {
+    next = calculateNextRun(frequency, next)
+  }
+  return next
+}
+
+/**
+ * Reporting window covered by a run: one interval ending at `until`.
+ */
+export function reportPeriod(
+  frequency: string,
+  until: Date = new Date()
+): { from: Date; to: Date } {
+  return { from: addInterval(until, frequency, -1), to: new Date(until) }
+}
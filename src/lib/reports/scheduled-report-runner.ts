@@ -0,0 +1,222 @@
+import { and, asc, eq, lte, sql } from "drizzle-orm"
+import { db } from "@/database/connection-pool"
+import {
+  type ScheduledReportRun,
+  scheduledReportRuns,
+  scheduledReports,
+  schools,
+} from "@/database/schema"
+import { sendReportEmail } from "@/lib/email-service"
+import { logger } from "@/lib/logger"
+import { QueueManager } from "@/lib/queue"
+import { generateComprehensiveReportData } from "./report-data"
+import { buildReportDocument } from "./report-document"
+import { renderReport } from "./render"
+import { SCHEDULED_REPORT_TYPES, advanceNextRun, reportPeriod } from "./schedule"
+
+/**
+ * Executes scheduled reports: enqueues REPORT jobs for due schedules and runs a
+ * single report end to end (data, render, email), recording each attempt in
+ * scheduled_report_runs.
+ */
+
+export interface ReportJobPayload {
+  scheduledReportId: string
+  runId: string
+}
+
+interface RunOptions {
+  trigger: ScheduledReportRun["trigger"]
+  runId?: string
+  jobId?: string
+  triggeredBy?: string
+  now?: Date
+}
+
+function parseJson<T>(value: string | null, fallback: T): T {
+  if (!value) return fallback
+  try {
+    return JSON.parse(value) as T
+  } catch {
+    return fallback
+  }
+}
+
+/**
+ * Generate, render and email one scheduled report.
+ * The run row is marked SUCCEEDED or FAILED; failures are rethrown so the
+ * calling job can be retried.
+ */
+export async function runScheduledReport(
+  scheduledReportId: string,
+  options: RunOptions
+): Promise<ScheduledReportRun> {
+  const now = options.now ?? new Date()
+  const [report] = await db
+    .select()
+    .from(scheduledReports)
+    .where(eq(scheduledReports.id, scheduledReportId))
+    .limit(1)
+
+  if (!report) {
+    throw new Error(`Scheduled report ${scheduledReportId} not found`)
+  }
+
+  const period = reportPeriod(report.frequency, now)
+  const runValues = {
+    status: "RUNNING" as const,
+    startedAt: now,
+    periodStart: period.from,
+    periodEnd: period.to,
+    error: null,
+  }
+
+  let run: ScheduledReportRun | undefined
+  if (options.runId) {
+    ;[run] = await db
+      .update(scheduledReportRuns)
+      .set({ ...runValues, jobId: options.jobId })
+      .where(eq(scheduledReportRuns.id, options.runId))
+      .returning()
+  }
+  if (!run) {
+    ;[run] = await db
+      .insert(scheduledReportRuns)
+      .values({
+        ...runValues,
+        scheduledReportId: report.id,
+        schoolId: report.schoolId,
+        jobId: options.jobId,
+        trigger: options.trigger,
+        triggeredBy: options.triggeredBy,
+        format: report.format,
+      })
+      .returning()
+  }
+
+  try {
+    const recipients = parseJson<string[]>(report.recipients, [])
+    if (recipients.length === 0) {
+      throw new Error("Scheduled report has no recipients")
+    }
+
+    const filters = parseJson<Record<string, unknown>>(report.filters, {})
+    const [school] = await db
+      .select({ name: schools.name })
+      .from(schools)
+      .where(eq(schools.id, report.schoolId))
+      .limit(1)
+
+    const data = await generateComprehensiveReportData({
+      ...period,
+      schoolId: report.schoolId,
+      programId: typeof filters.programId === "string" ? filters.programId : null,
+    })
+    const document = buildReportDocument(data, SCHEDULED_REPORT_TYPES[report.type], {
+      period,
+      schoolName: school?.name,
+      generatedAt: now,
+    })
+    const rendered = renderReport(document, report.format)
+    const fileDate = now.toISOString().split("T")[0]
+
+    const sent = await sendReportEmail({
+      recipients,
+      reportData: { period: { from: period.from.toISOString(), to: period.to.toISOString() } },
+      format: report.format,
+      reportType: report.name,
+      schoolName: school?.name,
+      attachment: {
+        filename: `medstint-${report.type.replace(/_/g, "-")}-${fileDate}.${rendered.fileExtension}`,
+        content: rendered.buffer,
+        contentType: rendered.contentType,
+      },
+    })
+    if (!sent) {
+      throw new Error("Report email could not be delivered")
+    }
+
+    const [completed] = await db
+      .update(scheduledReportRuns)
+      .set({
+        status: "SUCCEEDED",
+        recipientCount: recipients.length,
+        artifactSize: rendered.buffer.length,
+        completedAt: new Date(),
+      })
+      .where(eq(scheduledReportRuns.id, run.id))
+      .returning()
+
+    // Manual runs do not shift the schedule; nextRun is advanced when the run is enqueued
+    await db
+      .update(scheduledReports)
+      .set({
+        lastRun: now,
+        runCount: sql`${scheduledReports.runCount} + 1`,
+        updatedAt: new Date(),
+      })
+      .where(eq(scheduledReports.id, report.id))
+
+    return completed
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error)
+    await db
+      .update(scheduledReportRuns)
+      .set({ status: "FAILED", error: message, completedAt: new Date() })
+      .where(eq(scheduledReportRuns.id, run.id))
+    throw error
+  }
+}
+
+/**
+ * Enqueue a REPORT job for every active schedule that is due.
+ * Each schedule is claimed by advancing nextRun with a conditional update, so
+ * overlapping cron invocations never enqueue the same run twice.
+ */
+export async function enqueueDueScheduledReports(now: Date = new Date(), limit = 50) {
+  const dueReports = await db
+    .select()
+    .from(scheduledReports)
+    .where(and(eq(scheduledReports.isActive, true), lte(scheduledReports.nextRun, now)))
+    .orderBy(asc(scheduledReports.nextRun))
+    .limit(limit)
+
+  const enqueued: ReportJobPayload[] = []
+  for (const report of dueReports) {
+    const [claimed] = await db
+      .update(scheduledReports)
+      .set({ nextRun: advanceNextRun(report.frequency, report.nextRun, now), updatedAt: now })
+      .where(and(eq(scheduledReports.id, report.id), eq(scheduledReports.nextRun, report.nextRun)))
+      .returning({ id: scheduledReports.id })
+
+    if (!claimed) continue
+
+    try {
+      const [run] = await db
+        .insert(scheduledReportRuns)
+        .values({
+          scheduledReportId: report.id,
+          schoolId: report.schoolId,
+          trigger: "SCHEDULED",
+          format: report.format,
+        })
+        .returning()
+
+      const payload: ReportJobPayload = { scheduledReportId: report.id, runId: run.id }
+      const job = await QueueManager.add("REPORT", payload)
+      await db
+        .update(scheduledReportRuns)
+        .set({ jobId: job.id })
+        .where(eq(scheduledReportRuns.id, run.id))
+
+      enqueued.push(payload)
+    } catch (error) {
+      logger.error(
+        { err: error, scheduledReportId: report.id },
+        "Failed to enqueue scheduled report"
+      )
+    }
+  }
+
+  return enqueued
+}
@@ -0,0 +1,221 @@
+import type { ReportColumn, ReportDocument, ReportSection } from "./report-document"
+import { createZip } from "./zip"
+
+/**
+ * XLSX (Office Open XML) renderer for report documents.
+ * Each report section becomes its own worksheet with a bold, frozen header row
+ * and typed numeric cells so totals can be recalculated in Excel.
+ */
+
+const XML_HEADER = '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n'
+
+// Style indexes into cellXfs below
+const STYLE = {
+  default: 0,
+  header: 1,
+  decimal: 2,
+  integer: 3,
+  percent: 4,
+} as const
+
+export function escapeXml(value: string): string {
+  return (
+    value
+      .replace(/&/g, "&amp;")
+      .replace(/</g, "&lt;")
+      .replace(/>/g, "&gt;")
+      .replace(/"/g, "&quot;")
+      // Strip control characters that are invalid in XML 1.0
+      .replace(/[\u0000-\u0008\u000B\u000C\u000E-\u001F]/g, "")
+  )
+}
+
+export function columnLetter(index: number): string {
+  let n = index + 1
+  let letters = ""
+  while (n > 0) {
+    const rem = (n - 1) % 26
+    letters = String.fromCharCode(65 + rem) + letters
+    n = Math.floor((n - 1) / 26)
+  }
+  return letters
+}
+
+/**
+ * Excel sheet names are limited to 31 characters, cannot contain []:*?/\ and
+ * must be unique within the workbook (case-insensitive).
+ */
+export function toSheetName(title: string, used: Set<string>): string {
+  const base =
+    title
+      .replace(/[[\]:*?/\\]/g, " ")
+      .trim()
+      .slice(0, 31) || "Sheet"
+  let name = base
+  let suffix = 2
+  while (used.has(name.toLowerCase())) {
+    const tag = ` (${suffix++})`
+    name = `${base.slice(0, 31 - tag.length)}${tag}`
+  }
+  used.add(name.toLowerCase())
+  return name
+}
+
+function numericStyle(kind: ReportColumn["kind"], value: number): number {
+  if (kind === "percent") return STYLE.percent
+  if (kind === "hours") return STYLE.decimal
+  return Number.isInteger(value) ? STYLE.integer : STYLE.decimal
+}
+
+function renderCell(ref: string, value: unknown, column: ReportColumn, header = false): string {
+  if (header) {
+    return `<c r="${ref}" s="${STYLE.header}" t="inlineStr"><is><t>${escapeXml(column.label)}</t></is></c>`
+  }
+  if (value === null || value === undefined || value === "") {
+    return `<c r="${ref}"/>`
+  }
+  if (typeof value === "number" && Number.isFinite(value)) {
+    return `<c r="${ref}" s="${numericStyle(column.kind, value)}"><v>${value}</v></c>`
+  }
+  return `<c r="${ref}" t="inlineStr"><is><t xml:space="preserve">${escapeXml(String(value))}</t></is></c>`
+}
+
+function renderSheet(section: ReportSection): string {
+  const lastColumn = columnLetter(Math.max(section.columns.length - 1, 0))
+  const lastRow = section.rows.length + 1
+
+  const widths = section.columns.map((column) => {
+    const longest = section.rows.reduce(
+      (max, row) => Math.max(max, String(row[column.key] ?? "").length),
+      column.label.length
+    )
+    return Math.min(Math.max(longest + 2, 10), 60)
+  })
+
+  const headerCells = section.columns
+    .map((column, i) => renderCell(`${columnLetter(i)}1`, column.label, column, true))
+    .join("")
+
+  const bodyRows = section.rows
+    .map((row, rowIndex) => {
+      const r = rowIndex + 2
+      const cells = section.columns
+        .map((column, i) => renderCell(`${columnLetter(i)}${r}`, row[column.key], column))
+        .join("")
+      return `<row r="${r}">${cells}</row>`
+    })
+    .join("")
+
+  return [
+    XML_HEADER,
+    '<worksheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships">',
+    `<dimension ref="A1:${lastColumn}${lastRow}"/>`,
+    '<sheetViews><sheetView workbookViewId="0"><pane ySplit="1" topLeftCell="A2" activePane="bottomLeft" state="frozen"/></sheetView></sheetViews>',
+    '<sheetFormatPr defaultRowHeight="15"/>',
+    `<cols>${widths.map((w, i) => `<col min="${i + 1}" max="${i + 1}" width="${w}" customWidth="1"/>`).join("")}</cols>`,
+    `<sheetData><row r="1">${headerCells}</row>${bodyRows}</sheetData>`,
+    section.rows.length > 0 ? `<autoFilter ref="A1:${lastColumn}${lastRow}"/>` : "",
+    "</worksheet>",
+  ].join("")
+}
+
+const STYLES_XML = [
+  XML_HEADER,
+  '<styleSheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">',
+  '<numFmts count="1"><numFmt numFmtId="164" formatCode="0.0&quot;%&quot;"/></numFmts>',
+  '<fonts count="2"><font><sz val="11"/><name val="Calibri"/></font><font><b/><sz val="11"/><name val="Calibri"/></font></fonts>',
+  '<fills count="3"><fill><patternFill patternType="none"/></fill><fill><patternFill patternType="gray125"/></fill>',
+  '<fill><patternFill patternType="solid"><fgColor rgb="FFE5E7EB"/><bgColor indexed="64"/></patternFill></fill></fills>',
+  '<borders count="1"><border><left/><right/><top/><bottom/><diagonal/></border></borders>',
+  '<cellStyleXfs count="1"><xf numFmtId="0" fontId="0" fillId="0" borderId="0"/></cellStyleXfs>',
+  '<cellXfs count="5">',
+  '<xf numFmtId="0" fontId="0" fillId="0" borderId="0" xfId="0"/>',
+  '<xf numFmtId="0" fontId="1" fillId="2" borderId="0" xfId="0" applyFont="1" applyFill="1"/>',
+  '<xf numFmtId="2" fontId="0" fillId="0" borderId="0" xfId="0" applyNumberFormat="1"/>',
+  '<xf numFmtId="1" fontId="0" fillId="0" borderId="0" xfId="0" applyNumberFormat="1"/>',
+  '<xf numFmtId="164" fontId="0" fillId="0" borderId="0" xfId="0" applyNumberFormat="1"/>',
+  "</cellXfs>",
+  '<cellStyles count="1"><cellStyle name="Normal" xfId="0" builtinId="0"/></cellStyles>',
+  "</styleSheet>",
+].join("")
+
+export function renderReportXlsx(doc: ReportDocument): Buffer {
+  const used = new Set<string>()
+  const sections = doc.sections.length
+    ? doc.sections
+    : [{ id: "empty", title: "Report", columns: [], rows: [] } as ReportSection]
+  const sheets = sections.map((section, i) => ({
+    name: toSheetName(section.title, used),
+    path: `xl/worksheets/sheet${i + 1}.xml`,
+    xml: renderSheet(section),
+  }))
+
+  const contentTypes = [
+    XML_HEADER,
+    '<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">',
+    '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>',
+    '<Default Extension="xml" ContentType="application/xml"/>',
+    '<Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>',
+    '<Override PartName="/xl/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.styles+xml"/>',
+    ...sheets.map(
+      (s) =>
+        `<Override PartName="/${s.path}" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>`
+    ),
+    '<Override PartName="/docProps/core.xml" ContentType="application/vnd.openxmlformats-package.core-properties+xml"/>',
+    "</Types>",
+  ].join("")
+
+  const rootRels = [
+    XML_HEADER,
+    '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">',
+    '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="xl/workbook.xml"/>',
+    '<Relationship Id="rId2" Type="http://schemas.openxmlformats.org/package/2006/relationships/metadata/core-properties" Target="docProps/core.xml"/>',
+    "</Relationships>",
+  ].join("")
+
+  const workbook = [
+    XML_HEADER,
+    '<workbook xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships">',
+    "<sheets>",
+    ...sheets.map(
+      (s, i) => `<sheet name="${escapeXml(s.name)}" sheetId="${i + 1}" r:id="rId${i + 1}"/>`
+    ),
+    "</sheets>",
+    "</workbook>",
+  ].join("")
+
+  const workbookRels = [
+    XML_HEADER,
+    '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">',
+    ...sheets.map(
+      (_, i) =>
+        `<Relationship Id="rId${i + 1}" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/worksheet" Target="worksheets/sheet${i + 1}.xml"/>`
+    ),
+    `<Relationship Id="rId${sheets.length + 1}" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/styles" Target="styles.xml"/>`,
+    "</Relationships>",
+  ].join("")
+
+  const created = doc.generatedAt.toISOString().replace(/\.\d{3}Z$/, "Z")
+  const core = [
+    XML_HEADER,
+    '<cp:coreProperties xmlns:cp="http://schemas.openxmlformats.org/package/2006/metadata/core-properties" xmlns:dc="http://purl.org/dc/elements/1.1/" xmlns:dcterms="http://purl.org/dc/terms/" xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance">',
+    `<dc:title>${escapeXml(doc.title)}</dc:title>`,
+    doc.subtitle ? `<dc:subject>${escapeXml(doc.subtitle)}</dc:subject>` : "",
+    "<dc:creator>MedStint</dc:creator>",
+    `<dcterms:created xsi:type="dcterms:W3CDTF">${created}</dcterms:created>`,
+    "</cp:coreProperties>",
+  ].join("")
+
+  return createZip(
+    [
+      { path: "[Content_Types].xml", data: contentTypes },
+      { path: "_rels/.rels", data: rootRels },
+      { path: "docProps/core.xml", data: core },
+      { path: "xl/workbook.xml", data: workbook },
+      { path: "xl/_rels/workbook.xml.rels", data: workbookRels },
+      { path: "xl/styles.xml", data: STYLES_XML },
+      ...sheets.map((s) => ({ path: s.path, data: s.xml })),
+    ],
+    doc.generatedAt
+  )
+}
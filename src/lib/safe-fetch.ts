@@ -20,7 +20,7 @@ export interface SafeFetchResponse<T = unknown> {
 /**
  * Get CSRF token from cookie
  */
-function getCSRFToken(): string | null {
+export function getCSRFToken(): string | null {
   if (typeof document === "undefined") return null
   const match = document.cookie.match(/(?:^|; )__csrf=([^;]*)/)
   return match ? match[1] : null
@@ -0,0 +1,676 @@
+import { and, count, eq, gte, inArray, isNull, lte, ne, or, type SQL, sql } from "drizzle-orm"
+import type { AnyPgColumn } from "drizzle-orm/pg-core"
+import { cookies } from "next/headers"
+import { db } from "@/database/connection-pool"
+import {
+  clinicalSites,
+  preceptorSchoolAffiliations,
+  rotations,
+  schools,
+  siteSchoolAffiliations,
+  users,
+} from "@/database/schema"
+
+/**
+ * Clinical sites and preceptors can serve several schools. A site belongs to
+ * the school that created it and is shared with other schools through
+ * site_school_affiliations, each of which may reserve part of the site's
+ * capacity. A preceptor has a home school (users.school_id) and teaches for
+ * further schools through preceptor_school_affiliations, switching between
+ * them with the active school cookie. An affiliation only takes effect once the
+ * other school's admin accepts it. Whatever is shared, a school only ever
+ * sees its own students.
+ */
+
+export const ACTIVE_SCHOOL_COOKIE = "active_school"
+
+/**
+ * The school a preceptor is working in: the requested one if they are
+ * affiliated with it, otherwise their home school.
+ */
+export function resolveActiveSchool(
+  homeSchoolId: string | null,
+  schoolIds: string[],
+  requested: string | null | undefined
+): string | null {
+  if (requested && schoolIds.includes(requested)) return requested
+  return homeSchoolId ?? schoolIds[0] ?? null
+}
+
+/**
+ * Home school first, then every school the preceptor is actively affiliated with.
+ */
+export async function getPreceptorSchoolIds(
+  preceptorId: string,
+  homeSchoolId: string | null
+): Promise<string[]> {
+  const affiliations = await db
+    .select({ schoolId: preceptorSchoolAffiliations.schoolId })
+    .from(preceptorSchoolAffiliations)
+    .where(
+      and(
+        eq(preceptorSchoolAffiliations.preceptorId, preceptorId),
+        eq(preceptorSchoolAffiliations.status, "ACTIVE")
+      )
+    )
+  const ids = affiliations.map((affiliation) => affiliation.schoolId)
+  return homeSchoolId ? [homeSchoolId, ...ids.filter((id) => id !== homeSchoolId)] : ids
+}
+
+async function requestedActiveSchool(): Promise<string | null> {
+  try {
+    return (await cookies()).get(ACTIVE_SCHOOL_COOKIE)?.value ?? null
+  } catch {
+    // Outside a request (scripts, cron) there is no selection
+    return null
+  }
+}
+
+export interface PreceptorSchoolScope {
+  activeSchoolId: string | null
+  schoolIds: string[]
+}
+
+export async function getPreceptorSchoolScope(user: {
+  id: string
+  schoolId?: string | null
+}): Promise<PreceptorSchoolScope> {
+  const schoolIds = await getPreceptorSchoolIds(user.id, user.schoolId ?? null)
+  return {
+    activeSchoolId: resolveActiveSchool(
+      user.schoolId ?? null,
+      schoolIds,
+      await requestedActiveSchool()
+    ),
+    schoolIds,
+  }
+}
+
+export async function getSchoolNames(schoolIds: string[]) {
+  if (schoolIds.length === 0) return []
+  const rows = await db
+    .select({ id: schools.id, name: schools.name })
+    .from(schools)
+    .where(inArray(schools.id, schoolIds))
+  // Keep the caller's order, home school first
+  return schoolIds.flatMap((id) => rows.filter((row) => row.id === id))
+}
+
+/**
+ * Restrict a student id column to students of the school. Null means the
+ * caller has no school, which leaves the query unrestricted as before.
+ */
+export function studentInSchool(column: AnyPgColumn, schoolId: string | null): SQL | undefined {
+  if (!schoolId) return undefined
+  return inArray(
+    column,
+    db.select({ id: users.id }).from(users).where(eq(users.schoolId, schoolId))
+  )
+}
+
+/**
+ * Sites a school owns or is actively affiliated with.
+ */
+export function siteVisibleToSchool(schoolId: string): SQL {
+  return or(
+    eq(clinicalSites.schoolId, schoolId),
+    inArray(
+      clinicalSites.id,
+      db
+        .select({ id: siteSchoolAffiliations.clinicalSiteId })
+        .from(siteSchoolAffiliations)
+        .where(
+          and(
+            eq(siteSchoolAffiliations.schoolId, schoolId),
+            eq(siteSchoolAffiliations.status, "ACTIVE")
+          )
+        )
+    )
+  ) as SQL
+}
+
+export async function isSiteAvailableToSchool(siteId: string, schoolId: string) {
+  const [site] = await db
+    .select({ id: clinicalSites.id })
+    .from(clinicalSites)
+    .where(and(eq(clinicalSites.id, siteId), siteVisibleToSchool(schoolId)))
+    .limit(1)
+  return Boolean(site)
+}
+
+/**
+ * Preceptors whose home school is the school or who are affiliated with it.
+ */
+export function preceptorServesSchool(schoolId: string): SQL {
+  return or(
+    eq(users.schoolId, schoolId),
+    inArray(
+      users.id,
+      db
+        .select({ id: preceptorSchoolAffiliations.preceptorId })
+        .from(preceptorSchoolAffiliations)
+        .where(
+          and(
+            eq(preceptorSchoolAffiliations.schoolId, schoolId),
+            eq(preceptorSchoolAffiliations.status, "ACTIVE")
+          )
+        )
+    )
+  ) as SQL
+}
+
+export async function isPreceptorAffiliated(preceptorId: string, schoolId: string) {
+  const [preceptor] = await db
+    .select({ schoolId: users.schoolId })
+    .from(users)
+    .where(eq(users.id, preceptorId))
+    .limit(1)
+  if (!preceptor) return false
+  return (await getPreceptorSchoolIds(preceptorId, preceptor.schoolId)).includes(schoolId)
+}
+
+export interface SiteCapacityInput {
+  capacity: number
+  // Reserved placements by school
+  reservations: Record<string, number>
+  // Scheduled and active placements by school within the window
+  usage: Record<string, number>
+}
+
+/**
+ * Dates a placement needs a seat for. Only rotations overlapping it use up
+ * capacity; a missing date leaves that side open.
+ */
+export interface PlacementWindow {
+  startDate: Date | null
+  endDate: Date | null
+  // Rotation being moved, which must not count against itself
+  excludeRotationId?: string
+}
+
+// Seats in use today, for capacity shown outside of a placement
+function currentWindow(): PlacementWindow {
+  const now = new Date()
+  return { startDate: now, endDate: now }
+}
+
+export interface SchoolSiteCapacity {
+  capacity: number
+  reserved: number
+  used: number
+  sharedCapacity: number
+  sharedUsed: number
+  available: number
+}
+
+/**
+ * A school first fills its own reservation, then competes with every other
+ * school for the capacity nobody reserved.
+ */
+export function allocateSiteCapacity(
+  input: SiteCapacityInput,
+  schoolId: string
+): SchoolSiteCapacity {
+  const totalReserved = Object.values(input.reservations).reduce((sum, n) => sum + n, 0)
+  const sharedCapacity = Math.max(0, input.capacity - totalReserved)
+  const schoolIds = new Set([...Object.keys(input.reservations), ...Object.keys(input.usage)])
+  let sharedUsed = 0
+  for (const id of schoolIds) {
+    sharedUsed += Math.max(0, (input.usage[id] ?? 0) - (input.reservations[id] ?? 0))
+  }
+
+  const reserved = input.reservations[schoolId] ?? 0
+  const used = input.usage[schoolId] ?? 0
+  return {
+    capacity: input.capacity,
+    reserved,
+    used,
+    sharedCapacity,
+    sharedUsed,
+    available: Math.max(0, reserved - used) + Math.max(0, sharedCapacity - sharedUsed),
+  }
+}
+
+async function loadSiteCapacity(siteIds: string[], window: PlacementWindow) {
+  if (siteIds.length === 0) return new Map<string, SiteCapacityInput>()
+  const [sites, reservations, usage] = await Promise.all([
+    db
+      .select({ id: clinicalSites.id, capacity: clinicalSites.capacity })
+      .from(clinicalSites)
+      .where(inArray(clinicalSites.id, siteIds)),
+    db
+      .select({
+        siteId: siteSchoolAffiliations.clinicalSiteId,
+        schoolId: siteSchoolAffiliations.schoolId,
+        reserved: siteSchoolAffiliations.reservedCapacity,
+      })
+      .from(siteSchoolAffiliations)
+      .where(
+        and(
+          inArray(siteSchoolAffiliations.clinicalSiteId, siteIds),
+          eq(siteSchoolAffiliations.status, "ACTIVE")
+        )
+      ),
+    db
+      .select({
+        siteId: rotations.clinicalSiteId,
+        schoolId: users.schoolId,
+        placements: count(rotations.id),
+      })
+      .from(rotations)
+      .innerJoin(users, eq(users.id, rotations.studentId))
+      .where(
+        and(
+          inArray(rotations.clinicalSiteId, siteIds),
+          inArray(rotations.status, ["SCHEDULED", "ACTIVE"]),
+          window.endDate
+            ? or(isNull(rotations.startDate), lte(rotations.startDate, window.endDate))
+            : undefined,
+          window.startDate
+            ? or(isNull(rotations.endDate), gte(rotations.endDate, window.startDate))
+            : undefined,
+          window.excludeRotationId ? ne(rotations.id, window.excludeRotationId) : undefined
+        )
+      )
+      .groupBy(rotations.clinicalSiteId, users.schoolId),
+  ])
+
+  const inputs = new Map<string, SiteCapacityInput>(
+    sites.map((site) => [site.id, { capacity: site.capacity, reservations: {}, usage: {} }])
+  )
+  for (const row of reservations) {
+    const input = inputs.get(row.siteId)
+    if (input && row.reserved) input.reservations[row.schoolId] = row.reserved
+  }
+  for (const row of usage) {
+    const input = inputs.get(row.siteId)
+    if (input && row.schoolId) input.usage[row.schoolId] = Number(row.placements)
+  }
+  return inputs
+}
+
+/**
+ * Capacity of each site as seen by one school over the window, today by
+ * default. Only that school's usage and the remaining shared capacity are
+ * exposed, not other schools' placements.
+ */
+export async function getSitesCapacityForSchool(
+  siteIds: string[],
+  schoolId: string,
+  window: PlacementWindow = currentWindow()
+) {
+  const inputs = await loadSiteCapacity(siteIds, window)
+  return new Map(
+    [...inputs].map(([siteId, input]) => [siteId, allocateSiteCapacity(input, schoolId)])
+  )
+}
+
+export async function getSiteCapacityForSchool(
+  siteId: string,
+  schoolId: string,
+  window?: PlacementWindow
+) {
+  return (await getSitesCapacityForSchool([siteId], schoolId, window)).get(siteId) ?? null
+}
+
+export type PlacementCheck =
+  | { ok: true }
+  | { ok: false; reason: "site_not_affiliated" | "site_full" | "preceptor_not_affiliated" }
+
+/**
+ * Whether students of the school can be placed at a site (and with a
+ * preceptor) for the window: both must serve the school and the school must
+ * have a seat left at the site for each of them.
+ */
+export async function checkPlacement(input: {
+  schoolId: string
+  clinicalSiteId?: string
+  preceptorId?: string | null
+  window: PlacementWindow
+  // Students placed together, e.g. a whole cohort
+  seats?: number
+}): Promise<PlacementCheck> {
+  if (input.clinicalSiteId) {
+    if (!(await isSiteAvailableToSchool(input.clinicalSiteId, input.schoolId))) {
+      return { ok: false, reason: "site_not_affiliated" }
+    }
+    const capacity = await getSiteCapacityForSchool(
+      input.clinicalSiteId,
+      input.schoolId,
+      input.window
+    )
+    if (capacity && capacity.available < (input.seats ?? 1)) {
+      return { ok: false, reason: "site_full" }
+    }
+  }
+  if (input.preceptorId && !(await isPreceptorAffiliated(input.preceptorId, input.schoolId))) {
+    return { ok: false, reason: "preceptor_not_affiliated" }
+  }
+  return { ok: true }
+}
+
+export async function listSiteAffiliations(siteId: string, schoolId?: string | null) {
+  return db
+    .select({
+      id: siteSchoolAffiliations.id,
+      schoolId: siteSchoolAffiliations.schoolId,
+      schoolName: schools.name,
+      status: siteSchoolAffiliations.status,
+      reservedCapacity: siteSchoolAffiliations.reservedCapacity,
+      updatedAt: siteSchoolAffiliations.updatedAt,
+    })
+    .from(siteSchoolAffiliations)
+    .innerJoin(schools, eq(schools.id, siteSchoolAffiliations.schoolId))
+    .where(
+      and(
+        eq(siteSchoolAffiliations.clinicalSiteId, siteId),
+        schoolId ? eq(siteSchoolAffiliations.schoolId, schoolId) : undefined
+      )
+    )
+    .orderBy(schools.name)
+}
+
+export type AffiliationStatus = typeof siteSchoolAffiliations.$inferSelect.status
+
+/**
+ * Status an affiliation gets when the site's owner or the preceptor's home
+ * school asks for `requested`. The other school has to accept before anything
+ * is shared, so a new or lapsed affiliation waits as PENDING unless a super
+ * admin made it. Withdrawing and updating an active affiliation apply directly.
+ */
+export function nextAffiliationStatus(
+  current: AffiliationStatus | null,
+  requested: "ACTIVE" | "INACTIVE",
+  approved: boolean
+): AffiliationStatus {
+  if (requested === "INACTIVE" || approved || current === "ACTIVE") return requested
+  return "PENDING"
+}
+
+type Tx = Parameters<Parameters<typeof db.transaction>[0]>[0]
+
+// Whether a school's reservation fits next to the other schools' active ones
+async function reservationFits(
+  tx: Tx,
+  site: { id: string; capacity: number },
+  schoolId: string,
+  reservedCapacity: number | null
+) {
+  if (!reservedCapacity) return true
+  const [others] = await tx
+    .select({
+      reserved: sql<number>`COALESCE(SUM(${siteSchoolAffiliations.reservedCapacity}), 0)`,
+    })
+    .from(siteSchoolAffiliations)
+    .where(
+      and(
+        eq(siteSchoolAffiliations.clinicalSiteId, site.id),
+        eq(siteSchoolAffiliations.status, "ACTIVE"),
+        sql`${siteSchoolAffiliations.schoolId} <> ${schoolId}`
+      )
+    )
+  return Number(others?.reserved ?? 0) + reservedCapacity <= site.capacity
+}
+
+export interface SiteAffiliationInput {
+  siteId: string
+  schoolId: string
+  status: "ACTIVE" | "INACTIVE"
+  reservedCapacity: number | null
+  // Super admins activate directly; otherwise the school has to accept
+  approved: boolean
+  userId: string
+}
+
+export type SiteAffiliationResult =
+  | { ok: true; affiliation: typeof siteSchoolAffiliations.$inferSelect }
+  | { ok: false; reason: "site_not_found" | "school_not_found" | "over_capacity" }
+
+/**
+ * Share a site with a school, or change its reservation. Reservations across
+ * all schools may not exceed the site's capacity.
+ */
+export async function upsertSiteAffiliation(
+  input: SiteAffiliationInput
+): Promise<SiteAffiliationResult> {
+  return db.transaction(async (tx) => {
+    const [site] = await tx
+      .select({ id: clinicalSites.id, capacity: clinicalSites.capacity })
+      .from(clinicalSites)
+      .where(eq(clinicalSites.id, input.siteId))
+      .for("update")
+      .limit(1)
+    if (!site) return { ok: false, reason: "site_not_found" } as const
+
+    const [school] = await tx
+      .select({ id: schools.id })
+      .from(schools)
+      .where(eq(schools.id, input.schoolId))
+      .limit(1)
+    if (!school) return { ok: false, reason: "school_not_found" } as const
+
+    const [existing] = await tx
+      .select({ status: siteSchoolAffiliations.status })
+      .from(siteSchoolAffiliations)
+      .where(
+        and(
+          eq(siteSchoolAffiliations.clinicalSiteId, input.siteId),
+          eq(siteSchoolAffiliations.schoolId, input.schoolId)
+        )
+      )
+      .limit(1)
+    const status = nextAffiliationStatus(existing?.status ?? null, input.status, input.approved)
+
+    if (
+      status !== "INACTIVE" &&
+      !(await reservationFits(tx, site, input.schoolId, input.reservedCapacity))
+    ) {
+      return { ok: false, reason: "over_capacity" } as const
+    }
+
+    const now = new Date()
+    const [affiliation] = await tx
+      .insert(siteSchoolAffiliations)
+      .values({
+        id: crypto.randomUUID(),
+        clinicalSiteId: input.siteId,
+        schoolId: input.schoolId,
+        status,
+        reservedCapacity: input.reservedCapacity,
+        createdBy: input.userId,
+      })
+      .onConflictDoUpdate({
+        target: [siteSchoolAffiliations.clinicalSiteId, siteSchoolAffiliations.schoolId],
+        set: { status, reservedCapacity: input.reservedCapacity, updatedAt: now },
+      })
+      .returning()
+    return { ok: true, affiliation } as const
+  })
+}
+
+export type SiteAffiliationResponse =
+  | { ok: true; affiliation: typeof siteSchoolAffiliations.$inferSelect }
+  | { ok: false; reason: "not_found" | "over_capacity" }
+
+/**
+ * The invited school accepts or declines sharing a site. Its reservation is
+ * checked again, since other schools may have reserved places meanwhile.
+ */
+export async function respondToSiteAffiliation(input: {
+  siteId: string
+  schoolId: string
+  accept: boolean
+}): Promise<SiteAffiliationResponse> {
+  return db.transaction(async (tx) => {
+    const [site] = await tx
+      .select({ id: clinicalSites.id, capacity: clinicalSites.capacity })
+      .from(clinicalSites)
+      .where(eq(clinicalSites.id, input.siteId))
+      .for("update")
+      .limit(1)
+    const pending = and(
+      eq(siteSchoolAffiliations.clinicalSiteId, input.siteId),
+      eq(siteSchoolAffiliations.schoolId, input.schoolId),
+      eq(siteSchoolAffiliations.status, "PENDING")
+    )
+    const [request] = site
+      ? await tx.select().from(siteSchoolAffiliations).where(pending).limit(1)
+      : []
+    if (!site || !request) return { ok: false, reason: "not_found" } as const
+
+    if (
+      input.accept &&
+      !(await reservationFits(tx, site, input.schoolId, request.reservedCapacity))
+    ) {
+      return { ok: false, reason: "over_capacity" } as const
+    }
+
+    const [affiliation] = await tx
+      .update(siteSchoolAffiliations)
+      .set({ status: input.accept ? "ACTIVE" : "INACTIVE", updatedAt: new Date() })
+      .where(eq(siteSchoolAffiliations.id, request.id))
+      .returning()
+    return { ok: true, affiliation } as const
+  })
+}
+
+export async function listPreceptorAffiliations(preceptorId: string) {
+  return db
+    .select({
+      id: preceptorSchoolAffiliations.id,
+      schoolId: preceptorSchoolAffiliations.schoolId,
+      schoolName: schools.name,
+      status: preceptorSchoolAffiliations.status,
+      updatedAt: preceptorSchoolAffiliations.updatedAt,
+    })
+    .from(preceptorSchoolAffiliations)
+    .innerJoin(schools, eq(schools.id, preceptorSchoolAffiliations.schoolId))
+    .where(eq(preceptorSchoolAffiliations.preceptorId, preceptorId))
+    .orderBy(schools.name)
+}
+
+export interface PreceptorAffiliationInput {
+  preceptorId: string
+  schoolId: string
+  status: "ACTIVE" | "INACTIVE"
+  // Super admins activate directly; otherwise the school has to accept
+  approved: boolean
+  userId: string
+}
+
+export type PreceptorAffiliationResult =
+  | { ok: true; affiliation: typeof preceptorSchoolAffiliations.$inferSelect }
+  | { ok: false; reason: "preceptor_not_found" | "school_not_found" | "home_school" }
+
+export async function upsertPreceptorAffiliation(
+  input: PreceptorAffiliationInput
+): Promise<PreceptorAffiliationResult> {
+  const [preceptor] = await db
+    .select({ id: users.id, schoolId: users.schoolId })
+    .from(users)
+    .where(and(eq(users.id, input.preceptorId), eq(users.role, "CLINICAL_PRECEPTOR")))
+    .limit(1)
+  if (!preceptor) return { ok: false, reason: "preceptor_not_found" }
+  // The home school is implied and cannot be switched off here
+  if (preceptor.schoolId === input.schoolId) return { ok: false, reason: "home_school" }
+
+  const [school] = await db
+    .select({ id: schools.id })
+    .from(schools)
+    .where(eq(schools.id, input.schoolId))
+    .limit(1)
+  if (!school) return { ok: false, reason: "school_not_found" }
+
+  const [existing] = await db
+    .select({ status: preceptorSchoolAffiliations.status })
+    .from(preceptorSchoolAffiliations)
+    .where(
+      and(
+        eq(preceptorSchoolAffiliations.preceptorId, input.preceptorId),
+        eq(preceptorSchoolAffiliations.schoolId, input.schoolId)
+      )
+    )
+    .limit(1)
+  const status = nextAffiliationStatus(existing?.status ?? null, input.status, input.approved)
+
+  const [affiliation] = await db
+    .insert(preceptorSchoolAffiliations)
+    .values({
+      id: crypto.randomUUID(),
+      preceptorId: input.preceptorId,
+      schoolId: input.schoolId,
+      status,
+      createdBy: input.userId,
+    })
+    .onConflictDoUpdate({
+      target: [preceptorSchoolAffiliations.preceptorId, preceptorSchoolAffiliations.schoolId],
+      set: { status, updatedAt: new Date() },
+    })
+    .returning()
+  return { ok: true, affiliation }
+}
+
+/**
+ * The invited school accepts or declines a preceptor teaching for it. Returns
+ * null when the school has no pending invitation from the preceptor.
+ */
+export async function respondToPreceptorAffiliation(input: {
+  preceptorId: string
+  schoolId: string
+  accept: boolean
+}) {
+  const [affiliation] = await db
+    .update(preceptorSchoolAffiliations)
+    .set({ status: input.accept ? "ACTIVE" : "INACTIVE", updatedAt: new Date() })
+    .where(
+      and(
+        eq(preceptorSchoolAffiliations.preceptorId, input.preceptorId),
+        eq(preceptorSchoolAffiliations.schoolId, input.schoolId),
+        eq(preceptorSchoolAffiliations.status, "PENDING")
+      )
+    )
+    .returning()
+  return affiliation ?? null
+}
+
+/**
+ * Sites and preceptors waiting for the school to accept an affiliation.
+ */
+export async function listPendingAffiliations(schoolId: string) {
+  const [sites, preceptors] = await Promise.all([
+    db
+      .select({
+        clinicalSiteId: siteSchoolAffiliations.clinicalSiteId,
+        siteName: clinicalSites.name,
+        ownerSchoolName: schools.name,
+        reservedCapacity: siteSchoolAffiliations.reservedCapacity,
+        requestedAt: siteSchoolAffiliations.updatedAt,
+      })
+      .from(siteSchoolAffiliations)
+      .innerJoin(clinicalSites, eq(clinicalSites.id, siteSchoolAffiliations.clinicalSiteId))
+      .leftJoin(schools, eq(schools.id, clinicalSites.schoolId))
+      .where(
+        and(
+          eq(siteSchoolAffiliations.schoolId, schoolId),
+          eq(siteSchoolAffiliations.status, "PENDING")
+        )
+      ),
+    db
+      .select({
+        preceptorId: preceptorSchoolAffiliations.preceptorId,
+        preceptorName: users.name,
+        homeSchoolName: schools.name,
+        requestedAt: preceptorSchoolAffiliations.updatedAt,
+      })
+      .from(preceptorSchoolAffiliations)
+      .innerJoin(users, eq(users.id, preceptorSchoolAffiliations.preceptorId))
+      .leftJoin(schools, eq(schools.id, users.schoolId))
+      .where(
+        and(
+          eq(preceptorSchoolAffiliations.schoolId, schoolId),
+          eq(preceptorSchoolAffiliations.status, "PENDING")
+        )
+      ),
+  ])
+  return { sites, preceptors }
+}
@@ -3,6 +3,7 @@ import { redirect } from "next/navigation"
 import { db } from "@/database/connection-pool"
 import { schools, users } from "@/database/schema"
 import { getCurrentUser } from "@/lib/auth-clerk"
+import { getPreceptorSchoolScope } from "@/lib/school-affiliations"
 import type { UserRole } from "@/types"
 
 // Role validation utilities
@@ -23,15 +24,20 @@ const isSchoolAdmin = (userRole: UserRole): boolean => {
 }
 // School-based data isolation utilities
 export interface SchoolContext {
+  // The school the user is working in; for preceptors the one they switched to
   schoolId: string | null
   schoolName: string | null
   userRole: UserRole
   userId: string
   canAccessAllSchools: boolean
+  // The user's own school and, for preceptors, every school they are affiliated with
+  homeSchoolId?: string | null
+  affiliatedSchoolIds?: string[]
 }
 
 /**
- * Get the current user's school context for data filtering
+ * Get the current user's school context for data filtering. Preceptors
+ * affiliated with several schools work in one of them at a time.
  */
 export async function getSchoolContext(): Promise<SchoolContext> {
   const user = await getCurrentUser()
@@ -44,8 +50,16 @@ export async function getSchoolContext(): Promise<SchoolContext> {
   const canAccessAllSchools = user.role === ("SUPER_ADMIN" as UserRole as UserRole)
 
   let schoolName = null
-  const userSchoolId = "schoolId" in user ? (user as { schoolId?: string }).schoolId : null
+  const homeSchoolId = "schoolId" in user ? (user as { schoolId?: string }).schoolId || null : null
+  let userSchoolId = homeSchoolId
+  let affiliatedSchoolIds = homeSchoolId ? [homeSchoolId] : []
   if (process.env.NODE_ENV !== "test") {
+    if (user.role === "CLINICAL_PRECEPTOR") {
+      const scope = await getPreceptorSchoolScope({ id: user.id, schoolId: homeSchoolId })
+      userSchoolId = scope.activeSchoolId
+      affiliatedSchoolIds = scope.schoolIds
+    }
+
     if (userSchoolId && !canAccessAllSchools) {
       const [school] = await db
         .select({ name: schools.name })
@@ -66,6 +80,8 @@ export async function getSchoolContext(): Promise<SchoolContext> {
     userRole: user.role,
     userId: user.id,
     canAccessAllSchools,
+    homeSchoolId,
+    affiliatedSchoolIds,
   }
 }
 
@@ -175,8 +191,8 @@ export function canAccessSchool(schoolId: string, context: SchoolContext): boole
     return true
   }
 
-  // Other roles can only access their own school
-  return context.schoolId === schoolId
+  // Other roles can only access their own school or, for preceptors, their affiliated schools
+  return context.schoolId === schoolId || Boolean(context.affiliatedSchoolIds?.includes(schoolId))
 }
 
 /**
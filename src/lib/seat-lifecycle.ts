@@ -0,0 +1,410 @@
+import { and, count, eq, sql } from "drizzle-orm"
+import { db } from "../database/connection-pool"
+import { type SeatAssignment, type User, schools, seatAssignments, users } from "../database/schema"
+import { logger } from "./logger"
+import { sendNotificationToUsers } from "./notification-service"
+import { applySubscriptionChange } from "./payments/proration"
+
+/**
+ * Seat lifecycle for SCHOOL_PAYS schools. `schools.seatsUsed` is always
+ * recounted from active seat assignments under a lock on the school row
+ * rather than incremented by hand, seats are released when a student
+ * graduates, withdraws or leaves, and admins are warned as usage crosses
+ * each threshold. Schools can opt in to buying missing seats on their seat
+ * subscription instead of turning students away.
+ */
+
+export const SEAT_WARNING_THRESHOLDS = [80, 100] as const
+
+export type SeatRevocationReason = NonNullable<SeatAssignment["revokedReason"]>
+
+type AcademicStatus = NonNullable<User["academicStatus"]>
+
+const BILLING_URL = "/dashboard/school-admin/billing"
+
+/**
+ * Highest warning threshold (percent) the usage has reached, or 0. Schools
+ * without any seats have nothing to warn about.
+ */
+export function seatWarningLevel(seatsUsed: number, seatsLimit: number): number {
+  if (seatsLimit <= 0) return 0
+  const percent = (seatsUsed / seatsLimit) * 100
+  return SEAT_WARNING_THRESHOLDS.filter((threshold) => percent >= threshold).at(-1) ?? 0
+}
+
+/**
+ * Seats missing to take on `needed` more students.
+ */
+export function seatShortfall(
+  school: { seatsUsed: number; seatsLimit: number },
+  needed: number
+): number {
+  return Math.max(0, school.seatsUsed + needed - school.seatsLimit)
+}
+
+/**
+ * Academic statuses that end a student's claim to a school-paid seat.
+ */
+export function academicStatusRevocationReason(
+  status: AcademicStatus | null | undefined
+): SeatRevocationReason | null {
+  if (status === "GRADUATED") return "GRADUATED"
+  if (status === "WITHDRAWN") return "WITHDRAWN"
+  return null
+}
+
+/**
+ * Why an active seat should be released, or null while the student still
+ * holds it legitimately.
+ */
+export function seatRevocationReason(
+  student: Pick<User, "academicStatus" | "isActive" | "schoolId">,
+  seatSchoolId: string
+): SeatRevocationReason | null {
+  const academic = academicStatusRevocationReason(student.academicStatus)
+  if (academic) return academic
+  if (!student.isActive) return "DEACTIVATED"
+  if (student.schoolId !== seatSchoolId) return "LEFT_SCHOOL"
+  return null
+}
+
+export type SeatCapacityResult =
+  | { ok: true; available: number; expandedBy: number }
+  | {
+      ok: false
+      reason: "school_not_found" | "not_school_pays" | "seat_limit_reached"
+      available: number
+      needed: number
+    }
+
+/**
+ * Make sure a school can take on `needed` more students before any of them
+ * are created or assigned. With `expand` and auto-expansion enabled, the
+ * shortfall is bought on the school's seat subscription.
+ */
+export async function reserveSeatCapacity(
+  schoolId: string,
+  needed: number,
+  options: { expand?: boolean } = {}
+): Promise<SeatCapacityResult> {
+  const [school] = await db.select().from(schools).where(eq(schools.id, schoolId)).limit(1)
+  if (!school) return { ok: false, reason: "school_not_found", available: 0, needed }
+  if (school.billingModel !== "SCHOOL_PAYS") {
+    return { ok: false, reason: "not_school_pays", available: 0, needed }
+  }
+
+  const available = Math.max(0, school.seatsLimit - school.seatsUsed)
+  const shortfall = seatShortfall(school, needed)
+  if (shortfall === 0) return { ok: true, available, expandedBy: 0 }
+
+  const expand = options.expand ?? true
+  if (!expand || !school.seatAutoExpand || !school.seatStripeSubscriptionId) {
+    return { ok: false, reason: "seat_limit_reached", available, needed }
+  }
+
+  try {
+    await applySubscriptionChange(school.seatStripeSubscriptionId, { addQuantity: shortfall })
+  } catch (error) {
+    logger.error({ err: error, schoolId, shortfall }, "Failed to expand seat subscription")
+    return { ok: false, reason: "seat_limit_reached", available, needed }
+  }
+
+  // Stripe has already billed for these, so record them whatever happens next
+  const [updated] = await db
+    .update(schools)
+    .set({ seatsLimit: sql`${schools.seatsLimit} + ${shortfall}`, updatedAt: new Date() })
+    .where(eq(schools.id, schoolId))
+    .returning({ seatsLimit: schools.seatsLimit })
+
+  logger.info(
+    { schoolId, shortfall, seatsLimit: updated?.seatsLimit },
+    "Seat subscription expanded"
+  )
+  await notifySchoolAdmins(schoolId, {
+    title: `${shortfall} student seat${shortfall === 1 ? " was" : "s were"} added automatically`,
+    message: `Your seat subscription now covers ${updated?.seatsLimit ?? "more"} students. You can turn off automatic seat purchases on the billing page.`,
+    priority: "medium",
+    data: { shortfall, seatsLimit: updated?.seatsLimit },
+  })
+
+  return { ok: true, available: available + shortfall, expandedBy: shortfall }
+}
+
+type Tx = Parameters<Parameters<typeof db.transaction>[0]>[0]
+
+async function countActiveSeats(tx: Tx, schoolId: string) {
+  const [{ active }] = await tx
+    .select({ active: count() })
+    .from(seatAssignments)
+    .where(and(eq(seatAssignments.schoolId, schoolId), eq(seatAssignments.status, "ACTIVE")))
+  return active
+}
+
+/**
+ * Lock the school row and recount its active seats. seats_check caps
+ * seatsUsed at the limit, so any excess is returned rather than stored.
+ */
+async function syncSeatsUsed(tx: Tx, schoolId: string) {
+  const [school] = await tx
+    .select({ seatsUsed: schools.seatsUsed, seatsLimit: schools.seatsLimit })
+    .from(schools)
+    .where(eq(schools.id, schoolId))
+    .for("update")
+  if (!school) return null
+
+  const active = await countActiveSeats(tx, schoolId)
+  const seatsUsed = Math.min(active, school.seatsLimit)
+  if (seatsUsed !== school.seatsUsed) {
+    await tx
+      .update(schools)
+      .set({ seatsUsed, updatedAt: new Date() })
+      .where(eq(schools.id, schoolId))
+  }
+  return {
+    previousSeatsUsed: school.seatsUsed,
+    seatsUsed,
+    overLimit: Math.max(0, active - school.seatsLimit),
+  }
+}
+
+export type SeatAssignmentResult =
+  | { ok: true; alreadyAssigned: boolean; expandedBy: number }
+  | { ok: false; reason: "school_not_found" | "not_school_pays" | "seat_limit_reached" }
+
+/**
+ * Give a student one of their school's seats, buying another when the school
+ * is full and has auto-expansion on (unless `expand` is false because the
+ * caller already reserved capacity).
+ */
+export async function assignSchoolSeat(
+  studentId: string,
+  schoolId: string,
+  options: { expand?: boolean } = {}
+): Promise<SeatAssignmentResult> {
+  const [existing] = await db
+    .select({ id: seatAssignments.id })
+    .from(seatAssignments)
+    .where(and(eq(seatAssignments.studentId, studentId), eq(seatAssignments.status, "ACTIVE")))
+    .limit(1)
+  if (existing) return { ok: true, alreadyAssigned: true, expandedBy: 0 }
+
+  const capacity = await reserveSeatCapacity(schoolId, 1, options)
+  if (!capacity.ok) return { ok: false, reason: capacity.reason }
+
+  const result = await db.transaction(async (tx): Promise<SeatAssignmentResult> => {
+    const [school] = await tx
+      .select({ seatsLimit: schools.seatsLimit })
+      .from(schools)
+      .where(eq(schools.id, schoolId))
+      .for("update")
+    if (!school) return { ok: false, reason: "school_not_found" }
+
+    if ((await countActiveSeats(tx, schoolId)) >= school.seatsLimit)
+      return { ok: false, reason: "seat_limit_reached" }
+
+    const inserted = await tx
+      .insert(seatAssignments)
+      .values({ schoolId, studentId, status: "ACTIVE" })
+      .onConflictDoNothing()
+      .returning({ id: seatAssignments.id })
+
+    await syncSeatsUsed(tx, schoolId)
+    await tx.update(users).set({ subscriptionStatus: "ACTIVE" }).where(eq(users.id, studentId))
+
+    return { ok: true, alreadyAssigned: inserted.length === 0, expandedBy: capacity.expandedBy }
+  })
+
+  if (result.ok) await checkSeatThresholds(schoolId)
+  return result
+}
+
+export type SeatReleaseResult =
+  | { ok: true; schoolId: string }
+  | { ok: false; reason: "no_active_seat" }
+
+/**
+ * Release a student's active seat, optionally only within one school.
+ */
+export async function releaseSchoolSeat(
+  studentId: string,
+  reason: SeatRevocationReason,
+  options: { schoolId?: string } = {}
+): Promise<SeatReleaseResult> {
+  const result = await db.transaction(async (tx): Promise<SeatReleaseResult> => {
+    const [assignment] = await tx
+      .select()
+      .from(seatAssignments)
+      .where(
+        and(
+          eq(seatAssignments.studentId, studentId),
+          eq(seatAssignments.status, "ACTIVE"),
+          options.schoolId ? eq(seatAssignments.schoolId, options.schoolId) : undefined
+        )
+      )
+      .limit(1)
+      .for("update")
+    if (!assignment) return { ok: false, reason: "no_active_seat" }
+
+    await tx
+      .update(seatAssignments)
+      .set({ status: "REVOKED", revokedAt: new Date(), revokedReason: reason })
+      .where(eq(seatAssignments.id, assignment.id))
+
+    await syncSeatsUsed(tx, assignment.schoolId)
+    await tx.update(users).set({ subscriptionStatus: "NONE" }).where(eq(users.id, studentId))
+
+    return { ok: true, schoolId: assignment.schoolId }
+  })
+
+  if (result.ok) await checkSeatThresholds(result.schoolId)
+  return result
+}
+
+/**
+ * Release the student's seat when the new academic status ends it.
+ */
+export async function applyAcademicStatusToSeat(studentId: string, status: AcademicStatus) {
+  const reason = academicStatusRevocationReason(status)
+  if (!reason) return null
+  return releaseSchoolSeat(studentId, reason)
+}
+
+/**
+ * Warn a school's admins the first time usage crosses each threshold. The
+ * stored level drops again as seats free up, so the warning repeats if the
+ * school fills up again.
+ */
+export async function checkSeatThresholds(schoolId: string) {
+  try {
+    const [school] = await db.select().from(schools).where(eq(schools.id, schoolId)).limit(1)
+    if (!school || school.billingModel !== "SCHOOL_PAYS") return null
+
+    const level = seatWarningLevel(school.seatsUsed, school.seatsLimit)
+    if (level === school.seatWarningLevel) return level
+
+    // Only the request that moves the level sends the warning
+    const moved = await db
+      .update(schools)
+      .set({ seatWarningLevel: level })
+      .where(and(eq(schools.id, schoolId), eq(schools.seatWarningLevel, school.seatWarningLevel)))
+      .returning({ id: schools.id })
+
+    if (moved.length > 0 && level > school.seatWarningLevel) {
+      const full = level >= 100
+      await notifySchoolAdmins(schoolId, {
+        title: full ? "All student seats are in use" : `${level}% of student seats are in use`,
+        message: `${school.seatsUsed} of ${school.seatsLimit} seats are assigned. ${
+          school.seatAutoExpand
+            ? "Additional seats will be purchased automatically as students join."
+            : full
+              ? "New students cannot be given a seat until you purchase more."
+              : "Purchase more seats before your next intake to avoid failed enrolments."
+        }`,
+        priority: full ? "urgent" : "high",
+        data: { seatsUsed: school.seatsUsed, seatsLimit: school.seatsLimit, level },
+      })
+    }
+    return level
+  } catch (error) {
+    logger.error({ err: error, schoolId }, "Failed to check seat thresholds")
+    return null
+  }
+}
+
+async function notifySchoolAdmins(
+  schoolId: string,
+  notice: {
+    title: string
+    message: string
+    priority: "medium" | "high" | "urgent"
+    data: Record<string, unknown>
+  }
+) {
+  const admins = await db
+    .select({ id: users.id })
+    .from(users)
+    .where(
+      and(eq(users.schoolId, schoolId), eq(users.role, "SCHOOL_ADMIN"), eq(users.isActive, true))
+    )
+  if (admins.length === 0) return
+
+  await sendNotificationToUsers(
+    admins.map((admin) => admin.id),
+    {
+      ...notice,
+      type: "warning",
+      actionUrl: BILLING_URL,
+      actionText: "Manage Seats",
+      data: { schoolId, ...notice.data },
+    }
+  )
+}
+
+export interface SeatReconciliation {
+  schoolId: string
+  previousSeatsUsed: number
+  seatsUsed: number
+  released: { studentId: string; reason: SeatRevocationReason }[]
+  // Active assignments beyond the limit, e.g. after seats were removed in Stripe
+  overLimit: number
+}
+
+/**
+ * Release seats held by students who graduated, withdrew, were deactivated or
+ * moved school, then bring `seatsUsed` back in line with active assignments.
+ */
+export async function reconcileSeats(
+  options: { schoolId?: string } = {}
+): Promise<SeatReconciliation[]> {
+  const targets = await db
+    .select({ id: schools.id })
+    .from(schools)
+    .where(
+      and(
+        eq(schools.billingModel, "SCHOOL_PAYS"),
+        options.schoolId ? eq(schools.id, options.schoolId) : undefined
+      )
+    )
+
+  const results: SeatReconciliation[] = []
+  for (const target of targets) {
+    try {
+      results.push(await reconcileSchoolSeats(target.id))
+    } catch (error) {
+      logger.error({ err: error, schoolId: target.id }, "Failed to reconcile seats")
+    }
+  }
+  return results
+}
+
+async function reconcileSchoolSeats(schoolId: string): Promise<SeatReconciliation> {
+  const holders = await db
+    .select({
+      studentId: seatAssignments.studentId,
+      academicStatus: users.academicStatus,
+      isActive: users.isActive,
+      schoolId: users.schoolId,
+    })
+    .from(seatAssignments)
+    .innerJoin(users, eq(seatAssignments.studentId, users.id))
+    .where(and(eq(seatAssignments.schoolId, schoolId), eq(seatAssignments.status, "ACTIVE")))
+
+  const released: SeatReconciliation["released"] = []
+  for (const holder of holders) {
+    const reason = seatRevocationReason(holder, schoolId)
+    if (!reason) continue
+    const outcome = await releaseSchoolSeat(holder.studentId, reason, { schoolId })
+    if (outcome.ok) released.push({ studentId: holder.studentId, reason })
+  }
+
+  const counts = await db.transaction((tx) => syncSeatsUsed(tx, schoolId))
+
+  await checkSeatThresholds(schoolId)
+  return {
+    schoolId,
+    released,
+    previousSeatsUsed: counts?.previousSeatsUsed ?? 0,
+    seatsUsed: counts?.seatsUsed ?? 0,
+    overLimit: counts?.overLimit ?? 0,
+  }
+}
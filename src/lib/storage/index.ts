@@ -0,0 +1,47 @@
+import { LocalStorageAdapter } from "./local-adapter"
+import { S3StorageAdapter } from "./s3-adapter"
+import type { StorageAdapter } from "./types"
+
+export type { PutObjectOptions, StorageAdapter, StorageDriver } from "./types"
+export { LocalStorageAdapter } from "./local-adapter"
+export { S3StorageAdapter } from "./s3-adapter"
+
+let adapter: StorageAdapter | null = null
+
+function requireEnv(name: string): string {
+  const value = process.env[name]
+  if (!value) throw new Error(`${name} is required when STORAGE_DRIVER=s3`)
+  return value
+}
+
+/**
+ * Storage adapter selected by STORAGE_DRIVER ("local" by default outside production).
+ * Production refuses local disk, which does not survive redeploys or scale-out.
+ */
+export function getStorageAdapter(): StorageAdapter {
+  if (adapter) return adapter
+
+  const production = process.env.NODE_ENV === "production"
+  const driver = process.env.STORAGE_DRIVER ?? (production ? undefined : "local")
+  if (!driver) {
+    throw new Error('STORAGE_DRIVER is required in production. Set STORAGE_DRIVER="s3"')
+  }
+  if (driver === "local" && production) {
+    throw new Error('STORAGE_DRIVER="local" is not durable storage. Use "s3" in production')
+  }
+  if (driver === "s3") {
+    adapter = new S3StorageAdapter({
+      endpoint: requireEnv("S3_ENDPOINT"),
+      region: process.env.S3_REGION ?? "auto",
+      bucket: requireEnv("S3_BUCKET"),
+      accessKeyId: requireEnv("S3_ACCESS_KEY_ID"),
+      secretAccessKey: requireEnv("S3_SECRET_ACCESS_KEY"),
+      forcePathStyle: process.env.S3_FORCE_PATH_STYLE === "true",
+    })
+  } else if (driver === "local") {
+    adapter = new LocalStorageAdapter(process.env.STORAGE_LOCAL_DIR ?? ".storage/uploads")
+  } else {
+    throw new Error(`Unknown STORAGE_DRIVER: ${driver}`)
+  }
+  return adapter
+}
@@ -0,0 +1,44 @@
+import { mkdir, readFile, rm, writeFile } from "node:fs/promises"
+import path from "node:path"
+import type { PutObjectOptions, StorageAdapter } from "./types"
+
+/**
+ * Stores objects on the local filesystem under a root directory. Intended for
+ * development and single-node deployments.
+ */
+export class LocalStorageAdapter implements StorageAdapter {
+  readonly driver = "local" as const
+  private readonly root: string
+
+  constructor(root: string) {
+    this.root = path.resolve(root)
+  }
+
+  private resolve(key: string): string {
+    const target = path.resolve(this.root, key)
+    // Keys must stay inside the storage root
+    if (!target.startsWith(this.root + path.sep)) {
+      throw new Error(`Invalid storage key: ${key}`)
+    }
+    return target
+  }
+
+  async put(key: string, body: Buffer, _options: PutObjectOptions): Promise<void> {
+    const target = this.resolve(key)
+    await mkdir(path.dirname(target), { recursive: true })
+    await writeFile(target, body)
+  }
+
+  async get(key: string): Promise<Buffer | null> {
+    try {
+      return await readFile(this.resolve(key))
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") return null
+      throw error
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    await rm(this.resolve(key), { force: true })
+  }
+}
@@ -0,0 +1,154 @@
+import { createHash, createHmac } from "node:crypto"
+import type { PutObjectOptions, StorageAdapter } from "./types"
+
+export interface S3StorageConfig {
+  // e.g. https://s3.us-east-1.amazonaws.com or an R2/MinIO endpoint
+  endpoint: string
+  region: string
+  bucket: string
+  accessKeyId: string
+  secretAccessKey: string
+  // Address the bucket as /<bucket>/<key> instead of <bucket>.<host>
+  forcePathStyle?: boolean
+}
+
+function sha256Hex(data: string | Buffer): string {
+  return createHash("sha256").update(data).digest("hex")
+}
+
+function hmac(key: string | Buffer, data: string): Buffer {
+  return createHmac("sha256", key).update(data).digest()
+}
+
+// RFC 3986 encoding as required by SigV4 canonical URIs
+function encodeSegment(segment: string): string {
+  return encodeURIComponent(segment).replace(
+    /[!'()*]/g,
+    (c) => `%${c.charCodeAt(0).toString(16).toUpperCase()}`
+  )
+}
+
+/**
+ * Sign a request with AWS Signature Version 4. Returns the headers to send.
+ */
+export function signS3Request(params: {
+  method: string
+  url: URL
+  region: string
+  accessKeyId: string
+  secretAccessKey: string
+  payloadHash: string
+  headers?: Record<string, string>
+  now?: Date
+}): Record<string, string> {
+  const now = params.now ?? new Date()
+  const amzDate = now.toISOString().replace(/[:-]|\.\d{3}/g, "")
+  const date = amzDate.slice(0, 8)
+  const scope = `${date}/${params.region}/s3/aws4_request`
+
+  const headers: Record<string, string> = {
+    ...Object.fromEntries(
+      Object.entries(params.headers ?? {}).map(([k, v]) => [k.toLowerCase(), v.trim()])
+    ),
+    host: params.url.host,
+    "x-amz-content-sha256": params.payloadHash,
+    "x-amz-date": amzDate,
+  }
+  const signedHeaderNames = Object.keys(headers).sort()
+  const canonicalHeaders = signedHeaderNames.map((name) => `${name}:${headers[name]}\n`).join("")
+  const signedHeaders = signedHeaderNames.join(";")
+
+  const canonicalQuery = [...params.url.searchParams.entries()]
+    .map(([k, v]) => `${encodeSegment(k)}=${encodeSegment(v)}`)
+    .sort()
+    .join("&")
+
+  const canonicalRequest = [
+    params.method,
+    params.url.pathname,
+    canonicalQuery,
+    canonicalHeaders,
+    signedHeaders,
+    params.payloadHash,
+  ].join("\n")
+
+  const stringToSign = ["AWS4-HMAC-SHA256", amzDate, scope, sha256Hex(canonicalRequest)].join("\n")
+
+  const signingKey = hmac(
+    hmac(hmac(hmac(`AWS4${params.secretAccessKey}`, date), params.region), "s3"),
+    "aws4_request"
+  )
+  const signature = createHmac("sha256", signingKey).update(stringToSign).digest("hex")
+
+  return {
+    ...headers,
+    authorization: `AWS4-HMAC-SHA256 Credential=${params.accessKeyId}/${scope}, SignedHeaders=${signedHeaders}, Signature=${signature}`,
+  }
+}
+
+/**
+ * S3-compatible object storage over plain HTTPS (AWS S3, Cloudflare R2,
+ * MinIO, ...). Requests are signed with SigV4.
+ */
+export class S3StorageAdapter implements StorageAdapter {
+  readonly driver = "s3" as const
+
+  constructor(private readonly config: S3StorageConfig) {}
+
+  private objectUrl(key: string): URL {
+    const endpoint = new URL(this.config.endpoint)
+    const encodedKey = key.split("/").map(encodeSegment).join("/")
+    if (this.config.forcePathStyle) {
+      return new URL(`${endpoint.origin}/${encodeSegment(this.config.bucket)}/${encodedKey}`)
+    }
+    return new URL(`${endpoint.protocol}//${this.config.bucket}.${endpoint.host}/${encodedKey}`)
+  }
+
+  private async send(
+    method: string,
+    key: string,
+    body?: Buffer,
+    headers?: Record<string, string>
+  ): Promise<Response> {
+    const url = this.objectUrl(key)
+    const signed = signS3Request({
+      method,
+      url,
+      region: this.config.region,
+      accessKeyId: this.config.accessKeyId,
+      secretAccessKey: this.config.secretAccessKey,
+      payloadHash: sha256Hex(body ?? ""),
+      headers,
+    })
+    // host is derived from the URL by fetch
+    const { host: _host, ...requestHeaders } = signed
+    return fetch(url, {
+      method,
+      headers: requestHeaders,
+      body: body ? new Uint8Array(body) : undefined,
+    })
+  }
+
+  async put(key: string, body: Buffer, options: PutObjectOptions): Promise<void> {
+    const response = await this.send("PUT", key, body, { "content-type": options.contentType })
+    if (!response.ok) {
+      throw new Error(`S3 upload failed (${response.status}): ${await response.text()}`)
+    }
+  }
+
+  async get(key: string): Promise<Buffer | null> {
+    const response = await this.send("GET", key)
+    if (response.status === 404) return null
+    if (!response.ok) {
+      throw new Error(`S3 download failed (${response.status}): ${await response.text()}`)
+    }
+    return Buffer.from(await response.arrayBuffer())
+  }
+
+  async delete(key: string): Promise<void> {
+    const response = await this.send("DELETE", key)
+    if (!response.ok && response.status !== 404) {
+      throw new Error(`S3 delete failed (${response.status}): ${await response.text()}`)
+    }
+  }
+}
@@ -0,0 +1,17 @@
+export type StorageDriver = "local" | "s3"
+
+export interface PutObjectOptions {
+  contentType: string
+}
+
+/**
+ * Minimal object store used for uploaded documents. Keys are opaque,
+ * slash-separated paths generated by the caller.
+ */
+export interface StorageAdapter {
+  readonly driver: StorageDriver
+  put(key: string, body: Buffer, options: PutObjectOptions): Promise<void>
+  // Resolves to null when the object does not exist
+  get(key: string): Promise<Buffer | null>
+  delete(key: string): Promise<void>
+}
@@ -0,0 +1,10 @@
+/**
+ * Raised when a query would cross schools. Kept free of server-only imports so
+ * the API response helpers can map it to a 403 anywhere.
+ */
+export class TenantIsolationError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = "TenantIsolationError"
+  }
+}
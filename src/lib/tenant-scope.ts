@@ -0,0 +1,133 @@
+import { and, eq, type SQL } from "drizzle-orm"
+import type { AnyPgColumn } from "drizzle-orm/pg-core"
+import {
+  apiKeys,
+  auditCheckpoints,
+  auditLogs,
+  auditRetentionPolicies,
+  clinicalHoursPolicies,
+  competencyDeployments,
+  competencyRubrics,
+  complianceRequirements,
+  facilityManagement,
+  importExportLogs,
+  invitations,
+  learningAnalytics,
+  notificationTemplates,
+  programClinicalSites,
+  programs,
+  qualityImprovementPlans,
+  qualityReviews,
+  reportCache,
+  rotationTemplates,
+  scheduledReportRuns,
+  scheduledReports,
+  seatAssignments,
+  siteAssignments,
+  webhookDeliveries,
+  webhookEndpoints,
+} from "@/database/schema"
+import { logger } from "@/lib/logger"
+import type { SchoolContext } from "@/lib/school-utils"
+import { TenantIsolationError } from "@/lib/tenant-isolation-error"
+
+export { TenantIsolationError }
+
+/**
+ * Tables where every row belongs to one school (audit tables use a null school
+ * for platform events). Queries against them go through a TenantScope; the
+ * tenant isolation suite fails on any query or join of one of them that has no
+ * school filter.
+ *
+ * Tables shared between schools are deliberately absent: clinical sites and
+ * preceptors are scoped through their affiliations, users through their role,
+ * and competencies allow platform-wide templates with no school.
+ */
+export const SCHOOL_OWNED_TABLES = {
+  apiKeys,
+  auditCheckpoints,
+  auditLogs,
+  auditRetentionPolicies,
+  clinicalHoursPolicies,
+  competencyDeployments,
+  competencyRubrics,
+  complianceRequirements,
+  facilityManagement,
+  importExportLogs,
+  invitations,
+  learningAnalytics,
+  notificationTemplates,
+  programClinicalSites,
+  programs,
+  qualityImprovementPlans,
+  qualityReviews,
+  reportCache,
+  rotationTemplates,
+  scheduledReportRuns,
+  scheduledReports,
+  seatAssignments,
+  siteAssignments,
+  webhookDeliveries,
+  webhookEndpoints,
+} as const
+
+type SchoolOwned = { schoolId: AnyPgColumn }
+
+export interface TenantScope {
+  // The school every query is pinned to; null only for a cross-tenant scope
+  schoolId: string | null
+  crossTenant: boolean
+  // Combines the school filter for `table` with any extra conditions
+  where(table: SchoolOwned, ...conditions: (SQL | undefined)[]): SQL | undefined
+  // Whether a row fetched by id belongs to the scope's school
+  owns(row: { schoolId: string | null } | null | undefined): boolean
+  // The school new rows are written to; cross-tenant scopes have none
+  requireSchoolId(): string
+}
+
+export interface TenantScopeOptions {
+  // Opts super admins out of school filtering. Other roles stay scoped
+  // whatever is passed, and every cross-tenant scope is logged with the reason.
+  crossTenantReason?: string
+}
+
+/**
+ * Pins queries on school-owned tables to the school in `context`. Fails closed:
+ * a user without a school gets a TenantIsolationError rather than every
+ * school's rows, and super admins only see across schools when the caller
+ * explicitly asks for it.
+ */
+export function tenantScope(context: SchoolContext, options: TenantScopeOptions = {}): TenantScope {
+  if (options.crossTenantReason && context.userRole === "SUPER_ADMIN") {
+    logger.info(
+      { userId: context.userId, reason: options.crossTenantReason },
+      "Cross-tenant query scope granted"
+    )
+    return {
+      schoolId: null,
+      crossTenant: true,
+      where: (_table, ...conditions) => and(...conditions),
+      owns: (row) => Boolean(row),
+      requireSchoolId: () => {
+        throw new TenantIsolationError("A cross-tenant scope cannot write school-owned rows")
+      },
+    }
+  }
+
+  const schoolId = context.schoolId
+  if (!schoolId) {
+    throw new TenantIsolationError(
+      context.userRole === "SUPER_ADMIN"
+        ? "Select a school or request a cross-tenant scope to access school data"
+        : "User must be associated with a school to access this resource"
+    )
+  }
+
+  return {
+    schoolId,
+    crossTenant: false,
+    where: (table, ...conditions) => and(eq(table.schoolId, schoolId), ...conditions),
+    owns: (row) => row?.schoolId === schoolId,
+    requireSchoolId: () => schoolId,
+  }
+}
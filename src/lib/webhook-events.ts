@@ -0,0 +1,24 @@
+/**
+ * Events a school can subscribe a webhook endpoint to. Kept free of server
+ * imports so the integrations page can list them.
+ */
+
+export const WEBHOOK_EVENT_TYPES = [
+  "time_record.approved",
+  "rotation.published",
+  "compliance_submission.status_changed",
+  "evaluation.signed",
+  "student.invited",
+  "student.accepted",
+] as const
+
+export type WebhookEventType = (typeof WEBHOOK_EVENT_TYPES)[number]
+
+export const WEBHOOK_EVENT_LABELS: Record<WebhookEventType, string> = {
+  "time_record.approved": "Time record approved",
+  "rotation.published": "Rotations published for a cohort",
+  "compliance_submission.status_changed": "Compliance submission status changed",
+  "evaluation.signed": "Evaluation signed",
+  "student.invited": "Student invited",
+  "student.accepted": "Student accepted invitation",
+}
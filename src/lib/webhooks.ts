@@ -0,0 +1,426 @@
+import { createHmac, randomBytes, timingSafeEqual } from "node:crypto"
+import { lookup } from "node:dns"
+import { request as httpsRequest } from "node:https"
+import { BlockList, isIP, type LookupFunction } from "node:net"
+import { and, eq, inArray, sql } from "drizzle-orm"
+import { db } from "../database/connection-pool"
+import {
+  timeRecords,
+  users,
+  type WebhookDelivery,
+  type WebhookEndpoint,
+  webhookDeliveries,
+  webhookEndpoints,
+} from "../database/schema"
+import { logger } from "./logger"
+import { QueueManager } from "./queue"
+import type { WebhookEventType } from "./webhook-events"
+
+/**
+ * Outbound webhooks. Emitting an event stores one delivery per subscribed
+ * endpoint and queues a WEBHOOK job for each; the job runner sends it and
+ * retries failures with backoff.
+ *
+ * Requests are signed as `t=<unix seconds>,v1=<hex HMAC-SHA256>` over
+ * `<t>.<raw body>` with the endpoint secret, so receivers can check both
+ * origin and freshness.
+ *
+ * Deliveries only connect to addresses the endpoint's host resolves to when
+ * every one of them is public, and never follow redirects.
+ */
+
+export {
+  WEBHOOK_EVENT_LABELS,
+  WEBHOOK_EVENT_TYPES,
+  type WebhookEventType,
+} from "./webhook-events"
+
+type Tx = Parameters<Parameters<typeof db.transaction>[0]>[0]
+
+export const WEBHOOK_SIGNATURE_HEADER = "X-MedStint-Signature"
+export const WEBHOOK_EVENT_HEADER = "X-MedStint-Event"
+export const WEBHOOK_DELIVERY_HEADER = "X-MedStint-Delivery"
+
+const DELIVERY_TIMEOUT_MS = 10 * 1000
+const MAX_STORED_RESPONSE_LENGTH = 2000
+// Receivers should reject signatures older than this
+export const SIGNATURE_TOLERANCE_SECONDS = 5 * 60
+
+export interface WebhookEvent {
+  id: string
+  type: WebhookEventType
+  createdAt: string
+  schoolId: string
+  data: Record<string, unknown>
+}
+
+export function generateWebhookSecret() {
+  return `whsec_${randomBytes(24).toString("base64url")}`
+}
+
+export function signWebhookPayload(secret: string, timestamp: number, body: string) {
+  return createHmac("sha256", secret).update(`${timestamp}.${body}`).digest("hex")
+}
+
+export function buildSignatureHeader(secret: string, timestamp: number, body: string) {
+  return `t=${timestamp},v1=${signWebhookPayload(secret, timestamp, body)}`
+}
+
+/**
+ * Receiver-side check, also used by tests: the signature must match and be
+ * no older than the tolerance.
+ */
+export function verifyWebhookSignature(
+  secret: string,
+  header: string,
+  body: string,
+  now: number = Date.now()
+): boolean {
+  const parts = Object.fromEntries(header.split(",").map((part) => part.split("=", 2)))
+  const timestamp = Number(parts.t)
+  if (!Number.isInteger(timestamp) || !parts.v1) return false
+  if (Math.abs(now / 1000 - timestamp) > SIGNATURE_TOLERANCE_SECONDS) return false
+
+  const expected = Buffer.from(signWebhookPayload(secret, timestamp, body))
+  const received = Buffer.from(parts.v1)
+  return expected.length === received.length && timingSafeEqual(expected, received)
+}
+
+// Loopback, private, link-local, carrier-grade NAT, benchmarking, multicast and reserved ranges
+const PRIVATE_RANGES = new BlockList()
+for (const [network, prefix] of [
+  ["0.0.0.0", 8],
+  ["10.0.0.0", 8],
+  ["100.64.0.0", 10],
+  ["127.0.0.0", 8],
+  ["169.254.0.0", 16],
+  ["172.16.0.0", 12],
+  ["192.0.0.0", 24],
+  ["192.168.0.0", 16],
+  ["198.18.0.0", 15],
+  ["224.0.0.0", 3],
+] as const) {
+  PRIVATE_RANGES.addSubnet(network, prefix, "ipv4")
+}
+for (const [network, prefix] of [
+  // Unspecified, loopback and the deprecated IPv4-compatible addresses
+  ["::", 96],
+  // NAT64 and 6to4 translate to an embedded IPv4 address that could be internal
+  ["64:ff9b::", 96],
+  ["64:ff9b:1::", 48],
+  ["2002::", 16],
+  ["fc00::", 7],
+  ["fe80::", 10],
+  ["ff00::", 8],
+] as const) {
+  PRIVATE_RANGES.addSubnet(network, prefix, "ipv6")
+}
+
+// The IPv4 address inside an IPv4-mapped IPv6 address (::ffff:a.b.c.d or ::ffff:xxxx:xxxx)
+function mappedIPv4(address: string) {
+  const match = /^(?:::|(?:0{1,4}:){5})ffff:(.+)$/.exec(address)
+  if (!match) return null
+  if (isIP(match[1]) === 4) return match[1]
+  const hextets = /^([0-9a-f]{1,4}):([0-9a-f]{1,4})$/.exec(match[1])
+  if (!hextets) return null
+  const [high, low] = [Number.parseInt(hextets[1], 16), Number.parseInt(hextets[2], 16)]
+  return [high >> 8, high & 255, low >> 8, low & 255].join(".")
+}
+
+/**
+ * Whether a hostname or IP address must never receive webhooks. Hostnames are
+ * only checked by name here; deliveries also check every address they resolve to.
+ */
+export function isPrivateAddress(hostname: string) {
+  const host = hostname.replace(/^\[|\]$/g, "").toLowerCase()
+  if (host === "localhost" || host.endsWith(".localhost") || host.endsWith(".local")) return true
+  const mapped = mappedIPv4(host)
+  if (mapped) return PRIVATE_RANGES.check(mapped, "ipv4")
+  if (isIP(host) === 4) return PRIVATE_RANGES.check(host, "ipv4")
+  if (isIP(host) === 6) return PRIVATE_RANGES.check(host, "ipv6")
+  return false
+}
+
+// Resolves like the default lookup but fails when the host has any private address,
+// so a public name cannot be pointed (or rebound) at internal services
+const publicOnlyLookup: LookupFunction = (hostname, options, callback) => {
+  lookup(hostname, { ...options, all: true }, (err, addresses) => {
+    if (err) return callback(err, "")
+    if (addresses.length === 0 || addresses.some(({ address }) => isPrivateAddress(address))) {
+      return callback(new Error(`Endpoint host ${hostname} resolves to a private address`), "")
+    }
+    if (options.all) return callback(null, addresses)
+    callback(null, addresses[0].address, addresses[0].family)
+  })
+}
+
+// POST to an endpoint over a connection to a checked public address. Redirects are never
+// followed, since they could point the request somewhere the checks never saw.
+function postToEndpoint(url: string, headers: Record<string, string>, body: string) {
+  return new Promise<{ status: number; body: string }>((resolve, reject) => {
+    const request = httpsRequest(
+      url,
+      {
+        method: "POST",
+        headers: { ...headers, "Content-Length": String(Buffer.byteLength(body)) },
+        lookup: publicOnlyLookup,
+        signal: AbortSignal.timeout(DELIVERY_TIMEOUT_MS),
+      },
+      (response) => {
+        let text = ""
+        response.setEncoding("utf8")
+        response.on("data", (chunk: string) => {
+          if (text.length < MAX_STORED_RESPONSE_LENGTH) text += chunk
+        })
+        response.on("end", () =>
+          resolve({
+            status: response.statusCode ?? 0,
+            body: text.slice(0, MAX_STORED_RESPONSE_LENGTH),
+          })
+        )
+        response.on("error", reject)
+      }
+    )
+    request.on("error", reject)
+    request.end(body)
+  })
+}
+
+/**
+ * Error message for an unacceptable endpoint URL, or null when it is fine.
+ * Endpoints must be public HTTPS URLs.
+ */
+export function validateWebhookUrl(value: string): string | null {
+  let url: URL
+  try {
+    url = new URL(value)
+  } catch {
+    return "Endpoint URL is not a valid URL"
+  }
+  if (url.protocol !== "https:") return "Endpoint URL must use https"
+  if (url.username || url.password) return "Endpoint URL must not contain credentials"
+  if (isPrivateAddress(url.hostname)) return "Endpoint URL must be publicly reachable"
+  return null
+}
+
+/**
+ * Endpoint fields safe to list; the signing secret is only returned when it
+ * is created or rotated.
+ */
+export function toWebhookEndpointSummary(endpoint: WebhookEndpoint) {
+  const { secret: _secret, ...summary } = endpoint
+  return summary
+}
+
+async function enqueueDeliveries(rows: WebhookDelivery[]) {
+  for (const row of rows) {
+    await QueueManager.add("WEBHOOK", { deliveryId: row.id })
+  }
+}
+
+/**
+ * Queue an event for every active endpoint of the school subscribed to it.
+ * Failures are logged rather than thrown so the change that raised the event
+ * is never rolled back by webhook problems.
+ */
+export async function emitWebhookEvent(
+  schoolId: string | null | undefined,
+  type: WebhookEventType,
+  data: Record<string, unknown>
+) {
+  if (!schoolId) return 0
+
+  try {
+    const endpoints = await db
+      .select({ id: webhookEndpoints.id })
+      .from(webhookEndpoints)
+      .where(
+        and(
+          eq(webhookEndpoints.schoolId, schoolId),
+          eq(webhookEndpoints.isActive, true),
+          sql`${type} = ANY(${webhookEndpoints.events})`
+        )
+      )
+    if (endpoints.length === 0) return 0
+
+    const event: WebhookEvent = {
+      id: crypto.randomUUID(),
+      type,
+      createdAt: new Date().toISOString(),
+      schoolId,
+      data,
+    }
+    const deliveries = await db
+      .insert(webhookDeliveries)
+      .values(
+        endpoints.map((endpoint) => ({
+          endpointId: endpoint.id,
+          schoolId,
+          eventId: event.id,
+          eventType: type,
+          payload: event,
+        }))
+      )
+      .returning()
+
+    await enqueueDeliveries(deliveries)
+    return deliveries.length
+  } catch (error) {
+    logger.error({ err: error, schoolId, type }, "Failed to queue webhook event")
+    return 0
+  }
+}
+
+/**
+ * Emit time_record.approved if the record is approved. Callers pass any
+ * record they just changed; the school is taken from the student.
+ */
+export async function emitTimeRecordApproved(recordId: string) {
+  try {
+    return await queueTimeRecordApproved(recordId)
+  } catch (error) {
+    logger.error({ err: error, recordId }, "Failed to queue time record webhook")
+    return 0
+  }
+}
+
+async function queueTimeRecordApproved(recordId: string) {
+  const [record] = await db
+    .select({
+      id: timeRecords.id,
+      status: timeRecords.status,
+      studentId: timeRecords.studentId,
+      rotationId: timeRecords.rotationId,
+      clockIn: timeRecords.clockIn,
+      clockOut: timeRecords.clockOut,
+      totalHours: timeRecords.totalHours,
+      approvedBy: timeRecords.approvedBy,
+      approvedAt: timeRecords.approvedAt,
+      schoolId: users.schoolId,
+    })
+    .from(timeRecords)
+    .innerJoin(users, eq(timeRecords.studentId, users.id))
+    .where(eq(timeRecords.id, recordId))
+    .limit(1)
+
+  if (record?.status !== "APPROVED") return 0
+
+  const { id, schoolId, status: _status, ...data } = record
+  return emitWebhookEvent(schoolId, "time_record.approved", { timeRecordId: id, ...data })
+}
+
+/**
+ * Send the stored event again as a new delivery with the same event id.
+ */
+export async function replayWebhookDelivery(delivery: WebhookDelivery) {
+  const [replay] = await db
+    .insert(webhookDeliveries)
+    .values({
+      endpointId: delivery.endpointId,
+      schoolId: delivery.schoolId,
+      eventId: delivery.eventId,
+      eventType: delivery.eventType,
+      payload: delivery.payload,
+      replayOf: delivery.id,
+    })
+    .returning()
+
+  await enqueueDeliveries([replay])
+  return replay
+}
+
+/**
+ * Delivery ids referenced by WEBHOOK job payloads.
+ */
+export function webhookDeliveryIds(payloads: unknown[]) {
+  return payloads.flatMap((payload) => {
+    const deliveryId = (payload as { deliveryId?: unknown } | null)?.deliveryId
+    return typeof deliveryId === "string" ? [deliveryId] : []
+  })
+}
+
+/**
+ * Requeue hook for WEBHOOK jobs. A job only sends a PENDING delivery, so the
+ * failed deliveries of requeued jobs are reopened with them.
+ */
+export async function reopenRequeuedDeliveries(tx: Tx, payloads: unknown[]) {
+  const deliveryIds = webhookDeliveryIds(payloads)
+  if (deliveryIds.length === 0) return
+
+  await tx
+    .update(webhookDeliveries)
+    .set({ status: "PENDING" })
+    .where(and(inArray(webhookDeliveries.id, deliveryIds), eq(webhookDeliveries.status, "FAILED")))
+}
+
+/**
+ * Make one delivery attempt and record it. Throws when the endpoint did not
+ * accept the event so the job runner schedules a retry; on the final attempt
+ * the delivery is marked FAILED first.
+ */
+export async function deliverWebhook(deliveryId: string, finalAttempt: boolean) {
+  const [row] = await db
+    .select({ delivery: webhookDeliveries, endpoint: webhookEndpoints })
+    .from(webhookDeliveries)
+    .innerJoin(webhookEndpoints, eq(webhookDeliveries.endpointId, webhookEndpoints.id))
+    .where(eq(webhookDeliveries.id, deliveryId))
+    .limit(1)
+
+  // Endpoint deleted, or already settled by an earlier run
+  if (!row || row.delivery.status !== "PENDING") return { skipped: true }
+
+  const { delivery, endpoint } = row
+  if (!endpoint.isActive) {
+    await db
+      .update(webhookDeliveries)
+      .set({ status: "FAILED", error: "Endpoint is disabled" })
+      .where(eq(webhookDeliveries.id, delivery.id))
+    return { skipped: true }
+  }
+
+  const body = JSON.stringify(delivery.payload)
+  const timestamp = Math.floor(Date.now() / 1000)
+  const startedAt = Date.now()
+  let responseStatus: number | null = null
+  let responseBody: string | null = null
+  let error: string | null = null
+
+  try {
+    const response = await postToEndpoint(
+      endpoint.url,
+      {
+        "Content-Type": "application/json",
+        "User-Agent": "MedStint-Webhooks/1.0",
+        [WEBHOOK_EVENT_HEADER]: delivery.eventType,
+        [WEBHOOK_DELIVERY_HEADER]: delivery.id,
+        [WEBHOOK_SIGNATURE_HEADER]: buildSignatureHeader(endpoint.secret, timestamp, body),
+      },
+      body
+    )
+    responseStatus = response.status
+    responseBody = response.body
+    if (response.status < 200 || response.status >= 300) {
+      error = `Endpoint responded with ${response.status}`
+    }
+  } catch (err) {
+    error = err instanceof Error ? err.message : String(err)
+  }
+
+  const now = new Date()
+  await db
+    .update(webhookDeliveries)
+    .set({
+      status: error ? (finalAttempt ? "FAILED" : "PENDING") : "SUCCEEDED",
+      attempts: sql`${webhookDeliveries.attempts} + 1`,
+      responseStatus,
+      responseBody,
+      error,
+      durationMs: Date.now() - startedAt,
+      lastAttemptAt: now,
+      deliveredAt: error ? null : now,
+    })
+    .where(eq(webhookDeliveries.id, delivery.id))
+
+  if (error) throw new Error(error)
+  return { skipped: false, responseStatus }
+}
@@ -1,12 +1,31 @@
 import { clerkMiddleware, createRouteMatcher } from "@clerk/nextjs/server";
 import { NextResponse } from "next/server";
+import { createErrorResponse, HTTP_STATUS } from "@/lib/api-response";
+import { isReadOnlyStudent, isRefusedWhenReadOnly, READ_ONLY_MESSAGE } from "@/lib/payments/dunning";
 
+// Calendar feeds under /api/ical authenticate with the token in their URL
 const isProtectedRoute = createRouteMatcher([
     '/dashboard(.*)',
     '/onboarding(.*)',
-    '/api/((?!webhooks).*)',
+    '/api/((?!webhooks|cron|ical).*)',
 ]);
 
+// Anyone holding an evaluation certificate can check it without an account
+const isPublicRoute = createRouteMatcher([
+    '/api/evaluations/certificates/verify',
+]);
+
+// Endpoints that also accept school API keys; the route handler authenticates the key
+const isApiKeyRoute = createRouteMatcher([
+    '/api/clinical-hours/export',
+    '/api/rotations',
+    '/api/students/bulk-import',
+    '/api/time-records',
+]);
+
+const hasApiKey = (req: Request) =>
+    req.headers.has('x-api-key') || /^Bearer\s+msk_/i.test(req.headers.get('authorization') ?? '');
+
 // Security headers to prevent "not secure" warnings and grayware flagging
 const securityHeaders = {
     // Strict Transport Security - Force HTTPS
@@ -39,13 +58,21 @@ const securityHeaders = {
 
 export default clerkMiddleware(async (auth, req) => {
     // Handle protected routes
-    if (isProtectedRoute(req)) {
+    if (isProtectedRoute(req) && !isPublicRoute(req) && !(isApiKeyRoute(req) && hasApiKey(req))) {
         const { userId, redirectToSignIn } = await auth();
         if (!userId) {
             return redirectToSignIn();
         }
     }
 
+    // Students whose subscription lapsed past the grace period can only read
+    if (isRefusedWhenReadOnly(req.method, req.nextUrl.pathname)) {
+        const { userId } = await auth();
+        if (userId && (await isReadOnlyStudent(userId))) {
+            return createErrorResponse(READ_ONLY_MESSAGE, HTTP_STATUS.FORBIDDEN);
+        }
+    }
+
     // Create response with security headers
     const response = NextResponse.next();
 
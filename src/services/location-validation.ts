@@ -8,7 +8,11 @@ import {
   rotations
 } from '@/database/schema'
 import { sql, desc, and, eq } from "drizzle-orm"
-import { calculateDistance } from "@/lib/geo-utils"
+import {
+  distanceToBoundary,
+  getAccuracyBuffer,
+  type GeofenceBoundary
+} from "@/lib/geo-utils"
 import { encryptLocationForStorage } from "@/lib/encryption"
 import { logger } from "@/lib/logger"
 
@@ -73,51 +77,121 @@ export function validateLocationAccuracy(accuracy: number): {
   return { level: 'low', acceptable: false, value: accuracy }
 }
 
+// Enough candidates that a polygon site whose center is farther away is still considered
+const CANDIDATE_LOCATION_LIMIT = 10
+
+export interface SiteLocationMatch {
+  site: any
+  location: any
+  // Meters from the center for radius geofences, from the boundary edge for polygons
+  distance: number
+  isWithinGeofence: boolean
+  usesBoundary: boolean
+}
+
 /**
- * Find the nearest clinical site location to given coordinates
+ * Evaluate a site location against a position. Polygon boundaries take
+ * precedence over the radius; both are widened by the reported GPS accuracy.
  */
-export async function findNearestClinicalSite(
+export function evaluateSiteLocation(
+  location: { radius: number; boundary?: unknown },
+  centerDistance: number,
   latitude: number,
   longitude: number,
-  clinicalSiteId?: string
-): Promise<{
-  site: any
-  location: any
-  distance: number
-} | null> {
-  try {
-    const query = db
-      .select({
-        site: clinicalSites,
-        location: clinicalSiteLocations,
-        distance: sql<number>`
-          6371000 * acos(
-            cos(radians(${latitude})) * 
-            cos(radians(CAST(${clinicalSiteLocations.latitude} AS DECIMAL))) * 
-            cos(radians(CAST(${clinicalSiteLocations.longitude} AS DECIMAL)) - radians(${longitude})) + 
-            sin(radians(${latitude})) * 
-            sin(radians(CAST(${clinicalSiteLocations.latitude} AS DECIMAL)))
-          )
-        `
-      })
-      .from(clinicalSiteLocations)
-      .innerJoin(clinicalSites, eq(clinicalSites.id, clinicalSiteLocations.clinicalSiteId))
-      .where(
-        and(
-          eq(clinicalSiteLocations.isActive, true),
-          clinicalSiteId ? eq(clinicalSites.id, clinicalSiteId) : undefined
+  accuracy: number
+): Pick<SiteLocationMatch, 'distance' | 'isWithinGeofence' | 'usesBoundary'> {
+  const buffer = getAccuracyBuffer(accuracy)
+
+  if (location.boundary) {
+    const distance = distanceToBoundary(latitude, longitude, location.boundary as GeofenceBoundary)
+    return { distance, isWithinGeofence: distance <= buffer, usesBoundary: true }
+  }
+
+  return {
+    distance: centerDistance,
+    isWithinGeofence: centerDistance <= location.radius + buffer,
+    usesBoundary: false,
+  }
+}
+
+/**
+ * Find the clinical site locations nearest to given coordinates, by center point
+ */
+async function findNearbySiteLocations(
+  latitude: number,
+  longitude: number,
+  clinicalSiteId: string | undefined,
+  limit: number
+): Promise<{ site: any; location: any; distance: number }[]> {
+  return db
+    .select({
+      site: clinicalSites,
+      location: clinicalSiteLocations,
+      distance: sql<number>`
+        6371000 * acos(
+          cos(radians(${latitude})) * 
+          cos(radians(CAST(${clinicalSiteLocations.latitude} AS DECIMAL))) * 
+          cos(radians(CAST(${clinicalSiteLocations.longitude} AS DECIMAL)) - radians(${longitude})) + 
+          sin(radians(${latitude})) * 
+          sin(radians(CAST(${clinicalSiteLocations.latitude} AS DECIMAL)))
         )
+      `
+    })
+    .from(clinicalSiteLocations)
+    .innerJoin(clinicalSites, eq(clinicalSites.id, clinicalSiteLocations.clinicalSiteId))
+    .where(
+      and(
+        eq(clinicalSiteLocations.isActive, true),
+        clinicalSiteId ? eq(clinicalSites.id, clinicalSiteId) : undefined
       )
+    )
+    .orderBy(sql`distance`)
+    .limit(limit)
+}
 
-    const results = await query
-      .orderBy(sql`distance`)
-      .limit(1)
+/**
+ * Find the clinical site location that best matches given coordinates: the
+ * closest one whose geofence contains the point, otherwise the one whose
+ * geofence edge is nearest.
+ */
+export async function findNearestClinicalSite(
+  latitude: number,
+  longitude: number,
+  clinicalSiteId?: string,
+  accuracy = 0
+): Promise<SiteLocationMatch | null> {
+  try {
+    const candidates = await findNearbySiteLocations(
+      latitude,
+      longitude,
+      clinicalSiteId,
+      CANDIDATE_LOCATION_LIMIT
+    )
 
-    if (results.length === 0) {
-      return null
+    let best: { match: SiteLocationMatch; beyondEdge: number } | null = null
+    for (const candidate of candidates) {
+      const evaluation = evaluateSiteLocation(
+        candidate.location,
+        Number(candidate.distance),
+        latitude,
+        longitude,
+        accuracy
+      )
+      const beyondEdge = evaluation.usesBoundary
+        ? evaluation.distance
+        : evaluation.distance - candidate.location.radius
+      const match = { site: candidate.site, location: candidate.location, ...evaluation }
+
+      if (
+        !best ||
+        (match.isWithinGeofence && !best.match.isWithinGeofence) ||
+        (match.isWithinGeofence === best.match.isWithinGeofence && beyondEdge < best.beyondEdge)
+      ) {
+        best = { match, beyondEdge }
+      }
     }
 
-    return results[0]
+    return best?.match ?? null
   } catch (error) {
     logger.error({ error }, 'Error finding nearest clinical site')
     return null
@@ -176,15 +250,14 @@ export async function verifyLocationProximity(
       }
     }
 
-    const { location, distance } = nearestLocation
-    const isWithinRange = distance <= location.allowedRadius
+    const { location, distance, isWithinGeofence } = nearestLocation
 
     return {
-      isWithinRange,
+      isWithinRange: isWithinGeofence,
       distance: Math.round(distance),
       siteName: site.name,
       siteId: site.id,
-      allowedRadius: location.allowedRadius,
+      allowedRadius: location.radius,
       clinicalSiteLocationId: location.id,
     }
   } catch (error) {
@@ -228,7 +301,8 @@ export async function validateLocationWithGeofence(
     const nearestSite = await findNearestClinicalSite(
       latitude,
       longitude,
-      clinicalSiteId
+      clinicalSiteId,
+      accuracy
     )
 
     if (!nearestSite) {
@@ -240,7 +314,7 @@ export async function validateLocationWithGeofence(
       return result
     }
 
-    const { site, location, distance } = nearestSite
+    const { site, location, distance, usesBoundary } = nearestSite
     result.distanceFromSite = Math.round(distance)
     result.nearestSite = {
       id: site.id,
@@ -248,9 +322,13 @@ export async function validateLocationWithGeofence(
       address: site.address,
       allowedRadius: location.radius, // Use radius from location table
     }
+    result.metadata = {
+      clinicalSiteLocationId: location.id,
+      geofenceType: usesBoundary ? 'polygon' : 'radius',
+    }
 
-    // Check geofence
-    result.isWithinGeofence = distance <= location.radius
+    // Check geofence (already widened by the accuracy buffer)
+    result.isWithinGeofence = nearestSite.isWithinGeofence
 
     // Validate accuracy
     if (!result.accuracy.acceptable) {
@@ -264,7 +342,9 @@ export async function validateLocationWithGeofence(
 
     // Check proximity
     if (!result.isWithinGeofence) {
-      const message = `Location is ${result.distanceFromSite}m away from ${site.name} (allowed: ${location.radius}m)`
+      const message = usesBoundary
+        ? `Location is ${result.distanceFromSite}m outside the ${location.name} boundary at ${site.name}`
+        : `Location is ${result.distanceFromSite}m away from ${site.name} (allowed: ${location.radius}m)`
       if (isStrict) {
         result.errors.push(message)
         if (location.strictGeofence) {
@@ -282,7 +362,11 @@ export async function validateLocationWithGeofence(
       )
     }
 
-    if (distance > location.allowedRadius * 0.8 && result.isWithinGeofence) {
+    if (usesBoundary && distance > 0 && result.isWithinGeofence) {
+      result.warnings.push(
+        `Location is ${result.distanceFromSite}m outside the site boundary, within GPS accuracy`
+      )
+    } else if (!usesBoundary && distance > location.radius * 0.8 && result.isWithinGeofence) {
       result.warnings.push(
         `You are near the edge of the allowed area (${result.distanceFromSite}m from site)`
       )
@@ -381,7 +465,7 @@ export async function saveLocationVerification(
         userLongitude: 'ENCRYPTED_V1', // Marker indicating encrypted data
         userAccuracy: userAccuracy.toString(),
         locationSource,
-        clinicalSiteLocationId: validationResult.nearestSite?.id,
+        clinicalSiteLocationId: validationResult.metadata?.clinicalSiteLocationId,
         distanceFromSite: validationResult.distanceFromSite.toString(),
         isWithinGeofence: validationResult.isWithinGeofence,
         verificationStatus,
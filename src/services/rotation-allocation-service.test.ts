@@ -0,0 +1,131 @@
+import { describe, expect, it, vi } from "vitest"
+
+vi.mock("@/database/connection-pool", () => ({ db: {} }))
+
+import {
+  type AllocationSiteCandidate,
+  planSiteAllocation,
+  validateAllocation,
+} from "./rotation-allocation-service"
+
+const students = Array.from({ length: 10 }, (_, i) => ({ id: `s${i}`, name: `Student ${i}` }))
+
+const site = (overrides: Partial<AllocationSiteCandidate>): AllocationSiteCandidate => ({
+  clinicalSiteId: "site",
+  name: "Site",
+  priority: 0,
+  isDefault: false,
+  capacity: 10,
+  occupied: 0,
+  schoolAvailable: 10,
+  assignedFromAssignment: 0,
+  eligibilityRules: null,
+  ...overrides,
+})
+
+const options = {
+  strategy: "balanced" as const,
+  specialty: "Radiology",
+  cohortId: "cohort-1",
+  graduationYear: 2027,
+}
+
+describe("planSiteAllocation", () => {
+  it("spreads students by remaining seats after other cohorts", () => {
+    const plan = planSiteAllocation(
+      students,
+      [
+        site({ clinicalSiteId: "a", name: "A", capacity: 6, occupied: 2 }),
+        site({ clinicalSiteId: "b", name: "B", capacity: 6 }),
+      ],
+      options
+    )
+    expect(plan.sites.map((s) => [s.clinicalSiteId, s.available, s.students.length])).toEqual([
+      ["a", 4, 4],
+      ["b", 6, 6],
+    ])
+    expect(plan.unallocated).toHaveLength(0)
+  })
+
+  it("fills the highest priority site first and reports overflow", () => {
+    const plan = planSiteAllocation(
+      students,
+      [
+        site({ clinicalSiteId: "low", name: "Low", priority: 1, capacity: 3 }),
+        site({ clinicalSiteId: "high", name: "High", priority: 5, capacity: 4 }),
+      ],
+      { ...options, strategy: "priority" }
+    )
+    expect(plan.sites[0].clinicalSiteId).toBe("high")
+    expect(plan.sites[0].students).toHaveLength(4)
+    expect(plan.sites[1].students).toHaveLength(3)
+    expect(plan.unallocated).toHaveLength(3)
+  })
+
+  it("applies eligibility rules and per-rotation caps", () => {
+    const plan = planSiteAllocation(
+      students,
+      [
+        site({
+          clinicalSiteId: "peds",
+          name: "Peds",
+          eligibilityRules: JSON.stringify({ specialties: ["Pediatrics"] }),
+        }),
+        site({
+          clinicalSiteId: "capped",
+          name: "Capped",
+          eligibilityRules: JSON.stringify({ maxStudentsPerRotation: 2 }),
+        }),
+        site({ clinicalSiteId: "broken", name: "Broken", eligibilityRules: "{not json" }),
+      ],
+      options
+    )
+    expect(plan.excludedSites.map((s) => s.clinicalSiteId)).toEqual(["broken", "peds"])
+    expect(plan.sites).toHaveLength(1)
+    expect(plan.sites[0].students).toHaveLength(2)
+  })
+
+  it("caps each site by the assignment's maxStudents", () => {
+    const plan = planSiteAllocation(
+      students,
+      [site({ clinicalSiteId: "a", name: "A", assignedFromAssignment: 1, occupied: 1 })],
+      { ...options, maxStudentsPerSite: 3 }
+    )
+    expect(plan.sites[0].available).toBe(2)
+  })
+
+  it("keeps to the seats the school has left after other schools' reservations", () => {
+    const plan = planSiteAllocation(
+      students,
+      [
+        site({ clinicalSiteId: "shared", name: "Shared", schoolAvailable: 2 }),
+        site({ clinicalSiteId: "taken", name: "Taken", schoolAvailable: 0 }),
+      ],
+      options
+    )
+    expect(plan.sites.map((s) => [s.clinicalSiteId, s.available])).toEqual([["shared", 2]])
+    expect(plan.excludedSites.map((s) => s.clinicalSiteId)).toEqual(["taken"])
+    expect(plan.unallocated).toHaveLength(8)
+  })
+})
+
+describe("validateAllocation", () => {
+  it("rejects allocations that exceed current availability", () => {
+    const plan = planSiteAllocation(
+      [],
+      [site({ clinicalSiteId: "a", name: "A", capacity: 1 })],
+      options
+    )
+    const errors = validateAllocation(
+      [
+        { studentId: "s0", clinicalSiteId: "a" },
+        { studentId: "s1", clinicalSiteId: "a" },
+        { studentId: "s2", clinicalSiteId: "missing" },
+      ],
+      plan,
+      new Set(["s0", "s1", "s2"])
+    )
+    expect(errors).toHaveLength(2)
+    expect(errors[1]).toContain("1 seats left but 2 were allocated")
+  })
+})
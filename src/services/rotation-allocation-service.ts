@@ -0,0 +1,365 @@
+import { and, count, desc, eq, gte, inArray, isNull, lte, or } from "drizzle-orm"
+import { z } from "zod"
+import { db } from "../database/connection-pool"
+import {
+  type Cohort,
+  type CohortRotationAssignment,
+  type RotationTemplate,
+  clinicalSites,
+  programClinicalSites,
+  rotations,
+} from "../database/schema"
+import { getSitesCapacityForSchool, siteVisibleToSchool } from "../lib/school-affiliations"
+
+/**
+ * Capacity-aware allocation of cohort students across the clinical sites
+ * linked to their program (program_clinical_sites) that the school owns or is
+ * affiliated with.
+ *
+ * Effective seats per site = min(capacityOverride ?? clinical_sites.capacity,
+ * eligibility maxStudentsPerRotation) minus the school's rotations at the site
+ * in an overlapping date range, and never more than the school has left there
+ * after other schools' reservations and placements. The assignment's
+ * maxStudents is applied as a per-site cap for this assignment.
+ */
+
+export type AllocationStrategy = "balanced" | "priority"
+
+// Shape of program_clinical_sites.eligibility_rules
+const eligibilityRulesSchema = z
+  .object({
+    specialties: z.array(z.string()),
+    cohortIds: z.array(z.string()),
+    graduationYears: z.array(z.number().int()),
+    maxStudentsPerRotation: z.number().int().min(0),
+  })
+  .partial()
+
+export type SiteEligibilityRules = z.infer<typeof eligibilityRulesSchema>
+
+export interface AllocationStudent {
+  id: string
+  name: string | null
+}
+
+export interface AllocationSiteCandidate {
+  clinicalSiteId: string
+  name: string
+  priority: number
+  isDefault: boolean
+  capacity: number
+  // The school's rotations at the site in the assignment's dates
+  occupied: number
+  // Seats the school has left at the site, see allocateSiteCapacity
+  schoolAvailable: number
+  // Seats already held by this assignment at the site
+  assignedFromAssignment: number
+  eligibilityRules: string | null
+}
+
+export interface SiteAllocation {
+  clinicalSiteId: string
+  name: string
+  priority: number
+  capacity: number
+  occupied: number
+  available: number
+  students: AllocationStudent[]
+}
+
+export interface ExcludedSite {
+  clinicalSiteId: string
+  name: string
+  reason: string
+}
+
+export interface AllocationPlan {
+  strategy: AllocationStrategy
+  sites: SiteAllocation[]
+  excludedSites: ExcludedSite[]
+  unallocated: AllocationStudent[]
+}
+
+export function parseEligibilityRules(
+  raw: string | null
+): { rules: SiteEligibilityRules } | { error: string } {
+  if (!raw) return { rules: {} }
+  try {
+    const parsed = eligibilityRulesSchema.safeParse(JSON.parse(raw))
+    return parsed.success ? { rules: parsed.data } : { error: "Invalid eligibility rules" }
+  } catch {
+    return { error: "Eligibility rules are not valid JSON" }
+  }
+}
+
+/**
+ * Returns the reason a site cannot take students for this assignment, or null
+ * when it is eligible.
+ */
+export function checkSiteEligibility(
+  rules: SiteEligibilityRules,
+  context: { specialty: string; cohortId: string; graduationYear: number | null }
+): string | null {
+  if (
+    rules.specialties?.length &&
+    !rules.specialties.some((s) => s.toLowerCase() === context.specialty.toLowerCase())
+  ) {
+    return `Site does not accept ${context.specialty} rotations`
+  }
+  if (rules.cohortIds?.length && !rules.cohortIds.includes(context.cohortId)) {
+    return "Cohort is not eligible for this site"
+  }
+  if (
+    rules.graduationYears?.length &&
+    (context.graduationYear === null || !rules.graduationYears.includes(context.graduationYear))
+  ) {
+    return "Cohort graduation year is not eligible for this site"
+  }
+  return null
+}
+
+/**
+ * Distribute students across candidate sites.
+ *
+ * - balanced: each student goes to the site with the most seats left, so load
+ *   is spread evenly; priority breaks ties.
+ * - priority: fill the highest priority site before moving to the next.
+ */
+export function planSiteAllocation(
+  students: AllocationStudent[],
+  candidates: AllocationSiteCandidate[],
+  options: {
+    strategy: AllocationStrategy
+    specialty: string
+    cohortId: string
+    graduationYear: number | null
+    maxStudentsPerSite?: number | null
+  }
+): AllocationPlan {
+  const excludedSites: ExcludedSite[] = []
+  const sites: SiteAllocation[] = []
+
+  const ordered = [...candidates].sort(
+    (a, b) =>
+      Number(b.isDefault) - Number(a.isDefault) ||
+      b.priority - a.priority ||
+      a.name.localeCompare(b.name)
+  )
+
+  for (const candidate of ordered) {
+    const parsed = parseEligibilityRules(candidate.eligibilityRules)
+    if ("error" in parsed) {
+      excludedSites.push({
+        clinicalSiteId: candidate.clinicalSiteId,
+        name: candidate.name,
+        reason: parsed.error,
+      })
+      continue
+    }
+
+    const reason = checkSiteEligibility(parsed.rules, options)
+    if (reason) {
+      excludedSites.push({ clinicalSiteId: candidate.clinicalSiteId, name: candidate.name, reason })
+      continue
+    }
+
+    const capacity = Math.min(
+      candidate.capacity,
+      parsed.rules.maxStudentsPerRotation ?? Number.POSITIVE_INFINITY
+    )
+    let available = Math.min(Math.max(capacity - candidate.occupied, 0), candidate.schoolAvailable)
+    if (options.maxStudentsPerSite) {
+      available = Math.min(
+        available,
+        Math.max(options.maxStudentsPerSite - candidate.assignedFromAssignment, 0)
+      )
+    }
+
+    if (available === 0) {
+      excludedSites.push({
+        clinicalSiteId: candidate.clinicalSiteId,
+        name: candidate.name,
+        reason: "No seats available for these dates",
+      })
+      continue
+    }
+
+    sites.push({
+      clinicalSiteId: candidate.clinicalSiteId,
+      name: candidate.name,
+      priority: candidate.priority,
+      capacity,
+      occupied: candidate.occupied,
+      available,
+      students: [],
+    })
+  }
+
+  const unallocated: AllocationStudent[] = []
+  for (const student of students) {
+    const open = sites.filter((site) => site.students.length < site.available)
+    if (open.length === 0) {
+      unallocated.push(student)
+      continue
+    }
+
+    // Sites are already in priority order, so the first maximum wins ties
+    const target =
+      options.strategy === "priority"
+        ? open[0]
+        : open.reduce((best, site) =>
+            site.available - site.students.length > best.available - best.students.length
+              ? site
+              : best
+          )
+    target.students.push(student)
+  }
+
+  return { strategy: options.strategy, sites, excludedSites, unallocated }
+}
+
+/**
+ * Check an edited or previously previewed allocation against current seat
+ * availability. Returns a list of problems; empty when it can be committed.
+ */
+export function validateAllocation(
+  allocations: Array<{ studentId: string; clinicalSiteId: string }>,
+  plan: AllocationPlan,
+  studentIds: Set<string>
+): string[] {
+  const errors: string[] = []
+  const seatsBySite = new Map(plan.sites.map((s) => [s.clinicalSiteId, s]))
+  const perSite = new Map<string, number>()
+  const seen = new Set<string>()
+
+  for (const { studentId, clinicalSiteId } of allocations) {
+    if (!studentIds.has(studentId)) {
+      errors.push(`Student ${studentId} does not need a rotation for this assignment`)
+      continue
+    }
+    if (seen.has(studentId)) {
+      errors.push(`Student ${studentId} is allocated more than once`)
+      continue
+    }
+    seen.add(studentId)
+
+    const site = seatsBySite.get(clinicalSiteId)
+    if (!site) {
+      errors.push(`Site ${clinicalSiteId} is not eligible or has no seats`)
+      continue
+    }
+    perSite.set(clinicalSiteId, (perSite.get(clinicalSiteId) ?? 0) + 1)
+  }
+
+  for (const [clinicalSiteId, allocated] of perSite) {
+    const site = seatsBySite.get(clinicalSiteId)
+    if (site && allocated > site.available) {
+      errors.push(`${site.name} has ${site.available} seats left but ${allocated} were allocated`)
+    }
+  }
+
+  return errors
+}
+
+/**
+ * Load program-linked sites with their effective capacity and the seats
+ * already taken by rotations overlapping the assignment's date range.
+ */
+export async function loadAllocationCandidates(params: {
+  assignment: CohortRotationAssignment
+  cohort: Cohort
+  template: RotationTemplate
+}): Promise<AllocationSiteCandidate[]> {
+  const { assignment, cohort, template } = params
+
+  const linkedSites = await db
+    .select({
+      clinicalSiteId: clinicalSites.id,
+      name: clinicalSites.name,
+      siteCapacity: clinicalSites.capacity,
+      priority: programClinicalSites.priority,
+      isDefault: programClinicalSites.isDefault,
+      capacityOverride: programClinicalSites.capacityOverride,
+      eligibilityRules: programClinicalSites.eligibilityRules,
+    })
+    .from(programClinicalSites)
+    .innerJoin(clinicalSites, eq(programClinicalSites.clinicalSiteId, clinicalSites.id))
+    .where(
+      and(
+        eq(programClinicalSites.programId, cohort.programId),
+        eq(programClinicalSites.schoolId, template.schoolId),
+        eq(clinicalSites.isActive, true),
+        siteVisibleToSchool(template.schoolId),
+        // Affiliation must cover the whole rotation
+        or(
+          isNull(programClinicalSites.startDate),
+          lte(programClinicalSites.startDate, assignment.startDate)
+        ),
+        or(
+          isNull(programClinicalSites.endDate),
+          gte(programClinicalSites.endDate, assignment.endDate)
+        )
+      )
+    )
+    .orderBy(desc(programClinicalSites.isDefault), desc(programClinicalSites.priority))
+
+  if (linkedSites.length === 0) return []
+
+  const siteIds = linkedSites.map((s) => s.clinicalSiteId)
+  const schoolCapacity = await getSitesCapacityForSchool(siteIds, template.schoolId, {
+    startDate: assignment.startDate,
+    endDate: assignment.endDate,
+  })
+
+  const fromAssignment = await db
+    .select({ clinicalSiteId: rotations.clinicalSiteId, assigned: count(rotations.id) })
+    .from(rotations)
+    .where(
+      and(
+        eq(rotations.cohortRotationAssignmentId, assignment.id),
+        inArray(rotations.clinicalSiteId, siteIds),
+        inArray(rotations.status, ["SCHEDULED", "ACTIVE"]),
+        lte(rotations.startDate, assignment.endDate),
+        gte(rotations.endDate, assignment.startDate)
+      )
+    )
+    .groupBy(rotations.clinicalSiteId)
+
+  const assignedBySite = new Map(fromAssignment.map((a) => [a.clinicalSiteId, a.assigned]))
+
+  return linkedSites.map((site) => ({
+    clinicalSiteId: site.clinicalSiteId,
+    name: site.name,
+    priority: site.priority,
+    isDefault: site.isDefault,
+    capacity: site.capacityOverride ?? site.siteCapacity,
+    occupied: schoolCapacity.get(site.clinicalSiteId)?.used ?? 0,
+    schoolAvailable: schoolCapacity.get(site.clinicalSiteId)?.available ?? 0,
+    assignedFromAssignment: assignedBySite.get(site.clinicalSiteId) ?? 0,
+    eligibilityRules: site.eligibilityRules,
+  }))
+}
+
+/**
+ * Build an allocation plan for the students that still need a rotation.
+ */
+export async function buildAllocationPlan(params: {
+  assignment: CohortRotationAssignment
+  cohort: Cohort
+  template: RotationTemplate
+  students: AllocationStudent[]
+  strategy: AllocationStrategy
+}): Promise<AllocationPlan> {
+  const candidates = await loadAllocationCandidates(params)
+  const students = [...params.students].sort(
+    (a, b) => (a.name ?? "").localeCompare(b.name ?? "") || a.id.localeCompare(b.id)
+  )
+
+  return planSiteAllocation(students, candidates, {
+    strategy: params.strategy,
+    specialty: params.template.specialty,
+    cohortId: params.cohort.id,
+    graduationYear: params.cohort.graduationYear,
+    maxStudentsPerSite: params.assignment.maxStudents,
+  })
+}
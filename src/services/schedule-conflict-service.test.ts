@@ -0,0 +1,182 @@
+import { describe, expect, it, vi } from "vitest"
+
+vi.mock("@/database/connection-pool", () => ({ db: {} }))
+
+import {
+  type ConflictEngineInput,
+  type ScheduleRotation,
+  detectScheduleConflicts,
+  hasHardConflicts,
+} from "./schedule-conflict-service"
+
+const now = new Date("2026-01-01T00:00:00Z")
+
+const rotation = (overrides: Partial<ScheduleRotation>): ScheduleRotation => ({
+  id: "r1",
+  studentId: "s1",
+  clinicalSiteId: "site-a",
+  preceptorId: null,
+  programId: "p1",
+  cohortId: null,
+  startDate: new Date("2026-02-02T00:00:00Z"),
+  endDate: new Date("2026-02-27T00:00:00Z"),
+  requiredHours: null,
+  completedHours: 0,
+  status: "SCHEDULED",
+  ...overrides,
+})
+
+const input = (overrides: Partial<ConflictEngineInput>): ConflictEngineInput => ({
+  focus: [],
+  context: [],
+  siteAssignments: [],
+  sites: new Map([
+    ["site-a", { name: "Site A", capacity: 2 }],
+    ["site-b", { name: "Site B", capacity: 5 }],
+  ]),
+  cohorts: new Map(),
+  requirements: new Map(),
+  submissions: [],
+  studentPrograms: new Map(),
+  ...overrides,
+})
+
+describe("detectScheduleConflicts", () => {
+  it("reports capacity windows including active site assignments", () => {
+    const focus = [
+      rotation({ id: "r1", studentId: "s1" }),
+      rotation({ id: "r2", studentId: "s2", startDate: new Date("2026-02-16T00:00:00Z") }),
+    ]
+    const conflicts = detectScheduleConflicts(
+      input({
+        focus,
+        siteAssignments: [
+          {
+            id: "sa1",
+            studentId: "s3",
+            clinicalSiteId: "site-a",
+            rotationId: null,
+            startDate: new Date("2026-02-10T00:00:00Z"),
+            endDate: new Date("2026-02-20T00:00:00Z"),
+          },
+          // Backs r1, so it must not be counted twice
+          {
+            id: "sa2",
+            studentId: "s1",
+            clinicalSiteId: "site-a",
+            rotationId: "r1",
+            startDate: null,
+            endDate: null,
+          },
+        ],
+      }),
+      now
+    )
+
+    const capacity = conflicts.filter((c) => c.type === "SITE_CAPACITY")
+    expect(capacity).toHaveLength(1)
+    expect(capacity[0]).toMatchObject({
+      severity: "HARD",
+      rotationId: "r2",
+      startDate: "2026-02-16",
+      endDate: "2026-02-20",
+      details: { peakOccupancy: 3, overBy: 1 },
+    })
+  })
+
+  it("flags student overlaps and preceptors booked at two sites", () => {
+    const conflicts = detectScheduleConflicts(
+      input({
+        focus: [rotation({ id: "r1", preceptorId: "pr1" })],
+        context: [
+          rotation({ id: "r2", clinicalSiteId: "site-b", preceptorId: "pr1", studentId: "s9" }),
+          rotation({ id: "r3", clinicalSiteId: "site-b", status: "COMPLETED" }),
+          rotation({ id: "r4", clinicalSiteId: "site-b", startDate: new Date("2026-02-20") }),
+        ],
+      }),
+      now
+    )
+
+    expect(conflicts.map((c) => [c.type, c.relatedRotationIds])).toEqual([
+      ["STUDENT_OVERLAP", ["r4"]],
+      ["PRECEPTOR_DOUBLE_BOOKED", ["r2"]],
+    ])
+  })
+
+  it("blocks rotations outside cohort dates and with missing or expired compliance", () => {
+    const conflicts = detectScheduleConflicts(
+      input({
+        focus: [rotation({ cohortId: "c1" })],
+        cohorts: new Map([
+          [
+            "c1",
+            {
+              name: "Class of 2026",
+              startDate: new Date("2025-09-01T00:00:00Z"),
+              endDate: new Date("2026-02-20T00:00:00Z"),
+            },
+          ],
+        ]),
+        requirements: new Map([
+          [
+            "p1",
+            [
+              { id: "bls", name: "BLS" },
+              { id: "tb", name: "TB test" },
+              { id: "flu", name: "Flu shot" },
+              { id: "hipaa", name: "HIPAA" },
+            ],
+          ],
+        ]),
+        submissions: [
+          {
+            studentId: "s1",
+            requirementId: "tb",
+            status: "APPROVED",
+            expiresAt: new Date("2026-01-15"),
+          },
+          {
+            studentId: "s1",
+            requirementId: "flu",
+            status: "APPROVED",
+            expiresAt: new Date("2026-02-10"),
+          },
+          { studentId: "s1", requirementId: "hipaa", status: "PENDING", expiresAt: null },
+        ],
+      }),
+      now
+    )
+
+    expect(conflicts.map((c) => [c.type, c.severity])).toEqual([
+      ["OUTSIDE_COHORT_DATES", "HARD"],
+      ["COMPLIANCE_MISSING", "HARD"],
+      ["COMPLIANCE_EXPIRED", "HARD"],
+      ["COMPLIANCE_MISSING", "SOFT"],
+      ["COMPLIANCE_EXPIRED", "SOFT"],
+    ])
+    expect(conflicts[1].details).toEqual({ requirements: ["BLS"] })
+    expect(conflicts[2].details).toEqual({ requirements: ["TB test"] })
+  })
+
+  it("grades required hours against the remaining window", () => {
+    // 20 weekdays across 26 days: 160 standard hours, 312 at the daily maximum
+    const conflicts = detectScheduleConflicts(
+      input({
+        focus: [
+          rotation({ id: "fits", requiredHours: 160 }),
+          rotation({ id: "tight", requiredHours: 200, studentId: "s2", clinicalSiteId: "site-b" }),
+          rotation({ id: "impossible", requiredHours: 400, studentId: "s3" }),
+        ],
+      }),
+      now
+    )
+
+    const hours = conflicts.filter((c) => c.type === "HOURS_DO_NOT_FIT")
+    expect(hours.map((c) => [c.rotationId, c.severity])).toEqual([
+      ["impossible", "HARD"],
+      ["tight", "SOFT"],
+    ])
+    expect(hasHardConflicts(hours)).toBe(true)
+    expect(hasHardConflicts(hours.filter((c) => c.severity === "SOFT"))).toBe(false)
+  })
+})
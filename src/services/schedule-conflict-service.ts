@@ -0,0 +1,735 @@
+import { and, eq, gte, inArray, isNull, lte, or, type SQL } from "drizzle-orm"
+import { db } from "../database/connection-pool"
+import {
+  clinicalSites,
+  cohorts,
+  complianceRequirements,
+  complianceSubmissions,
+  programComplianceRequirements,
+  rotations,
+  siteAssignments,
+  users,
+} from "../database/schema"
+
+/**
+ * Rotation conflict engine used by /api/schedule/conflicts and by the cohort
+ * rotation publish flow. Detection is pure (detectScheduleConflicts); the
+ * loaders gather the surrounding schedule so conflicts are found against every
+ * rotation at the same sites, preceptors and students, not just the filtered
+ * ones.
+ *
+ * HARD conflicts block publishing; SOFT conflicts are warnings.
+ */
+
+export type ConflictSeverity = "HARD" | "SOFT"
+
+export type ConflictType =
+  | "STUDENT_OVERLAP"
+  | "SITE_CAPACITY"
+  | "PRECEPTOR_DOUBLE_BOOKED"
+  | "OUTSIDE_COHORT_DATES"
+  | "COMPLIANCE_MISSING"
+  | "COMPLIANCE_EXPIRED"
+  | "HOURS_DO_NOT_FIT"
+
+export interface ScheduleConflict {
+  type: ConflictType
+  severity: ConflictSeverity
+  rotationId: string
+  relatedRotationIds: string[]
+  studentId?: string
+  clinicalSiteId?: string
+  preceptorId?: string
+  // Window in which the conflict applies (YYYY-MM-DD)
+  startDate?: string
+  endDate?: string
+  message: string
+  suggestedFix: string
+  details: Record<string, unknown>
+}
+
+export interface ScheduleRotation {
+  id: string
+  studentId: string
+  clinicalSiteId: string
+  preceptorId: string | null
+  programId: string | null
+  cohortId: string | null
+  startDate: Date | null
+  endDate: Date | null
+  requiredHours: number | null
+  completedHours: number
+  status: string
+}
+
+export interface ScheduleSiteAssignment {
+  id: string
+  studentId: string
+  clinicalSiteId: string
+  rotationId: string | null
+  startDate: Date | null
+  endDate: Date | null
+}
+
+export interface ComplianceRequirementRef {
+  id: string
+  name: string
+}
+
+export interface ComplianceSubmissionRef {
+  studentId: string
+  requirementId: string
+  status: string
+  expiresAt: Date | null
+}
+
+export interface ConflictEngineInput {
+  // Rotations to report on
+  focus: ScheduleRotation[]
+  // Every scheduled/active rotation that may collide with the focus set (may include focus)
+  context: ScheduleRotation[]
+  siteAssignments: ScheduleSiteAssignment[]
+  sites: Map<string, { name: string; capacity: number }>
+  cohorts: Map<string, { name: string; startDate: Date; endDate: Date }>
+  // Required compliance items per program
+  requirements: Map<string, ComplianceRequirementRef[]>
+  submissions: ComplianceSubmissionRef[]
+  // Fallback program for students whose rotation has no programId
+  studentPrograms: Map<string, string | null>
+  // Rotation ids the caller may see; others are counted but not listed
+  visibleRotationIds?: Set<string>
+}
+
+// Rotations that still occupy seats
+export const ACTIVE_ROTATION_STATUSES = ["SCHEDULED", "ACTIVE"] as const
+
+// A student cannot log more than this in one day
+export const MAX_CLINICAL_HOURS_PER_DAY = 12
+// Standard weekday shift used to flag tight schedules
+export const STANDARD_SHIFT_HOURS = 8
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+function dayIndex(date: Date): number {
+  return Math.floor(date.getTime() / DAY_MS)
+}
+
+function dayKey(index: number): string {
+  return new Date(index * DAY_MS).toISOString().slice(0, 10)
+}
+
+function hasDates(
+  rotation: ScheduleRotation
+): rotation is ScheduleRotation & { startDate: Date; endDate: Date } {
+  return rotation.startDate !== null && rotation.endDate !== null
+}
+
+function overlaps(a: ScheduleRotation, b: ScheduleRotation): boolean {
+  if (!hasDates(a) || !hasDates(b)) return false
+  return dayIndex(a.startDate) <= dayIndex(b.endDate) && dayIndex(b.startDate) <= dayIndex(a.endDate)
+}
+
+function isActive(rotation: ScheduleRotation): boolean {
+  return (ACTIVE_ROTATION_STATUSES as readonly string[]).includes(rotation.status)
+}
+
+function countWeekdays(fromDay: number, toDay: number): number {
+  let weekdays = 0
+  for (let day = fromDay; day <= toDay; day++) {
+    const weekday = new Date(day * DAY_MS).getUTCDay()
+    if (weekday !== 0 && weekday !== 6) weekdays++
+  }
+  return weekdays
+}
+
+export function hasHardConflicts(conflicts: ScheduleConflict[]): boolean {
+  return conflicts.some((conflict) => conflict.severity === "HARD")
+}
+
+export function summarizeConflicts(conflicts: ScheduleConflict[]) {
+  const byType: Partial<Record<ConflictType, number>> = {}
+  for (const conflict of conflicts) {
+    byType[conflict.type] = (byType[conflict.type] ?? 0) + 1
+  }
+  return {
+    total: conflicts.length,
+    hard: conflicts.filter((c) => c.severity === "HARD").length,
+    soft: conflicts.filter((c) => c.severity === "SOFT").length,
+    byType,
+    canPublish: !hasHardConflicts(conflicts),
+  }
+}
+
+function studentOverlapConflicts(input: ConflictEngineInput, all: ScheduleRotation[]) {
+  const conflicts: ScheduleConflict[] = []
+  const seen = new Set<string>()
+  for (const rotation of input.focus) {
+    for (const other of all) {
+      if (other.id === rotation.id || other.studentId !== rotation.studentId) continue
+      if (!overlaps(rotation, other)) continue
+      const pair = [rotation.id, other.id].sort().join(":")
+      if (seen.has(pair)) continue
+      seen.add(pair)
+
+      conflicts.push({
+        type: "STUDENT_OVERLAP",
+        severity: "HARD",
+        rotationId: rotation.id,
+        relatedRotationIds: [other.id],
+        studentId: rotation.studentId,
+        startDate: dayKey(Math.max(dayIndex(rotation.startDate!), dayIndex(other.startDate!))),
+        endDate: dayKey(Math.min(dayIndex(rotation.endDate!), dayIndex(other.endDate!))),
+        message: "Student is scheduled for two rotations at the same time",
+        suggestedFix: "Shift one rotation's dates or assign the student to a different block",
+        details: { with: other.id },
+      })
+    }
+  }
+  return conflicts
+}
+
+function preceptorConflicts(input: ConflictEngineInput, all: ScheduleRotation[]) {
+  const conflicts: ScheduleConflict[] = []
+  const seen = new Set<string>()
+  for (const rotation of input.focus) {
+    if (!rotation.preceptorId) continue
+    for (const other of all) {
+      if (other.id === rotation.id || other.preceptorId !== rotation.preceptorId) continue
+      // A preceptor can supervise several students at one site; other sites are a double booking
+      if (other.clinicalSiteId === rotation.clinicalSiteId || !overlaps(rotation, other)) continue
+      const pair = [rotation.id, other.id].sort().join(":")
+      if (seen.has(pair)) continue
+      seen.add(pair)
+
+      const otherSite = input.sites.get(other.clinicalSiteId)?.name ?? "another site"
+      conflicts.push({
+        type: "PRECEPTOR_DOUBLE_BOOKED",
+        severity: "HARD",
+        rotationId: rotation.id,
+        relatedRotationIds: [other.id],
+        preceptorId: rotation.preceptorId,
+        clinicalSiteId: rotation.clinicalSiteId,
+        startDate: dayKey(Math.max(dayIndex(rotation.startDate!), dayIndex(other.startDate!))),
+        endDate: dayKey(Math.min(dayIndex(rotation.endDate!), dayIndex(other.endDate!))),
+        message: `Preceptor is also assigned at ${otherSite} during this rotation`,
+        suggestedFix: "Assign a different preceptor or move one rotation to the same site",
+        details: { with: other.id, otherSiteId: other.clinicalSiteId },
+      })
+    }
+  }
+  return conflicts
+}
+
+function capacityConflicts(input: ConflictEngineInput, all: ScheduleRotation[]) {
+  const conflicts: ScheduleConflict[] = []
+  const focusIds = new Set(input.focus.map((r) => r.id))
+  const focusSites = new Set(input.focus.map((r) => r.clinicalSiteId))
+
+  for (const siteId of focusSites) {
+    const site = input.sites.get(siteId)
+    if (!site) continue
+
+    const siteRotations = all.filter((r) => r.clinicalSiteId === siteId && hasDates(r))
+    if (siteRotations.length === 0) continue
+    const countedRotationIds = new Set(siteRotations.map((r) => r.id))
+
+    const firstDay = Math.min(...siteRotations.map((r) => dayIndex(r.startDate!)))
+    const lastDay = Math.max(...siteRotations.map((r) => dayIndex(r.endDate!)))
+
+    // Sweep line over day-granularity occupancy changes
+    const deltas = new Map<number, number>()
+    const addInterval = (from: number, to: number) => {
+      const start = Math.max(from, firstDay)
+      const end = Math.min(to, lastDay)
+      if (start > end) return
+      deltas.set(start, (deltas.get(start) ?? 0) + 1)
+      deltas.set(end + 1, (deltas.get(end + 1) ?? 0) - 1)
+    }
+
+    for (const r of siteRotations) addInterval(dayIndex(r.startDate!), dayIndex(r.endDate!))
+    for (const a of input.siteAssignments) {
+      // Assignments backing a counted rotation would double count the same seat
+      if (a.clinicalSiteId !== siteId || (a.rotationId && countedRotationIds.has(a.rotationId))) {
+        continue
+      }
+      addInterval(
+        a.startDate ? dayIndex(a.startDate) : firstDay,
+        a.endDate ? dayIndex(a.endDate) : lastDay
+      )
+    }
+
+    const windows: Array<{ from: number; to: number; peak: number; peakDay: number }> = []
+    let occupancy = 0
+    let open: { from: number; peak: number; peakDay: number } | null = null
+    for (const day of [...deltas.keys()].sort((a, b) => a - b)) {
+      occupancy += deltas.get(day) ?? 0
+      if (occupancy > site.capacity) {
+        if (!open) open = { from: day, peak: occupancy, peakDay: day }
+        else if (occupancy > open.peak) {
+          open.peak = occupancy
+          open.peakDay = day
+        }
+      } else if (open) {
+        windows.push({ ...open, to: day - 1 })
+        open = null
+      }
+    }
+
+    for (const window of windows) {
+      const involved = siteRotations.filter(
+        (r) => dayIndex(r.startDate!) <= window.to && dayIndex(r.endDate!) >= window.from
+      )
+      const focusInvolved = involved.filter((r) => focusIds.has(r.id))
+      if (focusInvolved.length === 0) continue
+
+      // The latest-starting rotation is the one that pushed the site over capacity
+      const primary = [...focusInvolved].sort(
+        (a, b) => b.startDate!.getTime() - a.startDate!.getTime() || a.id.localeCompare(b.id)
+      )[0]
+      const overBy = window.peak - site.capacity
+
+      conflicts.push({
+        type: "SITE_CAPACITY",
+        severity: "HARD",
+        rotationId: primary.id,
+        relatedRotationIds: involved
+          .map((r) => r.id)
+          .filter(
+            (id) =>
+              id !== primary.id && (!input.visibleRotationIds || input.visibleRotationIds.has(id))
+          ),
+        clinicalSiteId: siteId,
+        startDate: dayKey(window.from),
+        endDate: dayKey(window.to),
+        message: `${site.name} is over capacity (${window.peak}/${site.capacity}) on ${dayKey(window.peakDay)}`,
+        suggestedFix: `Move ${overBy} student${overBy === 1 ? "" : "s"} to another site or shift dates outside ${dayKey(window.from)} – ${dayKey(window.to)}`,
+        details: {
+          capacity: site.capacity,
+          peakOccupancy: window.peak,
+          peakDate: dayKey(window.peakDay),
+          overBy,
+        },
+      })
+    }
+  }
+  return conflicts
+}
+
+function cohortDateConflicts(input: ConflictEngineInput) {
+  const conflicts: ScheduleConflict[] = []
+  for (const rotation of input.focus) {
+    if (!rotation.cohortId || !hasDates(rotation)) continue
+    const cohort = input.cohorts.get(rotation.cohortId)
+    if (!cohort) continue
+
+    const startsEarly = dayIndex(rotation.startDate) < dayIndex(cohort.startDate)
+    const endsLate = dayIndex(rotation.endDate) > dayIndex(cohort.endDate)
+    if (!startsEarly && !endsLate) continue
+
+    conflicts.push({
+      type: "OUTSIDE_COHORT_DATES",
+      severity: "HARD",
+      rotationId: rotation.id,
+      relatedRotationIds: [],
+      studentId: rotation.studentId,
+      startDate: dayKey(dayIndex(rotation.startDate)),
+      endDate: dayKey(dayIndex(rotation.endDate)),
+      message: startsEarly
+        ? `Rotation starts before ${cohort.name} begins (${dayKey(dayIndex(cohort.startDate))})`
+        : `Rotation ends after ${cohort.name} graduates (${dayKey(dayIndex(cohort.endDate))})`,
+      suggestedFix: `Keep the rotation between ${dayKey(dayIndex(cohort.startDate))} and ${dayKey(dayIndex(cohort.endDate))}`,
+      details: {
+        cohortStartDate: dayKey(dayIndex(cohort.startDate)),
+        cohortEndDate: dayKey(dayIndex(cohort.endDate)),
+      },
+    })
+  }
+  return conflicts
+}
+
+function complianceConflicts(input: ConflictEngineInput, now: Date) {
+  const conflicts: ScheduleConflict[] = []
+  const submissionsByStudent = new Map<string, ComplianceSubmissionRef[]>()
+  for (const submission of input.submissions) {
+    const list = submissionsByStudent.get(submission.studentId) ?? []
+    list.push(submission)
+    submissionsByStudent.set(submission.studentId, list)
+  }
+
+  for (const rotation of input.focus) {
+    const programId = rotation.programId ?? input.studentPrograms.get(rotation.studentId)
+    const requirements = programId ? input.requirements.get(programId) : undefined
+    if (!requirements?.length) continue
+
+    // Compliance must hold from the later of today and the rotation start
+    const checkFrom = rotation.startDate && rotation.startDate > now ? rotation.startDate : now
+    const submissions = submissionsByStudent.get(rotation.studentId) ?? []
+
+    const missing: string[] = []
+    const pending: string[] = []
+    const expired: string[] = []
+    const expiring: Array<{ name: string; expiresAt: string }> = []
+
+    for (const requirement of requirements) {
+      const forRequirement = submissions.filter((s) => s.requirementId === requirement.id)
+      const approved = forRequirement.filter((s) => s.status === "APPROVED")
+
+      if (approved.length === 0) {
+        const hadExpired = forRequirement.some((s) => s.status === "EXPIRED")
+        if (hadExpired) expired.push(requirement.name)
+        else if (forRequirement.some((s) => s.status === "PENDING")) pending.push(requirement.name)
+        else missing.push(requirement.name)
+        continue
+      }
+
+      // Latest expiry among approved submissions; null means it never expires
+      const expiresAt = approved.some((s) => !s.expiresAt)
+        ? null
+        : new Date(Math.max(...approved.map((s) => s.expiresAt!.getTime())))
+
+      if (expiresAt && expiresAt < checkFrom) {
+        expired.push(requirement.name)
+      } else if (expiresAt && rotation.endDate && expiresAt < rotation.endDate) {
+        expiring.push({ name: requirement.name, expiresAt: dayKey(dayIndex(expiresAt)) })
+      }
+    }
+
+    const base = {
+      rotationId: rotation.id,
+      relatedRotationIds: [],
+      studentId: rotation.studentId,
+    }
+    if (missing.length) {
+      conflicts.push({
+        ...base,
+        type: "COMPLIANCE_MISSING",
+        severity: "HARD",
+        message: `Missing required compliance: ${missing.join(", ")}`,
+        suggestedFix: "Collect and approve the missing submissions before the rotation starts",
+        details: { requirements: missing },
+      })
+    }
+    if (pending.length) {
+      conflicts.push({
+        ...base,
+        type: "COMPLIANCE_MISSING",
+        severity: "SOFT",
+        message: `Compliance awaiting review: ${pending.join(", ")}`,
+        suggestedFix: "Review the pending submissions",
+        details: { requirements: pending, pendingReview: true },
+      })
+    }
+    if (expired.length) {
+      conflicts.push({
+        ...base,
+        type: "COMPLIANCE_EXPIRED",
+        severity: "HARD",
+        message: `Expired compliance: ${expired.join(", ")}`,
+        suggestedFix: "Ask the student to renew the expired items",
+        details: { requirements: expired },
+      })
+    }
+    if (expiring.length) {
+      conflicts.push({
+        ...base,
+        type: "COMPLIANCE_EXPIRED",
+        severity: "SOFT",
+        message: `Compliance expires during the rotation: ${expiring
+          .map((e) => `${e.name} (${e.expiresAt})`)
+          .join(", ")}`,
+        suggestedFix: "Have the student renew these items before they lapse",
+        details: { requirements: expiring },
+      })
+    }
+  }
+  return conflicts
+}
+
+function hoursConflicts(input: ConflictEngineInput, now: Date) {
+  const conflicts: ScheduleConflict[] = []
+  const today = dayIndex(now)
+  for (const rotation of input.focus) {
+    if (!hasDates(rotation) || !rotation.requiredHours) continue
+    const remaining = Math.max(rotation.requiredHours - rotation.completedHours, 0)
+    if (remaining === 0) continue
+
+    const fromDay = Math.max(dayIndex(rotation.startDate), today)
+    const toDay = dayIndex(rotation.endDate)
+    const days = Math.max(toDay - fromDay + 1, 0)
+    const weekdays = days > 0 ? countWeekdays(fromDay, toDay) : 0
+    const maxPossible = days * MAX_CLINICAL_HOURS_PER_DAY
+    const standardCapacity = weekdays * STANDARD_SHIFT_HOURS
+
+    if (remaining <= standardCapacity) continue
+
+    const hard = remaining > maxPossible
+    const extraDays = Math.ceil((remaining - standardCapacity) / STANDARD_SHIFT_HOURS)
+    conflicts.push({
+      type: "HOURS_DO_NOT_FIT",
+      severity: hard ? "HARD" : "SOFT",
+      rotationId: rotation.id,
+      relatedRotationIds: [],
+      studentId: rotation.studentId,
+      startDate: days > 0 ? dayKey(fromDay) : undefined,
+      endDate: dayKey(toDay),
+      message: hard
+        ? `${remaining} hours remain but at most ${maxPossible} fit before the rotation ends`
+        : `${remaining} hours remain; this needs more than ${STANDARD_SHIFT_HOURS}-hour weekday shifts`,
+      suggestedFix: `Extend the rotation by about ${extraDays} weekdays or reduce required hours`,
+      details: { remainingHours: remaining, availableDays: days, weekdays, maxPossible },
+    })
+  }
+  return conflicts
+}
+
+/**
+ * Run every conflict check for the focus rotations against their context.
+ */
+export function detectScheduleConflicts(
+  input: ConflictEngineInput,
+  now: Date = new Date()
+): ScheduleConflict[] {
+  const byId = new Map<string, ScheduleRotation>()
+  for (const rotation of [...input.context, ...input.focus]) {
+    if (isActive(rotation)) byId.set(rotation.id, rotation)
+  }
+  const all = [...byId.values()]
+  const focus = input.focus.filter(isActive)
+  const scoped = { ...input, focus }
+
+  const severityRank: Record<ConflictSeverity, number> = { HARD: 0, SOFT: 1 }
+  return [
+    ...studentOverlapConflicts(scoped, all),
+    ...capacityConflicts(scoped, all),
+    ...preceptorConflicts(scoped, all),
+    ...cohortDateConflicts(scoped),
+    ...complianceConflicts(scoped, now),
+    ...hoursConflicts(scoped, now),
+  ].sort((a, b) => severityRank[a.severity] - severityRank[b.severity])
+}
+
+const rotationColumns = {
+  id: rotations.id,
+  studentId: rotations.studentId,
+  clinicalSiteId: rotations.clinicalSiteId,
+  preceptorId: rotations.preceptorId,
+  programId: rotations.programId,
+  cohortId: rotations.cohortId,
+  startDate: rotations.startDate,
+  endDate: rotations.endDate,
+  requiredHours: rotations.requiredHours,
+  completedHours: rotations.completedHours,
+  status: rotations.status,
+}
+
+/**
+ * Load everything the engine needs around a set of focus rotations (existing
+ * or proposed). schoolId limits which colliding rotations are listed back.
+ */
+export async function loadConflictContext(
+  focus: ScheduleRotation[],
+  schoolId: string | null
+): Promise<ConflictEngineInput> {
+  const dated = focus.filter(hasDates)
+  const siteIds = [...new Set(focus.map((r) => r.clinicalSiteId))]
+  const studentIds = [...new Set(focus.map((r) => r.studentId))]
+  const preceptorIds = [...new Set(focus.map((r) => r.preceptorId).filter(Boolean))] as string[]
+  const cohortIds = [...new Set(focus.map((r) => r.cohortId).filter(Boolean))] as string[]
+
+  const empty: ConflictEngineInput = {
+    focus,
+    context: [],
+    siteAssignments: [],
+    sites: new Map(),
+    cohorts: new Map(),
+    requirements: new Map(),
+    submissions: [],
+    studentPrograms: new Map(),
+  }
+  if (focus.length === 0) return empty
+
+  let context: Array<ScheduleRotation & { schoolId: string | null }> = []
+  let assignments: ScheduleSiteAssignment[] = []
+  if (dated.length > 0) {
+    const windowStart = new Date(Math.min(...dated.map((r) => r.startDate.getTime())))
+    const windowEnd = new Date(Math.max(...dated.map((r) => r.endDate.getTime())))
+
+    const related: SQL[] = [inArray(rotations.clinicalSiteId, siteIds)]
+    related.push(inArray(rotations.studentId, studentIds))
+    if (preceptorIds.length) related.push(inArray(rotations.preceptorId, preceptorIds))
+
+    context = await db
+      .select({ ...rotationColumns, schoolId: users.schoolId })
+      .from(rotations)
+      .innerJoin(users, eq(rotations.studentId, users.id))
+      .where(
+        and(
+          inArray(rotations.status, [...ACTIVE_ROTATION_STATUSES]),
+          lte(rotations.startDate, windowEnd),
+          gte(rotations.endDate, windowStart),
+          or(...related)
+        )
+      )
+
+    assignments = await db
+      .select({
+        id: siteAssignments.id,
+        studentId: siteAssignments.studentId,
+        clinicalSiteId: siteAssignments.clinicalSiteId,
+        rotationId: siteAssignments.rotationId,
+        startDate: siteAssignments.startDate,
+        endDate: siteAssignments.endDate,
+      })
+      .from(siteAssignments)
+      .where(
+        and(
+          inArray(siteAssignments.clinicalSiteId, siteIds),
+          eq(siteAssignments.status, "ACTIVE"),
+          or(isNull(siteAssignments.startDate), lte(siteAssignments.startDate, windowEnd)),
+          or(isNull(siteAssignments.endDate), gte(siteAssignments.endDate, windowStart))
+        )
+      )
+  }
+
+  const allSiteIds = [...new Set([...siteIds, ...context.map((r) => r.clinicalSiteId)])]
+  const siteRows = await db
+    .select({ id: clinicalSites.id, name: clinicalSites.name, capacity: clinicalSites.capacity })
+    .from(clinicalSites)
+    .where(inArray(clinicalSites.id, allSiteIds))
+
+  const cohortRows = cohortIds.length
+    ? await db
+        .select({
+          id: cohorts.id,
+          name: cohorts.name,
+          startDate: cohorts.startDate,
+          endDate: cohorts.endDate,
+        })
+        .from(cohorts)
+        .where(inArray(cohorts.id, cohortIds))
+    : []
+
+  const studentRows = await db
+    .select({ id: users.id, programId: users.programId })
+    .from(users)
+    .where(inArray(users.id, studentIds))
+  const studentPrograms = new Map(studentRows.map((s) => [s.id, s.programId]))
+
+  const programIds = [
+    ...new Set(
+      focus
+        .map((r) => r.programId ?? studentPrograms.get(r.studentId))
+        .filter((id): id is string => Boolean(id))
+    ),
+  ]
+  const requirementRows = programIds.length
+    ? await db
+        .select({
+          programId: programComplianceRequirements.programId,
+          id: complianceRequirements.id,
+          name: complianceRequirements.name,
+        })
+        .from(programComplianceRequirements)
+        .innerJoin(
+          complianceRequirements,
+          eq(programComplianceRequirements.requirementId, complianceRequirements.id)
+        )
+        .where(
+          and(
+            inArray(programComplianceRequirements.programId, programIds),
+            eq(complianceRequirements.isActive, true),
+            eq(complianceRequirements.isRequired, true)
+          )
+        )
+    : []
+
+  const requirements = new Map<string, ComplianceRequirementRef[]>()
+  for (const row of requirementRows) {
+    const list = requirements.get(row.programId) ?? []
+    list.push({ id: row.id, name: row.name })
+    requirements.set(row.programId, list)
+  }
+
+  const requirementIds = [...new Set(requirementRows.map((r) => r.id))]
+  const submissions = requirementIds.length
+    ? await db
+        .select({
+          studentId: complianceSubmissions.studentId,
+          requirementId: complianceSubmissions.requirementId,
+          status: complianceSubmissions.status,
+          expiresAt: complianceSubmissions.expiresAt,
+        })
+        .from(complianceSubmissions)
+        .where(
+          and(
+            inArray(complianceSubmissions.studentId, studentIds),
+            inArray(complianceSubmissions.requirementId, requirementIds)
+          )
+        )
+    : []
+
+  const visibleRotationIds = new Set([
+    ...focus.map((r) => r.id),
+    ...context.filter((r) => !schoolId || r.schoolId === schoolId).map((r) => r.id),
+  ])
+
+  return {
+    focus,
+    context,
+    siteAssignments: assignments,
+    sites: new Map(siteRows.map((s) => [s.id, { name: s.name, capacity: s.capacity }])),
+    cohorts: new Map(cohortRows.map((c) => [c.id, c])),
+    requirements,
+    submissions,
+    studentPrograms,
+    visibleRotationIds,
+  }
+}
+
+export interface ConflictFilters {
+  schoolId: string | null
+  studentId?: string | null
+  siteId?: string | null
+  cohortId?: string | null
+  cohortRotationAssignmentId?: string | null
+  startDate?: Date | null
+  endDate?: Date | null
+}
+
+/**
+ * Find conflicts for existing scheduled/active rotations matching the filters.
+ */
+export async function findScheduleConflicts(filters: ConflictFilters, now: Date = new Date()) {
+  const conditions: SQL[] = [inArray(rotations.status, [...ACTIVE_ROTATION_STATUSES])]
+  if (filters.schoolId) conditions.push(eq(users.schoolId, filters.schoolId))
+  if (filters.studentId) conditions.push(eq(rotations.studentId, filters.studentId))
+  if (filters.siteId) conditions.push(eq(rotations.clinicalSiteId, filters.siteId))
+  if (filters.cohortId) conditions.push(eq(rotations.cohortId, filters.cohortId))
+  if (filters.cohortRotationAssignmentId) {
+    conditions.push(eq(rotations.cohortRotationAssignmentId, filters.cohortRotationAssignmentId))
+  }
+  // Rotations overlapping the requested window
+  if (filters.startDate) conditions.push(gte(rotations.endDate, filters.startDate))
+  if (filters.endDate) conditions.push(lte(rotations.startDate, filters.endDate))
+
+  const focus = await db
+    .select(rotationColumns)
+    .from(rotations)
+    .innerJoin(users, eq(rotations.studentId, users.id))
+    .where(and(...conditions))
+
+  const input = await loadConflictContext(focus, filters.schoolId)
+  return { rotationCount: focus.length, conflicts: detectScheduleConflicts(input, now) }
+}
+
+/**
+ * Check rotations that are about to be created (not yet in the database).
+ */
+export async function checkProposedRotations(
+  proposed: ScheduleRotation[],
+  schoolId: string | null,
+  now: Date = new Date()
+) {
+  const input = await loadConflictContext(proposed, schoolId)
+  return detectScheduleConflicts(input, now)
+}
@@ -8,6 +8,14 @@ vi.mock('@clerk/nextjs/server', () => ({
     currentUser: vi.fn(),
 }))
 
+vi.mock('@/lib/webhooks', () => ({
+    emitWebhookEvent: vi.fn().mockResolvedValue(0),
+}))
+
+vi.mock('@/workers/job-runner', () => ({
+    processNextJob: vi.fn().mockResolvedValue(null),
+}))
+
 vi.mock('@/database/db', async () => {
     const { dbMock } = await import('../mocks/stateful-db')
     return {
@@ -12,6 +12,7 @@ vi.mock('@/database/connection-pool', () => ({
         select: vi.fn(),
         update: vi.fn(),
         delete: vi.fn(),
+        transaction: vi.fn(),
     }
 }));
 
@@ -19,6 +20,14 @@ vi.mock('@/lib/auth-clerk', () => ({
     getCurrentUser: vi.fn()
 }));
 
+vi.mock('@/lib/logger', () => ({
+    logger: { info: vi.fn(), error: vi.fn() }
+}));
+
+vi.mock('@/lib/notification-service', () => ({
+    sendNotificationToUsers: vi.fn()
+}));
+
 vi.mock('next/cache', () => ({
     revalidatePath: vi.fn()
 }));
@@ -87,19 +96,59 @@ describe('Admin Competency Workflow', () => {
             updatedAt: new Date()
         }];
 
-        vi.mocked(db.update).mockReturnValue({
-            set: vi.fn().mockReturnValue({
+        const current = {
+            id: competencyId,
+            name: 'Venipuncture',
+            description: 'Perform venipuncture correctly',
+            category: 'Clinical Skills',
+            level: 'FUNDAMENTAL',
+            isRequired: true,
+            programId: 'program-1',
+            criteria: null,
+            version: '1.0',
+            schoolId: mockUser.schoolId
+        };
+
+        // Mock school ownership check
+        vi.mocked(db.select).mockReturnValue({
+            from: vi.fn().mockReturnValue({
                 where: vi.fn().mockReturnValue({
-                    returning: vi.fn().mockResolvedValue(mockUpdateReturn)
+                    limit: vi.fn().mockResolvedValue([{ schoolId: mockUser.schoolId }])
                 })
             })
         } as any);
 
+        const versionValues = vi.fn().mockResolvedValue(undefined);
+        const updateSet = vi.fn().mockReturnValue({
+            where: vi.fn().mockReturnValue({
+                returning: vi.fn().mockResolvedValue(mockUpdateReturn)
+            })
+        });
+        const tx = {
+            select: vi.fn().mockReturnValue({
+                from: vi.fn().mockReturnValue({
+                    where: vi.fn().mockReturnValue({
+                        for: vi.fn().mockResolvedValue([current])
+                    })
+                })
+            }),
+            insert: vi.fn().mockReturnValue({ values: versionValues }),
+            update: vi.fn().mockReturnValue({ set: updateSet })
+        };
+        vi.mocked(db.transaction).mockImplementation(async (callback: any) => callback(tx));
+
         const result = await updateCompetency(competencyId, updateData);
 
         expect(result.success).toBe(true);
         expect(result.data).toEqual(mockUpdateReturn[0]);
-        expect(db.update).toHaveBeenCalled();
+        expect(tx.update).toHaveBeenCalled();
+        // The previous content is kept as version 1.0 and the edit becomes 1.1
+        expect(versionValues).toHaveBeenCalledWith(
+            expect.objectContaining({ competencyId, versionNumber: '1.0', createdBy: mockUser.id })
+        );
+        expect(updateSet).toHaveBeenCalledWith(
+            expect.objectContaining({ name: updateData.name, level: updateData.level, version: '1.1' })
+        );
         expect(revalidatePath).toHaveBeenCalledWith('/dashboard/school-admin/programs');
     });
 
@@ -26,6 +26,10 @@ vi.mock('@/lib/transaction-batcher', () => ({
     }
 }));
 
+vi.mock('@/lib/audit-chain', () => ({
+    appendAuditLog: vi.fn().mockResolvedValue({}),
+}));
+
 vi.mock('@/database/connection-pool', () => ({
     db: {
         execute: vi.fn(),
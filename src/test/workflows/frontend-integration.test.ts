@@ -37,6 +37,11 @@ vi.mock('@/lib/csrf-middleware', () => ({
     withCSRF: (handler: any) => handler,
 }));
 
+// Mock the audit hash chain (needs row locks the stateful mock does not support)
+vi.mock('@/lib/audit-chain', () => ({
+    appendAuditLog: vi.fn().mockResolvedValue({}),
+}));
+
 // Mock Schema to ensure singleton
 vi.mock('../../../database/schema', async () => {
     return await vi.importActual('@/database/schema');
@@ -19,7 +19,28 @@ vi.mock('@/database/db', async () => {
 })
 
 vi.mock('@/lib/email-service', () => ({
-    sendInvitationEmail: vi.fn().mockResolvedValue(true),
+    buildInvitationEmail: vi.fn().mockReturnValue({ subject: 'Invitation', html: '<p>Join</p>', text: 'Join' }),
+}))
+
+vi.mock('@/lib/queue', () => ({
+    QueueManager: { add: vi.fn().mockResolvedValue({ id: 'job-1' }) },
+}))
+
+vi.mock('@/workers/job-runner', () => ({
+    processNextJob: vi.fn().mockResolvedValue(null),
+}))
+
+vi.mock('next/server', async () => {
+    const actual = await vi.importActual('next/server')
+    return { ...actual, after: vi.fn() }
+})
+
+vi.mock('@/lib/webhooks', () => ({
+    emitWebhookEvent: vi.fn().mockResolvedValue(0),
+}))
+
+vi.mock('@/lib/seat-lifecycle', () => ({
+    assignSchoolSeat: vi.fn().mockResolvedValue({ ok: true, alreadyAssigned: false, expandedBy: 0 }),
 }))
 
 vi.mock('@/lib/auth-utils', () => ({
@@ -135,6 +156,13 @@ describe('Invite System Workflow', () => {
         const invites = await dbMock.select().from(invitations)
         expect(invites).toHaveLength(1)
         expect(invites[0].invitedBy).toBe(adminUser.id)
+
+        // The email goes through the queue so provider outages are retried
+        const { QueueManager } = await import('@/lib/queue')
+        expect(QueueManager.add).toHaveBeenCalledWith('EMAIL', expect.objectContaining({
+            to: 'new-student@test.com',
+            subject: 'Invitation',
+        }))
     })
 
     it('should prevent Students from sending invitations', async () => {
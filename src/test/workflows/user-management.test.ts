@@ -1,7 +1,8 @@
 import { describe, it, expect, vi, beforeEach } from 'vitest'
 import { POST } from '@/app/api/user/update/route'
 import { dbMock } from '@/test/mocks/stateful-db'
-import { users } from '@/database/schema'
+import { evaluationSignatures, evaluations, users } from '@/database/schema'
+import { hashEvaluationContent } from '@/lib/evaluation-signatures'
 import { NextRequest } from 'next/server'
 
 // Mock Clerk auth
@@ -27,6 +28,13 @@ vi.mock('@/database/connection-pool', () => ({
     }
 }))
 
+vi.mock('@/lib/webhooks', () => ({ emitWebhookEvent: vi.fn().mockResolvedValue(0) }))
+
+// Audit chaining takes a row lock the mock cannot provide
+vi.mock('@/lib/audit-chain', () => ({
+    appendAuditLog: vi.fn().mockResolvedValue(undefined)
+}))
+
 import { auth } from '@clerk/nextjs/server'
 
 describe('User Management Workflow', () => {
@@ -36,6 +44,8 @@ describe('User Management Workflow', () => {
 
         // Register tables
         dbMock.registerTable(users, 'users')
+        dbMock.registerTable(evaluations, 'evaluations')
+        dbMock.registerTable(evaluationSignatures, 'evaluation_signatures')
     })
 
     it('should create a new user when they do not exist', async () => {
@@ -143,6 +153,69 @@ describe('User Management Workflow', () => {
         expect(storedUser.address).toBe(updateData.address)
     })
 
+    it('should relink an existing account with signed evaluations to the new user id', async () => {
+        const oldId = 'user_old'
+        const userId = 'user_new'
+        const email = 'signed@example.com'
+
+        await (dbMock.insert(users).values({
+            id: oldId,
+            email,
+            name: 'Signed Student',
+            role: 'STUDENT',
+            isActive: true
+        }) as any)
+        const evaluation = {
+            id: 'eval-1',
+            assignmentId: 'assignment-1',
+            studentId: oldId,
+            evaluatorId: 'preceptor-1',
+            rotationId: 'rotation-1',
+            type: 'FINAL',
+            observationDate: new Date('2026-03-01T00:00:00Z'),
+            overallRating: 4,
+            studentComment: 'I agree with this evaluation',
+            studentCommentType: 'ATTESTATION'
+        } as any
+        await (dbMock.insert(evaluations).values(evaluation) as any)
+        await (dbMock.insert(evaluationSignatures).values({
+            id: 'sig-1',
+            evaluationId: evaluation.id,
+            signerId: oldId,
+            signerRole: 'STUDENT',
+            signedName: 'Signed Student',
+            contentHash: hashEvaluationContent(evaluation, 'STUDENT')
+        }) as any)
+
+        vi.mocked(auth).mockResolvedValue({ userId } as any)
+        global.fetch = vi.fn().mockResolvedValue({
+            ok: true,
+            json: async () => ({
+                email_addresses: [{ email_address: email }],
+                first_name: 'Signed',
+                last_name: 'Student'
+            })
+        })
+
+        const req = new NextRequest('http://localhost:3000/api/user/update', {
+            method: 'POST',
+            body: JSON.stringify({ phone: '555-0199' })
+        })
+
+        const response = await POST(req)
+
+        expect(response.status).toBe(200)
+        expect(dbMock.getById('users', oldId)).toBeUndefined()
+        expect(dbMock.getById('users', userId).email).toBe(email)
+
+        // Nothing may still reference the deleted user, and the signature must stay valid
+        const signature = dbMock.getById('evaluation_signatures', 'sig-1')
+        const relinked = dbMock.getById('evaluations', evaluation.id)
+        expect(signature.signerId).toBe(userId)
+        expect(relinked.studentId).toBe(userId)
+        expect(hashEvaluationContent(relinked, 'STUDENT')).toBe(signature.contentHash)
+    })
+
     it('should handle unauthorized access', async () => {
         // Mock no auth
         vi.mocked(auth).mockResolvedValue({ userId: null } as any)
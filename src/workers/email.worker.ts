@@ -1,5 +1,32 @@
+import type { Job } from "@/database/schema"
+import { sendEmail } from "@/lib/email-service"
 
-export async function processNextJob() {
-    console.warn('[Worker] processNextJob called but not implemented.');
-    return null;
+interface EmailJobPayload {
+  to: string | string[]
+  subject: string
+  body?: string
+  html?: string
+}
+
+/**
+ * Process an EMAIL job. Throws when delivery fails so the job runner can
+ * record the failure.
+ */
+export async function processEmailJob(job: Job) {
+  const payload = job.payload as Partial<EmailJobPayload>
+  if (!payload.to || !payload.subject) {
+    throw new Error("EMAIL job is missing recipient or subject")
+  }
+
+  const sent = await sendEmail({
+    to: payload.to,
+    subject: payload.subject,
+    text: payload.body,
+    html: payload.html,
+  })
+  if (!sent) {
+    throw new Error("Email could not be delivered")
+  }
+
+  return { sent }
 }
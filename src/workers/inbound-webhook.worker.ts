@@ -0,0 +1,19 @@
+import type { Job } from "@/database/schema"
+import { processInboundWebhookEvent } from "@/lib/inbound-webhooks"
+
+interface InboundWebhookJobPayload {
+  eventId: string
+}
+
+/**
+ * Process an INBOUND_WEBHOOK job. Throws when the event handler fails so the
+ * job runner schedules a retry.
+ */
+export async function processInboundWebhookJob(job: Job) {
+  const payload = job.payload as Partial<InboundWebhookJobPayload>
+  if (!payload.eventId) {
+    throw new Error("INBOUND_WEBHOOK job is missing eventId")
+  }
+
+  return processInboundWebhookEvent(payload.eventId, job.attempts >= job.maxAttempts)
+}
@@ -0,0 +1,85 @@
+import type { Job } from "@/database/schema"
+import { type JobType, QueueManager, type RequeueHook } from "@/lib/queue"
+import { logger } from "@/lib/logger"
+import { reopenRequeuedDeliveries } from "@/lib/webhooks"
+import { processEmailJob } from "./email.worker"
+import { processInboundWebhookJob } from "./inbound-webhook.worker"
+import { processReportJob } from "./report.worker"
+import { processWebhookJob } from "./webhook.worker"
+
+const handlers: Record<JobType, (job: Job) => Promise<unknown>> = {
+  EMAIL: processEmailJob,
+  REPORT: processReportJob,
+  WEBHOOK: processWebhookJob,
+  INBOUND_WEBHOOK: processInboundWebhookJob,
+}
+
+// State kept outside the job that has to reopen when a dead job is requeued
+const requeueHooks: Partial<Record<JobType, RequeueHook>> = {
+  WEBHOOK: reopenRequeuedDeliveries,
+}
+
+export interface ProcessedJob {
+  jobId: string
+  type: string
+  status: "COMPLETED" | "RETRY_SCHEDULED" | "DEAD"
+  error?: string
+  retryAt?: Date
+}
+
+/**
+ * Lock the next due job, dispatch it to its handler and record the outcome.
+ * Returns null when no job is pending.
+ */
+export async function processNextJob(types?: JobType[]): Promise<ProcessedJob | null> {
+  const job = await QueueManager.getNextJob(types)
+  if (!job) return null
+
+  const handler = handlers[job.type as JobType]
+  try {
+    if (!handler) {
+      throw new Error(`No handler registered for job type ${job.type}`)
+    }
+    await handler(job)
+    await QueueManager.complete(job.id)
+    return { jobId: job.id, type: job.type, status: "COMPLETED" }
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error)
+    logger.error({ err: error, jobId: job.id, type: job.type }, "Job failed")
+    const outcome = await QueueManager.fail(job.id, message)
+    if (outcome?.status === "PENDING") {
+      return {
+        jobId: job.id,
+        type: job.type,
+        status: "RETRY_SCHEDULED",
+        error: message,
+        retryAt: outcome.runAt,
+      }
+    }
+    return { jobId: job.id, type: job.type, status: "DEAD", error: message }
+  }
+}
+
+/**
+ * Process due jobs until none are left or `budgetMs` has passed, e.g. from a
+ * cron invocation. A job started before the deadline runs to completion, and
+ * retried jobs wait for their backoff rather than looping here.
+ */
+export async function drainJobs(budgetMs: number, types?: JobType[]): Promise<ProcessedJob[]> {
+  const deadline = Date.now() + budgetMs
+  const results: ProcessedJob[] = []
+  while (Date.now() < deadline) {
+    const result = await processNextJob(types)
+    if (!result) break
+    results.push(result)
+  }
+  return results
+}
+
+/**
+ * Requeue dead jobs together with the state their handlers expect, e.g. a
+ * failed webhook delivery.
+ */
+export function requeueDeadJobs(options?: { jobIds?: string[]; type?: JobType }) {
+  return QueueManager.requeueDead(options, requeueHooks)
+}
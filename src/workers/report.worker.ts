@@ -0,0 +1,19 @@
+import type { Job } from "@/database/schema"
+import { type ReportJobPayload, runScheduledReport } from "@/lib/reports/scheduled-report-runner"
+
+/**
+ * Process a REPORT job enqueued by enqueueDueScheduledReports.
+ * Throws when the report fails so the job runner can record the failure.
+ */
+export async function processReportJob(job: Job) {
+  const payload = job.payload as Partial<ReportJobPayload>
+  if (!payload.scheduledReportId) {
+    throw new Error("REPORT job is missing scheduledReportId")
+  }
+
+  return await runScheduledReport(payload.scheduledReportId, {
+    trigger: "SCHEDULED",
+    runId: payload.runId,
+    jobId: job.id,
+  })
+}
@@ -0,0 +1,19 @@
+import type { Job } from "@/database/schema"
+import { deliverWebhook } from "@/lib/webhooks"
+
+interface WebhookJobPayload {
+  deliveryId: string
+}
+
+/**
+ * Process a WEBHOOK job. Throws when the endpoint rejects the event so the
+ * job runner schedules a retry.
+ */
+export async function processWebhookJob(job: Job) {
+  const payload = job.payload as Partial<WebhookJobPayload>
+  if (!payload.deliveryId) {
+    throw new Error("WEBHOOK job is missing deliveryId")
+  }
+
+  return deliverWebhook(payload.deliveryId, job.attempts >= job.maxAttempts)
+}